@@ -10,6 +10,9 @@ public enum ErrorCode: String, Codable, Sendable {
     case agentTimeout = "AGENT_TIMEOUT"
     case invalidRequest = "INVALID_REQUEST"
     case unavailable = "UNAVAILABLE"
+    case unauthorized = "UNAUTHORIZED"
+    case notFound = "NOT_FOUND"
+    case quotaExceeded = "QUOTA_EXCEEDED"
 }
 
 public struct ConnectParams: Codable, Sendable {
@@ -1995,14 +1998,22 @@ public struct ModelsListParams: Codable, Sendable {
 
 public struct ModelsListResult: Codable, Sendable {
     public let models: [ModelChoice]
+    public let defaultmodel: String?
+    public let downgradedto: String?
 
     public init(
-        models: [ModelChoice]
+        models: [ModelChoice],
+        defaultmodel: String?,
+        downgradedto: String?
     ) {
         self.models = models
+        self.defaultmodel = defaultmodel
+        self.downgradedto = downgradedto
     }
     private enum CodingKeys: String, CodingKey {
         case models
+        case defaultmodel = "defaultModel"
+        case downgradedto = "downgradedTo"
     }
 }
 
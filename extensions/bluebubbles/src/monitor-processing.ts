@@ -326,6 +326,8 @@ export async function processMessage(
       kind: isGroup ? "group" : "direct",
       id: peerId,
     },
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text,
   });
 
   // Mention gating for group chats (parity with iMessage/WhatsApp)
@@ -988,6 +990,8 @@ export async function processReaction(
       kind: reaction.isGroup ? "group" : "direct",
       id: peerId,
     },
+    // OPENCLAWMU ADDITION: text/language binding conditions match the reaction emoji
+    text: reaction.emoji,
   });
 
   const senderLabel = reaction.senderName || reaction.senderId;
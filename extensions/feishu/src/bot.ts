@@ -713,6 +713,8 @@ export async function handleFeishuMessage(params: {
         kind: isGroup ? "group" : "direct",
         id: peerId,
       },
+      // OPENCLAWMU ADDITION: text/language binding conditions
+      text: ctx.content,
     });
 
     // Dynamic agent creation for DM users
@@ -737,6 +739,8 @@ export async function handleFeishuMessage(params: {
             channel: "feishu",
             accountId: account.accountId,
             peer: { kind: "direct", id: ctx.senderOpenId },
+            // OPENCLAWMU ADDITION: text/language binding conditions
+            text: ctx.content,
           });
           log(
             `feishu[${account.accountId}]: dynamic agent created, new route: ${route.sessionKey}`,
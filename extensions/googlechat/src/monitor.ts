@@ -634,6 +634,8 @@ async function processMessageWithPipeline(params: {
       kind: isGroup ? "group" : "direct",
       id: spaceId,
     },
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: messageText,
   });
 
   let mediaPath: string | undefined;
@@ -237,6 +237,8 @@ export async function handleIrcInbound(params: {
       kind: message.isGroup ? "group" : "direct",
       id: peerId,
     },
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: rawBody,
   });
 
   const fromLabel = message.isGroup ? message.target : senderDisplay;
@@ -442,6 +442,8 @@ export function createMatrixRoomMessageHandler(params: MatrixMonitorHandlerParam
           kind: isDirectMessage ? "direct" : "channel",
           id: isDirectMessage ? senderId : roomId,
         },
+        // OPENCLAWMU ADDITION: text/language binding conditions
+        text: rawBody,
       });
 
       const route = {
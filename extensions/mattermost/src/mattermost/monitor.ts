@@ -513,6 +513,8 @@ export async function monitorMattermostProvider(opts: MonitorMattermostOpts = {}
         kind,
         id: kind === "direct" ? senderId : channelId,
       },
+      // OPENCLAWMU ADDITION: text/language binding conditions
+      text: rawText,
     });
 
     const baseSessionKey = route.sessionKey;
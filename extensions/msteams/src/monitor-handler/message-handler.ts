@@ -344,6 +344,8 @@ export function createMSTeamsMessageHandler(deps: MSTeamsMessageHandlerDeps) {
         kind: isDirectMessage ? "direct" : isChannel ? "channel" : "group",
         id: isDirectMessage ? senderId : conversationId,
       },
+      // OPENCLAWMU ADDITION: text/language binding conditions
+      text,
     });
 
     const preview = rawBody.replace(/\s+/g, " ").slice(0, 160);
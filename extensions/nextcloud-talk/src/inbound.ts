@@ -236,6 +236,8 @@ export async function handleNextcloudTalkInbound(params: {
       kind: isGroup ? "group" : "direct",
       id: isGroup ? roomToken : senderId,
     },
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: rawBody,
   });
 
   const fromLabel = isGroup ? `room:${roomName || roomToken}` : senderName || `user:${senderId}`;
@@ -362,6 +362,8 @@ export async function monitorTlonProvider(opts: MonitorTlonOpts = {}): Promise<v
         kind: isGroup ? "group" : "direct",
         id: isGroup ? (groupChannel ?? senderShip) : senderShip,
       },
+      // OPENCLAWMU ADDITION: text/language binding conditions
+      text: params.messageText,
     });
 
     const fromLabel = isGroup ? `${senderShip} in ${groupName}` : senderShip;
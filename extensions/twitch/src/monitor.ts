@@ -56,6 +56,8 @@ async function processTwitchMessage(params: {
       kind: "group", // Twitch chat is always group-like
       id: message.channel,
     },
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: message.message,
   });
 
   const rawBody = message.message;
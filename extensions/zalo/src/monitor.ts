@@ -506,6 +506,8 @@ async function processMessageWithPipeline(params: {
       kind: isGroup ? "group" : "direct",
       id: chatId,
     },
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text,
   });
 
   if (
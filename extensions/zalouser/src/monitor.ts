@@ -285,6 +285,8 @@ async function processMessage(
       kind: peer.kind,
       id: peer.id,
     },
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: rawBody,
   });
 
   const fromLabel = isGroup ? `group:${chatId}` : senderName || `user:${senderId}`;
@@ -63,6 +63,25 @@ export type ResolvedMemorySearchConfig = {
       textWeight: number;
       candidateMultiplier: number;
     };
+    /** OPENCLAWMU ADDITION: post-retrieval rerankers (memory/rerank.ts). */
+    rerank: {
+      crossEncoder: {
+        enabled: boolean;
+        modelPath: string;
+        modelCacheDir?: string;
+        weight: number;
+        maxCandidates: number;
+      };
+      recency: {
+        enabled: boolean;
+        halfLifeDays: { memory: number; sessions: number };
+        floor: number;
+      };
+      mmr: {
+        enabled: boolean;
+        lambda: number;
+      };
+    };
   };
   cache: {
     enabled: boolean;
@@ -84,6 +103,13 @@ const DEFAULT_HYBRID_ENABLED = true;
 const DEFAULT_HYBRID_VECTOR_WEIGHT = 0.7;
 const DEFAULT_HYBRID_TEXT_WEIGHT = 0.3;
 const DEFAULT_HYBRID_CANDIDATE_MULTIPLIER = 4;
+// OPENCLAWMU ADDITION: reranker defaults
+const DEFAULT_RERANK_MODEL = "hf:gpustack/bge-reranker-v2-m3-GGUF/bge-reranker-v2-m3-Q8_0.gguf";
+const DEFAULT_RERANK_WEIGHT = 0.7;
+const DEFAULT_RERANK_MAX_CANDIDATES = 20;
+const DEFAULT_RECENCY_HALF_LIFE_DAYS = { memory: 30, sessions: 7 };
+const DEFAULT_RECENCY_FLOOR = 0.3;
+const DEFAULT_MMR_LAMBDA = 0.7;
 const DEFAULT_CACHE_ENABLED = true;
 const DEFAULT_SOURCES: Array<"memory" | "sessions"> = ["memory"];
 
@@ -237,6 +263,38 @@ function mergeConfig(
       defaults?.query?.hybrid?.candidateMultiplier ??
       DEFAULT_HYBRID_CANDIDATE_MULTIPLIER,
   };
+  // OPENCLAWMU ADDITION: post-retrieval rerankers
+  const rerankOverrides = overrides?.query?.rerank;
+  const rerankDefaults = defaults?.query?.rerank;
+  const crossEncoder = { ...rerankDefaults?.crossEncoder, ...rerankOverrides?.crossEncoder };
+  const recency = {
+    ...rerankDefaults?.recency,
+    ...rerankOverrides?.recency,
+    halfLifeDays: {
+      ...DEFAULT_RECENCY_HALF_LIFE_DAYS,
+      ...rerankDefaults?.recency?.halfLifeDays,
+      ...rerankOverrides?.recency?.halfLifeDays,
+    },
+  };
+  const mmr = { ...rerankDefaults?.mmr, ...rerankOverrides?.mmr };
+  const rerank = {
+    crossEncoder: {
+      enabled: Boolean(crossEncoder.enabled),
+      modelPath: crossEncoder.modelPath?.trim() || DEFAULT_RERANK_MODEL,
+      modelCacheDir: crossEncoder.modelCacheDir?.trim() || undefined,
+      weight: clampNumber(crossEncoder.weight ?? DEFAULT_RERANK_WEIGHT, 0, 1),
+      maxCandidates: clampInt(crossEncoder.maxCandidates ?? DEFAULT_RERANK_MAX_CANDIDATES, 1, 200),
+    },
+    recency: {
+      enabled: Boolean(recency.enabled),
+      halfLifeDays: recency.halfLifeDays,
+      floor: clampNumber(recency.floor ?? DEFAULT_RECENCY_FLOOR, 0, 1),
+    },
+    mmr: {
+      enabled: Boolean(mmr.enabled),
+      lambda: clampNumber(mmr.lambda ?? DEFAULT_MMR_LAMBDA, 0, 1),
+    },
+  };
   const cache = {
     enabled: overrides?.cache?.enabled ?? defaults?.cache?.enabled ?? DEFAULT_CACHE_ENABLED,
     maxEntries: overrides?.cache?.maxEntries ?? defaults?.cache?.maxEntries,
@@ -282,6 +340,7 @@ function mergeConfig(
         textWeight: normalizedTextWeight,
         candidateMultiplier,
       },
+      rerank,
     },
     cache: {
       enabled: Boolean(cache.enabled),
@@ -3,6 +3,7 @@ import type { ThinkLevel } from "../../auto-reply/thinking.js";
 import type { RunEmbeddedPiAgentParams } from "./run/params.js";
 import type { EmbeddedPiAgentMeta, EmbeddedPiRunResult } from "./types.js";
 import { enqueueCommandInLane } from "../../process/command-queue.js";
+import { snapshotTenantWorkspaceBeforeRun } from "../../tenants/workspace-snapshots.js";
 import { isMarkdownCapableMessageChannel } from "../../utils/message-channel.js";
 import { resolveOpenClawAgentDir } from "../agent-paths.js";
 import {
@@ -196,6 +197,26 @@ export async function runEmbeddedPiAgent(
           `[workspace-fallback] caller=runEmbeddedPiAgent reason=${workspaceResolution.fallbackReason} run=${params.runId} session=${redactedSessionId} sessionKey=${redactedSessionKey} agent=${workspaceResolution.agentId} workspace=${redactedWorkspace}`,
         );
       }
+      // OPENCLAWMU ADDITION: restore point for the tenant workspace (sandbox.snapshots.auto)
+      if (!isProbeSession) {
+        try {
+          const snapshot = await snapshotTenantWorkspaceBeforeRun({
+            cfg: params.config,
+            sessionKey: params.sessionKey,
+            agentId: workspaceResolution.agentId,
+            spawnedBy: params.spawnedBy,
+          });
+          if (snapshot) {
+            log.debug(
+              `workspace snapshot ${snapshot.id} taken before run=${params.runId} sessionKey=${redactedSessionKey}`,
+            );
+          }
+        } catch (err) {
+          log.warn(
+            `workspace snapshot failed before run=${params.runId} sessionKey=${redactedSessionKey}: ${describeUnknownError(err)}`,
+          );
+        }
+      }
       const prevCwd = process.cwd();
 
       const provider = (params.provider ?? DEFAULT_PROVIDER).trim() || DEFAULT_PROVIDER;
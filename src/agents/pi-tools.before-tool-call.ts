@@ -1,6 +1,7 @@
 import type { AnyAgentTool } from "./tools/common.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
+import { resolveTenantWorkspaceWriteBlock } from "../tenants/workspace-quota.js";
 import { isPlainObject } from "../utils.js";
 import { normalizeToolName } from "./tool-policy.js";
 
@@ -25,6 +26,15 @@ export async function runBeforeToolCallHook(args: {
   const toolName = normalizeToolName(args.toolName || "tool");
   const params = args.params;
 
+  // OPENCLAWMU ADDITION: file writes fail with ENOSPC while a tenant is over its disk quota
+  const quotaBlock = resolveTenantWorkspaceWriteBlock({
+    toolName,
+    sessionKey: args.ctx?.sessionKey,
+  });
+  if (quotaBlock) {
+    return { blocked: true, reason: quotaBlock };
+  }
+
   const hookRunner = getGlobalHookRunner();
   if (!hookRunner?.hasHooks("before_tool_call")) {
     return { blocked: false, params: args.params };
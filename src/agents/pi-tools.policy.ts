@@ -52,6 +52,7 @@ const SUBAGENT_TOOL_DENY_ALWAYS = [
   // Memory - pass relevant info in spawn prompt instead
   "memory_search",
   "memory_get",
+  "memory_write", // OPENCLAWMU ADDITION
   // Direct session sends - subagents communicate through announce chain
   "sessions_send",
 ];
@@ -7,9 +7,16 @@
 
 import type { ChildProcessWithoutNullStreams } from "node:child_process";
 import { spawn } from "node:child_process";
-import type { SandboxBwrapConfig } from "./types.bwrap.js";
+import type { SandboxBwrapConfig, SandboxResourceLimits } from "./types.bwrap.js";
 import { resolveTenantStateDir, resolveTenantWorkspace } from "../../tenants/paths.js";
-import { buildBwrapArgs } from "./bwrap.js";
+import {
+  bwrapStdio,
+  openSandboxCgroup,
+  prepareBwrapCommand,
+  releaseSandboxCgroup,
+} from "./bwrap.js";
+import { wrapCgroupCommand } from "./cgroup.js";
+import { recordPtySession, type PtyRecordingOptions } from "./pty-recording.js";
 import { DEFAULT_BWRAP_CONFIG } from "./types.bwrap.js";
 
 export type BwrapPtyOptions = {
@@ -27,6 +34,13 @@ export type BwrapPtyOptions = {
   workspaceDir?: string;
   /** Bwrap configuration overrides. */
   bwrapConfig?: Partial<SandboxBwrapConfig>;
+  /** Record the session to an asciicast v2 file. */
+  recording?: PtyRecordingOptions;
+  /**
+   * Resource limits, applied through a native cgroup v2 when available; the session's
+   * CPU time and peak memory are then added to the tenant usage.
+   */
+  resourceLimits?: SandboxResourceLimits;
 };
 
 export type BwrapPtyHandle = {
@@ -46,6 +60,33 @@ export type BwrapPtyHandle = {
   process: ChildProcessWithoutNullStreams;
 };
 
+/**
+ * Puts `command` into a new sandbox cgroup when resource limits are requested and a
+ * delegated cgroup v2 subtree exists. `release` must run when the session ends.
+ */
+async function applyPtyResourceLimits(
+  options: BwrapPtyOptions,
+  workspaceDir: string,
+  command: string[],
+): Promise<{ command: string[]; release: () => void }> {
+  if (!options.resourceLimits) {
+    return { command, release: () => {} };
+  }
+  const scopeName = `terminal-${options.tenantId}-${Date.now()}`;
+  const cgroupPath = await openSandboxCgroup({
+    scopeName,
+    tenantId: options.tenantId,
+    limits: options.resourceLimits,
+    workspaceDir,
+  });
+  return cgroupPath
+    ? {
+        command: wrapCgroupCommand(cgroupPath, command),
+        release: () => void releaseSandboxCgroup(scopeName),
+      }
+    : { command, release: () => {} };
+}
+
 /**
  * Spawns a PTY inside a bwrap sandbox.
  *
@@ -80,14 +121,6 @@ export async function spawnBwrapPty(options: BwrapPtyOptions): Promise<BwrapPtyH
     },
   };
 
-  // Build bwrap arguments
-  const bwrapArgs = buildBwrapArgs({
-    config,
-    workspaceDir: tenantWorkspace,
-    tenantStateDir,
-    readOnlyWorkspace: false, // Interactive sessions need write access
-  });
-
   // We spawn bwrap with script to get a PTY
   // Using 'script' command to create a PTY within bwrap
   const scriptArgs = [
@@ -97,15 +130,36 @@ export async function spawnBwrapPty(options: BwrapPtyOptions): Promise<BwrapPtyH
     "/dev/null", // Output file (we capture via stdout)
   ];
 
-  // Spawn the process
-  const child = spawn("bwrap", [...bwrapArgs, "--", "script", ...scriptArgs], {
-    stdio: ["pipe", "pipe", "pipe"],
-    env: {
-      ...process.env,
-      TERM: "xterm-256color",
-    },
+  // Build bwrap arguments
+  const { args: bwrapArgs, seccomp } = prepareBwrapCommand({
+    config,
+    workspaceDir: tenantWorkspace,
+    tenantStateDir,
+    readOnlyWorkspace: false, // Interactive sessions need write access
+    command: ["script", ...scriptArgs],
   });
 
+  // Spawn the process
+  let child: ChildProcessWithoutNullStreams;
+  let limited: Awaited<ReturnType<typeof applyPtyResourceLimits>> | undefined;
+  try {
+    limited = await applyPtyResourceLimits(options, tenantWorkspace, ["bwrap", ...bwrapArgs]);
+    const [file, ...args] = limited.command;
+    child = spawn(file, args, {
+      stdio: bwrapStdio("pipe", seccomp),
+      env: {
+        ...process.env,
+        TERM: "xterm-256color",
+      },
+    }) as ChildProcessWithoutNullStreams;
+  } catch (err) {
+    limited?.release();
+    throw err;
+  } finally {
+    seccomp?.close();
+  }
+  child.once("close", limited.release);
+
   // Data event handlers
   const dataCallbacks: Array<(data: string) => void> = [];
   const exitCallbacks: Array<(code: number | null, signal: NodeJS.Signals | null) => void> = [];
@@ -242,31 +296,49 @@ export async function spawnBwrapPtyWithNodePty(
     };
 
     // Build bwrap arguments
-    const bwrapArgs = buildBwrapArgs({
+    const { args: bwrapArgs, seccomp } = prepareBwrapCommand({
       config,
       workspaceDir: tenantWorkspace,
       tenantStateDir,
       readOnlyWorkspace: false,
+      command: [shell],
     });
+    // node-pty cannot pass extra fds, so a shell opens the seccomp program as fd 3
+    seccomp?.close();
+    const limited = await applyPtyResourceLimits(
+      options,
+      tenantWorkspace,
+      seccomp
+        ? ["/bin/sh", "-c", 'exec "$@" 3<"$0"', seccomp.file, "bwrap", ...bwrapArgs]
+        : ["bwrap", ...bwrapArgs],
+    );
+    const [file, ...args] = limited.command;
 
     // Spawn PTY with bwrap
-    const pty = spawnPty("bwrap", [...bwrapArgs, "--", shell], {
-      name: "xterm-256color",
-      cols,
-      rows,
-      cwd: tenantWorkspace,
-      env: {
-        ...process.env,
-        TERM: "xterm-256color",
-        HOME: "/workspace",
-        ...env,
-      } as Record<string, string>,
-    });
+    let pty: ReturnType<typeof spawnPty>;
+    try {
+      pty = spawnPty(file, args, {
+        name: "xterm-256color",
+        cols,
+        rows,
+        cwd: tenantWorkspace,
+        env: {
+          ...process.env,
+          TERM: "xterm-256color",
+          HOME: "/workspace",
+          ...env,
+        } as Record<string, string>,
+      });
+    } catch (err) {
+      limited.release();
+      throw err;
+    }
 
     // Exit callbacks for conversion
     const exitCallbacks: Array<(code: number | null, signal: NodeJS.Signals | null) => void> = [];
 
     pty.onExit((event) => {
+      limited.release();
       const signal = event.signal ? (`SIG${event.signal}` as NodeJS.Signals) : null;
       for (const callback of exitCallbacks) {
         callback(event.exitCode, signal);
@@ -290,14 +362,27 @@ export async function spawnBwrapPtyWithNodePty(
 
 /**
  * Spawns a bwrap PTY, preferring node-pty if available.
+ * When `options.recording` is set, the session is recorded (see pty-recording.ts).
  */
 export async function spawnBwrapPtyAuto(options: BwrapPtyOptions): Promise<BwrapPtyHandle> {
-  // Try node-pty first for better terminal support
-  const nodePtyHandle = await spawnBwrapPtyWithNodePty(options);
-  if (nodePtyHandle) {
-    return nodePtyHandle;
+  // Try node-pty first for better terminal support, fall back to simple spawn
+  const handle = (await spawnBwrapPtyWithNodePty(options)) ?? (await spawnBwrapPty(options));
+  if (!options.recording) {
+    return handle;
+  }
+  try {
+    return recordPtySession(handle, {
+      ...options.recording,
+      cols: options.cols ?? 80,
+      rows: options.rows ?? 24,
+      env: {
+        SHELL: options.shell ?? "/bin/bash",
+        TERM: "xterm-256color",
+        ...options.recording.env,
+      },
+    });
+  } catch {
+    // Recording is best effort; never fail the terminal because of it
+    return handle;
   }
-
-  // Fall back to simple spawn
-  return spawnBwrapPty(options);
 }
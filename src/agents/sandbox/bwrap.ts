@@ -9,6 +9,20 @@
 import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
 import fs from "node:fs";
 import path from "node:path";
+import { defaultRuntime } from "../../runtime.js";
+import { updateSandboxUsage } from "../../tenants/usage.js";
+import {
+  createSandboxCgroup,
+  freezeSandboxCgroup,
+  killSandboxCgroup,
+  readSandboxCgroupUsage,
+  removeSandboxCgroup,
+  resolveCgroupDelegate,
+  wrapCgroupCommand,
+} from "./cgroup.js";
+import { buildEgressProxyEnv, EGRESS_SOCKET_MOUNT, wrapEgressBridge } from "./egress-proxy.js";
+import { wrapLandlockCommand } from "./landlock.js";
+import { BWRAP_SECCOMP_FD, openSeccompProgram } from "./seccomp.js";
 import {
   type SandboxBwrapConfig,
   type BwrapExecOptions,
@@ -88,6 +102,8 @@ export function buildBwrapArgs(params: {
   workspaceDir: string;
   tenantStateDir?: string;
   readOnlyWorkspace?: boolean;
+  /** Inherited fd holding the seccomp program (see prepareBwrapCommand). */
+  seccompFd?: number;
 }): string[] {
   const { config, workspaceDir, tenantStateDir, readOnlyWorkspace } = params;
   const args: string[] = [];
@@ -104,7 +120,7 @@ export function buildBwrapArgs(params: {
   if (config.unshareIpc) {
     args.push("--unshare-ipc");
   }
-  if (config.unshareNet && config.networkIsolation) {
+  if (config.unshareNet && (config.networkIsolation || config.egress)) {
     args.push("--unshare-net");
   }
   if (config.unshareCgroup) {
@@ -159,6 +175,14 @@ export function buildBwrapArgs(params: {
     }
   }
 
+  // Egress proxy socket and proxy environment
+  if (config.egress) {
+    args.push("--bind", config.egress.socketPath, EGRESS_SOCKET_MOUNT);
+    for (const [key, value] of Object.entries(buildEgressProxyEnv(config.egress.port))) {
+      args.push("--setenv", key, value);
+    }
+  }
+
   // Working directory
   args.push("--chdir", config.workdir);
 
@@ -170,9 +194,53 @@ export function buildBwrapArgs(params: {
     args.push("--new-session");
   }
 
+  // Syscall filter, loaded by bwrap right before it execs the command
+  if (params.seccompFd !== undefined) {
+    args.push("--seccomp", String(params.seccompFd));
+  }
+
   return args;
 }
 
+/**
+ * Builds the full bwrap argv (options, "--", command) with the seccomp profile,
+ * Landlock launcher and egress bridge applied. When `seccomp` is set, pass it through `bwrapStdio` and
+ * close it once the process is spawned.
+ */
+export function prepareBwrapCommand(params: {
+  config: SandboxBwrapConfig;
+  workspaceDir: string;
+  tenantStateDir?: string;
+  readOnlyWorkspace?: boolean;
+  command: string[];
+}): { args: string[]; seccomp: ReturnType<typeof openSeccompProgram> } {
+  const seccomp = openSeccompProgram(params.config.seccompProfile);
+  const args = buildBwrapArgs({
+    config: params.config,
+    workspaceDir: params.workspaceDir,
+    tenantStateDir: params.tenantStateDir,
+    readOnlyWorkspace: params.readOnlyWorkspace,
+    seccompFd: seccomp ? BWRAP_SECCOMP_FD : undefined,
+  });
+  const tenantStateMounted = Boolean(params.tenantStateDir && fs.existsSync(params.tenantStateDir));
+  const command = wrapLandlockCommand(params.config, params.command, { tenantStateMounted });
+  args.push(
+    "--",
+    ...(params.config.egress ? wrapEgressBridge(params.config.egress, command) : command),
+  );
+  return { args, seccomp };
+}
+
+/**
+ * stdio for a bwrap child: the seccomp program (if any) is inherited as fd 3.
+ */
+export function bwrapStdio(
+  stdin: "ignore" | "pipe",
+  seccomp: ReturnType<typeof openSeccompProgram>,
+): Array<"ignore" | "pipe" | number> {
+  return seccomp ? [stdin, "pipe", "pipe", seccomp.fd] : [stdin, "pipe", "pipe"];
+}
+
 /**
  * Executes a command inside a bwrap sandbox.
  */
@@ -184,16 +252,13 @@ export async function execBwrap(options: BwrapExecOptions): Promise<BwrapExecRes
     fs.mkdirSync(options.workspaceDir, { recursive: true });
   }
 
-  const bwrapArgs = buildBwrapArgs({
+  const { args: bwrapArgs, seccomp } = prepareBwrapCommand({
     config,
     workspaceDir: options.workspaceDir,
     tenantStateDir: options.tenantStateDir,
+    command: options.command,
   });
 
-  // Add command separator and command
-  bwrapArgs.push("--");
-  bwrapArgs.push(...options.command);
-
   return new Promise((resolve, reject) => {
     const env: Record<string, string> = {
       HOME: config.workdir,
@@ -204,10 +269,15 @@ export async function execBwrap(options: BwrapExecOptions): Promise<BwrapExecRes
       ...options.env,
     };
 
-    const child = spawn(config.binary, bwrapArgs, {
-      stdio: ["ignore", "pipe", "pipe"],
-      env,
-    });
+    let child: ReturnType<typeof spawn>;
+    try {
+      child = spawn(config.binary, bwrapArgs, {
+        stdio: bwrapStdio("ignore", seccomp),
+        env,
+      });
+    } finally {
+      seccomp?.close();
+    }
 
     let stdout = "";
     let stderr = "";
@@ -279,17 +349,14 @@ export function spawnBwrap(params: {
     fs.mkdirSync(params.workspaceDir, { recursive: true });
   }
 
-  const bwrapArgs = buildBwrapArgs({
+  const { args: bwrapArgs, seccomp } = prepareBwrapCommand({
     config,
     workspaceDir: params.workspaceDir,
     tenantStateDir: params.tenantStateDir,
     readOnlyWorkspace: params.readOnlyWorkspace,
+    command: params.command,
   });
 
-  // Add command separator and command
-  bwrapArgs.push("--");
-  bwrapArgs.push(...params.command);
-
   const env: Record<string, string> = {
     HOME: config.workdir,
     USER: "user",
@@ -299,10 +366,14 @@ export function spawnBwrap(params: {
     ...params.env,
   };
 
-  return spawn(config.binary, bwrapArgs, {
-    stdio: ["pipe", "pipe", "pipe"],
-    env,
-  });
+  try {
+    return spawn(config.binary, bwrapArgs, {
+      stdio: bwrapStdio("pipe", seccomp),
+      env,
+    }) as ChildProcessWithoutNullStreams;
+  } finally {
+    seccomp?.close();
+  }
 }
 
 /**
@@ -415,42 +486,154 @@ export function buildSystemdRunArgs(params: {
   return args;
 }
 
+// ============================================================================
+// Resource Limits via cgroup v2 (OPENCLAWMU ADDITION)
+// ============================================================================
+
+type NativeSandboxCgroup = {
+  path: string;
+  tenantId?: string;
+  /** Highest memory.current seen (for kernels without memory.peak). */
+  peakMemoryBytes: number;
+};
+
+/** Native sandbox cgroups by scope name. */
+const sandboxCgroups = new Map<string, NativeSandboxCgroup>();
+
+let warnedNoLimits = false;
+
+function warnLimitsUnavailable(): void {
+  if (!warnedNoLimits) {
+    warnedNoLimits = true;
+    defaultRuntime.log(
+      "Sandbox resource limits unavailable (no delegated cgroup v2 subtree and no systemd-run); running sandboxes without limits",
+    );
+  }
+}
+
+function defaultScopeName(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Creates a native cgroup v2 for a sandbox when a delegated subtree is available
+ * (see cgroup.ts). Returns the cgroup path, or null to fall back to systemd-run.
+ */
+export async function openSandboxCgroup(params: {
+  scopeName: string;
+  tenantId?: string;
+  limits: SandboxResourceLimits;
+  workspaceDir?: string;
+}): Promise<string | null> {
+  const delegate = await resolveCgroupDelegate();
+  if (!delegate) {
+    return null;
+  }
+  try {
+    const cgroupPath = createSandboxCgroup(delegate, {
+      tenantId: params.tenantId,
+      name: params.scopeName,
+      limits: params.limits,
+      ioPath: params.workspaceDir,
+    });
+    sandboxCgroups.set(params.scopeName, {
+      path: cgroupPath,
+      tenantId: params.tenantId,
+      peakMemoryBytes: 0,
+    });
+    return cgroupPath;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Adds a finished sandbox's CPU time and peak memory to its tenant's usage and
+ * removes its cgroup (remaining processes are killed).
+ */
+export async function releaseSandboxCgroup(scopeName: string): Promise<void> {
+  const entry = sandboxCgroups.get(scopeName);
+  if (!entry) {
+    return;
+  }
+  sandboxCgroups.delete(scopeName);
+  const usage = readSandboxCgroupUsage(entry.path);
+  await removeSandboxCgroup(entry.path);
+  if (entry.tenantId && usage) {
+    const peakBytes = Math.max(
+      usage.peakMemoryBytes ?? 0,
+      usage.memoryBytes ?? 0,
+      entry.peakMemoryBytes,
+    );
+    await updateSandboxUsage(entry.tenantId, {
+      cpuSeconds: (usage.cpuUsageUs ?? 0) / 1_000_000,
+      peakMemoryMB: Math.round(peakBytes / (1024 * 1024)),
+    }).catch(() => {});
+  }
+}
+
+/**
+ * Freezes or thaws a tenant's running sandboxes (native cgroups only).
+ * Returns how many sandboxes changed state.
+ */
+export function freezeTenantSandboxes(tenantId: string, frozen: boolean): number {
+  let count = 0;
+  for (const entry of sandboxCgroups.values()) {
+    if (entry.tenantId === tenantId && freezeSandboxCgroup(entry.path, frozen)) {
+      count++;
+    }
+  }
+  return count;
+}
+
 /**
  * Executes a command inside a bwrap sandbox with resource limits.
- * Uses systemd-run to wrap bwrap with cgroup limits.
+ * Uses a native cgroup v2 when a delegated subtree is available, otherwise systemd-run.
+ * With `tenantId`, the sandbox's CPU time and peak memory are added to the tenant usage.
  */
 export async function execBwrapWithLimits(
   options: BwrapExecOptions & {
     resourceLimits?: SandboxResourceLimits;
     scopeName?: string;
+    tenantId?: string;
   },
 ): Promise<BwrapExecResult> {
   const config = resolveBwrapConfig(options.config);
   const limits = options.resourceLimits ?? DEFAULT_RESOURCE_LIMITS;
-  const scopeName = options.scopeName ?? `exec-${Date.now()}`;
+  const scopeName = options.scopeName ?? defaultScopeName("exec");
 
   // Ensure workspace directory exists
   if (!fs.existsSync(options.workspaceDir)) {
     fs.mkdirSync(options.workspaceDir, { recursive: true });
   }
 
-  // Check if systemd-run is available
-  const hasSystemdRun = await isSystemdRunAvailable();
+  // Prefer a native cgroup, then systemd-run
+  const cgroupPath = await openSandboxCgroup({
+    scopeName,
+    tenantId: options.tenantId,
+    limits,
+    workspaceDir: options.workspaceDir,
+  });
+  const hasSystemdRun = !cgroupPath && (await isSystemdRunAvailable());
+  if (!cgroupPath && !hasSystemdRun) {
+    warnLimitsUnavailable();
+  }
 
   // Build bwrap arguments
-  const bwrapArgs = buildBwrapArgs({
+  const { args: bwrapArgs, seccomp } = prepareBwrapCommand({
     config,
     workspaceDir: options.workspaceDir,
     tenantStateDir: options.tenantStateDir,
+    command: options.command,
   });
-  bwrapArgs.push("--");
-  bwrapArgs.push(...options.command);
 
   // Build final command
   let finalCommand: string;
   let finalArgs: string[];
 
-  if (hasSystemdRun && limits) {
+  if (cgroupPath) {
+    [finalCommand, ...finalArgs] = wrapCgroupCommand(cgroupPath, [config.binary, ...bwrapArgs]);
+  } else if (hasSystemdRun) {
     // Wrap with systemd-run for resource limits
     const systemdArgs = buildSystemdRunArgs({ scopeName, limits });
     finalCommand = "systemd-run";
@@ -471,10 +654,18 @@ export async function execBwrapWithLimits(
       ...options.env,
     };
 
-    const child = spawn(finalCommand, finalArgs, {
-      stdio: ["ignore", "pipe", "pipe"],
-      env,
-    });
+    let child: ReturnType<typeof spawn>;
+    try {
+      child = spawn(finalCommand, finalArgs, {
+        stdio: bwrapStdio("ignore", seccomp),
+        env,
+      });
+    } catch (err) {
+      void releaseSandboxCgroup(scopeName);
+      throw err;
+    } finally {
+      seccomp?.close();
+    }
 
     let stdout = "";
     let stderr = "";
@@ -494,10 +685,11 @@ export async function execBwrapWithLimits(
       stderr += chunk.toString();
     });
 
-    child.on("close", (code) => {
+    child.on("close", async (code) => {
       if (timer) {
         clearTimeout(timer);
       }
+      await releaseSandboxCgroup(scopeName);
       const exitCode = code ?? 0;
       if (timedOut) {
         if (options.allowFailure) {
@@ -514,10 +706,11 @@ export async function execBwrapWithLimits(
       resolve({ stdout, stderr, code: exitCode });
     });
 
-    child.on("error", (err) => {
+    child.on("error", async (err) => {
       if (timer) {
         clearTimeout(timer);
       }
+      await releaseSandboxCgroup(scopeName);
       if (options.allowFailure) {
         resolve({ stdout, stderr: err.message, code: 1 });
       } else {
@@ -529,6 +722,7 @@ export async function execBwrapWithLimits(
 
 /**
  * Spawns an interactive process inside a bwrap sandbox with resource limits.
+ * Limits and usage accounting work as in `execBwrapWithLimits`.
  */
 export async function spawnBwrapWithLimits(params: {
   config?: Partial<SandboxBwrapConfig>;
@@ -539,27 +733,27 @@ export async function spawnBwrapWithLimits(params: {
   readOnlyWorkspace?: boolean;
   resourceLimits?: SandboxResourceLimits;
   scopeName?: string;
+  tenantId?: string;
 }): Promise<{
   child: ChildProcessWithoutNullStreams;
   scopeName: string;
 }> {
   const config = resolveBwrapConfig(params.config);
   const limits = params.resourceLimits ?? DEFAULT_RESOURCE_LIMITS;
-  const scopeName = params.scopeName ?? `spawn-${Date.now()}`;
+  const scopeName = params.scopeName ?? defaultScopeName("spawn");
 
   // Ensure workspace directory exists
   if (!fs.existsSync(params.workspaceDir)) {
     fs.mkdirSync(params.workspaceDir, { recursive: true });
   }
 
-  const bwrapArgs = buildBwrapArgs({
+  const { args: bwrapArgs, seccomp } = prepareBwrapCommand({
     config,
     workspaceDir: params.workspaceDir,
     tenantStateDir: params.tenantStateDir,
     readOnlyWorkspace: params.readOnlyWorkspace,
+    command: params.command,
   });
-  bwrapArgs.push("--");
-  bwrapArgs.push(...params.command);
 
   const env: Record<string, string> = {
     HOME: config.workdir,
@@ -570,35 +764,72 @@ export async function spawnBwrapWithLimits(params: {
     ...params.env,
   };
 
-  // Check if systemd-run is available
-  const hasSystemdRun = await isSystemdRunAvailable();
+  // Prefer a native cgroup, then systemd-run
+  const cgroupPath = await openSandboxCgroup({
+    scopeName,
+    tenantId: params.tenantId,
+    limits,
+    workspaceDir: params.workspaceDir,
+  });
+  const hasSystemdRun = !cgroupPath && (await isSystemdRunAvailable());
+  if (!cgroupPath && !hasSystemdRun) {
+    warnLimitsUnavailable();
+  }
 
   let child: ChildProcessWithoutNullStreams;
 
-  if (hasSystemdRun && limits) {
-    const systemdArgs = buildSystemdRunArgs({ scopeName, limits });
-    child = spawn("systemd-run", [...systemdArgs, "--", config.binary, ...bwrapArgs], {
-      stdio: ["pipe", "pipe", "pipe"],
-      env,
-    });
-  } else {
-    child = spawn(config.binary, bwrapArgs, {
-      stdio: ["pipe", "pipe", "pipe"],
-      env,
-    });
+  try {
+    if (cgroupPath) {
+      const [file, ...args] = wrapCgroupCommand(cgroupPath, [config.binary, ...bwrapArgs]);
+      child = spawn(file, args, {
+        stdio: bwrapStdio("pipe", seccomp),
+        env,
+      }) as ChildProcessWithoutNullStreams;
+    } else if (hasSystemdRun) {
+      const systemdArgs = buildSystemdRunArgs({ scopeName, limits });
+      child = spawn("systemd-run", [...systemdArgs, "--", config.binary, ...bwrapArgs], {
+        stdio: bwrapStdio("pipe", seccomp),
+        env,
+      }) as ChildProcessWithoutNullStreams;
+    } else {
+      child = spawn(config.binary, bwrapArgs, {
+        stdio: bwrapStdio("pipe", seccomp),
+        env,
+      }) as ChildProcessWithoutNullStreams;
+    }
+  } catch (err) {
+    await releaseSandboxCgroup(scopeName);
+    throw err;
+  } finally {
+    seccomp?.close();
   }
+  child.once("close", () => void releaseSandboxCgroup(scopeName));
 
   return { child, scopeName };
 }
 
 /**
- * Gets resource usage for a systemd scope.
+ * Gets resource usage for a native sandbox cgroup or a systemd scope.
  */
 export async function getSandboxResourceUsage(scopeName: string): Promise<{
   cpuUsageUs?: number;
   memoryBytes?: number;
   pidsCount?: number;
 } | null> {
+  const cgroup = sandboxCgroups.get(scopeName);
+  if (cgroup) {
+    const usage = readSandboxCgroupUsage(cgroup.path);
+    if (!usage) {
+      return null;
+    }
+    cgroup.peakMemoryBytes = Math.max(cgroup.peakMemoryBytes, usage.memoryBytes ?? 0);
+    return {
+      cpuUsageUs: usage.cpuUsageUs,
+      memoryBytes: usage.memoryBytes,
+      pidsCount: usage.pidsCount,
+    };
+  }
+
   const unitName = `openclaw-sandbox-${scopeName}.scope`;
 
   try {
@@ -655,6 +886,11 @@ export async function getSandboxResourceUsage(scopeName: string): Promise<{
  * Stops a sandbox by its scope name.
  */
 export async function stopSandboxScope(scopeName: string): Promise<boolean> {
+  const cgroup = sandboxCgroups.get(scopeName);
+  if (cgroup) {
+    return killSandboxCgroup(cgroup.path);
+  }
+
   const unitName = `openclaw-sandbox-${scopeName}.scope`;
 
   return new Promise((resolve) => {
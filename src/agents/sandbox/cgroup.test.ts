@@ -0,0 +1,131 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadTenantUsage } from "../../tenants/usage.js";
+import { getSandboxResourceUsage, openSandboxCgroup, releaseSandboxCgroup } from "./bwrap.js";
+import {
+  buildCgroupLimitFiles,
+  createSandboxCgroup,
+  prepareCgroupDelegate,
+  readSandboxCgroupUsage,
+  resetCgroupDelegateCache,
+  wrapCgroupCommand,
+} from "./cgroup.js";
+
+/** A directory laid out like a delegated cgroup v2 directory. */
+function fakeCgroup(dir: string, controllers = "cpuset cpu io memory pids"): string {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "cgroup.controllers"), `${controllers}\n`);
+  fs.writeFileSync(path.join(dir, "cgroup.subtree_control"), "");
+  return dir;
+}
+
+describe("cgroup v2 sandboxes", () => {
+  let tmp: string;
+  let previousEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-cgroup-test-"));
+    previousEnv = { ...process.env };
+    process.env.OPENCLAW_STATE_DIR = path.join(tmp, "state");
+    resetCgroupDelegateCache();
+  });
+
+  afterEach(() => {
+    process.env = previousEnv;
+    resetCgroupDelegateCache();
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it("maps limits to interface files", () => {
+    const all = ["cpu", "memory", "pids", "io"] as const;
+    expect(
+      buildCgroupLimitFiles(
+        { cpuQuotaPercent: 150, memoryLimitMB: 256, pidsLimit: 64, ioWeight: 50, ioWriteBps: 1e6 },
+        { controllers: [...all], ioDevice: "259:0" },
+      ),
+    ).toEqual({
+      "cpu.max": "150000 100000",
+      "memory.max": String(256 * 1024 * 1024),
+      "memory.high": String(Math.floor(256 * 1024 * 1024 * 0.9)),
+      "pids.max": "64",
+      "io.weight": "default 50",
+      "io.max": "259:0 wbps=1000000",
+    });
+    // Missing controllers and virtual filesystems are skipped
+    expect(
+      buildCgroupLimitFiles(
+        { cpuQuotaPercent: 100, pidsLimit: 10, ioReadBps: 1 },
+        { controllers: ["pids", "io"], ioDevice: null },
+      ),
+    ).toEqual({ "pids.max": "10" });
+  });
+
+  it("delegates the subtree and creates limited per-tenant cgroups", () => {
+    const root = fakeCgroup(path.join(tmp, "root"));
+    const delegate = prepareCgroupDelegate(root);
+    expect(delegate).toEqual({ root, controllers: ["cpu", "memory", "pids", "io"] });
+    expect(fs.readFileSync(path.join(root, "cgroup.subtree_control"), "utf8")).toBe(
+      "+cpu +memory +pids +io",
+    );
+
+    const cgroup = createSandboxCgroup(delegate!, {
+      tenantId: "acme",
+      name: "exec-1",
+      limits: { cpuQuotaPercent: 50, pidsLimit: 20 },
+    });
+    expect(cgroup).toBe(path.join(root, "openclaw-sandboxes", "acme", "exec-1"));
+    expect(fs.readFileSync(path.join(cgroup, "cpu.max"), "utf8")).toBe("50000 100000");
+    expect(fs.readFileSync(path.join(cgroup, "pids.max"), "utf8")).toBe("20");
+    expect(
+      fs.readFileSync(
+        path.join(root, "openclaw-sandboxes", "acme", "cgroup.subtree_control"),
+        "utf8",
+      ),
+    ).toBe("+cpu +memory +pids +io");
+
+    expect(prepareCgroupDelegate(fakeCgroup(path.join(tmp, "v1"), "cpuset"))).toBeNull();
+  });
+
+  it("starts the command inside the cgroup", () => {
+    const cgroup = fakeCgroup(path.join(tmp, "leaf"));
+    const [file, ...args] = wrapCgroupCommand(cgroup, ["sh", "-c", "echo $$"]);
+    const pid = execFileSync(file!, args, { encoding: "utf8" }).trim();
+    expect(fs.readFileSync(path.join(cgroup, "cgroup.procs"), "utf8").trim()).toBe(pid);
+  });
+
+  it("reads accounting and adds it to the tenant usage on release", async () => {
+    const root = fakeCgroup(path.join(tmp, "root"));
+    process.env.OPENCLAW_SANDBOX_CGROUP_ROOT = root;
+    const cgroup = await openSandboxCgroup({
+      scopeName: "exec-2",
+      tenantId: "acme",
+      limits: { memoryLimitMB: 128 },
+    });
+    expect(cgroup).toBe(path.join(root, "openclaw-sandboxes", "acme", "exec-2"));
+    fs.writeFileSync(path.join(cgroup!, "cpu.stat"), "usage_usec 2500000\nuser_usec 2000000\n");
+    fs.writeFileSync(path.join(cgroup!, "memory.current"), String(40 * 1024 * 1024));
+    fs.writeFileSync(path.join(cgroup!, "pids.current"), "3\n");
+
+    expect(readSandboxCgroupUsage(cgroup!)).toEqual({
+      cpuUsageUs: 2_500_000,
+      memoryBytes: 40 * 1024 * 1024,
+      peakMemoryBytes: undefined,
+      pidsCount: 3,
+    });
+    await expect(getSandboxResourceUsage("exec-2")).resolves.toEqual({
+      cpuUsageUs: 2_500_000,
+      memoryBytes: 40 * 1024 * 1024,
+      pidsCount: 3,
+    });
+
+    // The sampled peak survives a drop in memory.current
+    fs.writeFileSync(path.join(cgroup!, "memory.current"), "0");
+    await releaseSandboxCgroup("exec-2");
+    const usage = await loadTenantUsage("acme");
+    expect(usage.sandboxCpuSeconds).toBe(2.5);
+    expect(usage.sandboxPeakMemoryMB).toBe(40);
+  });
+});
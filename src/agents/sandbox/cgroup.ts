@@ -0,0 +1,328 @@
+/**
+ * Native cgroup v2 resource limits for bwrap sandboxes.
+ * OPENCLAWMU ADDITION: per-tenant/per-sandbox cgroups in a delegated subtree, for hosts
+ * without systemd-run (most containers).
+ *
+ * Layout under the delegated root:
+ *
+ *   {root}/openclaw-sandboxes/{tenantId | _shared}/{sandbox}
+ *
+ * Limits are written to the sandbox leaf; the tenant level only groups sandboxes for
+ * accounting. Commands enter their cgroup through a shell that writes its own pid to
+ * `cgroup.procs` and then execs, so bwrap and everything it forks start inside it.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { SandboxResourceLimits } from "./types.bwrap.js";
+
+/** Controllers the sandboxes use (others are left alone). */
+const SANDBOX_CONTROLLERS = ["cpu", "memory", "pids", "io"] as const;
+const SANDBOX_GROUP = "openclaw-sandboxes";
+const SHARED_TENANT_GROUP = "_shared";
+/** Leaf the gateway moves itself into when its own cgroup is the delegated root. */
+const GATEWAY_LEAF = "gateway";
+const CPU_PERIOD_US = 100_000;
+
+export type CgroupController = (typeof SANDBOX_CONTROLLERS)[number];
+
+export type CgroupDelegate = {
+  /** Delegated cgroup directory (absolute path in the cgroup2 mount). */
+  root: string;
+  /** Sandbox controllers enabled below the root. */
+  controllers: CgroupController[];
+};
+
+export type SandboxCgroupUsage = {
+  cpuUsageUs?: number;
+  memoryBytes?: number;
+  /** memory.peak (kernel 5.19+). */
+  peakMemoryBytes?: number;
+  pidsCount?: number;
+};
+
+let cachedDelegate: Promise<CgroupDelegate | null> | undefined;
+
+function readFile(file: string): string | null {
+  try {
+    return fs.readFileSync(file, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function isWritable(target: string): boolean {
+  try {
+    fs.accessSync(target, fs.constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds the gateway's own cgroup in the unified (v2) hierarchy, if mounted.
+ */
+function resolveOwnCgroup(): string | null {
+  const mountinfo = readFile("/proc/self/mountinfo") ?? "";
+  // Fields: id parent major:minor root mountpoint options ... - fstype source superoptions
+  const mount = mountinfo
+    .split("\n")
+    .map((line) => line.split(" "))
+    .find((fields) => fields[fields.indexOf("-") + 1] === "cgroup2")?.[4];
+  const own = (readFile("/proc/self/cgroup") ?? "")
+    .split("\n")
+    .find((line) => line.startsWith("0::"))
+    ?.slice(3);
+  return mount && own !== undefined ? path.join(mount, own) : null;
+}
+
+function enableControllers(dir: string, controllers: CgroupController[]): void {
+  fs.writeFileSync(
+    path.join(dir, "cgroup.subtree_control"),
+    controllers.map((name) => `+${name}`).join(" "),
+  );
+}
+
+function ensureGroup(parent: string, name: string, controllers: CgroupController[]): string {
+  const dir = path.join(parent, name);
+  fs.mkdirSync(dir, { recursive: true });
+  enableControllers(dir, controllers);
+  return dir;
+}
+
+/**
+ * Prepares the delegated subtree: enables the sandbox controllers below `root`.
+ * cgroup v2 forbids controllers in a cgroup that still holds processes, so when the
+ * root is the gateway's own cgroup the gateway first moves into a `gateway` leaf.
+ */
+export function prepareCgroupDelegate(
+  root: string,
+  opts: { moveSelf?: boolean } = {},
+): CgroupDelegate | null {
+  const available = (readFile(path.join(root, "cgroup.controllers")) ?? "").trim().split(/\s+/);
+  const controllers = SANDBOX_CONTROLLERS.filter((name) => available.includes(name));
+  if (controllers.length === 0 || !isWritable(path.join(root, "cgroup.subtree_control"))) {
+    return null;
+  }
+  try {
+    enableControllers(root, controllers);
+  } catch (err) {
+    if (!opts.moveSelf || (err as NodeJS.ErrnoException).code !== "EBUSY") {
+      return null;
+    }
+    try {
+      const leaf = path.join(root, GATEWAY_LEAF);
+      fs.mkdirSync(leaf, { recursive: true });
+      fs.writeFileSync(path.join(leaf, "cgroup.procs"), String(process.pid));
+      enableControllers(root, controllers);
+    } catch {
+      // Other processes share the cgroup; it cannot be delegated
+      return null;
+    }
+  }
+  try {
+    ensureGroup(root, SANDBOX_GROUP, controllers);
+  } catch {
+    return null;
+  }
+  return { root, controllers };
+}
+
+/**
+ * Resolves the delegated cgroup v2 subtree sandboxes are created in, or null when
+ * native cgroups are unavailable (cgroup v1/hybrid hosts, read-only cgroupfs).
+ *
+ * `OPENCLAW_SANDBOX_CGROUP_ROOT` names a delegated cgroup directory explicitly;
+ * otherwise the gateway's own cgroup is used when it is writable (containers with a
+ * private cgroup namespace, systemd units with `Delegate=yes`).
+ */
+export function resolveCgroupDelegate(
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<CgroupDelegate | null> {
+  cachedDelegate ??= Promise.resolve().then(() => {
+    const explicit = env.OPENCLAW_SANDBOX_CGROUP_ROOT?.trim();
+    if (explicit) {
+      return prepareCgroupDelegate(explicit);
+    }
+    const own = resolveOwnCgroup();
+    return own ? prepareCgroupDelegate(own, { moveSelf: true }) : null;
+  });
+  return cachedDelegate;
+}
+
+/** Forgets the detected delegate (tests, config changes). */
+export function resetCgroupDelegateCache(): void {
+  cachedDelegate = undefined;
+}
+
+/**
+ * Returns "major:minor" of the block device holding `target`, or null for virtual
+ * filesystems (io.max only applies to block devices).
+ */
+export function resolveBlockDevice(target: string): string | null {
+  let dev: number;
+  try {
+    dev = fs.statSync(target).dev;
+  } catch {
+    return null;
+  }
+  // glibc major()/minor() encoding
+  const major = (Math.floor(dev / 256) % 4096) | (Math.floor(dev / 2 ** 32) & ~0xfff);
+  const minor = (dev % 256) | (Math.floor(dev / 4096) & ~0xff);
+  return major === 0 ? null : `${major}:${minor}`;
+}
+
+/**
+ * Maps resource limits to cgroup v2 interface files.
+ */
+export function buildCgroupLimitFiles(
+  limits: SandboxResourceLimits,
+  opts: { controllers: CgroupController[]; ioDevice?: string | null },
+): Record<string, string> {
+  const has = (name: CgroupController) => opts.controllers.includes(name);
+  const files: Record<string, string> = {};
+  if (has("cpu") && limits.cpuQuotaPercent !== undefined) {
+    const quota = Math.max(1000, Math.round((limits.cpuQuotaPercent / 100) * CPU_PERIOD_US));
+    files["cpu.max"] = `${quota} ${CPU_PERIOD_US}`;
+  }
+  if (has("memory") && limits.memoryLimitMB !== undefined) {
+    const bytes = Math.floor(limits.memoryLimitMB * 1024 * 1024);
+    files["memory.max"] = String(bytes);
+    // Reclaim pressure before the hard limit, like systemd's MemoryHigh
+    files["memory.high"] = String(Math.floor(bytes * 0.9));
+  }
+  if (has("pids") && limits.pidsLimit !== undefined) {
+    files["pids.max"] = String(limits.pidsLimit);
+  }
+  if (has("io")) {
+    if (limits.ioWeight !== undefined) {
+      files["io.weight"] = `default ${limits.ioWeight}`;
+    }
+    const rates = [
+      limits.ioReadBps !== undefined ? `rbps=${limits.ioReadBps}` : null,
+      limits.ioWriteBps !== undefined ? `wbps=${limits.ioWriteBps}` : null,
+    ].filter(Boolean);
+    if (opts.ioDevice && rates.length > 0) {
+      files["io.max"] = `${opts.ioDevice} ${rates.join(" ")}`;
+    }
+  }
+  return files;
+}
+
+/**
+ * Creates a sandbox cgroup with the given limits and returns its path.
+ * io.max applies to the block device holding `ioPath` (the workspace).
+ */
+export function createSandboxCgroup(
+  delegate: CgroupDelegate,
+  params: { tenantId?: string; name: string; limits: SandboxResourceLimits; ioPath?: string },
+): string {
+  const tenantGroup = ensureGroup(
+    path.join(delegate.root, SANDBOX_GROUP),
+    params.tenantId ?? SHARED_TENANT_GROUP,
+    delegate.controllers,
+  );
+  const dir = path.join(tenantGroup, params.name);
+  fs.mkdirSync(dir);
+  const files = buildCgroupLimitFiles(params.limits, {
+    controllers: delegate.controllers,
+    ioDevice: params.ioPath ? resolveBlockDevice(params.ioPath) : null,
+  });
+  try {
+    for (const [file, value] of Object.entries(files)) {
+      // io.weight is missing without an io scheduler that supports it; keep the rest
+      if (file === "io.weight" && !fs.existsSync(path.join(dir, file))) {
+        continue;
+      }
+      fs.writeFileSync(path.join(dir, file), value);
+    }
+  } catch (err) {
+    fs.rmdirSync(dir);
+    throw err;
+  }
+  return dir;
+}
+
+/**
+ * Starts `command` inside the cgroup at `cgroupPath`.
+ */
+export function wrapCgroupCommand(cgroupPath: string, command: string[]): string[] {
+  return ["/bin/sh", "-c", 'echo $$ > "$0/cgroup.procs" && exec "$@"', cgroupPath, ...command];
+}
+
+function readStatValue(content: string | null, key: string): number | undefined {
+  const line = content?.split("\n").find((entry) => entry.startsWith(`${key} `));
+  const value = line ? Number(line.slice(key.length + 1)) : NaN;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function readNumber(file: string): number | undefined {
+  const content = readFile(file)?.trim();
+  const value = content ? Number(content) : NaN;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Reads the accounting of a sandbox cgroup, or null when it is gone.
+ */
+export function readSandboxCgroupUsage(cgroupPath: string): SandboxCgroupUsage | null {
+  if (!fs.existsSync(cgroupPath)) {
+    return null;
+  }
+  return {
+    cpuUsageUs: readStatValue(readFile(path.join(cgroupPath, "cpu.stat")), "usage_usec"),
+    memoryBytes: readNumber(path.join(cgroupPath, "memory.current")),
+    peakMemoryBytes: readNumber(path.join(cgroupPath, "memory.peak")),
+    pidsCount: readNumber(path.join(cgroupPath, "pids.current")),
+  };
+}
+
+/**
+ * Kills every process in a sandbox cgroup (cgroup.kill, kernel 5.14+).
+ */
+export function killSandboxCgroup(cgroupPath: string): boolean {
+  try {
+    fs.writeFileSync(path.join(cgroupPath, "cgroup.kill"), "1");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Freezes or thaws every process in a sandbox cgroup (cgroup.freeze).
+ */
+export function freezeSandboxCgroup(cgroupPath: string, frozen: boolean): boolean {
+  try {
+    fs.writeFileSync(path.join(cgroupPath, "cgroup.freeze"), frozen ? "1" : "0");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Removes a sandbox cgroup once its processes are gone (stragglers are killed).
+ */
+export async function removeSandboxCgroup(cgroupPath: string): Promise<boolean> {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    try {
+      fs.rmdirSync(cgroupPath);
+      return true;
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      if (code === "ENOENT") {
+        return true;
+      }
+      if (code !== "EBUSY") {
+        return false;
+      }
+      if (attempt === 0) {
+        killSandboxCgroup(cgroupPath);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+  return false;
+}
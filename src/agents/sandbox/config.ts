@@ -5,6 +5,7 @@ import type {
   SandboxDockerConfig,
   SandboxPruneConfig,
   SandboxScope,
+  SandboxSnapshotConfig,
 } from "./types.js";
 import { resolveAgentConfig } from "../agent-scope.js";
 import {
@@ -18,6 +19,7 @@ import {
   DEFAULT_SANDBOX_IDLE_HOURS,
   DEFAULT_SANDBOX_IMAGE,
   DEFAULT_SANDBOX_MAX_AGE_DAYS,
+  DEFAULT_SANDBOX_SNAPSHOT_KEEP,
   DEFAULT_SANDBOX_WORKDIR,
   DEFAULT_SANDBOX_WORKSPACE_ROOT,
 } from "./constants.js";
@@ -142,6 +144,24 @@ export function resolveSandboxPruneConfig(params: {
   };
 }
 
+/**
+ * Resolves workspace snapshot settings for an agent (agent overrides the defaults).
+ * OPENCLAWMU ADDITION: snapshots cover the tenant workspace, so scope does not apply.
+ */
+export function resolveSandboxSnapshotConfig(
+  cfg?: OpenClawConfig,
+  agentId?: string,
+): SandboxSnapshotConfig {
+  const globalSnapshots = cfg?.agents?.defaults?.sandbox?.snapshots;
+  const agentSnapshots =
+    cfg && agentId ? resolveAgentConfig(cfg, agentId)?.sandbox?.snapshots : undefined;
+  return {
+    auto: agentSnapshots?.auto ?? globalSnapshots?.auto ?? "off",
+    keep: agentSnapshots?.keep ?? globalSnapshots?.keep ?? DEFAULT_SANDBOX_SNAPSHOT_KEEP,
+    exclude: agentSnapshots?.exclude ?? globalSnapshots?.exclude ?? [],
+  };
+}
+
 export function resolveSandboxConfigForAgent(
   cfg?: OpenClawConfig,
   agentId?: string,
@@ -9,6 +9,8 @@ export const DEFAULT_SANDBOX_CONTAINER_PREFIX = "openclaw-sbx-";
 export const DEFAULT_SANDBOX_WORKDIR = "/workspace";
 export const DEFAULT_SANDBOX_IDLE_HOURS = 24;
 export const DEFAULT_SANDBOX_MAX_AGE_DAYS = 7;
+// OPENCLAWMU ADDITION: automatic workspace snapshots kept per tenant.
+export const DEFAULT_SANDBOX_SNAPSHOT_KEEP = 10;
 
 export const DEFAULT_TOOL_ALLOW = [
   "exec",
@@ -0,0 +1,173 @@
+/**
+ * Egress allowlist for sandboxes behind the filtering proxy.
+ * OPENCLAWMU ADDITION: deny-by-default host/CIDR/port rules evaluated per connection.
+ *
+ * Hostname rules go through the web-fetch SSRF checks (blocked hostnames, private
+ * addresses, pinned DNS results); only exact hostname rules and CIDR rules may reach
+ * private addresses, because they name the destination explicitly.
+ */
+
+import { BlockList, isIP } from "node:net";
+import { resolvePinnedHostnameWithPolicy, type LookupFn } from "../../infra/net/ssrf.js";
+
+export type SandboxEgressRule = {
+  /** Hostname or `*.suffix` pattern. */
+  host?: string;
+  /** IPv4/IPv6 network in CIDR form (also matches hostnames resolving inside it). */
+  cidr?: string;
+  /** Allowed destination ports (default: 80 and 443). */
+  ports?: number[];
+};
+
+export type SandboxEgressDecision =
+  | { allowed: true; address: string; rule: string }
+  | { allowed: false; reason: string };
+
+export const DEFAULT_EGRESS_PORTS = [80, 443];
+
+function describeRule(rule: SandboxEgressRule): string {
+  const target = rule.host ?? rule.cidr ?? "?";
+  return `${target}:${(rule.ports ?? DEFAULT_EGRESS_PORTS).join(",")}`;
+}
+
+function parseCidr(
+  cidr: string,
+): { network: string; prefix: number; type: "ipv4" | "ipv6" } | null {
+  const [network, prefixRaw] = cidr.trim().split("/");
+  const family = isIP(network ?? "");
+  if (!network || !family) {
+    return null;
+  }
+  const max = family === 4 ? 32 : 128;
+  const prefix = prefixRaw === undefined ? max : Number(prefixRaw);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > max) {
+    return null;
+  }
+  return { network, prefix, type: family === 4 ? "ipv4" : "ipv6" };
+}
+
+function matchesHostPattern(hostname: string, pattern: string): boolean {
+  const normalized = pattern.trim().toLowerCase().replace(/\.$/, "");
+  if (normalized.startsWith("*.")) {
+    return hostname.endsWith(normalized.slice(1));
+  }
+  return hostname === normalized;
+}
+
+function addressInCidrs(address: string, rules: SandboxEgressRule[]): SandboxEgressRule | null {
+  const family = isIP(address);
+  for (const rule of rules) {
+    const cidr = rule.cidr ? parseCidr(rule.cidr) : null;
+    if (!cidr || (family === 4) !== (cidr.type === "ipv4")) {
+      continue;
+    }
+    const list = new BlockList();
+    list.addSubnet(cidr.network, cidr.prefix, cidr.type);
+    if (list.check(address, cidr.type)) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates egress rules from config or an API call.
+ * Returns an error message, or null when valid.
+ */
+export function validateSandboxEgressRules(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return "allow must be a list of rules";
+  }
+  for (const [index, raw] of value.entries()) {
+    const rule = raw as Record<string, unknown>;
+    if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+      return `allow[${index}] must be an object`;
+    }
+    for (const key of Object.keys(rule)) {
+      if (key !== "host" && key !== "cidr" && key !== "ports") {
+        return `allow[${index}]: unknown setting ${key}`;
+      }
+    }
+    if ((rule.host === undefined) === (rule.cidr === undefined)) {
+      return `allow[${index}] needs exactly one of host or cidr`;
+    }
+    if (
+      rule.host !== undefined &&
+      (typeof rule.host !== "string" || !/^(\*\.)?[a-z0-9.-]+$/i.test(rule.host))
+    ) {
+      return `allow[${index}].host must be a hostname or *.suffix pattern`;
+    }
+    if (rule.cidr !== undefined && (typeof rule.cidr !== "string" || !parseCidr(rule.cidr))) {
+      return `allow[${index}].cidr must be an IPv4/IPv6 CIDR`;
+    }
+    if (
+      rule.ports !== undefined &&
+      (!Array.isArray(rule.ports) ||
+        rule.ports.length === 0 ||
+        !rule.ports.every((port) => Number.isInteger(port) && port > 0 && port < 65536))
+    ) {
+      return `allow[${index}].ports must be a non-empty list of ports`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Decides whether a sandbox may open a connection to host:port.
+ * Returns the address to connect to (pinned, so DNS cannot change between check and connect).
+ */
+export async function evaluateSandboxEgress(
+  rules: SandboxEgressRule[],
+  target: { host: string; port: number },
+  opts: { lookupFn?: LookupFn } = {},
+): Promise<SandboxEgressDecision> {
+  const candidates = rules.filter((rule) =>
+    (rule.ports ?? DEFAULT_EGRESS_PORTS).includes(target.port),
+  );
+  if (candidates.length === 0) {
+    return { allowed: false, reason: `port ${target.port} not allowed` };
+  }
+  const host = target.host
+    .trim()
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+
+  if (isIP(host)) {
+    const rule = addressInCidrs(host, candidates);
+    return rule
+      ? { allowed: true, address: host, rule: describeRule(rule) }
+      : { allowed: false, reason: `address ${host} not in allowlist` };
+  }
+
+  const hostRule = candidates.find((rule) => rule.host && matchesHostPattern(host, rule.host));
+  try {
+    if (hostRule?.host) {
+      const exact = !hostRule.host.startsWith("*.");
+      const pinned = await resolvePinnedHostnameWithPolicy(host, {
+        lookupFn: opts.lookupFn,
+        policy: { hostnameAllowlist: [hostRule.host], allowedHostnames: exact ? [host] : [] },
+      });
+      return { allowed: true, address: pinned.addresses[0], rule: describeRule(hostRule) };
+    }
+    const cidrRules = candidates.filter((rule) => rule.cidr);
+    if (cidrRules.length > 0) {
+      const pinned = await resolvePinnedHostnameWithPolicy(host, {
+        lookupFn: opts.lookupFn,
+        policy: { allowPrivateNetwork: true },
+      });
+      const matched = pinned.addresses.map((address) => addressInCidrs(address, cidrRules));
+      if (matched.every(Boolean)) {
+        return {
+          allowed: true,
+          address: pinned.addresses[0],
+          rule: describeRule(matched[0] as SandboxEgressRule),
+        };
+      }
+    }
+  } catch (err) {
+    // SsrFBlockedError (private address, blocked hostname) or a DNS failure
+    return { allowed: false, reason: err instanceof Error ? err.message : String(err) };
+  }
+  return { allowed: false, reason: `host ${host} not in allowlist` };
+}
@@ -0,0 +1,181 @@
+import fs from "node:fs";
+import http from "node:http";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SandboxEgressRule } from "./egress-policy.js";
+import { evaluateSandboxEgress, validateSandboxEgressRules } from "./egress-policy.js";
+import {
+  startEgressProxy,
+  wrapEgressBridge,
+  type EgressProxyHandle,
+  type EgressRequestRecord,
+} from "./egress-proxy.js";
+
+const lookupFn = vi.fn(async (hostname: string) => [
+  { address: hostname.endsWith("example.test") ? "127.0.0.1" : "93.184.216.34", family: 4 },
+]) as unknown as NonNullable<Parameters<typeof evaluateSandboxEgress>[2]["lookupFn"]>;
+
+/** Sends `request` on a fresh proxy connection and collects everything until close. */
+function exchange(socketPath: string, request: Buffer | string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(socketPath);
+    const chunks: Buffer[] = [];
+    socket.on("data", (chunk) => chunks.push(chunk));
+    socket.on("error", reject);
+    socket.on("close", () => resolve(Buffer.concat(chunks).toString("latin1")));
+    socket.write(request);
+  });
+}
+
+describe("egress policy", () => {
+  it("validates rules", () => {
+    expect(validateSandboxEgressRules([{ host: "*.github.com" }, { cidr: "10.0.0.0/8" }])).toBe(
+      null,
+    );
+    expect(validateSandboxEgressRules([{ host: "a.test", cidr: "10.0.0.0/8" }])).toMatch(
+      /exactly one/,
+    );
+    expect(validateSandboxEgressRules([{ cidr: "10.0.0.0/33" }])).toMatch(/cidr/);
+    expect(validateSandboxEgressRules([{ host: "a.test", ports: [0] }])).toMatch(/ports/);
+  });
+
+  it("applies ports, CIDRs and the SSRF rules", async () => {
+    const rules: SandboxEgressRule[] = [
+      { host: "api.example.test" },
+      { host: "*.example.test" },
+      { host: "*.public.test", ports: [443] },
+      { cidr: "10.1.0.0/16", ports: [5432] },
+    ];
+    await expect(
+      evaluateSandboxEgress(rules, { host: "api.example.test", port: 443 }, { lookupFn }),
+    ).resolves.toMatchObject({ allowed: true, address: "127.0.0.1" });
+    // Wildcards never reach private addresses
+    await expect(
+      evaluateSandboxEgress(rules, { host: "other.example.test", port: 443 }, { lookupFn }),
+    ).resolves.toMatchObject({ allowed: false });
+    await expect(
+      evaluateSandboxEgress(rules, { host: "cdn.public.test", port: 443 }, { lookupFn }),
+    ).resolves.toMatchObject({ allowed: true, address: "93.184.216.34" });
+    await expect(
+      evaluateSandboxEgress(rules, { host: "cdn.public.test", port: 80 }, { lookupFn }),
+    ).resolves.toMatchObject({ allowed: false });
+    await expect(
+      evaluateSandboxEgress(rules, { host: "10.1.2.3", port: 5432 }, { lookupFn }),
+    ).resolves.toMatchObject({ allowed: true, rule: "10.1.0.0/16:5432" });
+    await expect(
+      evaluateSandboxEgress(rules, { host: "10.2.0.1", port: 5432 }, { lookupFn }),
+    ).resolves.toMatchObject({ allowed: false, reason: "address 10.2.0.1 not in allowlist" });
+    await expect(
+      evaluateSandboxEgress([], { host: "api.example.test", port: 443 }, { lookupFn }),
+    ).resolves.toMatchObject({ allowed: false });
+  });
+});
+
+describe("egress proxy", () => {
+  let dir: string;
+  let upstream: http.Server;
+  let upstreamPort: number;
+  let proxy: EgressProxyHandle;
+  let records: EgressRequestRecord[];
+  let rules: SandboxEgressRule[];
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-egress-test-"));
+    upstream = http.createServer((req, res) => {
+      res.setHeader("Connection", "close");
+      res.end(`hello ${req.url}`);
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+    upstreamPort = (upstream.address() as net.AddressInfo).port;
+    records = [];
+    rules = [{ host: "api.example.test", ports: [upstreamPort] }];
+    proxy = await startEgressProxy({
+      socketPath: path.join(dir, "egress.sock"),
+      getRules: () => rules,
+      onRequest: (record) => records.push(record),
+      lookupFn,
+    });
+  });
+
+  afterEach(async () => {
+    await proxy.close();
+    await new Promise<void>((resolve) => upstream.close(() => resolve()));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("forwards allowed plain HTTP and CONNECT requests", async () => {
+    const plain = await exchange(
+      proxy.socketPath,
+      `GET http://api.example.test:${upstreamPort}/a?b=1 HTTP/1.1\r\nHost: api.example.test\r\nProxy-Connection: keep-alive\r\n\r\n`,
+    );
+    expect(plain).toMatch(/^HTTP\/1\.1 200/);
+    expect(plain).toContain("hello /a?b=1");
+
+    const tunnel = await exchange(
+      proxy.socketPath,
+      `CONNECT api.example.test:${upstreamPort} HTTP/1.1\r\n\r\nGET /t HTTP/1.1\r\nHost: api.example.test\r\n\r\n`,
+    );
+    expect(tunnel).toMatch(/^HTTP\/1\.1 200 Connection Established/);
+    expect(tunnel).toContain("hello /t");
+
+    await vi.waitFor(() => expect(records).toHaveLength(2));
+    expect(records.map((r) => [r.protocol, r.allowed])).toEqual([
+      ["http", true],
+      ["connect", true],
+    ]);
+    expect(records[0]?.bytesIn).toBeGreaterThan(0);
+  });
+
+  it("denies hosts and ports outside the allowlist", async () => {
+    const denied = await exchange(
+      proxy.socketPath,
+      `CONNECT evil.test:${upstreamPort} HTTP/1.1\r\n\r\n`,
+    );
+    expect(denied).toMatch(/^HTTP\/1\.1 403/);
+    const wrongPort = await exchange(
+      proxy.socketPath,
+      "GET http://api.example.test:1/ HTTP/1.1\r\nHost: api.example.test\r\n\r\n",
+    );
+    expect(wrongPort).toMatch(/^HTTP\/1\.1 403/);
+    // Rules are read per connection
+    rules = [];
+    const revoked = await exchange(
+      proxy.socketPath,
+      `CONNECT api.example.test:${upstreamPort} HTTP/1.1\r\n\r\n`,
+    );
+    expect(revoked).toMatch(/^HTTP\/1\.1 403/);
+    expect(records.map((r) => [r.host, r.allowed])).toEqual([
+      ["evil.test", false],
+      ["api.example.test", false],
+      ["api.example.test", false],
+    ]);
+  });
+
+  it("speaks SOCKS5 with hostname targets", async () => {
+    const host = Buffer.from("api.example.test");
+    const port = Buffer.alloc(2);
+    port.writeUInt16BE(upstreamPort);
+    const response = await exchange(
+      proxy.socketPath,
+      Buffer.concat([
+        Buffer.from([0x05, 0x01, 0x00]),
+        Buffer.from([0x05, 0x01, 0x00, 0x03, host.length]),
+        host,
+        port,
+        Buffer.from("GET /s HTTP/1.1\r\nHost: api.example.test\r\n\r\n"),
+      ]),
+    );
+    expect(response.slice(0, 4)).toBe("\x05\x00\x05\x00");
+    expect(response).toContain("hello /s");
+  });
+
+  it("starts the command behind the loopback bridge", () => {
+    const command = wrapEgressBridge({ bridge: "socat", port: 3128 }, ["curl", "https://a.test"]);
+    expect(command.slice(0, 2)).toEqual(["/bin/sh", "-c"]);
+    expect(command[2]).toContain("TCP-LISTEN:3128,bind=127.0.0.1");
+    expect(command[2]).toContain(":0C38 00000000:0000 0A");
+    expect(command.slice(3)).toEqual(["socat", "curl", "https://a.test"]);
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Filtering egress proxy for network-restricted sandboxes.
+ * OPENCLAWMU ADDITION: HTTP CONNECT, plain HTTP and SOCKS5 on one Unix socket.
+ *
+ * The sandbox keeps its own network namespace (loopback only); the proxy socket is
+ * bind-mounted into it and a bridge inside the sandbox exposes it on 127.0.0.1. Every
+ * connection is checked against the egress rules before the proxy dials out, and
+ * every decision is reported through `onRequest`.
+ */
+
+import fs from "node:fs";
+import net from "node:net";
+import path from "node:path";
+import type { LookupFn } from "../../infra/net/ssrf.js";
+import { evaluateSandboxEgress, type SandboxEgressRule } from "./egress-policy.js";
+
+/** Largest request head (request line + headers) accepted from the sandbox. */
+const MAX_HEAD_BYTES = 64 * 1024;
+const CONNECT_TIMEOUT_MS = 15_000;
+
+/** Where the proxy socket is mounted inside the sandbox. */
+export const EGRESS_SOCKET_MOUNT = "/run/openclaw-egress.sock";
+
+export type EgressProtocol = "connect" | "http" | "socks5";
+
+export type EgressRequestRecord = {
+  ts: string;
+  protocol: EgressProtocol;
+  host: string;
+  port: number;
+  allowed: boolean;
+  /** Matching rule ("host:ports") when allowed, the refusal reason otherwise. */
+  rule?: string;
+  reason?: string;
+  /** Bytes sent to / received from the destination (allowed connections). */
+  bytesOut?: number;
+  bytesIn?: number;
+  durationMs?: number;
+};
+
+export type EgressProxyHandle = {
+  socketPath: string;
+  close: () => Promise<void>;
+};
+
+type ProxyOptions = {
+  getRules: () => SandboxEgressRule[];
+  onRequest?: (record: EgressRequestRecord) => void;
+  lookupFn?: LookupFn;
+};
+
+function parseHostPort(value: string, defaultPort: number): { host: string; port: number } | null {
+  const match = /^\[?([^\]]+?)\]?(?::(\d+))?$/.exec(value.trim());
+  if (!match?.[1]) {
+    return null;
+  }
+  const port = match[2] ? Number(match[2]) : defaultPort;
+  return port > 0 && port < 65536 ? { host: match[1], port } : null;
+}
+
+/**
+ * Reads until the end of an HTTP request head. The socket is left paused.
+ */
+function readHead(socket: net.Socket, initial: Buffer): Promise<{ head: string; rest: Buffer }> {
+  return new Promise((resolve, reject) => {
+    let buffer = initial;
+    const check = () => {
+      const end = buffer.indexOf("\r\n\r\n");
+      if (end < 0 && buffer.length <= MAX_HEAD_BYTES) {
+        return false;
+      }
+      socket.off("data", onData);
+      socket.pause();
+      if (end < 0) {
+        reject(new Error("request head too large"));
+      } else {
+        resolve({
+          head: buffer.subarray(0, end).toString("latin1"),
+          rest: buffer.subarray(end + 4),
+        });
+      }
+      return true;
+    };
+    const onData = (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      check();
+    };
+    if (!check()) {
+      socket.on("data", onData);
+      socket.resume();
+    }
+  });
+}
+
+/**
+ * Reads until at least `count` bytes are buffered. The socket is left paused.
+ */
+function readBytes(socket: net.Socket, initial: Buffer, count: number): Promise<Buffer> {
+  return new Promise((resolve) => {
+    if (initial.length >= count) {
+      resolve(initial);
+      return;
+    }
+    let buffer = initial;
+    const onData = (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      if (buffer.length >= count) {
+        socket.off("data", onData);
+        socket.pause();
+        resolve(buffer);
+      }
+    };
+    socket.on("data", onData);
+    socket.resume();
+  });
+}
+
+/**
+ * Reads a SOCKS5 greeting and CONNECT request (no authentication).
+ */
+async function readSocksRequest(
+  socket: net.Socket,
+  initial: Buffer,
+): Promise<{ host: string; port: number; rest: Buffer } | null> {
+  let buffer = await readBytes(socket, initial, 2);
+  const methods = buffer[1] ?? 0;
+  buffer = await readBytes(socket, buffer, 2 + methods);
+  if (!buffer.subarray(2, 2 + methods).includes(0x00)) {
+    socket.end(Buffer.from([0x05, 0xff]));
+    return null;
+  }
+  socket.write(Buffer.from([0x05, 0x00]));
+  buffer = await readBytes(socket, buffer.subarray(2 + methods), 5);
+  if (buffer[0] !== 0x05 || buffer[1] !== 0x01) {
+    // Only CONNECT is supported
+    socket.end(Buffer.from([0x05, 0x07, 0x00, 0x01, 0, 0, 0, 0, 0, 0]));
+    return null;
+  }
+  const atyp = buffer[3];
+  let host: string;
+  let offset: number;
+  if (atyp === 0x01) {
+    buffer = await readBytes(socket, buffer, 10);
+    host = [...buffer.subarray(4, 8)].join(".");
+    offset = 8;
+  } else if (atyp === 0x03) {
+    const length = buffer[4] ?? 0;
+    buffer = await readBytes(socket, buffer, 7 + length);
+    host = buffer.subarray(5, 5 + length).toString("latin1");
+    offset = 5 + length;
+  } else if (atyp === 0x04) {
+    buffer = await readBytes(socket, buffer, 22);
+    const groups: string[] = [];
+    for (let i = 0; i < 16; i += 2) {
+      groups.push(buffer.readUInt16BE(4 + i).toString(16));
+    }
+    host = groups.join(":");
+    offset = 20;
+  } else {
+    socket.end(Buffer.from([0x05, 0x08, 0x00, 0x01, 0, 0, 0, 0, 0, 0]));
+    return null;
+  }
+  return { host, port: buffer.readUInt16BE(offset), rest: buffer.subarray(offset + 2) };
+}
+
+/**
+ * Rewrites an absolute-form proxy request to origin-form and drops proxy headers.
+ * The upstream connection is closed after one response so each request is checked.
+ */
+function rewriteHttpHead(lines: string[], pathAndQuery: string): string {
+  const [method, , version] = (lines[0] ?? "").split(" ");
+  const headers = lines
+    .slice(1)
+    .filter((line) => !/^(proxy-[a-z-]*|connection|keep-alive):/i.test(line));
+  return [`${method} ${pathAndQuery} ${version}`, ...headers, "Connection: close", "", ""].join(
+    "\r\n",
+  );
+}
+
+function connectUpstream(address: string, port: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const upstream = net.connect({ host: address, port });
+    const timer = setTimeout(() => {
+      upstream.destroy();
+      reject(new Error("connect timeout"));
+    }, CONNECT_TIMEOUT_MS);
+    upstream.once("connect", () => {
+      clearTimeout(timer);
+      resolve(upstream);
+    });
+    upstream.once("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
+}
+
+async function handleConnection(client: net.Socket, opts: ProxyOptions): Promise<void> {
+  const startedAt = Date.now();
+  // Clients that never finish their request are dropped; cleared once connected
+  client.setTimeout(CONNECT_TIMEOUT_MS, () => client.destroy());
+  client.pause();
+  const first = await readBytes(client, Buffer.alloc(0), 1);
+
+  let protocol: EgressProtocol;
+  let target: { host: string; port: number } | null;
+  let pending: Buffer;
+  let reply: { ok: Buffer | string; denied: Buffer | string; failed: Buffer | string };
+
+  if (first[0] === 0x05) {
+    const request = await readSocksRequest(client, first);
+    if (!request) {
+      return;
+    }
+    protocol = "socks5";
+    target = { host: request.host, port: request.port };
+    pending = request.rest;
+    const socksReply = (code: number) => Buffer.from([0x05, code, 0x00, 0x01, 0, 0, 0, 0, 0, 0]);
+    reply = { ok: socksReply(0x00), denied: socksReply(0x02), failed: socksReply(0x05) };
+  } else {
+    const { head, rest } = await readHead(client, first);
+    const lines = head.split("\r\n");
+    const [method = "", uri = ""] = (lines[0] ?? "").split(" ");
+    if (method.toUpperCase() === "CONNECT") {
+      protocol = "connect";
+      target = parseHostPort(uri, 443);
+      pending = rest;
+      reply = {
+        ok: "HTTP/1.1 200 Connection Established\r\n\r\n",
+        denied: "HTTP/1.1 403 Forbidden\r\nContent-Length: 0\r\nConnection: close\r\n\r\n",
+        failed: "HTTP/1.1 502 Bad Gateway\r\nContent-Length: 0\r\nConnection: close\r\n\r\n",
+      };
+    } else {
+      protocol = "http";
+      let url: URL | null = null;
+      try {
+        url = new URL(uri);
+      } catch {
+        url = null;
+      }
+      target =
+        url && url.protocol === "http:"
+          ? { host: url.hostname, port: url.port ? Number(url.port) : 80 }
+          : null;
+      pending = Buffer.concat([
+        Buffer.from(url ? rewriteHttpHead(lines, `${url.pathname}${url.search}`) : "", "latin1"),
+        rest,
+      ]);
+      reply = {
+        ok: "",
+        denied: "HTTP/1.1 403 Forbidden\r\nContent-Length: 0\r\nConnection: close\r\n\r\n",
+        failed: "HTTP/1.1 502 Bad Gateway\r\nContent-Length: 0\r\nConnection: close\r\n\r\n",
+      };
+    }
+  }
+
+  const record = (entry: Omit<EgressRequestRecord, "ts" | "protocol">) =>
+    opts.onRequest?.({ ts: new Date(startedAt).toISOString(), protocol, ...entry });
+
+  if (!target) {
+    record({ host: "", port: 0, allowed: false, reason: "malformed request" });
+    client.end(reply.denied);
+    return;
+  }
+  const decision = await evaluateSandboxEgress(opts.getRules(), target, {
+    lookupFn: opts.lookupFn,
+  });
+  if (!decision.allowed) {
+    record({ ...target, allowed: false, reason: decision.reason });
+    client.end(reply.denied);
+    return;
+  }
+
+  let upstream: net.Socket;
+  try {
+    upstream = await connectUpstream(decision.address, target.port);
+  } catch (err) {
+    record({
+      ...target,
+      allowed: true,
+      rule: decision.rule,
+      reason: err instanceof Error ? err.message : String(err),
+    });
+    client.end(reply.failed);
+    return;
+  }
+
+  if (reply.ok) {
+    client.write(reply.ok);
+  }
+  if (pending.length > 0) {
+    upstream.write(pending);
+  }
+  let bytesOut = pending.length;
+  let bytesIn = 0;
+  client.on("data", (chunk: Buffer) => {
+    bytesOut += chunk.length;
+  });
+  upstream.on("data", (chunk: Buffer) => {
+    bytesIn += chunk.length;
+  });
+  client.setTimeout(0);
+  client.pipe(upstream);
+  upstream.pipe(client);
+  client.resume();
+
+  let finished = false;
+  const finish = () => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+    client.destroy();
+    upstream.destroy();
+    record({
+      ...target,
+      allowed: true,
+      rule: decision.rule,
+      bytesOut,
+      bytesIn,
+      durationMs: Date.now() - startedAt,
+    });
+  };
+  client.on("close", finish);
+  upstream.on("close", finish);
+  client.on("error", finish);
+  upstream.on("error", finish);
+}
+
+/**
+ * Starts a filtering proxy on a Unix socket (replacing a stale socket file).
+ */
+export async function startEgressProxy(
+  params: ProxyOptions & { socketPath: string },
+): Promise<EgressProxyHandle> {
+  fs.mkdirSync(path.dirname(params.socketPath), { recursive: true, mode: 0o700 });
+  fs.rmSync(params.socketPath, { force: true });
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((client) => {
+    sockets.add(client);
+    client.on("close", () => sockets.delete(client));
+    client.on("error", () => client.destroy());
+    handleConnection(client, params).catch(() => client.destroy());
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(params.socketPath, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  return {
+    socketPath: params.socketPath,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close(() => {
+          fs.rmSync(params.socketPath, { force: true });
+          resolve();
+        });
+      }),
+  };
+}
+
+/**
+ * Proxy environment for the sandboxed command (both spellings; tools differ).
+ */
+export function buildEgressProxyEnv(port: number): Record<string, string> {
+  const url = `http://127.0.0.1:${port}`;
+  return {
+    HTTP_PROXY: url,
+    HTTPS_PROXY: url,
+    ALL_PROXY: `socks5h://127.0.0.1:${port}`,
+    NO_PROXY: "localhost,127.0.0.1,::1",
+    http_proxy: url,
+    https_proxy: url,
+    all_proxy: `socks5h://127.0.0.1:${port}`,
+    no_proxy: "localhost,127.0.0.1,::1",
+  };
+}
+
+/**
+ * Starts the loopback bridge to the mounted proxy socket in front of the command.
+ * The command starts once the bridge listens (checked via /proc/net/tcp, up to ~1s).
+ */
+export function wrapEgressBridge(
+  egress: { bridge: string; port: number },
+  command: string[],
+): string[] {
+  const portHex = egress.port.toString(16).toUpperCase().padStart(4, "0");
+  const script = [
+    `"$0" TCP-LISTEN:${egress.port},bind=127.0.0.1,fork,reuseaddr UNIX-CONNECT:${EGRESS_SOCKET_MOUNT} 2>/dev/null &`,
+    `for _ in 1 2 3 4 5 6 7 8 9 10 11 12 13 14 15 16 17 18 19 20; do`,
+    `  grep -q ":${portHex} 00000000:0000 0A" /proc/net/tcp && break; sleep 0.05`,
+    `done`,
+    `exec "$@"`,
+  ].join("\n");
+  return ["/bin/sh", "-c", script, egress.bridge, ...command];
+}
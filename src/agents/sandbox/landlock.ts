@@ -0,0 +1,98 @@
+/**
+ * Landlock filesystem rules for the bwrap sandbox.
+ * OPENCLAWMU ADDITION: optional second layer behind the bwrap mount namespace.
+ *
+ * bwrap has no Landlock support of its own, so the rules are enforced by a
+ * launcher run inside the sandbox in front of the command (landrun-compatible
+ * `--rox/--ro/--rw` flags). The launcher must be reachable inside the sandbox,
+ * e.g. installed under /usr/bin.
+ */
+
+import type { SandboxBwrapConfig, SandboxLandlockConfig } from "./types.bwrap.js";
+
+export const DEFAULT_LANDLOCK_BINARY = "/usr/bin/landrun";
+
+/** Mounted system directories; programs there must stay executable. */
+const SYSTEM_EXEC_PATHS = ["/usr", "/bin", "/sbin", "/lib", "/lib64"];
+
+/** Read-only system paths the sandbox needs (resolver config, certificates, /proc). */
+const SYSTEM_READ_PATHS = ["/etc", "/proc"];
+
+/** Tenant state mount point inside the sandbox (see buildBwrapArgs). */
+const TENANT_STATE_MOUNT = "/openclaw-state";
+
+/**
+ * Resolves Landlock settings with defaults, or null when disabled.
+ */
+export function resolveLandlockConfig(
+  partial?: {
+    enabled?: boolean;
+    binary?: string;
+    readExec?: string[];
+    readOnly?: string[];
+    readWrite?: string[];
+    bestEffort?: boolean;
+  } | null,
+): SandboxLandlockConfig | null {
+  if (!partial?.enabled) {
+    return null;
+  }
+  return {
+    binary: partial.binary ?? DEFAULT_LANDLOCK_BINARY,
+    readExec: partial.readExec ?? [],
+    readOnly: partial.readOnly ?? [],
+    readWrite: partial.readWrite ?? [],
+    bestEffort: partial.bestEffort ?? true,
+  };
+}
+
+/**
+ * Effective Landlock rules for a sandbox: system paths, the workdir, tmpfs mounts,
+ * /dev and the tenant state mount plus the configured extra paths.
+ */
+export function resolveLandlockRules(
+  config: Pick<SandboxBwrapConfig, "workdir" | "tmpfs">,
+  landlock: SandboxLandlockConfig,
+  opts: { tenantStateMounted?: boolean } = {},
+): { readExec: string[]; readOnly: string[]; readWrite: string[] } {
+  const unique = (paths: string[]) => [...new Set(paths)];
+  return {
+    readExec: unique([...SYSTEM_EXEC_PATHS, ...landlock.readExec]),
+    readOnly: unique([...SYSTEM_READ_PATHS, ...landlock.readOnly]),
+    readWrite: unique([
+      config.workdir,
+      ...config.tmpfs,
+      "/dev",
+      ...(opts.tenantStateMounted ? [TENANT_STATE_MOUNT] : []),
+      ...landlock.readWrite,
+    ]),
+  };
+}
+
+/**
+ * Prefixes a sandboxed command with the Landlock launcher when rules are configured.
+ */
+export function wrapLandlockCommand(
+  config: Pick<SandboxBwrapConfig, "workdir" | "tmpfs" | "landlock">,
+  command: string[],
+  opts: { tenantStateMounted?: boolean } = {},
+): string[] {
+  if (!config.landlock) {
+    return command;
+  }
+  const rules = resolveLandlockRules(config, config.landlock, opts);
+  const args = [config.landlock.binary];
+  if (config.landlock.bestEffort) {
+    args.push("--best-effort");
+  }
+  for (const entry of rules.readExec) {
+    args.push("--rox", entry);
+  }
+  for (const entry of rules.readOnly) {
+    args.push("--ro", entry);
+  }
+  for (const entry of rules.readWrite) {
+    args.push("--rw", entry);
+  }
+  return [...args, "--", ...command];
+}
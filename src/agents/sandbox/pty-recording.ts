@@ -0,0 +1,160 @@
+/**
+ * Asciicast v2 recording for sandbox PTYs.
+ * OPENCLAWMU ADDITION: terminal session recording for support and audit.
+ *
+ * Wraps a PTY handle so output ("o"), input ("i") and resizes ("r") are appended
+ * to an asciicast v2 file (https://docs.asciinema.org/manual/asciicast/v2/).
+ * Writes are buffered through a single append stream; once the file reaches its
+ * size limit a marker event is written and recording stops (the PTY keeps running).
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { BwrapPtyHandle } from "./bwrap-pty.js";
+
+export type PtyRecordingOptions = {
+  /** Absolute path of the .cast file to create. */
+  filePath: string;
+  /** Record input written to the PTY (default true). */
+  recordInput?: boolean;
+  /** Stop recording once the file reaches this many bytes. */
+  maxBytes?: number;
+  /** Recording title stored in the header. */
+  title?: string;
+  /** Extra header env (SHELL/TERM). */
+  env?: Record<string, string>;
+};
+
+export type AsciicastHeader = {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp: number;
+  title?: string;
+  env?: Record<string, string>;
+};
+
+export type AsciicastEventType = "o" | "i" | "r" | "m";
+
+export type AsciicastEvent = [time: number, type: AsciicastEventType, data: string];
+
+/** Default per-file limit (32 MiB). */
+export const DEFAULT_RECORDING_MAX_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Parses an asciicast v2 document. Malformed event lines are skipped.
+ * @throws Error if the header is missing or not version 2
+ */
+export function parseAsciicast(content: string): {
+  header: AsciicastHeader;
+  events: AsciicastEvent[];
+} {
+  const lines = content.split("\n");
+  let header: AsciicastHeader | null = null;
+  try {
+    header = JSON.parse(lines[0] ?? "") as AsciicastHeader;
+  } catch {
+    header = null;
+  }
+  if (!header || header.version !== 2) {
+    throw new Error("Not an asciicast v2 recording");
+  }
+  const events: AsciicastEvent[] = [];
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const event = JSON.parse(line) as unknown;
+      if (
+        Array.isArray(event) &&
+        typeof event[0] === "number" &&
+        typeof event[1] === "string" &&
+        typeof event[2] === "string"
+      ) {
+        events.push(event as AsciicastEvent);
+      }
+    } catch {
+      // partial trailing line from a crash; ignore
+    }
+  }
+  return { header, events };
+}
+
+/**
+ * Wraps a PTY handle so its session is recorded to an asciicast v2 file.
+ * Recording failures never break the terminal; they only end the recording.
+ */
+export function recordPtySession(
+  handle: BwrapPtyHandle,
+  options: PtyRecordingOptions & { cols: number; rows: number },
+): BwrapPtyHandle {
+  const startedAt = Date.now();
+  const maxBytes = options.maxBytes ?? DEFAULT_RECORDING_MAX_BYTES;
+  const recordInput = options.recordInput !== false;
+
+  fs.mkdirSync(path.dirname(options.filePath), { recursive: true, mode: 0o700 });
+  const stream = fs.createWriteStream(options.filePath, { flags: "wx", mode: 0o600 });
+  let written = 0;
+  let active = true;
+
+  const stop = () => {
+    if (!active) {
+      return;
+    }
+    active = false;
+    stream.end();
+  };
+  stream.on("error", () => {
+    active = false;
+  });
+
+  const writeLine = (line: string) => {
+    const bytes = Buffer.byteLength(line) + 1;
+    if (written + bytes > maxBytes) {
+      const marker = `${JSON.stringify([elapsed(), "m", "recording truncated (size limit)"])}\n`;
+      stream.write(marker);
+      stop();
+      return;
+    }
+    written += bytes;
+    stream.write(`${line}\n`);
+  };
+  const elapsed = () => Math.round(Date.now() - startedAt) / 1000;
+  const record = (type: AsciicastEventType, data: string) => {
+    if (active) {
+      writeLine(JSON.stringify([elapsed(), type, data]));
+    }
+  };
+
+  const header: AsciicastHeader = {
+    version: 2,
+    width: options.cols,
+    height: options.rows,
+    timestamp: Math.floor(startedAt / 1000),
+    title: options.title,
+    env: options.env,
+  };
+  writeLine(JSON.stringify(header));
+
+  handle.onData((data) => record("o", data));
+  handle.onExit(() => stop());
+
+  return {
+    ...handle,
+    write: (data) => {
+      handle.write(data);
+      if (recordInput) {
+        record("i", typeof data === "string" ? data : data.toString("utf8"));
+      }
+    },
+    resize: (cols, rows) => {
+      handle.resize(cols, rows);
+      record("r", `${cols}x${rows}`);
+    },
+    kill: (signal) => {
+      stop();
+      handle.kill(signal);
+    },
+  };
+}
@@ -0,0 +1,161 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { prepareBwrapCommand } from "./bwrap.js";
+import { resolveLandlockConfig } from "./landlock.js";
+import {
+  BWRAP_SECCOMP_FD,
+  compileSeccompProfile,
+  describeSeccompProfile,
+  type SeccompArch,
+  type SeccompProfileName,
+} from "./seccomp.js";
+import { resolveBwrapConfig } from "./types.bwrap.js";
+
+const X64 = 0xc000003e;
+const AARCH64 = 0xc00000b7;
+const EPERM = 0x00050001;
+const ENOSYS = 0x00050026;
+const ALLOW = 0x7fff0000;
+const KILL = 0x80000000;
+
+/** Runs a seccomp program against one syscall (the subset of cBPF the compiler emits). */
+function run(program: Buffer, data: { arch: number; nr: number; arg0?: number }): number {
+  const words: Record<number, number> = { 0: data.nr, 4: data.arch, 16: data.arg0 ?? 0 };
+  let acc = 0;
+  for (let pc = 0; pc * 8 < program.length; pc++) {
+    const code = program.readUInt16LE(pc * 8);
+    const jt = program.readUInt8(pc * 8 + 2);
+    const jf = program.readUInt8(pc * 8 + 3);
+    const k = program.readUInt32LE(pc * 8 + 4);
+    switch (code) {
+      case 0x20:
+        acc = words[k] >>> 0;
+        break;
+      case 0x15:
+        pc += acc === k ? jt : jf;
+        break;
+      case 0x35:
+        pc += acc >= k ? jt : jf;
+        break;
+      case 0x45:
+        pc += (acc & k) !== 0 ? jt : jf;
+        break;
+      case 0x06:
+        return k;
+      default:
+        throw new Error(`unexpected opcode ${code}`);
+    }
+  }
+  throw new Error("program fell through");
+}
+
+function verdict(profile: SeccompProfileName, arch: SeccompArch, nr: number, arg0?: number) {
+  return run(compileSeccompProfile(profile, arch), {
+    arch: arch === "x64" ? X64 : AARCH64,
+    nr,
+    arg0,
+  });
+}
+
+describe("seccomp profiles", () => {
+  it("denies per profile and architecture", () => {
+    // ptrace (x64 101 / arm64 117)
+    expect(verdict("default", "x64", 101)).toBe(EPERM);
+    expect(verdict("default", "arm64", 117)).toBe(EPERM);
+    expect(verdict("permissive", "x64", 101)).toBe(ALLOW);
+    // kexec_load is blocked everywhere, io_uring_setup only by strict
+    expect(verdict("permissive", "arm64", 104)).toBe(EPERM);
+    expect(verdict("default", "x64", 425)).toBe(ALLOW);
+    expect(verdict("strict", "x64", 425)).toBe(EPERM);
+    // read/write stay allowed
+    expect(verdict("strict", "x64", 0)).toBe(ALLOW);
+    expect(verdict("strict", "arm64", 64)).toBe(ALLOW);
+    // x32 syscalls and foreign architectures
+    expect(verdict("permissive", "x64", 0x40000000)).toBe(EPERM);
+    expect(run(compileSeccompProfile("default", "x64"), { arch: AARCH64, nr: 0 })).toBe(KILL);
+  });
+
+  it("blocks namespace creation through clone and clone3", () => {
+    const CLONE_THREAD_FLAGS = 0x003d0f00;
+    const CLONE_NEWUSER = 0x10000000;
+    expect(verdict("default", "x64", 56, CLONE_THREAD_FLAGS)).toBe(ALLOW);
+    expect(verdict("default", "x64", 56, CLONE_NEWUSER)).toBe(EPERM);
+    expect(verdict("default", "arm64", 220, CLONE_NEWUSER)).toBe(EPERM);
+    expect(verdict("default", "x64", 435)).toBe(ENOSYS);
+    expect(verdict("permissive", "x64", 56, CLONE_NEWUSER)).toBe(ALLOW);
+    expect(verdict("permissive", "x64", 435)).toBe(ALLOW);
+  });
+
+  it("describes the active profile", () => {
+    expect(describeSeccompProfile("default", "x64")).toMatchObject({
+      active: true,
+      denyNamespaceCreation: true,
+      denied: expect.arrayContaining(["ptrace", "mount", "keyctl", "iopl"]),
+    });
+    expect(describeSeccompProfile("default", "arm64").denied).not.toContain("iopl");
+    expect(describeSeccompProfile("strict", "riscv64")).toMatchObject({ active: false });
+    expect(describeSeccompProfile("none")).toMatchObject({ active: false, denied: [] });
+  });
+});
+
+describe("prepareBwrapCommand", () => {
+  let stateDir: string;
+  let previousStateDir: string | undefined;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-seccomp-test-"));
+    previousStateDir = process.env.OPENCLAW_STATE_DIR;
+    process.env.OPENCLAW_STATE_DIR = stateDir;
+  });
+
+  afterEach(() => {
+    if (previousStateDir === undefined) {
+      delete process.env.OPENCLAW_STATE_DIR;
+    } else {
+      process.env.OPENCLAW_STATE_DIR = previousStateDir;
+    }
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("passes the seccomp program and wraps the command with the Landlock launcher", () => {
+    const workspaceDir = path.join(stateDir, "workspace");
+    const config = resolveBwrapConfig({
+      seccompProfile: "strict",
+      landlock: resolveLandlockConfig({ enabled: true, readOnly: ["/opt/tools"] }),
+    });
+    const { args, seccomp } = prepareBwrapCommand({
+      config,
+      workspaceDir,
+      command: ["bash", "-lc", "make"],
+    });
+    try {
+      if (seccomp) {
+        expect(args.slice(args.indexOf("--seccomp"), args.indexOf("--seccomp") + 2)).toEqual([
+          "--seccomp",
+          String(BWRAP_SECCOMP_FD),
+        ]);
+        expect(fs.readFileSync(seccomp.file).length % 8).toBe(0);
+      } else {
+        expect(args).not.toContain("--seccomp");
+      }
+      const command = args.slice(args.indexOf("--") + 1);
+      expect(command.slice(0, 2)).toEqual(["/usr/bin/landrun", "--best-effort"]);
+      expect(command).toEqual(expect.arrayContaining(["--ro", "/opt/tools", "--rw", "/workspace"]));
+      expect(command).not.toContain("/openclaw-state");
+      expect(command.slice(-4)).toEqual(["--", "bash", "-lc", "make"]);
+    } finally {
+      seccomp?.close();
+    }
+
+    const plain = prepareBwrapCommand({
+      config: resolveBwrapConfig({ seccompProfile: "none" }),
+      workspaceDir,
+      command: ["true"],
+    });
+    expect(plain.seccomp).toBeNull();
+    expect(plain.args).not.toContain("--seccomp");
+    expect(plain.args.slice(-2)).toEqual(["--", "true"]);
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Seccomp syscall filters for the bwrap sandbox.
+ * OPENCLAWMU ADDITION: named profiles compiled to classic BPF for `bwrap --seccomp`.
+ *
+ * bwrap loads the program right before it execs the sandboxed command, so its own
+ * namespace setup is unaffected. Denied syscalls fail with EPERM instead of killing
+ * the process, which keeps shells usable when a tool probes for a blocked feature.
+ */
+
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { SandboxSeccompProfile } from "./types.bwrap.js";
+import { resolveStateDir } from "../../config/paths.js";
+
+export type SeccompProfileName = Exclude<SandboxSeccompProfile, "none">;
+
+export type SeccompArch = "x64" | "arm64";
+
+/** File descriptor bwrap reads the program from (first fd after stdio). */
+export const BWRAP_SECCOMP_FD = 3;
+
+/**
+ * Syscall numbers for the supported architectures. Syscalls missing on an
+ * architecture (legacy x86 calls) are skipped when compiling for it.
+ */
+const SYSCALLS: Record<string, { x64?: number; arm64?: number }> = {
+  _sysctl: { x64: 156 },
+  acct: { x64: 163, arm64: 89 },
+  add_key: { x64: 248, arm64: 217 },
+  bpf: { x64: 321, arm64: 280 },
+  chroot: { x64: 161, arm64: 51 },
+  clock_adjtime: { x64: 305, arm64: 266 },
+  clock_settime: { x64: 227, arm64: 112 },
+  clone: { x64: 56, arm64: 220 },
+  clone3: { x64: 435, arm64: 435 },
+  delete_module: { x64: 176, arm64: 106 },
+  fanotify_init: { x64: 300, arm64: 262 },
+  finit_module: { x64: 313, arm64: 273 },
+  fsconfig: { x64: 431, arm64: 431 },
+  fsmount: { x64: 432, arm64: 432 },
+  fsopen: { x64: 430, arm64: 430 },
+  fspick: { x64: 433, arm64: 433 },
+  init_module: { x64: 175, arm64: 105 },
+  io_uring_enter: { x64: 426, arm64: 426 },
+  io_uring_register: { x64: 427, arm64: 427 },
+  io_uring_setup: { x64: 425, arm64: 425 },
+  ioperm: { x64: 173 },
+  iopl: { x64: 172 },
+  kcmp: { x64: 312, arm64: 272 },
+  kexec_file_load: { x64: 320, arm64: 294 },
+  kexec_load: { x64: 246, arm64: 104 },
+  keyctl: { x64: 250, arm64: 219 },
+  lookup_dcookie: { x64: 212, arm64: 18 },
+  mbind: { x64: 237, arm64: 235 },
+  migrate_pages: { x64: 256, arm64: 238 },
+  mount: { x64: 165, arm64: 40 },
+  mount_setattr: { x64: 442, arm64: 442 },
+  move_mount: { x64: 429, arm64: 429 },
+  move_pages: { x64: 279, arm64: 239 },
+  name_to_handle_at: { x64: 303, arm64: 264 },
+  open_by_handle_at: { x64: 304, arm64: 265 },
+  open_tree: { x64: 428, arm64: 428 },
+  perf_event_open: { x64: 298, arm64: 241 },
+  personality: { x64: 135, arm64: 92 },
+  pidfd_getfd: { x64: 438, arm64: 438 },
+  pivot_root: { x64: 155, arm64: 41 },
+  process_madvise: { x64: 440, arm64: 440 },
+  process_vm_readv: { x64: 310, arm64: 270 },
+  process_vm_writev: { x64: 311, arm64: 271 },
+  ptrace: { x64: 101, arm64: 117 },
+  quotactl: { x64: 179, arm64: 60 },
+  quotactl_fd: { x64: 443, arm64: 443 },
+  reboot: { x64: 169, arm64: 142 },
+  request_key: { x64: 249, arm64: 218 },
+  set_mempolicy: { x64: 238, arm64: 237 },
+  setdomainname: { x64: 171, arm64: 162 },
+  sethostname: { x64: 170, arm64: 161 },
+  setns: { x64: 308, arm64: 268 },
+  settimeofday: { x64: 164, arm64: 170 },
+  swapoff: { x64: 168, arm64: 225 },
+  swapon: { x64: 167, arm64: 224 },
+  syslog: { x64: 103, arm64: 116 },
+  umount2: { x64: 166, arm64: 39 },
+  unshare: { x64: 272, arm64: 97 },
+  uselib: { x64: 134 },
+  userfaultfd: { x64: 323, arm64: 282 },
+  vhangup: { x64: 153, arm64: 58 },
+};
+
+/** Host administration: never useful inside a sandbox. */
+const HOST_ADMIN_SYSCALLS = [
+  "_sysctl",
+  "acct",
+  "clock_adjtime",
+  "clock_settime",
+  "delete_module",
+  "finit_module",
+  "init_module",
+  "ioperm",
+  "iopl",
+  "kexec_file_load",
+  "kexec_load",
+  "lookup_dcookie",
+  "quotactl",
+  "quotactl_fd",
+  "reboot",
+  "settimeofday",
+  "swapoff",
+  "swapon",
+  "syslog",
+  "uselib",
+];
+
+/** Process inspection, mounts, kernel keyring and other kernel attack surface. */
+const ISOLATION_SYSCALLS = [
+  "add_key",
+  "bpf",
+  "fanotify_init",
+  "fsconfig",
+  "fsmount",
+  "fsopen",
+  "fspick",
+  "kcmp",
+  "keyctl",
+  "mount",
+  "mount_setattr",
+  "move_mount",
+  "name_to_handle_at",
+  "open_by_handle_at",
+  "open_tree",
+  "perf_event_open",
+  "pidfd_getfd",
+  "pivot_root",
+  "process_vm_readv",
+  "process_vm_writev",
+  "ptrace",
+  "request_key",
+  "setdomainname",
+  "sethostname",
+  "setns",
+  "umount2",
+  "unshare",
+  "userfaultfd",
+  "vhangup",
+];
+
+/** Rarely needed by shells and build tools; blocked by the strict profile only. */
+const STRICT_SYSCALLS = [
+  "chroot",
+  "io_uring_enter",
+  "io_uring_register",
+  "io_uring_setup",
+  "mbind",
+  "migrate_pages",
+  "move_pages",
+  "personality",
+  "process_madvise",
+  "set_mempolicy",
+];
+
+export type SeccompProfile = {
+  description: string;
+  /** Syscalls that fail with EPERM. */
+  deny: readonly string[];
+  /**
+   * Refuse clone() with CLONE_NEW* flags (EPERM) and clone3() (ENOSYS, so libc
+   * falls back to clone) so the sandbox cannot create nested namespaces.
+   */
+  denyNamespaceCreation: boolean;
+};
+
+export const SECCOMP_PROFILES: Record<SeccompProfileName, SeccompProfile> = {
+  permissive: {
+    description: "blocks host administration syscalls (modules, kexec, reboot, clock, swap)",
+    deny: HOST_ADMIN_SYSCALLS,
+    denyNamespaceCreation: false,
+  },
+  default: {
+    description:
+      "permissive plus ptrace, mount, keyring, bpf, perf and namespace creation (recommended)",
+    deny: [...HOST_ADMIN_SYSCALLS, ...ISOLATION_SYSCALLS],
+    denyNamespaceCreation: true,
+  },
+  strict: {
+    description: "default plus io_uring, chroot, personality and NUMA memory policy syscalls",
+    deny: [...HOST_ADMIN_SYSCALLS, ...ISOLATION_SYSCALLS, ...STRICT_SYSCALLS],
+    denyNamespaceCreation: true,
+  },
+};
+
+export const SECCOMP_PROFILE_NAMES = Object.keys(SECCOMP_PROFILES) as SeccompProfileName[];
+
+export function isSandboxSeccompProfile(value: unknown): value is SandboxSeccompProfile {
+  return value === "none" || (typeof value === "string" && Object.hasOwn(SECCOMP_PROFILES, value));
+}
+
+/** Architectures a program can be compiled for, keyed by Node's `process.arch`. */
+export function resolveSeccompArch(arch: string = process.arch): SeccompArch | null {
+  return arch === "x64" || arch === "arm64" ? arch : null;
+}
+
+// Classic BPF opcodes and seccomp constants (linux/filter.h, linux/seccomp.h, linux/audit.h)
+const BPF_LD_W_ABS = 0x20;
+const BPF_JMP_JEQ_K = 0x15;
+const BPF_JMP_JGE_K = 0x35;
+const BPF_JMP_JSET_K = 0x45;
+const BPF_RET_K = 0x06;
+
+const SECCOMP_RET_KILL_PROCESS = 0x80000000;
+const SECCOMP_RET_ERRNO = 0x00050000;
+const SECCOMP_RET_ALLOW = 0x7fff0000;
+const EPERM = 1;
+const ENOSYS = 38;
+
+const AUDIT_ARCH: Record<SeccompArch, number> = {
+  x64: 0xc000003e,
+  arm64: 0xc00000b7,
+};
+
+/** x32 syscalls share the x86_64 audit arch and are told apart by this bit. */
+const X32_SYSCALL_BIT = 0x40000000;
+
+/** CLONE_NEWNS | CLONE_NEWCGROUP | CLONE_NEWUTS | CLONE_NEWIPC | CLONE_NEWUSER | CLONE_NEWPID | CLONE_NEWNET */
+const CLONE_NEW_NAMESPACE_FLAGS = 0x7e020000;
+
+// struct seccomp_data offsets
+const DATA_NR = 0;
+const DATA_ARCH = 4;
+const DATA_ARG0_LOW = 16;
+
+type Instruction = { code: number; k: number; jt?: string; jf?: string };
+
+/**
+ * Compiles a profile to a seccomp BPF program (array of little-endian struct sock_filter).
+ * Syscalls from a foreign architecture kill the process; denied syscalls return EPERM.
+ */
+export function compileSeccompProfile(name: SeccompProfileName, arch: SeccompArch): Buffer {
+  const profile = SECCOMP_PROFILES[name];
+  const numbers = [
+    ...new Set(
+      profile.deny
+        .map((syscall) => SYSCALLS[syscall]?.[arch])
+        .filter((nr): nr is number => nr !== undefined),
+    ),
+  ].toSorted((a, b) => a - b);
+
+  const program: Instruction[] = [
+    { code: BPF_LD_W_ABS, k: DATA_ARCH },
+    { code: BPF_JMP_JEQ_K, k: AUDIT_ARCH[arch], jf: "kill" },
+    { code: BPF_LD_W_ABS, k: DATA_NR },
+  ];
+  if (arch === "x64") {
+    program.push({ code: BPF_JMP_JGE_K, k: X32_SYSCALL_BIT, jt: "deny" });
+  }
+  for (const nr of numbers) {
+    program.push({ code: BPF_JMP_JEQ_K, k: nr, jt: "deny" });
+  }
+  if (profile.denyNamespaceCreation) {
+    program.push(
+      { code: BPF_JMP_JEQ_K, k: SYSCALLS.clone3[arch] ?? 0, jt: "enosys" },
+      { code: BPF_JMP_JEQ_K, k: SYSCALLS.clone[arch] ?? 0, jf: "allow" },
+      { code: BPF_LD_W_ABS, k: DATA_ARG0_LOW },
+      { code: BPF_JMP_JSET_K, k: CLONE_NEW_NAMESPACE_FLAGS, jt: "deny" },
+    );
+  }
+  const labels: Record<string, number> = {};
+  labels.allow = program.push({ code: BPF_RET_K, k: SECCOMP_RET_ALLOW }) - 1;
+  labels.deny = program.push({ code: BPF_RET_K, k: SECCOMP_RET_ERRNO | EPERM }) - 1;
+  labels.enosys = program.push({ code: BPF_RET_K, k: SECCOMP_RET_ERRNO | ENOSYS }) - 1;
+  labels.kill = program.push({ code: BPF_RET_K, k: SECCOMP_RET_KILL_PROCESS }) - 1;
+
+  const out = Buffer.alloc(program.length * 8);
+  program.forEach((insn, index) => {
+    const offset = (label?: string) => {
+      if (!label) {
+        return 0;
+      }
+      const distance = labels[label] - index - 1;
+      if (distance < 0 || distance > 255) {
+        throw new Error(`seccomp jump to ${label} out of range (${distance})`);
+      }
+      return distance;
+    };
+    out.writeUInt16LE(insn.code, index * 8);
+    out.writeUInt8(offset(insn.jt), index * 8 + 2);
+    out.writeUInt8(offset(insn.jf), index * 8 + 3);
+    out.writeUInt32LE(insn.k >>> 0, index * 8 + 4);
+  });
+  return out;
+}
+
+/**
+ * Writes the compiled program under {stateDir}/sandbox/seccomp (content-addressed,
+ * so edits to a profile never reuse a stale file) and returns its path.
+ */
+export function ensureSeccompProgramFile(
+  name: SeccompProfileName,
+  arch: SeccompArch,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  const program = compileSeccompProfile(name, arch);
+  const digest = createHash("sha256").update(program).digest("hex").slice(0, 16);
+  const dir = path.join(resolveStateDir(env), "sandbox", "seccomp");
+  const file = path.join(dir, `${name}-${arch}-${digest}.bpf`);
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, program, { mode: 0o600 });
+    fs.renameSync(tmp, file);
+  }
+  return file;
+}
+
+/**
+ * Opens the program for a profile so it can be handed to bwrap as an inherited fd.
+ * Returns null for "none" and on architectures without a syscall table.
+ */
+export function openSeccompProgram(
+  profile: SandboxSeccompProfile,
+): { fd: number; file: string; close: () => void } | null {
+  const arch = resolveSeccompArch();
+  if (profile === "none" || !arch) {
+    return null;
+  }
+  const file = ensureSeccompProgramFile(profile, arch);
+  const fd = fs.openSync(file, "r");
+  return {
+    fd,
+    file,
+    close: () => {
+      try {
+        fs.closeSync(fd);
+      } catch {
+        // already closed
+      }
+    },
+  };
+}
+
+/**
+ * Describes what a profile blocks on this host, for `sandbox explain`.
+ */
+export function describeSeccompProfile(
+  profile: SandboxSeccompProfile,
+  arch: string = process.arch,
+): {
+  profile: SandboxSeccompProfile;
+  active: boolean;
+  arch: string;
+  description: string;
+  denied: string[];
+  denyNamespaceCreation: boolean;
+} {
+  const seccompArch = resolveSeccompArch(arch);
+  if (profile === "none") {
+    return {
+      profile,
+      active: false,
+      arch,
+      description: "no syscall filter",
+      denied: [],
+      denyNamespaceCreation: false,
+    };
+  }
+  const definition = SECCOMP_PROFILES[profile];
+  return {
+    profile,
+    active: seccompArch !== null,
+    arch,
+    description: seccompArch
+      ? definition.description
+      : `unsupported architecture ${arch}; sandboxes run without a syscall filter`,
+    denied: seccompArch
+      ? definition.deny.filter((syscall) => SYSCALLS[syscall]?.[seccompArch] !== undefined)
+      : [],
+    denyNamespaceCreation: definition.denyNamespaceCreation,
+  };
+}
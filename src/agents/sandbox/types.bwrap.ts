@@ -6,6 +6,41 @@
  * without requiring root privileges or a container runtime like Docker.
  */
 
+/**
+ * Syscall filter applied with `bwrap --seccomp` (see seccomp.ts); "none" disables it.
+ */
+export type SandboxSeccompProfile = "default" | "strict" | "permissive" | "none";
+
+/**
+ * Landlock rules enforced by a launcher (landrun-compatible flags) run inside the sandbox.
+ * The workdir, tmpfs mounts, /dev and the tenant state mount are always writable.
+ */
+export type SandboxLandlockConfig = {
+  /** Launcher path inside the sandbox (default: "/usr/bin/landrun"). */
+  binary: string;
+  /** Paths that may be read and executed (system directories are always included). */
+  readExec: string[];
+  /** Paths that may be read. */
+  readOnly: string[];
+  /** Paths that may be read and written. */
+  readWrite: string[];
+  /** Run unrestricted on kernels without Landlock instead of failing. */
+  bestEffort: boolean;
+};
+
+/**
+ * Filtered network access through the tenant's egress proxy (see egress-proxy.ts).
+ * The sandbox keeps its own network namespace and reaches the proxy through a socket mount.
+ */
+export type SandboxEgressProxyConfig = {
+  /** Host path of the proxy's Unix socket. */
+  socketPath: string;
+  /** socat binary inside the sandbox that exposes the socket on loopback (default: "socat"). */
+  bridge: string;
+  /** Loopback port of the proxy inside the sandbox (default: 3128). */
+  port: number;
+};
+
 /**
  * Bubblewrap sandbox configuration.
  */
@@ -46,6 +81,12 @@ export type SandboxBwrapConfig = {
   unshareNet: boolean;
   /** Unshare cgroup namespace. */
   unshareCgroup: boolean;
+  /** Syscall filter profile (default: "default"). */
+  seccompProfile: SandboxSeccompProfile;
+  /** Landlock filesystem rules (default: null = disabled). */
+  landlock: SandboxLandlockConfig | null;
+  /** Egress proxy; implies network isolation (default: null = no proxy). */
+  egress: SandboxEgressProxyConfig | null;
 };
 
 /**
@@ -70,6 +111,9 @@ export const DEFAULT_BWRAP_CONFIG: SandboxBwrapConfig = {
   unshareIpc: true,
   unshareNet: true,
   unshareCgroup: true,
+  seccompProfile: "default",
+  landlock: null,
+  egress: null,
 };
 
 /**
@@ -128,6 +172,10 @@ export type SandboxResourceLimits = {
   pidsLimit?: number;
   /** I/O weight (1-10000, default 100). */
   ioWeight?: number;
+  /** Read bandwidth limit on the workspace device, bytes/s (cgroup v2 io.max only). */
+  ioReadBps?: number;
+  /** Write bandwidth limit on the workspace device, bytes/s (cgroup v2 io.max only). */
+  ioWriteBps?: number;
   /** Maximum number of open files (soft limit). */
   nofileLimit?: number;
 };
@@ -156,7 +204,7 @@ export type SandboxInfo = {
   sessionKey?: string;
   /** Process ID of the bwrap process. */
   pid?: number;
-  /** systemd scope name (for cgroup monitoring). */
+  /** systemd scope name or native cgroup name (for cgroup monitoring). */
   scopeName?: string;
   /** When the sandbox was created. */
   createdAt: number;
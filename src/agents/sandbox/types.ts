@@ -48,6 +48,13 @@ export type SandboxPruneConfig = {
   maxAgeDays: number;
 };
 
+// OPENCLAWMU ADDITION: tenant workspace snapshots.
+export type SandboxSnapshotConfig = {
+  auto: "off" | "risky" | "always";
+  keep: number;
+  exclude: string[];
+};
+
 export type SandboxScope = "session" | "agent" | "shared";
 
 export type SandboxConfig = {
@@ -52,6 +52,12 @@ function buildMemorySection(params: {
     "## Memory Recall",
     "Before answering anything about prior work, decisions, dates, people, preferences, or todos: run memory_search on MEMORY.md + memory/*.md; then use memory_get to pull only the needed lines. If low confidence after search, say you checked.",
   ];
+  // OPENCLAWMU ADDITION: memory write API
+  if (params.availableTools.has("memory_write")) {
+    lines.push(
+      "When the user asks you to remember something, or you learn a durable preference or fact, save it with memory_write; use forget when they ask you to drop it.",
+    );
+  }
   if (params.citationsMode === "off") {
     lines.push(
       "Citations are disabled: do not mention file paths or line numbers in replies unless the user explicitly asks.",
@@ -16,7 +16,17 @@ import { resolveInternalSessionKey, resolveMainSessionAlias } from "./sessions-h
 // contain nested unions. Tool schemas need to stay provider-friendly, so we
 // accept "any object" here and validate at runtime.
 
-const CRON_ACTIONS = ["status", "list", "add", "update", "remove", "run", "runs", "wake"] as const;
+const CRON_ACTIONS = [
+  "status",
+  "list",
+  "add",
+  "update",
+  "remove",
+  "run",
+  "runs",
+  "preview",
+  "wake",
+] as const;
 
 const CRON_WAKE_MODES = ["now", "next-heartbeat"] as const;
 const CRON_RUN_MODES = ["due", "force"] as const;
@@ -37,6 +47,8 @@ const CronToolSchema = Type.Object({
   jobId: Type.Optional(Type.String()),
   id: Type.Optional(Type.String()),
   patch: Type.Optional(Type.Object({}, { additionalProperties: true })),
+  schedule: Type.Optional(Type.Object({}, { additionalProperties: true })),
+  count: Type.Optional(Type.Number({ minimum: 1, maximum: 100 })),
   text: Type.Optional(Type.String()),
   mode: optionalStringEnum(CRON_WAKE_MODES),
   runMode: optionalStringEnum(CRON_RUN_MODES),
@@ -200,7 +212,7 @@ export function createCronTool(opts?: CronToolOptions): AnyAgentTool {
   return {
     label: "Cron",
     name: "cron",
-    description: `Manage Gateway cron jobs (status/list/add/update/remove/run/runs) and send wake events.
+    description: `Manage Gateway cron jobs (status/list/add/update/remove/run/runs/preview) and send wake events.
 
 ACTIONS:
 - status: Check cron scheduler status
@@ -210,6 +222,7 @@ ACTIONS:
 - remove: Delete job (requires jobId)
 - run: Trigger job immediately (requires jobId)
 - runs: Get job run history (requires jobId)
+- preview: Next fire times (requires jobId, or schedule for an unsaved schedule; optional count)
 - wake: Send wake event (requires text, optional mode)
 
 JOB SCHEMA (for add action):
@@ -219,7 +232,11 @@ JOB SCHEMA (for add action):
   "payload": { ... },       // Required: what to execute
   "delivery": { ... },      // Optional: announce summary (isolated only)
   "sessionTarget": "main" | "isolated",  // Required
-  "enabled": true | false   // Optional, default true
+  "enabled": true | false,  // Optional, default true
+  "retry": { "maxAttempts": <n>, "backoffMs": <ms>, "backoff": "fixed|linear|exponential" },  // Optional
+  "jitterMs": <ms>,         // Optional: random delay added to each scheduled run
+  "concurrency": "skip" | "queue" | "replace",  // Optional, default "skip": when a run is due while the previous one is still going
+  "catchUp": "none" | "latest" | "all"          // Optional, default "latest": runs missed while the gateway was down
 }
 
 SCHEDULE TYPES (schedule.kind):
@@ -229,6 +246,14 @@ SCHEDULE TYPES (schedule.kind):
   { "kind": "every", "everyMs": <interval-ms>, "anchorMs": <optional-start-ms> }
 - "cron": Cron expression
   { "kind": "cron", "expr": "<cron-expression>", "tz": "<optional-timezone>" }
+- "every" and "cron" take optional calendar rules; ruled-out ticks are skipped (check with preview before saving)
+  "calendar": { "businessDays": true, "businessDay": -1, "exclude": ["<calendar-name>"], "excludeDates": ["2026-12-24..2026-12-31"], "blackouts": [{ "start": "22:00", "end": "06:00" }] }
+- "after": Runs when another job finishes (agentTurn messages get the upstream output appended)
+  { "kind": "after", "jobId": "<upstream-job-id>", "on": ["ok" | "error"] }  // on defaults to ["ok"]
+- "webhook": Runs on an authenticated POST to <hooks.path>/cron/<jobId> (token generated when omitted); {{payload.x}} placeholders in the message are filled from the request body
+  { "kind": "webhook", "token": "<optional-token>" }
+- "watch": Runs when files below a path in the agent workspace change (changed files appended to agentTurn messages)
+  { "kind": "watch", "path": "<relative-path>", "include": ["**/*.md"], "exclude": ["drafts/**"], "debounceMs": 1000 }
 
 ISO timestamps without an explicit timezone are treated as UTC.
 
@@ -429,6 +454,19 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
           }
           return jsonResult(await callGatewayTool("cron.runs", gatewayOpts, { id }));
         }
+        case "preview": {
+          const id = readStringParam(params, "jobId") ?? readStringParam(params, "id");
+          const schedule = isRecord(params.schedule) ? params.schedule : undefined;
+          if (!id && !schedule) {
+            throw new Error("jobId or schedule required");
+          }
+          return jsonResult(
+            await callGatewayTool("cron.preview", gatewayOpts, {
+              ...(id ? { id } : { schedule }),
+              count: typeof params.count === "number" ? Math.floor(params.count) : undefined,
+            }),
+          );
+        }
         case "wake": {
           const text = readStringParam(params, "text", { required: true });
           const mode =
@@ -3,12 +3,14 @@ import type { OpenClawConfig } from "../../config/config.js";
 import type { MemoryCitationsMode } from "../../config/types.memory.js";
 import type { MemorySearchResult } from "../../memory/types.js";
 import type { AnyAgentTool } from "./common.js";
+import { parseDurationMs } from "../../cli/parse-duration.js";
 import { resolveMemoryBackendConfig } from "../../memory/backend-config.js";
 import { getMemorySearchManager } from "../../memory/index.js";
-import { parseAgentSessionKey } from "../../routing/session-key.js";
+import { extractTenantIdFromSessionKey, parseAgentSessionKey } from "../../routing/session-key.js";
 import { resolveSessionAgentId } from "../agent-scope.js";
 import { resolveMemorySearchConfig } from "../memory-search.js";
-import { jsonResult, readNumberParam, readStringParam } from "./common.js";
+import { stringEnum } from "../schema/typebox.js";
+import { jsonResult, readNumberParam, readStringArrayParam, readStringParam } from "./common.js";
 
 const MemorySearchSchema = Type.Object({
   query: Type.String(),
@@ -22,6 +24,18 @@ const MemoryGetSchema = Type.Object({
   lines: Type.Optional(Type.Number()),
 });
 
+// OPENCLAWMU ADDITION: memory write API
+const MemoryWriteSchema = Type.Object({
+  action: stringEnum(["remember", "forget"]),
+  fact: Type.Optional(Type.String()),
+  tags: Type.Optional(Type.Array(Type.String())),
+  ttl: Type.Optional(Type.String()),
+  confidence: Type.Optional(Type.Number()),
+  id: Type.Optional(Type.String()),
+  query: Type.Optional(Type.String()),
+  minScore: Type.Optional(Type.Number()),
+});
+
 function resolveMemoryToolContext(options: { config?: OpenClawConfig; agentSessionKey?: string }) {
   const cfg = options.config;
   if (!cfg) {
@@ -34,7 +48,9 @@ function resolveMemoryToolContext(options: { config?: OpenClawConfig; agentSessi
   if (!resolveMemorySearchConfig(cfg, agentId)) {
     return null;
   }
-  return { cfg, agentId };
+  // OPENCLAWMU ADDITION: tenant sessions only see the tenant's own memory index
+  const tenantId = extractTenantIdFromSessionKey(options.agentSessionKey ?? "");
+  return { cfg, agentId, tenantId };
 }
 
 export function createMemorySearchTool(options: {
@@ -45,7 +61,7 @@ export function createMemorySearchTool(options: {
   if (!ctx) {
     return null;
   }
-  const { cfg, agentId } = ctx;
+  const { cfg, agentId, tenantId } = ctx;
   return {
     label: "Memory Search",
     name: "memory_search",
@@ -59,6 +75,7 @@ export function createMemorySearchTool(options: {
       const { manager, error } = await getMemorySearchManager({
         cfg,
         agentId,
+        tenantId,
       });
       if (!manager) {
         return jsonResult({ results: [], disabled: true, error });
@@ -104,7 +121,7 @@ export function createMemoryGetTool(options: {
   if (!ctx) {
     return null;
   }
-  const { cfg, agentId } = ctx;
+  const { cfg, agentId, tenantId } = ctx;
   return {
     label: "Memory Get",
     name: "memory_get",
@@ -118,6 +135,7 @@ export function createMemoryGetTool(options: {
       const { manager, error } = await getMemorySearchManager({
         cfg,
         agentId,
+        tenantId,
       });
       if (!manager) {
         return jsonResult({ path: relPath, text: "", disabled: true, error });
@@ -137,6 +155,72 @@ export function createMemoryGetTool(options: {
   };
 }
 
+/** OPENCLAWMU ADDITION: store and delete structured facts (see memory/facts.ts). */
+export function createMemoryWriteTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const ctx = resolveMemoryToolContext(options);
+  if (!ctx) {
+    return null;
+  }
+  const { cfg, agentId, tenantId } = ctx;
+  return {
+    label: "Memory Write",
+    name: "memory_write",
+    description:
+      'Save a durable fact to memory (action="remember" with fact, optional tags, ttl like "30d", confidence 0-1) or delete facts (action="forget" with id, or query plus minScore 0-1 to drop saved facts scoring at least that). Saved facts are found by memory_search.',
+    parameters: MemoryWriteSchema,
+    execute: async (_toolCallId, params) => {
+      const action = readStringParam(params, "action", { required: true });
+      const { manager, error } = await getMemorySearchManager({
+        cfg,
+        agentId,
+        tenantId,
+      });
+      if (!manager?.remember || !manager.forget) {
+        return jsonResult({
+          ok: false,
+          disabled: true,
+          error: error ?? "memory facts need the builtin memory backend",
+        });
+      }
+      try {
+        if (action === "remember") {
+          const text = readStringParam(params, "fact", { required: true });
+          const ttl = readStringParam(params, "ttl");
+          const fact = await manager.remember(text, {
+            tags: readStringArrayParam(params, "tags"),
+            ttlMs: ttl ? parseDurationMs(ttl, { defaultUnit: "d" }) : undefined,
+            confidence: readNumberParam(params, "confidence"),
+            source: options.agentSessionKey,
+          });
+          return jsonResult({ ok: true, fact });
+        }
+        if (action === "forget") {
+          const id = readStringParam(params, "id");
+          const query = readStringParam(params, "query");
+          if (!id && !query) {
+            throw new Error("id or query required");
+          }
+          const minScore = readNumberParam(params, "minScore");
+          if (!id && minScore === undefined) {
+            throw new Error("minScore required with query");
+          }
+          const removed = await manager.forget(
+            id ? { id } : { query: query ?? "", minScore: minScore ?? 0 },
+          );
+          return jsonResult({ ok: true, removed: removed.map((fact) => fact.id) });
+        }
+        throw new Error(`Unknown action: ${action}`);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return jsonResult({ ok: false, error: message });
+      }
+    },
+  };
+}
+
 function resolveMemoryCitationsMode(cfg: OpenClawConfig): MemoryCitationsMode {
   const mode = cfg.memory?.citations;
   if (mode === "on" || mode === "off" || mode === "auto") {
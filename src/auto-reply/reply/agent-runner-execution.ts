@@ -28,6 +28,13 @@ import {
 import { logVerbose } from "../../globals.js";
 import { emitAgentEvent, registerAgentRunContext } from "../../infra/agent-events.js";
 import { defaultRuntime } from "../../runtime.js";
+import { resolveTenantModelSelection } from "../../tenants/model-policy.js";
+import {
+  enforceTenantQuota,
+  formatTenantQuotaReply,
+  isTenantQuotaError,
+  meterTenantRunUsage,
+} from "../../tenants/quota-gate.js";
 import {
   isMarkdownCapableMessageChannel,
   resolveMessageChannel,
@@ -100,6 +107,16 @@ export async function runAgentTurnWithFallback(params: {
   let didResetAfterCompactionFailure = false;
   let didRetryTransientHttpError = false;
 
+  // OPENCLAWMU ADDITION: tenant quota gate for channel-triggered replies.
+  try {
+    await enforceTenantQuota({ sessionKey: params.sessionKey, runId, source: "auto-reply" });
+  } catch (err) {
+    if (isTenantQuotaError(err)) {
+      return { kind: "final", payload: { text: formatTenantQuotaReply(err) } };
+    }
+    throw err;
+  }
+
   while (true) {
     try {
       const allowPartialStream = !(
@@ -151,15 +168,23 @@ export async function runAgentTurnWithFallback(params: {
       };
       const blockReplyPipeline = params.blockReplyPipeline;
       const onToolResult = params.opts?.onToolResult;
-      const fallbackResult = await runWithModelFallback({
-        cfg: params.followupRun.run.config,
+      // OPENCLAWMU ADDITION: tenant model policy (allowed models, tenant default, cost downgrade).
+      const tenantModel = await resolveTenantModelSelection({
+        sessionKey: params.sessionKey,
         provider: params.followupRun.run.provider,
         model: params.followupRun.run.model,
-        agentDir: params.followupRun.run.agentDir,
         fallbacksOverride: resolveAgentModelFallbacksOverride(
           params.followupRun.run.config,
           resolveAgentIdFromSessionKey(params.followupRun.run.sessionKey),
         ),
+        cfg: params.followupRun.run.config,
+      });
+      const fallbackResult = await runWithModelFallback({
+        cfg: params.followupRun.run.config,
+        provider: tenantModel.provider,
+        model: tenantModel.model,
+        agentDir: params.followupRun.run.agentDir,
+        fallbacksOverride: tenantModel.fallbacksOverride,
         run: (provider, model) => {
           // Notify that model selection is complete (including after fallback).
           // This allows responsePrefix template interpolation with the actual model.
@@ -416,6 +441,16 @@ export async function runAgentTurnWithFallback(params: {
       runResult = fallbackResult.result;
       fallbackProvider = fallbackResult.provider;
       fallbackModel = fallbackResult.model;
+      await meterTenantRunUsage({
+        sessionKey: params.sessionKey,
+        runId,
+        source: "auto-reply",
+        usage: runResult.meta.agentMeta?.usage,
+        provider: fallbackProvider,
+        model: fallbackModel,
+        cfg: params.followupRun.run.config,
+        onError: (err) => logVerbose(`failed to meter tenant usage: ${String(err)}`),
+      });
 
       // Some embedded runs surface context overflow as an error payload instead of throwing.
       // Treat those as a session-level failure and auto-recover by starting a fresh session.
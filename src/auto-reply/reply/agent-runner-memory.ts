@@ -16,6 +16,8 @@ import {
 } from "../../config/sessions.js";
 import { logVerbose } from "../../globals.js";
 import { registerAgentRunContext } from "../../infra/agent-events.js";
+import { resolveTenantModelSelection } from "../../tenants/model-policy.js";
+import { meterTenantRunUsage } from "../../tenants/quota-gate.js";
 import { buildThreadingToolContext, resolveEnforceFinalTag } from "./agent-runner-utils.js";
 import {
   resolveMemoryFlushContextWindowTokens,
@@ -96,15 +98,23 @@ export async function runMemoryFlushIfNeeded(params: {
     .filter(Boolean)
     .join("\n\n");
   try {
-    await runWithModelFallback({
-      cfg: params.followupRun.run.config,
+    // OPENCLAWMU ADDITION: tenant model policy (allowed models, tenant default, cost downgrade).
+    const tenantModel = await resolveTenantModelSelection({
+      sessionKey: params.sessionKey,
       provider: params.followupRun.run.provider,
       model: params.followupRun.run.model,
-      agentDir: params.followupRun.run.agentDir,
       fallbacksOverride: resolveAgentModelFallbacksOverride(
         params.followupRun.run.config,
         resolveAgentIdFromSessionKey(params.followupRun.run.sessionKey),
       ),
+      cfg: params.followupRun.run.config,
+    });
+    const flushResult = await runWithModelFallback({
+      cfg: params.followupRun.run.config,
+      provider: tenantModel.provider,
+      model: tenantModel.model,
+      agentDir: params.followupRun.run.agentDir,
+      fallbacksOverride: tenantModel.fallbacksOverride,
       run: (provider, model) => {
         const authProfileId =
           provider === params.followupRun.run.provider
@@ -161,6 +171,17 @@ export async function runMemoryFlushIfNeeded(params: {
         });
       },
     });
+    // OPENCLAWMU ADDITION: memory flush turns count toward the tenant's usage too.
+    await meterTenantRunUsage({
+      sessionKey: params.sessionKey,
+      runId: flushRunId,
+      source: "auto-reply",
+      usage: flushResult.result.meta.agentMeta?.usage,
+      provider: flushResult.provider,
+      model: flushResult.model,
+      cfg: params.followupRun.run.config,
+      onError: (err) => logVerbose(`failed to meter tenant usage: ${String(err)}`),
+    });
     let memoryFlushCompactionCount =
       activeSessionEntry?.compactionCount ??
       (params.sessionKey ? activeSessionStore?.[params.sessionKey]?.compactionCount : 0) ??
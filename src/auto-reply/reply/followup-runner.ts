@@ -13,6 +13,13 @@ import { resolveAgentIdFromSessionKey, type SessionEntry } from "../../config/se
 import { logVerbose } from "../../globals.js";
 import { registerAgentRunContext } from "../../infra/agent-events.js";
 import { defaultRuntime } from "../../runtime.js";
+import { resolveTenantModelSelection } from "../../tenants/model-policy.js";
+import {
+  enforceTenantQuota,
+  formatTenantQuotaReply,
+  isTenantQuotaError,
+  meterTenantRunUsage,
+} from "../../tenants/quota-gate.js";
 import { stripHeartbeatToken } from "../heartbeat.js";
 import { isSilentReplyText, SILENT_REPLY_TOKEN } from "../tokens.js";
 import {
@@ -123,16 +130,38 @@ export function createFollowupRunner(params: {
       let runResult: Awaited<ReturnType<typeof runEmbeddedPiAgent>>;
       let fallbackProvider = queued.run.provider;
       let fallbackModel = queued.run.model;
+      // OPENCLAWMU ADDITION: tenant quota gate for queued followups.
       try {
-        const fallbackResult = await runWithModelFallback({
-          cfg: queued.run.config,
+        await enforceTenantQuota({
+          sessionKey: queued.run.sessionKey,
+          runId,
+          source: "auto-reply",
+        });
+      } catch (err) {
+        if (isTenantQuotaError(err)) {
+          await sendFollowupPayloads([{ text: formatTenantQuotaReply(err) }], queued);
+          return;
+        }
+        throw err;
+      }
+      try {
+        // OPENCLAWMU ADDITION: tenant model policy (allowed models, tenant default, cost downgrade).
+        const tenantModel = await resolveTenantModelSelection({
+          sessionKey: queued.run.sessionKey,
           provider: queued.run.provider,
           model: queued.run.model,
-          agentDir: queued.run.agentDir,
           fallbacksOverride: resolveAgentModelFallbacksOverride(
             queued.run.config,
             resolveAgentIdFromSessionKey(queued.run.sessionKey),
           ),
+          cfg: queued.run.config,
+        });
+        const fallbackResult = await runWithModelFallback({
+          cfg: queued.run.config,
+          provider: tenantModel.provider,
+          model: tenantModel.model,
+          agentDir: queued.run.agentDir,
+          fallbacksOverride: tenantModel.fallbacksOverride,
           run: (provider, model) => {
             const authProfileId =
               provider === queued.run.provider ? queued.run.authProfileId : undefined;
@@ -191,6 +220,16 @@ export function createFollowupRunner(params: {
         defaultRuntime.error?.(`Followup agent failed before reply: ${message}`);
         return;
       }
+      await meterTenantRunUsage({
+        sessionKey: queued.run.sessionKey,
+        runId,
+        source: "auto-reply",
+        usage: runResult.meta.agentMeta?.usage,
+        provider: fallbackProvider,
+        model: fallbackModel,
+        cfg: queued.run.config,
+        onError: (err) => logVerbose(`failed to meter tenant usage: ${String(err)}`),
+      });
 
       const usage = runResult.meta.agentMeta?.usage;
       const promptTokens = runResult.meta.agentMeta?.promptTokens;
@@ -1,4 +1,5 @@
 import type { Command } from "commander";
+import type { CronJobGraph } from "../../cron/dependencies.js";
 import type { CronJob } from "../../cron/types.js";
 import type { GatewayRpcOpts } from "../gateway-rpc.js";
 import { danger } from "../../globals.js";
@@ -8,8 +9,12 @@ import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
 import { parsePositiveIntOrUndefined } from "../program/helpers.js";
 import {
   getCronChannelOptions,
+  parseAfterStatuses,
   parseAt,
+  parseCalendarRules,
   parseDurationMs,
+  parseWatchSchedule,
+  printCronDag,
   printCronList,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
@@ -38,6 +43,7 @@ export function registerCronListCommand(cron: Command) {
       .command("list")
       .description("List cron jobs")
       .option("--all", "Include disabled jobs", false)
+      .option("--dag", "Show job dependencies as a tree", false)
       .option("--json", "Output JSON", false)
       .action(async (opts) => {
         try {
@@ -49,6 +55,12 @@ export function registerCronListCommand(cron: Command) {
             return;
           }
           const jobs = (res as { jobs?: CronJob[] } | null)?.jobs ?? [];
+          // OPENCLAWMU ADDITION: dependency tree
+          const graph = (res as { graph?: CronJobGraph } | null)?.graph;
+          if (opts.dag && graph) {
+            printCronDag(jobs, graph, defaultRuntime);
+            return;
+          }
           printCronList(jobs, defaultRuntime);
         } catch (err) {
           defaultRuntime.error(danger(String(err)));
@@ -75,7 +87,20 @@ export function registerCronAddCommand(cron: Command) {
       .option("--at <when>", "Run once at time (ISO) or +duration (e.g. 20m)")
       .option("--every <duration>", "Run every duration (e.g. 10m, 1h)")
       .option("--cron <expr>", "Cron expression (5-field)")
+      .option("--after <jobId>", "Run when another job finishes")
+      .option("--after-status <list>", "Upstream statuses that trigger --after (ok,error)", "ok")
+      .option("--webhook", "Run on POST <hooks.path>/cron/<jobId> (token in the output)", false)
+      .option("--webhook-token <token>", "Token for --webhook (default: generated)")
+      .option("--watch <path>", "Run when files below this workspace path change")
+      .option("--watch-include <globs>", "Comma-separated globs a changed file must match")
+      .option("--watch-exclude <globs>", "Comma-separated globs of changes to ignore")
+      .option("--watch-debounce <duration>", "Quiet period before a watch run (default 1s)")
       .option("--tz <iana>", "Timezone for cron expressions (IANA)", "")
+      .option("--business-days", "Only run Monday to Friday, skipping excluded dates", false)
+      .option("--business-day <n>", "Only run on the n-th business day of the month (-1 = last)")
+      .option("--exclude-calendar <names>", "Comma-separated calendars in <store dir>/calendars/")
+      .option("--exclude-dates <dates>", "Comma-separated dates to skip (YYYY-MM-DD[..YYYY-MM-DD])")
+      .option("--blackout <windows>", "Comma-separated windows without runs (HH:MM..HH:MM)")
       .option("--system-event <text>", "System event payload (main session)")
       .option("--message <text>", "Agent message payload")
       .option("--thinking <level>", "Thinking level for agent jobs (off|minimal|low|medium|high)")
@@ -97,9 +122,43 @@ export function registerCronAddCommand(cron: Command) {
             const at = typeof opts.at === "string" ? opts.at : "";
             const every = typeof opts.every === "string" ? opts.every : "";
             const cronExpr = typeof opts.cron === "string" ? opts.cron : "";
-            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr)].filter(Boolean).length;
+            const after = typeof opts.after === "string" ? opts.after.trim() : "";
+            const webhook = opts.webhook === true;
+            const watch = typeof opts.watch === "string";
+            const chosen = [
+              Boolean(at),
+              Boolean(every),
+              Boolean(cronExpr),
+              Boolean(after),
+              webhook,
+              watch,
+            ].filter(Boolean).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one schedule: --at, --every, or --cron");
+              throw new Error(
+                "Choose exactly one schedule: --at, --every, --cron, --after, --webhook, or --watch",
+              );
+            }
+            // OPENCLAWMU ADDITION: calendar rules of time-based schedules
+            const calendar = parseCalendarRules(opts);
+            if (calendar && !every && !cronExpr) {
+              throw new Error("Calendar options only apply to --every and --cron");
+            }
+            if (webhook) {
+              const token =
+                typeof opts.webhookToken === "string" && opts.webhookToken.trim()
+                  ? opts.webhookToken.trim()
+                  : undefined;
+              return { kind: "webhook" as const, token };
+            }
+            if (watch) {
+              return parseWatchSchedule(opts);
+            }
+            if (after) {
+              const on = parseAfterStatuses(String(opts.afterStatus ?? "ok"));
+              if (!on) {
+                throw new Error("Invalid --after-status; use ok, error, or ok,error");
+              }
+              return { kind: "after" as const, jobId: after, on };
             }
             if (at) {
               const atIso = parseAt(at);
@@ -113,12 +172,13 @@ export function registerCronAddCommand(cron: Command) {
               if (!everyMs) {
                 throw new Error("Invalid --every; use e.g. 10m, 1h, 1d");
               }
-              return { kind: "every" as const, everyMs };
+              return { kind: "every" as const, everyMs, calendar };
             }
             return {
               kind: "cron" as const,
               expr: cronExpr,
               tz: typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined,
+              calendar,
             };
           })();
 
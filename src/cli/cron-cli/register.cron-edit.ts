@@ -5,8 +5,11 @@ import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
 import {
   getCronChannelOptions,
+  parseAfterStatuses,
   parseAt,
+  parseCalendarRules,
   parseDurationMs,
+  parseWatchSchedule,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
 
@@ -40,7 +43,20 @@ export function registerCronEditCommand(cron: Command) {
       .option("--at <when>", "Set one-shot time (ISO) or duration like 20m")
       .option("--every <duration>", "Set interval duration like 10m")
       .option("--cron <expr>", "Set cron expression")
+      .option("--after <jobId>", "Run when another job finishes")
+      .option("--after-status <list>", "Upstream statuses that trigger --after (ok,error)")
+      .option("--webhook", "Run on POST <hooks.path>/cron/<jobId> (keeps an existing token)")
+      .option("--webhook-token <token>", "Set the webhook token (implies --webhook)")
+      .option("--watch <path>", "Run when files below this workspace path change")
+      .option("--watch-include <globs>", "Comma-separated globs a changed file must match")
+      .option("--watch-exclude <globs>", "Comma-separated globs of changes to ignore")
+      .option("--watch-debounce <duration>", "Quiet period before a watch run (default 1s)")
       .option("--tz <iana>", "Timezone for cron expressions (IANA)")
+      .option("--business-days", "Only run Monday to Friday, skipping excluded dates")
+      .option("--business-day <n>", "Only run on the n-th business day of the month (-1 = last)")
+      .option("--exclude-calendar <names>", "Comma-separated calendars in <store dir>/calendars/")
+      .option("--exclude-dates <dates>", "Comma-separated dates to skip (YYYY-MM-DD[..YYYY-MM-DD])")
+      .option("--blackout <windows>", "Comma-separated windows without runs (HH:MM..HH:MM)")
       .option("--system-event <text>", "Set systemEvent payload")
       .option("--message <text>", "Set agentTurn payload message")
       .option("--thinking <level>", "Thinking level for agent jobs")
@@ -113,10 +129,23 @@ export function registerCronEditCommand(cron: Command) {
             patch.agentId = null;
           }
 
-          const scheduleChosen = [opts.at, opts.every, opts.cron].filter(Boolean).length;
+          const webhook = Boolean(opts.webhook) || typeof opts.webhookToken === "string";
+          const scheduleChosen = [
+            opts.at,
+            opts.every,
+            opts.cron,
+            opts.after,
+            webhook,
+            typeof opts.watch === "string",
+          ].filter(Boolean).length;
           if (scheduleChosen > 1) {
             throw new Error("Choose at most one schedule change");
           }
+          // OPENCLAWMU ADDITION: calendar rules come with the replaced schedule
+          const calendar = parseCalendarRules(opts);
+          if (calendar && !opts.every && !opts.cron) {
+            throw new Error("Calendar options need --every or --cron (the schedule is replaced)");
+          }
           if (opts.at) {
             const atIso = parseAt(String(opts.at));
             if (!atIso) {
@@ -128,13 +157,26 @@ export function registerCronEditCommand(cron: Command) {
             if (!everyMs) {
               throw new Error("Invalid --every");
             }
-            patch.schedule = { kind: "every", everyMs };
+            patch.schedule = { kind: "every", everyMs, calendar };
           } else if (opts.cron) {
             patch.schedule = {
               kind: "cron",
               expr: String(opts.cron),
               tz: typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined,
+              calendar,
             };
+          } else if (opts.after) {
+            const on = parseAfterStatuses(String(opts.afterStatus ?? "ok"));
+            if (!on) {
+              throw new Error("Invalid --after-status");
+            }
+            patch.schedule = { kind: "after", jobId: String(opts.after).trim(), on };
+          } else if (webhook) {
+            const token =
+              typeof opts.webhookToken === "string" ? opts.webhookToken.trim() : undefined;
+            patch.schedule = { kind: "webhook", token: token || undefined };
+          } else if (typeof opts.watch === "string") {
+            patch.schedule = parseWatchSchedule(opts);
           }
 
           const hasSystemEventPatch = typeof opts.systemEvent === "string";
@@ -1,8 +1,17 @@
 import type { Command } from "commander";
+import type { CronSchedule } from "../../cron/types.js";
 import { danger } from "../../globals.js";
 import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
-import { warnIfCronSchedulerDisabled } from "./shared.js";
+import {
+  parseAt,
+  parseCalendarRules,
+  parseDurationMs,
+  parseRunStatuses,
+  parseRunTimeMs,
+  printCronPreview,
+  warnIfCronSchedulerDisabled,
+} from "./shared.js";
 
 export function registerCronSimpleCommands(cron: Command) {
   addGatewayClientOptions(
@@ -68,16 +77,64 @@ export function registerCronSimpleCommands(cron: Command) {
     cron
       .command("runs")
       .description("Show cron run history (JSONL-backed)")
-      .requiredOption("--id <id>", "Job id")
+      .option("--id <id>", "Job id (default: all jobs)")
       .option("--limit <n>", "Max entries (default 50)", "50")
+      .option("--status <list>", "Only these statuses (comma-separated ok,error,skipped)")
+      .option("--since <when>", "Runs finished at/after (ISO time or duration ago, e.g. 24h)")
+      .option("--until <when>", "Runs finished before (ISO time or duration ago)")
+      .option("--cursor <cursor>", "Page cursor (nextCursor of the previous page)")
       .action(async (opts) => {
         try {
           const limitRaw = Number.parseInt(String(opts.limit ?? "50"), 10);
           const limit = Number.isFinite(limitRaw) && limitRaw > 0 ? limitRaw : 50;
-          const id = String(opts.id);
-          const res = await callGatewayFromCli("cron.runs", opts, {
+          const params: Record<string, unknown> = { limit };
+          if (opts.id) {
+            params.id = String(opts.id);
+          }
+          // OPENCLAWMU ADDITION: run history filters
+          if (opts.status) {
+            const statuses = parseRunStatuses(String(opts.status));
+            if (!statuses) {
+              throw new Error("--status must list ok, error or skipped");
+            }
+            params.statuses = statuses;
+          }
+          for (const key of ["since", "until"] as const) {
+            if (opts[key]) {
+              const ms = parseRunTimeMs(String(opts[key]));
+              if (ms === null) {
+                throw new Error(`Invalid --${key}; use an ISO time or a duration like 24h`);
+              }
+              params[key === "since" ? "sinceMs" : "untilMs"] = ms;
+            }
+          }
+          if (opts.cursor) {
+            params.cursor = String(opts.cursor);
+          }
+          const res = await callGatewayFromCli("cron.runs", opts, params);
+          defaultRuntime.log(JSON.stringify(res, null, 2));
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
+  // OPENCLAWMU ADDITION: transcript of one run's isolated session
+  addGatewayClientOptions(
+    cron
+      .command("transcript")
+      .description("Show the session transcript of one cron run")
+      .argument("<id>", "Job id")
+      .argument("<sessionId>", "Run session id (from cron runs)")
+      .option("--limit <n>", "Max messages (default 200)", "200")
+      .action(async (id, sessionId, opts) => {
+        try {
+          const limitRaw = Number.parseInt(String(opts.limit ?? "200"), 10);
+          const res = await callGatewayFromCli("cron.runs.transcript", opts, {
             id,
-            limit,
+            sessionId,
+            limit: Number.isFinite(limitRaw) && limitRaw > 0 ? Math.min(limitRaw, 1000) : 200,
           });
           defaultRuntime.log(JSON.stringify(res, null, 2));
         } catch (err) {
@@ -87,6 +144,79 @@ export function registerCronSimpleCommands(cron: Command) {
       }),
   );
 
+  // OPENCLAWMU ADDITION: next fire times of a job or an unsaved schedule
+  addGatewayClientOptions(
+    cron
+      .command("preview")
+      .description("Show the next fire times of a job, or of --every/--cron with calendar rules")
+      .argument("[id]", "Job id (omit to preview --every or --cron)")
+      .option("--every <duration>", "Interval to preview (e.g. 10m, 1h)")
+      .option("--cron <expr>", "Cron expression to preview")
+      .option("--tz <iana>", "Timezone for --cron (IANA)")
+      .option("--business-days", "Only run Monday to Friday, skipping excluded dates", false)
+      .option("--business-day <n>", "Only run on the n-th business day of the month (-1 = last)")
+      .option("--exclude-calendar <names>", "Comma-separated calendars in <store dir>/calendars/")
+      .option("--exclude-dates <dates>", "Comma-separated dates to skip (YYYY-MM-DD[..YYYY-MM-DD])")
+      .option("--blackout <windows>", "Comma-separated windows without runs (HH:MM..HH:MM)")
+      .option("--count <n>", "Number of fire times (default 10, max 100)", "10")
+      .option("--from <when>", "Start from this time (ISO or duration from now, default now)")
+      .option("--json", "Output JSON", false)
+      .action(async (id: string | undefined, opts) => {
+        try {
+          const countRaw = Number.parseInt(String(opts.count ?? "10"), 10);
+          const params: Record<string, unknown> = {
+            count: Number.isFinite(countRaw) && countRaw > 0 ? Math.min(countRaw, 100) : 10,
+          };
+          if (opts.from) {
+            const fromIso = parseAt(String(opts.from));
+            if (!fromIso) {
+              throw new Error("Invalid --from; use an ISO time or a duration from now like 30d");
+            }
+            params.fromMs = Date.parse(fromIso);
+          }
+          const calendar = parseCalendarRules(opts);
+          const tz = typeof opts.tz === "string" && opts.tz.trim() ? opts.tz.trim() : undefined;
+          if ([id, opts.every, opts.cron].filter(Boolean).length !== 1) {
+            throw new Error("Choose exactly one of a job id, --every or --cron");
+          }
+          if (id) {
+            if (calendar) {
+              throw new Error("Calendar options apply to --every and --cron previews");
+            }
+            params.id = id;
+          } else if (opts.every) {
+            const everyMs = parseDurationMs(String(opts.every));
+            if (!everyMs) {
+              throw new Error("Invalid --every; use e.g. 10m, 1h, 1d");
+            }
+            params.schedule = { kind: "every", everyMs, calendar };
+          } else {
+            params.schedule = { kind: "cron", expr: String(opts.cron), tz, calendar };
+          }
+          const res = (await callGatewayFromCli("cron.preview", opts, params)) as {
+            schedule?: CronSchedule;
+            runs?: number[];
+          } | null;
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          const schedule = res?.schedule;
+          printCronPreview(
+            res?.runs ?? [],
+            schedule?.kind === "cron"
+              ? (schedule.calendar?.tz ?? schedule.tz)
+              : schedule?.kind === "every"
+                ? schedule.calendar?.tz
+                : undefined,
+          );
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
   addGatewayClientOptions(
     cron
       .command("run")
@@ -1,7 +1,8 @@
 import { describe, expect, it } from "vitest";
 import type { CronJob } from "../../cron/types.js";
 import type { RuntimeEnv } from "../../runtime.js";
-import { printCronList } from "./shared.js";
+import { buildCronJobGraph } from "../../cron/dependencies.js";
+import { printCronDag, printCronList } from "./shared.js";
 
 describe("printCronList", () => {
   it("handles job with undefined sessionTarget (#9649)", () => {
@@ -61,3 +62,43 @@ describe("printCronList", () => {
     expect(logs.some((line) => line.includes("isolated"))).toBe(true);
   });
 });
+
+describe("printCronDag", () => {
+  it("prints dependent jobs below their upstream job", () => {
+    const logs: string[] = [];
+    const mockRuntime = {
+      log: (msg: string) => logs.push(msg),
+      error: () => {},
+      exit: () => {},
+    } as RuntimeEnv;
+    const base = {
+      enabled: true,
+      createdAtMs: 0,
+      updatedAtMs: 0,
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "run" },
+      state: {},
+    } as const;
+    const jobs: CronJob[] = [
+      { ...base, id: "fetch", name: "Fetch", schedule: { kind: "every", everyMs: 3_600_000 } },
+      { ...base, id: "digest", name: "Digest", schedule: { kind: "after", jobId: "fetch" } },
+      {
+        ...base,
+        id: "alert",
+        name: "Alert",
+        schedule: { kind: "after", jobId: "fetch", on: ["error"] },
+      },
+      { ...base, id: "post", name: "Post", schedule: { kind: "after", jobId: "digest" } },
+    ];
+
+    printCronDag(jobs, buildCronJobGraph(jobs), mockRuntime);
+
+    expect(logs).toEqual([
+      "Fetch fetch every 1h",
+      "├─ Digest digest on ok",
+      "│  └─ Post post on ok",
+      "└─ Alert alert on error",
+    ]);
+  });
+});
@@ -1,6 +1,13 @@
-import type { CronJob, CronSchedule } from "../../cron/types.js";
+import type { CronJobGraph } from "../../cron/dependencies.js";
+import type {
+  CronCalendarRules,
+  CronJob,
+  CronSchedule,
+  CronTriggerStatus,
+} from "../../cron/types.js";
 import type { GatewayRpcOpts } from "../gateway-rpc.js";
 import { listChannelPlugins } from "../../channels/plugins/index.js";
+import { resolveCronTriggerStatuses } from "../../cron/dependencies.js";
 import { parseAbsoluteTimeMs } from "../../cron/parse.js";
 import { formatDurationHuman } from "../../infra/format-time/format-duration.ts";
 import { defaultRuntime } from "../../runtime.js";
@@ -77,6 +84,123 @@ export function parseAt(input: string): string | null {
   return null;
 }
 
+/**
+ * Parses `--after-status` (comma-separated ok/error).
+ * OPENCLAWMU ADDITION
+ */
+export function parseAfterStatuses(input: string): CronTriggerStatus[] | null {
+  const statuses = input
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  if (statuses.length === 0 || statuses.some((entry) => entry !== "ok" && entry !== "error")) {
+    return null;
+  }
+  return [...new Set(statuses)] as CronTriggerStatus[];
+}
+
+/**
+ * Parses `cron runs --status` (comma-separated ok/error/skipped).
+ * OPENCLAWMU ADDITION
+ */
+export function parseRunStatuses(input: string): Array<"ok" | "error" | "skipped"> | null {
+  const statuses = input
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  if (
+    statuses.length === 0 ||
+    statuses.some((entry) => entry !== "ok" && entry !== "error" && entry !== "skipped")
+  ) {
+    return null;
+  }
+  return [...new Set(statuses)] as Array<"ok" | "error" | "skipped">;
+}
+
+/**
+ * Parses `cron runs --since/--until`: an absolute time, or a duration back from now.
+ * OPENCLAWMU ADDITION
+ */
+export function parseRunTimeMs(input: string): number | null {
+  const raw = input.trim();
+  if (!raw) {
+    return null;
+  }
+  const absolute = parseAbsoluteTimeMs(raw);
+  if (absolute !== null) {
+    return absolute;
+  }
+  const dur = parseDurationMs(raw);
+  return dur !== null ? Math.max(0, Date.now() - dur) : null;
+}
+
+function parseCommaList(value: unknown): string[] | undefined {
+  const globs = (typeof value === "string" ? value : "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return globs.length > 0 ? globs : undefined;
+}
+
+/**
+ * Builds a `watch` schedule from `--watch`, `--watch-include`, `--watch-exclude` and
+ * `--watch-debounce`.
+ * OPENCLAWMU ADDITION
+ */
+export function parseWatchSchedule(
+  opts: Record<string, unknown>,
+): Extract<CronSchedule, { kind: "watch" }> {
+  const watchPath = typeof opts.watch === "string" ? opts.watch.trim() : "";
+  if (!watchPath) {
+    throw new Error("--watch requires a path relative to the agent workspace");
+  }
+  let debounceMs: number | undefined;
+  if (typeof opts.watchDebounce === "string") {
+    const parsed = parseDurationMs(opts.watchDebounce);
+    if (parsed === null) {
+      throw new Error("Invalid --watch-debounce; use e.g. 500ms, 5s");
+    }
+    debounceMs = parsed;
+  }
+  return {
+    kind: "watch",
+    path: watchPath,
+    include: parseCommaList(opts.watchInclude),
+    exclude: parseCommaList(opts.watchExclude),
+    debounceMs,
+  };
+}
+
+/**
+ * Builds `schedule.calendar` from `--business-days`, `--business-day`,
+ * `--exclude-calendar`, `--exclude-dates` and `--blackout`; undefined when none is set.
+ * OPENCLAWMU ADDITION
+ */
+export function parseCalendarRules(opts: Record<string, unknown>): CronCalendarRules | undefined {
+  const rules: CronCalendarRules = {};
+  if (opts.businessDays === true) {
+    rules.businessDays = true;
+  }
+  if (typeof opts.businessDay === "string") {
+    const n = Number.parseInt(opts.businessDay, 10);
+    if (!Number.isInteger(n) || n === 0 || String(n) !== opts.businessDay.trim()) {
+      throw new Error("Invalid --business-day; use e.g. 1 (first) or -1 (last)");
+    }
+    rules.businessDay = n;
+  }
+  rules.exclude = parseCommaList(opts.excludeCalendar);
+  rules.excludeDates = parseCommaList(opts.excludeDates);
+  rules.blackouts = parseCommaList(opts.blackout)?.map((entry) => {
+    const [start, end, ...rest] = entry.split("..");
+    if (!start?.trim() || !end?.trim() || rest.length > 0) {
+      throw new Error("Invalid --blackout; use HH:MM..HH:MM or <ISO>..<ISO>");
+    }
+    return { start: start.trim(), end: end.trim() };
+  });
+  const set = Object.entries(rules).filter(([, value]) => value !== undefined);
+  return set.length > 0 ? (Object.fromEntries(set) as CronCalendarRules) : undefined;
+}
+
 const CRON_ID_PAD = 36;
 const CRON_NAME_PAD = 24;
 const CRON_SCHEDULE_PAD = 32;
@@ -130,14 +254,39 @@ const formatRelative = (ms: number | null | undefined, nowMs: number) => {
   return delta >= 0 ? `in ${label}` : `${label} ago`;
 };
 
+// OPENCLAWMU ADDITION: calendar rules in the schedule column
+const formatCalendarSuffix = (rules?: CronCalendarRules) => {
+  if (!rules) {
+    return "";
+  }
+  if (rules.businessDay !== undefined) {
+    return rules.businessDay === -1
+      ? " (last business day)"
+      : ` (business day ${rules.businessDay})`;
+  }
+  return rules.businessDays ? " (business days)" : " (calendar)";
+};
+
 const formatSchedule = (schedule: CronSchedule) => {
   if (schedule.kind === "at") {
     return `at ${formatIsoMinute(schedule.at)}`;
   }
   if (schedule.kind === "every") {
-    return `every ${formatDurationHuman(schedule.everyMs)}`;
+    return `every ${formatDurationHuman(schedule.everyMs)}${formatCalendarSuffix(schedule.calendar)}`;
   }
-  return schedule.tz ? `cron ${schedule.expr} @ ${schedule.tz}` : `cron ${schedule.expr}`;
+  // OPENCLAWMU ADDITION: completion-triggered jobs
+  if (schedule.kind === "after") {
+    return `after ${schedule.jobId} (${resolveCronTriggerStatuses(schedule).join("|")})`;
+  }
+  // OPENCLAWMU ADDITION: event-triggered jobs
+  if (schedule.kind === "webhook") {
+    return "webhook";
+  }
+  if (schedule.kind === "watch") {
+    return `watch ${schedule.path}`;
+  }
+  const base = schedule.tz ? `cron ${schedule.expr} @ ${schedule.tz}` : `cron ${schedule.expr}`;
+  return `${base}${formatCalendarSuffix(schedule.calendar)}`;
 };
 
 const formatStatus = (job: CronJob) => {
@@ -226,3 +375,83 @@ export function printCronList(jobs: CronJob[], runtime = defaultRuntime) {
     runtime.log(line.trimEnd());
   }
 }
+
+/**
+ * Prints `cron.preview` fire times, in the schedule's timezone when it has one.
+ * OPENCLAWMU ADDITION
+ */
+export function printCronPreview(runs: number[], tz?: string, runtime = defaultRuntime) {
+  if (runs.length === 0) {
+    runtime.log("No upcoming runs.");
+    return;
+  }
+  const rich = isRich();
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz || undefined,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZoneName: "short",
+  });
+  for (const atMs of runs) {
+    runtime.log(
+      `${colorize(rich, theme.info, format.format(new Date(atMs)))}  ${colorize(rich, theme.muted, new Date(atMs).toISOString())}`,
+    );
+  }
+}
+
+/**
+ * Prints the dependency graph returned by `cron.list` as a tree.
+ * OPENCLAWMU ADDITION
+ */
+export function printCronDag(jobs: CronJob[], graph: CronJobGraph, runtime = defaultRuntime) {
+  if (graph.nodes.length === 0) {
+    runtime.log("No cron jobs.");
+    return;
+  }
+  const rich = isRich();
+  const jobsById = new Map(jobs.map((job) => [job.id, job]));
+  const nodesById = new Map(graph.nodes.map((node) => [node.jobId, node]));
+  const printed = new Set<string>();
+
+  const print = (jobId: string, prefix: string, connector: string) => {
+    const node = nodesById.get(jobId);
+    if (!node || printed.has(jobId)) {
+      return;
+    }
+    printed.add(jobId);
+    const job = jobsById.get(jobId);
+    const parts = [colorize(rich, theme.info, node.name), colorize(rich, theme.muted, node.jobId)];
+    if (node.on) {
+      parts.push(colorize(rich, theme.muted, `on ${node.on.join("|")}`));
+    } else if (job) {
+      parts.push(colorize(rich, theme.muted, formatSchedule(job.schedule)));
+    }
+    if (node.missingUpstream) {
+      parts.push(colorize(rich, theme.warn, `(upstream ${node.upstreamJobId} missing)`));
+    }
+    if (!node.enabled) {
+      parts.push(colorize(rich, theme.muted, "(disabled)"));
+    }
+    runtime.log(`${prefix}${connector}${parts.join(" ")}`);
+    const childPrefix = connector === "" ? "" : `${prefix}${connector === "└─ " ? "   " : "│  "}`;
+    node.downstreamJobIds.forEach((childId, index) => {
+      const last = index === node.downstreamJobIds.length - 1;
+      print(childId, childPrefix, last ? "└─ " : "├─ ");
+    });
+  };
+
+  for (const root of graph.roots) {
+    print(root, "", "");
+  }
+  // Jobs stuck in a cycle have no root
+  for (const node of graph.nodes) {
+    if (!printed.has(node.jobId)) {
+      print(node.jobId, "", "");
+    }
+  }
+}
@@ -4,6 +4,14 @@ import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import {
+  memoryInspectChunksCommand,
+  memoryInspectFilesCommand,
+  memoryInspectQueryCommand,
+  memoryInspectRebuildCommand,
+  memoryInspectStaleCommand,
+  memoryInspectVacuumCommand,
+} from "../commands/memory-inspect.js";
 import { loadConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
@@ -14,7 +22,8 @@ import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { colorize, isRich, theme } from "../terminal/theme.js";
 import { shortenHomeInString, shortenHomePath } from "../utils.js";
-import { formatErrorMessage, withManager } from "./cli-utils.js";
+import { formatErrorMessage, runCommandWithRuntime, withManager } from "./cli-utils.js";
+import { formatHelpExamples } from "./help-format.js";
 import { withProgress, withProgressTotals } from "./progress.js";
 
 type MemoryCommandOptions = {
@@ -26,6 +35,16 @@ type MemoryCommandOptions = {
   verbose?: boolean;
 };
 
+// OPENCLAWMU ADDITION: index inspection subcommands
+const MEMORY_INSPECT_EXAMPLES = [
+  ["openclaw memory inspect files", "Indexed files with chunk counts and embedding models."],
+  ["openclaw memory inspect chunks memory/2026-01-07.md", "Chunks of one file."],
+  ['openclaw memory inspect query "release checklist"', "Vector, FTS and merged scores."],
+  ["openclaw memory inspect stale", "Rows that no longer match the files on disk."],
+  ["openclaw memory inspect vacuum", "Drop orphaned rows and compact the database."],
+  ["openclaw memory inspect rebuild --source sessions", "Reindex one source from scratch."],
+] as const;
+
 type MemoryManager = NonNullable<MemorySearchManagerResult["manager"]>;
 
 type MemorySourceName = "memory" | "sessions";
@@ -495,6 +514,22 @@ export async function runMemoryStatus(opts: MemoryCommandOptions) {
         lines.push(`${label("Batch error")} ${warn(status.batch.lastError)}`);
       }
     }
+    // OPENCLAWMU ADDITION: post-retrieval rerankers
+    if (status.rerank) {
+      const { crossEncoder, recency, mmr } = status.rerank;
+      const stages = [
+        crossEncoder.enabled ? "cross-encoder" : null,
+        recency.enabled ? "recency" : null,
+        mmr.enabled ? `mmr (lambda ${mmr.lambda})` : null,
+      ].filter(Boolean);
+      lines.push(`${label("Rerank")} ${stages.length ? info(stages.join(", ")) : muted("off")}`);
+      if (crossEncoder.enabled && crossEncoder.model) {
+        lines.push(`${label("Rerank model")} ${info(crossEncoder.model)}`);
+      }
+      if (crossEncoder.error) {
+        lines.push(`${label("Rerank error")} ${warn(crossEncoder.error)}`);
+      }
+    }
     if (status.fallback?.reason) {
       lines.push(muted(status.fallback.reason));
     }
@@ -741,4 +776,95 @@ export function registerMemoryCli(program: Command) {
         });
       },
     );
+
+  // OPENCLAWMU ADDITION: index inspection and maintenance
+  const inspect = memory
+    .command("inspect")
+    .description("Inspect and repair the memory index")
+    .addHelpText(
+      "after",
+      () => `\n${theme.heading("Examples:")}\n${formatHelpExamples(MEMORY_INSPECT_EXAMPLES)}\n`,
+    )
+    .action(() => {
+      inspect.help({ error: true });
+    });
+  const runInspect = (action: () => Promise<void>) =>
+    runCommandWithRuntime(defaultRuntime, action, (err) => {
+      defaultRuntime.error(`Memory inspect failed: ${formatErrorMessage(err)}`);
+      defaultRuntime.exit(1);
+    });
+
+  inspect
+    .command("files")
+    .description("List indexed files with chunk counts and embedding models")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--source <source>", "Only this source (memory or sessions)")
+    .option("--json", "Print JSON")
+    .action(async (opts: { agent?: string; source?: string; json?: boolean }) => {
+      await runInspect(() => memoryInspectFilesCommand(opts, defaultRuntime));
+    });
+
+  inspect
+    .command("chunks")
+    .description("Show the indexed chunks of a file")
+    .argument("<path>", "Indexed path (as shown by inspect files)")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--source <source>", "Only this source (memory or sessions)")
+    .option("--full", "Print whole chunk text", false)
+    .option("--json", "Print JSON")
+    .action(
+      async (
+        relPath: string,
+        opts: { agent?: string; source?: string; full?: boolean; json?: boolean },
+      ) => {
+        await runInspect(() => memoryInspectChunksCommand(relPath, opts, defaultRuntime));
+      },
+    );
+
+  inspect
+    .command("query")
+    .description("Run a search and show each stage's scores")
+    .argument("<query>", "Search query")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--max-results <n>", "Max results", (value: string) => Number(value))
+    .option("--min-score <n>", "Minimum score", (value: string) => Number(value))
+    .option("--json", "Print JSON")
+    .action(
+      async (
+        query: string,
+        opts: { agent?: string; maxResults?: number; minScore?: number; json?: boolean },
+      ) => {
+        await runInspect(() => memoryInspectQueryCommand(query, opts, defaultRuntime));
+      },
+    );
+
+  inspect
+    .command("stale")
+    .description("Find orphaned chunks and files that changed or disappeared")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--source <source>", "Only this source (memory or sessions)")
+    .option("--json", "Print JSON")
+    .action(async (opts: { agent?: string; source?: string; json?: boolean }) => {
+      await runInspect(() => memoryInspectStaleCommand(opts, defaultRuntime));
+    });
+
+  inspect
+    .command("vacuum")
+    .description("Drop orphaned and stale index rows, then compact the database")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--source <source>", "Only this source (memory or sessions)")
+    .option("--json", "Print JSON")
+    .action(async (opts: { agent?: string; source?: string; json?: boolean }) => {
+      await runInspect(() => memoryInspectVacuumCommand(opts, defaultRuntime));
+    });
+
+  inspect
+    .command("rebuild")
+    .description("Drop one source from the index and index it again")
+    .requiredOption("--source <source>", "Source to rebuild (memory or sessions)")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--json", "Print JSON")
+    .action(async (opts: { agent?: string; source?: string; json?: boolean }) => {
+      await runInspect(() => memoryInspectRebuildCommand(opts, defaultRuntime));
+    });
 }
@@ -5,6 +5,7 @@ import {
   agentsAddCommand,
   agentsDeleteCommand,
   agentsListCommand,
+  agentsRouteCommand,
   agentsSetIdentityCommand,
 } from "../../commands/agents.js";
 import { setVerbose } from "../../globals.js";
@@ -103,6 +104,62 @@ ${theme.muted("Docs:")} ${formatDocsLink("/cli/agent", "docs.openclaw.ai/cli/age
       });
     });
 
+  // OPENCLAWMU ADDITION: route resolution for a synthetic message
+  agents
+    .command("route")
+    .description("Show which agent a message would be routed to")
+    .requiredOption("--channel <channel>", "Channel the message arrives on")
+    .option("--account <id>", "Channel account id")
+    .option("--peer <kind:id>", "Sender or conversation (direct|group|channel:<id>)")
+    .option("--parent-peer <kind:id>", "Parent conversation of a thread")
+    .option("--guild <id>", "Discord guild id")
+    .option("--team <id>", "Slack team id")
+    .option("--role <id>", "Member role id (repeatable)", collectOption, [])
+    .option("--text <text>", "Message text for text and language conditions")
+    .option("--language <code>", "Message language (default: detected from --text)")
+    .option("--at <time>", "Evaluate schedules at this ISO time instead of now")
+    .option("--explain", "Show every binding and why it matched or was skipped", false)
+    .option("--json", "Output JSON", false)
+    .addHelpText(
+      "after",
+      () =>
+        `
+${theme.heading("Examples:")}
+${formatHelpExamples([
+  ["openclaw agents route --channel slack --peer direct:U123", "Agent for a Slack DM."],
+  [
+    'openclaw agents route --channel telegram --text "my invoice is wrong" --explain',
+    "Why a text binding wins or not.",
+  ],
+  [
+    "openclaw agents route --channel whatsapp --at 2026-10-17T22:30:00+02:00 --explain",
+    "Check an after-hours schedule.",
+  ],
+])}
+`,
+    )
+    .action(async (opts) => {
+      await runCommandWithRuntime(defaultRuntime, async () => {
+        await agentsRouteCommand(
+          {
+            channel: opts.channel as string,
+            account: opts.account as string | undefined,
+            peer: opts.peer as string | undefined,
+            parentPeer: opts.parentPeer as string | undefined,
+            guild: opts.guild as string | undefined,
+            team: opts.team as string | undefined,
+            role: Array.isArray(opts.role) ? (opts.role as string[]) : undefined,
+            text: opts.text as string | undefined,
+            language: opts.language as string | undefined,
+            at: opts.at as string | undefined,
+            explain: Boolean(opts.explain),
+            json: Boolean(opts.json),
+          },
+          defaultRuntime,
+        );
+      });
+    });
+
   agents
     .command("add [name]")
     .description("Add a new isolated agent")
@@ -223,6 +223,15 @@ const entries: SubCliEntry[] = [
       mod.registerSkillsCli(program);
     },
   },
+  // OPENCLAWMU ADDITION: multi-tenant operator commands
+  {
+    name: "tenants",
+    description: "Tenant management",
+    register: async (program) => {
+      const mod = await import("../tenants-cli.js");
+      mod.registerTenantsCli(program);
+    },
+  },
   {
     name: "update",
     description: "CLI update helpers",
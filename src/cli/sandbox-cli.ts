@@ -1,5 +1,12 @@
 import type { Command } from "commander";
 import { sandboxExplainCommand } from "../commands/sandbox-explain.js";
+import {
+  sandboxSnapshotsCreateCommand,
+  sandboxSnapshotsDeleteCommand,
+  sandboxSnapshotsDiffCommand,
+  sandboxSnapshotsListCommand,
+  sandboxSnapshotsRestoreCommand,
+} from "../commands/sandbox-snapshots.js";
 import { sandboxListCommand, sandboxRecreateCommand } from "../commands/sandbox.js";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
@@ -20,6 +27,7 @@ const SANDBOX_EXAMPLES = {
     ["openclaw sandbox recreate --session main", "Recreate a specific session."],
     ["openclaw sandbox recreate --agent mybot", "Recreate agent containers."],
     ["openclaw sandbox explain", "Explain effective sandbox config."],
+    ["openclaw sandbox snapshots list --tenant acme", "List a tenant's workspace snapshots."],
   ],
   list: [
     ["openclaw sandbox list", "List all sandbox containers."],
@@ -37,8 +45,19 @@ const SANDBOX_EXAMPLES = {
     ["openclaw sandbox explain", "Show effective sandbox config."],
     ["openclaw sandbox explain --session agent:main:main", "Explain a specific session."],
     ["openclaw sandbox explain --agent work", "Explain an agent sandbox."],
+    ["openclaw sandbox explain --tenant acme", "Include a tenant's seccomp/Landlock profile."],
     ["openclaw sandbox explain --json", "JSON output."],
   ],
+  snapshots: [
+    ["openclaw sandbox snapshots list --tenant acme", "List workspace snapshots."],
+    ["openclaw sandbox snapshots create --tenant acme --label before-migration", "Snapshot now."],
+    ["openclaw sandbox snapshots diff <id> --tenant acme", "Changes since a snapshot."],
+    ["openclaw sandbox snapshots restore <id> --tenant acme", "Roll the workspace back."],
+    [
+      "openclaw sandbox snapshots restore <id> --tenant acme --path src",
+      "Roll back one directory.",
+    ],
+  ],
 } as const;
 
 function createRunner(
@@ -154,6 +173,7 @@ export function registerSandboxCli(program: Command) {
     .description("Explain effective sandbox/tool policy for a session/agent")
     .option("--session <key>", "Session key to inspect (defaults to agent main)")
     .option("--agent <id>", "Agent id to inspect (defaults to derived agent)")
+    .option("--tenant <id>", "Tenant whose bwrap seccomp/Landlock restrictions to show")
     .option("--json", "Output result as JSON", false)
     .addHelpText(
       "after",
@@ -165,10 +185,121 @@ export function registerSandboxCli(program: Command) {
           {
             session: opts.session as string | undefined,
             agent: opts.agent as string | undefined,
+            tenant: opts.tenant as string | undefined,
+            json: Boolean(opts.json),
+          },
+          defaultRuntime,
+        ),
+      ),
+    );
+
+  // --- Snapshot Commands ---
+  // OPENCLAWMU ADDITION: tenant workspace snapshots.
+
+  const snapshots = sandbox
+    .command("snapshots")
+    .description("Manage tenant workspace snapshots")
+    .addHelpText(
+      "after",
+      () => `\n${theme.heading("Examples:")}\n${formatHelpExamples(SANDBOX_EXAMPLES.snapshots)}\n`,
+    )
+    .action(() => {
+      snapshots.help({ error: true });
+    });
+
+  snapshots
+    .command("list")
+    .description("List a tenant's workspace snapshots, newest first")
+    .requiredOption("--tenant <id>", "Tenant id")
+    .option("--json", "Output result as JSON", false)
+    .action(
+      createRunner((opts) =>
+        sandboxSnapshotsListCommand(
+          { tenant: opts.tenant as string, json: Boolean(opts.json) },
+          defaultRuntime,
+        ),
+      ),
+    );
+
+  snapshots
+    .command("create")
+    .description("Snapshot a tenant's workspace now")
+    .requiredOption("--tenant <id>", "Tenant id")
+    .option("--label <text>", "Label shown in listings")
+    .option("--exclude <globs>", "Comma-separated paths to leave out (e.g. node_modules,*.log)")
+    .option("--json", "Output result as JSON", false)
+    .action(
+      createRunner((opts) =>
+        sandboxSnapshotsCreateCommand(
+          {
+            tenant: opts.tenant as string,
+            label: opts.label as string | undefined,
+            exclude: opts.exclude as string | undefined,
             json: Boolean(opts.json),
           },
           defaultRuntime,
         ),
       ),
     );
+
+  snapshots
+    .command("diff")
+    .description("Show workspace changes since a snapshot")
+    .argument("<snapshotId>", "Snapshot id")
+    .requiredOption("--tenant <id>", "Tenant id")
+    .option("--against <snapshotId>", "Compare with a later snapshot instead of the workspace")
+    .option("--json", "Output result as JSON", false)
+    .action((id: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        sandboxSnapshotsDiffCommand(
+          id,
+          {
+            tenant: options.tenant as string,
+            against: options.against as string | undefined,
+            json: Boolean(options.json),
+          },
+          defaultRuntime,
+        ),
+      )(opts),
+    );
+
+  snapshots
+    .command("restore")
+    .description("Put a tenant's workspace back to a snapshot")
+    .argument("<snapshotId>", "Snapshot id")
+    .requiredOption("--tenant <id>", "Tenant id")
+    .option(
+      "--path <path>",
+      "Restore only this workspace path (repeatable)",
+      (value: string, previous: string[] = []) => [...previous, value],
+    )
+    .option("--no-keep-current", "Do not snapshot the current state first")
+    .option("--force", "Skip confirmation prompt", false)
+    .option("--json", "Output result as JSON", false)
+    .action((id: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        sandboxSnapshotsRestoreCommand(
+          id,
+          {
+            tenant: options.tenant as string,
+            path: options.path as string[] | undefined,
+            keepCurrent: options.keepCurrent !== false,
+            force: Boolean(options.force),
+            json: Boolean(options.json),
+          },
+          defaultRuntime,
+        ),
+      )(opts),
+    );
+
+  snapshots
+    .command("delete")
+    .description("Delete a workspace snapshot")
+    .argument("<snapshotId>", "Snapshot id")
+    .requiredOption("--tenant <id>", "Tenant id")
+    .action((id: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        sandboxSnapshotsDeleteCommand(id, { tenant: options.tenant as string }, defaultRuntime),
+      )(opts),
+    );
 }
@@ -0,0 +1,58 @@
+import { Command } from "commander";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const commands = vi.hoisted(() => ({
+  tenantsCreateCommand: vi.fn(async () => {}),
+  tenantsKeysCreateCommand: vi.fn(async () => {}),
+  tenantsRestoreCommand: vi.fn(async () => {}),
+  tenantsImportCommand: vi.fn(async () => {}),
+}));
+
+vi.mock("../commands/tenants.js", () => commands);
+
+const { registerTenantsCli } = await import("./tenants-cli.js");
+
+async function run(args: string[]) {
+  const program = new Command();
+  program.exitOverride();
+  registerTenantsCli(program);
+  await program.parseAsync(["tenants", ...args], { from: "user" });
+}
+
+describe("tenants cli", () => {
+  beforeEach(() => {
+    for (const command of Object.values(commands)) {
+      command.mockClear();
+    }
+  });
+
+  it("passes arguments and options to the tenant commands", async () => {
+    await run(["create", "acme", "--display-name", "Acme"]);
+    expect(commands.tenantsCreateCommand).toHaveBeenCalledWith(
+      "acme",
+      { displayName: "Acme", json: false },
+      expect.anything(),
+    );
+
+    await run(["keys", "create", "acme", "--name", "ci", "--scope", "a", "--scope", "b"]);
+    expect(commands.tenantsKeysCreateCommand).toHaveBeenCalledWith(
+      "acme",
+      expect.objectContaining({ name: "ci", scope: ["a", "b"] }),
+      expect.anything(),
+    );
+
+    await run(["restore", "acme", "--target", "nas", "--key", "k.tar.gz", "--dry-run"]);
+    expect(commands.tenantsRestoreCommand).toHaveBeenCalledWith(
+      "acme",
+      expect.objectContaining({ target: "nas", key: "k.tar.gz", dryRun: true }),
+      expect.anything(),
+    );
+
+    await run(["import", "acme.tar.gz", "--rename", "acme-eu"]);
+    expect(commands.tenantsImportCommand).toHaveBeenCalledWith(
+      "acme.tar.gz",
+      expect.objectContaining({ rename: "acme-eu" }),
+      expect.anything(),
+    );
+  });
+});
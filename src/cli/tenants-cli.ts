@@ -0,0 +1,343 @@
+/**
+ * OPENCLAWMU ADDITION: `openclaw tenants` subcommands (see commands/tenants.ts).
+ */
+
+import type { Command } from "commander";
+import {
+  tenantsBackupCommand,
+  tenantsBackupsListCommand,
+  tenantsCreateCommand,
+  tenantsExportCommand,
+  tenantsImportCommand,
+  tenantsInfoCommand,
+  tenantsKeysCreateCommand,
+  tenantsKeysListCommand,
+  tenantsKeysRevokeCommand,
+  tenantsListCommand,
+  tenantsMigrateCommand,
+  tenantsRemoveCommand,
+  tenantsRestoreCommand,
+  tenantsTokenCommand,
+  type TenantsBackupTargetOptions,
+} from "../commands/tenants.js";
+import { defaultRuntime } from "../runtime.js";
+import { theme } from "../terminal/theme.js";
+import { formatHelpExamples } from "./help-format.js";
+
+// --- Types ---
+
+type CommandOptions = Record<string, unknown>;
+
+// --- Helpers ---
+
+const TENANTS_EXAMPLES = {
+  main: [
+    ["openclaw tenants create acme", "Create a tenant and print its token."],
+    ["openclaw tenants list", "List tenants."],
+    ["openclaw tenants token acme --grace 1h", "Rotate a token, keeping the old one for 1h."],
+    ["openclaw tenants keys create acme --name ci --expires-in 30d", "Issue a scoped API key."],
+    ["openclaw tenants backup acme --target nas --incremental", "Back up to a named target."],
+    ["openclaw tenants export acme --output acme.tar.gz", "Export for another gateway."],
+  ],
+  backups: [
+    ["openclaw tenants backup acme --target nas", "Full backup to a configured target."],
+    ["openclaw tenants backup acme --bucket my-backups", "Backup to an S3 bucket."],
+    ["openclaw tenants backups acme --target nas", "List a tenant's backups."],
+    ["openclaw tenants restore acme --target nas --key <key> --dry-run", "Verify a backup."],
+  ],
+} as const;
+
+function createRunner(
+  commandFn: (opts: CommandOptions, runtime: typeof defaultRuntime) => Promise<void>,
+) {
+  return async (opts: CommandOptions) => {
+    try {
+      await commandFn(opts, defaultRuntime);
+    } catch (err) {
+      defaultRuntime.error(String(err));
+      defaultRuntime.exit(1);
+    }
+  };
+}
+
+const collect = (value: string, previous: string[] = []) => [...previous, value];
+
+function addBackupTargetOptions(command: Command): Command {
+  return command
+    .option("--target <name>", "Backup target from gateway.backup.targets")
+    .option("--bucket <bucket>", "S3 bucket (instead of --target)")
+    .option("--endpoint <url>", "S3 endpoint (with --bucket)")
+    .option("--region <region>", "S3 region (with --bucket)")
+    .option("--prefix <prefix>", "S3 key prefix (with --bucket)")
+    .option("--json", "Output result as JSON", false);
+}
+
+function backupTargetOptions(opts: CommandOptions): TenantsBackupTargetOptions {
+  return {
+    target: opts.target as string | undefined,
+    bucket: opts.bucket as string | undefined,
+    endpoint: opts.endpoint as string | undefined,
+    region: opts.region as string | undefined,
+    prefix: opts.prefix as string | undefined,
+    json: Boolean(opts.json),
+  };
+}
+
+// --- Registration ---
+
+export function registerTenantsCli(program: Command) {
+  const tenants = program
+    .command("tenants")
+    .description("Manage gateway tenants")
+    .addHelpText(
+      "after",
+      () => `\n${theme.heading("Examples:")}\n${formatHelpExamples(TENANTS_EXAMPLES.main)}\n`,
+    )
+    .action(() => {
+      tenants.help({ error: true });
+    });
+
+  tenants
+    .command("create")
+    .description("Create a tenant with a generated token")
+    .argument("<tenantId>", "Tenant id")
+    .option("--display-name <name>", "Display name")
+    .option("--json", "Output result as JSON", false)
+    .action((tenantId: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        tenantsCreateCommand(
+          tenantId,
+          {
+            displayName: options.displayName as string | undefined,
+            json: Boolean(options.json),
+          },
+          defaultRuntime,
+        ),
+      )(opts),
+    );
+
+  tenants
+    .command("list")
+    .description("List tenants")
+    .option("--json", "Output result as JSON", false)
+    .action(
+      createRunner((opts) => tenantsListCommand({ json: Boolean(opts.json) }, defaultRuntime)),
+    );
+
+  tenants
+    .command("info")
+    .description("Show a tenant's details")
+    .argument("<tenantId>", "Tenant id")
+    .option("--json", "Output result as JSON", false)
+    .action((tenantId: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        tenantsInfoCommand(tenantId, { json: Boolean(options.json) }, defaultRuntime),
+      )(opts),
+    );
+
+  tenants
+    .command("token")
+    .description("Rotate a tenant's token")
+    .argument("<tenantId>", "Tenant id")
+    .option("--grace <duration>", "Keep the previous token valid for this long (e.g. 1h)")
+    .option("--json", "Output result as JSON", false)
+    .action((tenantId: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        tenantsTokenCommand(
+          tenantId,
+          { grace: options.grace as string | undefined, json: Boolean(options.json) },
+          defaultRuntime,
+        ),
+      )(opts),
+    );
+
+  tenants
+    .command("remove")
+    .description("Remove a tenant")
+    .argument("<tenantId>", "Tenant id")
+    .option("--delete-data", "Also delete the tenant's state directory", false)
+    .option("--force", "Skip confirmation", false)
+    .action((tenantId: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        tenantsRemoveCommand(
+          tenantId,
+          { deleteData: Boolean(options.deleteData), force: Boolean(options.force) },
+          defaultRuntime,
+        ),
+      )(opts),
+    );
+
+  tenants
+    .command("migrate")
+    .description("Move the tenant registry to another backend (json|sqlite)")
+    .argument("<backend>", "Target backend: json or sqlite")
+    .option("--json", "Output result as JSON", false)
+    .action((backend: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        tenantsMigrateCommand(backend, { json: Boolean(options.json) }, defaultRuntime),
+      )(opts),
+    );
+
+  // --- Key Commands ---
+
+  const keys = tenants
+    .command("keys")
+    .description("Manage scoped tenant API keys")
+    .action(() => {
+      keys.help({ error: true });
+    });
+
+  keys
+    .command("create")
+    .description("Create an API key")
+    .argument("<tenantId>", "Tenant id")
+    .requiredOption("--name <name>", "Key name")
+    .option("--scope <scope>", "Scope to grant (repeatable)", collect)
+    .option("--expires-in <duration>", "Expire after this long (e.g. 30d)")
+    .option("--json", "Output result as JSON", false)
+    .action((tenantId: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        tenantsKeysCreateCommand(
+          tenantId,
+          {
+            name: options.name as string,
+            scope: options.scope as string[] | undefined,
+            expiresIn: options.expiresIn as string | undefined,
+            json: Boolean(options.json),
+          },
+          defaultRuntime,
+        ),
+      )(opts),
+    );
+
+  keys
+    .command("list")
+    .description("List a tenant's API keys")
+    .argument("<tenantId>", "Tenant id")
+    .option("--json", "Output result as JSON", false)
+    .action((tenantId: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        tenantsKeysListCommand(tenantId, { json: Boolean(options.json) }, defaultRuntime),
+      )(opts),
+    );
+
+  keys
+    .command("revoke")
+    .description("Revoke an API key")
+    .argument("<tenantId>", "Tenant id")
+    .argument("<keyId>", "Key id")
+    .option("--grace <duration>", "Keep the key valid for this long (e.g. 1h)")
+    .option("--json", "Output result as JSON", false)
+    .action((tenantId: string, keyId: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        tenantsKeysRevokeCommand(
+          tenantId,
+          keyId,
+          { grace: options.grace as string | undefined, json: Boolean(options.json) },
+          defaultRuntime,
+        ),
+      )(opts),
+    );
+
+  // --- Backup Commands ---
+
+  addBackupTargetOptions(
+    tenants
+      .command("backup")
+      .description("Back up a tenant")
+      .argument("<tenantId>", "Tenant id")
+      .option("--incremental", "Only files changed since the last backup", false)
+      .addHelpText(
+        "after",
+        () => `\n${theme.heading("Examples:")}\n${formatHelpExamples(TENANTS_EXAMPLES.backups)}\n`,
+      ),
+  ).action((tenantId: string, opts: CommandOptions) =>
+    createRunner((options) =>
+      tenantsBackupCommand(
+        tenantId,
+        { ...backupTargetOptions(options), incremental: Boolean(options.incremental) },
+        defaultRuntime,
+      ),
+    )(opts),
+  );
+
+  addBackupTargetOptions(
+    tenants
+      .command("backups")
+      .description("List a tenant's backups")
+      .argument("<tenantId>", "Tenant id"),
+  ).action((tenantId: string, opts: CommandOptions) =>
+    createRunner((options) =>
+      tenantsBackupsListCommand(tenantId, backupTargetOptions(options), defaultRuntime),
+    )(opts),
+  );
+
+  addBackupTargetOptions(
+    tenants
+      .command("restore")
+      .description("Restore a tenant from a backup")
+      .argument("<tenantId>", "Tenant id")
+      .requiredOption("--key <key>", "Backup key (from `tenants backups`)")
+      .option("--dry-run", "Verify the backup and list what would change", false)
+      .option("--create-if-missing", "Create the tenant when it does not exist", false),
+  ).action((tenantId: string, opts: CommandOptions) =>
+    createRunner((options) =>
+      tenantsRestoreCommand(
+        tenantId,
+        {
+          ...backupTargetOptions(options),
+          key: options.key as string,
+          dryRun: Boolean(options.dryRun),
+          createIfMissing: Boolean(options.createIfMissing),
+        },
+        defaultRuntime,
+      ),
+    )(opts),
+  );
+
+  // --- Export / Import ---
+
+  tenants
+    .command("export")
+    .description("Export a tenant as an archive another gateway can import")
+    .argument("<tenantId>", "Tenant id")
+    .option("--output <file>", "Archive path (default: ./<tenantId>-export.tar.gz)")
+    .option("--include-credentials", "Include channel credentials (needs a passphrase)", false)
+    .option("--passphrase <passphrase>", "Defaults to OPENCLAW_TENANT_EXPORT_PASSPHRASE")
+    .option("--json", "Output result as JSON", false)
+    .action((tenantId: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        tenantsExportCommand(
+          tenantId,
+          {
+            output: options.output as string | undefined,
+            includeCredentials: Boolean(options.includeCredentials),
+            passphrase: options.passphrase as string | undefined,
+            json: Boolean(options.json),
+          },
+          defaultRuntime,
+        ),
+      )(opts),
+    );
+
+  tenants
+    .command("import")
+    .description("Import a tenant archive")
+    .argument("<file>", "Archive from `tenants export`")
+    .option("--rename <tenantId>", "Import under another tenant id")
+    .option("--passphrase <passphrase>", "Defaults to OPENCLAW_TENANT_EXPORT_PASSPHRASE")
+    .option("--json", "Output result as JSON", false)
+    .action((file: string, opts: CommandOptions) =>
+      createRunner((options) =>
+        tenantsImportCommand(
+          file,
+          {
+            rename: options.rename as string | undefined,
+            passphrase: options.passphrase as string | undefined,
+            json: Boolean(options.json),
+          },
+          defaultRuntime,
+        ),
+      )(opts),
+    );
+}
@@ -57,6 +57,12 @@ import { defaultRuntime, type RuntimeEnv } from "../runtime.js";
 import { applyVerboseOverride } from "../sessions/level-overrides.js";
 import { applyModelOverrideToSessionEntry } from "../sessions/model-overrides.js";
 import { resolveSendPolicy } from "../sessions/send-policy.js";
+import { resolveTenantModelSelection } from "../tenants/model-policy.js";
+import {
+  enforceTenantQuota,
+  meterTenantRunUsage,
+  releaseTenantRunAdmission,
+} from "../tenants/quota-gate.js";
 import { resolveMessageChannel } from "../utils/message-channel.js";
 import { deliverAgentCommandResult } from "./agent/delivery.js";
 import { resolveAgentRunContext } from "./agent/run-context.js";
@@ -297,6 +303,9 @@ export async function agentCommand(
       }
     }
 
+    // OPENCLAWMU ADDITION: tenant quota gate (throws TenantQuotaError when blocked).
+    await enforceTenantQuota({ sessionKey, runId, source: "agent" });
+
     let resolvedThinkLevel =
       thinkOnce ??
       thinkOverride ??
@@ -455,6 +464,25 @@ export async function agentCommand(
         model = normalizedStored.model;
       }
     }
+
+    // Keep fallback candidate resolution centralized so session model overrides,
+    // per-agent overrides, and default fallbacks stay consistent across callers.
+    const effectiveFallbacksOverride = resolveEffectiveModelFallbacks({
+      cfg,
+      agentId: sessionAgentId,
+      hasSessionModelOverride: Boolean(storedModelOverride),
+    });
+    // OPENCLAWMU ADDITION: tenant model policy (allowed models, tenant default, cost downgrade).
+    const tenantModel = await resolveTenantModelSelection({
+      sessionKey,
+      provider,
+      model,
+      fallbacksOverride: effectiveFallbacksOverride,
+      cfg: cfgForModelSelection,
+      isDefaultModel: provider === defaultProvider && model === defaultModel,
+    });
+    provider = tenantModel.provider;
+    model = tenantModel.model;
     if (sessionEntry) {
       const authProfileId = sessionEntry.authProfileOverride;
       if (authProfileId) {
@@ -522,14 +550,6 @@ export async function agentCommand(
         opts.replyChannel ?? opts.channel,
       );
       const spawnedBy = opts.spawnedBy ?? sessionEntry?.spawnedBy;
-      // Keep fallback candidate resolution centralized so session model overrides,
-      // per-agent overrides, and default fallbacks stay consistent across callers.
-      const effectiveFallbacksOverride = resolveEffectiveModelFallbacks({
-        cfg,
-        agentId: sessionAgentId,
-        hasSessionModelOverride: Boolean(storedModelOverride),
-      });
-
       // Track model fallback attempts so retries on an existing session don't
       // re-inject the original prompt as a duplicate user message.
       let fallbackAttemptIndex = 0;
@@ -538,7 +558,7 @@ export async function agentCommand(
         provider,
         model,
         agentDir,
-        fallbacksOverride: effectiveFallbacksOverride,
+        fallbacksOverride: tenantModel.fallbacksOverride,
         run: (providerOverride, modelOverride) => {
           const isFallbackRetry = fallbackAttemptIndex > 0;
           fallbackAttemptIndex += 1;
@@ -609,6 +629,18 @@ export async function agentCommand(
       throw err;
     }
 
+    // OPENCLAWMU ADDITION: meter provider-reported usage against the tenant.
+    await meterTenantRunUsage({
+      sessionKey,
+      runId,
+      source: "agent",
+      usage: result.meta.agentMeta?.usage,
+      provider: result.meta.agentMeta?.provider ?? fallbackProvider,
+      model: result.meta.agentMeta?.model ?? fallbackModel,
+      cfg,
+      onError: (err) => runtime.error(`Failed to meter tenant usage: ${String(err)}`),
+    });
+
     // Update token+model fields in the session store.
     if (sessionStore && sessionKey) {
       await updateSessionStoreAfterAgentRun({
@@ -638,5 +670,7 @@ export async function agentCommand(
     });
   } finally {
     clearAgentRunContext(runId);
+    // OPENCLAWMU ADDITION: a run that failed before metering must not stay admitted.
+    releaseTenantRunAdmission({ sessionKey, runId });
   }
 }
@@ -15,6 +15,8 @@ function bindingMatchKey(match: AgentBinding["match"]) {
     match.peer?.id ?? "",
     match.guildId ?? "",
     match.teamId ?? "",
+    // OPENCLAWMU ADDITION: conditional bindings never collide with plain ones
+    JSON.stringify([match.schedule ?? null, match.text ?? null, match.language ?? null]),
   ].join("|");
 }
 
@@ -33,6 +35,21 @@ export function describeBinding(binding: AgentBinding) {
   if (match.teamId) {
     parts.push(`team=${match.teamId}`);
   }
+  // OPENCLAWMU ADDITION: conditional binding fields
+  if (match.roles?.length) {
+    parts.push(`roles=${match.roles.join(",")}`);
+  }
+  if (match.schedule) {
+    const { days, start = "00:00", end = "24:00", timezone = "user" } = match.schedule;
+    const dayList = days?.length ? ` days=${days.join(",")}` : "";
+    parts.push(`schedule=${start}-${end} ${timezone}${dayList}`);
+  }
+  if (match.text?.length) {
+    parts.push(`text=${match.text.map((pattern) => `/${pattern}/`).join(",")}`);
+  }
+  if (match.language?.length) {
+    parts.push(`language=${match.language.join(",")}`);
+  }
   return parts.join(" ");
 }
 
@@ -0,0 +1,118 @@
+/**
+ * `openclaw agents route`: which agent a message would be routed to.
+ * OPENCLAWMU ADDITION: debugging conditional (schedule/text/language) bindings.
+ */
+
+import type { ChatType } from "../channels/chat-type.js";
+import type { RuntimeEnv } from "../runtime.js";
+import { normalizeChatType } from "../channels/chat-type.js";
+import { explainAgentRoute, type RoutePeer } from "../routing/resolve-route.js";
+import { defaultRuntime } from "../runtime.js";
+import { describeBinding } from "./agents.bindings.js";
+import { requireValidConfig } from "./agents.command-shared.js";
+
+type AgentsRouteOptions = {
+  channel?: string;
+  account?: string;
+  peer?: string;
+  parentPeer?: string;
+  guild?: string;
+  team?: string;
+  role?: string[];
+  text?: string;
+  language?: string;
+  at?: string;
+  explain?: boolean;
+  json?: boolean;
+};
+
+/** Parses `<kind>:<id>`; null when malformed. */
+function parsePeer(raw: string | undefined): RoutePeer | null | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  const separator = raw.indexOf(":");
+  const kind: ChatType | undefined =
+    separator > 0 ? normalizeChatType(raw.slice(0, separator)) : undefined;
+  const id = separator > 0 ? raw.slice(separator + 1).trim() : "";
+  if (!kind || !id) {
+    return null;
+  }
+  return { kind, id };
+}
+
+export async function agentsRouteCommand(
+  opts: AgentsRouteOptions,
+  runtime: RuntimeEnv = defaultRuntime,
+) {
+  const channel = opts.channel?.trim();
+  if (!channel) {
+    runtime.error("Please specify --channel <channel>");
+    runtime.exit(1);
+    return;
+  }
+  const peer = parsePeer(opts.peer);
+  const parentPeer = parsePeer(opts.parentPeer);
+  if (peer === null || parentPeer === null) {
+    runtime.error("Peers must look like <direct|group|channel>:<id>");
+    runtime.exit(1);
+    return;
+  }
+  const nowMs = opts.at ? Date.parse(opts.at) : Date.now();
+  if (!Number.isFinite(nowMs)) {
+    runtime.error(`Invalid --at time: ${opts.at}`);
+    runtime.exit(1);
+    return;
+  }
+  const cfg = await requireValidConfig(runtime);
+  if (!cfg) {
+    return;
+  }
+
+  const explanation = explainAgentRoute({
+    cfg,
+    channel,
+    accountId: opts.account,
+    peer,
+    parentPeer,
+    guildId: opts.guild,
+    teamId: opts.team,
+    memberRoleIds: opts.role,
+    text: opts.text,
+    language: opts.language,
+    nowMs,
+  });
+
+  if (opts.json) {
+    runtime.log(JSON.stringify(opts.explain ? explanation : explanation.route, null, 2));
+    return;
+  }
+
+  const { route } = explanation;
+  const lines = [
+    `Agent: ${route.agentId}`,
+    `Matched by: ${route.matchedBy}`,
+    `Session: ${route.sessionKey}`,
+  ];
+  if (opts.explain) {
+    lines.push(`Time: ${new Date(nowMs).toISOString()}`);
+    lines.push(`Language: ${explanation.language ?? "unknown"}`);
+    lines.push("", "Bindings (tiers are tried in order; conditional bindings first):");
+    if (explanation.bindings.length === 0) {
+      lines.push("  (none)");
+    }
+    for (const entry of explanation.bindings) {
+      const marker = entry.status === "selected" ? "=>" : entry.status === "matched" ? " +" : " -";
+      const outcome =
+        entry.status === "selected"
+          ? "selected"
+          : entry.status === "matched"
+            ? "matched, outranked"
+            : `skipped: ${entry.reason}`;
+      lines.push(
+        `${marker} #${entry.index} ${entry.agentId} [${entry.tier}] ${describeBinding(entry.binding)} (${outcome})`,
+      );
+    }
+  }
+  runtime.log(lines.join("\n"));
+}
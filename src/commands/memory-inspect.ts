@@ -0,0 +1,427 @@
+/**
+ * Memory index inspection CLI commands.
+ * OPENCLAWMU ADDITION: look inside the builtin memory index when search results are wrong.
+ *
+ * Commands:
+ *   openclaw memory inspect files [--source <source>]
+ *   openclaw memory inspect chunks <path> [--source <source>] [--full]
+ *   openclaw memory inspect query <query> [--max-results <n>] [--min-score <n>]
+ *   openclaw memory inspect stale [--source <source>]
+ *   openclaw memory inspect vacuum [--source <source>]
+ *   openclaw memory inspect rebuild --source <source>
+ *
+ * All commands take `--agent <id>` (default: the default agent) and `--json`.
+ */
+
+import type { RuntimeEnv } from "../runtime.js";
+import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { loadConfig } from "../config/config.js";
+import {
+  getMemorySearchManager,
+  type MemoryIndexFingerprint,
+  type MemoryIndexProblem,
+  type MemorySearchManager,
+} from "../memory/index.js";
+import {
+  resolveMemoryFtsState,
+  resolveMemoryVectorState,
+  type Tone,
+} from "../memory/status-format.js";
+import { colorize, isRich, theme } from "../terminal/theme.js";
+import { truncateUtf16Safe } from "../utils.js";
+
+// --- Types ---
+
+type MemoryInspectOptions = {
+  agent?: string;
+  source?: string;
+  json?: boolean;
+};
+
+type MemoryInspectChunksOptions = MemoryInspectOptions & {
+  full?: boolean;
+};
+
+type MemoryInspectQueryOptions = MemoryInspectOptions & {
+  maxResults?: number;
+  minScore?: number;
+};
+
+type InspectSource = "memory" | "sessions";
+
+/** Characters of chunk text shown without `--full`. */
+const CHUNK_PREVIEW_CHARS = 160;
+
+/** Problems listed per kind before the rest is summarized. */
+const MAX_LISTED_PROBLEMS = 20;
+
+const PROBLEM_LABELS: Record<MemoryIndexProblem["kind"], string> = {
+  "missing-file": "Indexed files no longer on disk",
+  "changed-file": "Files changed since indexing",
+  "unindexed-file": "Files not indexed yet",
+  "orphaned-chunk": "Chunks without a file",
+  "stale-model": "Chunks embedded with another model",
+  "orphaned-fts-row": "FTS rows without a chunk",
+  "orphaned-vector-row": "Vector rows without a chunk",
+};
+
+// --- Helpers ---
+
+function palette() {
+  const rich = isRich();
+  const muted = (text: string) => colorize(rich, theme.muted, text);
+  return {
+    heading: (text: string) => colorize(rich, theme.heading, text),
+    muted,
+    info: (text: string) => colorize(rich, theme.info, text),
+    success: (text: string) => colorize(rich, theme.success, text),
+    warn: (text: string) => colorize(rich, theme.warn, text),
+    accent: (text: string) => colorize(rich, theme.accent, text),
+    label: (text: string) => muted(`${text}:`),
+    tone: (tone: Tone, text: string) =>
+      colorize(
+        rich,
+        tone === "ok" ? theme.success : tone === "warn" ? theme.warn : theme.muted,
+        text,
+      ),
+  };
+}
+
+function resolveSource(
+  raw: string | undefined,
+  runtime: RuntimeEnv,
+): { ok: true; source?: InspectSource } | { ok: false } {
+  const source = raw?.trim();
+  if (!source) {
+    return { ok: true };
+  }
+  if (source !== "memory" && source !== "sessions") {
+    runtime.error(`Unknown memory source: ${source} (expected memory or sessions)`);
+    runtime.exit(1);
+    return { ok: false };
+  }
+  return { ok: true, source };
+}
+
+/**
+ * Opens the agent's memory manager for the duration of `run`. Inspection needs the
+ * builtin backend; QMD keeps its own index.
+ */
+async function withInspectManager(
+  opts: MemoryInspectOptions,
+  runtime: RuntimeEnv,
+  run: (manager: MemorySearchManager, agentId: string) => Promise<void>,
+): Promise<void> {
+  const cfg = loadConfig();
+  const agentId = opts.agent?.trim() || resolveDefaultAgentId(cfg);
+  const { manager, error } = await getMemorySearchManager({ cfg, agentId });
+  if (!manager) {
+    runtime.error(error ?? "Memory search disabled.");
+    runtime.exit(1);
+    return;
+  }
+  try {
+    if (!manager.inspectFiles) {
+      runtime.error("Memory inspection needs the builtin memory backend.");
+      runtime.exit(1);
+      return;
+    }
+    // Loads sqlite-vec so vector rows can be read
+    await manager.probeVectorAvailability();
+    await run(manager, agentId);
+  } finally {
+    await manager.close?.();
+  }
+}
+
+function formatFingerprint(fingerprint: MemoryIndexFingerprint): string {
+  const key = fingerprint.providerKey ? ` key ${fingerprint.providerKey.slice(0, 12)}` : "";
+  const dims = fingerprint.vectorDims ? ` · ${fingerprint.vectorDims} dims` : "";
+  return (
+    `${fingerprint.provider}/${fingerprint.model}${key}` +
+    ` · chunks ${fingerprint.chunkTokens}/${fingerprint.chunkOverlap}${dims}`
+  );
+}
+
+function formatScore(score: number | undefined): string {
+  return score === undefined ? "-" : score.toFixed(3);
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function describeProblem(problem: MemoryIndexProblem): string {
+  switch (problem.kind) {
+    case "missing-file":
+      return `${problem.path} (${problem.chunks} chunks)`;
+    case "stale-model":
+      return `${problem.path} ${problem.id.slice(0, 12)} (${problem.model})`;
+    case "orphaned-chunk":
+      return `${problem.path} ${problem.id.slice(0, 12)}`;
+    case "orphaned-fts-row":
+    case "orphaned-vector-row":
+      return problem.id;
+    default:
+      return problem.path;
+  }
+}
+
+function logProblems(problems: MemoryIndexProblem[], runtime: RuntimeEnv) {
+  const c = palette();
+  for (const kind of Object.keys(PROBLEM_LABELS) as Array<MemoryIndexProblem["kind"]>) {
+    const matching = problems.filter((problem) => problem.kind === kind);
+    if (matching.length === 0) {
+      continue;
+    }
+    runtime.log(`${c.label(PROBLEM_LABELS[kind])} ${c.warn(String(matching.length))}`);
+    for (const problem of matching.slice(0, MAX_LISTED_PROBLEMS)) {
+      runtime.log(`  ${describeProblem(problem)}`);
+    }
+    if (matching.length > MAX_LISTED_PROBLEMS) {
+      runtime.log(c.muted(`  ... ${matching.length - MAX_LISTED_PROBLEMS} more`));
+    }
+  }
+}
+
+// --- Commands ---
+
+export async function memoryInspectFilesCommand(
+  opts: MemoryInspectOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const resolved = resolveSource(opts.source, runtime);
+  if (!resolved.ok) {
+    return;
+  }
+  await withInspectManager(opts, runtime, async (manager, agentId) => {
+    if (!manager.inspectFiles || !manager.inspectFingerprint) {
+      return;
+    }
+    const files = manager.inspectFiles({ source: resolved.source });
+    const fingerprint = manager.inspectFingerprint();
+    const status = manager.status();
+    if (opts.json) {
+      runtime.log(JSON.stringify({ agentId, fingerprint, files }, null, 2));
+      return;
+    }
+    const c = palette();
+    const lines = [
+      `${c.heading("Memory Index")} ${c.muted(`(${agentId})`)}`,
+      `${c.label("Embeddings")} ${c.info(formatFingerprint(fingerprint.current))}`,
+    ];
+    if (!fingerprint.indexed) {
+      lines.push(`${c.label("Indexed with")} ${c.warn("never indexed")}`);
+    } else if (formatFingerprint(fingerprint.indexed) !== formatFingerprint(fingerprint.current)) {
+      lines.push(
+        `${c.label("Indexed with")} ${c.warn(formatFingerprint(fingerprint.indexed))} ` +
+          c.muted("(next sync reindexes everything)"),
+      );
+    }
+    if (status.vector) {
+      const vector = resolveMemoryVectorState(status.vector);
+      lines.push(`${c.label("Vector")} ${c.tone(vector.tone, vector.state)}`);
+    }
+    if (status.fts) {
+      const fts = resolveMemoryFtsState(status.fts);
+      lines.push(`${c.label("FTS")} ${c.tone(fts.tone, fts.state)}`);
+    }
+    runtime.log(lines.join("\n"));
+    runtime.log("");
+    if (files.length === 0) {
+      runtime.log("No indexed files.");
+      return;
+    }
+    for (const file of files) {
+      const stale = file.models.some((model) => model !== fingerprint.current.model);
+      const models = file.models.length ? file.models.join(", ") : "no chunks";
+      runtime.log(
+        `${c.accent(file.path)} ${c.muted(`[${file.source}]`)} ${file.chunks} chunks · ` +
+          `${formatBytes(file.size)} · ${stale ? c.warn(models) : c.muted(models)} · ` +
+          c.muted(file.hash.slice(0, 12)),
+      );
+    }
+    const chunks = files.reduce((sum, file) => sum + file.chunks, 0);
+    runtime.log(`\n${files.length} files, ${chunks} chunks`);
+  });
+}
+
+export async function memoryInspectChunksCommand(
+  relPath: string,
+  opts: MemoryInspectChunksOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const resolved = resolveSource(opts.source, runtime);
+  if (!resolved.ok) {
+    return;
+  }
+  await withInspectManager(opts, runtime, async (manager) => {
+    if (!manager.inspectChunks) {
+      return;
+    }
+    const chunks = manager.inspectChunks(relPath, { source: resolved.source });
+    if (opts.json) {
+      runtime.log(JSON.stringify({ path: relPath, chunks }, null, 2));
+      return;
+    }
+    if (chunks.length === 0) {
+      runtime.error(`No indexed chunks for ${relPath}`);
+      runtime.exit(1);
+      return;
+    }
+    const c = palette();
+    for (const chunk of chunks) {
+      const flags = [
+        chunk.inFts ? "fts" : null,
+        chunk.inVector === true ? "vector" : chunk.inVector === false ? "no vector row" : null,
+      ].filter(Boolean);
+      runtime.log(
+        `${c.accent(`${chunk.path}:${chunk.startLine}-${chunk.endLine}`)} ` +
+          `${c.muted(chunk.id.slice(0, 12))} ${chunk.model} · ${chunk.dims} dims` +
+          (flags.length ? ` · ${flags.join(", ")}` : ""),
+      );
+      const text = opts.full ? chunk.text : truncateUtf16Safe(chunk.text, CHUNK_PREVIEW_CHARS);
+      runtime.log(c.muted(text.replace(/\s+/g, " ").trim()));
+      runtime.log("");
+    }
+    runtime.log(`${chunks.length} chunks`);
+  });
+}
+
+export async function memoryInspectQueryCommand(
+  query: string,
+  opts: MemoryInspectQueryOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  await withInspectManager(opts, runtime, async (manager) => {
+    if (!manager.explainSearch) {
+      return;
+    }
+    const explanation = await manager.explainSearch(query, {
+      maxResults: opts.maxResults,
+      minScore: opts.minScore,
+    });
+    if (opts.json) {
+      runtime.log(JSON.stringify(explanation, null, 2));
+      return;
+    }
+    const c = palette();
+    const { hybrid } = explanation;
+    runtime.log(
+      `${c.label("Query")} ${c.info(explanation.query)} ${c.muted(
+        `(model ${explanation.model}, ${explanation.candidates} candidates per stage, ` +
+          `min score ${explanation.minScore}` +
+          (hybrid.enabled
+            ? `, vector ${hybrid.vectorWeight} / text ${hybrid.textWeight})`
+            : ", hybrid off)"),
+      )}`,
+    );
+    for (const [stage, message] of Object.entries(explanation.errors)) {
+      runtime.log(`${c.label(`${stage} search failed`)} ${c.warn(message)}`);
+    }
+    runtime.log("");
+    if (explanation.chunks.length === 0) {
+      runtime.log("No candidates.");
+      return;
+    }
+    runtime.log(c.muted("rank   vector  text    merged  final   chunk"));
+    for (const chunk of explanation.chunks) {
+      const rank = chunk.rank ? `#${chunk.rank}` : chunk.belowMinScore ? "<min" : "-";
+      const scores = [chunk.vectorScore, chunk.textScore, chunk.mergedScore, chunk.finalScore]
+        .map((score) => formatScore(score).padEnd(7))
+        .join(" ");
+      const location = `${chunk.path}:${chunk.startLine}-${chunk.endLine}`;
+      runtime.log(
+        `${(chunk.rank ? c.success : c.muted)(rank.padEnd(6))} ${scores} ${c.accent(location)}`,
+      );
+    }
+  });
+}
+
+export async function memoryInspectStaleCommand(
+  opts: MemoryInspectOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const resolved = resolveSource(opts.source, runtime);
+  if (!resolved.ok) {
+    return;
+  }
+  await withInspectManager(opts, runtime, async (manager) => {
+    if (!manager.findIndexProblems) {
+      return;
+    }
+    const problems = await manager.findIndexProblems({ source: resolved.source });
+    if (opts.json) {
+      runtime.log(JSON.stringify({ problems }, null, 2));
+      return;
+    }
+    if (problems.length === 0) {
+      runtime.log("Memory index matches the files on disk.");
+      return;
+    }
+    logProblems(problems, runtime);
+    runtime.log(
+      "\nRun `openclaw memory inspect vacuum` to drop orphaned rows; " +
+        "`openclaw memory index` picks up changed and new files.",
+    );
+  });
+}
+
+export async function memoryInspectVacuumCommand(
+  opts: MemoryInspectOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const resolved = resolveSource(opts.source, runtime);
+  if (!resolved.ok) {
+    return;
+  }
+  await withInspectManager(opts, runtime, async (manager) => {
+    if (!manager.vacuum) {
+      return;
+    }
+    const result = await manager.vacuum({ source: resolved.source });
+    if (opts.json) {
+      runtime.log(JSON.stringify(result, null, 2));
+      return;
+    }
+    const removed = Object.entries(result.removed).filter(([, count]) => count > 0);
+    if (removed.length === 0) {
+      runtime.log("Nothing to remove.");
+    }
+    for (const [kind, count] of removed) {
+      runtime.log(`Removed ${count}: ${PROBLEM_LABELS[kind as MemoryIndexProblem["kind"]]}`);
+    }
+    runtime.log(`Database ${formatBytes(result.bytesBefore)} -> ${formatBytes(result.bytesAfter)}`);
+  });
+}
+
+export async function memoryInspectRebuildCommand(
+  opts: MemoryInspectOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const resolved = resolveSource(opts.source, runtime);
+  if (!resolved.ok) {
+    return;
+  }
+  const source = resolved.source;
+  if (!source) {
+    runtime.error("Please specify --source <memory|sessions>");
+    runtime.exit(1);
+    return;
+  }
+  await withInspectManager(opts, runtime, async (manager, agentId) => {
+    if (!manager.rebuildSource) {
+      return;
+    }
+    const result = await manager.rebuildSource(source);
+    if (opts.json) {
+      runtime.log(JSON.stringify({ agentId, source, ...result }, null, 2));
+      return;
+    }
+    runtime.log(
+      `Rebuilt ${source} for ${agentId}: dropped ${result.cleared} files, indexed ${result.indexed}.`,
+    );
+  });
+}
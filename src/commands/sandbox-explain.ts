@@ -5,6 +5,9 @@ import {
   resolveSandboxConfigForAgent,
   resolveSandboxToolPolicyForAgent,
 } from "../agents/sandbox.js";
+import { resolveLandlockRules } from "../agents/sandbox/landlock.js";
+import { describeSeccompProfile } from "../agents/sandbox/seccomp.js";
+import { DEFAULT_BWRAP_CONFIG } from "../agents/sandbox/types.bwrap.js";
 import { normalizeAnyChannelId } from "../channels/registry.js";
 import { loadConfig } from "../config/config.js";
 import {
@@ -20,6 +23,8 @@ import {
   parseAgentSessionKey,
   resolveAgentIdFromSessionKey,
 } from "../routing/session-key.js";
+import { getTenant } from "../tenants/registry.js";
+import { resolveTenantSandboxSecurity } from "../tenants/sandbox-security.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { colorize, isRich, theme } from "../terminal/theme.js";
 import { INTERNAL_MESSAGE_CHANNEL } from "../utils/message-channel.js";
@@ -27,6 +32,8 @@ import { INTERNAL_MESSAGE_CHANNEL } from "../utils/message-channel.js";
 type SandboxExplainOptions = {
   session?: string;
   agent?: string;
+  /** OPENCLAWMU ADDITION: also explain the tenant's bwrap seccomp/Landlock/egress restrictions. */
+  tenant?: string;
   json: boolean;
 };
 
@@ -126,6 +133,33 @@ function resolveActiveChannel(params: {
   });
 }
 
+// OPENCLAWMU ADDITION: syscall filter, Landlock rules and egress policy of a tenant's bwrap sandboxes.
+function explainTenantBwrapSecurity(cfg: OpenClawConfig, tenantId: string) {
+  const tenant = getTenant(tenantId);
+  if (!tenant) {
+    throw new Error(`Tenant not found: "${tenantId}"`);
+  }
+  const security = resolveTenantSandboxSecurity(cfg, tenant);
+  return {
+    tenantId,
+    seccomp: { ...describeSeccompProfile(security.seccompProfile), source: security.source },
+    landlock: security.landlock
+      ? {
+          binary: security.landlock.binary,
+          bestEffort: security.landlock.bestEffort,
+          ...resolveLandlockRules(DEFAULT_BWRAP_CONFIG, security.landlock, {
+            tenantStateMounted: true,
+          }),
+        }
+      : null,
+    egress: {
+      mode: security.egress.mode,
+      allow: security.egress.mode === "proxy" ? security.egress.allow : [],
+      logRequests: security.egress.logRequests,
+    },
+  };
+}
+
 export async function sandboxExplainCommand(
   opts: SandboxExplainOptions,
   runtime: RuntimeEnv,
@@ -228,6 +262,12 @@ export async function sandboxExplainCommand(
   if (channel) {
     fixIt.push(`tools.elevated.allowFrom.${channel}`);
   }
+  const bwrap = opts.tenant ? explainTenantBwrapSecurity(cfg, opts.tenant) : undefined;
+  if (bwrap) {
+    fixIt.push("gateway.sandbox.seccompProfile");
+    fixIt.push("gateway.sandbox.landlock");
+    fixIt.push("gateway.sandbox.egress");
+  }
 
   const payload = {
     docsUrl: SANDBOX_DOCS_URL,
@@ -258,6 +298,7 @@ export async function sandboxExplainCommand(
       },
       failures: elevatedFailures,
     },
+    bwrap,
     fixIt,
   } as const;
 
@@ -317,6 +358,55 @@ export async function sandboxExplainCommand(
       )}`,
     );
   }
+  if (payload.bwrap) {
+    const { seccomp, landlock, egress } = payload.bwrap;
+    lines.push("");
+    lines.push(heading(`Bwrap restrictions (tenant ${payload.bwrap.tenantId}):`));
+    lines.push(
+      `  ${key("seccomp:")} ${seccomp.active ? ok(seccomp.profile) : warn(seccomp.profile)} ${key(
+        `(${seccomp.source})`,
+      )} ${value(seccomp.description)}`,
+    );
+    if (seccomp.active) {
+      lines.push(
+        `  ${key(`denied (${seccomp.denied.length}):`)} ${value(seccomp.denied.join(", "))}`,
+      );
+      lines.push(
+        `  ${key("namespace creation:")} ${seccomp.denyNamespaceCreation ? ok("blocked") : warn("allowed")}`,
+      );
+    }
+    if (landlock) {
+      lines.push(
+        `  ${key("landlock:")} ${value(landlock.binary)} ${key("bestEffort:")} ${bool(
+          landlock.bestEffort,
+        )}`,
+      );
+      lines.push(`  ${key("read+exec:")} ${value(landlock.readExec.join(", "))}`);
+      lines.push(`  ${key("read:")} ${value(landlock.readOnly.join(", "))}`);
+      lines.push(`  ${key("read+write:")} ${value(landlock.readWrite.join(", "))}`);
+    } else {
+      lines.push(`  ${key("landlock:")} ${warn("off")}`);
+    }
+    const egressMode =
+      egress.mode === "open"
+        ? warn(egress.mode)
+        : egress.mode === "proxy"
+          ? value(egress.mode)
+          : ok(egress.mode);
+    lines.push(
+      `  ${key("egress:")} ${egressMode}${
+        egress.mode === "proxy" ? ` ${key("logRequests:")} ${bool(egress.logRequests)}` : ""
+      }`,
+    );
+    if (egress.mode === "proxy") {
+      const rules = egress.allow.map(
+        (rule) => `${rule.host ?? rule.cidr}:${(rule.ports ?? []).join(",")}`,
+      );
+      lines.push(
+        `  ${key(`allow (${rules.length}):`)} ${rules.length > 0 ? value(rules.join(", ")) : warn("nothing (deny all)")}`,
+      );
+    }
+  }
   if (payload.sandbox.mode === "non-main" && payload.sandbox.sessionIsSandboxed) {
     lines.push("");
     lines.push(
@@ -0,0 +1,224 @@
+/**
+ * Workspace snapshot CLI commands.
+ * OPENCLAWMU ADDITION: operator access to tenant workspace restore points.
+ *
+ * Commands:
+ *   openclaw sandbox snapshots list --tenant <id>
+ *   openclaw sandbox snapshots create --tenant <id> [--label <text>] [--exclude <globs>]
+ *   openclaw sandbox snapshots diff <snapshotId> --tenant <id> [--against <snapshotId>]
+ *   openclaw sandbox snapshots restore <snapshotId> --tenant <id> [--path <path>...] [--force]
+ *   openclaw sandbox snapshots delete <snapshotId> --tenant <id>
+ */
+
+import { confirm as clackConfirm } from "@clack/prompts";
+import type { RuntimeEnv } from "../runtime.js";
+import {
+  createTenantWorkspaceSnapshot,
+  deleteTenantWorkspaceSnapshot,
+  diffTenantWorkspaceSnapshot,
+  getTenant,
+  listTenantWorkspaceSnapshots,
+  restoreTenantWorkspaceSnapshot,
+  type WorkspaceSnapshotDiff,
+} from "../tenants/index.js";
+import { formatQuotaMB } from "../tenants/workspace-quota.js";
+
+// --- Types ---
+
+type SnapshotTenantOptions = {
+  tenant?: string;
+  json?: boolean;
+};
+
+type SnapshotCreateOptions = SnapshotTenantOptions & {
+  label?: string;
+  exclude?: string;
+};
+
+type SnapshotDiffOptions = SnapshotTenantOptions & {
+  against?: string;
+};
+
+type SnapshotRestoreOptions = SnapshotTenantOptions & {
+  path?: string[];
+  keepCurrent?: boolean;
+  force?: boolean;
+};
+
+/** Paths printed per section before the rest is summarized. */
+const MAX_LISTED_PATHS = 50;
+
+// --- Helpers ---
+
+function resolveTenant(opts: SnapshotTenantOptions, runtime: RuntimeEnv): string | null {
+  const tenantId = opts.tenant?.trim();
+  if (!tenantId) {
+    runtime.error("Please specify --tenant <id>");
+    runtime.exit(1);
+    return null;
+  }
+  if (!getTenant(tenantId)) {
+    runtime.error(`Tenant not found: ${tenantId}`);
+    runtime.exit(1);
+    return null;
+  }
+  return tenantId;
+}
+
+function logPaths(runtime: RuntimeEnv, marker: string, paths: string[]) {
+  for (const rel of paths.slice(0, MAX_LISTED_PATHS)) {
+    runtime.log(`  ${marker} ${rel}`);
+  }
+  if (paths.length > MAX_LISTED_PATHS) {
+    runtime.log(`  ${marker} ... ${paths.length - MAX_LISTED_PATHS} more`);
+  }
+}
+
+function displayDiff(diff: WorkspaceSnapshotDiff, runtime: RuntimeEnv) {
+  logPaths(runtime, "+", diff.added);
+  logPaths(runtime, "~", diff.modified);
+  logPaths(runtime, "-", diff.removed);
+  runtime.log(
+    `\n${diff.added.length} added, ${diff.modified.length} modified, ${diff.removed.length} removed, ${diff.unchanged} unchanged`,
+  );
+}
+
+// --- Commands ---
+
+export async function sandboxSnapshotsListCommand(
+  opts: SnapshotTenantOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const tenantId = resolveTenant(opts, runtime);
+  if (!tenantId) {
+    return;
+  }
+  const snapshots = await listTenantWorkspaceSnapshots(tenantId);
+  if (opts.json) {
+    runtime.log(JSON.stringify(snapshots, null, 2));
+    return;
+  }
+  if (snapshots.length === 0) {
+    runtime.log(`No workspace snapshots for tenant: ${tenantId}`);
+    return;
+  }
+  runtime.log(`Workspace snapshots for tenant ${tenantId}:\n`);
+  for (const snapshot of snapshots) {
+    const label = snapshot.label ? ` ${snapshot.label}` : "";
+    runtime.log(`  - ${snapshot.id} [${snapshot.reason}]${label}`);
+    const source = snapshot.sessionKey ? `, ${snapshot.sessionKey}` : "";
+    runtime.log(
+      `    ${new Date(snapshot.createdAt).toISOString()}, ${snapshot.files} files, ${formatQuotaMB(snapshot.bytes)}${source}`,
+    );
+  }
+}
+
+export async function sandboxSnapshotsCreateCommand(
+  opts: SnapshotCreateOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const tenantId = resolveTenant(opts, runtime);
+  if (!tenantId) {
+    return;
+  }
+  const snapshot = await createTenantWorkspaceSnapshot({
+    tenantId,
+    reason: "manual",
+    label: opts.label,
+    exclude: opts.exclude
+      ?.split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+  });
+  if (opts.json) {
+    runtime.log(JSON.stringify(snapshot, null, 2));
+    return;
+  }
+  runtime.log(
+    `Snapshot ${snapshot.id} created for tenant ${tenantId} (${snapshot.files} files, ${formatQuotaMB(snapshot.bytes)})`,
+  );
+}
+
+export async function sandboxSnapshotsDiffCommand(
+  id: string,
+  opts: SnapshotDiffOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const tenantId = resolveTenant(opts, runtime);
+  if (!tenantId) {
+    return;
+  }
+  const diff = await diffTenantWorkspaceSnapshot({ tenantId, id, against: opts.against });
+  if (opts.json) {
+    runtime.log(JSON.stringify(diff, null, 2));
+    return;
+  }
+  runtime.log(`Changes from ${id} to ${opts.against ?? "the current workspace"}:\n`);
+  displayDiff(diff, runtime);
+}
+
+export async function sandboxSnapshotsRestoreCommand(
+  id: string,
+  opts: SnapshotRestoreOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const tenantId = resolveTenant(opts, runtime);
+  if (!tenantId) {
+    return;
+  }
+  if (!opts.force && !opts.json) {
+    const diff = await diffTenantWorkspaceSnapshot({ tenantId, id });
+    const scope = opts.path?.map((entry) => entry.replace(/\/+$/, ""));
+    const inScope = (rel: string) =>
+      !scope?.length || scope.some((entry) => rel === entry || rel.startsWith(`${entry}/`));
+    runtime.log(`Restoring ${id} undoes these workspace changes:\n`);
+    displayDiff(
+      {
+        added: diff.added.filter(inScope),
+        modified: diff.modified.filter(inScope),
+        removed: diff.removed.filter(inScope),
+        unchanged: diff.unchanged,
+      },
+      runtime,
+    );
+    const result = await clackConfirm({
+      message: opts.path?.length
+        ? `Restore ${opts.path.join(", ")} from this snapshot?`
+        : "Restore the whole workspace from this snapshot?",
+      initialValue: false,
+    });
+    if (result === false || result === Symbol.for("clack:cancel")) {
+      runtime.log("Cancelled.");
+      return;
+    }
+  }
+  const result = await restoreTenantWorkspaceSnapshot({
+    tenantId,
+    id,
+    paths: opts.path,
+    keepCurrent: opts.keepCurrent !== false,
+  });
+  if (opts.json) {
+    runtime.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  runtime.log(
+    `Restored ${id}: ${result.restored.length} files written, ${result.removed.length} removed, ${result.unchanged} unchanged`,
+  );
+  if (result.previousId) {
+    runtime.log(`Previous state kept as snapshot ${result.previousId}`);
+  }
+}
+
+export async function sandboxSnapshotsDeleteCommand(
+  id: string,
+  opts: SnapshotTenantOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const tenantId = resolveTenant(opts, runtime);
+  if (!tenantId) {
+    return;
+  }
+  await deleteTenantWorkspaceSnapshot({ tenantId, id });
+  runtime.log(`Deleted snapshot ${id}`);
+}
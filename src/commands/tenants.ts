@@ -8,11 +8,24 @@
  *   openclaw tenants remove <tenantId>   - Remove a tenant
  *   openclaw tenants token <tenantId>    - Rotate tenant token
  *   openclaw tenants info <tenantId>     - Get tenant information
+ *   openclaw tenants migrate <backend>   - Move the registry to another backend (json|sqlite)
+ *   openclaw tenants keys create <tenantId> --name <name> [--scope ...] [--expires-in 30d]
+ *   openclaw tenants keys list <tenantId>
+ *   openclaw tenants keys revoke <tenantId> <keyId> [--grace 1h]
+ *   openclaw tenants backup <tenantId> (--target <name> | --bucket <bucket>) [--incremental]
+ *   openclaw tenants backups <tenantId> (--target <name> | --bucket <bucket>)
+ *   openclaw tenants restore <tenantId> --key <key> (--target <name> | --bucket <bucket>) [--dry-run]
+ *   openclaw tenants export <tenantId> [--output <file>] [--include-credentials]
+ *   openclaw tenants import <file> [--rename <tenantId>]
  */
 
 import type { RuntimeEnv } from "../runtime.js";
+import { parseDurationMs } from "../cli/parse-duration.js";
+import { loadConfig } from "../config/config.js";
 import { defaultRuntime } from "../runtime.js";
 import {
+  TENANT_REGISTRY_BACKENDS,
+  type TenantRegistryBackend,
   createTenant,
   removeTenant,
   rotateTenantToken,
@@ -20,6 +33,23 @@ import {
   getTenant,
   isValidTenantId,
   resolveTenantStateDir,
+  detectTenantRegistryBackend,
+  migrateTenantRegistry,
+  createTenantKey,
+  listTenantKeys,
+  revokeTenantKey,
+  normalizeTenantKeyScopes,
+  TENANT_KEY_SCOPES,
+  resolveTenantLifecycleState,
+  backupTenant,
+  restoreTenant,
+  listTenantBackups,
+  resolveBackupEncryptionKey,
+  resolveBackupTargetFromParams,
+  type BackupTarget,
+  exportTenant,
+  importTenant,
+  TENANT_EXPORT_PASSPHRASE_ENV,
 } from "../tenants/index.js";
 import { shortenHomePath } from "../utils.js";
 
@@ -38,6 +68,8 @@ export type TenantsRemoveOptions = {
 };
 
 export type TenantsTokenOptions = {
+  /** Keep the previous token valid for this duration (e.g. "1h"). */
+  grace?: string;
   json?: boolean;
 };
 
@@ -45,6 +77,67 @@ export type TenantsInfoOptions = {
   json?: boolean;
 };
 
+export type TenantsMigrateOptions = {
+  json?: boolean;
+};
+
+export type TenantsKeysCreateOptions = {
+  name: string;
+  scope?: string[];
+  /** Expiry duration from now (e.g. "30d"). */
+  expiresIn?: string;
+  json?: boolean;
+};
+
+export type TenantsKeysListOptions = {
+  json?: boolean;
+};
+
+export type TenantsKeysRevokeOptions = {
+  /** Keep the key valid for this duration before it stops working (e.g. "1h"). */
+  grace?: string;
+  json?: boolean;
+};
+
+export type TenantsBackupTargetOptions = {
+  /** Name of a target in gateway.backup.targets. */
+  target?: string;
+  bucket?: string;
+  endpoint?: string;
+  region?: string;
+  prefix?: string;
+  json?: boolean;
+};
+
+export type TenantsBackupOptions = TenantsBackupTargetOptions & {
+  incremental?: boolean;
+};
+
+export type TenantsRestoreOptions = TenantsBackupTargetOptions & {
+  key: string;
+  /** Verify the backup and list what would change without restoring. */
+  dryRun?: boolean;
+  createIfMissing?: boolean;
+};
+
+export type TenantsExportOptions = {
+  /** Archive path (default: ./{tenantId}-export.tar.gz). */
+  output?: string;
+  /** Include channel credentials, re-encrypted with the passphrase. */
+  includeCredentials?: boolean;
+  /** Falls back to OPENCLAW_TENANT_EXPORT_PASSPHRASE. */
+  passphrase?: string;
+  json?: boolean;
+};
+
+export type TenantsImportOptions = {
+  /** Import under this tenant ID instead of the exported one. */
+  rename?: string;
+  /** Falls back to OPENCLAW_TENANT_EXPORT_PASSPHRASE. */
+  passphrase?: string;
+  json?: boolean;
+};
+
 /**
  * Creates a new tenant with a generated authentication token.
  */
@@ -66,7 +159,7 @@ export async function tenantsCreateCommand(
   }
 
   try {
-    const result = createTenant(tenantId, { displayName: opts.displayName });
+    const result = await createTenant(tenantId, { displayName: opts.displayName });
 
     if (opts.json) {
       runtime.log(
@@ -134,6 +227,8 @@ export async function tenantsListCommand(
       createdAt: entry?.createdAt,
       lastSeenAt: entry?.lastSeenAt,
       disabled: entry?.disabled,
+      state: entry ? resolveTenantLifecycleState(entry) : undefined,
+      purgeAfter: entry?.purgeAfter,
       stateDir: resolveTenantStateDir(id),
     };
   });
@@ -145,7 +240,7 @@ export async function tenantsListCommand(
 
   runtime.log("Tenants:\n");
   for (const tenant of tenants) {
-    const status = tenant.disabled ? " (disabled)" : "";
+    const status = tenant.state && tenant.state !== "active" ? ` (${tenant.state})` : "";
     const name = tenant.displayName ? ` (${tenant.displayName})` : "";
     runtime.log(`  - ${tenant.tenantId}${name}${status}`);
     runtime.log(`    Created: ${tenant.createdAt ?? "unknown"}`);
@@ -183,7 +278,7 @@ export async function tenantsRemoveCommand(
   }
 
   try {
-    removeTenant(tenantId, { deleteData: opts.deleteData });
+    await removeTenant(tenantId, { deleteData: opts.deleteData });
     runtime.log(`Tenant removed: ${tenantId}`);
     if (opts.deleteData) {
       runtime.log("All tenant data has been deleted.");
@@ -207,8 +302,16 @@ export async function tenantsTokenCommand(
     return;
   }
 
+  let graceMs: number | undefined;
+  try {
+    graceMs = opts.grace ? parseDurationMs(opts.grace, { defaultUnit: "s" }) : undefined;
+  } catch (err) {
+    runtime.error(err instanceof Error ? err.message : String(err));
+    return;
+  }
+
   try {
-    const result = rotateTenantToken(tenantId);
+    const result = await rotateTenantToken(tenantId, { graceMs });
 
     if (opts.json) {
       runtime.log(
@@ -216,6 +319,7 @@ export async function tenantsTokenCommand(
           {
             tenantId: result.tenantId,
             token: result.token,
+            previousTokenExpiresAt: result.previousTokenExpiresAt,
           },
           null,
           2,
@@ -229,7 +333,7 @@ export async function tenantsTokenCommand(
 New Token: ${result.token}
 
 IMPORTANT:
-  - The old token is now invalid
+  - ${result.previousTokenExpiresAt ? `The old token stays valid until ${result.previousTokenExpiresAt}` : "The old token is now invalid"}
   - Update all clients using this tenant's token
   - Save this token securely - it cannot be retrieved later`);
   } catch (err) {
@@ -258,6 +362,10 @@ export async function tenantsInfoCommand(
     createdAt: tenant.createdAt,
     lastSeenAt: tenant.lastSeenAt,
     disabled: tenant.disabled,
+    state: resolveTenantLifecycleState(tenant),
+    stateChangedAt: tenant.stateChangedAt,
+    stateReason: tenant.stateReason,
+    purgeAfter: tenant.purgeAfter,
     stateDir,
   };
 
@@ -274,8 +382,414 @@ export async function tenantsInfoCommand(
   if (tenant.lastSeenAt) {
     runtime.log(`Last Seen: ${tenant.lastSeenAt}`);
   }
-  if (tenant.disabled) {
-    runtime.log("Status: DISABLED");
+  if (info.state !== "active") {
+    const reason = tenant.stateReason ? ` (${tenant.stateReason})` : "";
+    runtime.log(`Status: ${info.state.toUpperCase()}${reason}`);
+  }
+  if (tenant.purgeAfter) {
+    runtime.log(`Purge After: ${tenant.purgeAfter}`);
   }
   runtime.log(`State Directory: ${shortenHomePath(stateDir)}`);
 }
+
+/**
+ * Migrates the tenant registry to another storage backend.
+ * The previous backing file is kept as `<file>.migrated-<timestamp>`.
+ */
+export async function tenantsMigrateCommand(
+  backend: string,
+  opts: TenantsMigrateOptions = {},
+  runtime: RuntimeEnv = defaultRuntime,
+): Promise<void> {
+  if (!TENANT_REGISTRY_BACKENDS.includes(backend as TenantRegistryBackend)) {
+    runtime.error(
+      `Unknown registry backend: "${backend}". Expected one of: ${TENANT_REGISTRY_BACKENDS.join(", ")}`,
+    );
+    return;
+  }
+
+  const current = detectTenantRegistryBackend();
+  if (current === backend) {
+    runtime.log(`Tenant registry already uses the ${backend} backend.`);
+    return;
+  }
+
+  try {
+    const result = await migrateTenantRegistry(backend as TenantRegistryBackend);
+
+    if (opts.json) {
+      runtime.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    runtime.log(`Tenant registry migrated: ${result.from} -> ${result.to}`);
+    runtime.log(`Tenants: ${result.tenantCount}`);
+    runtime.log(`Registry: ${shortenHomePath(result.targetPath)}`);
+    if (result.archivedPath) {
+      runtime.log(`Previous registry kept at: ${shortenHomePath(result.archivedPath)}`);
+    }
+    runtime.log("\nRestart the gateway so every process picks up the new backend.");
+  } catch (err) {
+    runtime.error(
+      `Failed to migrate registry: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
+/**
+ * Creates a named, scoped API key for a tenant.
+ */
+export async function tenantsKeysCreateCommand(
+  tenantId: string,
+  opts: TenantsKeysCreateOptions,
+  runtime: RuntimeEnv = defaultRuntime,
+): Promise<void> {
+  const scopes = opts.scope?.length ? normalizeTenantKeyScopes(opts.scope) : undefined;
+  if (scopes === null) {
+    runtime.error(`Invalid scope. Allowed: ${TENANT_KEY_SCOPES.join(", ")}`);
+    return;
+  }
+
+  let expiresAt: string | undefined;
+  try {
+    expiresAt = opts.expiresIn
+      ? new Date(Date.now() + parseDurationMs(opts.expiresIn, { defaultUnit: "d" })).toISOString()
+      : undefined;
+  } catch (err) {
+    runtime.error(err instanceof Error ? err.message : String(err));
+    return;
+  }
+
+  try {
+    const result = await createTenantKey(tenantId, { name: opts.name, scopes, expiresAt });
+
+    if (opts.json) {
+      runtime.log(JSON.stringify({ tenantId, key: result.key, token: result.token }, null, 2));
+      return;
+    }
+
+    runtime.log(`API key created for tenant: ${tenantId}
+
+Key ID:  ${result.key.keyId}
+Name:    ${result.key.name}
+Scopes:  ${result.key.scopes.join(", ")}
+Expires: ${result.key.expiresAt ?? "never"}
+Token:   ${result.token}
+
+IMPORTANT: Save this token securely. It cannot be retrieved later.`);
+  } catch (err) {
+    runtime.error(`Failed to create key: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Lists a tenant's API keys.
+ */
+export async function tenantsKeysListCommand(
+  tenantId: string,
+  opts: TenantsKeysListOptions = {},
+  runtime: RuntimeEnv = defaultRuntime,
+): Promise<void> {
+  let keys: ReturnType<typeof listTenantKeys>;
+  try {
+    keys = listTenantKeys(tenantId);
+  } catch (err) {
+    runtime.error(err instanceof Error ? err.message : String(err));
+    return;
+  }
+
+  if (opts.json) {
+    runtime.log(JSON.stringify(keys, null, 2));
+    return;
+  }
+
+  if (keys.length === 0) {
+    runtime.log(
+      `No API keys for tenant: ${tenantId}\n\nCreate one with: openclaw tenants keys create ${tenantId} --name <name>`,
+    );
+    return;
+  }
+
+  runtime.log(`API keys for tenant ${tenantId}:\n`);
+  for (const key of keys) {
+    runtime.log(`  - ${key.keyId} (${key.name}) [${key.status}]`);
+    runtime.log(`    Scopes: ${key.scopes.join(", ")}`);
+    runtime.log(`    Created: ${key.createdAt}`);
+    if (key.expiresAt) {
+      runtime.log(`    Expires: ${key.expiresAt}`);
+    }
+    if (key.lastUsedAt) {
+      runtime.log(`    Last used: ${key.lastUsedAt}`);
+    }
+    if (key.revokedAt) {
+      runtime.log(`    Revoked: ${key.revokedAt}`);
+    }
+    runtime.log("");
+  }
+}
+
+/**
+ * Revokes a tenant API key.
+ */
+export async function tenantsKeysRevokeCommand(
+  tenantId: string,
+  keyId: string,
+  opts: TenantsKeysRevokeOptions = {},
+  runtime: RuntimeEnv = defaultRuntime,
+): Promise<void> {
+  let graceMs: number | undefined;
+  try {
+    graceMs = opts.grace ? parseDurationMs(opts.grace, { defaultUnit: "s" }) : undefined;
+  } catch (err) {
+    runtime.error(err instanceof Error ? err.message : String(err));
+    return;
+  }
+
+  try {
+    const key = await revokeTenantKey(tenantId, keyId, { graceMs });
+
+    if (opts.json) {
+      runtime.log(JSON.stringify({ tenantId, key }, null, 2));
+      return;
+    }
+
+    if (key.status === "revoked") {
+      runtime.log(`Key revoked: ${key.keyId} (${key.name})`);
+    } else {
+      runtime.log(`Key ${key.keyId} (${key.name}) stays valid until ${key.expiresAt}`);
+    }
+  } catch (err) {
+    runtime.error(`Failed to revoke key: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+async function resolveBackupCommandTarget(
+  opts: TenantsBackupTargetOptions,
+  runtime: RuntimeEnv,
+): Promise<{ target: BackupTarget; encryptionKey?: Buffer } | null> {
+  try {
+    const cfg = loadConfig();
+    const target = resolveBackupTargetFromParams(opts, cfg);
+    if (!target) {
+      runtime.error("Pass --target <name> or --bucket <bucket>");
+      return null;
+    }
+    return { target, encryptionKey: await resolveBackupEncryptionKey({ cfg }) };
+  } catch (err) {
+    runtime.error(err instanceof Error ? err.message : String(err));
+    return null;
+  }
+}
+
+/**
+ * Backs up a tenant to a configured target or S3 bucket.
+ */
+export async function tenantsBackupCommand(
+  tenantId: string,
+  opts: TenantsBackupOptions,
+  runtime: RuntimeEnv = defaultRuntime,
+): Promise<void> {
+  const resolved = await resolveBackupCommandTarget(opts, runtime);
+  if (!resolved) {
+    return;
+  }
+
+  try {
+    const result = await backupTenant({
+      tenantId,
+      target: resolved.target,
+      incremental: opts.incremental,
+      encryptionKey: resolved.encryptionKey,
+    });
+
+    if (opts.json) {
+      runtime.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const kind = result.incremental ? "Incremental backup" : "Backup";
+    runtime.log(`${kind} created for tenant: ${tenantId}
+
+Key:       ${result.key}
+Size:      ${result.size} bytes
+Files:     ${result.files}
+Encrypted: ${result.encrypted ? "yes" : "no"}`);
+    if (result.parent) {
+      runtime.log(`Parent:    ${result.parent}`);
+    }
+  } catch (err) {
+    runtime.error(`Failed to back up tenant: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Lists a tenant's backups on a target.
+ */
+export async function tenantsBackupsListCommand(
+  tenantId: string,
+  opts: TenantsBackupTargetOptions,
+  runtime: RuntimeEnv = defaultRuntime,
+): Promise<void> {
+  const resolved = await resolveBackupCommandTarget(opts, runtime);
+  if (!resolved) {
+    return;
+  }
+
+  try {
+    const backups = await listTenantBackups({ tenantId, target: resolved.target });
+
+    if (opts.json) {
+      runtime.log(JSON.stringify(backups, null, 2));
+      return;
+    }
+
+    if (backups.length === 0) {
+      runtime.log(`No backups for tenant: ${tenantId}`);
+      return;
+    }
+
+    runtime.log(`Backups for tenant ${tenantId}:\n`);
+    for (const backup of backups) {
+      const flags = [
+        backup.incremental ? "incremental" : "full",
+        ...(backup.encrypted ? ["encrypted"] : []),
+      ];
+      runtime.log(`  - ${backup.key} [${flags.join(", ")}]`);
+      runtime.log(`    ${backup.timestamp}, ${backup.size} bytes`);
+    }
+  } catch (err) {
+    runtime.error(`Failed to list backups: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Restores a tenant from a backup. With --dry-run, verifies the backup and lists
+ * the files that would be added, modified or removed.
+ */
+export async function tenantsRestoreCommand(
+  tenantId: string,
+  opts: TenantsRestoreOptions,
+  runtime: RuntimeEnv = defaultRuntime,
+): Promise<void> {
+  const resolved = await resolveBackupCommandTarget(opts, runtime);
+  if (!resolved) {
+    return;
+  }
+
+  try {
+    const result = await restoreTenant({
+      tenantId,
+      target: resolved.target,
+      key: opts.key,
+      dryRun: opts.dryRun,
+      createIfMissing: opts.createIfMissing,
+      encryptionKey: resolved.encryptionKey,
+    });
+
+    if (opts.json) {
+      runtime.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const { added, modified, removed, unchanged } = result.changes;
+    runtime.log(
+      result.dryRun
+        ? `Dry run: restoring ${opts.key} into ${tenantId} would change:`
+        : `Tenant ${tenantId} restored from ${opts.key}:`,
+    );
+    for (const [label, files] of [
+      ["+", added],
+      ["~", modified],
+      ["-", removed],
+    ] as const) {
+      for (const file of files) {
+        runtime.log(`  ${label} ${file}`);
+      }
+    }
+    runtime.log(
+      `\n${added.length} added, ${modified.length} modified, ${removed.length} removed, ${unchanged} unchanged`,
+    );
+    if (result.chain.length > 1) {
+      runtime.log(`Backup chain: ${result.chain.join(" -> ")}`);
+    }
+    runtime.log(
+      result.verified
+        ? "All files verified against the backup manifest."
+        : "Legacy backup without manifest: files were not verified.",
+    );
+  } catch (err) {
+    runtime.error(`Failed to restore tenant: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Exports a tenant into a portable archive for another gateway.
+ */
+export async function tenantsExportCommand(
+  tenantId: string,
+  opts: TenantsExportOptions = {},
+  runtime: RuntimeEnv = defaultRuntime,
+): Promise<void> {
+  try {
+    const result = await exportTenant({
+      tenantId,
+      outputPath: opts.output ?? `${tenantId}-export.tar.gz`,
+      includeCredentials: opts.includeCredentials,
+      passphrase: opts.passphrase ?? process.env[TENANT_EXPORT_PASSPHRASE_ENV],
+    });
+
+    if (opts.json) {
+      runtime.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    runtime.log(`Tenant ${tenantId} exported.
+
+Archive:     ${shortenHomePath(result.path)}
+Size:        ${result.size} bytes
+Files:       ${result.files}
+Credentials: ${result.credentials === "encrypted" ? "included (passphrase-encrypted)" : "not included"}
+
+Tokens and API keys are not exported; the importing gateway issues a new token.`);
+  } catch (err) {
+    runtime.error(`Failed to export tenant: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Imports a tenant export archive, optionally under a new tenant ID.
+ */
+export async function tenantsImportCommand(
+  archivePath: string,
+  opts: TenantsImportOptions = {},
+  runtime: RuntimeEnv = defaultRuntime,
+): Promise<void> {
+  try {
+    const result = await importTenant({
+      archivePath,
+      tenantId: opts.rename,
+      passphrase: opts.passphrase ?? process.env[TENANT_EXPORT_PASSPHRASE_ENV],
+    });
+
+    if (opts.json) {
+      runtime.log(
+        JSON.stringify({ ...result, stateDir: resolveTenantStateDir(result.tenantId) }, null, 2),
+      );
+      return;
+    }
+
+    const renamed =
+      result.sourceTenantId === result.tenantId ? "" : ` (exported as ${result.sourceTenantId})`;
+    runtime.log(`Tenant ${result.tenantId} imported${renamed}.
+
+Token:       ${result.token}
+State Dir:   ${shortenHomePath(resolveTenantStateDir(result.tenantId))}
+Files:       ${result.files}
+Credentials: ${result.credentials}
+Exported by: openclaw ${result.sourceGatewayVersion}
+
+IMPORTANT: Save this token securely. It cannot be retrieved later.`);
+  } catch (err) {
+    runtime.error(`Failed to import tenant: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
@@ -9,6 +9,7 @@ import type {
   SandboxBrowserSettings,
   SandboxDockerSettings,
   SandboxPruneSettings,
+  SandboxSnapshotSettings,
 } from "./types.sandbox.js";
 import type { MemorySearchConfig } from "./types.tools.js";
 
@@ -246,6 +247,8 @@ export type AgentDefaultsConfig = {
     browser?: SandboxBrowserSettings;
     /** Auto-prune sandbox containers. */
     prune?: SandboxPruneSettings;
+    /** Workspace snapshots before agent runs (tenant workspaces). */
+    snapshots?: SandboxSnapshotSettings;
   };
 };
 
@@ -6,6 +6,7 @@ import type {
   SandboxBrowserSettings,
   SandboxDockerSettings,
   SandboxPruneSettings,
+  SandboxSnapshotSettings,
 } from "./types.sandbox.js";
 import type { AgentToolsConfig, MemorySearchConfig } from "./types.tools.js";
 
@@ -61,6 +62,8 @@ export type AgentConfig = {
     browser?: SandboxBrowserSettings;
     /** Auto-prune overrides for this agent. */
     prune?: SandboxPruneSettings;
+    /** Workspace snapshot overrides for this agent (tenant workspaces). */
+    snapshots?: SandboxSnapshotSettings;
   };
   tools?: AgentToolsConfig;
 };
@@ -70,6 +73,21 @@ export type AgentsConfig = {
   list?: AgentConfig[];
 };
 
+/**
+ * OPENCLAWMU ADDITION: local time window a conditional binding is active in.
+ * Overnight windows (start after end) run into the next day.
+ */
+export type AgentBindingSchedule = {
+  /** Weekdays the window starts on (0 = Sunday); default every day. */
+  days?: number[];
+  /** Start time (24h, HH:MM). Inclusive. Default "00:00". */
+  start?: string;
+  /** End time (24h, HH:MM). Exclusive. Default "24:00". */
+  end?: string;
+  /** Timezone ("user", "local", or IANA TZ id). Default: "user". */
+  timezone?: string;
+};
+
 export type AgentBinding = {
   agentId: string;
   match: {
@@ -80,5 +98,11 @@ export type AgentBinding = {
     teamId?: string;
     /** Discord role IDs used for role-based routing. */
     roles?: string[];
+    /** OPENCLAWMU ADDITION: only match inside this time window. */
+    schedule?: AgentBindingSchedule;
+    /** OPENCLAWMU ADDITION: case-insensitive regexes; one must match the inbound text. */
+    text?: string[];
+    /** OPENCLAWMU ADDITION: languages (ISO 639-1) the inbound text must be detected as. */
+    language?: string[];
   };
 };
@@ -276,6 +276,132 @@ export type GatewayToolsConfig = {
   allow?: string[];
 };
 
+// OPENCLAWMU ADDITION: tenant backup targets beyond inline S3 params.
+export type GatewayBackupTargetConfig =
+  | {
+      kind: "s3";
+      bucket: string;
+      endpoint?: string;
+      region?: string;
+      prefix?: string;
+      forcePathStyle?: boolean;
+    }
+  | {
+      kind: "local";
+      /** Directory backups are written to (created if missing). */
+      dir: string;
+      prefix?: string;
+    }
+  | {
+      kind: "command";
+      /** argv that receives the archive on stdin (object key in OPENCLAW_BACKUP_OBJECT). */
+      command: string[];
+      /** argv that writes the archive for OPENCLAW_BACKUP_OBJECT to stdout. */
+      restoreCommand?: string[];
+      /** argv that prints one object key per line (optionally `key<TAB>size<TAB>date`). */
+      listCommand?: string[];
+      /** argv that deletes OPENCLAW_BACKUP_OBJECT. */
+      deleteCommand?: string[];
+      prefix?: string;
+      /** Timeout per command run (default: 10 minutes). */
+      timeoutMs?: number;
+    };
+
+/** GFS retention: newest backup per day/ISO week/month (UTC) for the last N of each. */
+export type GatewayBackupRetentionConfig = {
+  daily?: number;
+  weekly?: number;
+  monthly?: number;
+};
+
+export type GatewayBackupScheduleConfig = {
+  /** Set false to pause scheduled backups. */
+  enabled?: boolean;
+  /** Cron expression (5 or 6 fields). */
+  cron?: string;
+  /** IANA timezone for the cron expression (default: gateway host). */
+  tz?: string;
+  /** Name of the target in `gateway.backup.targets`. */
+  target?: string;
+  /** Take incremental backups between full ones. */
+  incremental?: boolean;
+  /** Incremental backups between two full backups (default: 6). */
+  fullEvery?: number;
+  retention?: GatewayBackupRetentionConfig;
+};
+
+export type GatewayBackupConfig = {
+  /** Named backup targets, selected with `target` on backup/restore calls. */
+  targets?: Record<string, GatewayBackupTargetConfig>;
+  /** Default backup schedule for every tenant (tenants can override it). */
+  schedule?: GatewayBackupScheduleConfig;
+  /**
+   * File holding the master key for encrypting archives at rest (AES-256-GCM with a
+   * per-tenant derived key). Falls back to OPENCLAW_BACKUP_ENCRYPTION_KEY.
+   */
+  encryptionKeyFile?: string;
+};
+
+/** Landlock filesystem rules applied inside bwrap sandboxes via a launcher binary. */
+export type GatewaySandboxLandlockConfig = {
+  enabled?: boolean;
+  /** Launcher with landrun-compatible flags, visible inside the sandbox (default: /usr/bin/landrun). */
+  binary?: string;
+  /** Extra paths that may be read and executed. */
+  readExec?: string[];
+  /** Extra paths that may be read. */
+  readOnly?: string[];
+  /** Extra paths that may be read and written. */
+  readWrite?: string[];
+  /** Run unrestricted on kernels without Landlock instead of failing (default: true). */
+  bestEffort?: boolean;
+};
+
+/** One egress allowlist entry: a hostname (or `*.suffix`) or a CIDR, on some ports. */
+export type GatewaySandboxEgressRule = {
+  host?: string;
+  cidr?: string;
+  /** Destination ports (default: 80 and 443). */
+  ports?: number[];
+};
+
+export type GatewaySandboxEgressConfig = {
+  /**
+   * isolated: no network (default); proxy: only allowlisted destinations, through a
+   * filtering proxy; open: the host network.
+   */
+  mode?: "isolated" | "proxy" | "open";
+  /** Destinations reachable in proxy mode (everything else is denied). */
+  allow?: GatewaySandboxEgressRule[];
+  /** socat binary inside the sandbox bridging loopback to the proxy (default: socat). */
+  bridge?: string;
+  /** Loopback port of the proxy inside the sandbox (default: 3128). */
+  port?: number;
+  /** Log every proxied request to the tenant's egress.jsonl (default: true). */
+  logRequests?: boolean;
+};
+
+/** How tenant `maxSandboxDiskMB` quotas are enforced on workspaces. */
+export type GatewaySandboxDiskQuotaConfig = {
+  /**
+   * project: filesystem project quota (XFS/ext4 mounted with prjquota); loop: workspace in a
+   * loop-mounted ext4 image; poll: usage polling that freezes writers; auto: the first of
+   * these that works (default).
+   */
+  backend?: "auto" | "project" | "loop" | "poll";
+  /** How often workspace usage is checked against the quota (default: 30). */
+  checkIntervalSeconds?: number;
+};
+
+export type GatewaySandboxConfig = {
+  /** Syscall filter for bwrap sandboxes: default, strict, permissive or none (default: default). */
+  seccompProfile?: "default" | "strict" | "permissive" | "none";
+  landlock?: GatewaySandboxLandlockConfig;
+  egress?: GatewaySandboxEgressConfig;
+  /** Gateway-wide only; tenants set the limit through `quotas.maxSandboxDiskMB`. */
+  diskQuota?: GatewaySandboxDiskQuotaConfig;
+};
+
 export type GatewayConfig = {
   /** Single multiplexed port for Gateway WS + HTTP (default: 18789). */
   port?: number;
@@ -318,6 +444,10 @@ export type GatewayConfig = {
    * Passed via X-Control-Plane-Token header.
    */
   controlPlaneToken?: string;
+  /** Tenant backup targets and encryption. */
+  backup?: GatewayBackupConfig;
+  /** Syscall and filesystem restrictions for tenant bwrap sandboxes (tenants can override). */
+  sandbox?: GatewaySandboxConfig;
   /**
    * Enable multi-tenant mode for tenant isolation.
    */
@@ -75,3 +75,18 @@ export type SandboxPruneSettings = {
   /** Prune if older than N days (0 disables). */
   maxAgeDays?: number;
 };
+
+// OPENCLAWMU ADDITION: tenant workspace snapshots.
+export type SandboxSnapshotSettings = {
+  /**
+   * Snapshot the tenant workspace before agent runs:
+   * - "off": only on demand (default)
+   * - "risky": before unattended runs (cron jobs, hooks and sub-agents)
+   * - "always": before every run
+   */
+  auto?: "off" | "risky" | "always";
+  /** Automatic snapshots kept per tenant; older ones are pruned (default: 10). */
+  keep?: number;
+  /** Workspace paths left out of snapshots (globs, `*` spans directories). */
+  exclude?: string[];
+};
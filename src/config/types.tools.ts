@@ -333,6 +333,35 @@ export type MemorySearchConfig = {
       /** Multiplier for candidate pool size (default: 4). */
       candidateMultiplier?: number;
     };
+    /** OPENCLAWMU ADDITION: post-retrieval rerankers (all off by default). */
+    rerank?: {
+      /** Rescore the top candidates with a local GGUF cross-encoder (node-llama-cpp). */
+      crossEncoder?: {
+        enabled?: boolean;
+        /** GGUF path or hf: URI of a reranker model (default: bge-reranker-v2-m3). */
+        modelPath?: string;
+        /** Optional cache directory for downloaded models. */
+        modelCacheDir?: string;
+        /** Share of the final score taken from the cross-encoder (0-1, default: 0.7). */
+        weight?: number;
+        /** Number of top candidates scored by the cross-encoder (default: 20). */
+        maxCandidates?: number;
+      };
+      /** Scale scores down by age: floor + (1 - floor) * 0.5^(ageDays / halfLifeDays). */
+      recency?: {
+        enabled?: boolean;
+        /** Half-life in days per source (default: memory 30, sessions 7). */
+        halfLifeDays?: { memory?: number; sessions?: number };
+        /** Lowest multiplier a very old chunk can get (0-1, default: 0.3). */
+        floor?: number;
+      };
+      /** Maximal marginal relevance: skip results that repeat earlier ones. */
+      mmr?: {
+        enabled?: boolean;
+        /** 1 ranks by relevance only, 0 by diversity only (default: 0.7). */
+        lambda?: number;
+      };
+    };
   };
   /** Index cache behavior. */
   cache?: {
@@ -6,6 +6,7 @@ import {
   SandboxBrowserSchema,
   SandboxDockerSchema,
   SandboxPruneSchema,
+  SandboxSnapshotsSchema,
 } from "./zod-schema.agent-runtime.js";
 import {
   BlockStreamingChunkSchema,
@@ -177,6 +178,7 @@ export const AgentDefaultsSchema = z
         docker: SandboxDockerSchema,
         browser: SandboxBrowserSchema,
         prune: SandboxPruneSchema,
+        snapshots: SandboxSnapshotsSchema,
       })
       .strict()
       .optional(),
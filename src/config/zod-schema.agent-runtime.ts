@@ -153,6 +153,16 @@ export const SandboxPruneSchema = z
   .strict()
   .optional();
 
+// OPENCLAWMU ADDITION: tenant workspace snapshots.
+export const SandboxSnapshotsSchema = z
+  .object({
+    auto: z.union([z.literal("off"), z.literal("risky"), z.literal("always")]).optional(),
+    keep: z.number().int().positive().optional(),
+    exclude: z.array(z.string()).optional(),
+  })
+  .strict()
+  .optional();
+
 const ToolPolicyBaseSchema = z
   .object({
     allow: z.array(z.string()).optional(),
@@ -299,6 +309,7 @@ export const AgentSandboxSchema = z
     docker: SandboxDockerSchema,
     browser: SandboxBrowserSchema,
     prune: SandboxPruneSchema,
+    snapshots: SandboxSnapshotsSchema,
   })
   .strict()
   .optional();
@@ -438,6 +449,43 @@ export const MemorySearchSchema = z
           })
           .strict()
           .optional(),
+        // OPENCLAWMU ADDITION: post-retrieval rerankers
+        rerank: z
+          .object({
+            crossEncoder: z
+              .object({
+                enabled: z.boolean().optional(),
+                modelPath: z.string().optional(),
+                modelCacheDir: z.string().optional(),
+                weight: z.number().min(0).max(1).optional(),
+                maxCandidates: z.number().int().positive().optional(),
+              })
+              .strict()
+              .optional(),
+            recency: z
+              .object({
+                enabled: z.boolean().optional(),
+                halfLifeDays: z
+                  .object({
+                    memory: z.number().positive().optional(),
+                    sessions: z.number().positive().optional(),
+                  })
+                  .strict()
+                  .optional(),
+                floor: z.number().min(0).max(1).optional(),
+              })
+              .strict()
+              .optional(),
+            mmr: z
+              .object({
+                enabled: z.boolean().optional(),
+                lambda: z.number().min(0).max(1).optional(),
+              })
+              .strict()
+              .optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -11,6 +11,34 @@ export const AgentsSchema = z
   .strict()
   .optional();
 
+// OPENCLAWMU ADDITION: conditional binding match fields
+const AgentBindingScheduleSchema = z
+  .object({
+    days: z.array(z.number().int().min(0).max(6)).optional(),
+    start: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'invalid time (use "HH:MM" 24h format)')
+      .optional(),
+    end: z
+      .string()
+      .regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'invalid time (use "HH:MM" 24h format)')
+      .optional(),
+    timezone: z.string().optional(),
+  })
+  .strict();
+
+const AgentBindingTextPatternSchema = z.string().refine(
+  (pattern) => {
+    try {
+      new RegExp(pattern, "i");
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "invalid regular expression" },
+);
+
 export const BindingsSchema = z
   .array(
     z
@@ -36,6 +64,11 @@ export const BindingsSchema = z
             guildId: z.string().optional(),
             teamId: z.string().optional(),
             roles: z.array(z.string()).optional(),
+            schedule: AgentBindingScheduleSchema.optional(),
+            text: z.array(AgentBindingTextPatternSchema).optional(),
+            language: z
+              .array(z.string().regex(/^[a-z]{2,3}(-[a-z0-9]+)*$/i, "invalid language code"))
+              .optional(),
           })
           .strict(),
       })
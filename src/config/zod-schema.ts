@@ -93,6 +93,111 @@ const MemorySchema = z
   .strict()
   .optional();
 
+// OPENCLAWMU ADDITION: tenant backup targets.
+const GatewayBackupTargetSchema = z.discriminatedUnion("kind", [
+  z
+    .object({
+      kind: z.literal("s3"),
+      bucket: z.string(),
+      endpoint: z.string().optional(),
+      region: z.string().optional(),
+      prefix: z.string().optional(),
+      forcePathStyle: z.boolean().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("local"),
+      dir: z.string(),
+      prefix: z.string().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("command"),
+      command: z.array(z.string()).min(1),
+      restoreCommand: z.array(z.string()).min(1).optional(),
+      listCommand: z.array(z.string()).min(1).optional(),
+      deleteCommand: z.array(z.string()).min(1).optional(),
+      prefix: z.string().optional(),
+      timeoutMs: z.number().int().positive().optional(),
+    })
+    .strict(),
+]);
+
+const GatewayBackupScheduleSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    cron: z.string().optional(),
+    tz: z.string().optional(),
+    target: z.string().optional(),
+    incremental: z.boolean().optional(),
+    fullEvery: z.number().int().nonnegative().optional(),
+    retention: z
+      .object({
+        daily: z.number().int().nonnegative().optional(),
+        weekly: z.number().int().nonnegative().optional(),
+        monthly: z.number().int().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+// OPENCLAWMU ADDITION: bwrap syscall filter, Landlock rules, egress policy and disk quotas.
+const GatewaySandboxSchema = z
+  .object({
+    seccompProfile: z
+      .union([
+        z.literal("default"),
+        z.literal("strict"),
+        z.literal("permissive"),
+        z.literal("none"),
+      ])
+      .optional(),
+    landlock: z
+      .object({
+        enabled: z.boolean().optional(),
+        binary: z.string().optional(),
+        readExec: z.array(z.string()).optional(),
+        readOnly: z.array(z.string()).optional(),
+        readWrite: z.array(z.string()).optional(),
+        bestEffort: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    egress: z
+      .object({
+        mode: z.union([z.literal("isolated"), z.literal("proxy"), z.literal("open")]).optional(),
+        allow: z
+          .array(
+            z
+              .object({
+                host: z.string().optional(),
+                cidr: z.string().optional(),
+                ports: z.array(z.number().int().min(1).max(65535)).min(1).optional(),
+              })
+              .strict(),
+          )
+          .optional(),
+        bridge: z.string().optional(),
+        port: z.number().int().min(1).max(65535).optional(),
+        logRequests: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    diskQuota: z
+      .object({
+        backend: z
+          .union([z.literal("auto"), z.literal("project"), z.literal("loop"), z.literal("poll")])
+          .optional(),
+        checkIntervalSeconds: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
 export const OpenClawSchema = z
   .object({
     $schema: z.string().optional(),
@@ -546,6 +651,15 @@ export const OpenClawSchema = z
           .strict()
           .optional(),
         controlPlaneToken: z.string().optional(),
+        backup: z
+          .object({
+            targets: z.record(z.string(), GatewayBackupTargetSchema).optional(),
+            schedule: GatewayBackupScheduleSchema.optional(),
+            encryptionKeyFile: z.string().optional(),
+          })
+          .strict()
+          .optional(),
+        sandbox: GatewaySandboxSchema.optional(),
         multiTenant: z.boolean().optional(),
       })
       .strict()
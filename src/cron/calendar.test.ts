@@ -0,0 +1,194 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import {
+  assertCronCalendarRules,
+  loadCronCalendars,
+  parseCronDateList,
+  parseCronIcsDates,
+} from "./calendar.js";
+import { computeNextRunAtMs, previewCronRuns } from "./schedule.js";
+import { CronService } from "./service.js";
+import {
+  createCronStoreHarness,
+  createNoopLogger,
+  installCronTestHooks,
+} from "./service.test-harness.js";
+
+const noopLogger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "openclaw-cron-calendar-" });
+installCronTestHooks({ logger: noopLogger });
+
+const iso = (runs: number[]) => runs.map((ms) => new Date(ms).toISOString());
+
+describe("cron calendars", () => {
+  it("parses date lists and ICS events", () => {
+    expect([
+      ...parseCronDateList("# holidays\n2026-12-24..2026-12-26\n2027-01-01 # new year"),
+    ]).toEqual(["2026-12-24", "2026-12-25", "2026-12-26", "2027-01-01"]);
+    expect(() => parseCronDateList("2026-02-30")).toThrow("invalid cron calendar date");
+
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "SUMMARY:Christmas",
+      "DTSTART;VALUE=DATE:20261225",
+      "DTEND;VALUE=DATE:20261227",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART;TZID=Europe/Berlin:20260501T090000",
+      "DTEND;TZID=Europe/Berlin:20260501T120000",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    expect([...parseCronIcsDates(ics)]).toEqual(["2026-12-25", "2026-12-26", "2026-05-01"]);
+
+    const longEvent = "BEGIN:VEVENT\nDTSTART:20260101\nDTEND:20300101\nEND:VEVENT\n";
+    const longDates = [...parseCronIcsDates(longEvent)];
+    expect(longDates).toHaveLength(367);
+    expect(longDates.at(-1)).toBe("2027-01-02");
+  });
+
+  it("loads named calendars next to the store", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-calendars-"));
+    await fs.writeFile(path.join(dir, "ops.txt"), "2026-03-02\n");
+    await fs.writeFile(path.join(dir, "ops.ics"), "BEGIN:VEVENT\nDTSTART:20260303\nEND:VEVENT\n");
+    await fs.writeFile(path.join(dir, "broken.txt"), "not a date\n");
+    const onError = vi.fn();
+    const calendars = await loadCronCalendars(dir, { onError });
+    expect([...(calendars.get("ops") ?? [])]).toEqual(["2026-03-03", "2026-03-02"]);
+    expect(calendars.has("broken")).toBe(false);
+    expect(onError).toHaveBeenCalledWith("broken", expect.any(Error));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("validates rules", () => {
+    expect(() => assertCronCalendarRules({ exclude: ["missing"] }, new Map())).toThrow(
+      "unknown cron calendar: missing",
+    );
+    expect(() => assertCronCalendarRules({ businessDay: 0 })).toThrow("cron businessDay");
+    expect(() =>
+      assertCronCalendarRules({ blackouts: [{ start: "09:00", end: "09:00" }] }),
+    ).toThrow("must not start and end at the same time");
+    expect(() =>
+      assertCronCalendarRules({ blackouts: [{ start: "2026-01-02", end: "2026-01-01" }] }),
+    ).toThrow("invalid cron blackout window");
+  });
+});
+
+describe("calendar schedules", () => {
+  const fromMs = Date.parse("2026-12-21T00:00:00Z");
+
+  it("skips weekends and excluded dates", () => {
+    const runs = previewCronRuns(
+      {
+        kind: "cron",
+        expr: "0 9 * * *",
+        tz: "Europe/Berlin",
+        calendar: { businessDays: true, exclude: ["holidays"] },
+      },
+      { fromMs, count: 4, calendars: new Map([["holidays", new Set(["2026-12-24"])]]) },
+    );
+    expect(iso(runs)).toEqual([
+      "2026-12-21T08:00:00.000Z",
+      "2026-12-22T08:00:00.000Z",
+      "2026-12-23T08:00:00.000Z",
+      "2026-12-25T08:00:00.000Z",
+    ]);
+  });
+
+  it("fires on the last business day of the month", () => {
+    const runs = previewCronRuns(
+      {
+        kind: "cron",
+        expr: "0 17 * * *",
+        tz: "UTC",
+        calendar: { businessDay: -1, excludeDates: ["2026-12-31"] },
+      },
+      { fromMs, count: 3 },
+    );
+    expect(iso(runs)).toEqual([
+      "2026-12-30T17:00:00.000Z",
+      "2027-01-29T17:00:00.000Z",
+      "2027-02-26T17:00:00.000Z",
+    ]);
+  });
+
+  it("skips ticks in blackout windows", () => {
+    const hourly = {
+      kind: "every" as const,
+      everyMs: 3_600_000,
+      anchorMs: fromMs,
+      calendar: { tz: "UTC", blackouts: [{ start: "22:00", end: "06:00", days: [1] }] },
+    };
+    // Monday night is blacked out until Tuesday 06:00
+    expect(
+      new Date(computeNextRunAtMs(hourly, Date.parse("2026-12-21T21:30:00Z"))!).toISOString(),
+    ).toBe("2026-12-22T06:00:00.000Z");
+    // Tuesday night is not
+    expect(
+      new Date(computeNextRunAtMs(hourly, Date.parse("2026-12-22T21:30:00Z"))!).toISOString(),
+    ).toBe("2026-12-22T22:00:00.000Z");
+
+    const oneOff = {
+      kind: "cron" as const,
+      expr: "0 * * * *",
+      tz: "UTC",
+      calendar: { blackouts: [{ start: "2026-12-21T10:00:00Z", end: "2026-12-21T13:30:00Z" }] },
+    };
+    expect(
+      iso(previewCronRuns(oneOff, { fromMs: Date.parse("2026-12-21T09:30:00Z"), count: 2 })),
+    ).toEqual(["2026-12-21T14:00:00.000Z", "2026-12-21T15:00:00.000Z"]);
+  });
+
+  it("gives up on schedules no tick can pass", () => {
+    expect(
+      computeNextRunAtMs(
+        { kind: "cron", expr: "0 9 * * 6", tz: "UTC", calendar: { businessDays: true } },
+        fromMs,
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("CronService calendars", () => {
+  it("schedules with the store's calendars and rejects unknown ones", async () => {
+    const store = await makeStorePath();
+    const calendarDir = path.join(path.dirname(store.storePath), "calendars");
+    await fs.mkdir(calendarDir, { recursive: true });
+    await fs.writeFile(path.join(calendarDir, "holidays.txt"), "2026-12-24\n");
+    vi.setSystemTime(new Date("2026-12-23T12:00:00Z"));
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: false,
+      log: noopLogger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+    });
+    await cron.start();
+
+    const job = await cron.add({
+      name: "standup",
+      enabled: true,
+      schedule: {
+        kind: "cron",
+        expr: "0 9 * * *",
+        tz: "UTC",
+        calendar: { businessDays: true, exclude: ["holidays"] },
+      },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "systemEvent", text: "standup" },
+    });
+    expect(job.state.nextRunAtMs).toBe(Date.parse("2026-12-25T09:00:00Z"));
+
+    await expect(
+      cron.update(job.id, {
+        schedule: { kind: "cron", expr: "0 9 * * *", calendar: { exclude: ["missing"] } },
+      }),
+    ).rejects.toThrow("unknown cron calendar: missing");
+    cron.stop();
+  });
+});
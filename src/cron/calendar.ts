@@ -0,0 +1,392 @@
+/**
+ * Calendar modifiers of time-based cron schedules.
+ * OPENCLAWMU ADDITION: exclusion calendars, business-day rules and blackout windows for
+ * `every` and `cron` schedules (`schedule.calendar`).
+ *
+ * A tick on an excluded date, on a day that is not a business day (or not the requested
+ * n-th business day of its month), or inside a blackout window is skipped, and the
+ * schedule moves on to its next tick. Named calendars are ICS files or plain date lists
+ * kept in a `calendars/` directory next to the cron store, so every tenant has its own.
+ */
+
+import { Cron } from "croner";
+import fs from "node:fs";
+import path from "node:path";
+import type { CronBlackoutWindow, CronCalendarRules, CronSchedule } from "./types.js";
+import { parseAbsoluteTimeMs } from "./parse.js";
+
+/** Dates (`YYYY-MM-DD`) of each named calendar. */
+export type CronCalendars = ReadonlyMap<string, ReadonlySet<string>>;
+
+/**
+ * Checks one tick. Returns undefined when it may fire, otherwise the earliest time the
+ * next candidate tick can pass (the next local midnight, or the end of the blackout).
+ */
+export type CronCalendarCheck = (atMs: number) => number | undefined;
+
+const CALENDAR_NAME_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DAY_MS = 86_400_000;
+/** Longest date range one entry or calendar event expands to. */
+const MAX_RANGE_DAYS = 366;
+const MAX_BUSINESS_DAY = 23;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function resolveCronCalendarDir(storePath: string) {
+  return path.join(path.dirname(storePath), "calendars");
+}
+
+function parseDateKey(key: string): number | null {
+  const match = DATE_RE.exec(key.trim());
+  if (!match) {
+    return null;
+  }
+  const ms = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Rejects dates like 2026-02-30 that Date.UTC rolls over
+  return new Date(ms).toISOString().slice(0, 10) === key.trim() ? ms : null;
+}
+
+function formatDateKey(utcMs: number) {
+  return new Date(utcMs).toISOString().slice(0, 10);
+}
+
+function expandDateRange(startMs: number, endMs: number): string[] {
+  if (endMs < startMs || endMs - startMs > MAX_RANGE_DAYS * DAY_MS) {
+    throw new Error("cron calendar date range must run forward and span at most a year");
+  }
+  const dates: string[] = [];
+  for (let ms = startMs; ms <= endMs; ms += DAY_MS) {
+    dates.push(formatDateKey(ms));
+  }
+  return dates;
+}
+
+/**
+ * Expands `YYYY-MM-DD` or an inclusive `YYYY-MM-DD..YYYY-MM-DD` range. Throws when the
+ * entry is malformed.
+ */
+export function parseCronDateEntry(entry: string): string[] {
+  const [startRaw, endRaw, ...rest] = entry.split("..");
+  const startMs = parseDateKey(startRaw ?? "");
+  const endMs = endRaw === undefined ? startMs : parseDateKey(endRaw);
+  if (startMs === null || endMs === null || rest.length > 0) {
+    throw new Error(`invalid cron calendar date: ${entry.trim()}`);
+  }
+  return expandDateRange(startMs, endMs);
+}
+
+/** Parses a date list: one date or range per line, `#` starts a comment. */
+export function parseCronDateList(text: string): Set<string> {
+  const dates = new Set<string>();
+  for (const line of text.split(/\r?\n/)) {
+    const entry = line.replace(/#.*$/, "").trim();
+    if (entry) {
+      for (const date of parseCronDateEntry(entry)) {
+        dates.add(date);
+      }
+    }
+  }
+  return dates;
+}
+
+function parseIcsDate(value: string): { ms: number; midnight: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{6}))?/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const ms = parseDateKey(`${match[1]}-${match[2]}-${match[3]}`);
+  if (ms === null) {
+    return null;
+  }
+  return { ms, midnight: !match[4] || match[4] === "000000" };
+}
+
+/**
+ * Collects the dates covered by the events of an ICS calendar. All-day events end the
+ * day before `DTEND`; timed events cover the date part of their start and end.
+ * Recurrence rules are not expanded, and an event longer than a year only covers its
+ * first year.
+ */
+export function parseCronIcsDates(text: string): Set<string> {
+  const dates = new Set<string>();
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  let event: { start?: string; end?: string } | null = null;
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    const upper = line.toUpperCase();
+    if (upper === "BEGIN:VEVENT") {
+      event = {};
+      continue;
+    }
+    if (upper === "END:VEVENT") {
+      const start = event?.start ? parseIcsDate(event.start) : null;
+      const end = event?.end ? parseIcsDate(event.end) : null;
+      if (start) {
+        const endMs = !end ? start.ms : end.midnight ? end.ms - DAY_MS : end.ms;
+        // One overlong event must not reject the whole feed
+        const lastMs = Math.min(Math.max(start.ms, endMs), start.ms + MAX_RANGE_DAYS * DAY_MS);
+        for (const date of expandDateRange(start.ms, lastMs)) {
+          dates.add(date);
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) {
+      continue;
+    }
+    const colon = line.indexOf(":");
+    const name = line.slice(0, Math.max(0, colon)).split(";")[0]?.toUpperCase();
+    if (name === "DTSTART") {
+      event.start = line.slice(colon + 1);
+    } else if (name === "DTEND") {
+      event.end = line.slice(colon + 1);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Reads the named calendars of a store: `<name>.ics` and `<name>.txt` files in `dir`
+ * (both merge when present). Files that fail to parse are reported and left out.
+ */
+export async function loadCronCalendars(
+  dir: string,
+  opts?: { onError?: (name: string, err: unknown) => void },
+): Promise<Map<string, Set<string>>> {
+  const calendars = new Map<string, Set<string>>();
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir(dir);
+  } catch {
+    return calendars;
+  }
+  for (const entry of entries.toSorted()) {
+    const ext = path.extname(entry).toLowerCase();
+    const name = path.basename(entry, path.extname(entry));
+    if ((ext !== ".ics" && ext !== ".txt") || !CALENDAR_NAME_RE.test(name)) {
+      continue;
+    }
+    try {
+      const text = await fs.promises.readFile(path.join(dir, entry), "utf-8");
+      const dates = ext === ".ics" ? parseCronIcsDates(text) : parseCronDateList(text);
+      const merged = calendars.get(name) ?? new Set<string>();
+      for (const date of dates) {
+        merged.add(date);
+      }
+      calendars.set(name, merged);
+    } catch (err) {
+      opts?.onError?.(name, err);
+    }
+  }
+  return calendars;
+}
+
+function isDailyWindow(window: CronBlackoutWindow) {
+  return TIME_RE.test(window.start.trim()) && TIME_RE.test(window.end.trim());
+}
+
+function parseMinutes(value: string) {
+  const match = TIME_RE.exec(value.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : 0;
+}
+
+/**
+ * Validates calendar rules. Named calendars are only checked against `calendars` when
+ * given. Throws on invalid rules.
+ */
+export function assertCronCalendarRules(
+  rules: CronCalendarRules | undefined,
+  calendars?: CronCalendars,
+): void {
+  if (!rules) {
+    return;
+  }
+  for (const name of rules.exclude ?? []) {
+    if (!CALENDAR_NAME_RE.test(name)) {
+      throw new Error(`invalid cron calendar name: ${name}`);
+    }
+    if (calendars && !calendars.has(name)) {
+      throw new Error(`unknown cron calendar: ${name}`);
+    }
+  }
+  for (const entry of rules.excludeDates ?? []) {
+    parseCronDateEntry(entry);
+  }
+  if (
+    rules.businessDay !== undefined &&
+    (!Number.isInteger(rules.businessDay) ||
+      rules.businessDay === 0 ||
+      Math.abs(rules.businessDay) > MAX_BUSINESS_DAY)
+  ) {
+    throw new Error(
+      `cron businessDay must be 1..${MAX_BUSINESS_DAY} or -1..-${MAX_BUSINESS_DAY} (from the end)`,
+    );
+  }
+  for (const window of rules.blackouts ?? []) {
+    if (isDailyWindow(window)) {
+      if (parseMinutes(window.start) === parseMinutes(window.end)) {
+        throw new Error("cron blackout window must not start and end at the same time");
+      }
+      if (window.days?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+        throw new Error("cron blackout days must be weekdays 0 (Sunday) to 6");
+      }
+      continue;
+    }
+    const startMs = parseAbsoluteTimeMs(window.start);
+    const endMs = parseAbsoluteTimeMs(window.end);
+    if (startMs === null || endMs === null || endMs <= startMs) {
+      throw new Error(
+        `invalid cron blackout window: ${window.start}..${window.end} (use HH:MM or ISO times)`,
+      );
+    }
+  }
+  if (rules.tz?.trim()) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: rules.tz.trim() });
+    } catch {
+      throw new Error(`invalid cron calendar timezone: ${rules.tz}`);
+    }
+  }
+}
+
+/** Validates the calendar rules of `every` and `cron` schedules. */
+export function assertCronScheduleCalendar(schedule: CronSchedule, calendars?: CronCalendars) {
+  if (schedule.kind === "every" || schedule.kind === "cron") {
+    assertCronCalendarRules(schedule.calendar, calendars);
+  }
+}
+
+type LocalTime = { date: string; year: number; month: number; weekday: number; minutes: number };
+
+function createLocalTimeReader(tz: string) {
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  });
+  return (atMs: number): LocalTime => {
+    const parts: Record<string, string> = {};
+    for (const part of format.formatToParts(new Date(atMs))) {
+      parts[part.type] = part.value;
+    }
+    const year = Number(parts.year);
+    const month = Number(parts.month);
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      year,
+      month,
+      weekday: WEEKDAYS.indexOf(parts.weekday ?? ""),
+      minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    };
+  };
+}
+
+/**
+ * Compiles calendar rules for the timezone `tz`. Throws when a named calendar is not
+ * in `calendars`.
+ */
+export function compileCronCalendar(
+  rules: CronCalendarRules,
+  opts: { tz: string; calendars?: CronCalendars },
+): CronCalendarCheck {
+  const excluded = new Set<string>();
+  for (const name of rules.exclude ?? []) {
+    const dates = opts.calendars?.get(name);
+    if (!dates) {
+      throw new Error(`unknown cron calendar: ${name}`);
+    }
+    for (const date of dates) {
+      excluded.add(date);
+    }
+  }
+  for (const entry of rules.excludeDates ?? []) {
+    for (const date of parseCronDateEntry(entry)) {
+      excluded.add(date);
+    }
+  }
+
+  const readLocal = createLocalTimeReader(opts.tz);
+  const timezone = opts.tz;
+  const midnight = new Cron("0 0 0 * * *", { timezone, catch: false });
+  const businessOnly = rules.businessDays === true || rules.businessDay !== undefined;
+  const isBusinessDay = (utcMs: number) => {
+    const weekday = new Date(utcMs).getUTCDay();
+    return weekday >= 1 && weekday <= 5 && !excluded.has(formatDateKey(utcMs));
+  };
+  const nthBusinessDays = new Map<string, string | undefined>();
+  const resolveNthBusinessDay = (year: number, month: number, n: number) => {
+    const key = `${year}-${month}`;
+    if (!nthBusinessDays.has(key)) {
+      const days: string[] = [];
+      for (let ms = Date.UTC(year, month - 1, 1); ; ms += DAY_MS) {
+        if (new Date(ms).getUTCMonth() !== month - 1) {
+          break;
+        }
+        if (isBusinessDay(ms)) {
+          days.push(formatDateKey(ms));
+        }
+      }
+      nthBusinessDays.set(key, n > 0 ? days[n - 1] : days[days.length + n]);
+    }
+    return nthBusinessDays.get(key);
+  };
+
+  const windows = (rules.blackouts ?? []).map((window) => {
+    if (!isDailyWindow(window)) {
+      return {
+        daily: false as const,
+        startMs: parseAbsoluteTimeMs(window.start) ?? 0,
+        endMs: parseAbsoluteTimeMs(window.end) ?? 0,
+      };
+    }
+    const end = parseMinutes(window.end);
+    return {
+      daily: true as const,
+      start: parseMinutes(window.start),
+      end,
+      days: window.days?.length ? new Set(window.days) : undefined,
+      endCron: new Cron(`0 ${end % 60} ${Math.floor(end / 60)} * * *`, {
+        timezone,
+        catch: false,
+      }),
+    };
+  });
+
+  return (atMs) => {
+    const local = readLocal(atMs);
+    const dayRuledOut =
+      excluded.has(local.date) ||
+      (businessOnly && !isBusinessDay(parseDateKey(local.date) ?? 0)) ||
+      (rules.businessDay !== undefined &&
+        resolveNthBusinessDay(local.year, local.month, rules.businessDay) !== local.date);
+    if (dayRuledOut) {
+      return midnight.nextRun(new Date(atMs))?.getTime() ?? atMs + DAY_MS;
+    }
+    for (const window of windows) {
+      if (!window.daily) {
+        if (atMs >= window.startMs && atMs < window.endMs) {
+          return window.endMs;
+        }
+        continue;
+      }
+      const onDay = (weekday: number) => !window.days || window.days.has(weekday);
+      const inside =
+        window.start < window.end
+          ? local.minutes >= window.start && local.minutes < window.end && onDay(local.weekday)
+          : (local.minutes >= window.start && onDay(local.weekday)) ||
+            (local.minutes < window.end && onDay((local.weekday + 6) % 7));
+      if (inside) {
+        return window.endCron.nextRun(new Date(atMs))?.getTime() ?? atMs + DAY_MS;
+      }
+    }
+    return undefined;
+  };
+}
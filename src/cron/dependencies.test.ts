@@ -0,0 +1,211 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CronJob } from "./types.js";
+import {
+  assertCronJobDependencies,
+  buildCronJobGraph,
+  buildTriggeredCronMessage,
+  triggerDependentCronJobs,
+} from "./dependencies.js";
+import { CronService } from "./service.js";
+import {
+  createCronStoreHarness,
+  createNoopLogger,
+  installCronTestHooks,
+} from "./service.test-harness.js";
+
+const noopLogger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "openclaw-cron-deps-" });
+installCronTestHooks({ logger: noopLogger });
+
+function job(id: string, schedule: CronJob["schedule"], enabled = true): CronJob {
+  return {
+    id,
+    name: id,
+    enabled,
+    createdAtMs: 0,
+    updatedAtMs: 0,
+    schedule,
+    sessionTarget: "isolated",
+    wakeMode: "now",
+    payload: { kind: "agentTurn", message: `run ${id}` },
+    state: {},
+  };
+}
+
+describe("cron job dependencies", () => {
+  it("rejects unknown upstream jobs and cycles", () => {
+    const jobs = [
+      job("a", { kind: "every", everyMs: 60_000 }),
+      job("b", { kind: "after", jobId: "a" }),
+      job("c", { kind: "after", jobId: "b" }),
+    ];
+    expect(() =>
+      assertCronJobDependencies(jobs, job("d", { kind: "after", jobId: "missing" })),
+    ).toThrow("unknown upstream cron job id: missing");
+    expect(() =>
+      assertCronJobDependencies(jobs, job("d", { kind: "after", jobId: "c" })),
+    ).not.toThrow();
+    expect(() => assertCronJobDependencies(jobs, job("a", { kind: "after", jobId: "c" }))).toThrow(
+      'cron job dependency cycle: "a" -> "c" -> "b" -> "a"',
+    );
+    expect(() => assertCronJobDependencies(jobs, job("b", { kind: "after", jobId: "b" }))).toThrow(
+      'cron job dependency cycle: "b" -> "b"',
+    );
+  });
+
+  it("triggers enabled dependents whose status filter matches", () => {
+    const jobs = [
+      job("up", { kind: "every", everyMs: 60_000 }),
+      job("on-ok", { kind: "after", jobId: "up" }),
+      job("on-error", { kind: "after", jobId: "up", on: ["error"] }),
+      job("on-any", { kind: "after", jobId: "up", on: ["ok", "error"] }),
+      job("disabled", { kind: "after", jobId: "up" }, false),
+    ];
+    const upstream = jobs[0];
+
+    const ok = triggerDependentCronJobs(jobs, upstream, {
+      status: "ok",
+      summary: " done ",
+      endedAt: 1000,
+    });
+    expect(ok.map((entry) => entry.id)).toEqual(["on-ok", "on-any"]);
+    expect(jobs[1].state).toEqual({
+      nextRunAtMs: 1000,
+      trigger: { jobId: "up", jobName: "up", status: "ok", summary: "done", finishedAtMs: 1000 },
+    });
+
+    const failed = triggerDependentCronJobs(jobs, upstream, {
+      status: "error",
+      error: "boom",
+      endedAt: 2000,
+    });
+    expect(failed.map((entry) => entry.id)).toEqual(["on-error", "on-any"]);
+    expect(triggerDependentCronJobs(jobs, upstream, { status: "skipped", endedAt: 3000 })).toEqual(
+      [],
+    );
+  });
+
+  it("appends upstream output to the downstream message", () => {
+    expect(buildTriggeredCronMessage("Summarize", undefined)).toBe("Summarize");
+    expect(
+      buildTriggeredCronMessage("Summarize", {
+        jobId: "up",
+        jobName: "Fetch",
+        status: "ok",
+        summary: "3 new items",
+        finishedAtMs: 1,
+      }),
+    ).toBe(
+      'Summarize\n\nUpstream cron job "Fetch" (up) finished with status ok.\nUpstream output:\n3 new items',
+    );
+    expect(
+      buildTriggeredCronMessage("Alert", {
+        jobId: "up",
+        status: "error",
+        summary: "partial",
+        error: "timeout",
+        finishedAtMs: 1,
+      }),
+    ).toBe("Alert\n\nUpstream cron job up finished with status error.\nUpstream output:\ntimeout");
+  });
+
+  it("builds the dependency graph", () => {
+    const graph = buildCronJobGraph([
+      job("a", { kind: "every", everyMs: 60_000 }),
+      job("b", { kind: "after", jobId: "a" }),
+      job("c", { kind: "after", jobId: "a", on: ["error"] }),
+      job("d", { kind: "after", jobId: "gone" }),
+    ]);
+    expect(graph.roots).toEqual(["a", "d"]);
+    expect(graph.nodes).toEqual([
+      { jobId: "a", name: "a", enabled: true, downstreamJobIds: ["b", "c"] },
+      {
+        jobId: "b",
+        name: "b",
+        enabled: true,
+        upstreamJobId: "a",
+        on: ["ok"],
+        downstreamJobIds: [],
+      },
+      {
+        jobId: "c",
+        name: "c",
+        enabled: true,
+        upstreamJobId: "a",
+        on: ["error"],
+        downstreamJobIds: [],
+      },
+      {
+        jobId: "d",
+        name: "d",
+        enabled: true,
+        upstreamJobId: "gone",
+        on: ["ok"],
+        missingUpstream: true,
+        downstreamJobIds: [],
+      },
+    ]);
+  });
+});
+
+describe("CronService after schedules", () => {
+  it("runs the downstream job with the upstream summary when the upstream finishes", async () => {
+    const store = await makeStorePath();
+    const runIsolatedAgentJob = vi.fn(async (params: { job: CronJob; message: string }) => ({
+      status: "ok" as const,
+      summary: params.job.name === "fetch" ? "fetched 3 items" : "summarized",
+    }));
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: noopLogger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob,
+    });
+    await cron.start();
+
+    const upstream = await cron.add({
+      name: "fetch",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 3_600_000 },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "Fetch the feed" },
+      delivery: { mode: "none" },
+    });
+    const downstream = await cron.add({
+      name: "digest",
+      enabled: true,
+      schedule: { kind: "after", jobId: upstream.id },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "Write a digest" },
+      delivery: { mode: "none" },
+    });
+    expect(downstream.state.nextRunAtMs).toBeUndefined();
+    await expect(
+      cron.update(upstream.id, { schedule: { kind: "after", jobId: downstream.id } }),
+    ).rejects.toThrow('cron job dependency cycle: "fetch" -> "digest" -> "fetch"');
+
+    await cron.run(upstream.id, "force");
+    await vi.runOnlyPendingTimersAsync();
+    await vi.waitFor(() => expect(runIsolatedAgentJob).toHaveBeenCalledTimes(2));
+
+    expect(runIsolatedAgentJob.mock.calls[1]?.[0].message).toBe(
+      'Write a digest\n\nUpstream cron job "fetch" (' +
+        upstream.id +
+        ") finished with status ok.\nUpstream output:\nfetched 3 items",
+    );
+    await vi.waitFor(async () => {
+      const jobs = await cron.list({ includeDisabled: true });
+      const updated = jobs.find((entry) => entry.id === downstream.id);
+      expect(updated?.state.lastStatus).toBe("ok");
+      expect(updated?.state.trigger).toBeUndefined();
+      expect(updated?.state.nextRunAtMs).toBeUndefined();
+    });
+
+    cron.stop();
+    await store.cleanup();
+  });
+});
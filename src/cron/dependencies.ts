@@ -0,0 +1,178 @@
+/**
+ * Cron job dependencies.
+ * OPENCLAWMU ADDITION: `after` schedules that run a job when another job finishes.
+ *
+ * A finished run sets a pending `trigger` on every enabled job scheduled after it (when
+ * the run's status is one the job listens for) and makes it due right away. The
+ * downstream job consumes the trigger on its next run; agent turns receive the upstream
+ * summary appended to their message. Dependencies never cross stores, so tenant jobs
+ * only chain to jobs of the same tenant.
+ */
+
+import type { CronJob, CronJobTrigger, CronSchedule, CronTriggerStatus } from "./types.js";
+
+export const DEFAULT_CRON_TRIGGER_STATUSES: readonly CronTriggerStatus[] = ["ok"];
+
+/** Upstream output passed to agent turns is cut to this many characters. */
+const MAX_TRIGGER_OUTPUT_CHARS = 4000;
+
+export type CronJobGraphNode = {
+  jobId: string;
+  name: string;
+  enabled: boolean;
+  /** Job this one runs after, if any. */
+  upstreamJobId?: string;
+  on?: CronTriggerStatus[];
+  /** The upstream job is not in the listed jobs (removed or filtered out). */
+  missingUpstream?: boolean;
+  downstreamJobIds: string[];
+};
+
+export type CronJobGraph = {
+  /** Jobs without a listed upstream, in list order. */
+  roots: string[];
+  nodes: CronJobGraphNode[];
+};
+
+export function resolveCronTriggerStatuses(
+  schedule: Extract<CronSchedule, { kind: "after" }>,
+): readonly CronTriggerStatus[] {
+  return schedule.on && schedule.on.length > 0 ? schedule.on : DEFAULT_CRON_TRIGGER_STATUSES;
+}
+
+/**
+ * Checks an `after` schedule against the other jobs of its store: the upstream job
+ * must exist and the chain must not lead back to the job. Throws on violations.
+ */
+export function assertCronJobDependencies(
+  jobs: readonly Pick<CronJob, "id" | "name" | "schedule">[],
+  job: Pick<CronJob, "id" | "name" | "schedule">,
+): void {
+  if (job.schedule.kind !== "after") {
+    return;
+  }
+  const byId = new Map(jobs.map((entry) => [entry.id, entry]));
+  byId.set(job.id, job);
+  if (!byId.has(job.schedule.jobId)) {
+    throw new Error(`unknown upstream cron job id: ${job.schedule.jobId}`);
+  }
+  const chain = [job];
+  const seen = new Set([job.id]);
+  let current: Pick<CronJob, "id" | "name" | "schedule"> | undefined = job;
+  while (current?.schedule.kind === "after") {
+    const upstream = byId.get(current.schedule.jobId);
+    if (!upstream) {
+      return;
+    }
+    chain.push(upstream);
+    if (upstream.id === job.id) {
+      throw new Error(
+        `cron job dependency cycle: ${chain.map((entry) => `"${entry.name}"`).join(" -> ")}`,
+      );
+    }
+    if (seen.has(upstream.id)) {
+      // An older cycle further up that does not involve this job
+      return;
+    }
+    seen.add(upstream.id);
+    current = upstream;
+  }
+}
+
+/**
+ * Marks the enabled jobs scheduled after `job` as due, carrying the finished run's
+ * output. Returns the triggered jobs.
+ */
+export function triggerDependentCronJobs(
+  jobs: readonly CronJob[],
+  job: Pick<CronJob, "id" | "name">,
+  result: { status: "ok" | "error" | "skipped"; summary?: string; error?: string; endedAt: number },
+): CronJob[] {
+  if (result.status === "skipped") {
+    return [];
+  }
+  const status = result.status;
+  const triggered: CronJob[] = [];
+  for (const dependent of jobs) {
+    if (
+      !dependent.enabled ||
+      dependent.schedule.kind !== "after" ||
+      dependent.schedule.jobId !== job.id ||
+      !resolveCronTriggerStatuses(dependent.schedule).includes(status)
+    ) {
+      continue;
+    }
+    dependent.state ??= {};
+    dependent.state.trigger = {
+      jobId: job.id,
+      jobName: job.name,
+      status,
+      summary: result.summary?.trim() || undefined,
+      error: result.error,
+      finishedAtMs: result.endedAt,
+    };
+    dependent.state.nextRunAtMs = result.endedAt;
+    triggered.push(dependent);
+  }
+  return triggered;
+}
+
+/**
+ * Appends the upstream run's output to a downstream agent turn message.
+ */
+export function buildTriggeredCronMessage(message: string, trigger?: CronJobTrigger): string {
+  if (!trigger) {
+    return message;
+  }
+  const label = trigger.jobName ? `"${trigger.jobName}" (${trigger.jobId})` : trigger.jobId;
+  const raw = trigger.status === "ok" ? trigger.summary : (trigger.error ?? trigger.summary);
+  const output =
+    raw && raw.length > MAX_TRIGGER_OUTPUT_CHARS
+      ? `${raw.slice(0, MAX_TRIGGER_OUTPUT_CHARS)}\n[truncated]`
+      : raw;
+  return [
+    message,
+    "",
+    `Upstream cron job ${label} finished with status ${trigger.status}.`,
+    output ? `Upstream output:\n${output}` : "The upstream job produced no output.",
+  ].join("\n");
+}
+
+/**
+ * Builds the dependency graph of the given jobs (a forest: each job has at most one
+ * upstream job).
+ */
+export function buildCronJobGraph(
+  jobs: readonly Pick<CronJob, "id" | "name" | "enabled" | "schedule">[],
+): CronJobGraph {
+  const listed = new Set(jobs.map((job) => job.id));
+  const downstream = new Map<string, string[]>();
+  for (const job of jobs) {
+    if (job.schedule.kind === "after" && listed.has(job.schedule.jobId)) {
+      const list = downstream.get(job.schedule.jobId) ?? [];
+      list.push(job.id);
+      downstream.set(job.schedule.jobId, list);
+    }
+  }
+  const roots: string[] = [];
+  const nodes = jobs.map((job): CronJobGraphNode => {
+    const node: CronJobGraphNode = {
+      jobId: job.id,
+      name: job.name,
+      enabled: job.enabled,
+      downstreamJobIds: downstream.get(job.id) ?? [],
+    };
+    if (job.schedule.kind === "after") {
+      node.upstreamJobId = job.schedule.jobId;
+      node.on = [...resolveCronTriggerStatuses(job.schedule)];
+      if (!listed.has(job.schedule.jobId)) {
+        node.missingUpstream = true;
+      }
+    }
+    if (!node.upstreamJobId || node.missingUpstream) {
+      roots.push(job.id);
+    }
+    return node;
+  });
+  return { roots, nodes };
+}
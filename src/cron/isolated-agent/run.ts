@@ -1,7 +1,7 @@
 import type { MessagingToolSend } from "../../agents/pi-embedded-messaging.js";
 import type { OpenClawConfig } from "../../config/config.js";
 import type { AgentDefaultsConfig } from "../../config/types.js";
-import type { CronJob } from "../types.js";
+import type { CronJob, CronRunUsage } from "../types.js";
 import {
   resolveAgentConfig,
   resolveAgentDir,
@@ -60,6 +60,13 @@ import {
   getHookType,
   isExternalHookSession,
 } from "../../security/external-content.js";
+import { resolveTenantModelSelection } from "../../tenants/model-policy.js";
+import {
+  enforceTenantQuota,
+  isTenantQuotaError,
+  meterTenantRunUsage,
+} from "../../tenants/quota-gate.js";
+import { estimateUsageCost, resolveModelCostConfig } from "../../utils/usage-format.js";
 import { resolveCronDeliveryPlan } from "../delivery.js";
 import { resolveDeliveryTarget } from "./delivery-target.js";
 import {
@@ -254,6 +261,10 @@ export type RunCronAgentTurnResult = {
   error?: string;
   sessionId?: string;
   sessionKey?: string;
+  /** OPENCLAWMU ADDITION: agent that ran the turn (locates the run transcript). */
+  agentId?: string;
+  /** OPENCLAWMU ADDITION: token usage of the run, when the provider reported it. */
+  usage?: CronRunUsage;
   /**
    * `true` when the isolated run already delivered its output to the target
    * channel (via outbound payloads, the subagent announce flow, or a matching
@@ -272,6 +283,8 @@ export async function runCronIsolatedAgentTurn(params: {
   sessionKey: string;
   agentId?: string;
   lane?: string;
+  /** OPENCLAWMU ADDITION: aborts the embedded agent run (cron `replace` concurrency). */
+  abortSignal?: AbortSignal;
 }): Promise<RunCronAgentTurnResult> {
   const isFastTestEnv = process.env.OPENCLAW_TEST_FAST === "1";
   const defaultAgentId = resolveDefaultAgentId(params.cfg);
@@ -399,12 +412,15 @@ export async function runCronIsolatedAgentTurn(params: {
       }
     });
   };
+  let runUsage: CronRunUsage | undefined;
   const withRunSession = (
-    result: Omit<RunCronAgentTurnResult, "sessionId" | "sessionKey">,
+    result: Omit<RunCronAgentTurnResult, "sessionId" | "sessionKey" | "agentId" | "usage">,
   ): RunCronAgentTurnResult => ({
     ...result,
     sessionId: runSessionId,
     sessionKey: runSessionKey,
+    agentId,
+    usage: runUsage,
   });
   if (!cronSession.sessionEntry.label?.trim() && baseSessionKey.startsWith("cron:")) {
     const labelSuffix =
@@ -546,6 +562,16 @@ export async function runCronIsolatedAgentTurn(params: {
     }
   }
 
+  // OPENCLAWMU ADDITION: tenant quota gate (tenant jobs run as `tenant:{tenantId}:cron:{jobId}`).
+  try {
+    await enforceTenantQuota({ sessionKey: params.sessionKey, source: "cron" });
+  } catch (err) {
+    if (isTenantQuotaError(err)) {
+      return withRunSession({ status: "error", error: `${err.code}: ${err.message}` });
+    }
+    throw err;
+  }
+
   // Persist systemSent before the run, mirroring the inbound auto-reply behavior.
   cronSession.sessionEntry.systemSent = true;
   await persistSessionEntry();
@@ -566,12 +592,22 @@ export async function runCronIsolatedAgentTurn(params: {
       verboseLevel: resolvedVerboseLevel,
     });
     const messageChannel = resolvedDelivery.channel;
+    // OPENCLAWMU ADDITION: tenant model policy (allowed models, tenant default, cost downgrade).
+    const tenantModel = await resolveTenantModelSelection({
+      sessionKey: params.sessionKey,
+      provider,
+      model,
+      fallbacksOverride: resolveAgentModelFallbacksOverride(params.cfg, agentId),
+      cfg: cfgWithAgentDefaults,
+    });
+    provider = fallbackProvider = tenantModel.provider;
+    model = fallbackModel = tenantModel.model;
     const fallbackResult = await runWithModelFallback({
       cfg: cfgWithAgentDefaults,
       provider,
       model,
       agentDir,
-      fallbacksOverride: resolveAgentModelFallbacksOverride(params.cfg, agentId),
+      fallbacksOverride: tenantModel.fallbacksOverride,
       run: (providerOverride, modelOverride) => {
         if (isCliProvider(providerOverride, cfgWithAgentDefaults)) {
           const cliSessionId = getCliSessionId(cronSession.sessionEntry, providerOverride);
@@ -611,6 +647,7 @@ export async function runCronIsolatedAgentTurn(params: {
           runId: cronSession.sessionEntry.sessionId,
           requireExplicitMessageTarget: true,
           disableMessageTool: deliveryRequested,
+          abortSignal: params.abortSignal,
         });
       },
     });
@@ -624,6 +661,18 @@ export async function runCronIsolatedAgentTurn(params: {
 
   const payloads = runResult.payloads ?? [];
 
+  // OPENCLAWMU ADDITION: meter provider-reported usage against the tenant.
+  await meterTenantRunUsage({
+    sessionKey: params.sessionKey,
+    source: "cron",
+    usage: runResult.meta.agentMeta?.usage,
+    provider: runResult.meta.agentMeta?.provider ?? fallbackProvider,
+    model: runResult.meta.agentMeta?.model ?? fallbackModel,
+    cfg: cfgWithAgentDefaults,
+    onError: (err) =>
+      logWarn(`[cron:${params.job.id}] failed to meter tenant usage: ${String(err)}`),
+  });
+
   // Update token+model fields in the session store.
   {
     const usage = runResult.meta.agentMeta?.usage;
@@ -655,6 +704,25 @@ export async function runCronIsolatedAgentTurn(params: {
       cronSession.sessionEntry.outputTokens = output;
       cronSession.sessionEntry.totalTokens = totalTokens;
       cronSession.sessionEntry.totalTokensFresh = true;
+      // OPENCLAWMU ADDITION: per-run usage for the cron run history
+      runUsage = {
+        input,
+        output,
+        cacheRead: usage.cacheRead,
+        cacheWrite: usage.cacheWrite,
+        totalTokens:
+          usage.total ?? input + output + (usage.cacheRead ?? 0) + (usage.cacheWrite ?? 0),
+        costUsd: estimateUsageCost({
+          usage,
+          cost: resolveModelCostConfig({
+            provider: providerUsed,
+            model: modelUsed,
+            config: cfgWithAgentDefaults,
+          }),
+        }),
+        provider: providerUsed,
+        model: modelUsed,
+      };
     }
     await persistSessionEntry();
   }
@@ -7,7 +7,7 @@
  */
 
 import type { CliDeps } from "../cli/deps.js";
-import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { loadConfigForTenant } from "../config/config.js";
 import { resolveAgentMainSessionKey } from "../config/sessions.js";
 import { runHeartbeatOnce } from "../infra/heartbeat-runner.js";
@@ -18,10 +18,12 @@ import { normalizeAgentId } from "../routing/session-key.js";
 import { defaultRuntime } from "../runtime.js";
 import { resolveTenantCronStorePath, resolveTenantSessionsDir } from "../tenants/paths.js";
 import { listTenants, getTenant } from "../tenants/registry.js";
+import { resolveTenantLifecycleState } from "../tenants/types.js";
 import { runCronIsolatedAgentTurn } from "./isolated-agent.js";
-import { appendCronRunLog, resolveCronRunLogPath } from "./run-log.js";
+import { appendCronRunLog, buildCronRunLogEntry, resolveCronRunLogPath } from "./run-log.js";
 import { CronService } from "./service.js";
 import { loadCronStore } from "./store.js";
+import { matchesCronWebhookToken } from "./triggers.js";
 
 export type MultiTenantCronManager = {
   /** Get the global CronService */
@@ -30,6 +32,8 @@ export type MultiTenantCronManager = {
   getTenantService: (tenantId: string) => CronService | undefined;
   /** Ensure a tenant has a CronService (creates if needed) */
   ensureTenantService: (tenantId: string) => Promise<CronService>;
+  /** Check a tenant webhook job's token without creating the tenant's CronService */
+  checkTenantWebhookToken: (tenantId: string, jobId: string, token: string) => Promise<boolean>;
   /** Remove a tenant's CronService (e.g., when tenant is deleted) */
   removeTenantService: (tenantId: string) => void;
   /** Start all services (global + active tenants) */
@@ -121,7 +125,7 @@ export function createMultiTenantCronManager(
           deps: { ...deps, runtime: defaultRuntime },
         });
       },
-      runIsolatedAgentJob: async ({ job, message }) => {
+      runIsolatedAgentJob: async ({ job, message, abortSignal }) => {
         const { agentId, cfg: runtimeConfig } = resolveTenantCronAgent(tenantId, job.agentId);
         return await runCronIsolatedAgentTurn({
           cfg: runtimeConfig,
@@ -131,27 +135,21 @@ export function createMultiTenantCronManager(
           agentId,
           sessionKey: `tenant:${tenantId}:cron:${job.id}`,
           lane: "cron",
+          abortSignal,
         });
       },
+      // OPENCLAWMU ADDITION: root of `watch` schedule paths
+      resolveWorkspaceDir: (requested) => {
+        const { agentId, cfg: runtimeConfig } = resolveTenantCronAgent(tenantId, requested);
+        return resolveAgentWorkspaceDir(runtimeConfig, agentId);
+      },
       log: getChildLogger({ module: "cron", tenantId, storePath }),
       onEvent: (evt) => {
         // Broadcast with tenant prefix
         broadcast(`tenant:${tenantId}:cron`, evt, { dropIfSlow: true });
         if (evt.action === "finished") {
           const logPath = resolveCronRunLogPath({ storePath, jobId: evt.jobId });
-          void appendCronRunLog(logPath, {
-            ts: Date.now(),
-            jobId: evt.jobId,
-            action: "finished",
-            status: evt.status,
-            error: evt.error,
-            summary: evt.summary,
-            sessionId: evt.sessionId,
-            sessionKey: evt.sessionKey,
-            runAtMs: evt.runAtMs,
-            durationMs: evt.durationMs,
-            nextRunAtMs: evt.nextRunAtMs,
-          }).catch((err) => {
+          void appendCronRunLog(logPath, buildCronRunLogEntry(evt)).catch((err) => {
             cronLogger.warn(
               { err: String(err), logPath, tenantId },
               "cron: tenant run log append failed",
@@ -194,6 +192,22 @@ export function createMultiTenantCronManager(
       return service;
     },
 
+    checkTenantWebhookToken: async (tenantId, jobId, token) => {
+      const service = tenantServices.get(tenantId);
+      if (service) {
+        return await service.checkWebhookToken(jobId, token);
+      }
+      try {
+        const store = await loadCronStore(resolveTenantCronStorePath(tenantId));
+        return matchesCronWebhookToken(
+          store.jobs.find((job) => job.id === jobId),
+          token,
+        );
+      } catch {
+        return false;
+      }
+    },
+
     removeTenantService: (tenantId) => {
       const service = tenantServices.get(tenantId);
       if (service) {
@@ -213,7 +227,7 @@ export function createMultiTenantCronManager(
         const tenantIds = listTenants();
         for (const tenantId of tenantIds) {
           const tenant = getTenant(tenantId);
-          if (!tenant || tenant.disabled) {
+          if (!tenant || resolveTenantLifecycleState(tenant) !== "active") {
             continue;
           }
           const hasJobs = await tenantHasCronJobs(tenantId);
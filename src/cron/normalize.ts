@@ -23,7 +23,15 @@ const DEFAULT_OPTIONS: NormalizeOptions = {
 function coerceSchedule(schedule: UnknownRecord) {
   const next: UnknownRecord = { ...schedule };
   const rawKind = typeof schedule.kind === "string" ? schedule.kind.trim().toLowerCase() : "";
-  const kind = rawKind === "at" || rawKind === "every" || rawKind === "cron" ? rawKind : undefined;
+  const kind =
+    rawKind === "at" ||
+    rawKind === "every" ||
+    rawKind === "cron" ||
+    rawKind === "after" ||
+    rawKind === "webhook" ||
+    rawKind === "watch"
+      ? rawKind
+      : undefined;
   const atMsRaw = schedule.atMs;
   const atRaw = schedule.at;
   const atString = typeof atRaw === "string" ? atRaw.trim() : "";
@@ -334,6 +342,13 @@ export function normalizeCronJobInput(
     }
   }
 
+  // OPENCLAWMU ADDITION: run policy values are case-insensitive
+  for (const field of ["concurrency", "catchUp"] as const) {
+    if (typeof base[field] === "string") {
+      next[field] = base[field].trim().toLowerCase();
+    }
+  }
+
   if (isRecord(base.schedule)) {
     next.schedule = coerceSchedule(base.schedule);
   }
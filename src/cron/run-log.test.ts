@@ -2,7 +2,15 @@ import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
-import { appendCronRunLog, readCronRunLogEntries, resolveCronRunLogPath } from "./run-log.js";
+import {
+  appendCronRunLog,
+  buildCronRunLogEntry,
+  queryCronRunLog,
+  readCronRunLogEntries,
+  resolveCronRunLogPath,
+  summarizeCronRuns,
+  type CronRunLogEntry,
+} from "./run-log.js";
 
 describe("cron run log", () => {
   it("resolves store path to per-job runs/<jobId>.jsonl", () => {
@@ -97,4 +105,115 @@ describe("cron run log", () => {
 
     await fs.rm(dir, { recursive: true, force: true });
   });
+
+  it("queries runs across jobs with filters and cursor pages", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-log-query-"));
+    const storePath = path.join(dir, "jobs.json");
+    const statuses = ["ok", "error", "ok", "skipped", "ok", "error"] as const;
+    for (const [i, status] of statuses.entries()) {
+      const jobId = i % 2 === 0 ? "a" : "b";
+      await appendCronRunLog(resolveCronRunLogPath({ storePath, jobId }), {
+        ts: 1000 + i * 100,
+        jobId,
+        action: "finished",
+        status,
+      });
+    }
+
+    const all = await queryCronRunLog(storePath, { limit: 4 });
+    expect(all.total).toBe(6);
+    expect(all.entries.map((e) => e.ts)).toEqual([1200, 1300, 1400, 1500]);
+    expect(all.nextCursor).toBe("1200:a");
+    // Runs logged after the first page do not shift the next one
+    await appendCronRunLog(resolveCronRunLogPath({ storePath, jobId: "a" }), {
+      ts: 2000,
+      jobId: "a",
+      action: "finished",
+      status: "ok",
+    });
+    const older = await queryCronRunLog(storePath, { limit: 4, cursor: all.nextCursor });
+    expect(older.entries.map((e) => e.ts)).toEqual([1000, 1100]);
+    expect(older.nextCursor).toBeUndefined();
+
+    const filtered = await queryCronRunLog(storePath, {
+      statuses: ["ok", "skipped"],
+      sinceMs: 1200,
+      untilMs: 2000,
+    });
+    expect(filtered.entries.map((e) => [e.jobId, e.ts])).toEqual([
+      ["a", 1200],
+      ["b", 1300],
+      ["a", 1400],
+    ]);
+    const onlyB = await queryCronRunLog(storePath, { jobId: "b" });
+    expect(onlyB.entries.map((e) => e.status)).toEqual(["error", "skipped", "error"]);
+    expect((await queryCronRunLog(storePath, { jobId: "../b" })).total).toBe(0);
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("logs outputs and usage of finished runs", async () => {
+    const entry = buildCronRunLogEntry(
+      {
+        jobId: "a",
+        action: "finished",
+        status: "ok",
+        sessionId: "run-1",
+        outputText: `  ${"x".repeat(2500)}  `,
+        agentId: "main",
+        usage: { input: 10, output: 5, totalTokens: 15, costUsd: 0.01, model: "m" },
+      },
+      42,
+    );
+    expect(entry).toMatchObject({ ts: 42, agentId: "main", usage: { totalTokens: 15 } });
+    expect(entry.outputText).toBe(`${"x".repeat(2000)}\n[truncated]`);
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-log-usage-"));
+    const logPath = path.join(dir, "runs", "a.jsonl");
+    await appendCronRunLog(logPath, entry);
+    const [read] = await readCronRunLogEntries(logPath);
+    expect(read).toMatchObject({ sessionId: "run-1", agentId: "main", usage: { costUsd: 0.01 } });
+    expect(read?.outputText).toBe(entry.outputText);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("summarizes success rate, p95 duration and usage per job", () => {
+    const run = (
+      jobId: string,
+      ts: number,
+      status: CronRunLogEntry["status"],
+      durationMs: number,
+      costUsd?: number,
+    ): CronRunLogEntry => ({
+      ts,
+      jobId,
+      action: "finished",
+      status,
+      durationMs,
+      usage: { totalTokens: 100, costUsd },
+    });
+    const entries = [
+      ...Array.from({ length: 19 }, (_, i) => run("a", i, "ok", (i + 1) * 10, 0.5)),
+      run("a", 19, "error", 5000),
+      run("a", 20, "skipped", 1),
+      run("b", 1, "skipped", 7),
+    ];
+    const [a, b] = summarizeCronRuns(entries);
+    expect(a).toMatchObject({
+      jobId: "a",
+      runs: 21,
+      ok: 19,
+      error: 1,
+      skipped: 1,
+      successRate: 0.95,
+      p95DurationMs: 190,
+      lastRunAtMs: 20,
+      lastStatus: "skipped",
+      totalTokens: 2100,
+      costUsd: 9.5,
+    });
+    expect(b).toMatchObject({ jobId: "b", runs: 1, p95DurationMs: 7 });
+    expect(b?.successRate).toBeUndefined();
+    expect(b?.costUsd).toBeUndefined();
+  });
 });
@@ -1,11 +1,15 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import type { CronEvent } from "./service/state.js";
+import type { CronRunUsage } from "./types.js";
+
+export type CronRunStatus = "ok" | "error" | "skipped";
 
 export type CronRunLogEntry = {
   ts: number;
   jobId: string;
   action: "finished";
-  status?: "ok" | "error" | "skipped";
+  status?: CronRunStatus;
   error?: string;
   summary?: string;
   sessionId?: string;
@@ -13,12 +17,67 @@ export type CronRunLogEntry = {
   runAtMs?: number;
   durationMs?: number;
   nextRunAtMs?: number;
+  // OPENCLAWMU ADDITION: run outputs
+  /** Final agent text, cut to MAX_RUN_LOG_OUTPUT_CHARS. */
+  outputText?: string;
+  /** Agent that ran the turn; with sessionId it locates the run transcript. */
+  agentId?: string;
+  usage?: CronRunUsage;
+};
+
+/** OPENCLAWMU ADDITION: final agent text kept per run log entry. */
+export const MAX_RUN_LOG_OUTPUT_CHARS = 2000;
+
+/**
+ * OPENCLAWMU ADDITION: filters for a run history query. Time bounds apply to the
+ * entry timestamp (when the run finished).
+ */
+export type CronRunLogQuery = {
+  jobId?: string;
+  statuses?: CronRunStatus[];
+  /** Inclusive lower bound. */
+  sinceMs?: number;
+  /** Exclusive upper bound. */
+  untilMs?: number;
+  limit?: number;
+  /** `nextCursor` of the previous page. */
+  cursor?: string;
+};
+
+export type CronRunLogPage = {
+  /** One page of matching entries, oldest first. */
+  entries: CronRunLogEntry[];
+  /** Matching entries across all pages. */
+  total: number;
+  /** Cursor of the next (older) page, when there is one. */
+  nextCursor?: string;
+};
+
+/** OPENCLAWMU ADDITION: aggregate outcome of the logged runs of one job. */
+export type CronRunStats = {
+  jobId: string;
+  runs: number;
+  ok: number;
+  error: number;
+  skipped: number;
+  /** ok / (ok + error); unset when no run succeeded or failed. */
+  successRate?: number;
+  avgDurationMs?: number;
+  p95DurationMs?: number;
+  lastRunAtMs?: number;
+  lastStatus?: CronRunStatus;
+  totalTokens: number;
+  /** Sum over the runs that could be priced. */
+  costUsd?: number;
 };
 
 export function resolveCronRunLogPath(params: { storePath: string; jobId: string }) {
-  const storePath = path.resolve(params.storePath);
-  const dir = path.dirname(storePath);
-  return path.join(dir, "runs", `${params.jobId}.jsonl`);
+  return path.join(resolveCronRunLogDir(params.storePath), `${params.jobId}.jsonl`);
+}
+
+/** OPENCLAWMU ADDITION: directory holding the run logs of a store. */
+export function resolveCronRunLogDir(storePath: string) {
+  return path.join(path.dirname(path.resolve(storePath)), "runs");
 }
 
 const writesByPath = new Map<string, Promise<void>>();
@@ -74,48 +133,215 @@ export async function readCronRunLogEntries(
   const parsed: CronRunLogEntry[] = [];
   const lines = raw.split("\n");
   for (let i = lines.length - 1; i >= 0 && parsed.length < limit; i--) {
-    const line = lines[i]?.trim();
-    if (!line) {
+    const entry = parseCronRunLogLine(lines[i]);
+    if (!entry) {
       continue;
     }
-    try {
-      const obj = JSON.parse(line) as Partial<CronRunLogEntry> | null;
-      if (!obj || typeof obj !== "object") {
-        continue;
-      }
-      if (obj.action !== "finished") {
-        continue;
-      }
-      if (typeof obj.jobId !== "string" || obj.jobId.trim().length === 0) {
-        continue;
-      }
-      if (typeof obj.ts !== "number" || !Number.isFinite(obj.ts)) {
-        continue;
-      }
-      if (jobId && obj.jobId !== jobId) {
-        continue;
-      }
-      const entry: CronRunLogEntry = {
-        ts: obj.ts,
-        jobId: obj.jobId,
-        action: "finished",
-        status: obj.status,
-        error: obj.error,
-        summary: obj.summary,
-        runAtMs: obj.runAtMs,
-        durationMs: obj.durationMs,
-        nextRunAtMs: obj.nextRunAtMs,
-      };
-      if (typeof obj.sessionId === "string" && obj.sessionId.trim().length > 0) {
-        entry.sessionId = obj.sessionId;
-      }
-      if (typeof obj.sessionKey === "string" && obj.sessionKey.trim().length > 0) {
-        entry.sessionKey = obj.sessionKey;
-      }
-      parsed.push(entry);
-    } catch {
-      // ignore invalid lines
+    if (jobId && entry.jobId !== jobId) {
+      continue;
     }
+    parsed.push(entry);
   }
   return parsed.toReversed();
 }
+
+function parseCronRunLogLine(raw: string | undefined): CronRunLogEntry | null {
+  const line = raw?.trim();
+  if (!line) {
+    return null;
+  }
+  try {
+    const obj = JSON.parse(line) as Partial<CronRunLogEntry> | null;
+    if (!obj || typeof obj !== "object") {
+      return null;
+    }
+    if (obj.action !== "finished") {
+      return null;
+    }
+    if (typeof obj.jobId !== "string" || obj.jobId.trim().length === 0) {
+      return null;
+    }
+    if (typeof obj.ts !== "number" || !Number.isFinite(obj.ts)) {
+      return null;
+    }
+    const entry: CronRunLogEntry = {
+      ts: obj.ts,
+      jobId: obj.jobId,
+      action: "finished",
+      status: obj.status,
+      error: obj.error,
+      summary: obj.summary,
+      runAtMs: obj.runAtMs,
+      durationMs: obj.durationMs,
+      nextRunAtMs: obj.nextRunAtMs,
+    };
+    if (typeof obj.sessionId === "string" && obj.sessionId.trim().length > 0) {
+      entry.sessionId = obj.sessionId;
+    }
+    if (typeof obj.sessionKey === "string" && obj.sessionKey.trim().length > 0) {
+      entry.sessionKey = obj.sessionKey;
+    }
+    if (typeof obj.outputText === "string" && obj.outputText.length > 0) {
+      entry.outputText = obj.outputText;
+    }
+    if (typeof obj.agentId === "string" && obj.agentId.trim().length > 0) {
+      entry.agentId = obj.agentId;
+    }
+    if (obj.usage && typeof obj.usage === "object") {
+      entry.usage = obj.usage;
+    }
+    return entry;
+  } catch {
+    // ignore invalid lines
+    return null;
+  }
+}
+
+/**
+ * OPENCLAWMU ADDITION: builds the run log entry for a finished run event.
+ */
+export function buildCronRunLogEntry(evt: CronEvent, ts = Date.now()): CronRunLogEntry {
+  const outputText = evt.outputText?.trim();
+  return {
+    ts,
+    jobId: evt.jobId,
+    action: "finished",
+    status: evt.status,
+    error: evt.error,
+    summary: evt.summary,
+    sessionId: evt.sessionId,
+    sessionKey: evt.sessionKey,
+    runAtMs: evt.runAtMs,
+    durationMs: evt.durationMs,
+    nextRunAtMs: evt.nextRunAtMs,
+    outputText:
+      outputText && outputText.length > MAX_RUN_LOG_OUTPUT_CHARS
+        ? `${outputText.slice(0, MAX_RUN_LOG_OUTPUT_CHARS)}\n[truncated]`
+        : outputText || undefined,
+    agentId: evt.agentId,
+    usage: evt.usage,
+  };
+}
+
+/**
+ * OPENCLAWMU ADDITION: reads every logged run of a store (or of one job).
+ */
+export async function readAllCronRunLogEntries(params: {
+  storePath: string;
+  jobId?: string;
+}): Promise<CronRunLogEntry[]> {
+  const jobId = params.jobId?.trim() || undefined;
+  if (jobId && path.basename(jobId) !== jobId) {
+    return [];
+  }
+  const dir = resolveCronRunLogDir(params.storePath);
+  const files = jobId
+    ? [`${jobId}.jsonl`]
+    : (await fs.readdir(dir).catch(() => [] as string[])).filter((name) => name.endsWith(".jsonl"));
+  const entries: CronRunLogEntry[] = [];
+  for (const file of files) {
+    const raw = await fs.readFile(path.join(dir, file), "utf-8").catch(() => "");
+    for (const line of raw.split("\n")) {
+      const entry = parseCronRunLogLine(line);
+      if (entry && (!jobId || entry.jobId === jobId)) {
+        entries.push(entry);
+      }
+    }
+  }
+  return entries;
+}
+
+function compareNewestFirst(a: Pick<CronRunLogEntry, "ts" | "jobId">, b: typeof a) {
+  return b.ts - a.ts || (a.jobId < b.jobId ? 1 : a.jobId > b.jobId ? -1 : 0);
+}
+
+function parseCursor(cursor: string | undefined): { ts: number; jobId: string } | undefined {
+  const sep = cursor?.indexOf(":") ?? -1;
+  if (!cursor || sep <= 0) {
+    return undefined;
+  }
+  const ts = Number(cursor.slice(0, sep));
+  return Number.isFinite(ts) ? { ts, jobId: cursor.slice(sep + 1) } : undefined;
+}
+
+/**
+ * OPENCLAWMU ADDITION: filters and pages the run history of a store. Pages walk back
+ * in time; the cursor names the oldest entry returned, so runs logged between two
+ * requests do not shift later pages.
+ */
+export async function queryCronRunLog(
+  storePath: string,
+  query: CronRunLogQuery = {},
+): Promise<CronRunLogPage> {
+  const limit = Math.max(1, Math.min(5000, Math.floor(query.limit ?? 200)));
+  const statuses = query.statuses && query.statuses.length > 0 ? query.statuses : undefined;
+  const matching = (await readAllCronRunLogEntries({ storePath, jobId: query.jobId }))
+    .filter(
+      (entry) =>
+        (!statuses || (entry.status !== undefined && statuses.includes(entry.status))) &&
+        (query.sinceMs === undefined || entry.ts >= query.sinceMs) &&
+        (query.untilMs === undefined || entry.ts < query.untilMs),
+    )
+    .toSorted(compareNewestFirst);
+  const cursor = parseCursor(query.cursor);
+  const start = cursor ? matching.findIndex((entry) => compareNewestFirst(cursor, entry) < 0) : 0;
+  const page = start < 0 ? [] : matching.slice(start, start + limit);
+  const last = page.at(-1);
+  const hasMore = start >= 0 && start + limit < matching.length;
+  return {
+    entries: page.toReversed(),
+    total: matching.length,
+    nextCursor: hasMore && last ? `${last.ts}:${last.jobId}` : undefined,
+  };
+}
+
+function percentile(sorted: readonly number[], p: number): number | undefined {
+  if (sorted.length === 0) {
+    return undefined;
+  }
+  // Nearest-rank
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+}
+
+/**
+ * OPENCLAWMU ADDITION: per-job success rate, durations and usage of the given runs.
+ */
+export function summarizeCronRuns(entries: readonly CronRunLogEntry[]): CronRunStats[] {
+  const byJob = new Map<string, CronRunLogEntry[]>();
+  for (const entry of entries) {
+    const list = byJob.get(entry.jobId) ?? [];
+    list.push(entry);
+    byJob.set(entry.jobId, list);
+  }
+  return [...byJob.entries()].map(([jobId, runs]) => {
+    const count = (status: CronRunStatus) => runs.filter((run) => run.status === status).length;
+    const ok = count("ok");
+    const error = count("error");
+    const durations = runs
+      .map((run) => run.durationMs)
+      .filter((ms): ms is number => typeof ms === "number" && Number.isFinite(ms))
+      .toSorted((a, b) => a - b);
+    const last = runs.reduce((latest, run) => (run.ts > latest.ts ? run : latest));
+    const priced = runs.filter((run) => typeof run.usage?.costUsd === "number");
+    return {
+      jobId,
+      runs: runs.length,
+      ok,
+      error,
+      skipped: count("skipped"),
+      successRate: ok + error > 0 ? ok / (ok + error) : undefined,
+      avgDurationMs:
+        durations.length > 0
+          ? Math.round(durations.reduce((sum, ms) => sum + ms, 0) / durations.length)
+          : undefined,
+      p95DurationMs: percentile(durations, 0.95),
+      lastRunAtMs: last.runAtMs ?? last.ts,
+      lastStatus: last.status,
+      totalTokens: runs.reduce((sum, run) => sum + (run.usage?.totalTokens ?? 0), 0),
+      costUsd:
+        priced.length > 0
+          ? priced.reduce((sum, run) => sum + (run.usage?.costUsd ?? 0), 0)
+          : undefined,
+    };
+  });
+}
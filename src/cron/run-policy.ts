@@ -0,0 +1,105 @@
+/**
+ * Cron job run policies.
+ * OPENCLAWMU ADDITION: declarative retries, jitter, overlap (`concurrency`) and
+ * missed-run (`catchUp`) handling, applied by the service timer.
+ *
+ * Retries replace the built-in error backoff until they are used up: a failed run is
+ * retried after `backoffMs` (growing per `backoff`), and only the final failure counts
+ * for `after` dependents. Overlap and catch-up policies only apply to time-based
+ * schedules (`every`, `cron`); one-shot and completion-triggered jobs run once.
+ */
+
+import type {
+  CronCatchUpPolicy,
+  CronConcurrencyPolicy,
+  CronJob,
+  CronRetryPolicy,
+} from "./types.js";
+
+export const DEFAULT_CRON_RETRY_BACKOFF_MS = 30_000;
+export const DEFAULT_CRON_RETRY_MAX_BACKOFF_MS = 60 * 60_000;
+/** `catchUp: "all"` makes up at most this many missed runs per job. */
+export const MAX_CRON_CATCH_UP_RUNS = 50;
+
+const MAX_RETRY_ATTEMPTS = 100;
+
+export function resolveCronConcurrency(job: Pick<CronJob, "concurrency">): CronConcurrencyPolicy {
+  return job.concurrency ?? "skip";
+}
+
+export function resolveCronCatchUp(job: Pick<CronJob, "catchUp">): CronCatchUpPolicy {
+  return job.catchUp ?? "latest";
+}
+
+/**
+ * Delay before retry number `attempt` (1 = first retry).
+ */
+export function resolveCronRetryDelayMs(policy: CronRetryPolicy, attempt: number): number {
+  const base = Math.max(0, policy.backoffMs ?? DEFAULT_CRON_RETRY_BACKOFF_MS);
+  const step = Math.max(1, attempt);
+  const delay =
+    policy.backoff === "fixed"
+      ? base
+      : policy.backoff === "linear"
+        ? base * step
+        : base * 2 ** (step - 1);
+  return Math.min(delay, Math.max(0, policy.maxBackoffMs ?? DEFAULT_CRON_RETRY_MAX_BACKOFF_MS));
+}
+
+/**
+ * Returns the retry number to schedule after a failed run, or undefined when the job
+ * has no retry policy or used up its attempts.
+ */
+export function resolveNextCronRetryAttempt(
+  job: Pick<CronJob, "retry" | "state">,
+): number | undefined {
+  const maxAttempts = job.retry?.maxAttempts ?? 1;
+  const attempt = (job.state.retryAttempt ?? 0) + 1;
+  return attempt < maxAttempts ? attempt : undefined;
+}
+
+/**
+ * Adds the job's random jitter to a scheduled run time.
+ */
+export function applyCronJitter(
+  job: Pick<CronJob, "jitterMs">,
+  nextRunAtMs: number | undefined,
+): number | undefined {
+  const jitterMs = job.jitterMs ?? 0;
+  if (nextRunAtMs === undefined || jitterMs <= 0) {
+    return nextRunAtMs;
+  }
+  return nextRunAtMs + Math.floor(Math.random() * (jitterMs + 1));
+}
+
+/**
+ * Validates the run policy fields of a job. Throws on invalid values.
+ */
+export function assertCronRunPolicy(
+  job: Pick<CronJob, "retry" | "jitterMs" | "concurrency" | "catchUp">,
+): void {
+  if (job.retry) {
+    const { maxAttempts, backoffMs, maxBackoffMs, backoff } = job.retry;
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_RETRY_ATTEMPTS) {
+      throw new Error(`cron retry.maxAttempts must be an integer from 1 to ${MAX_RETRY_ATTEMPTS}`);
+    }
+    if (backoffMs !== undefined && (!Number.isFinite(backoffMs) || backoffMs < 0)) {
+      throw new Error("cron retry.backoffMs must be a non-negative number");
+    }
+    if (maxBackoffMs !== undefined && (!Number.isFinite(maxBackoffMs) || maxBackoffMs < 0)) {
+      throw new Error("cron retry.maxBackoffMs must be a non-negative number");
+    }
+    if (backoff !== undefined && !["fixed", "linear", "exponential"].includes(backoff)) {
+      throw new Error('cron retry.backoff must be "fixed", "linear" or "exponential"');
+    }
+  }
+  if (job.jitterMs !== undefined && (!Number.isFinite(job.jitterMs) || job.jitterMs < 0)) {
+    throw new Error("cron jitterMs must be a non-negative number");
+  }
+  if (job.concurrency !== undefined && !["skip", "queue", "replace"].includes(job.concurrency)) {
+    throw new Error('cron concurrency must be "skip", "queue" or "replace"');
+  }
+  if (job.catchUp !== undefined && !["none", "latest", "all"].includes(job.catchUp)) {
+    throw new Error('cron catchUp must be "none", "latest" or "all"');
+  }
+}
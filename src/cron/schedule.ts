@@ -1,7 +1,19 @@
 import { Cron } from "croner";
 import type { CronSchedule } from "./types.js";
+import { type CronCalendars, compileCronCalendar } from "./calendar.js";
 import { parseAbsoluteTimeMs } from "./parse.js";
 
+/** OPENCLAWMU ADDITION: ticks a calendar may skip before a schedule gives up. */
+const MAX_CALENDAR_SKIPS = 2000;
+
+/** OPENCLAWMU ADDITION: upper bound of `previewCronRuns` counts. */
+export const MAX_CRON_PREVIEW_RUNS = 100;
+
+export type CronScheduleOptions = {
+  /** OPENCLAWMU ADDITION: named calendars `schedule.calendar.exclude` refers to. */
+  calendars?: CronCalendars;
+};
+
 function resolveCronTimezone(tz?: string) {
   const trimmed = typeof tz === "string" ? tz.trim() : "";
   if (trimmed) {
@@ -10,7 +22,72 @@ function resolveCronTimezone(tz?: string) {
   return Intl.DateTimeFormat().resolvedOptions().timeZone;
 }
 
-export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): number | undefined {
+export function computeNextRunAtMs(
+  schedule: CronSchedule,
+  nowMs: number,
+  opts?: CronScheduleOptions,
+): number | undefined {
+  const next = computeNextTickAtMs(schedule, nowMs);
+  // OPENCLAWMU ADDITION: calendar rules skip ticks until one passes
+  const rules =
+    schedule.kind === "every" || schedule.kind === "cron" ? schedule.calendar : undefined;
+  if (!rules || next === undefined) {
+    return next;
+  }
+  const check = compileCronCalendar(rules, {
+    tz: resolveCronTimezone(rules.tz ?? (schedule.kind === "cron" ? schedule.tz : undefined)),
+    calendars: opts?.calendars,
+  });
+  let candidate = next;
+  for (let i = 0; i < MAX_CALENDAR_SKIPS; i += 1) {
+    const skipToMs = check(candidate);
+    if (skipToMs === undefined) {
+      return candidate;
+    }
+    // First tick at or after `skipToMs` (cron ticks are strictly after their input)
+    const following = computeNextTickAtMs(
+      schedule,
+      schedule.kind === "cron" ? skipToMs - 1 : skipToMs,
+    );
+    if (following === undefined || following <= candidate) {
+      return undefined;
+    }
+    candidate = following;
+  }
+  return undefined;
+}
+
+/**
+ * OPENCLAWMU ADDITION: the next `count` fire times after `fromMs`, without jitter.
+ * Empty for completion- and event-triggered schedules.
+ */
+export function previewCronRuns(
+  schedule: CronSchedule,
+  params: { fromMs: number; count: number } & CronScheduleOptions,
+): number[] {
+  const runs: number[] = [];
+  const count = Math.min(Math.max(1, Math.floor(params.count)), MAX_CRON_PREVIEW_RUNS);
+  const anchored =
+    schedule.kind === "every" && schedule.anchorMs === undefined
+      ? { ...schedule, anchorMs: params.fromMs }
+      : schedule;
+  let cursor = params.fromMs;
+  while (runs.length < count) {
+    const next = computeNextRunAtMs(anchored, cursor, params);
+    if (next === undefined) {
+      break;
+    }
+    runs.push(next);
+    if (anchored.kind === "at") {
+      break;
+    }
+    // Interval ticks are inclusive of their input
+    cursor = anchored.kind === "every" ? next + 1 : next;
+  }
+  return runs;
+}
+
+function computeNextTickAtMs(schedule: CronSchedule, nowMs: number): number | undefined {
   if (schedule.kind === "at") {
     // Handle both canonical `at` (string) and legacy `atMs` (number) fields.
     // The store migration should convert atMs→at, but be defensive in case
@@ -41,6 +118,11 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
     return anchor + steps * everyMs;
   }
 
+  // OPENCLAWMU ADDITION: completion- and event-triggered jobs have no time-based runs
+  if (schedule.kind === "after" || schedule.kind === "webhook" || schedule.kind === "watch") {
+    return undefined;
+  }
+
   const expr = schedule.expr.trim();
   if (!expr) {
     return undefined;
@@ -0,0 +1,224 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { CronEvent } from "./service.js";
+import type { CronJob, CronJobCreate } from "./types.js";
+import { resolveCronRetryDelayMs } from "./run-policy.js";
+import { CronService } from "./service.js";
+import {
+  createCronStoreHarness,
+  createNoopLogger,
+  installCronTestHooks,
+} from "./service.test-harness.js";
+
+const noopLogger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "openclaw-cron-policies-" });
+installCronTestHooks({ logger: noopLogger, baseTimeIso: "2025-12-13T00:00:00.000Z" });
+
+const T0 = Date.parse("2025-12-13T00:00:00.000Z");
+
+type RunIsolatedAgentJob = (params: { job: CronJob; message: string }) => Promise<{
+  status: "ok" | "error" | "skipped";
+  error?: string;
+}>;
+
+async function createService(params: {
+  runIsolatedAgentJob: RunIsolatedAgentJob;
+  cronEnabled?: boolean;
+  onEvent?: (evt: CronEvent) => void;
+}) {
+  const store = await makeStorePath();
+  const cron = new CronService({
+    storePath: store.storePath,
+    cronEnabled: params.cronEnabled ?? false,
+    log: noopLogger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: vi.fn(params.runIsolatedAgentJob),
+    onEvent: params.onEvent,
+  });
+  return { cron, store };
+}
+
+function isolatedJob(overrides: Partial<CronJobCreate>): CronJobCreate {
+  return {
+    name: "policy job",
+    enabled: true,
+    schedule: { kind: "every", everyMs: 60_000 },
+    sessionTarget: "isolated",
+    wakeMode: "now",
+    payload: { kind: "agentTurn", message: "work" },
+    delivery: { mode: "none" },
+    ...overrides,
+  };
+}
+
+async function findJob(cron: CronService, id: string) {
+  const jobs = await cron.list({ includeDisabled: true });
+  return jobs.find((job) => job.id === id);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("cron retry policy", () => {
+  it("computes backoff curves", () => {
+    expect([1, 2, 3].map((n) => resolveCronRetryDelayMs({ maxAttempts: 4 }, n))).toEqual([
+      30_000, 60_000, 120_000,
+    ]);
+    expect(
+      [1, 2, 3].map((n) =>
+        resolveCronRetryDelayMs({ maxAttempts: 4, backoff: "linear", backoffMs: 1000 }, n),
+      ),
+    ).toEqual([1000, 2000, 3000]);
+    expect(resolveCronRetryDelayMs({ maxAttempts: 4, backoff: "fixed", backoffMs: 5000 }, 3)).toBe(
+      5000,
+    );
+    expect(
+      resolveCronRetryDelayMs({ maxAttempts: 9, backoffMs: 1000, maxBackoffMs: 10_000 }, 8),
+    ).toBe(10_000);
+  });
+
+  it("retries failed runs before falling back to the schedule", async () => {
+    const { cron } = await createService({
+      runIsolatedAgentJob: async () => ({ status: "error", error: "flaky" }),
+    });
+    const job = await cron.add(
+      isolatedJob({
+        schedule: { kind: "every", everyMs: 3_600_000 },
+        retry: { maxAttempts: 3, backoffMs: 1000 },
+      }),
+    );
+
+    await cron.run(job.id, "force");
+    expect((await findJob(cron, job.id))?.state).toMatchObject({
+      retryAttempt: 1,
+      nextRunAtMs: T0 + 1000,
+    });
+
+    vi.setSystemTime(T0 + 1000);
+    await cron.run(job.id, "due");
+    expect((await findJob(cron, job.id))?.state).toMatchObject({
+      retryAttempt: 2,
+      nextRunAtMs: T0 + 3000,
+    });
+
+    vi.setSystemTime(T0 + 3000);
+    await cron.run(job.id, "due");
+    const exhausted = await findJob(cron, job.id);
+    expect(exhausted?.state.retryAttempt).toBeUndefined();
+    expect(exhausted?.state.consecutiveErrors).toBe(3);
+    expect(exhausted?.state.nextRunAtMs).toBe(T0 + 3_600_000);
+    expect(noopLogger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ jobId: job.id, attempts: 3 }),
+      "cron: job failed after all retry attempts",
+    );
+  });
+
+  it("rejects invalid policies", async () => {
+    const { cron } = await createService({ runIsolatedAgentJob: async () => ({ status: "ok" }) });
+    await expect(cron.add(isolatedJob({ retry: { maxAttempts: 0 } }))).rejects.toThrow(
+      "cron retry.maxAttempts must be an integer from 1 to 100",
+    );
+    await expect(cron.add(isolatedJob({ jitterMs: -1 }))).rejects.toThrow(
+      "cron jitterMs must be a non-negative number",
+    );
+  });
+});
+
+describe("cron jitter", () => {
+  it("delays scheduled runs by a random amount", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const { cron } = await createService({ runIsolatedAgentJob: async () => ({ status: "ok" }) });
+    const job = await cron.add(isolatedJob({ jitterMs: 10_000 }));
+    expect(job.state.nextRunAtMs).toBe(T0 + 60_000 + 5000);
+  });
+});
+
+describe("cron concurrency policy", () => {
+  it.each([
+    ["skip", T0 + 120_000],
+    ["queue", T0 + 100_000],
+  ] as const)("%s: handles a tick that came due during the run", async (concurrency, next) => {
+    const { cron } = await createService({
+      runIsolatedAgentJob: async () => {
+        // The run outlasts the tick at T0 + 60s
+        vi.setSystemTime(T0 + 100_000);
+        return { status: "ok" };
+      },
+    });
+    const job = await cron.add(isolatedJob({ concurrency }));
+    vi.setSystemTime(T0 + 10_000);
+
+    await cron.run(job.id, "force");
+
+    expect((await findJob(cron, job.id))?.state.nextRunAtMs).toBe(next);
+  });
+
+  it("replace: aborts the running attempt when the next tick comes due", async () => {
+    const events: CronEvent[] = [];
+    let signal: AbortSignal | undefined;
+    const { cron } = await createService({
+      runIsolatedAgentJob: ({ abortSignal }) => {
+        signal = abortSignal;
+        return new Promise(() => {});
+      },
+      onEvent: (evt) => events.push(evt),
+    });
+    const job = await cron.add(isolatedJob({ concurrency: "replace" }));
+    vi.setSystemTime(T0 + 10_000);
+
+    const run = cron.run(job.id, "force");
+    await vi.advanceTimersByTimeAsync(50_000);
+    await run;
+
+    expect(signal?.aborted).toBe(true);
+    expect(events.find((evt) => evt.action === "finished")).toMatchObject({
+      status: "skipped",
+      error: "replaced by the next scheduled run",
+    });
+    const updated = await findJob(cron, job.id);
+    expect(updated?.state).toMatchObject({
+      lastStatus: "skipped",
+      pendingRunAtMs: T0 + 60_000,
+      nextRunAtMs: T0 + 60_000,
+    });
+  });
+});
+
+describe("cron catch-up policy", () => {
+  it.each([
+    ["none", 0],
+    ["latest", 1],
+    ["all", 6],
+  ] as const)("%s: makes up missed runs on start", async (catchUp, runs) => {
+    const runIsolatedAgentJob = vi.fn(async () => ({ status: "ok" as const }));
+    const { cron, store } = await createService({ runIsolatedAgentJob, cronEnabled: true });
+    vi.setSystemTime(T0 + 30_000);
+    await fs.mkdir(path.dirname(store.storePath), { recursive: true });
+    await fs.writeFile(
+      store.storePath,
+      JSON.stringify({
+        version: 1,
+        jobs: [
+          {
+            ...isolatedJob({ catchUp }),
+            id: "missed",
+            createdAtMs: T0 - 600_000,
+            updatedAtMs: T0 - 600_000,
+            schedule: { kind: "every", everyMs: 60_000, anchorMs: T0 - 600_000 },
+            // Ticks at -300s, -240s, ..., 0s were missed
+            state: { nextRunAtMs: T0 - 300_000 },
+          },
+        ],
+      }),
+    );
+
+    await cron.start();
+    cron.stop();
+
+    expect(runIsolatedAgentJob).toHaveBeenCalledTimes(runs);
+    expect((await findJob(cron, "missed"))?.state.nextRunAtMs).toBe(T0 + 60_000);
+  });
+});
@@ -1,7 +1,9 @@
+import type { CronFireInput } from "./service/events.js";
 import type { CronJobCreate, CronJobPatch } from "./types.js";
 import * as ops from "./service/ops.js";
 import { type CronServiceDeps, createCronServiceState } from "./service/state.js";
 
+export type { CronFireInput } from "./service/events.js";
 export type { CronEvent, CronServiceDeps } from "./service/state.js";
 
 export class CronService {
@@ -42,6 +44,19 @@ export class CronService {
     return await ops.run(this.state, id, mode);
   }
 
+  // OPENCLAWMU ADDITION: event-triggered jobs
+  async reload() {
+    await ops.reload(this.state);
+  }
+
+  async fire(id: string, input: CronFireInput) {
+    return await ops.fire(this.state, id, input);
+  }
+
+  async checkWebhookToken(id: string, token: string) {
+    return await ops.checkWebhookToken(this.state, id, token);
+  }
+
   wake(opts: { mode: "now" | "next-heartbeat"; text: string }) {
     return ops.wakeNow(this.state, opts);
   }
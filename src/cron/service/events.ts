@@ -0,0 +1,198 @@
+/**
+ * OPENCLAWMU ADDITION: inbound events for `webhook` and `watch` jobs.
+ *
+ * `fireJobEvent` queues an event on a job and arms the timer, so the job runs through
+ * the regular timer path (run log, retries, concurrency). Watch jobs get one chokidar
+ * watcher each, kept in sync with the store by `syncCronWatchers`.
+ */
+
+import chokidar from "chokidar";
+import path from "node:path";
+import type { CronJob, CronJobEvent } from "../types.js";
+import type { CronServiceState, CronWatcherState } from "./state.js";
+import {
+  type CronFireResult,
+  DEFAULT_CRON_WATCH_DEBOUNCE_MS,
+  DEFAULT_CRON_WATCH_IGNORED,
+  enqueueCronJobEvent,
+  matchesCronWatchFilters,
+  matchesCronWebhookToken,
+  resolveCronWatchPath,
+} from "../triggers.js";
+import { locked } from "./locked.js";
+import { ensureLoaded, persist, warnIfDisabled } from "./store.js";
+import { armTimer } from "./timer.js";
+
+export type CronFireInput =
+  | {
+      source: "webhook";
+      /** Renders the job's payload message (or system event text) for this request. */
+      renderMessage?: (template: string) => string;
+    }
+  | { source: "watch"; paths: string[] };
+
+/** True when `token` is the webhook token of an enabled `webhook` job. */
+export async function verifyWebhookToken(state: CronServiceState, id: string, token: string) {
+  return await locked(state, async () => {
+    await ensureLoaded(state, { skipRecompute: true });
+    return matchesCronWebhookToken(
+      state.store?.jobs.find((entry) => entry.id === id),
+      token,
+    );
+  });
+}
+
+export async function fireJobEvent(
+  state: CronServiceState,
+  id: string,
+  input: CronFireInput,
+): Promise<CronFireResult> {
+  return await locked(state, async () => {
+    warnIfDisabled(state, "fire");
+    await ensureLoaded(state, { skipRecompute: true });
+    const job = state.store?.jobs.find((entry) => entry.id === id);
+    if (!job) {
+      return { ok: false, reason: "not-found" } as const;
+    }
+    if (job.schedule.kind !== input.source) {
+      return { ok: false, reason: "wrong-kind" } as const;
+    }
+    if (!job.enabled) {
+      return { ok: false, reason: "disabled" } as const;
+    }
+    const receivedAtMs = state.deps.nowMs();
+    const event: CronJobEvent =
+      input.source === "webhook"
+        ? {
+            source: "webhook",
+            receivedAtMs,
+            message: input.renderMessage?.(
+              job.payload.kind === "agentTurn" ? job.payload.message : job.payload.text,
+            ),
+          }
+        : { source: "watch", receivedAtMs, paths: input.paths };
+    if (!enqueueCronJobEvent(job, event)) {
+      state.deps.log.warn(
+        { jobId: job.id, source: input.source, pending: job.state.events?.length },
+        "cron: dropping event, too many pending events",
+      );
+      return { ok: false, reason: "queue-full" } as const;
+    }
+    await persist(state);
+    armTimer(state);
+    state.deps.log.info(
+      { jobId: job.id, source: input.source, pending: job.state.events?.length },
+      "cron: job event queued",
+    );
+    return { ok: true, queued: true, nextRunAtMs: job.state.nextRunAtMs ?? receivedAtMs } as const;
+  });
+}
+
+function closeWatcher(watcher: CronWatcherState) {
+  if (watcher.timer) {
+    clearTimeout(watcher.timer);
+  }
+  void watcher.watcher.close().catch(() => {});
+}
+
+export function closeCronWatchers(state: CronServiceState) {
+  for (const watcher of state.watchers.values()) {
+    closeWatcher(watcher);
+  }
+  state.watchers.clear();
+}
+
+function resolveWatchTarget(state: CronServiceState, job: CronJob) {
+  if (job.schedule.kind !== "watch") {
+    return undefined;
+  }
+  const workspaceDir = state.deps.resolveWorkspaceDir?.(job.agentId);
+  if (!workspaceDir) {
+    state.deps.log.warn({ jobId: job.id }, "cron: no workspace to watch for job");
+    return undefined;
+  }
+  try {
+    return resolveCronWatchPath(workspaceDir, job.schedule.path);
+  } catch (err) {
+    state.deps.log.warn({ jobId: job.id, err: String(err) }, "cron: invalid watch path");
+    return undefined;
+  }
+}
+
+/**
+ * Starts watchers for enabled watch jobs and stops the ones whose job was removed,
+ * disabled or re-pointed. No-op while the scheduler is disabled.
+ */
+export function syncCronWatchers(state: CronServiceState) {
+  const jobs = state.deps.cronEnabled ? (state.store?.jobs ?? []) : [];
+  const wanted = new Map<string, string>();
+  for (const job of jobs) {
+    if (!job.enabled || job.schedule.kind !== "watch") {
+      continue;
+    }
+    const target = resolveWatchTarget(state, job);
+    if (target) {
+      // Filters and debounce are read from the live job on every change
+      wanted.set(job.id, target);
+    }
+  }
+  for (const [jobId, watcher] of state.watchers) {
+    if (wanted.get(jobId) !== watcher.target) {
+      closeWatcher(watcher);
+      state.watchers.delete(jobId);
+    }
+  }
+  for (const [jobId, target] of wanted) {
+    if (!state.watchers.has(jobId)) {
+      state.watchers.set(jobId, startWatcher(state, jobId, target));
+    }
+  }
+}
+
+function startWatcher(state: CronServiceState, jobId: string, target: string): CronWatcherState {
+  const watcher = chokidar.watch(target, {
+    ignoreInitial: true,
+    ignored: DEFAULT_CRON_WATCH_IGNORED,
+    // The target was checked against the workspace; links below it could point anywhere
+    followSymlinks: false,
+  });
+  const entry: CronWatcherState = { watcher, target, pending: new Set() };
+
+  const flush = () => {
+    entry.timer = undefined;
+    const paths = [...entry.pending];
+    entry.pending.clear();
+    if (paths.length === 0) {
+      return;
+    }
+    void fireJobEvent(state, jobId, { source: "watch", paths }).catch((err) => {
+      state.deps.log.warn({ jobId, err: String(err) }, "cron: watch event failed");
+    });
+  };
+
+  const onChange = (changedPath: string) => {
+    const job = state.store?.jobs.find((candidate) => candidate.id === jobId);
+    if (!job || job.schedule.kind !== "watch") {
+      return;
+    }
+    const rel =
+      path.relative(target, changedPath).replaceAll(path.sep, "/") || path.basename(changedPath);
+    if (!matchesCronWatchFilters(job.schedule, rel)) {
+      return;
+    }
+    entry.pending.add(rel);
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    entry.timer = setTimeout(flush, job.schedule.debounceMs ?? DEFAULT_CRON_WATCH_DEBOUNCE_MS);
+  };
+
+  watcher.on("add", onChange);
+  watcher.on("change", onChange);
+  watcher.on("unlink", onChange);
+  watcher.on("error", (err) => {
+    state.deps.log.warn({ jobId, err: String(err) }, "cron: watcher error");
+  });
+  state.deps.log.info({ jobId, path: target }, "cron: watching path");
+  return entry;
+}
@@ -9,8 +9,15 @@ import type {
   CronPayloadPatch,
 } from "../types.js";
 import type { CronServiceState } from "./state.js";
+import { assertCronScheduleCalendar, type CronCalendars } from "../calendar.js";
 import { parseAbsoluteTimeMs } from "../parse.js";
+import { applyCronJitter, assertCronRunPolicy } from "../run-policy.js";
 import { computeNextRunAtMs } from "../schedule.js";
+import {
+  assertCronTriggerSchedule,
+  ensureCronWebhookToken,
+  isCronEventSchedule,
+} from "../triggers.js";
 import {
   normalizeOptionalAgentId,
   normalizeOptionalText,
@@ -54,16 +61,28 @@ export function findJobOrThrow(state: CronServiceState, id: string) {
   return job;
 }
 
-export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | undefined {
+export function computeJobNextRunAtMs(
+  job: CronJob,
+  nowMs: number,
+  calendars?: CronCalendars,
+): number | undefined {
   if (!job.enabled) {
     return undefined;
   }
+  // OPENCLAWMU ADDITION: retries and queued ticks come before the schedule
+  if (job.state.pendingRunAtMs !== undefined) {
+    return job.state.pendingRunAtMs;
+  }
   if (job.schedule.kind === "every") {
     const anchorMs = resolveEveryAnchorMs({
       schedule: job.schedule,
       fallbackAnchorMs: job.createdAtMs,
     });
-    return computeNextRunAtMs({ ...job.schedule, anchorMs }, nowMs);
+    // OPENCLAWMU ADDITION: jitter
+    return applyCronJitter(
+      job,
+      computeNextRunAtMs({ ...job.schedule, anchorMs }, nowMs, { calendars }),
+    );
   }
   if (job.schedule.kind === "at") {
     // One-shot jobs stay due until they successfully finish.
@@ -84,7 +103,58 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
             : null;
     return atMs !== null ? atMs : undefined;
   }
-  return computeNextRunAtMs(job.schedule, nowMs);
+  if (job.schedule.kind === "after") {
+    // OPENCLAWMU ADDITION: due once an upstream run left a trigger
+    return job.state.trigger?.finishedAtMs;
+  }
+  if (job.schedule.kind === "webhook" || job.schedule.kind === "watch") {
+    // OPENCLAWMU ADDITION: due once an inbound event is queued
+    return job.state.events?.[0]?.receivedAtMs;
+  }
+  return applyCronJitter(job, computeNextRunAtMs(job.schedule, nowMs, { calendars }));
+}
+
+/**
+ * OPENCLAWMU ADDITION: first time-based tick strictly after `afterMs`, without jitter.
+ * Undefined for one-shot, completion- and event-triggered jobs.
+ */
+export function computeScheduledTickAfterMs(
+  job: CronJob,
+  afterMs: number,
+  calendars?: CronCalendars,
+): number | undefined {
+  if (job.schedule.kind === "every") {
+    const anchorMs = resolveEveryAnchorMs({
+      schedule: job.schedule,
+      fallbackAnchorMs: job.createdAtMs,
+    });
+    // Interval ticks are inclusive of `nowMs`
+    return computeNextRunAtMs({ ...job.schedule, anchorMs }, afterMs + 1, { calendars });
+  }
+  if (job.schedule.kind === "cron") {
+    return computeNextRunAtMs(job.schedule, afterMs, { calendars });
+  }
+  return undefined;
+}
+
+/**
+ * OPENCLAWMU ADDITION: number of time-based ticks from `fromMs` (itself a missed tick)
+ * up to `nowMs`, capped at `max`.
+ */
+export function countMissedScheduledTicks(
+  job: CronJob,
+  fromMs: number,
+  nowMs: number,
+  max: number,
+  calendars?: CronCalendars,
+): number {
+  let count = 1;
+  let tick = computeScheduledTickAfterMs(job, fromMs, calendars);
+  while (tick !== undefined && tick <= nowMs && count < max) {
+    count += 1;
+    tick = computeScheduledTickAfterMs(job, tick, calendars);
+  }
+  return count;
 }
 
 /** Maximum consecutive schedule errors before auto-disabling a job. */
@@ -148,7 +218,7 @@ export function recomputeNextRuns(state: CronServiceState): boolean {
     const isDueOrMissing = nextRun === undefined || now >= nextRun;
     if (isDueOrMissing) {
       try {
-        const newNext = computeJobNextRunAtMs(job, now);
+        const newNext = computeJobNextRunAtMs(job, now, state.calendars);
         if (job.state.nextRunAtMs !== newNext) {
           job.state.nextRunAtMs = newNext;
           changed = true;
@@ -208,7 +278,7 @@ export function recomputeNextRunsForMaintenance(state: CronServiceState): boolea
     // If a job was past-due but not found by findDueJobs, recomputing would
     // cause it to be silently skipped.
     if (job.state.nextRunAtMs === undefined) {
-      const newNext = computeJobNextRunAtMs(job, now);
+      const newNext = computeJobNextRunAtMs(job, now, state.calendars);
       if (newNext !== undefined) {
         job.state.nextRunAtMs = newNext;
         changed = true;
@@ -242,7 +312,7 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
             fallbackAnchorMs: now,
           }),
         }
-      : input.schedule;
+      : ensureCronWebhookToken(input.schedule);
   const deleteAfterRun =
     typeof input.deleteAfterRun === "boolean"
       ? input.deleteAfterRun
@@ -264,17 +334,24 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
     wakeMode: input.wakeMode,
     payload: input.payload,
     delivery: input.delivery,
+    retry: input.retry,
+    jitterMs: input.jitterMs,
+    concurrency: input.concurrency,
+    catchUp: input.catchUp,
     state: {
       ...input.state,
     },
   };
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
-  job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
+  assertCronRunPolicy(job);
+  assertCronTriggerSchedule(job.schedule);
+  assertCronScheduleCalendar(job.schedule, state.calendars);
+  job.state.nextRunAtMs = computeJobNextRunAtMs(job, now, state.calendars);
   return job;
 }
 
-export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
+export function applyJobPatch(job: CronJob, patch: CronJobPatch, calendars?: CronCalendars) {
   if ("name" in patch) {
     job.name = normalizeRequiredName(patch.name);
   }
@@ -288,7 +365,11 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
     job.deleteAfterRun = patch.deleteAfterRun;
   }
   if (patch.schedule) {
-    job.schedule = patch.schedule;
+    // OPENCLAWMU ADDITION: webhook jobs keep their token unless a new one is given
+    job.schedule = ensureCronWebhookToken(patch.schedule, job.schedule);
+    if (!isCronEventSchedule(job.schedule)) {
+      job.state.events = undefined;
+    }
   }
   if (patch.sessionTarget) {
     job.sessionTarget = patch.sessionTarget;
@@ -322,8 +403,28 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   if ("agentId" in patch) {
     job.agentId = normalizeOptionalAgentId((patch as { agentId?: unknown }).agentId);
   }
+  // OPENCLAWMU ADDITION: run policies
+  if (patch.retry) {
+    job.retry = patch.retry;
+    job.state.retryAttempt = undefined;
+    job.state.pendingRunAtMs = undefined;
+  }
+  if (typeof patch.jitterMs === "number") {
+    job.jitterMs = patch.jitterMs;
+  }
+  if (patch.concurrency) {
+    job.concurrency = patch.concurrency;
+  }
+  if (patch.catchUp) {
+    job.catchUp = patch.catchUp;
+  }
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertCronRunPolicy(job);
+  assertCronTriggerSchedule(job.schedule);
+  if (patch.schedule) {
+    assertCronScheduleCalendar(job.schedule, calendars);
+  }
 }
 
 function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronPayload {
@@ -1,5 +1,13 @@
 import type { CronJobCreate, CronJobPatch } from "../types.js";
 import type { CronServiceState } from "./state.js";
+import { assertCronJobDependencies } from "../dependencies.js";
+import {
+  type CronFireInput,
+  closeCronWatchers,
+  fireJobEvent,
+  syncCronWatchers,
+  verifyWebhookToken,
+} from "./events.js";
 import {
   applyJobPatch,
   computeJobNextRunAtMs,
@@ -11,7 +19,7 @@ import {
   recomputeNextRunsForMaintenance,
 } from "./jobs.js";
 import { locked } from "./locked.js";
-import { ensureLoaded, persist, warnIfDisabled } from "./store.js";
+import { ensureLoaded, loadCalendars, persist, warnIfDisabled } from "./store.js";
 import { armTimer, emit, executeJob, runMissedJobs, stopTimer, wake } from "./timer.js";
 
 export async function start(state: CronServiceState) {
@@ -37,6 +45,7 @@ export async function start(state: CronServiceState) {
     recomputeNextRuns(state);
     await persist(state);
     armTimer(state);
+    syncCronWatchers(state);
     state.deps.log.info(
       {
         enabled: true,
@@ -50,6 +59,7 @@ export async function start(state: CronServiceState) {
 
 export function stop(state: CronServiceState) {
   stopTimer(state);
+  closeCronWatchers(state);
 }
 
 export async function status(state: CronServiceState) {
@@ -93,7 +103,11 @@ export async function add(state: CronServiceState, input: CronJobCreate) {
   return await locked(state, async () => {
     warnIfDisabled(state, "add");
     await ensureLoaded(state);
+    // OPENCLAWMU ADDITION: pick up calendar files added since the store was loaded
+    await loadCalendars(state);
     const job = createJob(state, input);
+    // OPENCLAWMU ADDITION: `after` schedules need an existing upstream and no cycle
+    assertCronJobDependencies(state.store?.jobs ?? [], job);
     state.store?.jobs.push(job);
 
     // Defensive: recompute all next-run times to ensure consistency
@@ -101,6 +115,7 @@ export async function add(state: CronServiceState, input: CronJobCreate) {
 
     await persist(state);
     armTimer(state);
+    syncCronWatchers(state);
 
     state.deps.log.info(
       {
@@ -129,7 +144,16 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     await ensureLoaded(state, { skipRecompute: true });
     const job = findJobOrThrow(state, id);
     const now = state.deps.nowMs();
-    applyJobPatch(job, patch);
+    if (patch.schedule) {
+      await loadCalendars(state);
+      // OPENCLAWMU ADDITION: reject dependency cycles before touching the job
+      assertCronJobDependencies(state.store?.jobs ?? [], {
+        id: job.id,
+        name: patch.name ?? job.name,
+        schedule: patch.schedule,
+      });
+    }
+    applyJobPatch(job, patch, state.calendars);
     if (job.schedule.kind === "every") {
       const anchor = job.schedule.anchorMs;
       if (typeof anchor !== "number" || !Number.isFinite(anchor)) {
@@ -152,7 +176,7 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     job.updatedAtMs = now;
     if (scheduleChanged || enabledChanged) {
       if (job.enabled) {
-        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
+        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now, state.calendars);
       } else {
         job.state.nextRunAtMs = undefined;
         job.state.runningAtMs = undefined;
@@ -162,12 +186,13 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
       // missing/corrupt nextRunAtMs for the updated job.
       const nextRun = job.state.nextRunAtMs;
       if (typeof nextRun !== "number" || !Number.isFinite(nextRun)) {
-        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
+        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now, state.calendars);
       }
     }
 
     await persist(state);
     armTimer(state);
+    syncCronWatchers(state);
     emit(state, {
       jobId: id,
       action: "updated",
@@ -189,6 +214,7 @@ export async function remove(state: CronServiceState, id: string) {
     const removed = (state.store.jobs.length ?? 0) !== before;
     await persist(state);
     armTimer(state);
+    syncCronWatchers(state);
     if (removed) {
       emit(state, { jobId: id, action: "removed" });
     }
@@ -217,6 +243,30 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
   });
 }
 
+/**
+ * OPENCLAWMU ADDITION: re-reads the store after another writer changed it (tenant jobs
+ * are edited on disk by the gateway) and re-arms the timer and file watchers.
+ */
+export async function reload(state: CronServiceState) {
+  await locked(state, async () => {
+    await ensureLoaded(state, { forceReload: true, skipRecompute: true });
+    if (recomputeNextRuns(state)) {
+      await persist(state);
+    }
+    armTimer(state);
+    syncCronWatchers(state);
+  });
+}
+
+/** OPENCLAWMU ADDITION: queues a webhook/watch event on a job. */
+export async function fire(state: CronServiceState, id: string, input: CronFireInput) {
+  return await fireJobEvent(state, id, input);
+}
+
+export async function checkWebhookToken(state: CronServiceState, id: string, token: string) {
+  return await verifyWebhookToken(state, id, token);
+}
+
 export function wakeNow(
   state: CronServiceState,
   opts: { mode: "now" | "next-heartbeat"; text: string },
@@ -1,6 +1,14 @@
+import type { FSWatcher } from "chokidar";
 import type { CronConfig } from "../../config/types.cron.js";
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
-import type { CronJob, CronJobCreate, CronJobPatch, CronStoreFile } from "../types.js";
+import type { CronCalendars } from "../calendar.js";
+import type {
+  CronJob,
+  CronJobCreate,
+  CronJobPatch,
+  CronRunUsage,
+  CronStoreFile,
+} from "../types.js";
 
 export type CronEvent = {
   jobId: string;
@@ -13,6 +21,10 @@ export type CronEvent = {
   sessionId?: string;
   sessionKey?: string;
   nextRunAtMs?: number;
+  /** OPENCLAWMU ADDITION: final agent text, agent and token usage of finished runs. */
+  outputText?: string;
+  agentId?: string;
+  usage?: CronRunUsage;
 };
 
 export type Logger = {
@@ -46,7 +58,12 @@ export type CronServiceDeps = {
   wakeNowHeartbeatBusyMaxWaitMs?: number;
   /** WakeMode=now: delay between runHeartbeatOnce retries while busy. */
   wakeNowHeartbeatBusyRetryDelayMs?: number;
-  runIsolatedAgentJob: (params: { job: CronJob; message: string }) => Promise<{
+  runIsolatedAgentJob: (params: {
+    job: CronJob;
+    message: string;
+    /** OPENCLAWMU ADDITION: aborted when a `replace` job's next run supersedes this one. */
+    abortSignal?: AbortSignal;
+  }) => Promise<{
     status: "ok" | "error" | "skipped";
     summary?: string;
     /** Last non-empty agent text output (not truncated). */
@@ -54,6 +71,10 @@ export type CronServiceDeps = {
     error?: string;
     sessionId?: string;
     sessionKey?: string;
+    /** OPENCLAWMU ADDITION: agent that ran the turn. */
+    agentId?: string;
+    /** OPENCLAWMU ADDITION: token usage of the run. */
+    usage?: CronRunUsage;
     /**
      * `true` when the isolated run already delivered its output to the target
      * channel (including matching messaging-tool sends). See:
@@ -64,12 +85,24 @@ export type CronServiceDeps = {
   onEvent?: (evt: CronEvent) => void;
   /** OPENCLAWMU: Tenant ID for tenant-scoped cron services */
   tenantId?: string;
+  /** OPENCLAWMU ADDITION: workspace of an agent, the root of `watch` schedule paths. */
+  resolveWorkspaceDir?: (agentId?: string) => string | undefined;
 };
 
 export type CronServiceDepsInternal = Omit<CronServiceDeps, "nowMs"> & {
   nowMs: () => number;
 };
 
+/** OPENCLAWMU ADDITION: file watcher of a `watch` job. */
+export type CronWatcherState = {
+  watcher: FSWatcher;
+  /** Watched path; the watcher restarts when it changes. */
+  target: string;
+  /** Changed paths collected during the debounce window. */
+  pending: Set<string>;
+  timer?: NodeJS.Timeout;
+};
+
 export type CronServiceState = {
   deps: CronServiceDepsInternal;
   store: CronStoreFile | null;
@@ -79,6 +112,9 @@ export type CronServiceState = {
   warnedDisabled: boolean;
   storeLoadedAtMs: number | null;
   storeFileMtimeMs: number | null;
+  watchers: Map<string, CronWatcherState>;
+  /** OPENCLAWMU ADDITION: named exclusion calendars next to the store. */
+  calendars: CronCalendars;
 };
 
 export function createCronServiceState(deps: CronServiceDeps): CronServiceState {
@@ -91,6 +127,8 @@ export function createCronServiceState(deps: CronServiceDeps): CronServiceState
     warnedDisabled: false,
     storeLoadedAtMs: null,
     storeFileMtimeMs: null,
+    watchers: new Map(),
+    calendars: new Map(),
   };
 }
 
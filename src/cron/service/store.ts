@@ -1,6 +1,7 @@
 import fs from "node:fs";
 import type { CronJob } from "../types.js";
 import type { CronServiceState } from "./state.js";
+import { loadCronCalendars, resolveCronCalendarDir } from "../calendar.js";
 import {
   buildDeliveryFromLegacyPayload,
   hasLegacyDeliveryHints,
@@ -432,6 +433,7 @@ export async function ensureLoaded(
   state.store = { version: 1, jobs: jobs as unknown as CronJob[] };
   state.storeLoadedAtMs = state.deps.nowMs();
   state.storeFileMtimeMs = fileMtimeMs;
+  await loadCalendars(state);
 
   if (!opts?.skipRecompute) {
     recomputeNextRuns(state);
@@ -442,6 +444,18 @@ export async function ensureLoaded(
   }
 }
 
+/**
+ * OPENCLAWMU ADDITION: (re)reads the exclusion calendars next to the store, so edited
+ * calendar files apply from the next store reload or job change.
+ */
+export async function loadCalendars(state: CronServiceState) {
+  state.calendars = await loadCronCalendars(resolveCronCalendarDir(state.deps.storePath), {
+    onError: (name, err) => {
+      state.deps.log.warn({ calendar: name, err: String(err) }, "cron: invalid calendar file");
+    },
+  });
+}
+
 export function warnIfDisabled(state: CronServiceState, action: string) {
   if (state.deps.cronEnabled) {
     return;
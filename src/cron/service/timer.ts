@@ -1,11 +1,22 @@
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
-import type { CronJob } from "../types.js";
+import type { CronJob, CronRunUsage } from "../types.js";
 import type { CronEvent, CronServiceState } from "./state.js";
 import { DEFAULT_AGENT_ID } from "../../routing/session-key.js";
 import { resolveCronDeliveryPlan } from "../delivery.js";
+import { buildTriggeredCronMessage, triggerDependentCronJobs } from "../dependencies.js";
+import {
+  MAX_CRON_CATCH_UP_RUNS,
+  resolveCronCatchUp,
+  resolveCronConcurrency,
+  resolveCronRetryDelayMs,
+  resolveNextCronRetryAttempt,
+} from "../run-policy.js";
 import { sweepCronRunSessions } from "../session-reaper.js";
+import { buildCronEventMessage, consumeCronJobEvent, isCronEventSchedule } from "../triggers.js";
 import {
   computeJobNextRunAtMs,
+  computeScheduledTickAfterMs,
+  countMissedScheduledTicks,
   nextWakeAtMs,
   recomputeNextRuns,
   recomputeNextRunsForMaintenance,
@@ -16,6 +27,9 @@ import { ensureLoaded, persist } from "./store.js";
 
 const MAX_TIMER_DELAY_MS = 60_000;
 
+/** Longest setTimeout delay; `replace` runs end at the job timeout long before this. */
+const MAX_REPLACE_WAIT_MS = 2 ** 31 - 1;
+
 /**
  * Maximum wall-clock time for a single job execution. Acts as a safety net
  * on top of the per-provider / per-agent timeouts to prevent one stuck job
@@ -51,11 +65,29 @@ function applyJobResult(
   result: {
     status: "ok" | "error" | "skipped";
     error?: string;
+    summary?: string;
     startedAt: number;
     endedAt: number;
   },
 ): boolean {
   job.state.runningAtMs = undefined;
+  // OPENCLAWMU ADDITION: this run supersedes any owed run
+  job.state.pendingRunAtMs = undefined;
+  // OPENCLAWMU ADDITION: retry policy; a retry keeps the trigger it runs for
+  const retryAttempt =
+    result.status === "error" && job.enabled ? resolveNextCronRetryAttempt(job) : undefined;
+  // OPENCLAWMU ADDITION: the run consumed its trigger; one that arrived meanwhile stays
+  if (
+    retryAttempt === undefined &&
+    job.state.trigger &&
+    job.state.trigger.finishedAtMs <= result.startedAt
+  ) {
+    job.state.trigger = undefined;
+  }
+  // OPENCLAWMU ADDITION: likewise for the webhook/watch event the run handled
+  if (retryAttempt === undefined) {
+    consumeCronJobEvent(job, result.startedAt);
+  }
   job.state.lastRunAtMs = result.startedAt;
   job.state.lastStatus = result.status;
   job.state.lastDurationMs = Math.max(0, result.endedAt - result.startedAt);
@@ -69,6 +101,34 @@ function applyJobResult(
     job.state.consecutiveErrors = 0;
   }
 
+  // OPENCLAWMU ADDITION: retry the failed run before falling back to the schedule
+  if (retryAttempt !== undefined && job.retry) {
+    const delayMs = resolveCronRetryDelayMs(job.retry, retryAttempt);
+    job.state.retryAttempt = retryAttempt;
+    job.state.pendingRunAtMs = result.endedAt + delayMs;
+    job.state.nextRunAtMs = job.state.pendingRunAtMs;
+    state.deps.log.info(
+      {
+        jobId: job.id,
+        attempt: retryAttempt + 1,
+        maxAttempts: job.retry.maxAttempts,
+        delayMs,
+        nextRunAtMs: job.state.nextRunAtMs,
+      },
+      "cron: retrying failed job",
+    );
+    return false;
+  }
+  if (job.state.retryAttempt) {
+    if (result.status === "error") {
+      state.deps.log.warn(
+        { jobId: job.id, jobName: job.name, attempts: job.state.retryAttempt + 1 },
+        "cron: job failed after all retry attempts",
+      );
+    }
+    job.state.retryAttempt = undefined;
+  }
+
   const shouldDelete =
     job.schedule.kind === "at" && job.deleteAfterRun === true && result.status === "ok";
 
@@ -90,10 +150,15 @@ function applyJobResult(
           "cron: disabling one-shot job after error",
         );
       }
-    } else if (result.status === "error" && job.enabled) {
+    } else if (
+      result.status === "error" &&
+      job.enabled &&
+      job.schedule.kind !== "after" &&
+      !isCronEventSchedule(job.schedule)
+    ) {
       // Apply exponential backoff for errored jobs to prevent retry storms.
       const backoff = errorBackoffMs(job.state.consecutiveErrors ?? 1);
-      const normalNext = computeJobNextRunAtMs(job, result.endedAt);
+      const normalNext = computeJobNextRunAtMs(job, result.endedAt, state.calendars);
       const backoffNext = result.endedAt + backoff;
       // Use whichever is later: the natural next run or the backoff delay.
       job.state.nextRunAtMs =
@@ -108,12 +173,35 @@ function applyJobResult(
         "cron: applying error backoff",
       );
     } else if (job.enabled) {
-      job.state.nextRunAtMs = computeJobNextRunAtMs(job, result.endedAt);
+      job.state.nextRunAtMs = computeJobNextRunAtMs(job, result.endedAt, state.calendars);
+      // OPENCLAWMU ADDITION: a tick that came due during the run starts a run right away
+      const overlapTick =
+        resolveCronConcurrency(job) !== "skip"
+          ? computeScheduledTickAfterMs(job, result.startedAt, state.calendars)
+          : undefined;
+      if (overlapTick !== undefined && overlapTick <= result.endedAt) {
+        job.state.pendingRunAtMs = result.endedAt;
+        job.state.nextRunAtMs = result.endedAt;
+        state.deps.log.info(
+          { jobId: job.id, concurrency: job.concurrency, tickAtMs: overlapTick },
+          "cron: running tick that came due during the previous run",
+        );
+      }
     } else {
       job.state.nextRunAtMs = undefined;
     }
   }
 
+  // OPENCLAWMU ADDITION: completion triggers for jobs scheduled after this one
+  if (state.store) {
+    for (const dependent of triggerDependentCronJobs(state.store.jobs, job, result)) {
+      state.deps.log.info(
+        { jobId: dependent.id, upstreamJobId: job.id, status: result.status },
+        "cron: triggering dependent job",
+      );
+    }
+  }
+
   return shouldDelete;
 }
 
@@ -218,6 +306,9 @@ export async function onTimer(state: CronServiceState) {
       summary?: string;
       sessionId?: string;
       sessionKey?: string;
+      outputText?: string;
+      agentId?: string;
+      usage?: CronRunUsage;
       startedAt: number;
       endedAt: number;
     }> = [];
@@ -235,7 +326,7 @@ export async function onTimer(state: CronServiceState) {
       try {
         let timeoutId: NodeJS.Timeout;
         const result = await Promise.race([
-          executeJobCore(state, job),
+          executeJobCoreWithPolicy(state, job, startedAt),
           new Promise<never>((_, reject) => {
             timeoutId = setTimeout(
               () => reject(new Error("cron: job execution timed out")),
@@ -272,6 +363,7 @@ export async function onTimer(state: CronServiceState) {
           const shouldDelete = applyJobResult(state, job, {
             status: result.status,
             error: result.error,
+            summary: result.summary,
             startedAt: result.startedAt,
             endedAt: result.endedAt,
           });
@@ -284,6 +376,9 @@ export async function onTimer(state: CronServiceState) {
             summary: result.summary,
             sessionId: result.sessionId,
             sessionKey: result.sessionKey,
+            outputText: result.outputText,
+            agentId: result.agentId,
+            usage: result.usage,
             runAtMs: result.startedAt,
             durationMs: job.state.lastDurationMs,
             nextRunAtMs: job.state.nextRunAtMs,
@@ -395,7 +490,36 @@ export async function runMissedJobs(
       "cron: running missed jobs after restart",
     );
     for (const job of missed) {
-      await executeJob(state, job, now, { forced: false });
+      // OPENCLAWMU ADDITION: catch-up policy for time-based schedules
+      const timeBased = job.schedule.kind === "every" || job.schedule.kind === "cron";
+      const catchUp = timeBased && !job.state.retryAttempt ? resolveCronCatchUp(job) : "latest";
+      if (catchUp === "none") {
+        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now, state.calendars);
+        state.deps.log.info(
+          { jobId: job.id, nextRunAtMs: job.state.nextRunAtMs },
+          "cron: skipping missed runs (catchUp none)",
+        );
+        continue;
+      }
+      const runs =
+        catchUp === "all"
+          ? countMissedScheduledTicks(
+              job,
+              job.state.nextRunAtMs!,
+              now,
+              MAX_CRON_CATCH_UP_RUNS,
+              state.calendars,
+            )
+          : 1;
+      if (runs > 1) {
+        state.deps.log.info({ jobId: job.id, runs }, "cron: catching up missed runs");
+      }
+      for (let run = 0; run < runs; run += 1) {
+        if (!job.enabled || !state.store.jobs.includes(job)) {
+          break;
+        }
+        await executeJob(state, job, now, { forced: false });
+      }
     }
   }
 }
@@ -423,18 +547,66 @@ export async function runDueJobs(state: CronServiceState) {
   }
 }
 
+/**
+ * OPENCLAWMU ADDITION: runs a job, aborting the run when it is still going at the
+ * next scheduled tick and the job's concurrency policy is `replace`. Isolated agent
+ * turns are aborted through their AbortSignal; the replaced run's result is discarded.
+ */
+async function executeJobCoreWithPolicy(
+  state: CronServiceState,
+  job: CronJob,
+  startedAt: number,
+): ReturnType<typeof executeJobCore> {
+  const tick =
+    resolveCronConcurrency(job) === "replace"
+      ? computeScheduledTickAfterMs(job, startedAt, state.calendars)
+      : undefined;
+  const delayMs = tick === undefined ? undefined : tick - state.deps.nowMs();
+  if (delayMs === undefined || delayMs > MAX_REPLACE_WAIT_MS) {
+    return await executeJobCore(state, job);
+  }
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      executeJobCore(state, job, controller.signal),
+      new Promise<Awaited<ReturnType<typeof executeJobCore>>>((resolve) => {
+        timer = setTimeout(
+          () => {
+            state.deps.log.info({ jobId: job.id }, "cron: replacing run with the next one");
+            const error = "replaced by the next scheduled run";
+            controller.abort(new Error(error));
+            resolve({ status: "skipped", error });
+          },
+          Math.max(0, delayMs),
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 async function executeJobCore(
   state: CronServiceState,
   job: CronJob,
+  abortSignal?: AbortSignal,
 ): Promise<{
   status: "ok" | "error" | "skipped";
   error?: string;
   summary?: string;
   sessionId?: string;
   sessionKey?: string;
+  outputText?: string;
+  agentId?: string;
+  usage?: CronRunUsage;
 }> {
   if (job.sessionTarget === "main") {
-    const text = resolveJobPayloadTextForMain(job);
+    const payloadText = resolveJobPayloadTextForMain(job);
+    // OPENCLAWMU ADDITION: event-triggered main jobs see the event too
+    const text = payloadText
+      ? buildCronEventMessage(payloadText, job.state.events?.[0])
+      : payloadText;
     if (!text) {
       const kind = job.payload.kind;
       return {
@@ -491,7 +663,12 @@ async function executeJobCore(
 
   const res = await state.deps.runIsolatedAgentJob({
     job,
-    message: job.payload.message,
+    message: buildCronEventMessage(
+      buildTriggeredCronMessage(job.payload.message, job.state.trigger),
+      job.state.events?.[0],
+      { allowUnsafeExternalContent: job.payload.allowUnsafeExternalContent },
+    ),
+    abortSignal,
   });
 
   // Post a short summary back to the main session — but only when the
@@ -521,6 +698,9 @@ async function executeJobCore(
     summary: res.summary,
     sessionId: res.sessionId,
     sessionKey: res.sessionKey,
+    outputText: res.outputText,
+    agentId: res.agentId,
+    usage: res.usage,
   };
 }
 
@@ -542,15 +722,9 @@ export async function executeJob(
   job.state.lastError = undefined;
   emit(state, { jobId: job.id, action: "started", runAtMs: startedAt });
 
-  let coreResult: {
-    status: "ok" | "error" | "skipped";
-    error?: string;
-    summary?: string;
-    sessionId?: string;
-    sessionKey?: string;
-  };
+  let coreResult: Awaited<ReturnType<typeof executeJobCore>>;
   try {
-    coreResult = await executeJobCore(state, job);
+    coreResult = await executeJobCoreWithPolicy(state, job, startedAt);
   } catch (err) {
     coreResult = { status: "error", error: String(err) };
   }
@@ -559,6 +733,7 @@ export async function executeJob(
   const shouldDelete = applyJobResult(state, job, {
     status: coreResult.status,
     error: coreResult.error,
+    summary: coreResult.summary,
     startedAt,
     endedAt,
   });
@@ -571,6 +746,9 @@ export async function executeJob(
     summary: coreResult.summary,
     sessionId: coreResult.sessionId,
     sessionKey: coreResult.sessionKey,
+    outputText: coreResult.outputText,
+    agentId: coreResult.agentId,
+    usage: coreResult.usage,
     runAtMs: startedAt,
     durationMs: job.state.lastDurationMs,
     nextRunAtMs: job.state.nextRunAtMs,
@@ -0,0 +1,233 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import type { CronJob } from "./types.js";
+import { CronService } from "./service.js";
+import {
+  createCronStoreHarness,
+  createNoopLogger,
+  installCronTestHooks,
+} from "./service.test-harness.js";
+import {
+  assertCronTriggerSchedule,
+  buildCronEventMessage,
+  consumeCronJobEvent,
+  enqueueCronJobEvent,
+  matchesCronWatchFilters,
+  resolveCronWatchPath,
+} from "./triggers.js";
+
+type WatchHandler = (changedPath: string) => void;
+
+const { watchMock, watchers } = vi.hoisted(() => {
+  const started: Array<{ target: string; handlers: Map<string, WatchHandler>; close: unknown }> =
+    [];
+  const watch = vi.fn((target: string, _options?: Record<string, unknown>) => {
+    const handlers = new Map<string, WatchHandler>();
+    const close = vi.fn(async () => undefined);
+    started.push({ target, handlers, close });
+    return {
+      on: (event: string, handler: WatchHandler) => handlers.set(event, handler),
+      close,
+    };
+  });
+  return { watchMock: watch, watchers: started };
+});
+
+vi.mock("chokidar", () => ({ default: { watch: watchMock } }));
+
+const noopLogger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "openclaw-cron-triggers-" });
+installCronTestHooks({ logger: noopLogger });
+
+function job(schedule: CronJob["schedule"], state: CronJob["state"] = {}): CronJob {
+  return {
+    id: "job",
+    name: "job",
+    enabled: true,
+    createdAtMs: 0,
+    updatedAtMs: 0,
+    schedule,
+    sessionTarget: "isolated",
+    wakeMode: "now",
+    payload: { kind: "agentTurn", message: "Handle it" },
+    state,
+  };
+}
+
+async function createService(workspaceDir?: string) {
+  const store = await makeStorePath();
+  const runIsolatedAgentJob = vi.fn(async () => ({ status: "ok" as const, summary: "done" }));
+  const cron = new CronService({
+    storePath: store.storePath,
+    cronEnabled: true,
+    log: noopLogger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob,
+    resolveWorkspaceDir: workspaceDir ? () => workspaceDir : undefined,
+  });
+  await cron.start();
+  return { cron, runIsolatedAgentJob };
+}
+
+describe("cron event triggers", () => {
+  it("filters watched paths with include and exclude globs", () => {
+    const schedule = { include: ["**/*.md", "data/*.csv"], exclude: ["drafts/**"] };
+    expect(matchesCronWatchFilters(schedule, "notes/today.md")).toBe(true);
+    expect(matchesCronWatchFilters(schedule, "README.md")).toBe(true);
+    expect(matchesCronWatchFilters(schedule, "data/q1.csv")).toBe(true);
+    expect(matchesCronWatchFilters(schedule, "data/2025/q1.csv")).toBe(false);
+    expect(matchesCronWatchFilters(schedule, "drafts/idea.md")).toBe(false);
+    expect(matchesCronWatchFilters(schedule, "notes/today.txt")).toBe(false);
+    expect(matchesCronWatchFilters({}, "anything/at/all.bin")).toBe(true);
+  });
+
+  it("keeps watch paths inside the workspace", () => {
+    const root = path.resolve("/tmp/workspace");
+    expect(resolveCronWatchPath(root, "inbox")).toBe(path.join(root, "inbox"));
+    expect(() => resolveCronWatchPath(root, "../elsewhere")).toThrow(
+      "cron watch path escapes the workspace: ../elsewhere",
+    );
+    expect(() => assertCronTriggerSchedule({ kind: "watch", path: "/etc" })).toThrow(
+      "cron watch path must be relative to the agent workspace",
+    );
+    expect(() => assertCronTriggerSchedule({ kind: "webhook", token: "short" })).toThrow(
+      "cron webhook token must be at least 16 characters",
+    );
+  });
+
+  it("refuses watch paths that leave the workspace through a symlink", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-cron-watch-"));
+    try {
+      const root = path.join(dir, "workspace");
+      fs.mkdirSync(path.join(root, "inbox"), { recursive: true });
+      fs.symlinkSync(os.tmpdir(), path.join(root, "outside"));
+      expect(resolveCronWatchPath(root, "inbox/new")).toBe(path.join(root, "inbox", "new"));
+      expect(() => resolveCronWatchPath(root, "outside/inbox")).toThrow(
+        "cron watch path escapes the workspace: outside/inbox",
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("queues events, merging file changes until a run picks them up", () => {
+    const entry = job({ kind: "watch", path: "inbox" });
+    enqueueCronJobEvent(entry, { source: "watch", receivedAtMs: 1000, paths: ["a.md"] });
+    enqueueCronJobEvent(entry, { source: "watch", receivedAtMs: 2000, paths: ["b.md", "a.md"] });
+    expect(entry.state.events).toEqual([
+      { source: "watch", receivedAtMs: 1000, paths: ["a.md", "b.md"] },
+    ]);
+    expect(entry.state.nextRunAtMs).toBe(1000);
+
+    entry.state.runningAtMs = 3000;
+    enqueueCronJobEvent(entry, { source: "watch", receivedAtMs: 4000, paths: ["c.md"] });
+    expect(entry.state.events).toHaveLength(2);
+
+    consumeCronJobEvent(entry, 3000);
+    expect(entry.state.events).toEqual([{ source: "watch", receivedAtMs: 4000, paths: ["c.md"] }]);
+  });
+
+  it("builds the run message from the event", () => {
+    expect(
+      buildCronEventMessage("Handle it", { source: "watch", receivedAtMs: 1, paths: ["a.md"] }),
+    ).toBe("Handle it\n\nChanged files:\n- a.md");
+    expect(
+      buildCronEventMessage(
+        "Handle it",
+        { source: "webhook", receivedAtMs: 1, message: "Deploy v2" },
+        { allowUnsafeExternalContent: true },
+      ),
+    ).toBe("Deploy v2");
+    const wrapped = buildCronEventMessage("Handle it", {
+      source: "webhook",
+      receivedAtMs: 1,
+      message: "Deploy v2",
+    });
+    expect(wrapped).toContain("Source: Webhook");
+    expect(wrapped).toContain("Deploy v2");
+  });
+});
+
+describe("CronService event triggers", () => {
+  it("runs a webhook job with the rendered message and keeps its token", async () => {
+    const { cron, runIsolatedAgentJob } = await createService();
+    const created = await cron.add({
+      name: "deploys",
+      enabled: true,
+      schedule: { kind: "webhook" },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: {
+        kind: "agentTurn",
+        message: "Review {{payload.release}}",
+        allowUnsafeExternalContent: true,
+      },
+      delivery: { mode: "none" },
+    });
+    expect(created.state.nextRunAtMs).toBeUndefined();
+    const token = created.schedule.kind === "webhook" ? created.schedule.token : undefined;
+    expect(token).toMatch(/^[\w-]{32}$/);
+    expect(await cron.checkWebhookToken(created.id, token ?? "")).toBe(true);
+    expect(await cron.checkWebhookToken(created.id, "wrong-token-wrong-token")).toBe(false);
+
+    const updated = await cron.update(created.id, { schedule: { kind: "webhook" } });
+    expect(updated.schedule).toEqual({ kind: "webhook", token });
+    await expect(cron.fire(created.id, { source: "watch", paths: [] })).resolves.toEqual({
+      ok: false,
+      reason: "wrong-kind",
+    });
+
+    const fired = await cron.fire(created.id, {
+      source: "webhook",
+      renderMessage: (template) => template.replace("{{payload.release}}", "v2.1"),
+    });
+    expect(fired.ok).toBe(true);
+    await vi.runOnlyPendingTimersAsync();
+    await vi.waitFor(() => expect(runIsolatedAgentJob).toHaveBeenCalledTimes(1));
+    expect(runIsolatedAgentJob.mock.calls[0]?.[0].message).toBe("Review v2.1");
+    await vi.waitFor(async () => {
+      const [listed] = await cron.list({ includeDisabled: true });
+      expect(listed?.state.lastStatus).toBe("ok");
+      expect(listed?.state.events).toBeUndefined();
+      expect(listed?.state.nextRunAtMs).toBeUndefined();
+    });
+
+    cron.stop();
+  });
+
+  it("watches the workspace path and runs once per debounced batch", async () => {
+    watchMock.mockClear();
+    watchers.length = 0;
+    const workspaceDir = path.resolve("/tmp/agent-workspace");
+    const { cron, runIsolatedAgentJob } = await createService(workspaceDir);
+    const created = await cron.add({
+      name: "inbox",
+      enabled: true,
+      schedule: { kind: "watch", path: "inbox", include: ["*.md"], debounceMs: 500 },
+      sessionTarget: "isolated",
+      wakeMode: "now",
+      payload: { kind: "agentTurn", message: "File the new notes" },
+      delivery: { mode: "none" },
+    });
+    expect(watchers.map((entry) => entry.target)).toEqual([path.join(workspaceDir, "inbox")]);
+    expect(watchMock.mock.calls[0]?.[1]).toMatchObject({ followSymlinks: false });
+
+    const onChange = watchers[0]?.handlers.get("add");
+    onChange?.(path.join(workspaceDir, "inbox", "a.md"));
+    onChange?.(path.join(workspaceDir, "inbox", "ignored.txt"));
+    watchers[0]?.handlers.get("change")?.(path.join(workspaceDir, "inbox", "sub", "b.md"));
+    await vi.advanceTimersByTimeAsync(500);
+    await vi.runOnlyPendingTimersAsync();
+    await vi.waitFor(() => expect(runIsolatedAgentJob).toHaveBeenCalledTimes(1));
+    expect(runIsolatedAgentJob.mock.calls[0]?.[0].message).toBe(
+      "File the new notes\n\nChanged files:\n- a.md\n- sub/b.md",
+    );
+
+    await cron.update(created.id, { enabled: false });
+    expect(watchers[0]?.close).toHaveBeenCalled();
+    cron.stop();
+  });
+});
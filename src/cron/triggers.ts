@@ -0,0 +1,256 @@
+/**
+ * Event-triggered cron jobs.
+ * OPENCLAWMU ADDITION: `webhook` and `watch` schedules that run a job when something
+ * happens instead of on a clock.
+ *
+ * An inbound event (an authenticated POST to the job's webhook, or a debounced batch of
+ * file changes below the watched workspace path) is queued on the job's state and makes
+ * the job due right away. Each run consumes the oldest event; agent turns receive the
+ * rendered webhook message, or the list of changed files appended to their message.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { CronJob, CronJobEvent, CronSchedule } from "./types.js";
+import { wrapExternalContent } from "../security/external-content.js";
+import { safeEqualSecret } from "../security/secret-equal.js";
+
+export const DEFAULT_CRON_WATCH_DEBOUNCE_MS = 1000;
+
+/** Events beyond this many pending ones are dropped until the job catches up. */
+export const MAX_CRON_PENDING_EVENTS = 20;
+
+/** Changed files listed per watch event. */
+const MAX_CRON_WATCH_PATHS = 50;
+
+/** Rendered webhook messages are cut to this many characters. */
+export const MAX_CRON_WEBHOOK_MESSAGE_CHARS = 8000;
+
+/** Never reported as changes below a watched path. */
+export const DEFAULT_CRON_WATCH_IGNORED: RegExp[] = [
+  /(^|[\\/])\.git([\\/]|$)/,
+  /(^|[\\/])node_modules([\\/]|$)/,
+];
+
+type CronWatchSchedule = Extract<CronSchedule, { kind: "watch" }>;
+
+export type CronFireResult =
+  | { ok: true; queued: true; nextRunAtMs: number }
+  | { ok: false; reason: "not-found" | "disabled" | "wrong-kind" | "queue-full" };
+
+export function isCronEventSchedule(schedule: CronSchedule): boolean {
+  return schedule.kind === "webhook" || schedule.kind === "watch";
+}
+
+export function generateCronWebhookToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+/**
+ * Gives `webhook` schedules a token: the one passed in, the job's current one when the
+ * schedule is re-submitted without one, or a new random one.
+ */
+export function ensureCronWebhookToken(
+  schedule: CronSchedule,
+  previous?: CronSchedule,
+): CronSchedule {
+  if (schedule.kind !== "webhook" || schedule.token?.trim()) {
+    return schedule;
+  }
+  const token =
+    previous?.kind === "webhook" && previous.token ? previous.token : generateCronWebhookToken();
+  return { ...schedule, token };
+}
+
+/** True when `token` is the webhook token of `job`, an enabled `webhook` job. */
+export function matchesCronWebhookToken(job: CronJob | undefined, token: string): boolean {
+  if (!job || !job.enabled || job.schedule.kind !== "webhook" || !job.schedule.token) {
+    return false;
+  }
+  return safeEqualSecret(token, job.schedule.token);
+}
+
+/** Throws when an event schedule is malformed. */
+export function assertCronTriggerSchedule(schedule: CronSchedule): void {
+  if (schedule.kind === "webhook") {
+    if (schedule.token !== undefined && schedule.token.trim().length < 16) {
+      throw new Error("cron webhook token must be at least 16 characters");
+    }
+    return;
+  }
+  if (schedule.kind !== "watch") {
+    return;
+  }
+  const rel = schedule.path?.trim();
+  if (!rel) {
+    throw new Error("cron watch path is required");
+  }
+  if (path.isAbsolute(rel) || rel.split(/[\\/]/).includes("..")) {
+    throw new Error("cron watch path must be relative to the agent workspace");
+  }
+  if (
+    schedule.debounceMs !== undefined &&
+    (!Number.isFinite(schedule.debounceMs) || schedule.debounceMs < 0)
+  ) {
+    throw new Error("cron watch debounceMs must be a non-negative number");
+  }
+}
+
+/** Resolves symlinks in the longest existing prefix of `target`. */
+function realpathExisting(target: string): string {
+  const missing: string[] = [];
+  let current = target;
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing.toReversed());
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      const parent = path.dirname(current);
+      if ((code !== "ENOENT" && code !== "ENOTDIR") || parent === current) {
+        throw err;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Resolves a watch path below the agent workspace. Throws when it leaves the workspace,
+ * lexically or through a symlink.
+ */
+export function resolveCronWatchPath(workspaceDir: string, rel: string): string {
+  const root = path.resolve(workspaceDir);
+  const resolved = path.resolve(root, rel);
+  const isInside = (target: string, base: string) =>
+    target === base || target.startsWith(`${base}${path.sep}`);
+  if (!isInside(resolved, root) || !isInside(realpathExisting(resolved), realpathExisting(root))) {
+    throw new Error(`cron watch path escapes the workspace: ${rel}`);
+  }
+  return resolved;
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compiles a path glob: `**` spans directories, `*` and `?` stay within one segment.
+ * Patterns without a slash match the file name at any depth.
+ */
+export function compileCronPathGlob(pattern: string): RegExp {
+  const normalized = pattern.trim().replaceAll("\\", "/").replace(/^\.\//, "");
+  const anchored = normalized.includes("/") ? normalized : `**/${normalized}`;
+  let source = "";
+  for (let i = 0; i < anchored.length; i += 1) {
+    const char = anchored[i];
+    if (char === "*" && anchored[i + 1] === "*") {
+      const slash = anchored[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** Applies a watch schedule's include/exclude globs to a path relative to its root. */
+export function matchesCronWatchFilters(
+  schedule: Pick<CronWatchSchedule, "include" | "exclude">,
+  relPath: string,
+): boolean {
+  const normalized = relPath.replaceAll("\\", "/");
+  const include = (schedule.include ?? []).filter((entry) => entry.trim());
+  if (include.length > 0 && !include.some((glob) => compileCronPathGlob(glob).test(normalized))) {
+    return false;
+  }
+  return !(schedule.exclude ?? []).some(
+    (glob) => glob.trim() && compileCronPathGlob(glob).test(normalized),
+  );
+}
+
+/**
+ * Queues an event on the job and makes it due. Watch events merge into the newest
+ * pending one unless a run has already picked that one up. Returns false when the
+ * queue is full.
+ */
+export function enqueueCronJobEvent(job: CronJob, event: CronJobEvent): boolean {
+  job.state ??= {};
+  const events = job.state.events ?? [];
+  const last = events.at(-1);
+  const lastInFlight =
+    events.length === 1 &&
+    typeof job.state.runningAtMs === "number" &&
+    last !== undefined &&
+    last.receivedAtMs <= job.state.runningAtMs;
+  if (event.source === "watch" && last?.source === "watch" && !lastInFlight) {
+    last.paths = [...new Set([...(last.paths ?? []), ...(event.paths ?? [])])].slice(
+      0,
+      MAX_CRON_WATCH_PATHS,
+    );
+  } else {
+    if (events.length >= MAX_CRON_PENDING_EVENTS) {
+      return false;
+    }
+    events.push({
+      ...event,
+      message:
+        event.message && event.message.length > MAX_CRON_WEBHOOK_MESSAGE_CHARS
+          ? `${event.message.slice(0, MAX_CRON_WEBHOOK_MESSAGE_CHARS)}\n[truncated]`
+          : event.message,
+      paths: event.paths?.slice(0, MAX_CRON_WATCH_PATHS),
+    });
+  }
+  job.state.events = events;
+  job.state.nextRunAtMs = events[0].receivedAtMs;
+  return true;
+}
+
+/**
+ * Drops the event a finished run consumed; events that arrived during the run stay.
+ */
+export function consumeCronJobEvent(job: CronJob, startedAtMs: number): void {
+  const events = job.state.events;
+  if (!events?.length || events[0].receivedAtMs > startedAtMs) {
+    return;
+  }
+  events.shift();
+  job.state.events = events.length > 0 ? events : undefined;
+}
+
+/**
+ * Builds the message a run handles for an event: the rendered webhook message replaces
+ * the job's message (wrapped as external content unless the job allows unsafe external
+ * content), file changes are appended to it.
+ */
+export function buildCronEventMessage(
+  message: string,
+  event?: CronJobEvent,
+  opts?: { allowUnsafeExternalContent?: boolean },
+): string {
+  if (!event) {
+    return message;
+  }
+  if (event.source === "webhook") {
+    if (!event.message?.trim()) {
+      return message;
+    }
+    return opts?.allowUnsafeExternalContent
+      ? event.message
+      : wrapExternalContent(event.message, { source: "webhook" });
+  }
+  const paths = event.paths ?? [];
+  return [
+    message,
+    "",
+    paths.length > 0
+      ? `Changed files:\n${paths.map((entry) => `- ${entry}`).join("\n")}`
+      : "Files in the watched path changed.",
+  ].join("\n");
+}
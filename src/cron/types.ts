@@ -1,9 +1,60 @@
 import type { ChannelId } from "../channels/plugins/types.js";
 
+/** Upstream run statuses a completion trigger can fire on. */
+export type CronTriggerStatus = "ok" | "error";
+
+/**
+ * OPENCLAWMU ADDITION: a window in which a schedule does not fire. Daily windows use
+ * local `HH:MM` times (an end before the start wraps past midnight); one-off windows
+ * use absolute ISO timestamps.
+ */
+export type CronBlackoutWindow = {
+  start: string;
+  end: string;
+  /** Daily windows: weekdays the window starts on (0 = Sunday); default every day. */
+  days?: number[];
+};
+
+/**
+ * OPENCLAWMU ADDITION: modifiers of `every` and `cron` schedules. Ticks they rule out
+ * are skipped, not postponed.
+ */
+export type CronCalendarRules = {
+  /** Named exclusion calendars: `<name>.ics` or `<name>.txt` in `calendars/` next to the store. */
+  exclude?: string[];
+  /** Excluded dates: `YYYY-MM-DD` or `YYYY-MM-DD..YYYY-MM-DD`. */
+  excludeDates?: string[];
+  /** Only fire Monday to Friday, on days that are not excluded. */
+  businessDays?: boolean;
+  /** Only fire on the n-th business day of the month (-1 = the last one). */
+  businessDay?: number;
+  blackouts?: CronBlackoutWindow[];
+  /** Timezone of dates and daily windows; default the cron `tz`, else the gateway's. */
+  tz?: string;
+};
+
 export type CronSchedule =
   | { kind: "at"; at: string }
-  | { kind: "every"; everyMs: number; anchorMs?: number }
-  | { kind: "cron"; expr: string; tz?: string };
+  | { kind: "every"; everyMs: number; anchorMs?: number; calendar?: CronCalendarRules }
+  | { kind: "cron"; expr: string; tz?: string; calendar?: CronCalendarRules }
+  // OPENCLAWMU ADDITION: run when another job of the same store finishes (default on ["ok"])
+  | { kind: "after"; jobId: string; on?: CronTriggerStatus[] }
+  // OPENCLAWMU ADDITION: run on an authenticated POST to `<hooks.path>/cron/...`
+  | {
+      kind: "webhook";
+      /** Bearer token callers must send; generated when the job is saved without one. */
+      token?: string;
+    }
+  // OPENCLAWMU ADDITION: run when files below a workspace path change
+  | {
+      kind: "watch";
+      /** Relative to the agent workspace. */
+      path: string;
+      /** Globs (relative to `path`) a changed file must match; default all files. */
+      include?: string[];
+      exclude?: string[];
+      debounceMs?: number;
+    };
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
@@ -52,6 +103,67 @@ export type CronPayloadPatch =
       bestEffortDeliver?: boolean;
     };
 
+/** OPENCLAWMU ADDITION: how the delay between retries of a failed run grows. */
+export type CronRetryBackoff = "fixed" | "linear" | "exponential";
+
+/** OPENCLAWMU ADDITION: retries of a failed run before the job waits for its next run. */
+export type CronRetryPolicy = {
+  /** Attempts per run, including the first one (1 disables retries). */
+  maxAttempts: number;
+  /** Delay before the first retry (default 30s). */
+  backoffMs?: number;
+  /** Default "exponential". */
+  backoff?: CronRetryBackoff;
+  /** Upper bound for the retry delay (default 1h). */
+  maxBackoffMs?: number;
+};
+
+/**
+ * OPENCLAWMU ADDITION: what a scheduled run does when the previous one is still going:
+ * drop it (`skip`, default), run it once the previous run ends (`queue`) or abandon
+ * the previous run (`replace`).
+ */
+export type CronConcurrencyPolicy = "skip" | "queue" | "replace";
+
+/**
+ * OPENCLAWMU ADDITION: which runs missed while the gateway was down are made up on
+ * start: none, only the latest (default) or every missed run.
+ */
+export type CronCatchUpPolicy = "none" | "latest" | "all";
+
+/** OPENCLAWMU ADDITION: the upstream run that triggered an `after` job. */
+export type CronJobTrigger = {
+  jobId: string;
+  jobName?: string;
+  status: CronTriggerStatus;
+  summary?: string;
+  error?: string;
+  finishedAtMs: number;
+};
+
+/** OPENCLAWMU ADDITION: provider-reported token usage (and priced cost) of one run. */
+export type CronRunUsage = {
+  input?: number;
+  output?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  totalTokens?: number;
+  /** Unset when the model has no cost config. */
+  costUsd?: number;
+  provider?: string;
+  model?: string;
+};
+
+/** OPENCLAWMU ADDITION: an inbound event that fires a `webhook` or `watch` job. */
+export type CronJobEvent = {
+  source: "webhook" | "watch";
+  receivedAtMs: number;
+  /** Webhook: the payload message/text rendered against the request. */
+  message?: string;
+  /** Watch: changed files, relative to the watched path. */
+  paths?: string[];
+};
+
 export type CronJobState = {
   nextRunAtMs?: number;
   runningAtMs?: number;
@@ -63,6 +175,17 @@ export type CronJobState = {
   consecutiveErrors?: number;
   /** Number of consecutive schedule computation errors. Auto-disables job after threshold. */
   scheduleErrorCount?: number;
+  /** OPENCLAWMU ADDITION: pending webhook/watch events, oldest first; one per run. */
+  events?: CronJobEvent[];
+  /** OPENCLAWMU ADDITION: pending completion trigger, consumed by the next run. */
+  trigger?: CronJobTrigger;
+  /** OPENCLAWMU ADDITION: retries used for the current failed run (retry policy). */
+  retryAttempt?: number;
+  /**
+   * OPENCLAWMU ADDITION: run owed outside the schedule (a retry, or a tick that came due
+   * during the previous run); superseded by the next run.
+   */
+  pendingRunAtMs?: number;
 };
 
 export type CronJob = {
@@ -79,6 +202,12 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  // OPENCLAWMU ADDITION: run policies
+  retry?: CronRetryPolicy;
+  /** Random delay of up to this many ms added to every time-based run. */
+  jitterMs?: number;
+  concurrency?: CronConcurrencyPolicy;
+  catchUp?: CronCatchUpPolicy;
   state: CronJobState;
 };
 
@@ -57,6 +57,7 @@ function resolveAgentComponentRoute(params: {
   userId: string;
   channelId: string;
   parentId: string | undefined;
+  text?: string;
 }) {
   return resolveAgentRoute({
     cfg: params.ctx.cfg,
@@ -69,6 +70,8 @@ function resolveAgentComponentRoute(params: {
       id: params.isDirectMessage ? params.userId : params.channelId,
     },
     parentPeer: params.parentId ? { kind: "channel", id: params.parentId } : undefined,
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: params.text,
   });
 }
 
@@ -528,6 +531,7 @@ export class AgentComponentButton extends Button {
       userId,
       channelId,
       parentId,
+      text: componentId,
     });
 
     const eventText = `[Discord component: ${componentId} clicked by ${username} (${userId})]`;
@@ -620,6 +624,7 @@ export class AgentSelectMenu extends StringSelectMenu {
       userId,
       channelId,
       parentId,
+      text: values.join(" "),
     });
 
     const eventText = `[Discord select menu: ${componentId} interacted by ${username} (${userId})${valuesText}]`;
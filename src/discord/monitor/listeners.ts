@@ -286,6 +286,8 @@ async function handleDiscordReactionEvent(params: {
         id: isDirectMessage ? user.id : data.channel_id,
       },
       parentPeer: parentId ? { kind: "channel", id: parentId } : undefined,
+      // OPENCLAWMU ADDITION: text/language binding conditions match the reaction emoji
+      text: emojiLabel,
     });
     enqueueSystemEvent(text, {
       sessionKey: route.sessionKey,
@@ -239,6 +239,8 @@ export async function preflightDiscordMessage(
     },
     // Pass parent peer for thread binding inheritance
     parentPeer: earlyThreadParentId ? { kind: "channel", id: earlyThreadParentId } : undefined,
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: baseText,
   });
   const mentionRegexes = buildMentionRegexes(params.cfg, route.agentId);
   const explicitlyMentioned = Boolean(
@@ -750,6 +750,8 @@ async function dispatchDiscordCommandInteraction(params: {
       id: isDirectMessage ? user.id : channelId,
     },
     parentPeer: threadParentId ? { kind: "channel", id: threadParentId } : undefined,
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: prompt,
   });
   const conversationLabel = isDirectMessage ? (user.globalName ?? user.username) : channelId;
   const ownerAllowFrom = resolveDiscordOwnerAllowFrom({
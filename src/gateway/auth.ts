@@ -43,6 +43,10 @@ export type GatewayAuthResult = {
   user?: string;
   /** Tenant ID for multi-tenant authentication. */
   tenantId?: string;
+  /** Tenant API key ID when a named key (not the primary token) authenticated. */
+  tenantKeyId?: string;
+  /** Scopes granted to the tenant credential (see TenantKeyScope). */
+  tenantScopes?: string[];
   reason?: string;
   /** Present when the request was blocked by the rate limiter. */
   rateLimited?: boolean;
@@ -310,13 +314,17 @@ export async function authorizeGatewayConnect(params: {
   // OPENCLAWMU ADDITION: multi-tenant auth path.
   // Try tenant token authentication first (format: "tenant:{tenantId}:{token}")
   if (connectAuth?.token && parseTenantToken(connectAuth.token)) {
-    const tenantContext = validateTenantToken(connectAuth.token);
+    const tenantContext = await validateTenantToken(connectAuth.token);
     if (tenantContext) {
       return {
         ok: true,
         method: "tenant-token",
         tenantId: tenantContext.tenantId,
-        user: `tenant:${tenantContext.tenantId}`,
+        tenantKeyId: tenantContext.keyId,
+        tenantScopes: tenantContext.scopes,
+        user: tenantContext.keyId
+          ? `tenant:${tenantContext.tenantId}:${tenantContext.keyId}`
+          : `tenant:${tenantContext.tenantId}`,
       };
     }
     return { ok: false, reason: "tenant_token_invalid" };
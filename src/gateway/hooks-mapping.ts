@@ -240,7 +240,7 @@ function buildActionFromMapping(
   ctx: HookMappingContext,
 ): HookMappingResult {
   if (mapping.action === "wake") {
-    const text = renderTemplate(mapping.textTemplate ?? "", ctx);
+    const text = renderHookTemplate(mapping.textTemplate ?? "", ctx);
     return {
       ok: true,
       action: {
@@ -250,7 +250,7 @@ function buildActionFromMapping(
       },
     };
   }
-  const message = renderTemplate(mapping.messageTemplate ?? "", ctx);
+  const message = renderHookTemplate(mapping.messageTemplate ?? "", ctx);
   return {
     ok: true,
     action: {
@@ -392,11 +392,15 @@ function renderOptional(value: string | undefined, ctx: HookMappingContext) {
   if (!value) {
     return undefined;
   }
-  const rendered = renderTemplate(value, ctx).trim();
+  const rendered = renderHookTemplate(value, ctx).trim();
   return rendered ? rendered : undefined;
 }
 
-function renderTemplate(template: string, ctx: HookMappingContext) {
+/**
+ * Renders `{{payload.x}}`, `{{headers.x}}`, `{{query.x}}`, `{{path}}` and `{{now}}`
+ * placeholders against an inbound hook request.
+ */
+export function renderHookTemplate(template: string, ctx: HookMappingContext) {
   if (!template) {
     return "";
   }
@@ -1,7 +1,7 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type { AuthRateLimiter } from "./auth-rate-limit.js";
 import { authorizeGatewayConnect, type ResolvedGatewayAuth } from "./auth.js";
-import { sendGatewayAuthFailure } from "./http-common.js";
+import { sendForbidden, sendGatewayAuthFailure } from "./http-common.js";
 import { getBearerToken } from "./http-utils.js";
 
 /**
@@ -32,6 +32,15 @@ export async function authorizeGatewayBearerRequestOrReply(params: {
     sendGatewayAuthFailure(params.res, authResult);
     return false;
   }
+  // OPENCLAWMU: scoped tenant keys need write access to run agents over HTTP.
+  if (
+    authResult.tenantScopes &&
+    !authResult.tenantScopes.includes("operator.write") &&
+    !authResult.tenantScopes.includes("operator.admin")
+  ) {
+    sendForbidden(params.res, "tenant key is missing scope: operator.write");
+    return false;
+  }
   // OPENCLAWMU: Return auth result with tenantId for session scoping
   return { ok: true, tenantId: authResult.tenantId };
 }
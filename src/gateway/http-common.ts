@@ -25,6 +25,12 @@ export function sendUnauthorized(res: ServerResponse) {
   });
 }
 
+export function sendForbidden(res: ServerResponse, message = "Forbidden") {
+  sendJson(res, 403, {
+    error: { message, type: "forbidden" },
+  });
+}
+
 export function sendRateLimited(res: ServerResponse, retryAfterMs?: number) {
   if (retryAfterMs && retryAfterMs > 0) {
     res.setHeader("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
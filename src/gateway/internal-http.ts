@@ -3,7 +3,7 @@
  *
  * Provides HTTP endpoints that wrap WebSocket RPC methods for:
  * - Tenant backup/restore operations
- * - Tenant management (create, delete, status)
+ * - Tenant management (create, update/lifecycle, scheduled delete, status)
  *
  * Authentication via X-Control-Plane-Token header.
  */
@@ -13,15 +13,23 @@ import { timingSafeEqual } from "node:crypto";
 import os from "node:os";
 import { loadConfig } from "../config/config.js";
 import {
-  backupTenantToS3,
-  restoreTenantFromS3,
+  backupTenant,
+  restoreTenant,
   listTenantBackups,
   deleteTenantBackup,
+  resolveBackupEncryptionKey,
+  resolveBackupTargetFromParams,
+  type BackupTarget,
   listTenants,
   getTenant,
   createTenant,
-  removeTenant,
-  type BackupConfig,
+  updateTenant,
+  TENANT_LIFECYCLE_STATES,
+  MAX_TENANT_PURGE_GRACE_DAYS,
+  isTenantLifecycleState,
+  resolveTenantLifecycleState,
+  transitionTenantState,
+  purgeTenant,
 } from "../tenants/index.js";
 import { sendJson, sendText, readJsonBodyOrError } from "./http-common.js";
 import { getHeader } from "./http-utils.js";
@@ -114,23 +122,36 @@ function parseInternalPath(pathname: string): {
 }
 
 /**
- * Extract S3 config from request body or query params.
+ * Resolves the backup target (configured `target` or inline S3 params) and encryption key
+ * from the request body or query params. Sends a 400 and returns null when invalid.
  */
-function extractBackupConfig(
+async function resolveBackupRequest(
+  res: ServerResponse,
   body: Record<string, unknown>,
   query: URLSearchParams,
-): BackupConfig | null {
-  const bucket = (body.bucket as string) || query.get("bucket");
-  if (!bucket) {
+): Promise<{ target: BackupTarget; encryptionKey?: Buffer } | null> {
+  const pick = (name: string) => body[name] || query.get(name) || undefined;
+  try {
+    const cfg = loadConfig();
+    const target = resolveBackupTargetFromParams(
+      {
+        target: pick("target"),
+        bucket: pick("bucket"),
+        endpoint: pick("endpoint"),
+        region: pick("region"),
+        prefix: pick("prefix"),
+      },
+      cfg,
+    );
+    if (!target) {
+      sendJson(res, 400, { error: "target or bucket is required" });
+      return null;
+    }
+    return { target, encryptionKey: await resolveBackupEncryptionKey({ cfg }) };
+  } catch (err) {
+    sendJson(res, 400, { error: err instanceof Error ? err.message : String(err) });
     return null;
   }
-
-  return {
-    bucket,
-    endpoint: (body.endpoint as string) || query.get("endpoint") || undefined,
-    region: (body.region as string) || query.get("region") || undefined,
-    prefix: (body.prefix as string) || query.get("prefix") || undefined,
-  };
 }
 
 /**
@@ -141,20 +162,19 @@ async function handleBackup(
   tenantId: string,
   body: Record<string, unknown>,
 ): Promise<void> {
-  const config = extractBackupConfig(body, new URLSearchParams());
-  if (!config) {
-    sendJson(res, 400, { error: "bucket is required" });
+  const request = await resolveBackupRequest(res, body, new URLSearchParams());
+  if (!request) {
     return;
   }
 
   try {
-    const result = await backupTenantToS3({ tenantId, config });
-    sendJson(res, 200, {
-      key: result.key,
-      tenantId: result.tenantId,
-      timestamp: result.timestamp,
-      size: result.size,
+    const result = await backupTenant({
+      tenantId,
+      target: request.target,
+      incremental: body.incremental === true,
+      encryptionKey: request.encryptionKey,
     });
+    sendJson(res, 200, result);
   } catch (err) {
     sendJson(res, 500, {
       error: err instanceof Error ? err.message : String(err),
@@ -163,39 +183,36 @@ async function handleBackup(
 }
 
 /**
- * Handle restore request.
+ * Handle restore request (`dryRun: true` only verifies and reports changes).
  */
 async function handleRestore(
   res: ServerResponse,
   tenantId: string,
   body: Record<string, unknown>,
 ): Promise<void> {
-  const config = extractBackupConfig(body, new URLSearchParams());
-  if (!config) {
-    sendJson(res, 400, { error: "bucket is required" });
-    return;
-  }
-
   const key = body.key as string;
   if (!key) {
     sendJson(res, 400, { error: "key is required" });
     return;
   }
 
+  const request = await resolveBackupRequest(res, body, new URLSearchParams());
+  if (!request) {
+    return;
+  }
+
   const createIfMissing = body.createIfMissing !== false;
 
   try {
-    const result = await restoreTenantFromS3({
+    const result = await restoreTenant({
       tenantId,
-      config,
+      target: request.target,
       key,
       createIfMissing,
+      dryRun: body.dryRun === true,
+      encryptionKey: request.encryptionKey,
     });
-    sendJson(res, 200, {
-      tenantId: result.tenantId,
-      restoredAt: result.restoredAt,
-      sourceKey: result.sourceKey,
-    });
+    sendJson(res, 200, result);
   } catch (err) {
     sendJson(res, 500, {
       error: err instanceof Error ? err.message : String(err),
@@ -211,14 +228,13 @@ async function handleListBackups(
   tenantId: string,
   query: URLSearchParams,
 ): Promise<void> {
-  const config = extractBackupConfig({}, query);
-  if (!config) {
-    sendJson(res, 400, { error: "bucket is required" });
+  const request = await resolveBackupRequest(res, {}, query);
+  if (!request) {
     return;
   }
 
   try {
-    const backups = await listTenantBackups({ tenantId, config });
+    const backups = await listTenantBackups({ tenantId, target: request.target });
     sendJson(res, 200, { backups });
   } catch (err) {
     sendJson(res, 500, {
@@ -234,15 +250,15 @@ async function handleDeleteBackup(
   res: ServerResponse,
   key: string,
   body: Record<string, unknown>,
+  query: URLSearchParams,
 ): Promise<void> {
-  const config = extractBackupConfig(body, new URLSearchParams());
-  if (!config) {
-    sendJson(res, 400, { error: "bucket is required" });
+  const request = await resolveBackupRequest(res, body, query);
+  if (!request) {
     return;
   }
 
   try {
-    await deleteTenantBackup({ key, config });
+    await deleteTenantBackup({ key, target: request.target });
     sendJson(res, 200, { deleted: true, key });
   } catch (err) {
     sendJson(res, 500, {
@@ -251,6 +267,67 @@ async function handleDeleteBackup(
   }
 }
 
+function isValidGraceDays(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= 0 &&
+    value <= MAX_TENANT_PURGE_GRACE_DAYS
+  );
+}
+
+/**
+ * Handle tenant update (display name and lifecycle state).
+ */
+async function handleTenantPatch(
+  res: ServerResponse,
+  tenantId: string,
+  body: Record<string, unknown>,
+): Promise<void> {
+  const tenant = getTenant(tenantId);
+  if (!tenant) {
+    sendJson(res, 404, { error: "Tenant not found" });
+    return;
+  }
+  if (body.state !== undefined && !isTenantLifecycleState(body.state)) {
+    sendJson(res, 400, {
+      error: `state must be one of: ${TENANT_LIFECYCLE_STATES.join(", ")}`,
+    });
+    return;
+  }
+  if (body.graceDays !== undefined && !isValidGraceDays(body.graceDays)) {
+    sendJson(res, 400, {
+      error: `graceDays must be between 0 and ${MAX_TENANT_PURGE_GRACE_DAYS}`,
+    });
+    return;
+  }
+
+  try {
+    if (typeof body.displayName === "string") {
+      await updateTenant(tenantId, { displayName: body.displayName });
+    }
+    const from = resolveTenantLifecycleState(tenant);
+    if (body.state !== undefined && body.state !== from) {
+      await transitionTenantState(tenantId, body.state, {
+        reason: typeof body.reason === "string" ? body.reason : undefined,
+        actor: "control-plane",
+        graceDays: body.graceDays as number | undefined,
+      });
+    }
+    const updated = getTenant(tenantId);
+    sendJson(res, 200, {
+      tenantId,
+      displayName: updated?.displayName,
+      state: updated ? resolveTenantLifecycleState(updated) : from,
+      stateChangedAt: updated?.stateChangedAt,
+      purgeAfter: updated?.purgeAfter,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    sendJson(res, /Cannot move tenant/.test(message) ? 409 : 500, { error: message });
+  }
+}
+
 /**
  * Handle tenant CRUD operations.
  */
@@ -273,10 +350,26 @@ async function handleTenantCrud(
       createdAt: tenant.createdAt,
       lastSeenAt: tenant.lastSeenAt,
       disabled: tenant.disabled,
+      state: resolveTenantLifecycleState(tenant),
+      stateChangedAt: tenant.stateChangedAt,
+      stateReason: tenant.stateReason,
+      purgeAfter: tenant.purgeAfter,
     });
     return;
   }
 
+  if (method === "PATCH") {
+    // Update tenant / lifecycle transition
+    const body = (await readJsonBodyOrError(req, res, 65536)) as
+      | Record<string, unknown>
+      | undefined;
+    if (body === undefined) {
+      return;
+    }
+    await handleTenantPatch(res, tenantId, body);
+    return;
+  }
+
   if (method === "POST") {
     // Create tenant
     const body = (await readJsonBodyOrError(req, res, 65536)) as
@@ -287,7 +380,7 @@ async function handleTenantCrud(
     }
 
     try {
-      const result = createTenant(tenantId, {
+      const result = await createTenant(tenantId, {
         displayName: body.displayName as string | undefined,
       });
       sendJson(res, 201, {
@@ -304,9 +397,42 @@ async function handleTenantCrud(
   }
 
   if (method === "DELETE") {
+    // Schedules deletion; data is purged once the grace window passes.
+    const query = new URL(req.url ?? "/", "http://localhost").searchParams;
+    const graceRaw = query.get("graceDays");
+    const graceDays = graceRaw === null ? undefined : Number(graceRaw);
+    if (graceDays !== undefined && !isValidGraceDays(graceDays)) {
+      sendJson(res, 400, {
+        error: `graceDays must be between 0 and ${MAX_TENANT_PURGE_GRACE_DAYS}`,
+      });
+      return;
+    }
     try {
-      removeTenant(tenantId, { deleteData: true });
-      sendJson(res, 200, { deleted: true, tenantId });
+      const tenant = getTenant(tenantId);
+      if (!tenant) {
+        sendJson(res, 404, { error: "Tenant not found" });
+        return;
+      }
+      const transition =
+        resolveTenantLifecycleState(tenant) === "pending-deletion"
+          ? undefined
+          : await transitionTenantState(tenantId, "pending-deletion", {
+              reason: query.get("reason") ?? undefined,
+              actor: "control-plane",
+              graceDays,
+            });
+      if (graceDays === 0) {
+        if (await purgeTenant(tenantId, { actor: "control-plane" })) {
+          sendJson(res, 200, { deleted: true, tenantId });
+          return;
+        }
+      }
+      sendJson(res, 202, {
+        deleted: false,
+        tenantId,
+        state: "pending-deletion",
+        purgeAfter: transition?.purgeAfter ?? tenant.purgeAfter,
+      });
     } catch (err) {
       sendJson(res, 500, {
         error: err instanceof Error ? err.message : String(err),
@@ -332,7 +458,7 @@ function handleStatus(res: ServerResponse): void {
   sendJson(res, 200, {
     version: process.env.npm_package_version || "unknown",
     status: "ok",
-    capabilities: ["backup", "restore"],
+    capabilities: ["backup", "restore", "restore-dry-run", "backup-targets", "lifecycle"],
     multiTenant: config.gateway?.multiTenant ?? false,
     tenantsCount,
     metrics: {
@@ -435,7 +561,7 @@ export async function handleInternalHttpRequest(
         if (body === undefined) {
           return true;
         }
-        await handleDeleteBackup(res, backupKey, body);
+        await handleDeleteBackup(res, backupKey, body, url.searchParams);
         return true;
       } else {
         // GET /internal/v1/tenants/:id/backups
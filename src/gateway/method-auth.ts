@@ -7,22 +7,49 @@ const READ_SCOPE = "operator.read";
 const WRITE_SCOPE = "operator.write";
 const APPROVALS_SCOPE = "operator.approvals";
 const PAIRING_SCOPE = "operator.pairing";
-const TENANT_ALLOWED_METHODS = new Set([
+// Tenant self-administration: requires operator.admin on the tenant credential
+// (the primary token has it; scoped API keys only when granted).
+const TENANT_ADMIN_METHODS = new Set([
+  "tenants.rotate",
+  "tenants.delete",
+  "tenants.restore",
+  "sandbox.snapshots.restore",
+  "sandbox.snapshots.delete",
+  "tenants.keys.create",
+  "tenants.keys.list",
+  "tenants.keys.revoke",
+]);
+// Methods available to tenant API keys holding the "terminal" scope.
+const TENANT_TERMINAL_METHODS = new Set([
   "health",
   "terminal.spawn",
+  "terminal.attach",
+  "terminal.detach",
   "terminal.write",
   "terminal.resize",
   "terminal.close",
   "terminal.list",
+]);
+
+// Everything a tenant credential may call; scopes are checked afterwards.
+const TENANT_ALLOWED_METHODS = new Set([
+  ...TENANT_TERMINAL_METHODS,
+  ...TENANT_ADMIN_METHODS,
+  "terminal.recordings.list",
+  "terminal.recordings.get",
   "tenants.get",
-  "tenants.rotate",
   "tenants.backup",
   "tenants.backups.list",
-  "tenants.restore",
-  "tenants.delete",
   "tenants.usage",
   "tenants.quota.status",
   "tenants.usage.history",
+  // Workspace snapshots (own workspace)
+  "sandbox.snapshots.list",
+  "sandbox.snapshots.create",
+  "sandbox.snapshots.diff",
+  // Memory facts (own agents)
+  "memory.facts.list",
+  "memory.facts.delete",
   // Config management (tenant overlay)
   "config.get",
   "config.set",
@@ -46,6 +73,8 @@ const TENANT_ALLOWED_METHODS = new Set([
   "cron.remove",
   "cron.status",
   "cron.runs",
+  "cron.runs.transcript",
+  "cron.preview",
   "cron.run",
   // Skills management (tenant-isolated)
   "skills.status",
@@ -78,6 +107,7 @@ const TENANT_ALLOWED_METHODS = new Set([
   "node.invoke",
 ]);
 
+const TENANT_TERMINAL_SCOPE = "terminal";
 const APPROVAL_METHODS = new Set(["exec.approval.request", "exec.approval.resolve"]);
 const NODE_ROLE_METHODS = new Set(["node.invoke.result", "node.event", "skills.bins"]);
 const PAIRING_METHODS = new Set([
@@ -113,17 +143,24 @@ const READ_METHODS = new Set([
   "cron.list",
   "cron.status",
   "cron.runs",
+  "cron.runs.transcript",
+  "cron.preview",
+  "memory.facts.list",
   "system-presence",
   "last-heartbeat",
   "node.list",
   "node.describe",
   "chat.history",
   "terminal.list",
+  "terminal.recordings.list",
+  "terminal.recordings.get",
   "tenants.get",
   "tenants.backups.list",
   "tenants.usage",
   "tenants.quota.status",
   "tenants.usage.history",
+  "sandbox.snapshots.list",
+  "sandbox.snapshots.diff",
 ]);
 const WRITE_METHODS = new Set([
   "send",
@@ -141,11 +178,15 @@ const WRITE_METHODS = new Set([
   "chat.abort",
   "browser.request",
   "terminal.spawn",
+  "terminal.attach",
+  "terminal.detach",
   "terminal.write",
   "terminal.resize",
   "terminal.close",
   "tenants.rotate",
   "tenants.backup",
+  "sandbox.snapshots.create",
+  "memory.facts.delete",
 ]);
 
 export function authorizeGatewayMethod(method: string, client: GatewayClient | null) {
@@ -172,6 +213,17 @@ export function authorizeGatewayMethod(method: string, client: GatewayClient | n
       `method not available for tenant token: ${method}`,
     );
   }
+  if (client.tenantId) {
+    // Every tenant credential carries explicit scopes (the primary token gets all of
+    // them); a tenant client without any gets no tenant admin or terminal access.
+    const tenantScopes = client.tenantScopes ?? [];
+    if (TENANT_TERMINAL_METHODS.has(method) && tenantScopes.includes(TENANT_TERMINAL_SCOPE)) {
+      return null;
+    }
+    if (TENANT_ADMIN_METHODS.has(method) && !tenantScopes.includes(ADMIN_SCOPE)) {
+      return errorShape(ErrorCodes.INVALID_REQUEST, "missing scope: operator.admin");
+    }
+  }
   if (scopes.includes(ADMIN_SCOPE)) {
     return null;
   }
@@ -204,6 +256,9 @@ export function authorizeGatewayMethod(method: string, client: GatewayClient | n
   }
   // Allow tenant tokens to use whitelisted methods even if they would normally require admin scope
   if (client.tenantId && TENANT_ALLOWED_METHODS.has(method)) {
+    if (!scopes.includes(WRITE_SCOPE)) {
+      return errorShape(ErrorCodes.INVALID_REQUEST, "missing scope: operator.write");
+    }
     return null;
   }
   if (
@@ -7,6 +7,7 @@ import { agentCommand } from "../commands/agent.js";
 import { emitAgentEvent, onAgentEvent } from "../infra/agent-events.js";
 import { logWarn } from "../logger.js";
 import { defaultRuntime } from "../runtime.js";
+import { enforceTenantQuota, isTenantQuotaError } from "../tenants/quota-gate.js";
 import {
   buildAgentMessageFromConversationEntries,
   type ConversationEntry,
@@ -18,6 +19,7 @@ import {
   resolveSessionKey,
   scopeSessionKeyToTenant,
 } from "./http-utils.js";
+import { sendTenantQuotaHttpError } from "./server-tenant-quota.js";
 
 type OpenAiHttpOptions = {
   auth: ResolvedGatewayAuth;
@@ -201,6 +203,17 @@ export async function handleOpenAiHttpRequest(
   const runId = `chatcmpl_${randomUUID()}`;
   const deps = createDefaultDeps();
 
+  // OPENCLAWMU ADDITION: reject over-quota tenants before streaming starts.
+  try {
+    await enforceTenantQuota({ sessionKey, tenantId: handled.tenantId, runId, source: "http" });
+  } catch (err) {
+    if (isTenantQuotaError(err)) {
+      sendTenantQuotaHttpError(res, err);
+      return true;
+    }
+    throw err;
+  }
+
   if (!stream) {
     try {
       const result = await agentCommand(
@@ -36,6 +36,7 @@ import {
   type InputImageSource,
 } from "../media/input-files.js";
 import { defaultRuntime } from "../runtime.js";
+import { enforceTenantQuota, isTenantQuotaError } from "../tenants/quota-gate.js";
 import {
   buildAgentMessageFromConversationEntries,
   type ConversationEntry,
@@ -57,6 +58,7 @@ import {
   type StreamingEvent,
   type Usage,
 } from "./open-responses.schema.js";
+import { sendTenantQuotaHttpError } from "./server-tenant-quota.js";
 
 type OpenResponsesHttpOptions = {
   auth: ResolvedGatewayAuth;
@@ -543,6 +545,22 @@ export async function handleOpenResponsesHttpRequest(
   const responseId = `resp_${randomUUID()}`;
   const outputItemId = `msg_${randomUUID()}`;
   const deps = createDefaultDeps();
+
+  // OPENCLAWMU ADDITION: reject over-quota tenants before streaming starts.
+  try {
+    await enforceTenantQuota({
+      sessionKey,
+      tenantId: handled.tenantId,
+      runId: responseId,
+      source: "http",
+    });
+  } catch (err) {
+    if (isTenantQuotaError(err)) {
+      sendTenantQuotaHttpError(res, err);
+      return true;
+    }
+    throw err;
+  }
   const streamParams =
     typeof payload.max_output_tokens === "number"
       ? { maxTokens: payload.max_output_tokens }
@@ -87,6 +87,10 @@ import {
   CronRunParamsSchema,
   type CronRunsParams,
   CronRunsParamsSchema,
+  type CronRunTranscriptParams,
+  CronRunTranscriptParamsSchema,
+  type CronPreviewParams,
+  CronPreviewParamsSchema,
   type CronStatusParams,
   CronStatusParamsSchema,
   type CronUpdateParams,
@@ -324,6 +328,10 @@ export const validateCronUpdateParams = ajv.compile<CronUpdateParams>(CronUpdate
 export const validateCronRemoveParams = ajv.compile<CronRemoveParams>(CronRemoveParamsSchema);
 export const validateCronRunParams = ajv.compile<CronRunParams>(CronRunParamsSchema);
 export const validateCronRunsParams = ajv.compile<CronRunsParams>(CronRunsParamsSchema);
+export const validateCronRunTranscriptParams = ajv.compile<CronRunTranscriptParams>(
+  CronRunTranscriptParamsSchema,
+);
+export const validateCronPreviewParams = ajv.compile<CronPreviewParams>(CronPreviewParamsSchema);
 export const validateDevicePairListParams = ajv.compile<DevicePairListParams>(
   DevicePairListParamsSchema,
 );
@@ -486,6 +494,8 @@ export {
   CronRemoveParamsSchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  CronRunTranscriptParamsSchema,
+  CronPreviewParamsSchema,
   LogsTailParamsSchema,
   LogsTailResultSchema,
   ChatHistoryParamsSchema,
@@ -592,6 +602,8 @@ export type {
   CronRunParams,
   CronRunsParams,
   CronRunLogEntry,
+  CronRunTranscriptParams,
+  CronPreviewParams,
   ExecApprovalsGetParams,
   ExecApprovalsSetParams,
   ExecApprovalsSnapshot,
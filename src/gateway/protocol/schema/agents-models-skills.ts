@@ -169,6 +169,9 @@ export const ModelsListParamsSchema = Type.Object({}, { additionalProperties: fa
 export const ModelsListResultSchema = Type.Object(
   {
     models: Type.Array(ModelChoiceSchema),
+    // OPENCLAWMU ADDITION: tenant model policy (tenant clients only).
+    defaultModel: Type.Optional(NonEmptyString),
+    downgradedTo: Type.Optional(NonEmptyString),
   },
   { additionalProperties: false },
 );
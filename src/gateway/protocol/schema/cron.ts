@@ -1,6 +1,28 @@
 import { Type } from "@sinclair/typebox";
 import { NonEmptyString } from "./primitives.js";
 
+// OPENCLAWMU ADDITION: calendar modifiers of `every` and `cron` schedules
+export const CronBlackoutWindowSchema = Type.Object(
+  {
+    start: NonEmptyString,
+    end: NonEmptyString,
+    days: Type.Optional(Type.Array(Type.Integer({ minimum: 0, maximum: 6 }))),
+  },
+  { additionalProperties: false },
+);
+
+export const CronCalendarRulesSchema = Type.Object(
+  {
+    exclude: Type.Optional(Type.Array(NonEmptyString)),
+    excludeDates: Type.Optional(Type.Array(NonEmptyString)),
+    businessDays: Type.Optional(Type.Boolean()),
+    businessDay: Type.Optional(Type.Integer({ minimum: -23, maximum: 23 })),
+    blackouts: Type.Optional(Type.Array(CronBlackoutWindowSchema)),
+    tz: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
 export const CronScheduleSchema = Type.Union([
   Type.Object(
     {
@@ -14,6 +36,7 @@ export const CronScheduleSchema = Type.Union([
       kind: Type.Literal("every"),
       everyMs: Type.Integer({ minimum: 1 }),
       anchorMs: Type.Optional(Type.Integer({ minimum: 0 })),
+      calendar: Type.Optional(CronCalendarRulesSchema),
     },
     { additionalProperties: false },
   ),
@@ -22,6 +45,37 @@ export const CronScheduleSchema = Type.Union([
       kind: Type.Literal("cron"),
       expr: NonEmptyString,
       tz: Type.Optional(Type.String()),
+      calendar: Type.Optional(CronCalendarRulesSchema),
+    },
+    { additionalProperties: false },
+  ),
+  // OPENCLAWMU ADDITION: run when another job finishes
+  Type.Object(
+    {
+      kind: Type.Literal("after"),
+      jobId: NonEmptyString,
+      on: Type.Optional(
+        Type.Array(Type.Union([Type.Literal("ok"), Type.Literal("error")]), { minItems: 1 }),
+      ),
+    },
+    { additionalProperties: false },
+  ),
+  // OPENCLAWMU ADDITION: run on an authenticated webhook call
+  Type.Object(
+    {
+      kind: Type.Literal("webhook"),
+      token: Type.Optional(Type.String({ minLength: 16 })),
+    },
+    { additionalProperties: false },
+  ),
+  // OPENCLAWMU ADDITION: run when files below a workspace path change
+  Type.Object(
+    {
+      kind: Type.Literal("watch"),
+      path: NonEmptyString,
+      include: Type.Optional(Type.Array(NonEmptyString)),
+      exclude: Type.Optional(Type.Array(NonEmptyString)),
+      debounceMs: Type.Optional(Type.Integer({ minimum: 0 })),
     },
     { additionalProperties: false },
   ),
@@ -97,6 +151,30 @@ export const CronDeliveryPatchSchema = Type.Object(
   { additionalProperties: false },
 );
 
+// OPENCLAWMU ADDITION: run policies
+export const CronRetryPolicySchema = Type.Object(
+  {
+    maxAttempts: Type.Integer({ minimum: 1, maximum: 100 }),
+    backoffMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    backoff: Type.Optional(
+      Type.Union([Type.Literal("fixed"), Type.Literal("linear"), Type.Literal("exponential")]),
+    ),
+    maxBackoffMs: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+const CronRunPolicyFields = {
+  retry: Type.Optional(CronRetryPolicySchema),
+  jitterMs: Type.Optional(Type.Integer({ minimum: 0 })),
+  concurrency: Type.Optional(
+    Type.Union([Type.Literal("skip"), Type.Literal("queue"), Type.Literal("replace")]),
+  ),
+  catchUp: Type.Optional(
+    Type.Union([Type.Literal("none"), Type.Literal("latest"), Type.Literal("all")]),
+  ),
+};
+
 export const CronJobStateSchema = Type.Object(
   {
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
@@ -108,6 +186,21 @@ export const CronJobStateSchema = Type.Object(
     lastError: Type.Optional(Type.String()),
     lastDurationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     consecutiveErrors: Type.Optional(Type.Integer({ minimum: 0 })),
+    retryAttempt: Type.Optional(Type.Integer({ minimum: 0 })),
+    pendingRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    events: Type.Optional(
+      Type.Array(
+        Type.Object(
+          {
+            source: Type.Union([Type.Literal("webhook"), Type.Literal("watch")]),
+            receivedAtMs: Type.Integer({ minimum: 0 }),
+            message: Type.Optional(Type.String()),
+            paths: Type.Optional(Type.Array(Type.String())),
+          },
+          { additionalProperties: false },
+        ),
+      ),
+    ),
   },
   { additionalProperties: false },
 );
@@ -127,6 +220,7 @@ export const CronJobSchema = Type.Object(
     wakeMode: Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")]),
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    ...CronRunPolicyFields,
     state: CronJobStateSchema,
   },
   { additionalProperties: false },
@@ -153,6 +247,7 @@ export const CronAddParamsSchema = Type.Object(
     wakeMode: Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")]),
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    ...CronRunPolicyFields,
   },
   { additionalProperties: false },
 );
@@ -169,6 +264,7 @@ export const CronJobPatchSchema = Type.Object(
     wakeMode: Type.Optional(Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")])),
     payload: Type.Optional(CronPayloadPatchSchema),
     delivery: Type.Optional(CronDeliveryPatchSchema),
+    ...CronRunPolicyFields,
     state: Type.Optional(Type.Partial(CronJobStateSchema)),
   },
   { additionalProperties: false },
@@ -223,31 +319,81 @@ export const CronRunParamsSchema = Type.Union([
   ),
 ]);
 
-export const CronRunsParamsSchema = Type.Union([
+const CronRunStatusSchema = Type.Union([
+  Type.Literal("ok"),
+  Type.Literal("error"),
+  Type.Literal("skipped"),
+]);
+
+// OPENCLAWMU ADDITION: run history filters and pagination. Without an id the query
+// covers every job of the store.
+export const CronRunsParamsSchema = Type.Object(
+  {
+    id: Type.Optional(NonEmptyString),
+    jobId: Type.Optional(NonEmptyString),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
+    statuses: Type.Optional(Type.Array(CronRunStatusSchema, { minItems: 1 })),
+    sinceMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    untilMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    cursor: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+/** OPENCLAWMU ADDITION: transcript of one logged run. */
+export const CronRunTranscriptParamsSchema = Type.Union([
   Type.Object(
     {
       id: NonEmptyString,
-      limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
+      sessionId: NonEmptyString,
+      limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
     },
     { additionalProperties: false },
   ),
   Type.Object(
     {
       jobId: NonEmptyString,
-      limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
+      sessionId: NonEmptyString,
+      limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
     },
     { additionalProperties: false },
   ),
 ]);
 
+/**
+ * OPENCLAWMU ADDITION: next fire times of a schedule (unsaved, or a saved job's).
+ */
+export const CronPreviewParamsSchema = Type.Object(
+  {
+    id: Type.Optional(NonEmptyString),
+    jobId: Type.Optional(NonEmptyString),
+    schedule: Type.Optional(CronScheduleSchema),
+    count: Type.Optional(Type.Integer({ minimum: 1, maximum: 100 })),
+    fromMs: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+export const CronRunUsageSchema = Type.Object(
+  {
+    input: Type.Optional(Type.Number({ minimum: 0 })),
+    output: Type.Optional(Type.Number({ minimum: 0 })),
+    cacheRead: Type.Optional(Type.Number({ minimum: 0 })),
+    cacheWrite: Type.Optional(Type.Number({ minimum: 0 })),
+    totalTokens: Type.Optional(Type.Number({ minimum: 0 })),
+    costUsd: Type.Optional(Type.Number({ minimum: 0 })),
+    provider: Type.Optional(Type.String()),
+    model: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
 export const CronRunLogEntrySchema = Type.Object(
   {
     ts: Type.Integer({ minimum: 0 }),
     jobId: NonEmptyString,
     action: Type.Literal("finished"),
-    status: Type.Optional(
-      Type.Union([Type.Literal("ok"), Type.Literal("error"), Type.Literal("skipped")]),
-    ),
+    status: Type.Optional(CronRunStatusSchema),
     error: Type.Optional(Type.String()),
     summary: Type.Optional(Type.String()),
     sessionId: Type.Optional(NonEmptyString),
@@ -255,6 +401,9 @@ export const CronRunLogEntrySchema = Type.Object(
     runAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
     durationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    outputText: Type.Optional(Type.String()),
+    agentId: Type.Optional(NonEmptyString),
+    usage: Type.Optional(CronRunUsageSchema),
   },
   { additionalProperties: false },
 );
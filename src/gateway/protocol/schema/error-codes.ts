@@ -9,6 +9,7 @@ export const ErrorCodes = {
   // OPENCLAWMU: additional error codes for multi-tenancy
   UNAUTHORIZED: "UNAUTHORIZED",
   NOT_FOUND: "NOT_FOUND",
+  QUOTA_EXCEEDED: "QUOTA_EXCEEDED",
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
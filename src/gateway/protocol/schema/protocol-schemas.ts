@@ -58,10 +58,12 @@ import {
   CronAddParamsSchema,
   CronJobSchema,
   CronListParamsSchema,
+  CronPreviewParamsSchema,
   CronRemoveParamsSchema,
   CronRunLogEntrySchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  CronRunTranscriptParamsSchema,
   CronStatusParamsSchema,
   CronUpdateParamsSchema,
 } from "./cron.js";
@@ -233,6 +235,8 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   CronRunParams: CronRunParamsSchema,
   CronRunsParams: CronRunsParamsSchema,
   CronRunLogEntry: CronRunLogEntrySchema,
+  CronRunTranscriptParams: CronRunTranscriptParamsSchema,
+  CronPreviewParams: CronPreviewParamsSchema,
   LogsTailParams: LogsTailParamsSchema,
   LogsTailResult: LogsTailResultSchema,
   ExecApprovalsGetParams: ExecApprovalsGetParamsSchema,
@@ -5,6 +5,8 @@ import type { HeartbeatRunner } from "../infra/heartbeat-runner.js";
 import type { PluginServicesHandle } from "../plugins/services.js";
 import { type ChannelId, listChannelPlugins } from "../channels/plugins/index.js";
 import { stopGmailWatcher } from "../hooks/gmail-watcher.js";
+import { closeTenantDiskUsageTrackers } from "../tenants/disk-usage.js";
+import { stopTenantEgressProxies } from "../tenants/egress.js";
 
 export function createGatewayCloseHandler(params: {
   bonjourStop: (() => Promise<void>) | null;
@@ -22,6 +24,15 @@ export function createGatewayCloseHandler(params: {
   dedupeCleanup: ReturnType<typeof setInterval>;
   agentUnsub: (() => void) | null;
   heartbeatUnsub: (() => void) | null;
+  /** OPENCLAWMU ADDITION: tenant quota event listener. */
+  tenantQuotaUnsub?: (() => void) | null;
+  /** OPENCLAWMU ADDITION: tenant lifecycle listener and purge timer. */
+  tenantLifecycleUnsub?: (() => void) | null;
+  tenantPurgeInterval?: ReturnType<typeof setInterval> | null;
+  /** OPENCLAWMU ADDITION: scheduled tenant backups. */
+  tenantBackupInterval?: ReturnType<typeof setInterval> | null;
+  /** OPENCLAWMU ADDITION: tenant sandbox disk quota checks. */
+  tenantDiskQuotaInterval?: ReturnType<typeof setInterval> | null;
   chatRunState: { clear: () => void };
   clients: Set<{ socket: { close: (code: number, reason: string) => void } }>;
   configReloader: { stop: () => Promise<void> };
@@ -95,6 +106,32 @@ export function createGatewayCloseHandler(params: {
         /* ignore */
       }
     }
+    if (params.tenantQuotaUnsub) {
+      try {
+        params.tenantQuotaUnsub();
+      } catch {
+        /* ignore */
+      }
+    }
+    if (params.tenantLifecycleUnsub) {
+      try {
+        params.tenantLifecycleUnsub();
+      } catch {
+        /* ignore */
+      }
+    }
+    if (params.tenantPurgeInterval) {
+      clearInterval(params.tenantPurgeInterval);
+    }
+    if (params.tenantBackupInterval) {
+      clearInterval(params.tenantBackupInterval);
+    }
+    if (params.tenantDiskQuotaInterval) {
+      clearInterval(params.tenantDiskQuotaInterval);
+    }
+    closeTenantDiskUsageTrackers();
+    // OPENCLAWMU ADDITION: tenant sandbox egress proxies
+    await stopTenantEgressProxies().catch(() => {});
     params.chatRunState.clear();
     for (const c of params.clients) {
       try {
@@ -1,5 +1,5 @@
 import type { CliDeps } from "../cli/deps.js";
-import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { loadConfig } from "../config/config.js";
 import { resolveAgentMainSessionKey } from "../config/sessions.js";
 import { resolveStorePath } from "../config/sessions/paths.js";
@@ -8,7 +8,7 @@ import {
   createMultiTenantCronManager,
   type MultiTenantCronManager,
 } from "../cron/multi-tenant-manager.js";
-import { appendCronRunLog, resolveCronRunLogPath } from "../cron/run-log.js";
+import { appendCronRunLog, buildCronRunLogEntry, resolveCronRunLogPath } from "../cron/run-log.js";
 import { CronService } from "../cron/service.js";
 import { resolveCronStorePath } from "../cron/store.js";
 import { runHeartbeatOnce } from "../infra/heartbeat-runner.js";
@@ -91,7 +91,7 @@ export function buildGatewayCronService(params: {
         deps: { ...params.deps, runtime: defaultRuntime },
       });
     },
-    runIsolatedAgentJob: async ({ job, message }) => {
+    runIsolatedAgentJob: async ({ job, message, abortSignal }) => {
       const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
       return await runCronIsolatedAgentTurn({
         cfg: runtimeConfig,
@@ -101,8 +101,14 @@ export function buildGatewayCronService(params: {
         agentId,
         sessionKey: `cron:${job.id}`,
         lane: "cron",
+        abortSignal,
       });
     },
+    // OPENCLAWMU ADDITION: root of `watch` schedule paths
+    resolveWorkspaceDir: (requested) => {
+      const { agentId, cfg: runtimeConfig } = resolveCronAgent(requested);
+      return resolveAgentWorkspaceDir(runtimeConfig, agentId);
+    },
     log: getChildLogger({ module: "cron", storePath }),
     onEvent: (evt) => {
       params.broadcast("cron", evt, { dropIfSlow: true });
@@ -111,19 +117,8 @@ export function buildGatewayCronService(params: {
           storePath,
           jobId: evt.jobId,
         });
-        void appendCronRunLog(logPath, {
-          ts: Date.now(),
-          jobId: evt.jobId,
-          action: "finished",
-          status: evt.status,
-          error: evt.error,
-          summary: evt.summary,
-          sessionId: evt.sessionId,
-          sessionKey: evt.sessionKey,
-          runAtMs: evt.runAtMs,
-          durationMs: evt.durationMs,
-          nextRunAtMs: evt.nextRunAtMs,
-        }).catch((err) => {
+        // OPENCLAWMU ADDITION: entries carry the run's output text, agent and usage
+        void appendCronRunLog(logPath, buildCronRunLogEntry(evt)).catch((err) => {
           cronLogger.warn({ err: String(err), logPath }, "cron: run log append failed");
         });
       }
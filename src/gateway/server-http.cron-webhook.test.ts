@@ -0,0 +1,141 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import type { createSubsystemLogger } from "../logging/subsystem.js";
+import type { HooksConfigResolved } from "./hooks.js";
+
+const { readJsonBodyMock } = vi.hoisted(() => ({
+  readJsonBodyMock: vi.fn(),
+}));
+
+vi.mock("./hooks.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./hooks.js")>();
+  return {
+    ...actual,
+    readJsonBody: readJsonBodyMock,
+  };
+});
+
+import { createHooksRequestHandler } from "./server-http.js";
+import { renderCronWebhookMessage } from "./server/hooks.js";
+
+function createHooksConfig(): HooksConfigResolved {
+  return {
+    basePath: "/hooks",
+    token: "hook-secret",
+    maxBodyBytes: 1024,
+    mappings: [],
+    agentPolicy: {
+      defaultAgentId: "main",
+      knownAgentIds: new Set(["main"]),
+      allowedAgentIds: undefined,
+    },
+    sessionPolicy: {
+      allowRequestSessionKey: false,
+      defaultSessionKey: undefined,
+      allowedSessionKeyPrefixes: undefined,
+    },
+  };
+}
+
+function createRequest(url: string, token: string, method = "POST"): IncomingMessage {
+  return {
+    method,
+    url,
+    headers: {
+      host: "127.0.0.1:18789",
+      authorization: `Bearer ${token}`,
+    },
+    socket: { remoteAddress: "127.0.0.1" },
+  } as IncomingMessage;
+}
+
+function createResponse() {
+  const end = vi.fn();
+  const res = { statusCode: 200, setHeader: vi.fn(), end } as unknown as ServerResponse;
+  return { res, end };
+}
+
+function createHandler() {
+  const authorizeCronWebhook = vi.fn(
+    async (_target: { tenantId?: string; jobId: string }, token: string) =>
+      token === "job-token-job-token",
+  );
+  const dispatchCronWebhook = vi.fn(async () => ({
+    ok: true as const,
+    queued: true as const,
+    nextRunAtMs: 1000,
+  }));
+  const handler = createHooksRequestHandler({
+    getHooksConfig: () => createHooksConfig(),
+    bindHost: "127.0.0.1",
+    port: 18789,
+    logHooks: {
+      warn: vi.fn(),
+      debug: vi.fn(),
+      info: vi.fn(),
+      error: vi.fn(),
+    } as unknown as ReturnType<typeof createSubsystemLogger>,
+    dispatchWakeHook: vi.fn(),
+    dispatchAgentHook: vi.fn(() => "run-1"),
+    authorizeCronWebhook,
+    dispatchCronWebhook,
+  });
+  return { handler, authorizeCronWebhook, dispatchCronWebhook };
+}
+
+describe("createHooksRequestHandler cron webhooks", () => {
+  beforeEach(() => {
+    readJsonBodyMock.mockReset();
+    readJsonBodyMock.mockResolvedValue({ ok: true, value: { release: "v2.1" } });
+  });
+
+  test("fires global and tenant jobs with their own token", async () => {
+    const { handler, dispatchCronWebhook } = createHandler();
+
+    const global = createResponse();
+    await handler(createRequest("/hooks/cron/job-1", "job-token-job-token"), global.res);
+    expect(global.res.statusCode).toBe(202);
+    expect(global.end).toHaveBeenCalledWith(
+      JSON.stringify({ ok: true, jobId: "job-1", nextRunAtMs: 1000 }),
+    );
+
+    const tenant = createResponse();
+    await handler(createRequest("/hooks/cron/acme/job-2", "job-token-job-token"), tenant.res);
+    expect(tenant.res.statusCode).toBe(202);
+    expect(dispatchCronWebhook.mock.calls.map((call) => call[0])).toEqual([
+      { jobId: "job-1" },
+      { tenantId: "acme", jobId: "job-2" },
+    ]);
+    expect(dispatchCronWebhook.mock.calls[0]?.[1]).toMatchObject({
+      payload: { release: "v2.1" },
+      path: "cron/job-1",
+    });
+  });
+
+  test("rejects the hooks token and bad job tokens before reading the body", async () => {
+    const { handler, dispatchCronWebhook } = createHandler();
+    for (const token of ["hook-secret", "wrong"]) {
+      const { res } = createResponse();
+      await handler(createRequest("/hooks/cron/job-1", token), res);
+      expect(res.statusCode).toBe(401);
+    }
+    const { res } = createResponse();
+    await handler(createRequest("/hooks/cron/job-1", "job-token-job-token", "GET"), res);
+    expect(res.statusCode).toBe(405);
+    expect(readJsonBodyMock).not.toHaveBeenCalled();
+    expect(dispatchCronWebhook).not.toHaveBeenCalled();
+  });
+
+  test("renders the message template, or appends the body without placeholders", () => {
+    const ctx = {
+      payload: { release: "v2.1" },
+      headers: {},
+      url: new URL("http://127.0.0.1/hooks/cron/job-1"),
+      path: "cron/job-1",
+    };
+    expect(renderCronWebhookMessage("Review {{payload.release}}", ctx)).toBe("Review v2.1");
+    expect(renderCronWebhookMessage("Review the release", ctx)).toBe(
+      'Review the release\n\nWebhook payload:\n{\n  "release": "v2.1"\n}',
+    );
+  });
+});
@@ -8,6 +8,7 @@ import {
 } from "node:http";
 import { createServer as createHttpsServer } from "node:https";
 import type { CanvasHostHandler } from "../canvas-host/server.js";
+import type { CronFireResult } from "../cron/triggers.js";
 import type { createSubsystemLogger } from "../logging/subsystem.js";
 import type { AuthRateLimiter } from "./auth-rate-limit.js";
 import type { GatewayWsClient } from "./server/ws-types.js";
@@ -32,7 +33,7 @@ import {
   handleControlUiHttpRequest,
   type ControlUiRootState,
 } from "./control-ui.js";
-import { applyHookMappings } from "./hooks-mapping.js";
+import { applyHookMappings, type HookMappingContext } from "./hooks-mapping.js";
 import {
   extractHookToken,
   getHookAgentPolicyError,
@@ -80,8 +81,34 @@ type HookDispatchers = {
     timeoutSeconds?: number;
     allowUnsafeExternalContent?: boolean;
   }) => string;
+  /** OPENCLAWMU ADDITION: webhook-triggered cron jobs; unset disables their routes. */
+  authorizeCronWebhook?: (target: CronWebhookTarget, token: string) => Promise<boolean>;
+  dispatchCronWebhook?: (
+    target: CronWebhookTarget,
+    ctx: HookMappingContext,
+  ) => Promise<CronFireResult>;
 };
 
+/** OPENCLAWMU ADDITION: job addressed by `<basePath>/cron/[<tenantId>/]<jobId>`. */
+export type CronWebhookTarget = { tenantId?: string; jobId: string };
+
+function parseCronWebhookPath(subPath: string): CronWebhookTarget | null {
+  const segments = subPath.split("/");
+  if (segments[0] !== "cron" || segments.length < 2 || segments.length > 3) {
+    return null;
+  }
+  let decoded: string[];
+  try {
+    decoded = segments.slice(1).map((segment) => decodeURIComponent(segment).trim());
+  } catch {
+    return null;
+  }
+  if (decoded.some((segment) => !segment || /[\\/]/.test(segment))) {
+    return null;
+  }
+  return decoded.length === 2 ? { tenantId: decoded[0], jobId: decoded[1] } : { jobId: decoded[0] };
+}
+
 function sendJson(res: ServerResponse, status: number, body: unknown) {
   res.statusCode = status;
   res.setHeader("Content-Type", "application/json; charset=utf-8");
@@ -203,7 +230,16 @@ export function createHooksRequestHandler(
     logHooks: SubsystemLogger;
   } & HookDispatchers,
 ): HooksRequestHandler {
-  const { getHooksConfig, bindHost, port, logHooks, dispatchAgentHook, dispatchWakeHook } = opts;
+  const {
+    getHooksConfig,
+    bindHost,
+    port,
+    logHooks,
+    dispatchAgentHook,
+    dispatchWakeHook,
+    authorizeCronWebhook,
+    dispatchCronWebhook,
+  } = opts;
   const hookAuthFailures = new Map<string, HookAuthFailure>();
 
   const resolveHookClientKey = (req: IncomingMessage): string => {
@@ -258,6 +294,81 @@ export function createHooksRequestHandler(
     hookAuthFailures.delete(clientKey);
   };
 
+  const sendHookAuthFailure = (res: ServerResponse, clientKey: string) => {
+    const throttle = recordHookAuthFailure(clientKey, Date.now());
+    if (throttle.throttled) {
+      const retryAfter = throttle.retryAfterSeconds ?? 1;
+      res.statusCode = 429;
+      res.setHeader("Retry-After", String(retryAfter));
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.end("Too Many Requests");
+      logHooks.warn(`hook auth throttled for ${clientKey}; retry-after=${retryAfter}s`);
+      return;
+    }
+    res.statusCode = 401;
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.end("Unauthorized");
+  };
+
+  const sendMethodNotAllowed = (res: ServerResponse) => {
+    res.statusCode = 405;
+    res.setHeader("Allow", "POST");
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.end("Method Not Allowed");
+  };
+
+  const sendBodyError = (res: ServerResponse, error: string) => {
+    const status =
+      error === "payload too large" ? 413 : error === "request body timeout" ? 408 : 400;
+    sendJson(res, status, { ok: false, error });
+  };
+
+  /**
+   * OPENCLAWMU ADDITION: webhook-triggered cron jobs authenticate with their own token,
+   * not the hooks token, so callers of one job cannot reach anything else.
+   */
+  const handleCronWebhook = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    params: { target: CronWebhookTarget; url: URL; subPath: string; maxBodyBytes: number },
+  ) => {
+    const { target, url, subPath } = params;
+    const clientKey = resolveHookClientKey(req);
+    const token = extractHookToken(req);
+    if (
+      !token ||
+      !authorizeCronWebhook ||
+      !dispatchCronWebhook ||
+      !(await authorizeCronWebhook(target, token))
+    ) {
+      sendHookAuthFailure(res, clientKey);
+      return;
+    }
+    clearHookAuthFailure(clientKey);
+    if (req.method !== "POST") {
+      sendMethodNotAllowed(res);
+      return;
+    }
+    const body = await readJsonBody(req, params.maxBodyBytes);
+    if (!body.ok) {
+      sendBodyError(res, body.error);
+      return;
+    }
+    const payload = typeof body.value === "object" && body.value !== null ? body.value : {};
+    const result = await dispatchCronWebhook(target, {
+      payload: payload as Record<string, unknown>,
+      headers: normalizeHookHeaders(req),
+      url,
+      path: subPath,
+    });
+    if (result.ok) {
+      sendJson(res, 202, { ok: true, jobId: target.jobId, nextRunAtMs: result.nextRunAtMs });
+      return;
+    }
+    const status = result.reason === "queue-full" ? 429 : result.reason === "not-found" ? 404 : 409;
+    sendJson(res, status, { ok: false, error: result.reason });
+  };
+
   return async (req, res) => {
     const hooksConfig = getHooksConfig();
     if (!hooksConfig) {
@@ -278,35 +389,32 @@ export function createHooksRequestHandler(
       return true;
     }
 
+    const subPath = url.pathname.slice(basePath.length).replace(/^\/+/, "");
+    // OPENCLAWMU ADDITION: cron job webhooks carry their own token
+    const cronTarget = dispatchCronWebhook ? parseCronWebhookPath(subPath) : null;
+    if (cronTarget) {
+      await handleCronWebhook(req, res, {
+        target: cronTarget,
+        url,
+        subPath,
+        maxBodyBytes: hooksConfig.maxBodyBytes,
+      });
+      return true;
+    }
+
     const token = extractHookToken(req);
     const clientKey = resolveHookClientKey(req);
     if (!safeEqualSecret(token, hooksConfig.token)) {
-      const throttle = recordHookAuthFailure(clientKey, Date.now());
-      if (throttle.throttled) {
-        const retryAfter = throttle.retryAfterSeconds ?? 1;
-        res.statusCode = 429;
-        res.setHeader("Retry-After", String(retryAfter));
-        res.setHeader("Content-Type", "text/plain; charset=utf-8");
-        res.end("Too Many Requests");
-        logHooks.warn(`hook auth throttled for ${clientKey}; retry-after=${retryAfter}s`);
-        return true;
-      }
-      res.statusCode = 401;
-      res.setHeader("Content-Type", "text/plain; charset=utf-8");
-      res.end("Unauthorized");
+      sendHookAuthFailure(res, clientKey);
       return true;
     }
     clearHookAuthFailure(clientKey);
 
     if (req.method !== "POST") {
-      res.statusCode = 405;
-      res.setHeader("Allow", "POST");
-      res.setHeader("Content-Type", "text/plain; charset=utf-8");
-      res.end("Method Not Allowed");
+      sendMethodNotAllowed(res);
       return true;
     }
 
-    const subPath = url.pathname.slice(basePath.length).replace(/^\/+/, "");
     if (!subPath) {
       res.statusCode = 404;
       res.setHeader("Content-Type", "text/plain; charset=utf-8");
@@ -316,13 +424,7 @@ export function createHooksRequestHandler(
 
     const body = await readJsonBody(req, hooksConfig.maxBodyBytes);
     if (!body.ok) {
-      const status =
-        body.error === "payload too large"
-          ? 413
-          : body.error === "request body timeout"
-            ? 408
-            : 400;
-      sendJson(res, status, { ok: false, error: body.error });
+      sendBodyError(res, body.error);
       return true;
     }
 
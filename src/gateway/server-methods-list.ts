@@ -55,10 +55,14 @@ const BASE_METHODS = [
   "sessions.compact",
   // OPENCLAWMU ADDITION: tenant terminal methods.
   "terminal.spawn",
+  "terminal.attach",
+  "terminal.detach",
   "terminal.write",
   "terminal.resize",
   "terminal.close",
   "terminal.list",
+  "terminal.recordings.list",
+  "terminal.recordings.get",
   // OPENCLAWMU ADDITION: tenant/admin multi-tenancy methods.
   "tenants.list",
   "tenants.create",
@@ -74,11 +78,21 @@ const BASE_METHODS = [
   "tenants.quota.status",
   "tenants.quota.update",
   "tenants.usage.history",
+  "tenants.keys.create",
+  "tenants.keys.list",
+  "tenants.keys.revoke",
   "admin.resources.system",
   "admin.resources.tenants",
   "admin.resources.history",
   "admin.sandboxes.list",
   "admin.sandboxes.kill",
+  "sandbox.snapshots.list",
+  "sandbox.snapshots.create",
+  "sandbox.snapshots.diff",
+  "sandbox.snapshots.restore",
+  "sandbox.snapshots.delete",
+  "memory.facts.list",
+  "memory.facts.delete",
   "last-heartbeat",
   "set-heartbeats",
   "wake",
@@ -105,6 +119,8 @@ const BASE_METHODS = [
   "cron.remove",
   "cron.run",
   "cron.runs",
+  "cron.runs.transcript",
+  "cron.preview",
   "system-presence",
   "system-event",
   "send",
@@ -145,4 +161,8 @@ export const GATEWAY_EVENTS = [
   // OPENCLAWMU ADDITION: terminal stream events.
   "terminal.output",
   "terminal.exit",
+  "terminal.mode",
+  // OPENCLAWMU ADDITION: tenant quota soft-limit crossings.
+  "tenants.quota.soft_limit",
+  "tenants.lifecycle",
 ];
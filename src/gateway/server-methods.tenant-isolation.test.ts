@@ -51,6 +51,49 @@ describe("tenant isolation authorization", () => {
     expect(err).toBeNull();
   });
 
+  it("limits terminal-scoped tenant keys to terminal methods", () => {
+    const client = {
+      connect: { role: "operator", scopes: [] },
+      tenantId: "tenant-a",
+      tenantScopes: ["terminal"],
+    } as unknown as GatewayClient;
+
+    expect(authorizeGatewayMethod("terminal.spawn", client)).toBeNull();
+    expect(authorizeGatewayMethod("config.set", client)?.message).toContain(
+      "missing scope: operator.write",
+    );
+    expect(authorizeGatewayMethod("sessions.list", client)?.message).toContain(
+      "missing scope: operator.read",
+    );
+  });
+
+  it("requires tenant admin scope for self-administration with scoped keys", () => {
+    const client = {
+      connect: { role: "operator", scopes: ["operator.read", "operator.write"] },
+      tenantId: "tenant-a",
+      tenantScopes: ["operator.read", "operator.write"],
+    } as unknown as GatewayClient;
+
+    expect(authorizeGatewayMethod("agents.create", client)).toBeNull();
+    expect(authorizeGatewayMethod("tenants.rotate", client)?.message).toContain(
+      "missing scope: operator.admin",
+    );
+    expect(authorizeGatewayMethod("tenants.keys.create", client)?.message).toContain(
+      "missing scope: operator.admin",
+    );
+  });
+
+  it("denies tenant admin methods to tenant clients without scopes", () => {
+    const client = {
+      connect: { role: "operator", scopes: ["operator.admin"] },
+      tenantId: "tenant-a",
+    } as GatewayClient;
+
+    expect(authorizeGatewayMethod("tenants.rotate", client)?.message).toContain(
+      "missing scope: operator.admin",
+    );
+  });
+
   it("keeps non-tenant admin access unchanged", () => {
     const err = authorizeGatewayMethod("config.get", {
       connect: {
@@ -14,8 +14,10 @@ import { deviceHandlers } from "./server-methods/devices.js";
 import { execApprovalsHandlers } from "./server-methods/exec-approvals.js";
 import { healthHandlers } from "./server-methods/health.js";
 import { logsHandlers } from "./server-methods/logs.js";
+import { memoryMethods } from "./server-methods/memory.js";
 import { modelsHandlers } from "./server-methods/models.js";
 import { nodeHandlers } from "./server-methods/nodes.js";
+import { sandboxSnapshotMethods } from "./server-methods/sandbox-snapshots.js";
 import { sendHandlers } from "./server-methods/send.js";
 import { sessionsHandlers } from "./server-methods/sessions.js";
 import { skillsHandlers } from "./server-methods/skills.js";
@@ -54,6 +56,10 @@ export const coreGatewayHandlers: GatewayRequestHandlers = {
   ...tenantMethods,
   // OPENCLAWMU ADDITION: web terminal RPC.
   ...terminalMethods,
+  // OPENCLAWMU ADDITION: tenant workspace snapshots.
+  ...sandboxSnapshotMethods,
+  // OPENCLAWMU ADDITION: memory fact review.
+  ...memoryMethods,
   ...updateHandlers,
   ...nodeHandlers,
   ...sendHandlers,
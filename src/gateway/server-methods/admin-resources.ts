@@ -10,7 +10,7 @@
  *   admin.sandboxes.kill     - Kill a sandbox
  *
  * Tenant-level usage endpoints (accessible by tenant or admin):
- *   tenants.usage            - Get tenant's own usage
+ *   tenants.usage            - Get tenant's own usage (plus memory index stats)
  *   tenants.quota.status     - Get quota status
  *   tenants.quota.update     - Update quotas (admin only)
  *   tenants.usage.history    - Get usage history
@@ -23,7 +23,10 @@ import {
   getRecentMetrics,
   type TenantResourceSummary,
 } from "../../infra/system-metrics.js";
+import { readTenantBackupStatus } from "../../tenants/backup.js";
+import { readTenantMemoryIndexStats } from "../../tenants/memory-index.js";
 import { listTenants, getTenant, updateTenant } from "../../tenants/registry.js";
+import { resolveTenantLifecycleState } from "../../tenants/types.js";
 import {
   loadTenantUsage,
   loadTenantUsageHistory,
@@ -91,7 +94,9 @@ export const tenantUsageHandlers: GatewayRequestHandlers = {
       }
 
       const usage = await loadTenantUsage(tenantId);
-      opts.respond(true, usage);
+      // OPENCLAWMU ADDITION: live memory index stats alongside the snapshot
+      const memoryIndex = await readTenantMemoryIndexStats(tenantId);
+      opts.respond(true, { ...usage, memoryIndex });
     } catch (err) {
       opts.respond(
         false,
@@ -173,6 +178,27 @@ export const tenantUsageHandlers: GatewayRequestHandlers = {
       return;
     }
 
+    const notify = params.quotas.softLimitNotify;
+    if (
+      notify !== undefined &&
+      (typeof notify !== "object" ||
+        typeof notify.channel !== "string" ||
+        !notify.channel.trim() ||
+        typeof notify.to !== "string" ||
+        !notify.to.trim() ||
+        (notify.accountId !== undefined && typeof notify.accountId !== "string"))
+    ) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          "softLimitNotify requires channel and to strings (accountId optional)",
+        ),
+      );
+      return;
+    }
+
     try {
       const tenant = getTenant(tenantId);
       if (!tenant) {
@@ -184,7 +210,7 @@ export const tenantUsageHandlers: GatewayRequestHandlers = {
       const existingQuotas = tenant.quotas ?? {};
       const newQuotas = { ...existingQuotas, ...params.quotas };
 
-      updateTenant(tenantId, { quotas: newQuotas });
+      await updateTenant(tenantId, { quotas: newQuotas });
       opts.respond(true, { updated: true, tenantId, quotas: newQuotas });
     } catch (err) {
       opts.respond(
@@ -264,6 +290,7 @@ async function getAllTenantSummaries(
     try {
       const tenant = getTenant(tenantId);
       const usage = await loadTenantUsage(tenantId);
+      const backupStatus = await readTenantBackupStatus(tenantId);
       const quotas = tenant?.quotas ?? {};
 
       const tokenLimit = quotas.monthlyTokenLimit;
@@ -289,8 +316,12 @@ async function getAllTenantSummaries(
         activeSessions: usage.activeSessions,
         totalSessions: usage.totalSessions,
         isOverQuota: isOverTokenLimit || isOverCostLimit || isOverDiskLimit,
-        isBlocked: tenant?.disabled ?? false,
+        isBlocked: tenant ? resolveTenantLifecycleState(tenant) !== "active" : false,
         lastActiveAt: tenant?.lastSeenAt ? new Date(tenant.lastSeenAt).getTime() : undefined,
+        lastBackupAt: backupStatus?.lastSuccessAt
+          ? new Date(backupStatus.lastSuccessAt).getTime()
+          : undefined,
+        backupFailing: (backupStatus?.consecutiveFailures ?? 0) > 0,
       });
     } catch {
       // Skip tenants with errors
@@ -389,6 +420,7 @@ export const adminResourceHandlers: GatewayRequestHandlers = {
         totalCount: tenantIds.length,
         overQuotaCount: summaries.filter((s) => s.isOverQuota).length,
         blockedCount: summaries.filter((s) => s.isBlocked).length,
+        backupFailingCount: summaries.filter((s) => s.backupFailing).length,
         totalDiskUsageBytes: summaries.reduce((sum, s) => sum + s.diskUsageBytes, 0),
         totalTokensUsed: summaries.reduce((sum, s) => sum + s.tokensUsed, 0),
         totalCostCents: summaries.reduce((sum, s) => sum + s.costCents, 0),
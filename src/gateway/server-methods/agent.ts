@@ -20,6 +20,7 @@ import { classifySessionKeyShape, normalizeAgentId } from "../../routing/session
 import { defaultRuntime } from "../../runtime.js";
 import { normalizeInputProvenance, type InputProvenance } from "../../sessions/input-provenance.js";
 import { resolveSendPolicy } from "../../sessions/send-policy.js";
+import { isTenantQuotaError } from "../../tenants/quota-gate.js";
 import { normalizeSessionDeliveryFields } from "../../utils/delivery-context.js";
 import {
   INTERNAL_MESSAGE_CHANNEL,
@@ -39,6 +40,7 @@ import {
   validateAgentParams,
   validateAgentWaitParams,
 } from "../protocol/index.js";
+import { tenantQuotaErrorShape } from "../server-tenant-quota.js";
 import {
   canonicalizeSpawnedByForAgent,
   loadSessionEntry,
@@ -578,7 +580,10 @@ export const agentHandlers: GatewayRequestHandlers = {
         respond(true, payload, undefined, { runId });
       })
       .catch((err) => {
-        const error = errorShape(ErrorCodes.UNAVAILABLE, String(err));
+        // OPENCLAWMU ADDITION: structured quota_exceeded/rate_limited errors.
+        const error = isTenantQuotaError(err)
+          ? tenantQuotaErrorShape(err)
+          : errorShape(ErrorCodes.UNAVAILABLE, String(err));
         const payload = {
           runId,
           status: "error" as const,
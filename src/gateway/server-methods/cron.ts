@@ -1,24 +1,58 @@
 import { randomUUID } from "node:crypto";
-import type { CronJob, CronJobCreate, CronJobPatch, CronStoreFile } from "../../cron/types.js";
-import type { GatewayRequestHandlers, GatewayRequestHandlerOptions } from "./types.js";
+import type {
+  CronJob,
+  CronJobCreate,
+  CronJobPatch,
+  CronSchedule,
+  CronStoreFile,
+} from "../../cron/types.js";
+import type {
+  GatewayRequestContext,
+  GatewayRequestHandlers,
+  GatewayRequestHandlerOptions,
+} from "./types.js";
+import { resolveDefaultAgentId } from "../../agents/agent-scope.js";
+import { loadConfig, loadConfigForTenant } from "../../config/config.js";
+import { resolveStorePath } from "../../config/sessions.js";
+import {
+  assertCronScheduleCalendar,
+  loadCronCalendars,
+  resolveCronCalendarDir,
+} from "../../cron/calendar.js";
+import { assertCronJobDependencies, buildCronJobGraph } from "../../cron/dependencies.js";
 import { normalizeCronJobCreate, normalizeCronJobPatch } from "../../cron/normalize.js";
-import { readCronRunLogEntries, resolveCronRunLogPath } from "../../cron/run-log.js";
+import {
+  type CronRunStatus,
+  queryCronRunLog,
+  readAllCronRunLogEntries,
+  summarizeCronRuns,
+} from "../../cron/run-log.js";
+import { previewCronRuns } from "../../cron/schedule.js";
 import { loadCronStore, saveCronStore } from "../../cron/store.js";
+import {
+  assertCronTriggerSchedule,
+  ensureCronWebhookToken,
+  isCronEventSchedule,
+} from "../../cron/triggers.js";
 import { validateScheduleTimestamp } from "../../cron/validate-timestamp.js";
 import { resolveTenantCronStorePath } from "../../tenants/paths.js";
+import { stripEnvelopeFromMessages } from "../chat-sanitize.js";
 import {
   ErrorCodes,
   errorShape,
   formatValidationErrors,
   validateCronAddParams,
   validateCronListParams,
+  validateCronPreviewParams,
   validateCronRemoveParams,
   validateCronRunParams,
   validateCronRunsParams,
+  validateCronRunTranscriptParams,
   validateCronStatusParams,
   validateCronUpdateParams,
   validateWakeParams,
 } from "../protocol/index.js";
+import { readSessionMessages } from "../session-utils.js";
 
 /**
  * Get the tenant ID from the request, if present.
@@ -37,6 +71,11 @@ async function loadTenantCronJobs(tenantId: string): Promise<CronStoreFile> {
   return await loadCronStore(storePath);
 }
 
+/** OPENCLAWMU ADDITION: exclusion calendars kept next to a cron store. */
+async function loadStoreCalendars(storePath: string) {
+  return await loadCronCalendars(resolveCronCalendarDir(storePath));
+}
+
 async function saveTenantCronJobs(tenantId: string, store: CronStoreFile): Promise<void> {
   const storePath = resolveTenantCronStorePath(tenantId);
   await saveCronStore(storePath, store);
@@ -46,6 +85,8 @@ function createCronJob(create: CronJobCreate): CronJob {
   const now = Date.now();
   return {
     ...create,
+    // OPENCLAWMU ADDITION: webhook jobs get a token
+    schedule: ensureCronWebhookToken(create.schedule),
     id: randomUUID(),
     createdAtMs: now,
     updatedAtMs: now,
@@ -68,7 +109,10 @@ function patchCronJob(job: CronJob, patch: CronJobPatch): CronJob {
     updated.deleteAfterRun = patch.deleteAfterRun;
   }
   if (patch.schedule !== undefined) {
-    updated.schedule = patch.schedule;
+    updated.schedule = ensureCronWebhookToken(patch.schedule, job.schedule);
+    if (!isCronEventSchedule(updated.schedule)) {
+      updated.state = { ...updated.state, events: undefined };
+    }
   }
   if (patch.sessionTarget !== undefined) {
     updated.sessionTarget = patch.sessionTarget;
@@ -88,9 +132,48 @@ function patchCronJob(job: CronJob, patch: CronJobPatch): CronJob {
   if (patch.state !== undefined) {
     updated.state = { ...job.state, ...patch.state };
   }
+  // OPENCLAWMU ADDITION: run policies
+  if (patch.retry !== undefined) {
+    updated.retry = patch.retry;
+    updated.state = { ...updated.state, retryAttempt: undefined, pendingRunAtMs: undefined };
+  }
+  if (patch.jitterMs !== undefined) {
+    updated.jitterMs = patch.jitterMs;
+  }
+  if (patch.concurrency !== undefined) {
+    updated.concurrency = patch.concurrency;
+  }
+  if (patch.catchUp !== undefined) {
+    updated.catchUp = patch.catchUp;
+  }
   return updated;
 }
 
+/**
+ * OPENCLAWMU ADDITION: tenant stores are edited on disk, so a running tenant scheduler
+ * reloads them. Watch jobs start one, as their file watcher lives in the scheduler.
+ */
+async function syncTenantCronService(
+  context: GatewayRequestContext,
+  tenantId: string,
+  job?: CronJob,
+) {
+  const manager = context.cronManager;
+  const service =
+    job?.enabled && job.schedule.kind === "watch"
+      ? await manager?.ensureTenantService(tenantId)
+      : manager?.getTenantService(tenantId);
+  await service?.reload();
+}
+
+/**
+ * OPENCLAWMU ADDITION: run statistics for `cron.status`, over the runs still in the
+ * (size-capped) run logs.
+ */
+async function readCronRunStats(storePath: string) {
+  return summarizeCronRuns(await readAllCronRunLogEntries({ storePath }));
+}
+
 export const cronHandlers: GatewayRequestHandlers = {
   wake: (opts) => {
     const { params, respond, context } = opts;
@@ -141,13 +224,14 @@ export const cronHandlers: GatewayRequestHandlers = {
       // Tenant-specific: load from tenant cron store
       const store = await loadTenantCronJobs(tenantId);
       const jobs = p.includeDisabled ? store.jobs : store.jobs.filter((job) => job.enabled);
-      respond(true, { jobs }, undefined);
+      respond(true, { jobs, graph: buildCronJobGraph(jobs) }, undefined);
       return;
     }
     const jobs = await context.cron.list({
       includeDisabled: p.includeDisabled,
     });
-    respond(true, { jobs }, undefined);
+    // OPENCLAWMU ADDITION: dependency graph of `after` schedules
+    respond(true, { jobs, graph: buildCronJobGraph(jobs) }, undefined);
   },
   "cron.status": async (opts) => {
     const { params, respond, context } = opts;
@@ -169,7 +253,11 @@ export const cronHandlers: GatewayRequestHandlers = {
         const tenantService = context.cronManager.getTenantService(tenantId);
         if (tenantService) {
           const status = await tenantService.status();
-          respond(true, status, undefined);
+          respond(
+            true,
+            { ...status, runStats: await readCronRunStats(resolveTenantCronStorePath(tenantId)) },
+            undefined,
+          );
           return;
         }
       }
@@ -183,13 +271,19 @@ export const cronHandlers: GatewayRequestHandlers = {
           jobCount: store.jobs.length,
           enabledJobCount: store.jobs.filter((j) => j.enabled).length,
           note: "Tenant cron scheduler will start when jobs are added",
+          runStats: await readCronRunStats(resolveTenantCronStorePath(tenantId)),
         },
         undefined,
       );
       return;
     }
     const status = await context.cron.status();
-    respond(true, status, undefined);
+    // OPENCLAWMU ADDITION: per-job success rate, p95 duration and usage
+    respond(
+      true,
+      { ...status, runStats: await readCronRunStats(context.cronStorePath) },
+      undefined,
+    );
   },
   "cron.add": async (opts) => {
     const { params, respond, context } = opts;
@@ -220,8 +314,24 @@ export const cronHandlers: GatewayRequestHandlers = {
       // Tenant-specific: add to tenant cron store
       const store = await loadTenantCronJobs(tenantId);
       const job = createCronJob(jobCreate);
+      try {
+        assertCronJobDependencies(store.jobs, job);
+        assertCronTriggerSchedule(job.schedule);
+        assertCronScheduleCalendar(
+          job.schedule,
+          await loadStoreCalendars(resolveTenantCronStorePath(tenantId)),
+        );
+      } catch (err) {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, err instanceof Error ? err.message : String(err)),
+        );
+        return;
+      }
       store.jobs.push(job);
       await saveTenantCronJobs(tenantId, store);
+      await syncTenantCronService(context, tenantId, job);
       respond(true, job, undefined);
       return;
     }
@@ -286,8 +396,24 @@ export const cronHandlers: GatewayRequestHandlers = {
         return;
       }
       const updated = patchCronJob(store.jobs[jobIndex], patch);
+      try {
+        assertCronJobDependencies(store.jobs, updated);
+        assertCronTriggerSchedule(updated.schedule);
+        assertCronScheduleCalendar(
+          updated.schedule,
+          await loadStoreCalendars(resolveTenantCronStorePath(tenantId)),
+        );
+      } catch (err) {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, err instanceof Error ? err.message : String(err)),
+        );
+        return;
+      }
       store.jobs[jobIndex] = updated;
       await saveTenantCronJobs(tenantId, store);
+      await syncTenantCronService(context, tenantId, updated);
       respond(true, updated, undefined);
       return;
     }
@@ -328,6 +454,7 @@ export const cronHandlers: GatewayRequestHandlers = {
       }
       store.jobs.splice(jobIndex, 1);
       await saveTenantCronJobs(tenantId, store);
+      await syncTenantCronService(context, tenantId);
       respond(true, { removed: true, jobId }, undefined);
       return;
     }
@@ -393,26 +520,148 @@ export const cronHandlers: GatewayRequestHandlers = {
       );
       return;
     }
-    const p = params as { id?: string; jobId?: string; limit?: number };
-    const jobId = p.id ?? p.jobId;
-    if (!jobId) {
+    // OPENCLAWMU ADDITION: run history query (filters, cursor pagination, all jobs)
+    const p = params as {
+      id?: string;
+      jobId?: string;
+      limit?: number;
+      statuses?: CronRunStatus[];
+      sinceMs?: number;
+      untilMs?: number;
+      cursor?: string;
+    };
+    const tenantId = getTenantId(opts);
+    const storePath = tenantId ? resolveTenantCronStorePath(tenantId) : context.cronStorePath;
+    const page = await queryCronRunLog(storePath, {
+      jobId: p.id ?? p.jobId,
+      statuses: p.statuses,
+      sinceMs: p.sinceMs,
+      untilMs: p.untilMs,
+      limit: p.limit,
+      cursor: p.cursor,
+    });
+    respond(true, page, undefined);
+  },
+  // OPENCLAWMU ADDITION: transcript of one logged run (its isolated session)
+  "cron.runs.transcript": async (opts) => {
+    const { params, respond, context } = opts;
+    if (!validateCronRunTranscriptParams(params)) {
       respond(
         false,
         undefined,
-        errorShape(ErrorCodes.INVALID_REQUEST, "invalid cron.runs params: missing id"),
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.runs.transcript params: ${formatValidationErrors(validateCronRunTranscriptParams.errors)}`,
+        ),
       );
       return;
     }
+    const p = params as { id?: string; jobId?: string; sessionId: string; limit?: number };
+    const jobId = (p.id ?? p.jobId) as string;
     const tenantId = getTenantId(opts);
     const storePath = tenantId ? resolveTenantCronStorePath(tenantId) : context.cronStorePath;
-    const logPath = resolveCronRunLogPath({
-      storePath,
-      jobId,
-    });
-    const entries = await readCronRunLogEntries(logPath, {
-      limit: p.limit,
-      jobId,
+    // Only sessions recorded in the job's own run log can be read
+    const run = (await readAllCronRunLogEntries({ storePath, jobId }))
+      .toReversed()
+      .find((entry) => entry.sessionId === p.sessionId);
+    if (!run?.sessionId) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `unknown run session for cron job ${jobId}: ${p.sessionId}`,
+        ),
+      );
+      return;
+    }
+    const cfg = tenantId ? loadConfigForTenant(tenantId) : loadConfig();
+    const sessionStorePath = resolveStorePath(cfg.session?.store, {
+      agentId: run.agentId ?? resolveDefaultAgentId(cfg),
     });
-    respond(true, { entries }, undefined);
+    const messages = readSessionMessages(run.sessionId, sessionStorePath);
+    const limit = p.limit ?? 200;
+    respond(
+      true,
+      {
+        jobId,
+        sessionId: run.sessionId,
+        sessionKey: run.sessionKey,
+        run,
+        messages: stripEnvelopeFromMessages(
+          messages.length > limit ? messages.slice(-limit) : messages,
+        ),
+      },
+      undefined,
+    );
+  },
+  // OPENCLAWMU ADDITION: next fire times, to check a schedule and its calendar rules
+  "cron.preview": async (opts) => {
+    const { params, respond, context } = opts;
+    if (!validateCronPreviewParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.preview params: ${formatValidationErrors(validateCronPreviewParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = params as {
+      id?: string;
+      jobId?: string;
+      schedule?: CronSchedule;
+      count?: number;
+      fromMs?: number;
+    };
+    const jobId = p.id ?? p.jobId;
+    if (Boolean(jobId) === Boolean(p.schedule)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          "invalid cron.preview params: pass either a schedule or a job id",
+        ),
+      );
+      return;
+    }
+    const tenantId = getTenantId(opts);
+    const storePath = tenantId ? resolveTenantCronStorePath(tenantId) : context.cronStorePath;
+    let schedule = p.schedule;
+    if (!schedule) {
+      const job = (await loadCronStore(storePath)).jobs.find((entry) => entry.id === jobId);
+      if (!job) {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, `job not found: ${jobId}`),
+        );
+        return;
+      }
+      // Interval jobs count from their creation unless anchored
+      schedule =
+        job.schedule.kind === "every"
+          ? { ...job.schedule, anchorMs: job.schedule.anchorMs ?? job.createdAtMs }
+          : job.schedule;
+    }
+    try {
+      const calendars = await loadStoreCalendars(storePath);
+      assertCronScheduleCalendar(schedule, calendars);
+      const runs = previewCronRuns(schedule, {
+        fromMs: p.fromMs ?? Date.now(),
+        count: p.count ?? 10,
+        calendars,
+      });
+      respond(true, { schedule, runs }, undefined);
+    } catch (err) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, err instanceof Error ? err.message : String(err)),
+      );
+    }
   },
 };
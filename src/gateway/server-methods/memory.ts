@@ -0,0 +1,134 @@
+/**
+ * Memory fact gateway methods.
+ * OPENCLAWMU ADDITION: review and delete facts saved through the memory write API.
+ *
+ * Tenant tokens act on their own agents' memory; admins pass `tenantId` to reach a
+ * tenant, or omit it for the host.
+ *
+ * Methods:
+ *   memory.facts.list   - List an agent's saved facts, newest first
+ *   memory.facts.delete - Delete facts by id, or the facts scoring minScore for a query
+ */
+
+import type { MemorySearchManager } from "../../memory/index.js";
+import type { GatewayRequestHandlers, GatewayRequestHandlerOptions } from "./types.js";
+import { listAgentIds, resolveDefaultAgentId } from "../../agents/agent-scope.js";
+import { loadConfig, loadConfigForTenant } from "../../config/config.js";
+import { getMemorySearchManager } from "../../memory/index.js";
+import { normalizeAgentId } from "../../routing/session-key.js";
+import { getTenant } from "../../tenants/index.js";
+import { errorShape, ErrorCodes } from "../protocol/index.js";
+
+function hasAdminScope(opts: GatewayRequestHandlerOptions): boolean {
+  const scopes = opts.client?.connect?.scopes ?? [];
+  return scopes.includes("operator.admin");
+}
+
+/**
+ * Opens the memory manager of the requested agent, responding with an error when the
+ * caller may not access it or it has no fact store.
+ */
+async function resolveFactsManager(
+  opts: GatewayRequestHandlerOptions,
+): Promise<{ tenantId?: string; agentId: string; manager: MemorySearchManager } | null> {
+  const params = opts.params as { tenantId?: unknown; agentId?: unknown };
+  const own = opts.client?.tenantId;
+  const tenantId = typeof params.tenantId === "string" && params.tenantId ? params.tenantId : own;
+  if (tenantId !== own && !hasAdminScope(opts)) {
+    opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Access denied"));
+    return null;
+  }
+  if (tenantId && !getTenant(tenantId)) {
+    opts.respond(false, undefined, errorShape(ErrorCodes.NOT_FOUND, "Tenant not found"));
+    return null;
+  }
+  const cfg = tenantId ? loadConfigForTenant(tenantId) : loadConfig();
+  const agentIdRaw = typeof params.agentId === "string" ? params.agentId.trim() : "";
+  const agentId = agentIdRaw ? normalizeAgentId(agentIdRaw) : resolveDefaultAgentId(cfg);
+  if (agentIdRaw && !listAgentIds(cfg).includes(agentId)) {
+    opts.respond(
+      false,
+      undefined,
+      errorShape(ErrorCodes.INVALID_REQUEST, `unknown agent id "${agentIdRaw}"`),
+    );
+    return null;
+  }
+  const { manager, error } = await getMemorySearchManager({ cfg, agentId, tenantId });
+  if (!manager?.listFacts) {
+    opts.respond(
+      false,
+      undefined,
+      errorShape(ErrorCodes.UNAVAILABLE, error ?? "memory facts need the builtin memory backend"),
+    );
+    return null;
+  }
+  return { tenantId, agentId, manager };
+}
+
+function respondFactsError(opts: GatewayRequestHandlerOptions, err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  const code = message.startsWith("unknown memory fact")
+    ? ErrorCodes.NOT_FOUND
+    : message.startsWith("invalid memory fact")
+      ? ErrorCodes.INVALID_REQUEST
+      : ErrorCodes.UNAVAILABLE;
+  opts.respond(false, undefined, errorShape(code, message));
+}
+
+export const memoryMethods: GatewayRequestHandlers = {
+  "memory.facts.list": async (opts) => {
+    const params = opts.params as { tag?: unknown };
+    if (params.tag !== undefined && typeof params.tag !== "string") {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "tag must be a string"),
+      );
+      return;
+    }
+    const target = await resolveFactsManager(opts);
+    if (!target?.manager.listFacts) {
+      return;
+    }
+    try {
+      const facts = await target.manager.listFacts({ tag: params.tag });
+      opts.respond(true, { tenantId: target.tenantId, agentId: target.agentId, facts });
+    } catch (err) {
+      respondFactsError(opts, err);
+    }
+  },
+
+  "memory.facts.delete": async (opts) => {
+    const params = opts.params as { id?: unknown; query?: unknown; minScore?: unknown };
+    const id = typeof params.id === "string" ? params.id.trim() : "";
+    const query = typeof params.query === "string" ? params.query.trim() : "";
+    if (!id === !query) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "exactly one of id or query required"),
+      );
+      return;
+    }
+    const minScore = typeof params.minScore === "number" ? params.minScore : undefined;
+    const forgetTarget = id ? { id } : minScore === undefined ? null : { query, minScore };
+    if (!forgetTarget) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "minScore required with query"),
+      );
+      return;
+    }
+    const target = await resolveFactsManager(opts);
+    if (!target?.manager.forget) {
+      return;
+    }
+    try {
+      const removed = await target.manager.forget(forgetTarget);
+      opts.respond(true, { tenantId: target.tenantId, agentId: target.agentId, removed });
+    } catch (err) {
+      respondFactsError(opts, err);
+    }
+  },
+};
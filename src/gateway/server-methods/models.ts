@@ -1,4 +1,5 @@
 import type { GatewayRequestHandlers } from "./types.js";
+import { resolveTenantModelCatalog } from "../../tenants/model-policy.js";
 import {
   ErrorCodes,
   errorShape,
@@ -7,7 +8,7 @@ import {
 } from "../protocol/index.js";
 
 export const modelsHandlers: GatewayRequestHandlers = {
-  "models.list": async ({ params, respond, context }) => {
+  "models.list": async ({ params, respond, context, client }) => {
     if (!validateModelsListParams(params)) {
       respond(
         false,
@@ -21,6 +22,11 @@ export const modelsHandlers: GatewayRequestHandlers = {
     }
     try {
       const models = await context.loadGatewayModelCatalog();
+      // OPENCLAWMU ADDITION: tenant clients only see the models their policy allows.
+      if (client?.tenantId) {
+        respond(true, await resolveTenantModelCatalog(client.tenantId, models), undefined);
+        return;
+      }
       respond(true, { models }, undefined);
     } catch (err) {
       respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, String(err)));
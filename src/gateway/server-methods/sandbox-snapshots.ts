@@ -0,0 +1,197 @@
+/**
+ * Workspace snapshot gateway methods.
+ * OPENCLAWMU ADDITION: restore points for tenant workspaces.
+ *
+ * Tenant tokens act on their own workspace; admins pass `tenantId`.
+ *
+ * Methods:
+ *   sandbox.snapshots.list    - List snapshots, newest first
+ *   sandbox.snapshots.create  - Snapshot the workspace now
+ *   sandbox.snapshots.diff    - Compare a snapshot with the workspace or a later snapshot
+ *   sandbox.snapshots.restore - Put the workspace (or some paths) back to a snapshot
+ *   sandbox.snapshots.delete  - Delete a snapshot
+ */
+
+import type { GatewayRequestHandlers, GatewayRequestHandlerOptions } from "./types.js";
+import {
+  createTenantWorkspaceSnapshot,
+  deleteTenantWorkspaceSnapshot,
+  diffTenantWorkspaceSnapshot,
+  getTenant,
+  isValidWorkspaceSnapshotId,
+  listTenantWorkspaceSnapshots,
+  restoreTenantWorkspaceSnapshot,
+} from "../../tenants/index.js";
+import { errorShape, ErrorCodes } from "../protocol/index.js";
+
+function hasAdminScope(opts: GatewayRequestHandlerOptions): boolean {
+  const scopes = opts.client?.connect?.scopes ?? [];
+  return scopes.includes("operator.admin");
+}
+
+/**
+ * Resolves which tenant a request targets, responding with an error when the caller
+ * may not access it or it does not exist.
+ */
+function resolveSnapshotTenant(opts: GatewayRequestHandlerOptions): string | null {
+  const requested = (opts.params as { tenantId?: unknown }).tenantId;
+  const own = opts.client?.tenantId ?? null;
+  const tenantId = typeof requested === "string" && requested ? requested : own;
+  if (!tenantId) {
+    opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "tenantId required"));
+    return null;
+  }
+  if (tenantId !== own && !hasAdminScope(opts)) {
+    opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Access denied"));
+    return null;
+  }
+  if (!getTenant(tenantId)) {
+    opts.respond(false, undefined, errorShape(ErrorCodes.NOT_FOUND, "Tenant not found"));
+    return null;
+  }
+  return tenantId;
+}
+
+/** Reads a snapshot id parameter, responding with an error when it is not one. */
+function readSnapshotId(opts: GatewayRequestHandlerOptions, key: "id" | "against") {
+  const value = (opts.params as Record<string, unknown>)[key];
+  if (typeof value !== "string" || !isValidWorkspaceSnapshotId(value)) {
+    opts.respond(
+      false,
+      undefined,
+      errorShape(ErrorCodes.INVALID_REQUEST, `${key} must be a snapshot id`),
+    );
+    return null;
+  }
+  return value;
+}
+
+function respondSnapshotError(opts: GatewayRequestHandlerOptions, err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  const code = message.startsWith("unknown workspace snapshot")
+    ? ErrorCodes.NOT_FOUND
+    : message.startsWith("ENOSPC") || message.startsWith("invalid workspace path")
+      ? ErrorCodes.INVALID_REQUEST
+      : ErrorCodes.UNAVAILABLE;
+  opts.respond(false, undefined, errorShape(code, message));
+}
+
+export const sandboxSnapshotMethods: GatewayRequestHandlers = {
+  "sandbox.snapshots.list": async (opts) => {
+    const tenantId = resolveSnapshotTenant(opts);
+    if (!tenantId) {
+      return;
+    }
+    try {
+      const snapshots = await listTenantWorkspaceSnapshots(tenantId);
+      opts.respond(true, { tenantId, snapshots });
+    } catch (err) {
+      respondSnapshotError(opts, err);
+    }
+  },
+
+  "sandbox.snapshots.create": async (opts) => {
+    const tenantId = resolveSnapshotTenant(opts);
+    if (!tenantId) {
+      return;
+    }
+    const params = opts.params as { label?: unknown; exclude?: unknown };
+    if (params.label !== undefined && typeof params.label !== "string") {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "label must be a string"),
+      );
+      return;
+    }
+    if (
+      params.exclude !== undefined &&
+      (!Array.isArray(params.exclude) || params.exclude.some((entry) => typeof entry !== "string"))
+    ) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "exclude must be an array of globs"),
+      );
+      return;
+    }
+    try {
+      const snapshot = await createTenantWorkspaceSnapshot({
+        tenantId,
+        reason: "manual",
+        label: params.label,
+        exclude: params.exclude as string[] | undefined,
+      });
+      opts.respond(true, { tenantId, snapshot });
+    } catch (err) {
+      respondSnapshotError(opts, err);
+    }
+  },
+
+  "sandbox.snapshots.diff": async (opts) => {
+    const tenantId = resolveSnapshotTenant(opts);
+    const id = tenantId ? readSnapshotId(opts, "id") : null;
+    if (!tenantId || !id) {
+      return;
+    }
+    let against: string | undefined;
+    if ((opts.params as { against?: unknown }).against !== undefined) {
+      const parsed = readSnapshotId(opts, "against");
+      if (!parsed) {
+        return;
+      }
+      against = parsed;
+    }
+    try {
+      const diff = await diffTenantWorkspaceSnapshot({ tenantId, id, against });
+      opts.respond(true, { tenantId, id, against: against ?? "workspace", ...diff });
+    } catch (err) {
+      respondSnapshotError(opts, err);
+    }
+  },
+
+  "sandbox.snapshots.restore": async (opts) => {
+    const tenantId = resolveSnapshotTenant(opts);
+    const id = tenantId ? readSnapshotId(opts, "id") : null;
+    if (!tenantId || !id) {
+      return;
+    }
+    const params = opts.params as { paths?: unknown; keepCurrent?: unknown };
+    if (
+      params.paths !== undefined &&
+      (!Array.isArray(params.paths) || params.paths.some((entry) => typeof entry !== "string"))
+    ) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "paths must be an array of workspace paths"),
+      );
+      return;
+    }
+    try {
+      const result = await restoreTenantWorkspaceSnapshot({
+        tenantId,
+        id,
+        paths: params.paths as string[] | undefined,
+        keepCurrent: params.keepCurrent !== false,
+      });
+      opts.respond(true, { tenantId, ...result });
+    } catch (err) {
+      respondSnapshotError(opts, err);
+    }
+  },
+
+  "sandbox.snapshots.delete": async (opts) => {
+    const tenantId = resolveSnapshotTenant(opts);
+    const id = tenantId ? readSnapshotId(opts, "id") : null;
+    if (!tenantId || !id) {
+      return;
+    }
+    try {
+      await deleteTenantWorkspaceSnapshot({ tenantId, id });
+      opts.respond(true, { tenantId, id, deleted: true });
+    } catch (err) {
+      respondSnapshotError(opts, err);
+    }
+  },
+};
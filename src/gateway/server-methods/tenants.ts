@@ -6,27 +6,55 @@
  *   tenants.list     - List all tenants (admin only)
  *   tenants.create   - Create a new tenant (admin only)
  *   tenants.get      - Get tenant info (admin or own tenant)
- *   tenants.delete   - Delete a tenant (admin only)
+ *   tenants.delete   - Schedule a tenant's deletion (admin or own tenant with confirm)
  *   tenants.rotate   - Rotate tenant token (admin or own tenant)
+ *   tenants.keys.*   - Create/list/revoke scoped tenant API keys (admin or own tenant)
+ *   tenants.backup / tenants.restore / tenants.backups.* - Backups to configured targets or S3
  */
 
 import type { GatewayRequestHandlers, GatewayRequestHandlerOptions } from "./types.js";
+import { loadConfig } from "../../config/config.js";
 import {
   createTenant,
-  removeTenant,
   rotateTenantToken,
   listTenants,
   getTenant,
   updateTenant,
   isValidTenantId,
   resolveTenantStateDir,
-  backupTenantToS3,
-  restoreTenantFromS3,
+  backupTenant,
+  restoreTenant,
   listTenantBackups,
   deleteTenantBackup,
-  type BackupConfig,
+  resolveBackupEncryptionKey,
+  resolveBackupTargetFromParams,
+  type BackupTarget,
+  type BackupTargetParams,
+  createTenantKey,
+  listTenantKeys,
+  revokeTenantKey,
+  normalizeTenantKeyScopes,
+  TENANT_KEY_SCOPES,
+  TENANT_DEFAULT_KEY_SCOPES,
+  type TenantTerminalSettings,
+  type TenantPolicy,
+  validateTenantPolicy,
+  type TenantBackupSettings,
+  validateTenantBackupSettings,
+  readTenantBackupStatus,
+  type TenantSandboxSettings,
+  validateTenantSandboxSettings,
+  type TenantLifecycleState,
+  TENANT_LIFECYCLE_STATES,
+  MAX_TENANT_PURGE_GRACE_DAYS,
+  isTenantLifecycleState,
+  resolveTenantLifecycleState,
+  transitionTenantState,
+  purgeTenant,
+  getTenantWorkspaceQuotaStatus,
 } from "../../tenants/index.js";
 import { errorShape, ErrorCodes } from "../protocol/index.js";
+import { validateTerminalSettings } from "./terminal.js";
 
 /**
  * Checks if the client has admin scope.
@@ -50,6 +78,36 @@ function canAccessTenant(opts: GatewayRequestHandlerOptions, tenantId: string):
   return opts.client?.tenantId === tenantId;
 }
 
+/**
+ * Resolves the backup target and encryption key of a backup method call.
+ * Responds with an error and returns null when they cannot be resolved.
+ */
+async function resolveBackupRequest(
+  opts: GatewayRequestHandlerOptions,
+  params: BackupTargetParams,
+): Promise<{ target: BackupTarget; encryptionKey?: Buffer } | null> {
+  try {
+    const cfg = loadConfig();
+    const target = resolveBackupTargetFromParams(params, cfg);
+    if (!target) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "target or bucket is required"),
+      );
+      return null;
+    }
+    return { target, encryptionKey: await resolveBackupEncryptionKey({ cfg }) };
+  } catch (err) {
+    opts.respond(
+      false,
+      undefined,
+      errorShape(ErrorCodes.INVALID_REQUEST, err instanceof Error ? err.message : String(err)),
+    );
+    return null;
+  }
+}
+
 /**
  * Tenant management gateway method handlers.
  */
@@ -73,6 +131,8 @@ export const tenantMethods: GatewayRequestHandlers = {
         createdAt: entry?.createdAt,
         lastSeenAt: entry?.lastSeenAt,
         disabled: entry?.disabled,
+        state: entry ? resolveTenantLifecycleState(entry) : undefined,
+        purgeAfter: entry?.purgeAfter,
       };
     });
 
@@ -114,7 +174,7 @@ export const tenantMethods: GatewayRequestHandlers = {
     }
 
     try {
-      const result = createTenant(tenantId, { displayName: params.displayName });
+      const result = await createTenant(tenantId, { displayName: params.displayName });
       opts.respond(true, {
         tenantId: result.tenantId,
         token: result.token,
@@ -164,17 +224,33 @@ export const tenantMethods: GatewayRequestHandlers = {
       createdAt: tenant.createdAt,
       lastSeenAt: tenant.lastSeenAt,
       disabled: tenant.disabled,
+      state: resolveTenantLifecycleState(tenant),
+      stateChangedAt: tenant.stateChangedAt,
+      stateReason: tenant.stateReason,
+      purgeAfter: tenant.purgeAfter,
+      terminal: tenant.terminal,
+      policy: tenant.policy,
+      backup: tenant.backup,
+      backupStatus: await readTenantBackupStatus(tenantId),
+      sandbox: tenant.sandbox,
+      workspaceQuota: getTenantWorkspaceQuotaStatus(tenantId),
       stateDir: resolveTenantStateDir(tenantId),
     });
   },
 
   /**
-   * Deletes a tenant.
-   * Admin can delete any tenant. Tenant can delete themselves (self-delete).
-   * Self-delete always deletes data. Admin can control via deleteData param.
+   * Deletes a tenant through the lifecycle: it moves to `pending-deletion` and its data is
+   * purged (and audited) once the grace window passes. `graceDays: 0` purges right away.
+   * Admin can delete any tenant. Tenant can delete themselves (self-delete, with confirm and
+   * the default grace window).
    */
   "tenants.delete": async (opts) => {
-    const params = opts.params as { tenantId?: string; deleteData?: boolean; confirm?: boolean };
+    const params = opts.params as {
+      tenantId?: string;
+      confirm?: boolean;
+      graceDays?: number;
+      reason?: string;
+    };
     const tenantId = params.tenantId;
 
     if (!tenantId || typeof tenantId !== "string") {
@@ -207,11 +283,57 @@ export const tenantMethods: GatewayRequestHandlers = {
       return;
     }
 
+    const graceDays = isSelfDelete ? undefined : params.graceDays;
+    if (
+      graceDays !== undefined &&
+      (typeof graceDays !== "number" ||
+        !Number.isFinite(graceDays) ||
+        graceDays < 0 ||
+        graceDays > MAX_TENANT_PURGE_GRACE_DAYS)
+    ) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `graceDays must be between 0 and ${MAX_TENANT_PURGE_GRACE_DAYS}`,
+        ),
+      );
+      return;
+    }
+
+    const tenant = getTenant(tenantId);
+    if (!tenant) {
+      opts.respond(false, undefined, errorShape(ErrorCodes.NOT_FOUND, "Tenant not found"));
+      return;
+    }
+
     try {
-      // Self-delete always deletes data. Admin can control via deleteData param.
-      const deleteData = isSelfDelete ? true : params.deleteData;
-      removeTenant(tenantId, { deleteData });
-      opts.respond(true, { deleted: true, tenantId });
+      const actor = isSelfDelete
+        ? `tenant:${tenantId}`
+        : opts.client?.connId
+          ? `admin:${opts.client.connId}`
+          : "admin";
+      const transition =
+        resolveTenantLifecycleState(tenant) === "pending-deletion"
+          ? undefined
+          : await transitionTenantState(tenantId, "pending-deletion", {
+              reason: typeof params.reason === "string" ? params.reason : undefined,
+              actor,
+              graceDays,
+            });
+      if (graceDays === 0) {
+        if (await purgeTenant(tenantId, { actor })) {
+          opts.respond(true, { deleted: true, tenantId });
+          return;
+        }
+      }
+      opts.respond(true, {
+        deleted: false,
+        tenantId,
+        state: "pending-deletion",
+        purgeAfter: transition?.purgeAfter ?? tenant.purgeAfter,
+      });
     } catch (err) {
       opts.respond(
         false,
@@ -226,7 +348,7 @@ export const tenantMethods: GatewayRequestHandlers = {
    * Admin can rotate any tenant's token.
    */
   "tenants.rotate": async (opts) => {
-    const params = opts.params as { tenantId?: string };
+    const params = opts.params as { tenantId?: string; graceSeconds?: number };
     const tenantId = params.tenantId;
 
     if (!tenantId || typeof tenantId !== "string") {
@@ -243,11 +365,27 @@ export const tenantMethods: GatewayRequestHandlers = {
       return;
     }
 
+    const graceSeconds = params.graceSeconds;
+    if (
+      graceSeconds !== undefined &&
+      (typeof graceSeconds !== "number" || !Number.isFinite(graceSeconds) || graceSeconds < 0)
+    ) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "graceSeconds must be a non-negative number"),
+      );
+      return;
+    }
+
     try {
-      const result = rotateTenantToken(tenantId);
+      const result = await rotateTenantToken(tenantId, {
+        graceMs: graceSeconds ? graceSeconds * 1000 : undefined,
+      });
       opts.respond(true, {
         tenantId: result.tenantId,
         token: result.token,
+        previousTokenExpiresAt: result.previousTokenExpiresAt,
       });
     } catch (err) {
       opts.respond(
@@ -258,6 +396,183 @@ export const tenantMethods: GatewayRequestHandlers = {
     }
   },
 
+  /**
+   * Creates a named, scoped API key for a tenant.
+   * Admin can create keys for any tenant. Returns the plaintext token once.
+   */
+  "tenants.keys.create": async (opts) => {
+    const params = opts.params as {
+      tenantId?: string;
+      name?: string;
+      scopes?: unknown;
+      expiresAt?: string;
+      expiresInSeconds?: number;
+    };
+    const tenantId = params.tenantId;
+
+    if (!tenantId || typeof tenantId !== "string") {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "tenantId is required"),
+      );
+      return;
+    }
+
+    if (!canAccessTenant(opts, tenantId)) {
+      opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Access denied"));
+      return;
+    }
+
+    if (!params.name || typeof params.name !== "string") {
+      opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "name is required"));
+      return;
+    }
+
+    const scopes =
+      params.scopes === undefined ? undefined : normalizeTenantKeyScopes(params.scopes);
+    if (scopes === null) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `scopes must be a non-empty list of: ${TENANT_KEY_SCOPES.join(", ")}`,
+        ),
+      );
+      return;
+    }
+
+    // A scoped key may only mint keys within its own scopes.
+    const requestedScopes = scopes ?? [...TENANT_DEFAULT_KEY_SCOPES];
+    const callerScopes = opts.client?.tenantScopes;
+    if (callerScopes && requestedScopes.some((scope) => !callerScopes.includes(scope))) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.UNAUTHORIZED, "Cannot grant scopes the current key does not hold"),
+      );
+      return;
+    }
+
+    let expiresAt = params.expiresAt;
+    if (params.expiresInSeconds !== undefined) {
+      if (
+        typeof params.expiresInSeconds !== "number" ||
+        !Number.isFinite(params.expiresInSeconds) ||
+        params.expiresInSeconds <= 0
+      ) {
+        opts.respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, "expiresInSeconds must be a positive number"),
+        );
+        return;
+      }
+      expiresAt = new Date(Date.now() + params.expiresInSeconds * 1000).toISOString();
+    }
+
+    try {
+      const result = await createTenantKey(tenantId, {
+        name: params.name,
+        scopes: requestedScopes,
+        expiresAt,
+      });
+      opts.respond(true, { tenantId, key: result.key, token: result.token });
+    } catch (err) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, err instanceof Error ? err.message : String(err)),
+      );
+    }
+  },
+
+  /**
+   * Lists a tenant's API keys (metadata only, never secrets).
+   */
+  "tenants.keys.list": async (opts) => {
+    const params = opts.params as { tenantId?: string };
+    const tenantId = params.tenantId;
+
+    if (!tenantId || typeof tenantId !== "string") {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "tenantId is required"),
+      );
+      return;
+    }
+
+    if (!canAccessTenant(opts, tenantId)) {
+      opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Access denied"));
+      return;
+    }
+
+    try {
+      opts.respond(true, { tenantId, keys: listTenantKeys(tenantId) });
+    } catch (err) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.NOT_FOUND, err instanceof Error ? err.message : String(err)),
+      );
+    }
+  },
+
+  /**
+   * Revokes a tenant API key, optionally after a grace period.
+   */
+  "tenants.keys.revoke": async (opts) => {
+    const params = opts.params as { tenantId?: string; keyId?: string; graceSeconds?: number };
+    const tenantId = params.tenantId;
+
+    if (!tenantId || typeof tenantId !== "string") {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "tenantId is required"),
+      );
+      return;
+    }
+
+    if (!canAccessTenant(opts, tenantId)) {
+      opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Access denied"));
+      return;
+    }
+
+    if (!params.keyId || typeof params.keyId !== "string") {
+      opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "keyId is required"));
+      return;
+    }
+
+    const graceSeconds = params.graceSeconds;
+    if (
+      graceSeconds !== undefined &&
+      (typeof graceSeconds !== "number" || !Number.isFinite(graceSeconds) || graceSeconds < 0)
+    ) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "graceSeconds must be a non-negative number"),
+      );
+      return;
+    }
+
+    try {
+      const key = await revokeTenantKey(tenantId, params.keyId, {
+        graceMs: graceSeconds ? graceSeconds * 1000 : undefined,
+      });
+      opts.respond(true, { tenantId, key });
+    } catch (err) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.NOT_FOUND, err instanceof Error ? err.message : String(err)),
+      );
+    }
+  },
+
   /**
    * Updates tenant properties.
    * Requires admin scope.
@@ -268,7 +583,18 @@ export const tenantMethods: GatewayRequestHandlers = {
       return;
     }
 
-    const params = opts.params as { tenantId?: string; displayName?: string; disabled?: boolean };
+    const params = opts.params as {
+      tenantId?: string;
+      displayName?: string;
+      disabled?: boolean;
+      terminal?: TenantTerminalSettings;
+      policy?: TenantPolicy;
+      backup?: TenantBackupSettings | null;
+      sandbox?: TenantSandboxSettings;
+      state?: TenantLifecycleState;
+      reason?: string;
+      graceDays?: number;
+    };
     const tenantId = params.tenantId;
 
     if (!tenantId || typeof tenantId !== "string") {
@@ -280,12 +606,101 @@ export const tenantMethods: GatewayRequestHandlers = {
       return;
     }
 
+    if (params.terminal !== undefined) {
+      const terminalError = validateTerminalSettings(params.terminal);
+      if (terminalError) {
+        opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, terminalError));
+        return;
+      }
+    }
+
+    if (params.policy !== undefined) {
+      const policyError = validateTenantPolicy(params.policy);
+      if (policyError) {
+        opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, policyError));
+        return;
+      }
+    }
+
+    // `backup: null` clears the override, like an empty object
+    const backup = params.backup === null ? {} : params.backup;
+    if (backup !== undefined) {
+      const backupError = validateTenantBackupSettings(backup);
+      const targets = loadConfig().gateway?.backup?.targets ?? {};
+      const unknownTarget =
+        !backupError && backup.target !== undefined && !Object.hasOwn(targets, backup.target);
+      if (backupError || unknownTarget) {
+        opts.respond(
+          false,
+          undefined,
+          errorShape(
+            ErrorCodes.INVALID_REQUEST,
+            backupError ?? `Unknown backup target: "${backup.target}"`,
+          ),
+        );
+        return;
+      }
+    }
+
+    if (params.sandbox !== undefined) {
+      const sandboxError = validateTenantSandboxSettings(params.sandbox);
+      if (sandboxError) {
+        opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, sandboxError));
+        return;
+      }
+    }
+
+    if (params.state !== undefined && !isTenantLifecycleState(params.state)) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `state must be one of: ${TENANT_LIFECYCLE_STATES.join(", ")}`,
+        ),
+      );
+      return;
+    }
+    if (
+      params.graceDays !== undefined &&
+      (typeof params.graceDays !== "number" ||
+        !Number.isFinite(params.graceDays) ||
+        params.graceDays < 0 ||
+        params.graceDays > MAX_TENANT_PURGE_GRACE_DAYS)
+    ) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `graceDays must be between 0 and ${MAX_TENANT_PURGE_GRACE_DAYS}`,
+        ),
+      );
+      return;
+    }
+
     try {
-      updateTenant(tenantId, {
+      await updateTenant(tenantId, {
         displayName: params.displayName,
-        disabled: params.disabled,
+        terminal: params.terminal,
+        policy: params.policy,
+        backup,
+        sandbox: params.sandbox,
       });
-      opts.respond(true, { updated: true, tenantId });
+      // `disabled` is kept for older clients and maps onto the lifecycle state.
+      const targetState =
+        params.state ??
+        (params.disabled === undefined ? undefined : params.disabled ? "suspended" : "active");
+      const current = getTenant(tenantId);
+      const transition =
+        targetState && current && resolveTenantLifecycleState(current) !== targetState
+          ? await transitionTenantState(tenantId, targetState, {
+              reason: typeof params.reason === "string" ? params.reason : undefined,
+              actor: opts.client?.connId ? `admin:${opts.client.connId}` : "admin",
+              graceDays: params.graceDays,
+            })
+          : undefined;
+      opts.respond(true, { updated: true, tenantId, transition });
     } catch (err) {
       opts.respond(
         false,
@@ -296,16 +711,13 @@ export const tenantMethods: GatewayRequestHandlers = {
   },
 
   /**
-   * Backs up a tenant to S3.
+   * Backs up a tenant to a configured target (`target`) or inline S3 params.
    * Admin can backup any tenant, tenant can backup own.
    */
   "tenants.backup": async (opts) => {
-    const params = opts.params as {
+    const params = opts.params as BackupTargetParams & {
       tenantId?: string;
-      bucket?: string;
-      endpoint?: string;
-      region?: string;
-      prefix?: string;
+      incremental?: boolean;
     };
     const tenantId = params.tenantId;
 
@@ -323,26 +735,19 @@ export const tenantMethods: GatewayRequestHandlers = {
       return;
     }
 
-    if (!params.bucket) {
-      opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "bucket is required"));
+    const request = await resolveBackupRequest(opts, params);
+    if (!request) {
       return;
     }
 
-    const config: BackupConfig = {
-      bucket: params.bucket,
-      endpoint: params.endpoint,
-      region: params.region,
-      prefix: params.prefix,
-    };
-
     try {
-      const result = await backupTenantToS3({ tenantId, config });
-      opts.respond(true, {
-        key: result.key,
-        tenantId: result.tenantId,
-        timestamp: result.timestamp,
-        size: result.size,
+      const result = await backupTenant({
+        tenantId,
+        target: request.target,
+        incremental: params.incremental === true,
+        encryptionKey: request.encryptionKey,
       });
+      opts.respond(true, result);
     } catch (err) {
       opts.respond(
         false,
@@ -353,17 +758,16 @@ export const tenantMethods: GatewayRequestHandlers = {
   },
 
   /**
-   * Restores a tenant from S3 backup.
+   * Restores a tenant from a backup. With `dryRun`, verifies the backup and returns
+   * the changes without touching the tenant.
    * Admin can restore any tenant, tenant can restore own.
    */
   "tenants.restore": async (opts) => {
-    const params = opts.params as {
+    const params = opts.params as BackupTargetParams & {
       tenantId?: string;
       key?: string;
-      bucket?: string;
-      endpoint?: string;
-      region?: string;
       createIfMissing?: boolean;
+      dryRun?: boolean;
     };
     const tenantId = params.tenantId;
 
@@ -381,38 +785,39 @@ export const tenantMethods: GatewayRequestHandlers = {
       return;
     }
 
-    if (!params.key) {
+    if (!params.key || typeof params.key !== "string") {
       opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "key is required"));
       return;
     }
 
-    if (!params.bucket) {
-      opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "bucket is required"));
+    const request = await resolveBackupRequest(opts, params);
+    if (!request) {
       return;
     }
 
-    const config: BackupConfig = {
-      bucket: params.bucket,
-      endpoint: params.endpoint,
-      region: params.region,
-    };
-
-    // Tenants can only restore their own existing tenant, not create new ones.
-    // Only admin can use createIfMissing.
-    const createIfMissing = hasAdminScope(opts) ? params.createIfMissing : false;
+    // Tenants can only restore their own backups into their own existing tenant.
+    // Only admin can use createIfMissing or pick keys outside the tenant's prefix.
+    const isAdmin = hasAdminScope(opts);
+    if (!isAdmin && !params.key.startsWith(`${request.target.prefix}/${tenantId}/`)) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.UNAUTHORIZED, "Backup key is outside the tenant's backups"),
+      );
+      return;
+    }
+    const createIfMissing = isAdmin ? params.createIfMissing : false;
 
     try {
-      const result = await restoreTenantFromS3({
+      const result = await restoreTenant({
         tenantId,
-        config,
+        target: request.target,
         key: params.key,
         createIfMissing,
+        dryRun: params.dryRun === true,
+        encryptionKey: request.encryptionKey,
       });
-      opts.respond(true, {
-        tenantId: result.tenantId,
-        restoredAt: result.restoredAt,
-        sourceKey: result.sourceKey,
-      });
+      opts.respond(true, result);
     } catch (err) {
       opts.respond(
         false,
@@ -427,13 +832,7 @@ export const tenantMethods: GatewayRequestHandlers = {
    * Admin can list any tenant's backups, tenant can list own.
    */
   "tenants.backups.list": async (opts) => {
-    const params = opts.params as {
-      tenantId?: string;
-      bucket?: string;
-      endpoint?: string;
-      region?: string;
-      prefix?: string;
-    };
+    const params = opts.params as BackupTargetParams & { tenantId?: string };
     const tenantId = params.tenantId;
 
     if (!tenantId || typeof tenantId !== "string") {
@@ -450,20 +849,13 @@ export const tenantMethods: GatewayRequestHandlers = {
       return;
     }
 
-    if (!params.bucket) {
-      opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "bucket is required"));
+    const request = await resolveBackupRequest(opts, params);
+    if (!request) {
       return;
     }
 
-    const config: BackupConfig = {
-      bucket: params.bucket,
-      endpoint: params.endpoint,
-      region: params.region,
-      prefix: params.prefix,
-    };
-
     try {
-      const backups = await listTenantBackups({ tenantId, config });
+      const backups = await listTenantBackups({ tenantId, target: request.target });
       opts.respond(true, { backups });
     } catch (err) {
       opts.respond(
@@ -475,7 +867,7 @@ export const tenantMethods: GatewayRequestHandlers = {
   },
 
   /**
-   * Deletes a backup from S3.
+   * Deletes a backup.
    * Requires admin scope.
    */
   "tenants.backups.delete": async (opts) => {
@@ -484,31 +876,20 @@ export const tenantMethods: GatewayRequestHandlers = {
       return;
     }
 
-    const params = opts.params as {
-      key?: string;
-      bucket?: string;
-      endpoint?: string;
-      region?: string;
-    };
+    const params = opts.params as BackupTargetParams & { key?: string };
 
-    if (!params.key) {
+    if (!params.key || typeof params.key !== "string") {
       opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "key is required"));
       return;
     }
 
-    if (!params.bucket) {
-      opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "bucket is required"));
+    const request = await resolveBackupRequest(opts, params);
+    if (!request) {
       return;
     }
 
-    const config: BackupConfig = {
-      bucket: params.bucket,
-      endpoint: params.endpoint,
-      region: params.region,
-    };
-
     try {
-      await deleteTenantBackup({ key: params.key, config });
+      await deleteTenantBackup({ key: params.key, target: request.target });
       opts.respond(true, { deleted: true, key: params.key });
     } catch (err) {
       opts.respond(
@@ -0,0 +1,98 @@
+/**
+ * Bounded scrollback buffer for terminal sessions.
+ * OPENCLAWMU ADDITION: replayed to viewers on terminal.attach.
+ *
+ * Stores PTY output chunks up to a UTF-8 byte budget, dropping the oldest output
+ * first. When a chunk has to be cut, the cut lands between characters and then moves
+ * forward to the next line break (if one is close) so replay does not start in the
+ * middle of a line.
+ */
+
+const MAX_LINE_SEEK_CHARS = 4096;
+
+/** Drops at least `bytes` UTF-8 bytes from the start of `text`, cutting between characters. */
+function dropLeadingBytes(text: string, bytes: number): string {
+  const buffer = Buffer.from(text, "utf8");
+  let start = Math.min(bytes, buffer.length);
+  while (start < buffer.length && (buffer[start] & 0xc0) === 0x80) {
+    start += 1;
+  }
+  return buffer.subarray(start).toString("utf8");
+}
+
+export class TerminalScrollback {
+  private chunks: string[] = [];
+  private size = 0;
+
+  constructor(readonly maxBytes: number) {}
+
+  /** Buffered output in UTF-8 bytes. */
+  get byteLength(): number {
+    return this.size;
+  }
+
+  append(data: string): void {
+    if (!data || this.maxBytes <= 0) {
+      return;
+    }
+    const bytes = Buffer.byteLength(data);
+    if (bytes >= this.maxBytes) {
+      const tail = dropLeadingBytes(data, bytes - this.maxBytes);
+      this.chunks = [tail];
+      this.size = Buffer.byteLength(tail);
+      this.trimToLineStart();
+      return;
+    }
+    this.chunks.push(data);
+    this.size += bytes;
+    if (this.size <= this.maxBytes) {
+      return;
+    }
+    let headBytes = Buffer.byteLength(this.chunks[0]);
+    while (this.chunks.length > 1 && this.size - headBytes >= this.maxBytes) {
+      this.size -= headBytes;
+      this.chunks.shift();
+      headBytes = Buffer.byteLength(this.chunks[0]);
+    }
+    const overflow = this.size - this.maxBytes;
+    if (overflow > 0) {
+      const head = dropLeadingBytes(this.chunks[0], overflow);
+      this.size -= headBytes - Buffer.byteLength(head);
+      this.chunks[0] = head;
+      this.trimToLineStart();
+    }
+  }
+
+  snapshot(): string {
+    if (this.chunks.length > 1) {
+      this.chunks = [this.chunks.join("")];
+    }
+    return this.chunks[0] ?? "";
+  }
+
+  clear(): void {
+    this.chunks = [];
+    this.size = 0;
+  }
+
+  private trimToLineStart(): void {
+    const head = this.chunks[0];
+    if (!head) {
+      return;
+    }
+    const newline = head.indexOf("\n");
+    if (newline < 0 || newline >= MAX_LINE_SEEK_CHARS) {
+      return;
+    }
+    const lineBytes = Buffer.byteLength(head.slice(0, newline + 1));
+    if (lineBytes >= this.size) {
+      return;
+    }
+    this.size -= lineBytes;
+    if (newline === head.length - 1) {
+      this.chunks.shift();
+    } else {
+      this.chunks[0] = head.slice(newline + 1);
+    }
+  }
+}
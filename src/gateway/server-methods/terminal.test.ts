@@ -0,0 +1,212 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { GatewayClient, GatewayRequestHandlerOptions } from "./types.js";
+import { TerminalScrollback } from "./terminal-scrollback.js";
+
+type FakePty = {
+  pid: number;
+  write: ReturnType<typeof vi.fn>;
+  resize: ReturnType<typeof vi.fn>;
+  kill: ReturnType<typeof vi.fn>;
+  emit: (data: string) => void;
+};
+
+const ptys: FakePty[] = [];
+
+vi.mock("../../agents/sandbox/bwrap-pty.js", () => ({
+  spawnBwrapPtyAuto: vi.fn(async () => {
+    let onData: ((data: string) => void) | null = null;
+    const pty = {
+      pid: 1000 + ptys.length,
+      write: vi.fn(),
+      resize: vi.fn(),
+      kill: vi.fn(),
+      onData: (cb: (data: string) => void) => {
+        onData = cb;
+      },
+      onExit: () => {},
+      emit: (data: string) => onData?.(data),
+    };
+    ptys.push(pty);
+    return pty;
+  }),
+}));
+
+vi.mock("../../tenants/registry.js", () => ({
+  getTenant: vi.fn(() => ({
+    tokenHash: "h",
+    createdAt: "now",
+    terminal: { scrollbackBytes: 64, detachedTimeoutMinutes: 1, maxViewers: 3 },
+  })),
+}));
+
+const {
+  terminalMethods,
+  detachTerminalConnection,
+  resetTerminalSessionsForTest,
+  sweepTerminalSessionsForTest,
+  validateTerminalSettings,
+} = await import("./terminal.js");
+
+const broadcastToConnIds = vi.fn();
+
+function makeClient(connId: string, tenantId = "demo"): GatewayClient {
+  return {
+    connId,
+    tenantId,
+    connect: { role: "operator", scopes: ["operator.read", "operator.write"] },
+  } as unknown as GatewayClient;
+}
+
+async function call(method: string, client: GatewayClient, params: Record<string, unknown>) {
+  const respond = vi.fn();
+  await terminalMethods[method]({
+    params,
+    respond,
+    client,
+    context: { broadcastToConnIds } as unknown as GatewayRequestHandlerOptions["context"],
+    req: { id: "req-1", type: "req", method },
+    isWebchatConnect: () => false,
+  });
+  const [ok, payload, error] = respond.mock.calls[0] ?? [];
+  return { ok, payload, error };
+}
+
+afterEach(() => {
+  resetTerminalSessionsForTest();
+  ptys.length = 0;
+  broadcastToConnIds.mockClear();
+});
+
+describe("terminal scrollback", () => {
+  it("keeps the newest output within the budget", () => {
+    const buffer = new TerminalScrollback(10);
+    buffer.append("abc");
+    buffer.append("defgh");
+    buffer.append("ijklmn");
+    expect(buffer.snapshot()).toBe("efghijklmn");
+    expect(buffer.byteLength).toBe(10);
+  });
+
+  it("counts UTF-8 bytes and never cuts inside a character", () => {
+    const buffer = new TerminalScrollback(10);
+    buffer.append("éééé");
+    buffer.append("ééé");
+    expect(buffer.snapshot()).toBe("ééééé");
+    expect(buffer.byteLength).toBe(10);
+    buffer.append("€€€€");
+    expect(buffer.snapshot()).toBe("€€€");
+    expect(buffer.byteLength).toBe(9);
+  });
+
+  it("starts replay at a line boundary after trimming", () => {
+    const buffer = new TerminalScrollback(12);
+    buffer.append("line-one\n");
+    buffer.append("line-two\n");
+    expect(buffer.snapshot()).toBe("line-two\n");
+  });
+});
+
+describe("terminal sessions", () => {
+  it("survives a disconnect and replays scrollback on attach", async () => {
+    const first = makeClient("conn-1");
+    const spawned = await call("terminal.spawn", first, { cols: 80, rows: 24 });
+    expect(spawned.ok).toBe(true);
+    const terminalId = spawned.payload.terminalId as string;
+
+    ptys[0].emit("hello\n");
+    expect(detachTerminalConnection("conn-1")).toBe(1);
+    ptys[0].emit("while away\n");
+    expect(ptys[0].kill).not.toHaveBeenCalled();
+
+    const attached = await call("terminal.attach", makeClient("conn-2"), { terminalId });
+    expect(attached.ok).toBe(true);
+    expect(attached.payload).toMatchObject({ mode: "control", viewers: 1, detachedAt: null });
+    expect(attached.payload.scrollback).toBe("hello\nwhile away\n");
+
+    const written = await call("terminal.write", makeClient("conn-2"), {
+      terminalId,
+      data: "ls\n",
+    });
+    expect(written.ok).toBe(true);
+    expect(ptys[0].write).toHaveBeenCalledWith("ls\n");
+  });
+
+  it("fans output out to observers and blocks their input", async () => {
+    const controller = makeClient("conn-1");
+    const { payload } = await call("terminal.spawn", controller, {});
+    const terminalId = payload.terminalId as string;
+
+    const observer = makeClient("conn-2");
+    expect((await call("terminal.attach", observer, { terminalId, mode: "observe" })).ok).toBe(
+      true,
+    );
+    ptys[0].emit("out");
+    expect(broadcastToConnIds).toHaveBeenLastCalledWith(
+      "terminal.output",
+      { terminalId, data: "out" },
+      new Set(["conn-1", "conn-2"]),
+    );
+
+    const denied = await call("terminal.write", observer, { terminalId, data: "x" });
+    expect(denied.ok).toBe(false);
+    expect(denied.error.message).toMatch(/observer/);
+    expect((await call("terminal.close", observer, { terminalId })).ok).toBe(false);
+
+    // Taking control demotes the previous controller.
+    await call("terminal.attach", observer, { terminalId, mode: "control" });
+    expect(broadcastToConnIds).toHaveBeenLastCalledWith(
+      "terminal.mode",
+      expect.objectContaining({ terminalId, mode: "observe" }),
+      new Set(["conn-1"]),
+    );
+    expect((await call("terminal.write", controller, { terminalId, data: "x" })).ok).toBe(false);
+    expect((await call("terminal.write", observer, { terminalId, data: "x" })).ok).toBe(true);
+  });
+
+  it("enforces tenant isolation and viewer limits", async () => {
+    const { payload } = await call("terminal.spawn", makeClient("conn-1"), {});
+    const terminalId = payload.terminalId as string;
+
+    const foreign = await call("terminal.attach", makeClient("conn-x", "other"), { terminalId });
+    expect(foreign.ok).toBe(false);
+
+    await call("terminal.attach", makeClient("conn-2"), { terminalId, mode: "observe" });
+    await call("terminal.attach", makeClient("conn-3"), { terminalId, mode: "observe" });
+    const full = await call("terminal.attach", makeClient("conn-4"), { terminalId });
+    expect(full.ok).toBe(false);
+    expect(full.error.message).toMatch(/3 viewers/);
+  });
+
+  it("kills terminals left detached past the tenant timeout", async () => {
+    const { payload } = await call("terminal.spawn", makeClient("conn-1"), {});
+    const terminalId = payload.terminalId as string;
+    detachTerminalConnection("conn-1");
+
+    sweepTerminalSessionsForTest(Date.now() + 30_000);
+    expect(ptys[0].kill).not.toHaveBeenCalled();
+    sweepTerminalSessionsForTest(Date.now() + 2 * 60_000);
+    expect(ptys[0].kill).toHaveBeenCalled();
+    expect((await call("terminal.attach", makeClient("conn-2"), { terminalId })).ok).toBe(false);
+  });
+
+  it("keeps tenants out of each other's recordings", async () => {
+    const denied = await call("terminal.recordings.list", makeClient("conn-1"), {
+      tenantId: "other",
+    });
+    expect(denied.ok).toBe(false);
+    const invalid = await call("terminal.recordings.get", makeClient("conn-1"), {
+      recordingId: "../../tenants",
+    });
+    expect(invalid.ok).toBe(false);
+    expect(invalid.error.message).toMatch(/Invalid recording ID/);
+  });
+
+  it("validates tenant terminal settings", () => {
+    expect(validateTerminalSettings({ idleTimeoutMinutes: 60, maxViewers: 4 })).toBeNull();
+    expect(validateTerminalSettings({ idleTimeoutMinutes: 0 })).toMatch(/between/);
+    expect(validateTerminalSettings({ scrollbackBytes: 1.5 })).toMatch(/integer/);
+    expect(validateTerminalSettings({ colour: 1 })).toMatch(/unknown/);
+    expect(validateTerminalSettings({ recording: { enabled: true, retentionDays: 7 } })).toBeNull();
+    expect(validateTerminalSettings({ recording: { enabled: "yes" } })).toMatch(/boolean/);
+  });
+});
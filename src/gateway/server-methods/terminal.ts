@@ -4,39 +4,226 @@
  *
  * Provides WebSocket terminal sessions for tenant sandboxes.
  *
+ * Sessions outlive the connection that spawned them: when a websocket closes the
+ * PTY keeps running (detached) and any connection of the same tenant can attach
+ * again, receiving the buffered scrollback. One viewer controls the PTY (input and
+ * resize); any other viewers are read-only observers.
+ *
  * Methods:
  *   terminal.spawn   - Spawn a new terminal session
+ *   terminal.attach  - Attach to an existing session (control or observe)
+ *   terminal.detach  - Detach from a session without killing it
  *   terminal.write   - Write data to a terminal
  *   terminal.resize  - Resize a terminal
  *   terminal.close   - Close a terminal session
  *   terminal.list    - List active terminal sessions
+ *   terminal.recordings.list - List asciicast recordings (when tenant recording is enabled)
+ *   terminal.recordings.get  - Fetch one recording for playback
  */
 
 import crypto from "node:crypto";
-import type { GatewayRequestHandlers, GatewayRequestHandlerOptions } from "./types.js";
+import type {
+  TenantTerminalRecordingSettings,
+  TenantTerminalSettings,
+} from "../../tenants/types.js";
+import type {
+  GatewayRequestContext,
+  GatewayRequestHandlers,
+  GatewayRequestHandlerOptions,
+} from "./types.js";
 import { spawnBwrapPtyAuto, type BwrapPtyHandle } from "../../agents/sandbox/bwrap-pty.js";
+import { resolveTenantBwrapConfig } from "../../tenants/egress.js";
+import { getTenant } from "../../tenants/registry.js";
+import { resolveTenantSandboxLimits } from "../../tenants/sandbox-security.js";
+import {
+  MAX_RECORDING_FILE_BYTES,
+  MAX_RECORDING_RETENTION_DAYS,
+  createTerminalRecordingPath,
+  ensureTerminalRecordingsDir,
+  listTerminalRecordings,
+  pruneTerminalRecordings,
+  readTerminalRecording,
+  resolveTerminalRecordingSettings,
+} from "../../tenants/terminal-recordings.js";
 import { errorShape, ErrorCodes } from "../protocol/index.js";
+import { TerminalScrollback } from "./terminal-scrollback.js";
+
+export type TerminalViewerMode = "control" | "observe";
+
+type TerminalSession = {
+  terminalId: string;
+  tenantId: string;
+  pty: BwrapPtyHandle;
+  cols: number;
+  rows: number;
+  createdAt: number;
+  lastActivityAt: number;
+  /** Connection allowed to write/resize (null when no controller is attached). */
+  controllerConnId: string | null;
+  /** Attached connections (connId -> mode). */
+  viewers: Map<string, TerminalViewerMode>;
+  /** When the last viewer detached (null while at least one viewer is attached). */
+  detachedAt: number | null;
+  scrollback: TerminalScrollback;
+  /** Asciicast recording being written for this session, if recording is enabled. */
+  recordingId: string | null;
+  settings: ResolvedTerminalSettings;
+  broadcastToConnIds: GatewayRequestContext["broadcastToConnIds"];
+};
+
+type ResolvedTerminalSettings = {
+  idleTimeoutMs: number;
+  detachedTimeoutMs: number;
+  scrollbackBytes: number;
+  maxViewers: number;
+};
 
 /**
  * Terminal session storage.
  * Maps terminalId -> session info.
  */
-const terminalSessions = new Map<
-  string,
-  {
-    terminalId: string;
-    tenantId: string;
-    connId: string;
-    pty: BwrapPtyHandle;
-    createdAt: number;
-    lastActivityAt: number;
+const terminalSessions = new Map<string, TerminalSession>();
+
+/** Default idle time (no input or output) before a terminal is killed (5 minutes). */
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+/** Default time a terminal may run with no viewer attached (10 minutes). */
+const DEFAULT_DETACHED_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_SCROLLBACK_BYTES = 256 * 1024;
+const MAX_SCROLLBACK_BYTES = 4 * 1024 * 1024;
+const DEFAULT_MAX_VIEWERS = 8;
+const MAX_VIEWERS_LIMIT = 32;
+/** Upper bound for tenant-configured timeouts (7 days). */
+const MAX_TIMEOUT_MINUTES = 7 * 24 * 60;
+
+function clampInt(value: unknown, min: number, max: number): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return null;
+  }
+  return Math.max(min, Math.min(max, Math.floor(value)));
+}
+
+/**
+ * Resolves terminal settings for a tenant, applying defaults and limits.
+ */
+export function resolveTerminalSettings(
+  settings: TenantTerminalSettings | undefined,
+): ResolvedTerminalSettings {
+  const idleMinutes = clampInt(settings?.idleTimeoutMinutes, 1, MAX_TIMEOUT_MINUTES);
+  const detachedMinutes = clampInt(settings?.detachedTimeoutMinutes, 0, MAX_TIMEOUT_MINUTES);
+  return {
+    idleTimeoutMs: idleMinutes !== null ? idleMinutes * 60_000 : DEFAULT_IDLE_TIMEOUT_MS,
+    detachedTimeoutMs:
+      detachedMinutes !== null ? detachedMinutes * 60_000 : DEFAULT_DETACHED_TIMEOUT_MS,
+    scrollbackBytes:
+      clampInt(settings?.scrollbackBytes, 0, MAX_SCROLLBACK_BYTES) ?? DEFAULT_SCROLLBACK_BYTES,
+    maxViewers: clampInt(settings?.maxViewers, 1, MAX_VIEWERS_LIMIT) ?? DEFAULT_MAX_VIEWERS,
+  };
+}
+
+const TERMINAL_SETTING_LIMITS: Record<
+  Exclude<keyof TenantTerminalSettings, "recording">,
+  [number, number]
+> = {
+  idleTimeoutMinutes: [1, MAX_TIMEOUT_MINUTES],
+  detachedTimeoutMinutes: [0, MAX_TIMEOUT_MINUTES],
+  scrollbackBytes: [0, MAX_SCROLLBACK_BYTES],
+  maxViewers: [1, MAX_VIEWERS_LIMIT],
+};
+
+const RECORDING_SETTING_LIMITS: Record<
+  Exclude<keyof TenantTerminalRecordingSettings, "enabled" | "recordInput">,
+  [number, number]
+> = {
+  retentionDays: [1, MAX_RECORDING_RETENTION_DAYS],
+  maxTotalBytes: [0, Number.MAX_SAFE_INTEGER],
+  maxFileBytes: [1024, MAX_RECORDING_FILE_BYTES],
+};
+
+function validateSettingsObject(
+  input: unknown,
+  prefix: string,
+  limits: Record<string, [number, number]>,
+  booleans: string[],
+): string | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return `${prefix} must be an object`;
+  }
+  for (const [key, value] of Object.entries(input)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (booleans.includes(key)) {
+      if (typeof value !== "boolean") {
+        return `${prefix}.${key} must be a boolean`;
+      }
+      continue;
+    }
+    const range = limits[key];
+    if (!range) {
+      return `unknown ${prefix} setting: ${key}`;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      return `${prefix}.${key} must be an integer`;
+    }
+    if (value < range[0] || value > range[1]) {
+      return `${prefix}.${key} must be between ${range[0]} and ${range[1]}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates terminal settings supplied through tenants.update.
+ * Returns an error message, or null when the settings are acceptable.
+ */
+export function validateTerminalSettings(input: unknown): string | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return "terminal must be an object";
   }
->();
+  const { recording, ...rest } = input as Record<string, unknown>;
+  if (recording !== undefined) {
+    const recordingError = validateSettingsObject(
+      recording,
+      "terminal.recording",
+      RECORDING_SETTING_LIMITS,
+      ["enabled", "recordInput"],
+    );
+    if (recordingError) {
+      return recordingError;
+    }
+  }
+  return validateSettingsObject(rest, "terminal", TERMINAL_SETTING_LIMITS, []);
+}
+
+function killSession(session: TerminalSession): void {
+  try {
+    session.pty.kill();
+  } catch {
+    // ignore
+  }
+  terminalSessions.delete(session.terminalId);
+}
 
 /**
- * Max idle time before terminal is cleaned up (5 minutes).
+ * Kills sessions that have been idle or detached for longer than their timeouts.
  */
-const TERMINAL_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+function sweepTerminalSessions(now = Date.now()): void {
+  for (const session of terminalSessions.values()) {
+    const idle = now - session.lastActivityAt > session.settings.idleTimeoutMs;
+    const abandoned =
+      session.detachedAt !== null && now - session.detachedAt > session.settings.detachedTimeoutMs;
+    if (idle || abandoned) {
+      if (session.viewers.size > 0) {
+        session.broadcastToConnIds(
+          "terminal.exit",
+          { terminalId: session.terminalId, exitCode: null, signal: null, reason: "idle" },
+          new Set(session.viewers.keys()),
+        );
+      }
+      killSession(session);
+    }
+  }
+}
 
 /**
  * Cleanup idle terminals periodically.
@@ -47,19 +234,8 @@ function startCleanupInterval() {
   if (cleanupInterval) {
     return;
   }
-  cleanupInterval = setInterval(() => {
-    const now = Date.now();
-    for (const [terminalId, session] of terminalSessions) {
-      if (now - session.lastActivityAt > TERMINAL_IDLE_TIMEOUT_MS) {
-        try {
-          session.pty.kill();
-        } catch {
-          // ignore
-        }
-        terminalSessions.delete(terminalId);
-      }
-    }
-  }, 60_000); // Check every minute
+  cleanupInterval = setInterval(() => sweepTerminalSessions(), 60_000); // Check every minute
+  cleanupInterval.unref?.();
 }
 
 /**
@@ -77,12 +253,111 @@ function hasAdminScope(opts: GatewayRequestHandlerOptions): boolean {
   return scopes.includes("operator.admin");
 }
 
+/**
+ * Resolves the session for a request, responding with an error when it is
+ * missing or belongs to another tenant.
+ */
+function resolveSession(
+  opts: GatewayRequestHandlerOptions,
+  terminalId: string | undefined,
+): TerminalSession | null {
+  if (!terminalId) {
+    opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "terminalId required"));
+    return null;
+  }
+  const session = terminalSessions.get(terminalId);
+  if (!session) {
+    opts.respond(false, undefined, errorShape(ErrorCodes.NOT_FOUND, "Terminal session not found"));
+    return null;
+  }
+  // Check access: must be owner tenant or admin
+  if (!hasAdminScope(opts) && session.tenantId !== getTenantId(opts)) {
+    opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Access denied"));
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Observers may not send input; admins (not attached) keep direct access.
+ */
+function canControl(opts: GatewayRequestHandlerOptions, session: TerminalSession): boolean {
+  const connId = opts.client?.connId;
+  if (connId && session.controllerConnId === connId) {
+    return true;
+  }
+  if (connId && session.viewers.has(connId)) {
+    return false;
+  }
+  return hasAdminScope(opts);
+}
+
+function detachViewer(session: TerminalSession, connId: string): boolean {
+  if (!session.viewers.delete(connId)) {
+    return false;
+  }
+  if (session.controllerConnId === connId) {
+    session.controllerConnId = null;
+  }
+  if (session.viewers.size === 0) {
+    session.detachedAt = Date.now();
+  }
+  return true;
+}
+
+function activeRecordingIds(tenantId: string): string[] {
+  const ids: string[] = [];
+  for (const session of terminalSessions.values()) {
+    if (session.tenantId === tenantId && session.recordingId) {
+      ids.push(session.recordingId);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Resolves which tenant's recordings a request targets (admins pass tenantId).
+ */
+function resolveRecordingsTenant(
+  opts: GatewayRequestHandlerOptions,
+  requested: unknown,
+): string | null {
+  const tenantId = getTenantId(opts);
+  const target = typeof requested === "string" && requested ? requested : tenantId;
+  if (!target) {
+    opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "tenantId required"));
+    return null;
+  }
+  if (target !== tenantId && !hasAdminScope(opts)) {
+    opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Access denied"));
+    return null;
+  }
+  return target;
+}
+
+function describeSession(session: TerminalSession) {
+  return {
+    terminalId: session.terminalId,
+    tenantId: session.tenantId,
+    pid: session.pty.pid,
+    cols: session.cols,
+    rows: session.rows,
+    createdAt: session.createdAt,
+    lastActivityAt: session.lastActivityAt,
+    viewers: session.viewers.size,
+    controlled: session.controllerConnId !== null,
+    detachedAt: session.detachedAt,
+    recordingId: session.recordingId,
+  };
+}
+
 /**
  * Terminal gateway method handlers.
  */
 export const terminalMethods: GatewayRequestHandlers = {
   /**
    * Spawns a new terminal session in the tenant's sandbox.
+   * The spawning connection is attached as the controller.
    */
   "terminal.spawn": async (opts) => {
     const tenantId = getTenantId(opts);
@@ -113,41 +388,77 @@ export const terminalMethods: GatewayRequestHandlers = {
     const shell = params.shell ?? "/bin/bash";
 
     try {
+      const tenant = getTenant(tenantId);
+      const settings = resolveTerminalSettings(tenant?.terminal);
+      const recordingSettings = resolveTerminalRecordingSettings(tenant?.terminal?.recording);
+      const bwrapConfig = await resolveTenantBwrapConfig({ tenantId, entry: tenant });
+      const terminalId = crypto.randomUUID();
+
+      let recording: { recordingId: string; filePath: string } | null = null;
+      if (recordingSettings.enabled) {
+        await ensureTerminalRecordingsDir(tenantId);
+        recording = createTerminalRecordingPath(tenantId, terminalId);
+        // Make room before the new recording starts; failures only delay cleanup
+        await pruneTerminalRecordings(tenantId, recordingSettings, {
+          diskSpaceLimitBytes: tenant?.quotas?.diskSpaceLimitBytes,
+          keep: activeRecordingIds(tenantId),
+        }).catch(() => undefined);
+      }
+
       const pty = await spawnBwrapPtyAuto({
         tenantId,
         shell,
         cols,
         rows,
         env: params.env,
+        bwrapConfig,
+        resourceLimits: resolveTenantSandboxLimits(tenant),
+        recording: recording
+          ? {
+              filePath: recording.filePath,
+              recordInput: recordingSettings.recordInput,
+              maxBytes: recordingSettings.maxFileBytes,
+              title: `${tenantId} terminal ${terminalId}`,
+            }
+          : undefined,
       });
 
-      const terminalId = crypto.randomUUID();
       const now = Date.now();
 
       // Store the session
       terminalSessions.set(terminalId, {
         terminalId,
         tenantId,
-        connId,
         pty,
+        cols,
+        rows,
         createdAt: now,
         lastActivityAt: now,
+        controllerConnId: connId,
+        viewers: new Map([[connId, "control"]]),
+        detachedAt: null,
+        scrollback: new TerminalScrollback(settings.scrollbackBytes),
+        recordingId: recording?.recordingId ?? null,
+        settings,
+        broadcastToConnIds: opts.context.broadcastToConnIds,
       });
 
       // Start cleanup interval if not running
       startCleanupInterval();
 
-      // Set up data forwarding to client via broadcast
+      // Buffer output and fan it out to every attached viewer
       pty.onData((data) => {
         const session = terminalSessions.get(terminalId);
         if (session) {
           session.lastActivityAt = Date.now();
-          // Broadcast terminal output to the client
-          opts.context.broadcastToConnIds(
-            "terminal.output",
-            { terminalId, data },
-            new Set([connId]),
-          );
+          session.scrollback.append(data);
+          if (session.viewers.size > 0) {
+            session.broadcastToConnIds(
+              "terminal.output",
+              { terminalId, data },
+              new Set(session.viewers.keys()),
+            );
+          }
         }
       });
 
@@ -155,11 +466,13 @@ export const terminalMethods: GatewayRequestHandlers = {
       pty.onExit((code, signal) => {
         const session = terminalSessions.get(terminalId);
         if (session) {
-          opts.context.broadcastToConnIds(
-            "terminal.exit",
-            { terminalId, exitCode: code, signal },
-            new Set([connId]),
-          );
+          if (session.viewers.size > 0) {
+            session.broadcastToConnIds(
+              "terminal.exit",
+              { terminalId, exitCode: code, signal },
+              new Set(session.viewers.keys()),
+            );
+          }
           terminalSessions.delete(terminalId);
         }
       });
@@ -169,6 +482,8 @@ export const terminalMethods: GatewayRequestHandlers = {
         pid: pty.pid,
         cols,
         rows,
+        mode: "control",
+        recordingId: recording?.recordingId ?? null,
       });
     } catch (err) {
       opts.respond(
@@ -182,13 +497,90 @@ export const terminalMethods: GatewayRequestHandlers = {
     }
   },
 
+  /**
+   * Attaches the current connection to an existing terminal session and
+   * returns the buffered scrollback for replay.
+   * mode "control" (default) takes over input; the previous controller is
+   * demoted to an observer. mode "observe" attaches read-only.
+   */
+  "terminal.attach": async (opts) => {
+    const connId = opts.client?.connId;
+    if (!connId) {
+      opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Connection ID required"));
+      return;
+    }
+
+    const params = opts.params as { terminalId?: string; mode?: string };
+    const mode = params.mode ?? "control";
+    if (mode !== "control" && mode !== "observe") {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, 'mode must be "control" or "observe"'),
+      );
+      return;
+    }
+
+    const session = resolveSession(opts, params.terminalId);
+    if (!session) {
+      return;
+    }
+
+    if (!session.viewers.has(connId) && session.viewers.size >= session.settings.maxViewers) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.UNAVAILABLE,
+          `Terminal already has ${session.settings.maxViewers} viewers attached`,
+        ),
+      );
+      return;
+    }
+
+    if (mode === "control") {
+      const previous = session.controllerConnId;
+      if (previous && previous !== connId) {
+        session.viewers.set(previous, "observe");
+        session.broadcastToConnIds(
+          "terminal.mode",
+          { terminalId: session.terminalId, mode: "observe", reason: "taken-over" },
+          new Set([previous]),
+        );
+      }
+      session.controllerConnId = connId;
+    } else if (session.controllerConnId === connId) {
+      session.controllerConnId = null;
+    }
+    session.viewers.set(connId, mode);
+    session.detachedAt = null;
+
+    opts.respond(true, {
+      ...describeSession(session),
+      mode,
+      scrollback: session.scrollback.snapshot(),
+    });
+  },
+
+  /**
+   * Detaches the current connection from a terminal session.
+   * The PTY keeps running until it exits, is closed, or times out detached.
+   */
+  "terminal.detach": async (opts) => {
+    const params = opts.params as { terminalId?: string };
+    const session = resolveSession(opts, params.terminalId);
+    if (!session) {
+      return;
+    }
+    const connId = opts.client?.connId;
+    const detached = connId ? detachViewer(session, connId) : false;
+    opts.respond(true, { detached, viewers: session.viewers.size });
+  },
+
   /**
    * Writes data to a terminal session.
    */
   "terminal.write": async (opts) => {
-    const tenantId = getTenantId(opts);
-    const isAdmin = hasAdminScope(opts);
-
     const params = opts.params as { terminalId?: string; data?: string };
 
     if (!params.terminalId) {
@@ -201,22 +593,20 @@ export const terminalMethods: GatewayRequestHandlers = {
       return;
     }
 
-    const session = terminalSessions.get(params.terminalId);
+    const session = resolveSession(opts, params.terminalId);
     if (!session) {
+      return;
+    }
+
+    if (!canControl(opts, session)) {
       opts.respond(
         false,
         undefined,
-        errorShape(ErrorCodes.NOT_FOUND, "Terminal session not found"),
+        errorShape(ErrorCodes.UNAUTHORIZED, "Terminal is attached read-only (observer)"),
       );
       return;
     }
 
-    // Check access: must be owner tenant or admin
-    if (!isAdmin && session.tenantId !== tenantId) {
-      opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Access denied"));
-      return;
-    }
-
     try {
       session.pty.write(params.data);
       session.lastActivityAt = Date.now();
@@ -237,9 +627,6 @@ export const terminalMethods: GatewayRequestHandlers = {
    * Resizes a terminal session.
    */
   "terminal.resize": async (opts) => {
-    const tenantId = getTenantId(opts);
-    const isAdmin = hasAdminScope(opts);
-
     const params = opts.params as { terminalId?: string; cols?: number; rows?: number };
 
     if (!params.terminalId) {
@@ -259,24 +646,24 @@ export const terminalMethods: GatewayRequestHandlers = {
       return;
     }
 
-    const session = terminalSessions.get(params.terminalId);
+    const session = resolveSession(opts, params.terminalId);
     if (!session) {
+      return;
+    }
+
+    if (!canControl(opts, session)) {
       opts.respond(
         false,
         undefined,
-        errorShape(ErrorCodes.NOT_FOUND, "Terminal session not found"),
+        errorShape(ErrorCodes.UNAUTHORIZED, "Terminal is attached read-only (observer)"),
       );
       return;
     }
 
-    // Check access
-    if (!isAdmin && session.tenantId !== tenantId) {
-      opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Access denied"));
-      return;
-    }
-
     try {
       session.pty.resize(cols, rows);
+      session.cols = cols;
+      session.rows = rows;
       session.lastActivityAt = Date.now();
       opts.respond(true, { cols, rows });
     } catch (err) {
@@ -292,42 +679,42 @@ export const terminalMethods: GatewayRequestHandlers = {
   },
 
   /**
-   * Closes a terminal session.
+   * Closes a terminal session (kills the PTY for every viewer).
    */
   "terminal.close": async (opts) => {
-    const tenantId = getTenantId(opts);
-    const isAdmin = hasAdminScope(opts);
-
     const params = opts.params as { terminalId?: string };
 
-    if (!params.terminalId) {
-      opts.respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "terminalId required"));
+    const session = resolveSession(opts, params.terminalId);
+    if (!session) {
       return;
     }
 
-    const session = terminalSessions.get(params.terminalId);
-    if (!session) {
+    const connId = opts.client?.connId;
+    if (connId && session.viewers.get(connId) === "observe") {
       opts.respond(
         false,
         undefined,
-        errorShape(ErrorCodes.NOT_FOUND, "Terminal session not found"),
+        errorShape(ErrorCodes.UNAUTHORIZED, "Observers cannot close the terminal; detach instead"),
       );
       return;
     }
 
-    // Check access
-    if (!isAdmin && session.tenantId !== tenantId) {
-      opts.respond(false, undefined, errorShape(ErrorCodes.UNAUTHORIZED, "Access denied"));
-      return;
+    const others = [...session.viewers.keys()].filter((id) => id !== connId);
+    if (others.length > 0) {
+      session.broadcastToConnIds(
+        "terminal.exit",
+        { terminalId: session.terminalId, exitCode: null, signal: null, reason: "closed" },
+        new Set(others),
+      );
     }
 
     try {
       session.pty.kill();
-      terminalSessions.delete(params.terminalId);
+      terminalSessions.delete(session.terminalId);
       opts.respond(true, { closed: true });
     } catch (err) {
       // Still remove from map
-      terminalSessions.delete(params.terminalId);
+      terminalSessions.delete(session.terminalId);
       opts.respond(true, { closed: true, warning: String(err) });
     }
   },
@@ -338,30 +725,111 @@ export const terminalMethods: GatewayRequestHandlers = {
   "terminal.list": async (opts) => {
     const tenantId = getTenantId(opts);
     const isAdmin = hasAdminScope(opts);
+    const connId = opts.client?.connId;
 
-    const sessions: Array<{
-      terminalId: string;
-      tenantId: string;
-      pid: number;
-      createdAt: number;
-      lastActivityAt: number;
-    }> = [];
+    const sessions: Array<
+      ReturnType<typeof describeSession> & { attachedMode: TerminalViewerMode | null }
+    > = [];
 
     for (const session of terminalSessions.values()) {
       // Admin sees all, tenant sees own
       if (isAdmin || session.tenantId === tenantId) {
         sessions.push({
-          terminalId: session.terminalId,
-          tenantId: session.tenantId,
-          pid: session.pty.pid,
-          createdAt: session.createdAt,
-          lastActivityAt: session.lastActivityAt,
+          ...describeSession(session),
+          attachedMode: (connId && session.viewers.get(connId)) || null,
         });
       }
     }
 
     opts.respond(true, { sessions });
   },
+
+  /**
+   * Lists terminal recordings for the current tenant (admins may pass tenantId).
+   */
+  "terminal.recordings.list": async (opts) => {
+    const params = opts.params as { tenantId?: string };
+    const tenantId = resolveRecordingsTenant(opts, params.tenantId);
+    if (!tenantId) {
+      return;
+    }
+    try {
+      const recordings = await listTerminalRecordings(tenantId);
+      const active = new Set(activeRecordingIds(tenantId));
+      opts.respond(true, {
+        tenantId,
+        recordings: recordings.map((recording) => ({
+          ...recording,
+          active: active.has(recording.recordingId),
+        })),
+        totalBytes: recordings.reduce((sum, recording) => sum + recording.sizeBytes, 0),
+      });
+    } catch (err) {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.UNAVAILABLE,
+          `Failed to list recordings: ${err instanceof Error ? err.message : String(err)}`,
+        ),
+      );
+    }
+  },
+
+  /**
+   * Returns one page of a recording's asciicast v2 content for playback. Clients pass
+   * the returned `nextOffset` back as `offset` until it is null.
+   */
+  "terminal.recordings.get": async (opts) => {
+    const params = opts.params as {
+      tenantId?: string;
+      recordingId?: string;
+      offset?: number;
+      limit?: number;
+    };
+    if (!params.recordingId || typeof params.recordingId !== "string") {
+      opts.respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "recordingId required"),
+      );
+      return;
+    }
+    const tenantId = resolveRecordingsTenant(opts, params.tenantId);
+    if (!tenantId) {
+      return;
+    }
+    try {
+      const { recording, content, offset, nextOffset } = await readTerminalRecording(
+        tenantId,
+        params.recordingId,
+        { offset: params.offset, limit: params.limit },
+      );
+      opts.respond(true, {
+        tenantId,
+        recording: {
+          ...recording,
+          active: activeRecordingIds(tenantId).includes(recording.recordingId),
+        },
+        format: "asciicast-v2",
+        content,
+        offset,
+        nextOffset,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      opts.respond(
+        false,
+        undefined,
+        errorShape(
+          message.startsWith("Recording not found")
+            ? ErrorCodes.NOT_FOUND
+            : ErrorCodes.INVALID_REQUEST,
+          message,
+        ),
+      );
+    }
+  },
 };
 
 /**
@@ -376,22 +844,52 @@ export function getTerminalSessionsCount(): number {
   return terminalSessions.size;
 }
 
+/**
+ * Detaches a closed connection from every terminal it was viewing.
+ * Called from the websocket close handler; the PTYs keep running so the
+ * tenant can reattach after a reconnect.
+ */
+export function detachTerminalConnection(connId: string): number {
+  let detached = 0;
+  for (const session of terminalSessions.values()) {
+    if (detachViewer(session, connId)) {
+      detached++;
+    }
+  }
+  return detached;
+}
+
 /**
  * Close all terminal sessions for a tenant.
  * Called when tenant is disabled or deleted.
  */
 export function closeAllTenantTerminals(tenantId: string): number {
   let closed = 0;
-  for (const [terminalId, session] of terminalSessions) {
+  for (const session of terminalSessions.values()) {
     if (session.tenantId === tenantId) {
-      try {
-        session.pty.kill();
-      } catch {
-        // ignore
-      }
-      terminalSessions.delete(terminalId);
+      killSession(session);
       closed++;
     }
   }
   return closed;
 }
+
+/**
+ * Runs the idle/detached sweep immediately (tests).
+ */
+export function sweepTerminalSessionsForTest(now?: number): void {
+  sweepTerminalSessions(now);
+}
+
+/**
+ * Kills every session and stops the cleanup interval (tests).
+ */
+export function resetTerminalSessionsForTest(): void {
+  for (const session of terminalSessions.values()) {
+    killSession(session);
+  }
+  if (cleanupInterval) {
+    clearInterval(cleanupInterval);
+    cleanupInterval = null;
+  }
+}
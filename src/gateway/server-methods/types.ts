@@ -31,6 +31,10 @@ export type GatewayClient = {
   tenantId?: string;
   /** Full tenant context with resolved paths. Populated from tenantId. */
   tenantContext?: TenantContext;
+  /** Tenant API key ID when a named key authenticated. */
+  tenantKeyId?: string;
+  /** Scopes granted to the tenant credential (see TenantKeyScope). */
+  tenantScopes?: string[];
 };
 
 export type RespondFn = (
@@ -0,0 +1,72 @@
+/**
+ * Gateway side of scheduled tenant backups.
+ * OPENCLAWMU ADDITION: checks backup schedules every minute and reports failures.
+ */
+
+import type { OpenClawConfig } from "../config/config.js";
+import { loadConfig } from "../config/config.js";
+import { resolveMainSessionKey } from "../config/sessions.js";
+import { enqueueSystemEvent } from "../infra/system-events.js";
+import {
+  runDueTenantBackups,
+  type ScheduledTenantBackupOutcome,
+} from "../tenants/backup-schedule.js";
+
+/** How often tenant backup schedules are checked. */
+export const TENANT_BACKUP_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Queues a system event on the gateway's main session so operators see failed backups.
+ */
+export function notifyTenantBackupFailure(
+  cfg: OpenClawConfig,
+  outcome: Extract<ScheduledTenantBackupOutcome, { ok: false }>,
+): void {
+  const streak =
+    outcome.consecutiveFailures > 1 ? ` (${outcome.consecutiveFailures} in a row)` : "";
+  enqueueSystemEvent(
+    `Scheduled backup of tenant ${outcome.tenantId} failed${streak}: ${outcome.error}`,
+    {
+      sessionKey: resolveMainSessionKey(cfg),
+      contextKey: `tenant-backup:${outcome.tenantId}`,
+    },
+  );
+}
+
+/**
+ * Runs due tenant backups on an interval. Checks never overlap; a slow backup
+ * delays the next check instead of starting a second run.
+ */
+export function startTenantBackupScheduler(params: {
+  intervalMs?: number;
+  getConfig?: () => OpenClawConfig;
+  log: { info: (msg: string) => void; warn: (msg: string) => void };
+}): ReturnType<typeof setInterval> {
+  const getConfig = params.getConfig ?? loadConfig;
+  let running = false;
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const cfg = getConfig();
+      for (const outcome of await runDueTenantBackups({ cfg })) {
+        if (outcome.ok) {
+          const pruned = outcome.pruned.length > 0 ? `, pruned ${outcome.pruned.length}` : "";
+          params.log.info(`backed up tenant ${outcome.tenantId}: ${outcome.backup.key}${pruned}`);
+          continue;
+        }
+        params.log.warn(`scheduled backup failed for ${outcome.tenantId}: ${outcome.error}`);
+        notifyTenantBackupFailure(cfg, outcome);
+      }
+    } catch (err) {
+      params.log.warn(`tenant backup scheduler failed: ${String(err)}`);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(() => void run(), params.intervalMs ?? TENANT_BACKUP_CHECK_INTERVAL_MS);
+  timer.unref?.();
+  return timer;
+}
@@ -0,0 +1,74 @@
+/**
+ * Gateway side of tenant sandbox disk quotas.
+ * OPENCLAWMU ADDITION: checks workspace usage against `maxSandboxDiskMB` on an interval.
+ */
+
+import type { OpenClawConfig } from "../config/config.js";
+import { loadConfig } from "../config/config.js";
+import {
+  checkTenantWorkspaceQuotas,
+  DEFAULT_DISK_QUOTA_CHECK_INTERVAL_SECONDS,
+  type TenantWorkspaceQuotaStatus,
+} from "../tenants/workspace-quota.js";
+
+/**
+ * Checks tenant workspace quotas on an interval and logs changes (backend picked,
+ * quota exceeded, sandboxes frozen or thawed). Checks never overlap.
+ */
+export function startTenantWorkspaceQuotaMonitor(params: {
+  intervalMs?: number;
+  getConfig?: () => OpenClawConfig;
+  log: { info: (msg: string) => void; warn: (msg: string) => void };
+}): ReturnType<typeof setInterval> {
+  const getConfig = params.getConfig ?? loadConfig;
+  const seconds =
+    getConfig().gateway?.sandbox?.diskQuota?.checkIntervalSeconds ??
+    DEFAULT_DISK_QUOTA_CHECK_INTERVAL_SECONDS;
+  const last = new Map<string, TenantWorkspaceQuotaStatus>();
+  let running = false;
+
+  const report = (status: TenantWorkspaceQuotaStatus) => {
+    const previous = last.get(status.tenantId);
+    last.set(status.tenantId, status);
+    if (previous?.backend !== status.backend || previous.backendError !== status.backendError) {
+      const reason = status.backendError ? ` (${status.backendError})` : "";
+      const log = status.backendError ? params.log.warn : params.log.info;
+      log(`tenant ${status.tenantId} workspace quota: ${status.backend}${reason}`);
+    }
+    if (status.frozen !== (previous?.frozen ?? false)) {
+      params.log.info(
+        `tenant ${status.tenantId} sandboxes ${status.frozen ? "frozen (over disk quota)" : "thawed"}`,
+      );
+    } else if (status.exceeded && !previous?.exceeded) {
+      params.log.warn(`tenant ${status.tenantId} is over its sandbox disk quota`);
+    }
+  };
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const statuses = await checkTenantWorkspaceQuotas({ cfg: getConfig() });
+      const seen = new Set<string>();
+      for (const status of statuses) {
+        seen.add(status.tenantId);
+        report(status);
+      }
+      for (const tenantId of last.keys()) {
+        if (!seen.has(tenantId)) {
+          last.delete(tenantId);
+        }
+      }
+    } catch (err) {
+      params.log.warn(`tenant disk quota check failed: ${String(err)}`);
+    } finally {
+      running = false;
+    }
+  };
+  void run();
+  const timer = setInterval(() => void run(), params.intervalMs ?? seconds * 1000);
+  timer.unref?.();
+  return timer;
+}
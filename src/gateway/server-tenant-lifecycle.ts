@@ -0,0 +1,156 @@
+/**
+ * Gateway side of tenant lifecycle transitions.
+ * OPENCLAWMU ADDITION: stop a tenant's runtime on suspend, restart it on reactivation and
+ * run the scheduled purge.
+ */
+
+import type { ChannelId } from "../channels/plugins/index.js";
+import type { MultiTenantCronManager } from "../cron/multi-tenant-manager.js";
+import type { GatewayBroadcastToConnIdsFn } from "./server-broadcast.js";
+import type { ChannelRuntimeSnapshot } from "./server-channels.js";
+import type { GatewayWsClient } from "./server/ws-types.js";
+import { listChannelPlugins } from "../channels/plugins/index.js";
+import { loadConfig } from "../config/config.js";
+import { loadTenantConfigOverlay } from "../config/tenant-config.js";
+import { stopTenantEgressProxy } from "../tenants/egress.js";
+import { purgeExpiredTenants, type TenantLifecycleEvent } from "../tenants/lifecycle.js";
+import { closeAllTenantTerminals } from "./server-methods/terminal.js";
+
+export const TENANT_LIFECYCLE_EVENT = "tenants.lifecycle";
+
+/** How often pending-deletion tenants are checked for purge. */
+export const TENANT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Lists the channel accounts a tenant's config overlay defines. Accounts the base config
+ * also lists belong to the gateway and are left out.
+ */
+function listTenantChannelAccounts(tenantId: string): Array<[ChannelId, string]> {
+  const overlay = loadTenantConfigOverlay(tenantId);
+  if (!overlay.channels) {
+    return [];
+  }
+  const base = loadConfig();
+  const accounts: Array<[ChannelId, string]> = [];
+  for (const plugin of listChannelPlugins()) {
+    const shared = new Set(plugin.config.listAccountIds(base));
+    for (const accountId of plugin.config.listAccountIds(overlay)) {
+      if (!shared.has(accountId)) {
+        accounts.push([plugin.id, accountId]);
+      }
+    }
+  }
+  return accounts;
+}
+
+/**
+ * Stops the running channel accounts a tenant's config overlay defines.
+ */
+export async function stopTenantChannelAccounts(params: {
+  tenantId: string;
+  stopChannel: (channel: ChannelId, accountId?: string) => Promise<void>;
+  getRuntimeSnapshot: () => ChannelRuntimeSnapshot;
+}): Promise<void> {
+  const running = params.getRuntimeSnapshot().channelAccounts;
+  for (const [channel, accountId] of listTenantChannelAccounts(params.tenantId)) {
+    if (running[channel]?.[accountId]?.running) {
+      await params.stopChannel(channel, accountId);
+    }
+  }
+}
+
+/**
+ * Starts the channel accounts a tenant's config overlay defines that are not running
+ * (after reactivation; disabled or unconfigured accounts stay stopped).
+ */
+export async function startTenantChannelAccounts(params: {
+  tenantId: string;
+  startChannel: (channel: ChannelId, accountId?: string) => Promise<void>;
+  getRuntimeSnapshot: () => ChannelRuntimeSnapshot;
+}): Promise<void> {
+  const running = params.getRuntimeSnapshot().channelAccounts;
+  for (const [channel, accountId] of listTenantChannelAccounts(params.tenantId)) {
+    if (!running[channel]?.[accountId]?.running) {
+      await params.startChannel(channel, accountId);
+    }
+  }
+}
+
+/**
+ * Leaving `active` (for any state) stops the tenant's cron scheduler, channel accounts,
+ * terminals and egress proxy and closes its connections (read-only tenants reconnect with
+ * read scope only); returning to `active` restarts its cron scheduler and channel
+ * accounts. Operators (non-tenant connections) receive every lifecycle event.
+ */
+export function createTenantLifecycleEventHandler(params: {
+  clients: Set<GatewayWsClient>;
+  broadcastToConnIds: GatewayBroadcastToConnIdsFn;
+  /** Current cron manager (replaced on config reload). */
+  getCronManager?: () => MultiTenantCronManager | undefined;
+  stopTenantChannels?: (tenantId: string) => Promise<void>;
+  startTenantChannels?: (tenantId: string) => Promise<void>;
+  closeTenantTerminals?: (tenantId: string) => number;
+  onError?: (err: unknown) => void;
+}) {
+  const closeTenantTerminals = params.closeTenantTerminals ?? closeAllTenantTerminals;
+  return (evt: TenantLifecycleEvent) => {
+    const operators = new Set<string>();
+    for (const client of params.clients) {
+      if (!client.tenantId) {
+        operators.add(client.connId);
+      }
+    }
+    if (operators.size > 0) {
+      params.broadcastToConnIds(TENANT_LIFECYCLE_EVENT, evt, operators);
+    }
+
+    if (evt.type === "transition" && evt.to === "active") {
+      params
+        .getCronManager?.()
+        ?.ensureTenantService(evt.tenantId)
+        .catch((err: unknown) => params.onError?.(err));
+      params.startTenantChannels?.(evt.tenantId).catch((err: unknown) => params.onError?.(err));
+      return;
+    }
+    params.getCronManager?.()?.removeTenantService(evt.tenantId);
+    params.stopTenantChannels?.(evt.tenantId).catch((err: unknown) => params.onError?.(err));
+    closeTenantTerminals(evt.tenantId);
+    stopTenantEgressProxy(evt.tenantId).catch((err: unknown) => params.onError?.(err));
+    const reason = evt.type === "purged" ? "tenant deleted" : `tenant ${evt.to}`;
+    for (const client of params.clients) {
+      if (client.tenantId === evt.tenantId) {
+        try {
+          client.socket.close(1008, reason);
+        } catch (err) {
+          params.onError?.(err);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Periodically purges pending-deletion tenants whose grace window has passed.
+ */
+export function startTenantPurgeTimer(params: {
+  intervalMs?: number;
+  log: { info: (msg: string) => void; warn: (msg: string) => void };
+}): ReturnType<typeof setInterval> {
+  const run = async () => {
+    try {
+      const { purged, failed } = await purgeExpiredTenants();
+      if (purged.length > 0) {
+        params.log.info(`purged tenants: ${purged.join(", ")}`);
+      }
+      for (const failure of failed) {
+        params.log.warn(`tenant purge failed for ${failure.tenantId}: ${failure.error}`);
+      }
+    } catch (err) {
+      params.log.warn(`tenant purge failed: ${String(err)}`);
+    }
+  };
+  void run();
+  const timer = setInterval(() => void run(), params.intervalMs ?? TENANT_PURGE_INTERVAL_MS);
+  timer.unref?.();
+  return timer;
+}
@@ -0,0 +1,102 @@
+/**
+ * Gateway surfaces for the tenant quota gate.
+ * OPENCLAWMU ADDITION: quota errors for RPC/HTTP callers and soft-limit notifications.
+ */
+
+import type { ServerResponse } from "node:http";
+import type { GatewayBroadcastToConnIdsFn } from "./server-broadcast.js";
+import type { GatewayWsClient } from "./server/ws-types.js";
+import { type TenantQuotaError, type TenantQuotaEvent } from "../tenants/quota-gate.js";
+import { isDeliverableMessageChannel, normalizeMessageChannel } from "../utils/message-channel.js";
+import { sendJson } from "./http-common.js";
+import { ErrorCodes, errorShape } from "./protocol/index.js";
+
+export const TENANT_QUOTA_SOFT_LIMIT_EVENT = "tenants.quota.soft_limit";
+
+function resolveRetryAfterMs(err: TenantQuotaError, now = Date.now()): number | undefined {
+  return err.quotaResetAt !== undefined ? Math.max(0, err.quotaResetAt - now) : undefined;
+}
+
+/**
+ * Gateway RPC error for a blocked tenant run.
+ */
+export function tenantQuotaErrorShape(err: TenantQuotaError) {
+  const retryAfterMs = resolveRetryAfterMs(err);
+  const code = err.code === "tenant_inactive" ? ErrorCodes.UNAUTHORIZED : ErrorCodes.QUOTA_EXCEEDED;
+  return errorShape(code, err.message, {
+    details: err.toDetails(),
+    retryable: retryAfterMs !== undefined,
+    retryAfterMs,
+  });
+}
+
+/**
+ * Sends an OpenAI-style 429 (403 for inactive tenants) for a blocked tenant run.
+ */
+export function sendTenantQuotaHttpError(res: ServerResponse, err: TenantQuotaError) {
+  const retryAfterMs = resolveRetryAfterMs(err);
+  if (retryAfterMs !== undefined) {
+    res.setHeader("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+  }
+  const inactive = err.code === "tenant_inactive";
+  sendJson(res, inactive ? 403 : 429, {
+    error: {
+      message: err.message,
+      type: inactive
+        ? "permission_error"
+        : err.code === "rate_limited"
+          ? "rate_limit_error"
+          : "insufficient_quota",
+      code: err.code,
+      quotaResetAt: err.quotaResetAt,
+    },
+  });
+}
+
+/**
+ * Sends the soft-limit message to the tenant's configured channel.
+ */
+async function notifyTenantChannel(evt: TenantQuotaEvent): Promise<void> {
+  const notify = evt.notify;
+  const channel = normalizeMessageChannel(notify?.channel);
+  if (!notify?.to || !channel || !isDeliverableMessageChannel(channel)) {
+    return;
+  }
+  const { loadConfigForTenant } = await import("../config/tenant-config.js");
+  const { deliverOutboundPayloads } = await import("../infra/outbound/deliver.js");
+  await deliverOutboundPayloads({
+    cfg: loadConfigForTenant(evt.tenantId),
+    channel,
+    to: notify.to,
+    accountId: notify.accountId,
+    payloads: [{ text: `⚠️ ${evt.message}` }],
+    bestEffort: true,
+  });
+}
+
+/**
+ * Fans quota events out to the tenant's connections (and non-tenant operators),
+ * then sends the optional channel notification.
+ */
+export function createTenantQuotaEventHandler(params: {
+  clients: Set<GatewayWsClient>;
+  broadcastToConnIds: GatewayBroadcastToConnIdsFn;
+  notify?: (evt: TenantQuotaEvent) => Promise<void>;
+  onError?: (err: unknown) => void;
+}) {
+  const notify = params.notify ?? notifyTenantChannel;
+  return (evt: TenantQuotaEvent) => {
+    const connIds = new Set<string>();
+    for (const client of params.clients) {
+      if (!client.tenantId || client.tenantId === evt.tenantId) {
+        connIds.add(client.connId);
+      }
+    }
+    if (connIds.size > 0) {
+      params.broadcastToConnIds(TENANT_QUOTA_SOFT_LIMIT_EVENT, evt, connIds);
+    }
+    if (evt.notify) {
+      void notify(evt).catch((err) => params.onError?.(err));
+    }
+  };
+}
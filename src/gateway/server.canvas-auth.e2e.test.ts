@@ -174,7 +174,7 @@ describe("gateway canvas host auth", () => {
           });
 
           const tenantId = `tenant-${randomUUID().replace(/-/g, "").slice(0, 12)}`;
-          const { token: tenantToken } = createTenant(tenantId);
+          const { token: tenantToken } = await createTenant(tenantId);
           const tenantTokenCanvas = await fetch(
             `http://127.0.0.1:${listener.port}${CANVAS_HOST_PATH}/`,
             {
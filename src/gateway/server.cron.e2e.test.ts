@@ -292,6 +292,32 @@ describe("gateway server cron", () => {
       expect(disableUpdateRes.ok).toBe(true);
       const disabled = disableUpdateRes.payload as { enabled?: unknown } | undefined;
       expect(disabled?.enabled).toBe(false);
+
+      const calendarDir = path.join(path.dirname(testState.cronStorePath), "calendars");
+      await fs.mkdir(calendarDir, { recursive: true });
+      await fs.writeFile(path.join(calendarDir, "holidays.txt"), "2026-01-30 # closing day\n");
+      const previewRes = await rpcReq(ws, "cron.preview", {
+        schedule: {
+          kind: "cron",
+          expr: "0 17 * * *",
+          tz: "UTC",
+          calendar: { businessDay: -1, exclude: ["holidays"] },
+        },
+        fromMs: Date.parse("2026-01-01T00:00:00Z"),
+        count: 2,
+      });
+      expect(previewRes.ok).toBe(true);
+      expect((previewRes.payload as { runs?: number[] } | undefined)?.runs).toEqual([
+        Date.parse("2026-01-29T17:00:00Z"),
+        Date.parse("2026-02-27T17:00:00Z"),
+      ]);
+      const unknownCalendarRes = await rpcReq(ws, "cron.add", {
+        name: "unknown calendar",
+        schedule: { kind: "cron", expr: "0 9 * * *", calendar: { exclude: ["missing"] } },
+        sessionTarget: "main",
+        payload: { kind: "systemEvent", text: "hello" },
+      });
+      expect(unknownCalendarRes.ok).toBe(false);
     } finally {
       ws.close();
       await server.close();
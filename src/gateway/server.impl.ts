@@ -46,6 +46,8 @@ import { startDiagnosticHeartbeat, stopDiagnosticHeartbeat } from "../logging/di
 import { createSubsystemLogger, runtimeForLogger } from "../logging/subsystem.js";
 import { getGlobalHookRunner, runGlobalGatewayStopSafely } from "../plugins/hook-runner-global.js";
 import { getTotalQueueSize } from "../process/command-queue.js";
+import { onTenantLifecycleEvent } from "../tenants/lifecycle.js";
+import { onTenantQuotaEvent } from "../tenants/quota-gate.js";
 import { runOnboardingWizard } from "../wizard/onboarding.js";
 import { createAuthRateLimiter, type AuthRateLimiter } from "./auth-rate-limit.js";
 import { startGatewayConfigReloader } from "./config-reload.js";
@@ -73,6 +75,15 @@ import { resolveSessionKeyForRun } from "./server-session-key.js";
 import { logGatewayStartup } from "./server-startup-log.js";
 import { startGatewaySidecars } from "./server-startup.js";
 import { startGatewayTailscaleExposure } from "./server-tailscale.js";
+import { startTenantBackupScheduler } from "./server-tenant-backups.js";
+import { startTenantWorkspaceQuotaMonitor } from "./server-tenant-disk-quota.js";
+import {
+  createTenantLifecycleEventHandler,
+  startTenantChannelAccounts,
+  stopTenantChannelAccounts,
+  startTenantPurgeTimer,
+} from "./server-tenant-lifecycle.js";
+import { createTenantQuotaEventHandler } from "./server-tenant-quota.js";
 import { createWizardSessionTracker } from "./server-wizard-sessions.js";
 import { attachGatewayWsHandlers } from "./server-ws-runtime.js";
 import {
@@ -96,6 +107,8 @@ const logChannels = log.child("channels");
 const logBrowser = log.child("browser");
 const logHealth = log.child("health");
 const logCron = log.child("cron");
+const logBackup = log.child("backup");
+const logSandbox = log.child("sandbox");
 const logReload = log.child("reload");
 const logHooks = log.child("hooks");
 const logPlugins = log.child("plugins");
@@ -377,6 +390,8 @@ export async function startGatewayServer(
     rateLimiter: authRateLimiter,
     gatewayTls,
     hooksConfig: () => hooksConfig,
+    // OPENCLAWMU ADDITION: webhook-triggered cron jobs
+    getCronManager: () => cronManager,
     pluginRegistry,
     deps,
     canvasRuntime,
@@ -510,6 +525,50 @@ export async function startGatewayServer(
         broadcast("heartbeat", evt, { dropIfSlow: true });
       });
 
+  // OPENCLAWMU: Tenant soft-limit events (gateway event + optional channel message)
+  const tenantQuotaUnsub = minimalTestGateway
+    ? null
+    : onTenantQuotaEvent(
+        createTenantQuotaEventHandler({
+          clients,
+          broadcastToConnIds,
+          onError: (err) => log.warn(`tenant quota notification failed: ${String(err)}`),
+        }),
+      );
+
+  // OPENCLAWMU: Tenant lifecycle (stop cron/channels/terminals/connections on suspend, scheduled purge)
+  const tenantLifecycleUnsub = minimalTestGateway
+    ? null
+    : onTenantLifecycleEvent(
+        createTenantLifecycleEventHandler({
+          clients,
+          broadcastToConnIds,
+          getCronManager: () => cronManager,
+          stopTenantChannels: (tenantId) =>
+            stopTenantChannelAccounts({ tenantId, stopChannel, getRuntimeSnapshot }),
+          startTenantChannels: (tenantId) =>
+            startTenantChannelAccounts({ tenantId, startChannel, getRuntimeSnapshot }),
+          onError: (err) => log.warn(`tenant lifecycle handler failed: ${String(err)}`),
+        }),
+      );
+  const tenantPurgeInterval = minimalTestGateway
+    ? null
+    : startTenantPurgeTimer({
+        log: { info: (msg) => log.info(msg), warn: (msg) => log.warn(msg) },
+      });
+  // OPENCLAWMU: Scheduled tenant backups (failures become system events)
+  const tenantBackupInterval = minimalTestGateway
+    ? null
+    : startTenantBackupScheduler({
+        log: { info: (msg) => logBackup.info(msg), warn: (msg) => logBackup.warn(msg) },
+      });
+  // OPENCLAWMU: Tenant sandbox disk quotas (freezes sandboxes over quota)
+  const tenantDiskQuotaInterval = minimalTestGateway
+    ? null
+    : startTenantWorkspaceQuotaMonitor({
+        log: { info: (msg) => logSandbox.info(msg), warn: (msg) => logSandbox.warn(msg) },
+      });
+
   let heartbeatRunner: HeartbeatRunner = minimalTestGateway
     ? {
         stop: () => {},
@@ -712,6 +771,11 @@ export async function startGatewayServer(
     dedupeCleanup,
     agentUnsub,
     heartbeatUnsub,
+    tenantQuotaUnsub,
+    tenantLifecycleUnsub,
+    tenantPurgeInterval,
+    tenantBackupInterval,
+    tenantDiskQuotaInterval,
     chatRunState,
     clients,
     configReloader,
@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
 import type { CliDeps } from "../../cli/deps.js";
+import type { MultiTenantCronManager } from "../../cron/multi-tenant-manager.js";
 import type { CronJob } from "../../cron/types.js";
 import type { createSubsystemLogger } from "../../logging/subsystem.js";
 import type { HookMessageChannel, HooksConfigResolved } from "../hooks.js";
@@ -8,18 +9,22 @@ import { resolveMainSessionKeyFromConfig } from "../../config/sessions.js";
 import { runCronIsolatedAgentTurn } from "../../cron/isolated-agent.js";
 import { requestHeartbeatNow } from "../../infra/heartbeat-wake.js";
 import { enqueueSystemEvent } from "../../infra/system-events.js";
-import { createHooksRequestHandler } from "../server-http.js";
+import { getTenant } from "../../tenants/registry.js";
+import { resolveTenantLifecycleState } from "../../tenants/types.js";
+import { type HookMappingContext, renderHookTemplate } from "../hooks-mapping.js";
+import { type CronWebhookTarget, createHooksRequestHandler } from "../server-http.js";
 
 type SubsystemLogger = ReturnType<typeof createSubsystemLogger>;
 
 export function createGatewayHooksRequestHandler(params: {
   deps: CliDeps;
   getHooksConfig: () => HooksConfigResolved | null;
+  getCronManager?: () => MultiTenantCronManager;
   bindHost: string;
   port: number;
   logHooks: SubsystemLogger;
 }) {
-  const { deps, getHooksConfig, bindHost, port, logHooks } = params;
+  const { deps, getHooksConfig, getCronManager, bindHost, port, logHooks } = params;
 
   const dispatchWakeHook = (value: { text: string; mode: "now" | "next-heartbeat" }) => {
     const sessionKey = resolveMainSessionKeyFromConfig();
@@ -106,6 +111,58 @@ export function createGatewayHooksRequestHandler(params: {
     return runId;
   };
 
+  // OPENCLAWMU ADDITION: webhook-triggered cron jobs, global or of an active tenant
+  const isActiveTenant = (tenantId: string) => {
+    const tenant = getTenant(tenantId);
+    return Boolean(tenant && resolveTenantLifecycleState(tenant) === "active");
+  };
+
+  const resolveCronService = async (target: CronWebhookTarget) => {
+    const manager = getCronManager?.();
+    if (!manager) {
+      return undefined;
+    }
+    if (!target.tenantId) {
+      return manager.getGlobalService();
+    }
+    if (!isActiveTenant(target.tenantId)) {
+      return undefined;
+    }
+    return await manager.ensureTenantService(target.tenantId);
+  };
+
+  // Unauthenticated requests must not start a tenant's scheduler: check the stored job
+  const authorizeCronWebhook = async (target: CronWebhookTarget, token: string) => {
+    const manager = getCronManager?.();
+    if (!manager) {
+      return false;
+    }
+    if (!target.tenantId) {
+      return await manager.getGlobalService().checkWebhookToken(target.jobId, token);
+    }
+    if (!isActiveTenant(target.tenantId)) {
+      return false;
+    }
+    return await manager.checkTenantWebhookToken(target.tenantId, target.jobId, token);
+  };
+
+  const dispatchCronWebhook = async (target: CronWebhookTarget, ctx: HookMappingContext) => {
+    const service = await resolveCronService(target);
+    if (!service) {
+      return { ok: false, reason: "not-found" } as const;
+    }
+    const result = await service.fire(target.jobId, {
+      source: "webhook",
+      renderMessage: (template) => renderCronWebhookMessage(template, ctx),
+    });
+    logHooks.info(
+      `cron webhook ${target.tenantId ? `${target.tenantId}/` : ""}${target.jobId}: ${
+        result.ok ? "queued" : result.reason
+      }`,
+    );
+    return result;
+  };
+
   return createHooksRequestHandler({
     getHooksConfig,
     bindHost,
@@ -113,5 +170,18 @@ export function createGatewayHooksRequestHandler(params: {
     logHooks,
     dispatchAgentHook,
     dispatchWakeHook,
+    authorizeCronWebhook,
+    dispatchCronWebhook,
   });
 }
+
+/**
+ * Renders a webhook job's message template against the request. Templates without
+ * placeholders get the request body appended instead.
+ */
+export function renderCronWebhookMessage(template: string, ctx: HookMappingContext): string {
+  if (/\{\{[^}]+\}\}/.test(template)) {
+    return renderHookTemplate(template, ctx);
+  }
+  return `${template}\n\nWebhook payload:\n${JSON.stringify(ctx.payload, null, 2)}`;
+}
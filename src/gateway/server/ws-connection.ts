@@ -12,6 +12,7 @@ import { truncateUtf16Safe } from "../../utils.js";
 import { isWebchatClient } from "../../utils/message-channel.js";
 import { isLoopbackAddress } from "../net.js";
 import { getHandshakeTimeoutMs } from "../server-constants.js";
+import { detachTerminalConnection } from "../server-methods/terminal.js";
 import { formatError } from "../server-utils.js";
 import { logWs } from "../ws-log.js";
 import { getHealthVersion, getPresenceVersion, incrementPresenceVersion } from "./health-state.js";
@@ -240,6 +241,10 @@ export function attachGatewayWsConnectionHandler(params: {
           },
         );
       }
+      if (client) {
+        // OPENCLAWMU ADDITION: terminals outlive the socket; mark them detached for reattach.
+        detachTerminalConnection(connId);
+      }
       if (client?.connect?.role === "node") {
         const context = buildRequestContext();
         const nodeId = context.nodeRegistry.unregister(connId);
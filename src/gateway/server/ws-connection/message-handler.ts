@@ -389,8 +389,19 @@ export function attachGatewayWsMessageHandler(params: {
             return;
           }
 
-          const tenantScopes = scopes.filter((scope) => TENANT_ALLOWED_SCOPES.has(scope));
-          scopes = tenantScopes.length > 0 ? tenantScopes : [...TENANT_DEFAULT_SCOPES];
+          // Scoped API keys narrow the operator scopes further; the primary token keeps both.
+          const credentialScopes = authResult.tenantScopes ?? [...TENANT_DEFAULT_SCOPES];
+          const grantedScopes = TENANT_DEFAULT_SCOPES.filter(
+            (scope) =>
+              credentialScopes.includes(scope) ||
+              (scope === "operator.read" && credentialScopes.includes("operator.write")) ||
+              credentialScopes.includes("operator.admin"),
+          );
+          const tenantScopes = scopes.filter(
+            (scope) =>
+              TENANT_ALLOWED_SCOPES.has(scope) && (grantedScopes as string[]).includes(scope),
+          );
+          scopes = tenantScopes.length > 0 ? tenantScopes : [...grantedScopes];
           connectParams.scopes = scopes;
         }
 
@@ -908,6 +919,8 @@ export function attachGatewayWsMessageHandler(params: {
           clientIp: reportedClientIp,
           tenantId: authResult.tenantId,
           tenantContext,
+          tenantKeyId: authResult.tenantKeyId,
+          tenantScopes: authResult.tenantId ? authResult.tenantScopes : undefined,
         };
         setClient(nextClient);
         setHandshakeState("connected");
@@ -12,4 +12,8 @@ export type GatewayWsClient = {
   tenantId?: string;
   /** Full tenant context with resolved paths. */
   tenantContext?: TenantContext;
+  /** Tenant API key ID when a named key authenticated. */
+  tenantKeyId?: string;
+  /** Scopes granted to the tenant credential (primary token carries all of them). */
+  tenantScopes?: string[];
 };
@@ -35,7 +35,8 @@ import {
 import { getBearerToken, getHeader } from "./http-utils.js";
 
 const DEFAULT_BODY_BYTES = 2 * 1024 * 1024;
-const MEMORY_TOOL_NAMES = new Set(["memory_search", "memory_get"]);
+// OPENCLAWMU ADDITION: memory_write
+const MEMORY_TOOL_NAMES = new Set(["memory_search", "memory_get", "memory_write"]);
 
 type ToolsInvokeBody = {
   tool?: unknown;
@@ -393,6 +393,8 @@ export async function monitorIMessageProvider(opts: MonitorIMessageOpts = {}): P
         kind: isGroup ? "group" : "direct",
         id: isGroup ? String(chatId ?? "unknown") : normalizeIMessageHandle(sender),
       },
+      // OPENCLAWMU ADDITION: text/language binding conditions
+      text: message.text,
     });
     const mentionRegexes = buildMentionRegexes(cfg, route.agentId);
     const messageText = (message.text ?? "").trim();
@@ -138,6 +138,10 @@ export type TenantResourceSummary = {
   isBlocked: boolean;
   /** Last activity timestamp (Unix ms). */
   lastActiveAt?: number;
+  /** Last successful scheduled backup timestamp (Unix ms). */
+  lastBackupAt?: number;
+  /** Whether the last scheduled backup failed. */
+  backupFailing?: boolean;
 };
 
 // ============================================================================
@@ -66,6 +66,7 @@ function resolveLineInboundRoute(params: {
   source: EventSource;
   cfg: OpenClawConfig;
   account: ResolvedLineAccount;
+  text?: string;
 }): {
   userId?: string;
   groupId?: string;
@@ -90,6 +91,8 @@ function resolveLineInboundRoute(params: {
       kind: isGroup ? "group" : "direct",
       id: peerId,
     },
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: params.text,
   });
 
   return { userId, groupId, roomId, isGroup, peerId, route };
@@ -335,13 +338,14 @@ export async function buildLineMessageContext(params: BuildLineMessageContextPar
   const { event, allMedia, cfg, account } = params;
 
   const source = event.source;
+  const message = event.message;
   const { userId, groupId, roomId, isGroup, peerId, route } = resolveLineInboundRoute({
     source,
     cfg,
     account,
+    text: extractMessageText(message),
   });
 
-  const message = event.message;
   const messageId = message.id;
   const timestamp = event.timestamp;
 
@@ -412,14 +416,15 @@ export async function buildLinePostbackContext(params: {
   const { event, cfg, account } = params;
 
   const source = event.source;
+  const rawData = event.postback?.data?.trim() ?? "";
   const { userId, groupId, roomId, isGroup, peerId, route } = resolveLineInboundRoute({
     source,
     cfg,
     account,
+    text: rawData,
   });
 
   const timestamp = event.timestamp;
-  const rawData = event.postback?.data?.trim() ?? "";
   if (!rawData) {
     return null;
   }
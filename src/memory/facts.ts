@@ -0,0 +1,262 @@
+/**
+ * Structured memory facts written by agents and operators.
+ * OPENCLAWMU ADDITION: memory write API.
+ *
+ * A fact is one markdown file, `memory/facts/{id}.md` in the agent workspace, with its
+ * tags, provenance, confidence and expiry in frontmatter. Because it lives under
+ * `memory/`, the regular indexer chunks and embeds it like any other memory file, and
+ * `memory_search` finds it through the same hybrid vector + FTS ranking. Expired facts
+ * are deleted at the start of each sync, which drops them from the index.
+ */
+
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+
+export const MEMORY_FACTS_DIR = "memory/facts";
+
+const FACT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{2,63}$/;
+const MAX_FACT_CHARS = 4000;
+const MAX_TAG_CHARS = 64;
+const MAX_TAGS = 16;
+
+export type MemoryFact = {
+  id: string;
+  /** Workspace-relative path, as reported in search results. */
+  path: string;
+  text: string;
+  tags: string[];
+  createdAt: number;
+  expiresAt?: number;
+  /** Session key of the conversation the fact was learned in. */
+  source?: string;
+  /** 0..1; how sure the writer was. */
+  confidence?: number;
+};
+
+export type RememberMemoryFactOptions = {
+  tags?: string[];
+  ttlMs?: number;
+  source?: string;
+  confidence?: number;
+  now?: number;
+};
+
+export function isValidMemoryFactId(id: string): boolean {
+  return FACT_ID_PATTERN.test(id);
+}
+
+/** The fact id of a workspace-relative path, or null when it is not a fact file. */
+export function memoryFactIdFromPath(relPath: string): string | null {
+  const normalized = relPath.replace(/\\/g, "/");
+  if (path.posix.dirname(normalized) !== MEMORY_FACTS_DIR || !normalized.endsWith(".md")) {
+    return null;
+  }
+  const id = path.posix.basename(normalized, ".md");
+  return isValidMemoryFactId(id) ? id : null;
+}
+
+function resolveFactPath(workspaceDir: string, id: string): string {
+  if (!isValidMemoryFactId(id)) {
+    throw new Error(`invalid memory fact id: ${id}`);
+  }
+  return path.join(workspaceDir, MEMORY_FACTS_DIR, `${id}.md`);
+}
+
+function normalizeTags(raw: string[] | undefined): string[] {
+  const tags = new Set<string>();
+  for (const entry of raw ?? []) {
+    const tag = entry.trim().replace(/^#/, "").toLowerCase();
+    if (!tag) {
+      continue;
+    }
+    if (tag.length > MAX_TAG_CHARS || /\s/.test(tag)) {
+      throw new Error(`invalid memory fact tag: ${entry}`);
+    }
+    tags.add(tag);
+  }
+  if (tags.size > MAX_TAGS) {
+    throw new Error(`too many memory fact tags (max ${MAX_TAGS})`);
+  }
+  return [...tags];
+}
+
+function formatFact(fact: MemoryFact): string {
+  // JSON strings are valid YAML scalars, so values never need escaping rules of their own
+  const lines = [
+    "---",
+    `id: ${fact.id}`,
+    `tags: [${fact.tags.map((tag) => JSON.stringify(tag)).join(", ")}]`,
+    `createdAt: ${new Date(fact.createdAt).toISOString()}`,
+  ];
+  if (fact.expiresAt !== undefined) {
+    lines.push(`expiresAt: ${new Date(fact.expiresAt).toISOString()}`);
+  }
+  if (fact.source) {
+    lines.push(`source: ${JSON.stringify(fact.source)}`);
+  }
+  if (fact.confidence !== undefined) {
+    lines.push(`confidence: ${fact.confidence}`);
+  }
+  lines.push("---", fact.text, "");
+  return lines.join("\n");
+}
+
+function parseTimestamp(raw: unknown): number | undefined {
+  const value =
+    raw instanceof Date ? raw.getTime() : typeof raw === "string" ? Date.parse(raw) : NaN;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function parseFact(id: string, content: string): MemoryFact | null {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(content);
+  if (!match) {
+    return null;
+  }
+  let meta: Record<string, unknown>;
+  try {
+    meta = (YAML.parse(match[1] ?? "") as Record<string, unknown> | null) ?? {};
+  } catch {
+    return null;
+  }
+  const createdAt = parseTimestamp(meta.createdAt);
+  if (createdAt === undefined) {
+    return null;
+  }
+  return {
+    id,
+    path: `${MEMORY_FACTS_DIR}/${id}.md`,
+    text: (match[2] ?? "").trim(),
+    tags: Array.isArray(meta.tags) ? meta.tags.map(String) : [],
+    createdAt,
+    expiresAt: parseTimestamp(meta.expiresAt),
+    source: typeof meta.source === "string" ? meta.source : undefined,
+    confidence: typeof meta.confidence === "number" ? meta.confidence : undefined,
+  };
+}
+
+/**
+ * Validates and writes a new fact. Does not touch the index; callers sync afterwards.
+ */
+export async function writeMemoryFact(
+  workspaceDir: string,
+  text: string,
+  options: RememberMemoryFactOptions = {},
+): Promise<MemoryFact> {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error("fact text required");
+  }
+  if (trimmed.length > MAX_FACT_CHARS) {
+    throw new Error(`fact too long (max ${MAX_FACT_CHARS} chars)`);
+  }
+  const { ttlMs, confidence } = options;
+  if (ttlMs !== undefined && (!Number.isFinite(ttlMs) || ttlMs <= 0)) {
+    throw new Error("ttl must be positive");
+  }
+  if (confidence !== undefined && !(confidence >= 0 && confidence <= 1)) {
+    throw new Error("confidence must be between 0 and 1");
+  }
+  const now = options.now ?? Date.now();
+  const fact: MemoryFact = {
+    id: `${now.toString(36)}-${randomBytes(4).toString("hex")}`,
+    path: "",
+    text: trimmed,
+    tags: normalizeTags(options.tags),
+    createdAt: now,
+    expiresAt: ttlMs !== undefined ? now + ttlMs : undefined,
+    source: options.source?.trim() || undefined,
+    confidence,
+  };
+  fact.path = `${MEMORY_FACTS_DIR}/${fact.id}.md`;
+  const file = resolveFactPath(workspaceDir, fact.id);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, formatFact(fact), { encoding: "utf-8", flag: "wx" });
+  return fact;
+}
+
+export async function readMemoryFact(workspaceDir: string, id: string): Promise<MemoryFact | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(resolveFactPath(workspaceDir, id), "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+  return parseFact(id, content);
+}
+
+/**
+ * Lists the facts of a workspace, newest first. Expired facts that have not been
+ * pruned yet are left out unless `includeExpired` is set.
+ */
+export async function listMemoryFacts(
+  workspaceDir: string,
+  options: { tag?: string; includeExpired?: boolean; now?: number } = {},
+): Promise<MemoryFact[]> {
+  let names: string[] = [];
+  try {
+    names = await fs.readdir(path.join(workspaceDir, MEMORY_FACTS_DIR));
+  } catch {
+    return [];
+  }
+  const now = options.now ?? Date.now();
+  const tag = options.tag?.trim().replace(/^#/, "").toLowerCase();
+  const facts: MemoryFact[] = [];
+  for (const name of names) {
+    const id = memoryFactIdFromPath(`${MEMORY_FACTS_DIR}/${name}`);
+    const fact = id ? await readMemoryFact(workspaceDir, id) : null;
+    if (!fact) {
+      continue;
+    }
+    if (!options.includeExpired && fact.expiresAt !== undefined && fact.expiresAt <= now) {
+      continue;
+    }
+    if (tag && !fact.tags.includes(tag)) {
+      continue;
+    }
+    facts.push(fact);
+  }
+  return facts.toSorted((a, b) => b.createdAt - a.createdAt || a.id.localeCompare(b.id));
+}
+
+/** Deletes a fact file; false when it did not exist. */
+export async function deleteMemoryFact(workspaceDir: string, id: string): Promise<boolean> {
+  try {
+    await fs.unlink(resolveFactPath(workspaceDir, id));
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return false;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Deletes expired facts. Returns the removed ids and the next expiry among the
+ * remaining facts, if any.
+ */
+export async function pruneExpiredMemoryFacts(
+  workspaceDir: string,
+  now = Date.now(),
+): Promise<{ removed: string[]; nextExpiresAt?: number }> {
+  const removed: string[] = [];
+  let nextExpiresAt: number | undefined;
+  for (const fact of await listMemoryFacts(workspaceDir, { includeExpired: true, now })) {
+    if (fact.expiresAt === undefined) {
+      continue;
+    }
+    if (fact.expiresAt <= now) {
+      if (await deleteMemoryFact(workspaceDir, fact.id)) {
+        removed.push(fact.id);
+      }
+    } else if (nextExpiresAt === undefined || fact.expiresAt < nextExpiresAt) {
+      nextExpiresAt = fact.expiresAt;
+    }
+  }
+  return { removed, nextExpiresAt };
+}
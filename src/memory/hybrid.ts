@@ -44,6 +44,8 @@ export function mergeHybridResults(params: {
   vectorWeight: number;
   textWeight: number;
 }): Array<{
+  /** OPENCLAWMU ADDITION: chunk id, for rerankers that look up the chunk. */
+  id: string;
   path: string;
   startLine: number;
   endLine: number;
@@ -102,6 +104,7 @@ export function mergeHybridResults(params: {
   const merged = Array.from(byId.values()).map((entry) => {
     const score = params.vectorWeight * entry.vectorScore + params.textWeight * entry.textScore;
     return {
+      id: entry.id,
       path: entry.path,
       startLine: entry.startLine,
       endLine: entry.endLine,
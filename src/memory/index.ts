@@ -4,4 +4,7 @@ export type {
   MemorySearchManager,
   MemorySearchResult,
 } from "./types.js";
+export type { MemoryFact } from "./facts.js";
+export type { MemoryIndexFingerprint, MemoryIndexProblem } from "./inspect.js";
+export type { MemorySearchExplanation } from "./inspect-explain.js";
 export { getMemorySearchManager, type MemorySearchManagerResult } from "./search-manager.js";
@@ -0,0 +1,95 @@
+/**
+ * Per-stage search scores for `openclaw memory inspect --query`.
+ * OPENCLAWMU ADDITION: split from inspect.ts; the manager runs each stage and this lines
+ * the results up by chunk.
+ */
+
+import type { MemorySource } from "./types.js";
+
+/** One chunk's score at each search stage; stages that did not see the chunk are unset. */
+export type MemorySearchStageScores = {
+  id: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  source: MemorySource;
+  snippet: string;
+  vectorScore?: number;
+  textScore?: number;
+  mergedScore?: number;
+  /** Dropped by `minScore` before reranking. */
+  belowMinScore?: boolean;
+  finalScore?: number;
+  /** 1-based position in the returned results. */
+  rank?: number;
+};
+
+export type MemorySearchExplanation = {
+  query: string;
+  model: string;
+  hybrid: { enabled: boolean; vectorWeight: number; textWeight: number };
+  minScore: number;
+  maxResults: number;
+  candidates: number;
+  /** A stage that failed; `search()` treats it as returning nothing. */
+  errors: Partial<Record<"vector" | "keyword", string>>;
+  chunks: MemorySearchStageScores[];
+};
+
+type StageEntry = {
+  id: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  source: string;
+  snippet: string;
+  score: number;
+};
+
+/** Lines up the results of each search stage by chunk. */
+export function explainSearchStages(params: {
+  vector: StageEntry[];
+  keyword: StageEntry[];
+  merged: StageEntry[];
+  minScore: number;
+  final: StageEntry[];
+}): MemorySearchStageScores[] {
+  const byId = new Map<string, MemorySearchStageScores>();
+  const entryFor = (entry: StageEntry) => {
+    let row = byId.get(entry.id);
+    if (!row) {
+      row = {
+        id: entry.id,
+        path: entry.path,
+        startLine: entry.startLine,
+        endLine: entry.endLine,
+        source: entry.source as MemorySource,
+        snippet: entry.snippet,
+      };
+      byId.set(entry.id, row);
+    }
+    return row;
+  };
+  for (const entry of params.vector) {
+    entryFor(entry).vectorScore = entry.score;
+  }
+  for (const entry of params.keyword) {
+    entryFor(entry).textScore = entry.score;
+  }
+  for (const entry of params.merged) {
+    const row = entryFor(entry);
+    row.mergedScore = entry.score;
+    if (entry.score < params.minScore) {
+      row.belowMinScore = true;
+    }
+  }
+  for (const [index, entry] of params.final.entries()) {
+    const row = entryFor(entry);
+    row.finalScore = entry.score;
+    row.rank = index + 1;
+  }
+  const ranked = (row: MemorySearchStageScores) => row.rank ?? Number.POSITIVE_INFINITY;
+  return [...byId.values()].toSorted(
+    (a, b) => ranked(a) - ranked(b) || (b.mergedScore ?? 0) - (a.mergedScore ?? 0),
+  );
+}
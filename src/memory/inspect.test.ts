@@ -0,0 +1,162 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  getEmbedBatchMock,
+  getEmbedQueryMock,
+  resetEmbeddingMocks,
+} from "./embedding.test-mocks.js";
+import { getMemorySearchManager, type MemoryIndexManager } from "./index.js";
+import { explainSearchStages } from "./inspect-explain.js";
+import { requireNodeSqlite } from "./sqlite.js";
+
+const embedText = (text: string) => {
+  const lower = text.toLowerCase();
+  return [lower.split("alpha").length - 1, lower.split("beta").length - 1, 0.01];
+};
+
+describe("memory index inspection", () => {
+  let workspaceDir: string;
+  let manager: MemoryIndexManager | null = null;
+
+  const open = async () => {
+    const cfg = {
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "mock-embed",
+            store: { path: path.join(workspaceDir, "index.sqlite"), vector: { enabled: false } },
+            sync: { watch: false, onSessionStart: false, onSearch: false },
+            query: { minScore: 0.1, hybrid: { enabled: true } },
+            cache: { enabled: false },
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    } as OpenClawConfig;
+    const result = await getMemorySearchManager({ cfg, agentId: "main" });
+    manager = result.manager as MemoryIndexManager;
+    await manager.sync({ force: true });
+    return manager;
+  };
+
+  beforeEach(async () => {
+    resetEmbeddingMocks();
+    getEmbedBatchMock().mockImplementation(async (texts: string[]) => texts.map(embedText));
+    getEmbedQueryMock().mockImplementation(async (text: string) => embedText(text));
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-mem-inspect-"));
+    await fs.mkdir(path.join(workspaceDir, "memory"));
+    await fs.writeFile(path.join(workspaceDir, "MEMORY.md"), "Project alpha ships in March.");
+    await fs.writeFile(path.join(workspaceDir, "memory", "beta.md"), "Beta testers meet Fridays.");
+  });
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = null;
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("lists indexed files and chunks with their embedding model", async () => {
+    const memory = await open();
+    expect(memory.inspectFingerprint()).toMatchObject({
+      indexed: { provider: "mock", model: "mock-embed" },
+      current: { provider: "mock", model: "mock-embed" },
+    });
+    expect(memory.inspectFiles().map((file) => [file.path, file.chunks, file.models])).toEqual([
+      ["MEMORY.md", 1, ["mock-embed"]],
+      ["memory/beta.md", 1, ["mock-embed"]],
+    ]);
+    expect(memory.inspectFiles({ source: "sessions" })).toEqual([]);
+    const [chunk] = memory.inspectChunks("memory/beta.md");
+    expect(chunk).toMatchObject({
+      path: "memory/beta.md",
+      startLine: 1,
+      model: "mock-embed",
+      dims: 3,
+      inFts: true,
+      text: "Beta testers meet Fridays.",
+    });
+  });
+
+  it("reports each search stage's score per chunk", async () => {
+    const memory = await open();
+    const explanation = await memory.explainSearch("alpha");
+    expect(explanation.errors).toEqual({});
+    const [top, other] = explanation.chunks;
+    expect(top).toMatchObject({ path: "MEMORY.md", rank: 1 });
+    expect(top?.vectorScore).toBeGreaterThan(0.9);
+    expect(top?.textScore).toBeGreaterThan(0);
+    expect(top?.finalScore).toBe(top?.mergedScore);
+    expect(other).toMatchObject({ path: "memory/beta.md", belowMinScore: true });
+    expect(other?.textScore).toBeUndefined();
+    expect(other?.rank).toBeUndefined();
+
+    const results = await memory.search("alpha");
+    expect(results.map((entry) => entry.path)).toEqual(["MEMORY.md"]);
+  });
+
+  it("finds stale rows, vacuums them and rebuilds a source", async () => {
+    const memory = await open();
+    await fs.rm(path.join(workspaceDir, "memory", "beta.md"));
+    await fs.writeFile(path.join(workspaceDir, "MEMORY.md"), "Project alpha slipped to May.");
+    await fs.writeFile(path.join(workspaceDir, "memory", "gamma.md"), "Gamma is new.");
+    const { DatabaseSync } = requireNodeSqlite();
+    const db = new DatabaseSync(path.join(workspaceDir, "index.sqlite"));
+    db.prepare(
+      `INSERT INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at)\n` +
+        ` VALUES ('orphan', 'memory/old.md', 'memory', 1, 1, 'h', 'old-embed', 'old', '[]', 0)`,
+    ).run();
+    db.close();
+
+    const problems = await memory.findIndexProblems();
+    expect(
+      problems.map((problem) => [problem.kind, "path" in problem ? problem.path : ""]),
+    ).toEqual([
+      ["changed-file", "MEMORY.md"],
+      ["missing-file", "memory/beta.md"],
+      ["unindexed-file", "memory/gamma.md"],
+      ["orphaned-chunk", "memory/old.md"],
+    ]);
+
+    const vacuumed = await memory.vacuum();
+    expect(vacuumed.removed).toMatchObject({ "missing-file": 1, "orphaned-chunk": 1 });
+    expect(vacuumed.bytesAfter).toBeGreaterThan(0);
+    expect((await memory.findIndexProblems()).map((problem) => problem.kind)).toEqual([
+      "changed-file",
+      "unindexed-file",
+    ]);
+
+    expect(await memory.rebuildSource("memory")).toEqual({ cleared: 1, indexed: 2 });
+    expect(await memory.findIndexProblems()).toEqual([]);
+    expect(memory.inspectChunks("MEMORY.md")[0]?.text).toBe("Project alpha slipped to May.");
+    await expect(memory.rebuildSource("sessions")).rejects.toThrow("memory source not enabled");
+  });
+
+  it("orders stage rows by final rank, then merged score", () => {
+    const entry = (id: string, score: number) => ({
+      id,
+      path: `${id}.md`,
+      startLine: 1,
+      endLine: 1,
+      source: "memory",
+      snippet: id,
+      score,
+    });
+    const rows = explainSearchStages({
+      vector: [entry("a", 0.9), entry("b", 0.2)],
+      keyword: [entry("c", 0.8)],
+      merged: [entry("a", 0.63), entry("c", 0.24), entry("b", 0.14)],
+      minScore: 0.2,
+      final: [entry("c", 0.7), entry("a", 0.5)],
+    });
+    expect(rows.map((row) => [row.id, row.rank, row.belowMinScore])).toEqual([
+      ["c", 1, undefined],
+      ["a", 2, undefined],
+      ["b", undefined, true],
+    ]);
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * Memory index inspection and maintenance.
+ * OPENCLAWMU ADDITION: backs `openclaw memory inspect`.
+ *
+ * `status()` only reports totals. These helpers read the index tables directly so an
+ * operator can see which files are indexed with which embedding model, what a file's
+ * chunks look like and which rows no longer match the workspace (per-stage query
+ * scores are in inspect-explain.ts). The manager supplies the database and the current state of
+ * the sources; nothing here embeds text or touches the workspace.
+ */
+
+import type { DatabaseSync } from "node:sqlite";
+import type { MemorySource } from "./types.js";
+import { parseEmbedding } from "./internal.js";
+import { deleteStaleIndexedPaths } from "./sync-stale.js";
+
+export type MemoryIndexTables = {
+  db: DatabaseSync;
+  vectorTable: string;
+  ftsTable: string;
+  ftsEnabled: boolean;
+  ftsAvailable: boolean;
+};
+
+/** What the index was built with, from its meta row. */
+export type MemoryIndexFingerprint = {
+  provider: string;
+  model: string;
+  providerKey?: string;
+  chunkTokens: number;
+  chunkOverlap: number;
+  vectorDims?: number;
+};
+
+export type MemoryIndexedFile = {
+  path: string;
+  source: MemorySource;
+  hash: string;
+  mtime: number;
+  size: number;
+  chunks: number;
+  /** Embedding models of the file's chunks; more than one means a partial reindex. */
+  models: string[];
+};
+
+export type MemoryIndexedChunk = {
+  id: string;
+  path: string;
+  source: MemorySource;
+  startLine: number;
+  endLine: number;
+  hash: string;
+  model: string;
+  updatedAt: number;
+  text: string;
+  dims: number;
+  inFts: boolean;
+  /** Unknown when the vector extension is not loaded. */
+  inVector?: boolean;
+};
+
+export type MemoryIndexProblem =
+  | { kind: "missing-file"; source: MemorySource; path: string; chunks: number }
+  | { kind: "changed-file"; source: MemorySource; path: string }
+  | { kind: "unindexed-file"; source: MemorySource; path: string }
+  | { kind: "orphaned-chunk"; source: MemorySource; path: string; id: string }
+  | { kind: "stale-model"; source: MemorySource; path: string; id: string; model: string }
+  | { kind: "orphaned-fts-row"; id: string }
+  | { kind: "orphaned-vector-row"; id: string };
+
+export type MemoryIndexVacuumResult = {
+  removed: Record<MemoryIndexProblem["kind"], number>;
+  bytesBefore: number;
+  bytesAfter: number;
+};
+
+function sourceFilter(source?: MemorySource, column = "source") {
+  return source ? { sql: ` AND ${column} = ?`, params: [source] } : { sql: "", params: [] };
+}
+
+function tryAll<T>(run: () => T[]): T[] | null {
+  try {
+    return run();
+  } catch {
+    return null;
+  }
+}
+
+export function listIndexedFiles(
+  db: DatabaseSync,
+  options: { source?: MemorySource } = {},
+): MemoryIndexedFile[] {
+  const filter = sourceFilter(options.source, "f.source");
+  const rows = db
+    .prepare(
+      `SELECT f.path, f.source, f.hash, f.mtime, f.size,\n` +
+        `       COUNT(c.id) AS chunks, GROUP_CONCAT(DISTINCT c.model) AS models\n` +
+        `  FROM files f\n` +
+        `  LEFT JOIN chunks c ON c.path = f.path AND c.source = f.source\n` +
+        ` WHERE 1=1${filter.sql}\n` +
+        ` GROUP BY f.path, f.source\n` +
+        ` ORDER BY f.source, f.path`,
+    )
+    .all(...filter.params) as Array<{
+    path: string;
+    source: MemorySource;
+    hash: string;
+    mtime: number;
+    size: number;
+    chunks: number;
+    models: string | null;
+  }>;
+  return rows.map((row) => ({
+    path: row.path,
+    source: row.source,
+    hash: row.hash,
+    mtime: row.mtime,
+    size: row.size,
+    chunks: row.chunks,
+    models: row.models ? row.models.split(",").toSorted() : [],
+  }));
+}
+
+export function listIndexedChunks(
+  tables: MemoryIndexTables,
+  relPath: string,
+  options: { source?: MemorySource } = {},
+): MemoryIndexedChunk[] {
+  const filter = sourceFilter(options.source);
+  const rows = tables.db
+    .prepare(
+      `SELECT id, path, source, start_line, end_line, hash, model, updated_at, text, embedding\n` +
+        `  FROM chunks WHERE path = ?${filter.sql}\n` +
+        ` ORDER BY source, start_line`,
+    )
+    .all(relPath, ...filter.params) as Array<{
+    id: string;
+    path: string;
+    source: MemorySource;
+    start_line: number;
+    end_line: number;
+    hash: string;
+    model: string;
+    updated_at: number;
+    text: string;
+    embedding: string;
+  }>;
+  const ftsIds =
+    tables.ftsEnabled && tables.ftsAvailable
+      ? tryAll(
+          () =>
+            tables.db
+              .prepare(`SELECT id FROM ${tables.ftsTable} WHERE path = ?`)
+              .all(relPath) as Array<{ id: string }>,
+        )
+      : null;
+  const vectorIds = tryAll(
+    () =>
+      tables.db
+        .prepare(
+          `SELECT id FROM ${tables.vectorTable} WHERE id IN (SELECT id FROM chunks WHERE path = ?)`,
+        )
+        .all(relPath) as Array<{ id: string }>,
+  );
+  const inFts = new Set((ftsIds ?? []).map((row) => row.id));
+  const inVector = vectorIds ? new Set(vectorIds.map((row) => row.id)) : null;
+  return rows.map((row) => ({
+    id: row.id,
+    path: row.path,
+    source: row.source,
+    startLine: row.start_line,
+    endLine: row.end_line,
+    hash: row.hash,
+    model: row.model,
+    updatedAt: row.updated_at,
+    text: row.text,
+    dims: parseEmbedding(row.embedding).length,
+    inFts: inFts.has(row.id),
+    inVector: inVector ? inVector.has(row.id) : undefined,
+  }));
+}
+
+/**
+ * Compares the index with the sources on disk. `current` maps each source that was
+ * scanned to its files' content hashes; sources missing from it are not checked for
+ * missing, changed or unindexed files.
+ */
+export function findIndexProblems(
+  tables: MemoryIndexTables,
+  params: {
+    model: string;
+    current: Partial<Record<MemorySource, Map<string, string>>>;
+    source?: MemorySource;
+  },
+): MemoryIndexProblem[] {
+  const { db } = tables;
+  const problems: MemoryIndexProblem[] = [];
+  for (const file of listIndexedFiles(db, { source: params.source })) {
+    const onDisk = params.current[file.source];
+    if (!onDisk) {
+      continue;
+    }
+    const hash = onDisk.get(file.path);
+    if (hash === undefined) {
+      problems.push({
+        kind: "missing-file",
+        source: file.source,
+        path: file.path,
+        chunks: file.chunks,
+      });
+    } else if (hash !== file.hash) {
+      problems.push({ kind: "changed-file", source: file.source, path: file.path });
+    }
+  }
+  for (const [source, onDisk] of Object.entries(params.current) as Array<
+    [MemorySource, Map<string, string>]
+  >) {
+    if (params.source && source !== params.source) {
+      continue;
+    }
+    const indexed = new Set(
+      (
+        db.prepare(`SELECT path FROM files WHERE source = ?`).all(source) as Array<{
+          path: string;
+        }>
+      ).map((row) => row.path),
+    );
+    for (const relPath of onDisk.keys()) {
+      if (!indexed.has(relPath)) {
+        problems.push({ kind: "unindexed-file", source, path: relPath });
+      }
+    }
+  }
+
+  const filter = sourceFilter(params.source, "c.source");
+  const orphaned = db
+    .prepare(
+      `SELECT c.id, c.path, c.source FROM chunks c\n` +
+        ` WHERE NOT EXISTS (SELECT 1 FROM files f WHERE f.path = c.path AND f.source = c.source)` +
+        `${filter.sql}\n` +
+        ` ORDER BY c.source, c.path, c.start_line`,
+    )
+    .all(...filter.params) as Array<{ id: string; path: string; source: MemorySource }>;
+  for (const row of orphaned) {
+    problems.push({ kind: "orphaned-chunk", source: row.source, path: row.path, id: row.id });
+  }
+  const staleModel = db
+    .prepare(
+      `SELECT c.id, c.path, c.source, c.model FROM chunks c\n` +
+        ` WHERE c.model != ?\n` +
+        `   AND EXISTS (SELECT 1 FROM files f WHERE f.path = c.path AND f.source = c.source)` +
+        `${filter.sql}\n` +
+        ` ORDER BY c.source, c.path, c.start_line`,
+    )
+    .all(params.model, ...filter.params) as Array<{
+    id: string;
+    path: string;
+    source: MemorySource;
+    model: string;
+  }>;
+  const missing = new Set(
+    problems.flatMap((problem) =>
+      problem.kind === "missing-file" ? [`${problem.source}:${problem.path}`] : [],
+    ),
+  );
+  for (const row of staleModel) {
+    // Removing the missing file already removes its chunks
+    if (missing.has(`${row.source}:${row.path}`)) {
+      continue;
+    }
+    problems.push({
+      kind: "stale-model",
+      source: row.source,
+      path: row.path,
+      id: row.id,
+      model: row.model,
+    });
+  }
+
+  // The vector table has no source column, so orphaned search rows are only looked
+  // for when checking the whole index
+  if (!params.source) {
+    if (tables.ftsEnabled && tables.ftsAvailable) {
+      const rows = tryAll(
+        () =>
+          db
+            .prepare(
+              `SELECT id FROM ${tables.ftsTable} WHERE id NOT IN (SELECT id FROM chunks) ORDER BY id`,
+            )
+            .all() as Array<{ id: string }>,
+      );
+      for (const row of rows ?? []) {
+        problems.push({ kind: "orphaned-fts-row", id: row.id });
+      }
+    }
+    const rows = tryAll(
+      () =>
+        db
+          .prepare(
+            `SELECT id FROM ${tables.vectorTable} WHERE id NOT IN (SELECT id FROM chunks) ORDER BY id`,
+          )
+          .all() as Array<{ id: string }>,
+    );
+    for (const row of rows ?? []) {
+      problems.push({ kind: "orphaned-vector-row", id: row.id });
+    }
+  }
+  return problems;
+}
+
+function deleteChunkRows(tables: MemoryIndexTables, ids: string[]) {
+  for (const id of ids) {
+    try {
+      tables.db.prepare(`DELETE FROM ${tables.vectorTable} WHERE id = ?`).run(id);
+    } catch {}
+    tables.db.prepare(`DELETE FROM chunks WHERE id = ?`).run(id);
+    if (tables.ftsEnabled && tables.ftsAvailable) {
+      try {
+        tables.db.prepare(`DELETE FROM ${tables.ftsTable} WHERE id = ?`).run(id);
+      } catch {}
+    }
+  }
+}
+
+/**
+ * Deletes the rows behind the given problems. Changed and unindexed files are left for
+ * the next sync, which re-embeds them.
+ */
+export function removeIndexProblems(
+  tables: MemoryIndexTables,
+  params: { model: string; problems: MemoryIndexProblem[] },
+): Record<MemoryIndexProblem["kind"], number> {
+  const removed: Record<MemoryIndexProblem["kind"], number> = {
+    "missing-file": 0,
+    "changed-file": 0,
+    "unindexed-file": 0,
+    "orphaned-chunk": 0,
+    "stale-model": 0,
+    "orphaned-fts-row": 0,
+    "orphaned-vector-row": 0,
+  };
+  const missing = new Map<MemorySource, Set<string>>();
+  for (const problem of params.problems) {
+    if (problem.kind === "missing-file") {
+      const paths = missing.get(problem.source) ?? new Set<string>();
+      paths.add(problem.path);
+      missing.set(problem.source, paths);
+    }
+  }
+  for (const [source, paths] of missing) {
+    const keep = new Set(
+      (
+        tables.db.prepare(`SELECT path FROM files WHERE source = ?`).all(source) as Array<{
+          path: string;
+        }>
+      )
+        .map((row) => row.path)
+        .filter((relPath) => !paths.has(relPath)),
+    );
+    deleteStaleIndexedPaths({
+      db: tables.db,
+      source,
+      activePaths: keep,
+      vectorTable: tables.vectorTable,
+      ftsTable: tables.ftsTable,
+      ftsEnabled: tables.ftsEnabled,
+      ftsAvailable: tables.ftsAvailable,
+      model: params.model,
+    });
+    removed["missing-file"] += paths.size;
+  }
+  for (const problem of params.problems) {
+    if (problem.kind === "orphaned-chunk" || problem.kind === "stale-model") {
+      deleteChunkRows(tables, [problem.id]);
+      removed[problem.kind] += 1;
+    } else if (problem.kind === "orphaned-fts-row") {
+      try {
+        tables.db.prepare(`DELETE FROM ${tables.ftsTable} WHERE id = ?`).run(problem.id);
+        removed[problem.kind] += 1;
+      } catch {}
+    } else if (problem.kind === "orphaned-vector-row") {
+      try {
+        tables.db.prepare(`DELETE FROM ${tables.vectorTable} WHERE id = ?`).run(problem.id);
+        removed[problem.kind] += 1;
+      } catch {}
+    }
+  }
+  return removed;
+}
+
+/** Drops every file and chunk of a source so the next sync indexes it from scratch. */
+export function clearIndexedSource(
+  tables: MemoryIndexTables,
+  params: { source: MemorySource; model: string },
+): number {
+  const files = listIndexedFiles(tables.db, { source: params.source }).length;
+  deleteStaleIndexedPaths({
+    db: tables.db,
+    source: params.source,
+    activePaths: new Set(),
+    vectorTable: tables.vectorTable,
+    ftsTable: tables.ftsTable,
+    ftsEnabled: tables.ftsEnabled,
+    ftsAvailable: tables.ftsAvailable,
+    model: params.model,
+  });
+  // Chunks of files that lost their row, and FTS rows of other models, go too
+  const ids = (
+    tables.db.prepare(`SELECT id FROM chunks WHERE source = ?`).all(params.source) as Array<{
+      id: string;
+    }>
+  ).map((row) => row.id);
+  deleteChunkRows(tables, ids);
+  if (tables.ftsEnabled && tables.ftsAvailable) {
+    try {
+      tables.db.prepare(`DELETE FROM ${tables.ftsTable} WHERE source = ?`).run(params.source);
+    } catch {}
+  }
+  return files;
+}
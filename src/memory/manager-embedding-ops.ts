@@ -4,6 +4,7 @@ import fs from "node:fs/promises";
 import type { SessionFileEntry } from "./session-files.js";
 import type { MemorySource } from "./types.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { updateEmbeddingUsage } from "../tenants/usage.js";
 import { runGeminiEmbeddingBatches, type GeminiBatchRequest } from "./batch-gemini.js";
 import {
   OPENAI_BATCH_ENDPOINT,
@@ -35,6 +36,8 @@ const EMBEDDING_QUERY_TIMEOUT_REMOTE_MS = 60_000;
 const EMBEDDING_QUERY_TIMEOUT_LOCAL_MS = 5 * 60_000;
 const EMBEDDING_BATCH_TIMEOUT_REMOTE_MS = 2 * 60_000;
 const EMBEDDING_BATCH_TIMEOUT_LOCAL_MS = 10 * 60_000;
+// Providers do not report embedding usage; tenants are charged an estimate
+const EMBEDDING_CHARS_PER_TOKEN = 4;
 
 const vectorToBlob = (embedding: number[]): Buffer =>
   Buffer.from(new Float32Array(embedding).buffer);
@@ -403,6 +406,7 @@ class MemoryManagerEmbeddingOps {
       return batchResult;
     }
     this.applyBatchEmbeddings({ byCustomId: batchResult, mapping, embeddings });
+    this.chargeTenantEmbeddingTokens(missing.map((item) => item.chunk.text));
     return embeddings;
   }
 
@@ -450,6 +454,7 @@ class MemoryManagerEmbeddingOps {
       return batchResult;
     }
     this.applyBatchEmbeddings({ byCustomId: batchResult, mapping, embeddings });
+    this.chargeTenantEmbeddingTokens(missing.map((item) => item.chunk.text));
     return embeddings;
   }
 
@@ -494,6 +499,7 @@ class MemoryManagerEmbeddingOps {
       return batchResult;
     }
     this.applyBatchEmbeddings({ byCustomId: batchResult, mapping, embeddings });
+    this.chargeTenantEmbeddingTokens(missing.map((item) => item.chunk.text));
     return embeddings;
   }
 
@@ -511,11 +517,13 @@ class MemoryManagerEmbeddingOps {
           items: texts.length,
           timeoutMs,
         });
-        return await this.withTimeout(
+        const embeddings = await this.withTimeout(
           this.provider.embedBatch(texts),
           timeoutMs,
           `memory embeddings batch timed out after ${Math.round(timeoutMs / 1000)}s`,
         );
+        this.chargeTenantEmbeddingTokens(texts);
+        return embeddings;
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         if (!this.isRetryableEmbeddingError(message) || attempt >= EMBEDDING_RETRY_MAX_ATTEMPTS) {
@@ -550,11 +558,37 @@ class MemoryManagerEmbeddingOps {
   private async embedQueryWithTimeout(text: string): Promise<number[]> {
     const timeoutMs = this.resolveEmbeddingTimeout("query");
     log.debug("memory embeddings: query start", { provider: this.provider.id, timeoutMs });
-    return await this.withTimeout(
+    const embedding = await this.withTimeout(
       this.provider.embedQuery(text),
       timeoutMs,
       `memory embeddings query timed out after ${Math.round(timeoutMs / 1000)}s`,
     );
+    this.chargeTenantEmbeddingTokens([text]);
+    return embedding;
+  }
+
+  // OPENCLAWMU ADDITION: remote embedding calls count toward the tenant's token usage.
+  // Writes are chained so concurrent batches do not overwrite each other's totals.
+  private chargeTenantEmbeddingTokens(texts: string[]): void {
+    const tenantId = this.tenantId;
+    if (!tenantId || this.provider.id === "local" || texts.length === 0) {
+      return;
+    }
+    this.tenantEmbeddingTokens += texts.reduce(
+      (sum, text) => sum + Math.ceil(text.length / EMBEDDING_CHARS_PER_TOKEN),
+      0,
+    );
+    this.tenantUsageWrite = this.tenantUsageWrite
+      .then(async () => {
+        const tokens = this.tenantEmbeddingTokens;
+        this.tenantEmbeddingTokens = 0;
+        if (tokens > 0) {
+          await updateEmbeddingUsage(tenantId, tokens);
+        }
+      })
+      .catch((err) => {
+        log.warn(`memory embeddings: failed to record tenant usage: ${String(err)}`);
+      });
   }
 
   private async withTimeout<T>(
@@ -703,6 +737,11 @@ class MemoryManagerEmbeddingOps {
     if (options.source === "sessions" && "lineMap" in entry) {
       remapChunkLines(chunks, entry.lineMap);
     }
+    // OPENCLAWMU ADDITION: tenant memory quota (see admitTenantMemoryChunks)
+    const reservation = await this.admitTenantMemoryChunks(entry, options.source, chunks);
+    if (!reservation) {
+      return;
+    }
     const embeddings = this.batch.enabled
       ? await this.embedChunksWithBatch(chunks, entry, options.source)
       : await this.embedChunksInBatches(chunks);
@@ -792,6 +831,7 @@ class MemoryManagerEmbeddingOps {
            size=excluded.size`,
       )
       .run(entry.path, options.source, entry.hash, entry.mtimeMs, entry.size);
+    this.releaseTenantMemoryChunks(reservation);
   }
 }
 
@@ -0,0 +1,95 @@
+// @ts-nocheck
+// oxlint-disable eslint/no-unused-vars, typescript/no-explicit-any
+import {
+  deleteMemoryFact,
+  listMemoryFacts,
+  memoryFactIdFromPath,
+  readMemoryFact,
+  writeMemoryFact,
+  type MemoryFact,
+  type RememberMemoryFactOptions,
+} from "./facts.js";
+
+// OPENCLAWMU ADDITION: memory write API (facts.ts)
+
+class MemoryManagerFactOps {
+  [key: string]: any;
+  /** Stores a fact under memory/facts/ and indexes it before returning. */
+  async remember(text: string, options: RememberMemoryFactOptions = {}): Promise<MemoryFact> {
+    this.requireMemoryFacts();
+    const fact = await writeMemoryFact(this.workspaceDir, text, options);
+    if (
+      fact.expiresAt !== undefined &&
+      (this.memoryFactsExpireAt === undefined || fact.expiresAt < this.memoryFactsExpireAt)
+    ) {
+      this.memoryFactsExpireAt = fact.expiresAt;
+    }
+    await this.syncMemoryFacts();
+    return fact;
+  }
+
+  /**
+   * Deletes a fact by id, or the facts among the top search hits for a query that score
+   * at least `minScore`, and drops them from the index. Returns the deleted facts.
+   */
+  async forget(
+    target: { id: string } | { query: string; minScore: number; maxResults?: number },
+  ): Promise<MemoryFact[]> {
+    this.requireMemoryFacts();
+    let ids: string[];
+    if ("id" in target) {
+      if (!(await readMemoryFact(this.workspaceDir, target.id))) {
+        throw new Error(`unknown memory fact: ${target.id}`);
+      }
+      ids = [target.id];
+    } else {
+      // A vague query would otherwise delete whatever facts happen to rank highest
+      const { minScore } = target;
+      if (typeof minScore !== "number" || !(minScore > 0 && minScore <= 1)) {
+        throw new Error("minScore between 0 and 1 required to forget by query");
+      }
+      const results = await this.search(target.query, {
+        maxResults: target.maxResults,
+        minScore,
+      });
+      ids = [
+        ...new Set(
+          results
+            .map((entry) => memoryFactIdFromPath(entry.path))
+            .filter((id): id is string => Boolean(id)),
+        ),
+      ];
+    }
+    const removed: MemoryFact[] = [];
+    for (const id of ids) {
+      const fact = await readMemoryFact(this.workspaceDir, id);
+      if (fact && (await deleteMemoryFact(this.workspaceDir, id))) {
+        removed.push(fact);
+      }
+    }
+    if (removed.length > 0) {
+      await this.syncMemoryFacts();
+    }
+    return removed;
+  }
+
+  async listFacts(options: { tag?: string } = {}): Promise<MemoryFact[]> {
+    this.requireMemoryFacts();
+    return await listMemoryFacts(this.workspaceDir, options);
+  }
+
+  private requireMemoryFacts(): void {
+    if (!this.sources.has("memory")) {
+      throw new Error("memory facts need the memory source enabled");
+    }
+  }
+
+  private async syncMemoryFacts(): Promise<void> {
+    // A sync already running may have listed the files before this change
+    await this.syncing?.catch(() => {});
+    this.dirty = true;
+    await this.sync({ reason: "facts" });
+  }
+}
+
+export const memoryManagerFactOps = MemoryManagerFactOps.prototype;
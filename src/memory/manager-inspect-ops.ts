@@ -0,0 +1,230 @@
+// @ts-nocheck
+// oxlint-disable eslint/no-unused-vars, typescript/no-explicit-any
+import type { MemorySearchResult, MemorySource, MemorySyncProgressUpdate } from "./types.js";
+import { explainSearchStages, type MemorySearchExplanation } from "./inspect-explain.js";
+import {
+  clearIndexedSource,
+  findIndexProblems,
+  listIndexedChunks,
+  listIndexedFiles,
+  removeIndexProblems,
+  type MemoryIndexedChunk,
+  type MemoryIndexedFile,
+  type MemoryIndexFingerprint,
+  type MemoryIndexProblem,
+  type MemoryIndexTables,
+  type MemoryIndexVacuumResult,
+} from "./inspect.js";
+import { buildFileEntry, listMemoryFiles } from "./internal.js";
+import {
+  buildSessionEntry,
+  listSessionFilesForAgent,
+  sessionPathForFile,
+} from "./session-files.js";
+
+// OPENCLAWMU ADDITION: index inspection and maintenance (inspect.ts)
+
+const VECTOR_TABLE = "chunks_vec";
+const FTS_TABLE = "chunks_fts";
+
+class MemoryManagerInspectOps {
+  [key: string]: any;
+  /** The embedding setup the index was built with, next to the one searches use now. */
+  inspectFingerprint(): {
+    indexed: MemoryIndexFingerprint | null;
+    current: MemoryIndexFingerprint;
+  } {
+    return {
+      indexed: this.readMeta(),
+      current: {
+        provider: this.provider.id,
+        model: this.provider.model,
+        providerKey: this.providerKey,
+        chunkTokens: this.settings.chunking.tokens,
+        chunkOverlap: this.settings.chunking.overlap,
+        vectorDims: this.vector.dims,
+      },
+    };
+  }
+
+  inspectFiles(options: { source?: MemorySource } = {}): MemoryIndexedFile[] {
+    return listIndexedFiles(this.db, options);
+  }
+
+  inspectChunks(relPath: string, options: { source?: MemorySource } = {}): MemoryIndexedChunk[] {
+    return listIndexedChunks(this.inspectTables(), relPath.trim().replace(/\\/g, "/"), options);
+  }
+
+  /**
+   * Runs a query through the same stages as `search()` and reports each chunk's score
+   * at every stage. Stage errors are returned instead of being swallowed.
+   */
+  async explainSearch(
+    query: string,
+    opts: { maxResults?: number; minScore?: number } = {},
+  ): Promise<MemorySearchExplanation> {
+    const cleaned = query.trim();
+    const minScore = opts.minScore ?? this.settings.query.minScore;
+    const maxResults = opts.maxResults ?? this.settings.query.maxResults;
+    const hybrid = this.settings.query.hybrid;
+    const candidates = Math.min(
+      200,
+      Math.max(1, Math.floor(maxResults * hybrid.candidateMultiplier)),
+    );
+    const errors: MemorySearchExplanation["errors"] = {};
+    const describe = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+    let keyword: Array<MemorySearchResult & { id: string; textScore: number }> = [];
+    if (hybrid.enabled && cleaned) {
+      keyword = await this.searchKeyword(cleaned, candidates).catch((err: unknown) => {
+        errors.keyword = describe(err);
+        return [];
+      });
+    }
+    let vector: Array<MemorySearchResult & { id: string }> = [];
+    if (cleaned) {
+      try {
+        const queryVec = (await this.embedQueryWithTimeout(cleaned)) as number[];
+        if (queryVec.some((v) => v !== 0)) {
+          vector = await this.searchVector(queryVec, candidates);
+        }
+      } catch (err) {
+        errors.vector = describe(err);
+      }
+    }
+    const merged = hybrid.enabled
+      ? this.mergeHybridResults({
+          vector,
+          keyword,
+          vectorWeight: hybrid.vectorWeight,
+          textWeight: hybrid.textWeight,
+        })
+      : vector;
+    const final = await this.rankCandidates(
+      cleaned,
+      merged.filter((entry) => entry.score >= minScore),
+      maxResults,
+    );
+    return {
+      query: cleaned,
+      model: this.provider.model,
+      hybrid: {
+        enabled: hybrid.enabled,
+        vectorWeight: hybrid.vectorWeight,
+        textWeight: hybrid.textWeight,
+      },
+      minScore,
+      maxResults,
+      candidates,
+      errors,
+      chunks: explainSearchStages({
+        vector,
+        keyword: keyword.map((entry) => ({ ...entry, score: entry.textScore })),
+        merged,
+        minScore,
+        final: final.flatMap((entry) => (entry.id ? [{ ...entry, id: entry.id }] : [])),
+      }),
+    };
+  }
+
+  /** Compares the index with the workspace and transcripts on disk. */
+  async findIndexProblems(options: { source?: MemorySource } = {}): Promise<MemoryIndexProblem[]> {
+    return findIndexProblems(this.inspectTables(), {
+      model: this.provider.model,
+      current: await this.scanIndexSources(options.source),
+      source: options.source,
+    });
+  }
+
+  /**
+   * Deletes index rows for files that are gone, chunks without a file, chunks embedded
+   * with another model and search rows without a chunk, then compacts the database.
+   */
+  async vacuum(
+    options: { source?: MemorySource } = {},
+  ): Promise<MemoryIndexVacuumResult & { problems: MemoryIndexProblem[] }> {
+    this.requireIndexSource(options.source);
+    await this.syncing?.catch(() => {});
+    const bytesBefore = this.readDatabaseBytes();
+    const problems = await this.findIndexProblems(options);
+    const removed = removeIndexProblems(this.inspectTables(), {
+      model: this.provider.model,
+      problems,
+    });
+    this.db.exec("VACUUM");
+    return { problems, removed, bytesBefore, bytesAfter: this.readDatabaseBytes() };
+  }
+
+  /** Drops everything indexed for one source and indexes it again. */
+  async rebuildSource(
+    source: MemorySource,
+    params: { progress?: (update: MemorySyncProgressUpdate) => void } = {},
+  ): Promise<{ cleared: number; indexed: number }> {
+    this.requireIndexSource(source);
+    await this.syncing?.catch(() => {});
+    const cleared = clearIndexedSource(this.inspectTables(), {
+      source,
+      model: this.provider.model,
+    });
+    if (source === "memory") {
+      this.dirty = true;
+    } else {
+      // Session sync only indexes files marked dirty unless it reindexes everything
+      for (const file of await listSessionFilesForAgent(this.agentId, this.sessionsDir)) {
+        this.sessionsDirtyFiles.add(file);
+      }
+      this.sessionsDirty = true;
+    }
+    await this.sync({ reason: "rebuild", progress: params.progress });
+    return { cleared, indexed: listIndexedFiles(this.db, { source }).length };
+  }
+
+  private inspectTables(): MemoryIndexTables {
+    return {
+      db: this.db,
+      vectorTable: VECTOR_TABLE,
+      ftsTable: FTS_TABLE,
+      ftsEnabled: this.fts.enabled,
+      ftsAvailable: this.fts.available,
+    };
+  }
+
+  private requireIndexSource(source?: MemorySource): void {
+    if (source && !this.sources.has(source)) {
+      throw new Error(`memory source not enabled: ${source}`);
+    }
+  }
+
+  /** Content hashes of the files each enabled source would index now. */
+  private async scanIndexSources(
+    source?: MemorySource,
+  ): Promise<Partial<Record<MemorySource, Map<string, string>>>> {
+    const current: Partial<Record<MemorySource, Map<string, string>>> = {};
+    if (this.sources.has("memory") && (!source || source === "memory")) {
+      const files = await listMemoryFiles(this.workspaceDir, this.settings.extraPaths);
+      const entries = await Promise.all(
+        files.map(async (file) => buildFileEntry(file, this.workspaceDir)),
+      );
+      current.memory = new Map(entries.map((entry) => [entry.path, entry.hash]));
+    }
+    if (this.sources.has("sessions") && (!source || source === "sessions")) {
+      const hashes = new Map<string, string>();
+      for (const file of await listSessionFilesForAgent(this.agentId, this.sessionsDir)) {
+        const entry = await buildSessionEntry(file);
+        if (entry) {
+          hashes.set(sessionPathForFile(file), entry.hash);
+        }
+      }
+      current.sessions = hashes;
+    }
+    return current;
+  }
+
+  private readDatabaseBytes(): number {
+    const pages = this.db.prepare(`PRAGMA page_count`).get() as { page_count: number };
+    const size = this.db.prepare(`PRAGMA page_size`).get() as { page_size: number };
+    return pages.page_count * size.page_size;
+  }
+}
+
+export const memoryManagerInspectOps = MemoryManagerInspectOps.prototype;
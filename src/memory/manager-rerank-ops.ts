@@ -0,0 +1,125 @@
+// @ts-nocheck
+// oxlint-disable eslint/no-unused-vars, typescript/no-explicit-any
+import type { MemoryProviderStatus, MemorySearchResult } from "./types.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { parseEmbedding } from "./internal.js";
+import {
+  applyRecencyDecay,
+  blendCrossEncoderScores,
+  createLocalCrossEncoder,
+  resolveChunkTimestamp,
+  selectByMmr,
+  type RerankCandidate,
+} from "./rerank.js";
+
+// OPENCLAWMU ADDITION: post-retrieval rerankers (rerank.ts)
+
+const log = createSubsystemLogger("memory");
+
+class MemoryManagerRerankOps {
+  [key: string]: any;
+  private async rerankResults(
+    query: string,
+    candidates: RerankCandidate[],
+    maxResults: number,
+  ): Promise<MemorySearchResult[]> {
+    const ranked = await this.rankCandidates(query, candidates, maxResults);
+    // Chunk ids were only needed for reranking
+    return ranked.map(({ id: _id, ...entry }) => entry);
+  }
+
+  private async rankCandidates(
+    query: string,
+    candidates: RerankCandidate[],
+    maxResults: number,
+  ): Promise<RerankCandidate[]> {
+    const rerank = this.settings.query.rerank;
+    let ranked = candidates;
+    if (rerank.crossEncoder.enabled && ranked.length > 1) {
+      const top = ranked.slice(0, rerank.crossEncoder.maxCandidates);
+      try {
+        this.crossEncoder ??= createLocalCrossEncoder(rerank.crossEncoder);
+        const encoder = await this.crossEncoder;
+        const scores = await encoder.rank(
+          query,
+          top.map((entry) => entry.snippet),
+        );
+        // Candidates past maxCandidates keep their order behind the rescored ones
+        ranked = [
+          ...blendCrossEncoderScores(top, scores, rerank.crossEncoder.weight),
+          ...ranked.slice(rerank.crossEncoder.maxCandidates),
+        ];
+        this.crossEncoderState = { available: true };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (this.crossEncoderState.error !== message) {
+          log.warn(`memory cross-encoder unavailable: ${message}`);
+        }
+        this.crossEncoder = null;
+        this.crossEncoderState = { available: false, error: message };
+      }
+    }
+    if (rerank.recency.enabled) {
+      const mtimes = this.readFileMtimes(ranked.map((entry) => entry.path));
+      ranked = applyRecencyDecay(ranked, {
+        halfLifeDays: rerank.recency.halfLifeDays,
+        floor: rerank.recency.floor,
+        now: Date.now(),
+        timestampOf: (entry) => resolveChunkTimestamp(entry.path, mtimes.get(entry.path)),
+      });
+    }
+    if (rerank.mmr.enabled) {
+      const embeddings = this.readChunkEmbeddings(
+        ranked.flatMap((entry) => (entry.id ? [entry.id] : [])),
+      );
+      ranked = selectByMmr(ranked, {
+        lambda: rerank.mmr.lambda,
+        limit: maxResults,
+        embeddingOf: (entry) => (entry.id ? embeddings.get(entry.id) : undefined),
+      });
+    }
+    return ranked.slice(0, maxResults);
+  }
+
+  private describeRerank(): NonNullable<MemoryProviderStatus["rerank"]> {
+    const { crossEncoder, recency, mmr } = this.settings.query.rerank;
+    return {
+      crossEncoder: crossEncoder.enabled
+        ? {
+            enabled: true,
+            model: crossEncoder.modelPath,
+            weight: crossEncoder.weight,
+            maxCandidates: crossEncoder.maxCandidates,
+            ...this.crossEncoderState,
+          }
+        : { enabled: false },
+      recency: recency.enabled
+        ? { enabled: true, halfLifeDays: recency.halfLifeDays, floor: recency.floor }
+        : { enabled: false },
+      mmr: mmr.enabled ? { enabled: true, lambda: mmr.lambda } : { enabled: false },
+    };
+  }
+
+  private readFileMtimes(paths: string[]): Map<string, number> {
+    const unique = [...new Set(paths)];
+    if (unique.length === 0) {
+      return new Map();
+    }
+    const rows = this.db
+      .prepare(`SELECT path, mtime FROM files WHERE path IN (${unique.map(() => "?").join(", ")})`)
+      .all(...unique) as Array<{ path: string; mtime: number }>;
+    return new Map(rows.map((row) => [row.path, row.mtime]));
+  }
+
+  private readChunkEmbeddings(ids: string[]): Map<string, number[]> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const rows = this.db
+      .prepare(`SELECT id, embedding FROM chunks WHERE id IN (${ids.map(() => "?").join(", ")})`)
+      .all(...ids) as Array<{ id: string; embedding: string }>;
+    return new Map(rows.map((row) => [row.id, parseEmbedding(row.embedding)]));
+  }
+}
+
+export const memoryManagerRerankOps = MemoryManagerRerankOps.prototype;
@@ -10,7 +10,15 @@ import type { MemorySource, MemorySyncProgressUpdate } from "./types.js";
 import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { onSessionTranscriptUpdate } from "../sessions/transcript-events.js";
+import {
+  MEMORY_CHUNK_BYTES_SQL,
+  readTenantMemoryIndexStats,
+  readTenantMemoryQuotaMeta,
+  resolveTenantMemoryIndexLimits,
+  writeTenantMemoryQuotaMeta,
+} from "../tenants/memory-index.js";
 import { resolveUserPath } from "../utils.js";
+import { pruneExpiredMemoryFacts } from "./facts.js";
 import {
   buildFileEntry,
   ensureDir,
@@ -486,7 +494,8 @@ class MemoryManagerSyncOps {
     if (!sessionFile) {
       return false;
     }
-    const sessionsDir = resolveSessionTranscriptsDirForAgent(this.agentId);
+    // OPENCLAWMU ADDITION: tenant agents keep transcripts in the tenant state dir
+    const sessionsDir = this.sessionsDir ?? resolveSessionTranscriptsDirForAgent(this.agentId);
     const resolvedFile = path.resolve(sessionFile);
     const resolvedDir = path.resolve(sessionsDir);
     return resolvedFile.startsWith(`${resolvedDir}${path.sep}`);
@@ -619,7 +628,7 @@ class MemoryManagerSyncOps {
     needsFullReindex: boolean;
     progress?: MemorySyncProgressState;
   }) {
-    const files = await listSessionFilesForAgent(this.agentId);
+    const files = await listSessionFilesForAgent(this.agentId, this.sessionsDir);
     const activePaths = new Set(files.map((file) => sessionPathForFile(file)));
     const indexAll = params.needsFullReindex || this.sessionsDirtyFiles.size === 0;
     log.debug("memory sync: indexing session files", {
@@ -754,6 +763,17 @@ class MemoryManagerSyncOps {
         label: "Loading vector extension…",
       });
     }
+    // OPENCLAWMU ADDITION: re-read the tenant's other indexes once per sync
+    this.tenantMemoryOthers = null;
+    this.tenantMemoryPending = { chunks: 0, bytes: 0 };
+    // OPENCLAWMU ADDITION: expired memory facts leave the workspace, then the index
+    if (this.sources.has("memory")) {
+      const pruned = await pruneExpiredMemoryFacts(this.workspaceDir);
+      this.memoryFactsExpireAt = pruned.nextExpiresAt;
+      if (pruned.removed.length > 0) {
+        this.dirty = true;
+      }
+    }
     const vectorReady = await this.ensureVectorReady();
     const meta = this.readMeta();
     const needsFullReindex =
@@ -1072,6 +1092,143 @@ class MemoryManagerSyncOps {
       )
       .run(META_KEY, value);
   }
+
+  // --- OPENCLAWMU ADDITION: tenant memory quota ---
+
+  /**
+   * Reserves room for a file's chunks under the tenant's memory quota, dropping the
+   * chunks of the oldest session transcripts when needed. Returns false, and records the
+   * refusal, when the file cannot fit; its previous chunks (if any) stay indexed.
+   */
+  private async admitTenantMemoryChunks(
+    entry: { path: string; mtimeMs: number },
+    source: MemorySource,
+    chunks: Array<{ text: string }>,
+  ): Promise<{ chunks: number; bytes: number } | false> {
+    const limits = this.tenantId ? resolveTenantMemoryIndexLimits(this.tenantId) : null;
+    if (!limits) {
+      return { chunks: 0, bytes: 0 };
+    }
+    if (!this.tenantMemoryOthers) {
+      this.tenantMemoryOthers = await readTenantMemoryIndexStats(this.tenantId, {
+        excludePath: resolveUserPath(this.settings.store.path),
+      });
+    }
+    const current = this.db
+      .prepare(
+        `SELECT COUNT(*) AS c, COALESCE(SUM(${MEMORY_CHUNK_BYTES_SQL}), 0) AS b,` +
+          ` COALESCE(AVG(LENGTH(embedding)), 0) AS e FROM chunks WHERE NOT (path = ? AND source = ?)`,
+      )
+      .get(entry.path, source) as { c: number; b: number; e: number };
+    // Embeddings are not computed yet; assume they match the ones already stored
+    const needed = {
+      chunks: chunks.length,
+      bytes: chunks.reduce(
+        (sum, chunk) => sum + Buffer.byteLength(chunk.text, "utf8") + Math.round(current.e),
+        0,
+      ),
+    };
+    const used = {
+      chunks: this.tenantMemoryOthers.chunks + this.tenantMemoryPending.chunks + current.c,
+      bytes: this.tenantMemoryOthers.bytes + this.tenantMemoryPending.bytes + current.b,
+    };
+    const overChunks = () =>
+      limits.maxChunks !== undefined && used.chunks + needed.chunks > limits.maxChunks;
+    const overBytes = () =>
+      limits.maxBytes !== undefined && used.bytes + needed.bytes > limits.maxBytes;
+
+    const evict: Array<{ path: string; c: number; b: number }> = [];
+    if (overChunks() || overBytes()) {
+      // Only transcripts older than the one being indexed make way for it
+      const candidates = this.db
+        .prepare(
+          `SELECT f.path AS path, COUNT(*) AS c, SUM(${MEMORY_CHUNK_BYTES_SQL}) AS b` +
+            ` FROM files f JOIN chunks ch ON ch.path = f.path AND ch.source = f.source` +
+            ` WHERE f.source = 'sessions' AND f.path != ? AND f.mtime < ?` +
+            ` GROUP BY f.path ORDER BY f.mtime ASC`,
+        )
+        .all(entry.path, source === "sessions" ? entry.mtimeMs : Number.MAX_SAFE_INTEGER) as Array<{
+        path: string;
+        c: number;
+        b: number;
+      }>;
+      for (const candidate of candidates) {
+        if (!overChunks() && !overBytes()) {
+          break;
+        }
+        evict.push(candidate);
+        used.chunks -= candidate.c;
+        used.bytes -= candidate.b;
+      }
+    }
+
+    const meta = readTenantMemoryQuotaMeta(this.db);
+    const wasRefused = meta.refusedPaths.includes(entry.path);
+    if (overChunks() || overBytes()) {
+      if (!wasRefused) {
+        log.warn(
+          `memory index for tenant ${this.tenantId} is full; not indexing ${entry.path} (${needed.chunks} chunks)`,
+        );
+        meta.refusedPaths.push(entry.path);
+        writeTenantMemoryQuotaMeta(this.db, meta);
+      }
+      return false;
+    }
+    for (const evicted of evict) {
+      this.dropIndexedSessionChunks(evicted.path);
+      meta.evictedFiles += 1;
+      meta.evictedChunks += evicted.c;
+    }
+    if (evict.length > 0) {
+      log.info(
+        `memory index for tenant ${this.tenantId}: dropped ${evict.length} old session transcript(s) to index ${entry.path}`,
+      );
+    }
+    if (evict.length > 0 || wasRefused) {
+      meta.refusedPaths = meta.refusedPaths.filter((refused) => refused !== entry.path);
+      writeTenantMemoryQuotaMeta(this.db, meta);
+    }
+    this.tenantMemoryPending.chunks += needed.chunks;
+    this.tenantMemoryPending.bytes += needed.bytes;
+    return needed;
+  }
+
+  private releaseTenantMemoryChunks(reservation: { chunks: number; bytes: number }) {
+    this.tenantMemoryPending.chunks -= reservation.chunks;
+    this.tenantMemoryPending.bytes -= reservation.bytes;
+  }
+
+  /**
+   * Drops a transcript's chunks but keeps its `files` row, so the unchanged transcript
+   * is not indexed again on the next sync.
+   */
+  private dropIndexedSessionChunks(sessionPath: string) {
+    try {
+      this.db
+        .prepare(
+          `DELETE FROM ${VECTOR_TABLE} WHERE id IN (SELECT id FROM chunks WHERE path = ? AND source = ?)`,
+        )
+        .run(sessionPath, "sessions");
+    } catch {}
+    this.db
+      .prepare(`DELETE FROM chunks WHERE path = ? AND source = ?`)
+      .run(sessionPath, "sessions");
+    if (this.fts.enabled && this.fts.available) {
+      try {
+        this.db
+          .prepare(`DELETE FROM ${FTS_TABLE} WHERE path = ? AND source = ?`)
+          .run(sessionPath, "sessions");
+      } catch {}
+    }
+  }
+
+  private describeTenantMemoryQuota() {
+    return {
+      tenantId: this.tenantId,
+      limits: resolveTenantMemoryIndexLimits(this.tenantId) ?? {},
+      ...readTenantMemoryQuotaMeta(this.db),
+    };
+  }
 }
 
 export const memoryManagerSyncOps = MemoryManagerSyncOps.prototype;
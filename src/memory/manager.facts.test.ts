@@ -0,0 +1,121 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  getEmbedBatchMock,
+  getEmbedQueryMock,
+  resetEmbeddingMocks,
+} from "./embedding.test-mocks.js";
+import { getMemorySearchManager, type MemoryIndexManager } from "./index.js";
+
+const embedText = (text: string) => {
+  const lower = text.toLowerCase();
+  return [lower.split("coffee").length - 1, lower.split("deploy").length - 1, 0.01];
+};
+
+describe("memory facts", () => {
+  let workspaceDir: string;
+  let manager: MemoryIndexManager | null = null;
+
+  const open = async () => {
+    const cfg = {
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "mock-embed",
+            store: { path: path.join(workspaceDir, "index.sqlite"), vector: { enabled: false } },
+            sync: { watch: false, onSessionStart: false, onSearch: false },
+            cache: { enabled: false },
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    } as OpenClawConfig;
+    const result = await getMemorySearchManager({ cfg, agentId: "main" });
+    manager = result.manager as MemoryIndexManager;
+    await manager.sync({ force: true });
+    return manager;
+  };
+
+  beforeEach(async () => {
+    resetEmbeddingMocks();
+    getEmbedBatchMock().mockImplementation(async (texts: string[]) => texts.map(embedText));
+    getEmbedQueryMock().mockImplementation(async (text: string) => embedText(text));
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-mem-facts-"));
+    await fs.mkdir(path.join(workspaceDir, "memory"));
+    await fs.writeFile(
+      path.join(workspaceDir, "MEMORY.md"),
+      "The office coffee machine is broken.",
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await manager?.close();
+    manager = null;
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("stores facts with provenance and makes them searchable until forgotten", async () => {
+    const memory = await open();
+    const fact = await memory.remember("  Alice takes her coffee black. ", {
+      tags: ["#Preferences", "people"],
+      source: "agent:main:main",
+      confidence: 0.8,
+    });
+    expect(fact).toMatchObject({
+      path: `memory/facts/${fact.id}.md`,
+      text: "Alice takes her coffee black.",
+      tags: ["preferences", "people"],
+      source: "agent:main:main",
+      confidence: 0.8,
+    });
+    expect(await memory.listFacts()).toEqual([fact]);
+    expect(await memory.listFacts({ tag: "work" })).toEqual([]);
+
+    const results = await memory.search("coffee black");
+    expect(results.map((entry) => entry.path)).toContain(fact.path);
+    expect(memory.status().files).toBe(2);
+
+    expect(await memory.forget({ id: fact.id })).toEqual([fact]);
+    await expect(memory.forget({ id: fact.id })).rejects.toThrow("unknown memory fact");
+    expect(memory.status().files).toBe(1);
+    expect((await memory.search("coffee black")).map((entry) => entry.path)).toEqual(["MEMORY.md"]);
+  });
+
+  it("forgets by query only the matching facts", async () => {
+    const memory = await open();
+    const coffee = await memory.remember("Bob drinks decaf coffee after noon.");
+    const deploy = await memory.remember("We deploy on Tuesdays.");
+
+    await expect(
+      memory.forget({ query: "coffee" } as Parameters<typeof memory.forget>[0]),
+    ).rejects.toThrow("minScore between 0 and 1 required");
+    const removed = await memory.forget({ query: "coffee", minScore: 0.5 });
+    expect(removed.map((entry) => entry.id)).toEqual([coffee.id]);
+    expect((await memory.listFacts()).map((entry) => entry.id)).toEqual([deploy.id]);
+    await expect(fs.stat(path.join(workspaceDir, "MEMORY.md"))).resolves.toBeTruthy();
+  });
+
+  it("drops expired facts on sync", async () => {
+    const memory = await open();
+    const shortLived = await memory.remember("The deploy freeze ends on Friday.", {
+      ttlMs: 60_000,
+    });
+    const durable = await memory.remember("Deploy approvals go to Dana.", { ttlMs: 86_400_000 });
+    expect(memory.status().files).toBe(3);
+    await expect(memory.remember("x", { ttlMs: 0 })).rejects.toThrow("ttl must be positive");
+
+    const later = Date.now() + 120_000;
+    vi.spyOn(Date, "now").mockReturnValue(later);
+    await memory.sync({ reason: "test" });
+    expect(memory.status().files).toBe(2);
+    expect((await memory.listFacts()).map((entry) => entry.id)).toEqual([durable.id]);
+    const paths = (await memory.search("deploy")).map((entry) => entry.path);
+    expect(paths).not.toContain(shortLived.path);
+  });
+});
@@ -0,0 +1,161 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { readTenantMemoryIndexStats } from "../tenants/memory-index.js";
+import {
+  resolveTenantAgentWorkspaceDir,
+  resolveTenantMemoryPath,
+  resolveTenantSessionsDir,
+} from "../tenants/paths.js";
+import { closeTenantRegistryStores } from "../tenants/registry-store.js";
+import { createTenant, updateTenant } from "../tenants/registry.js";
+import { loadTenantUsage } from "../tenants/usage.js";
+import {
+  getEmbedBatchMock,
+  getEmbedQueryMock,
+  resetEmbeddingMocks,
+} from "./embedding.test-mocks.js";
+import { getMemorySearchManager, type MemoryIndexManager } from "./index.js";
+
+const cfg = {
+  agents: {
+    defaults: {
+      memorySearch: {
+        provider: "openai",
+        model: "mock-embed",
+        sources: ["memory", "sessions"],
+        experimental: { sessionMemory: true },
+        store: { vector: { enabled: false } },
+        sync: { watch: false, onSessionStart: false, onSearch: false },
+        cache: { enabled: false },
+      },
+    },
+    list: [{ id: "main", default: true }],
+  },
+} as OpenClawConfig;
+
+describe("tenant memory index", () => {
+  let dir: string;
+  let workspace: string;
+  let sessions: string;
+  let manager: MemoryIndexManager | null = null;
+
+  const writeMemory = (rel: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(workspace, rel)), { recursive: true });
+    fs.writeFileSync(path.join(workspace, rel), content);
+  };
+  const writeSession = (name: string, text: string, mtimeMs: number) => {
+    const file = path.join(sessions, `${name}.jsonl`);
+    const record = { type: "message", message: { role: "user", content: text } };
+    fs.writeFileSync(file, `${JSON.stringify(record)}\n`);
+    fs.utimesSync(file, mtimeMs / 1000, mtimeMs / 1000);
+  };
+  const open = async () => {
+    const result = await getMemorySearchManager({ cfg, agentId: "main", tenantId: "demo" });
+    manager = result.manager as MemoryIndexManager;
+    return manager;
+  };
+  const syncChanges = async (target: MemoryIndexManager) => {
+    (target as unknown as { dirty: boolean }).dirty = true;
+    await target.sync({ reason: "test" });
+  };
+
+  beforeEach(async () => {
+    resetEmbeddingMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-tenant-memory-"));
+    vi.stubEnv("OPENCLAW_STATE_DIR", path.join(dir, "state"));
+    await createTenant("demo");
+    workspace = resolveTenantAgentWorkspaceDir("demo", "main");
+    sessions = resolveTenantSessionsDir("demo", "main");
+    fs.mkdirSync(sessions, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = null;
+    closeTenantRegistryStores();
+    vi.unstubAllEnvs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("indexes the tenant's workspace and transcripts into its own memory dir", async () => {
+    writeMemory("MEMORY.md", "Project codename is Falcon.");
+    writeSession("s1", "hello from the tenant", Date.now());
+
+    const tenantManager = await open();
+    await tenantManager.sync({ force: true });
+    expect(tenantManager.status()).toMatchObject({
+      dbPath: resolveTenantMemoryPath("demo", "main"),
+      workspaceDir: workspace,
+      files: 2,
+      chunks: 2,
+      custom: { tenantQuota: { tenantId: "demo", evictedFiles: 0, refusedPaths: [] } },
+    });
+    const host = await getMemorySearchManager({ cfg, agentId: "main" });
+    expect(host.manager).not.toBe(tenantManager);
+    expect(host.manager?.status().dbPath).not.toBe(resolveTenantMemoryPath("demo", "main"));
+    await host.manager?.close?.();
+
+    await tenantManager.search("falcon");
+    await tenantManager.close();
+    manager = null;
+    const texts = [
+      ...getEmbedBatchMock().mock.calls.flatMap(([batch]: [string[]]) => batch),
+      ...getEmbedQueryMock().mock.calls.map(([query]: [string]) => query),
+    ];
+    const expected = texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+    const usage = await loadTenantUsage("demo");
+    expect(usage).toMatchObject({
+      embeddingTokens: expected,
+      inputTokens: expected,
+      totalTokens: expected,
+      totalMessages: 0,
+    });
+  });
+
+  it("evicts the oldest transcripts and then refuses files over the chunk quota", async () => {
+    await updateTenant("demo", { quotas: { maxMemoryChunks: 3 } });
+    const now = Date.now();
+    writeMemory("MEMORY.md", "Project codename is Falcon.");
+    writeSession("old", "an old conversation", now - 60_000);
+    writeSession("new", "a newer conversation", now - 1_000);
+
+    const tenantManager = await open();
+    await tenantManager.sync({ force: true });
+    expect(tenantManager.status().chunks).toBe(3);
+
+    writeMemory("memory/notes.md", "Deploys happen on Tuesdays.");
+    await syncChanges(tenantManager);
+    writeMemory("memory/more.md", "The staging host is blue.");
+    await syncChanges(tenantManager);
+    writeMemory("memory/extra.md", "Nothing left to drop for this one.");
+    await syncChanges(tenantManager);
+
+    const results = await tenantManager.search("conversation");
+    expect(results.filter((result) => result.source === "sessions")).toEqual([]);
+    const stats = await readTenantMemoryIndexStats("demo");
+    expect(stats).toMatchObject({ chunks: 3, limits: { maxChunks: 3 } });
+    expect(stats.agents).toEqual([
+      expect.objectContaining({
+        agentId: "main",
+        evictedFiles: 2,
+        evictedChunks: 2,
+        refusedPaths: ["memory/extra.md"],
+        sources: {
+          memory: expect.objectContaining({ files: 3, chunks: 3 }),
+          // Dropped transcripts stay listed so they are not re-embedded until they change
+          sessions: expect.objectContaining({ files: 2, chunks: 0 }),
+        },
+      }),
+    ]);
+
+    await updateTenant("demo", { quotas: { maxMemoryChunks: 10 } });
+    await syncChanges(tenantManager);
+    expect(tenantManager.status()).toMatchObject({
+      chunks: 4,
+      custom: { tenantQuota: { refusedPaths: [] } },
+    });
+  });
+});
@@ -4,6 +4,8 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
 import type { OpenClawConfig } from "../config/config.js";
+import type { MemoryIndexUsage } from "../tenants/memory-index.js";
+import type { CrossEncoder } from "./rerank.js";
 import type {
   MemoryEmbeddingProbeResult,
   MemoryProviderStatus,
@@ -15,6 +17,11 @@ import type {
 import { resolveAgentDir, resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
 import { resolveMemorySearchConfig } from "../agents/memory-search.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import {
+  resolveTenantAgentWorkspaceDir,
+  resolveTenantMemoryPath,
+  resolveTenantSessionsDir,
+} from "../tenants/paths.js";
 import {
   createEmbeddingProvider,
   type EmbeddingProvider,
@@ -26,6 +33,9 @@ import {
 import { bm25RankToScore, buildFtsQuery, mergeHybridResults } from "./hybrid.js";
 import { isMemoryPath, normalizeExtraMemoryPaths } from "./internal.js";
 import { memoryManagerEmbeddingOps } from "./manager-embedding-ops.js";
+import { memoryManagerFactOps } from "./manager-fact-ops.js";
+import { memoryManagerInspectOps } from "./manager-inspect-ops.js";
+import { memoryManagerRerankOps } from "./manager-rerank-ops.js";
 import { searchKeyword, searchVector } from "./manager-search.js";
 import { memoryManagerSyncOps } from "./manager-sync-ops.js";
 const SNIPPET_MAX_CHARS = 700;
@@ -45,6 +55,18 @@ export class MemoryIndexManager implements MemorySearchManager {
   private readonly cfg: OpenClawConfig;
   private readonly agentId: string;
   private readonly workspaceDir: string;
+  // OPENCLAWMU ADDITION: tenant isolation, quota and embedding usage accounting
+  private readonly tenantId?: string;
+  private readonly sessionsDir?: string;
+  private tenantEmbeddingTokens = 0;
+  private tenantUsageWrite: Promise<void> = Promise.resolve();
+  private tenantMemoryOthers: MemoryIndexUsage | null = null;
+  private tenantMemoryPending = { chunks: 0, bytes: 0 };
+  // OPENCLAWMU ADDITION: earliest expiry among memory facts (see facts.ts)
+  private memoryFactsExpireAt: number | undefined;
+  // OPENCLAWMU ADDITION: cross-encoder reranker, loaded on first use (see rerank.ts)
+  private crossEncoder: Promise<CrossEncoder> | null = null;
+  private crossEncoderState: { available?: boolean; error?: string } = {};
   private readonly settings: ResolvedMemorySearchConfig;
   private provider: EmbeddingProvider;
   private readonly requestedProvider: "openai" | "local" | "gemini" | "voyage" | "auto";
@@ -97,19 +119,43 @@ export class MemoryIndexManager implements MemorySearchManager {
   >();
   private sessionWarm = new Set<string>();
   private syncing: Promise<void> | null = null;
+  // OPENCLAWMU ADDITION: memory write API and index inspection, mixed in below
+  declare remember: NonNullable<MemorySearchManager["remember"]>;
+  declare forget: NonNullable<MemorySearchManager["forget"]>;
+  declare listFacts: NonNullable<MemorySearchManager["listFacts"]>;
+  declare inspectFingerprint: NonNullable<MemorySearchManager["inspectFingerprint"]>;
+  declare inspectFiles: NonNullable<MemorySearchManager["inspectFiles"]>;
+  declare inspectChunks: NonNullable<MemorySearchManager["inspectChunks"]>;
+  declare explainSearch: NonNullable<MemorySearchManager["explainSearch"]>;
+  declare findIndexProblems: NonNullable<MemorySearchManager["findIndexProblems"]>;
+  declare vacuum: NonNullable<MemorySearchManager["vacuum"]>;
+  declare rebuildSource: NonNullable<MemorySearchManager["rebuildSource"]>;
 
   static async get(params: {
     cfg: OpenClawConfig;
     agentId: string;
     purpose?: "default" | "status";
+    /** OPENCLAWMU ADDITION: index the tenant's copy of the agent. */
+    tenantId?: string;
   }): Promise<MemoryIndexManager | null> {
-    const { cfg, agentId } = params;
-    const settings = resolveMemorySearchConfig(cfg, agentId);
-    if (!settings) {
+    const { cfg, agentId, tenantId } = params;
+    const resolvedSettings = resolveMemorySearchConfig(cfg, agentId);
+    if (!resolvedSettings) {
       return null;
     }
-    const workspaceDir = resolveAgentWorkspaceDir(cfg, agentId);
-    const key = `${agentId}:${workspaceDir}:${JSON.stringify(settings)}`;
+    // OPENCLAWMU ADDITION: a tenant's index, workspace and transcripts all live in its
+    // state dir; extra paths are host paths, so tenants do not get them.
+    const settings: ResolvedMemorySearchConfig = tenantId
+      ? {
+          ...resolvedSettings,
+          extraPaths: [],
+          store: { ...resolvedSettings.store, path: resolveTenantMemoryPath(tenantId, agentId) },
+        }
+      : resolvedSettings;
+    const workspaceDir = tenantId
+      ? resolveTenantAgentWorkspaceDir(tenantId, agentId)
+      : resolveAgentWorkspaceDir(cfg, agentId);
+    const key = `${tenantId ? `tenant:${tenantId}:` : ""}${agentId}:${workspaceDir}:${JSON.stringify(settings)}`;
     const existing = INDEX_CACHE.get(key);
     if (existing) {
       return existing;
@@ -131,6 +177,7 @@ export class MemoryIndexManager implements MemorySearchManager {
       settings,
       providerResult,
       purpose: params.purpose,
+      tenantId,
     });
     INDEX_CACHE.set(key, manager);
     return manager;
@@ -144,11 +191,16 @@ export class MemoryIndexManager implements MemorySearchManager {
     settings: ResolvedMemorySearchConfig;
     providerResult: EmbeddingProviderResult;
     purpose?: "default" | "status";
+    tenantId?: string;
   }) {
     this.cacheKey = params.cacheKey;
     this.cfg = params.cfg;
     this.agentId = params.agentId;
     this.workspaceDir = params.workspaceDir;
+    this.tenantId = params.tenantId;
+    this.sessionsDir = params.tenantId
+      ? resolveTenantSessionsDir(params.tenantId, params.agentId)
+      : undefined;
     this.settings = params.settings;
     this.provider = params.providerResult.provider;
     this.requestedProvider = params.providerResult.requestedProvider;
@@ -208,6 +260,10 @@ export class MemoryIndexManager implements MemorySearchManager {
     },
   ): Promise<MemorySearchResult[]> {
     void this.warmSession(opts?.sessionKey);
+    // OPENCLAWMU ADDITION: a fact expired since the last sync; let this search prune it
+    if (this.memoryFactsExpireAt !== undefined && Date.now() >= this.memoryFactsExpireAt) {
+      this.dirty = true;
+    }
     if (this.settings.sync.onSearch && (this.dirty || this.sessionsDirty)) {
       void this.sync({ reason: "search" }).catch((err) => {
         log.warn(`memory sync failed (search): ${String(err)}`);
@@ -235,8 +291,13 @@ export class MemoryIndexManager implements MemorySearchManager {
       ? await this.searchVector(queryVec, candidates).catch(() => [])
       : [];
 
+    // OPENCLAWMU ADDITION: rerankers see every candidate that passes minScore
     if (!hybrid.enabled) {
-      return vectorResults.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+      return await this.rerankResults(
+        cleaned,
+        vectorResults.filter((entry) => entry.score >= minScore),
+        maxResults,
+      );
     }
 
     const merged = this.mergeHybridResults({
@@ -246,7 +307,11 @@ export class MemoryIndexManager implements MemorySearchManager {
       textWeight: hybrid.textWeight,
     });
 
-    return merged.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+    return await this.rerankResults(
+      cleaned,
+      merged.filter((entry) => entry.score >= minScore),
+      maxResults,
+    );
   }
 
   private async searchVector(
@@ -298,7 +363,7 @@ export class MemoryIndexManager implements MemorySearchManager {
     keyword: Array<MemorySearchResult & { id: string; textScore: number }>;
     vectorWeight: number;
     textWeight: number;
-  }): MemorySearchResult[] {
+  }): Array<MemorySearchResult & { id: string }> {
     const merged = mergeHybridResults({
       vector: params.vector.map((r) => ({
         id: r.id,
@@ -321,7 +386,7 @@ export class MemoryIndexManager implements MemorySearchManager {
       vectorWeight: params.vectorWeight,
       textWeight: params.textWeight,
     });
-    return merged.map((entry) => entry as MemorySearchResult);
+    return merged.map((entry) => entry as MemorySearchResult & { id: string });
   }
 
   async sync(params?: {
@@ -497,6 +562,10 @@ export class MemoryIndexManager implements MemorySearchManager {
         lastError: this.batchFailureLastError,
         lastProvider: this.batchFailureLastProvider,
       },
+      // OPENCLAWMU ADDITION: reranker settings and cross-encoder state
+      rerank: this.describeRerank(),
+      // OPENCLAWMU ADDITION: tenant memory quota state
+      custom: this.tenantId ? { tenantQuota: this.describeTenantMemoryQuota() } : undefined,
     };
   }
 
@@ -542,6 +611,10 @@ export class MemoryIndexManager implements MemorySearchManager {
       this.sessionUnsubscribe();
       this.sessionUnsubscribe = null;
     }
+    // OPENCLAWMU ADDITION: let pending embedding usage reach the tenant snapshot
+    await this.tenantUsageWrite;
+    // OPENCLAWMU ADDITION: free the cross-encoder model
+    await this.crossEncoder?.then((encoder) => encoder.close()).catch(() => {});
     this.db.close();
     INDEX_CACHE.delete(this.cacheKey);
   }
@@ -562,4 +635,12 @@ function applyPrototypeMixins(target: object, ...sources: object[]): void {
   }
 }
 
-applyPrototypeMixins(MemoryIndexManager.prototype, memoryManagerSyncOps, memoryManagerEmbeddingOps);
+applyPrototypeMixins(
+  MemoryIndexManager.prototype,
+  memoryManagerSyncOps,
+  memoryManagerEmbeddingOps,
+  // OPENCLAWMU ADDITION: rerank, fact and inspect methods (manager-*-ops.ts)
+  memoryManagerRerankOps,
+  memoryManagerFactOps,
+  memoryManagerInspectOps,
+);
@@ -0,0 +1,232 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  getEmbedBatchMock,
+  getEmbedQueryMock,
+  resetEmbeddingMocks,
+} from "./embedding.test-mocks.js";
+import { getMemorySearchManager, type MemoryIndexManager } from "./index.js";
+import {
+  applyRecencyDecay,
+  blendCrossEncoderScores,
+  resolveChunkTimestamp,
+  selectByMmr,
+  type RerankCandidate,
+} from "./rerank.js";
+
+const rankAll = vi.fn(async (_query: string, documents: string[]) =>
+  documents.map((doc) => (doc.includes("Falcon") ? 1 : 0)),
+);
+
+vi.mock("./node-llama.js", () => ({
+  importNodeLlamaCpp: async () => ({
+    LlamaLogLevel: { error: 0 },
+    resolveModelFile: async (modelPath: string) => modelPath,
+    getLlama: async () => ({
+      loadModel: async () => ({
+        createRankingContext: async () => ({ rankAll, dispose: async () => {} }),
+        dispose: async () => {},
+      }),
+    }),
+  }),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const candidate = (
+  overrides: Partial<RerankCandidate> & Pick<RerankCandidate, "path" | "score">,
+): RerankCandidate => ({
+  startLine: 1,
+  endLine: 1,
+  snippet: overrides.path,
+  source: "memory",
+  ...overrides,
+});
+
+describe("memory rerankers", () => {
+  it("dates daily logs by name and never ages MEMORY.md", () => {
+    expect(resolveChunkTimestamp("memory/2026-01-07.md", 1)).toBe(Date.parse("2026-01-07"));
+    expect(resolveChunkTimestamp("memory/notes.md", 123)).toBe(123);
+    expect(resolveChunkTimestamp("MEMORY.md", 123)).toBeUndefined();
+  });
+
+  it("decays scores by age with a per-source half-life and a floor", () => {
+    const now = Date.parse("2026-10-19T00:00:00Z");
+    const ages: Record<string, number> = { old: 30, fresh: 0, chat: 7 };
+    const ranked = applyRecencyDecay(
+      [
+        candidate({ path: "old", score: 0.9 }),
+        candidate({ path: "fresh", score: 0.6 }),
+        candidate({ path: "chat", score: 0.8, source: "sessions" }),
+        candidate({ path: "MEMORY.md", score: 0.5 }),
+      ],
+      {
+        halfLifeDays: { memory: 30, sessions: 7 },
+        floor: 0.2,
+        now,
+        timestampOf: (entry) =>
+          entry.path in ages ? now - (ages[entry.path] ?? 0) * DAY_MS : undefined,
+      },
+    );
+    expect(ranked.map((entry) => [entry.path, Number(entry.score.toFixed(2))])).toEqual([
+      ["fresh", 0.6],
+      ["old", 0.54],
+      ["MEMORY.md", 0.5],
+      ["chat", 0.48],
+    ]);
+  });
+
+  it("skips near-duplicates with MMR and blends cross-encoder scores", () => {
+    const picked = selectByMmr(
+      [
+        candidate({ path: "a", score: 0.9, id: "a" }),
+        candidate({ path: "a-copy", score: 0.89, id: "b" }),
+        candidate({ path: "other", score: 0.6, id: "c" }),
+      ],
+      {
+        lambda: 0.5,
+        limit: 2,
+        embeddingOf: (entry) => (entry.id === "c" ? [0, 1] : [1, 0]),
+      },
+    );
+    expect(picked.map((entry) => entry.path)).toEqual(["a", "other"]);
+
+    const blended = blendCrossEncoderScores(
+      [candidate({ path: "a", score: 0.8 }), candidate({ path: "b", score: 0.4 })],
+      [0, 1],
+      0.5,
+    );
+    expect(blended.map((entry) => [entry.path, entry.score])).toEqual([
+      ["b", 0.7],
+      ["a", 0.4],
+    ]);
+  });
+
+  describe("in memory search", () => {
+    let workspaceDir: string;
+    let manager: MemoryIndexManager | null = null;
+
+    beforeEach(async () => {
+      resetEmbeddingMocks();
+      rankAll.mockClear();
+      workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-mem-rerank-"));
+      await fs.mkdir(path.join(workspaceDir, "memory"));
+    });
+
+    afterEach(async () => {
+      await manager?.close();
+      manager = null;
+      await fs.rm(workspaceDir, { recursive: true, force: true });
+    });
+
+    it("reranks results and reports the rerankers in status", async () => {
+      const recent = new Date(Date.now() - DAY_MS).toISOString().slice(0, 10);
+      await fs.writeFile(path.join(workspaceDir, "memory", "2025-01-01.md"), "Release plan A.");
+      await fs.writeFile(path.join(workspaceDir, "memory", `${recent}.md`), "Release plan B.");
+      await fs.writeFile(path.join(workspaceDir, "memory", "project.md"), "Codename Falcon.");
+      getEmbedBatchMock().mockImplementation(async (texts: string[]) =>
+        texts.map((text) => (text.includes("Release") ? [1, 0, 0] : [0, 1, 0])),
+      );
+      getEmbedQueryMock().mockImplementation(async () => [1, 1, 0]);
+      const cfg = {
+        agents: {
+          defaults: {
+            workspace: workspaceDir,
+            memorySearch: {
+              provider: "openai",
+              model: "mock-embed",
+              store: { path: path.join(workspaceDir, "index.sqlite"), vector: { enabled: false } },
+              sync: { watch: false, onSessionStart: false, onSearch: false },
+              query: {
+                minScore: 0,
+                hybrid: { enabled: false },
+                rerank: {
+                  crossEncoder: { enabled: true, modelPath: "reranker.gguf", weight: 0.5 },
+                  recency: { enabled: true, halfLifeDays: { memory: 30 } },
+                  mmr: { enabled: true, lambda: 0.5 },
+                },
+              },
+            },
+          },
+          list: [{ id: "main", default: true }],
+        },
+      } as OpenClawConfig;
+      const result = await getMemorySearchManager({ cfg, agentId: "main" });
+      manager = result.manager as MemoryIndexManager;
+      await manager.sync({ force: true });
+
+      const results = await manager.search("release", { maxResults: 2 });
+      expect(rankAll).toHaveBeenCalledTimes(1);
+      // The cross-encoder lifts Falcon; recency puts the newer release note ahead of the old one
+      expect(results.map((entry) => entry.path)).toEqual([
+        "memory/project.md",
+        `memory/${recent}.md`,
+      ]);
+      expect(results[0]).not.toHaveProperty("id");
+      expect(manager.status().rerank).toEqual({
+        crossEncoder: {
+          enabled: true,
+          model: "reranker.gguf",
+          weight: 0.5,
+          maxCandidates: 20,
+          available: true,
+        },
+        recency: { enabled: true, halfLifeDays: { memory: 30, sessions: 7 }, floor: 0.3 },
+        mmr: { enabled: true, lambda: 0.5 },
+      });
+    });
+
+    it("keeps candidates past the cross-encoder's maxCandidates", async () => {
+      await fs.writeFile(path.join(workspaceDir, "memory", "a.md"), "Release plan A.");
+      await fs.writeFile(path.join(workspaceDir, "memory", "b.md"), "Release plan B.");
+      await fs.writeFile(path.join(workspaceDir, "memory", "c.md"), "Release Falcon.");
+      const weights: Record<string, number[]> = { A: [3, 1, 0], B: [2, 1, 0], F: [1, 1, 0] };
+      getEmbedBatchMock().mockImplementation(async (texts: string[]) =>
+        texts.map(
+          (text) => weights[text.includes("Falcon") ? "F" : text.includes("A.") ? "A" : "B"],
+        ),
+      );
+      getEmbedQueryMock().mockImplementation(async () => [1, 0, 0]);
+      const cfg = {
+        agents: {
+          defaults: {
+            workspace: workspaceDir,
+            memorySearch: {
+              provider: "openai",
+              model: "mock-embed",
+              store: { path: path.join(workspaceDir, "index.sqlite"), vector: { enabled: false } },
+              sync: { watch: false, onSessionStart: false, onSearch: false },
+              query: {
+                minScore: 0,
+                hybrid: { enabled: false },
+                rerank: {
+                  crossEncoder: {
+                    enabled: true,
+                    modelPath: "reranker.gguf",
+                    weight: 0.5,
+                    maxCandidates: 2,
+                  },
+                },
+              },
+            },
+          },
+          list: [{ id: "main", default: true }],
+        },
+      } as OpenClawConfig;
+      const result = await getMemorySearchManager({ cfg, agentId: "main" });
+      manager = result.manager as MemoryIndexManager;
+      await manager.sync({ force: true });
+
+      const results = await manager.search("release", { maxResults: 3 });
+      expect(rankAll).toHaveBeenCalledWith("release", ["Release plan A.", "Release plan B."]);
+      expect(results.map((entry) => entry.path)).toEqual([
+        "memory/a.md",
+        "memory/b.md",
+        "memory/c.md",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Post-retrieval rerankers for memory search.
+ * OPENCLAWMU ADDITION: cross-encoder, recency decay and MMR diversity.
+ *
+ * Hybrid search ranks chunks by relevance alone. The rerankers run on the candidates
+ * that pass `minScore`, in a fixed order:
+ *
+ * 1. A local cross-encoder rescores the top candidates against the query.
+ * 2. Recency decay scales each score by the age of its file, with a half-life per source.
+ * 3. MMR picks the final results, skipping chunks that repeat ones already picked.
+ */
+
+import type { LlamaModel, LlamaRankingContext } from "node-llama-cpp";
+import path from "node:path";
+import type { MemorySearchResult, MemorySource } from "./types.js";
+import { cosineSimilarity } from "./internal.js";
+import { importNodeLlamaCpp } from "./node-llama.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATED_FILE_PATTERN = /(\d{4}-\d{2}-\d{2})/;
+const CURATED_MEMORY_FILES = new Set(["MEMORY.md", "memory.md"]);
+
+export type RerankCandidate = MemorySearchResult & { id?: string };
+
+export type CrossEncoder = {
+  model: string;
+  /** Relevance of each document to the query, 0..1. */
+  rank(query: string, documents: string[]): Promise<number[]>;
+  close(): Promise<void>;
+};
+
+/**
+ * The time a chunk's content is from: the date in a daily log's file name, otherwise the
+ * file's mtime. Curated `MEMORY.md` has no age and never decays.
+ */
+export function resolveChunkTimestamp(relPath: string, mtimeMs?: number): number | undefined {
+  if (CURATED_MEMORY_FILES.has(relPath)) {
+    return undefined;
+  }
+  const dated = DATED_FILE_PATTERN.exec(path.posix.basename(relPath));
+  if (dated) {
+    const parsed = Date.parse(`${dated[1]}T00:00:00Z`);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+  return mtimeMs;
+}
+
+/**
+ * Mixes cross-encoder scores into the candidates' scores and re-sorts them.
+ */
+export function blendCrossEncoderScores<T extends RerankCandidate>(
+  candidates: T[],
+  scores: number[],
+  weight: number,
+): T[] {
+  return candidates
+    .map((entry, index) => {
+      const rerank = scores[index];
+      if (typeof rerank !== "number" || !Number.isFinite(rerank)) {
+        return entry;
+      }
+      return { ...entry, score: weight * rerank + (1 - weight) * entry.score };
+    })
+    .toSorted((a, b) => b.score - a.score);
+}
+
+/**
+ * Multiplies each score by `floor + (1 - floor) * 0.5^(ageDays / halfLifeDays)` and
+ * re-sorts. Chunks without a timestamp, or from a source without a half-life, keep
+ * their score.
+ */
+export function applyRecencyDecay<T extends RerankCandidate>(
+  candidates: T[],
+  params: {
+    halfLifeDays: Partial<Record<MemorySource, number>>;
+    floor: number;
+    now: number;
+    timestampOf: (entry: T) => number | undefined;
+  },
+): T[] {
+  return candidates
+    .map((entry) => {
+      const halfLife = params.halfLifeDays[entry.source];
+      const timestamp = params.timestampOf(entry);
+      if (!halfLife || halfLife <= 0 || timestamp === undefined) {
+        return entry;
+      }
+      const ageDays = Math.max(0, params.now - timestamp) / DAY_MS;
+      const decay = Math.pow(0.5, ageDays / halfLife);
+      return { ...entry, score: entry.score * (params.floor + (1 - params.floor) * decay) };
+    })
+    .toSorted((a, b) => b.score - a.score);
+}
+
+function tokenSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []);
+}
+
+/** Jaccard overlap of the two snippets' words; used when embeddings are missing. */
+export function snippetSimilarity(a: string, b: string): number {
+  const left = tokenSet(a);
+  const right = tokenSet(b);
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const token of left) {
+    if (right.has(token)) {
+      shared += 1;
+    }
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Greedy maximal marginal relevance: repeatedly picks the candidate with the best
+ * `lambda * score - (1 - lambda) * max similarity to the picks so far`. Scores are
+ * left as they were; only the order and the cut change.
+ */
+export function selectByMmr<T extends RerankCandidate>(
+  candidates: T[],
+  params: {
+    lambda: number;
+    limit: number;
+    embeddingOf?: (entry: T) => number[] | undefined;
+  },
+): T[] {
+  const similarity = (a: T, b: T) => {
+    const left = params.embeddingOf?.(a);
+    const right = params.embeddingOf?.(b);
+    if (left?.length && right?.length && left.length === right.length) {
+      return cosineSimilarity(left, right);
+    }
+    return snippetSimilarity(a.snippet, b.snippet);
+  };
+  const remaining = [...candidates];
+  const picked: T[] = [];
+  while (picked.length < params.limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    for (const [index, entry] of remaining.entries()) {
+      const redundancy = picked.reduce((max, other) => Math.max(max, similarity(entry, other)), 0);
+      const value = params.lambda * entry.score - (1 - params.lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    }
+    picked.push(...remaining.splice(bestIndex, 1));
+  }
+  return picked;
+}
+
+/**
+ * Cross-encoder backed by a local GGUF reranker model. node-llama-cpp and the model
+ * load on the first `rank` call.
+ */
+export async function createLocalCrossEncoder(params: {
+  modelPath: string;
+  modelCacheDir?: string;
+}): Promise<CrossEncoder> {
+  const { getLlama, resolveModelFile, LlamaLogLevel } = await importNodeLlamaCpp();
+  let model: LlamaModel | null = null;
+  let context: LlamaRankingContext | null = null;
+  let loading: Promise<LlamaRankingContext> | null = null;
+
+  const ensureContext = async () => {
+    if (context) {
+      return context;
+    }
+    loading ??= (async () => {
+      const llama = await getLlama({ logLevel: LlamaLogLevel.error });
+      const resolved = await resolveModelFile(params.modelPath, params.modelCacheDir);
+      model = await llama.loadModel({ modelPath: resolved });
+      context = await model.createRankingContext();
+      return context;
+    })().finally(() => {
+      loading = null;
+    });
+    return await loading;
+  };
+
+  return {
+    model: params.modelPath,
+    rank: async (query, documents) => {
+      if (documents.length === 0) {
+        return [];
+      }
+      const ctx = await ensureContext();
+      return await ctx.rankAll(query, documents);
+    },
+    close: async () => {
+      await context?.dispose();
+      await model?.dispose();
+      context = null;
+      model = null;
+    },
+  };
+}
@@ -20,9 +20,14 @@ export async function getMemorySearchManager(params: {
   cfg: OpenClawConfig;
   agentId: string;
   purpose?: "default" | "status";
+  /**
+   * OPENCLAWMU ADDITION: search the tenant's own index (under its memory dir). Tenants
+   * always use the builtin backend; qmd collections are not tenant-isolated.
+   */
+  tenantId?: string;
 }): Promise<MemorySearchManagerResult> {
   const resolved = resolveMemoryBackendConfig(params);
-  if (resolved.backend === "qmd" && resolved.qmd) {
+  if (resolved.backend === "qmd" && resolved.qmd && !params.tenantId) {
     const statusOnly = params.purpose === "status";
     const cacheKey = buildQmdCacheKey(params.agentId, resolved.qmd);
     if (!statusOnly) {
@@ -18,8 +18,11 @@ export type SessionFileEntry = {
   lineMap: number[];
 };
 
-export async function listSessionFilesForAgent(agentId: string): Promise<string[]> {
-  const dir = resolveSessionTranscriptsDirForAgent(agentId);
+export async function listSessionFilesForAgent(
+  agentId: string,
+  // OPENCLAWMU ADDITION: tenant agents keep transcripts in the tenant state dir
+  dir: string = resolveSessionTranscriptsDirForAgent(agentId),
+): Promise<string[]> {
   try {
     const entries = await fs.readdir(dir, { withFileTypes: true });
     return entries
@@ -1,3 +1,13 @@
+import type { MemoryFact, RememberMemoryFactOptions } from "./facts.js";
+import type { MemorySearchExplanation } from "./inspect-explain.js";
+import type {
+  MemoryIndexedChunk,
+  MemoryIndexedFile,
+  MemoryIndexFingerprint,
+  MemoryIndexProblem,
+  MemoryIndexVacuumResult,
+} from "./inspect.js";
+
 export type MemorySource = "memory" | "sessions";
 
 export type MemorySearchResult = {
@@ -55,6 +65,24 @@ export type MemoryProviderStatus = {
     lastError?: string;
     lastProvider?: string;
   };
+  /** OPENCLAWMU ADDITION: post-retrieval rerankers (rerank.ts). */
+  rerank?: {
+    crossEncoder: {
+      enabled: boolean;
+      model?: string;
+      /** Unknown until the first search loads the model. */
+      available?: boolean;
+      weight?: number;
+      maxCandidates?: number;
+      error?: string;
+    };
+    recency: {
+      enabled: boolean;
+      halfLifeDays?: Partial<Record<MemorySource, number>>;
+      floor?: number;
+    };
+    mmr: { enabled: boolean; lambda?: number };
+  };
   custom?: Record<string, unknown>;
 };
 
@@ -74,6 +102,31 @@ export interface MemorySearchManager {
     force?: boolean;
     progress?: (update: MemorySyncProgressUpdate) => void;
   }): Promise<void>;
+  /** OPENCLAWMU ADDITION: memory write API; builtin backend only (see facts.ts). */
+  remember?(text: string, options?: RememberMemoryFactOptions): Promise<MemoryFact>;
+  forget?(
+    target: { id: string } | { query: string; minScore: number; maxResults?: number },
+  ): Promise<MemoryFact[]>;
+  listFacts?(options?: { tag?: string }): Promise<MemoryFact[]>;
+  /** OPENCLAWMU ADDITION: index inspection and maintenance; builtin backend only (see inspect.ts). */
+  inspectFingerprint?(): {
+    indexed: MemoryIndexFingerprint | null;
+    current: MemoryIndexFingerprint;
+  };
+  inspectFiles?(options?: { source?: MemorySource }): MemoryIndexedFile[];
+  inspectChunks?(relPath: string, options?: { source?: MemorySource }): MemoryIndexedChunk[];
+  explainSearch?(
+    query: string,
+    opts?: { maxResults?: number; minScore?: number },
+  ): Promise<MemorySearchExplanation>;
+  findIndexProblems?(options?: { source?: MemorySource }): Promise<MemoryIndexProblem[]>;
+  vacuum?(options?: {
+    source?: MemorySource;
+  }): Promise<MemoryIndexVacuumResult & { problems: MemoryIndexProblem[] }>;
+  rebuildSource?(
+    source: MemorySource,
+    params?: { progress?: (update: MemorySyncProgressUpdate) => void },
+  ): Promise<{ cleared: number; indexed: number }>;
   probeEmbeddingAvailability(): Promise<MemoryEmbeddingProbeResult>;
   probeVectorAvailability(): Promise<boolean>;
   close?(): Promise<void>;
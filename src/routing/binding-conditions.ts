@@ -0,0 +1,249 @@
+/**
+ * Schedule, text and language conditions on agent bindings.
+ * OPENCLAWMU ADDITION: time-window and content-based routing.
+ *
+ * A binding with conditions only matches while all of them hold. Within a routing tier,
+ * conditional bindings are tried before unconditional ones, so an "after-hours" binding
+ * wins over a plain binding for the same channel while its window is open.
+ */
+
+import type { OpenClawConfig } from "../config/config.js";
+import type { AgentBinding } from "../config/types.agents.js";
+import { resolveUserTimezone } from "../agents/date-time.js";
+
+export type NormalizedBindingConditions = {
+  schedule: {
+    days: Set<number> | null;
+    startMin: number;
+    endMin: number;
+    timezone: string | undefined;
+  } | null;
+  text: RegExp[] | null;
+  language: Set<string> | null;
+  /** A condition could not be compiled; the binding never matches. */
+  invalid: string | null;
+};
+
+export type BindingConditionInput = {
+  cfg: OpenClawConfig;
+  nowMs: number;
+  text: string;
+  /** Detected (or caller-supplied) language of `text`; computed on first use. */
+  language: () => string | null;
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const TIME_PATTERN = /^([01]\d|2[0-3]|24):([0-5]\d)$/;
+
+function parseTime(raw: string | undefined, fallback: number): number | null {
+  if (!raw) {
+    return fallback;
+  }
+  const match = TIME_PATTERN.exec(raw);
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes > 24 * 60 ? null : minutes;
+}
+
+/** Primary subtag of a language code, lowercased ("en-US" -> "en"). */
+export function normalizeLanguageCode(raw: string | undefined | null): string {
+  return (raw ?? "").trim().toLowerCase().split(/[-_]/)[0] ?? "";
+}
+
+export function normalizeBindingConditions(
+  match: AgentBinding["match"] | undefined,
+): NormalizedBindingConditions | null {
+  const schedule = match?.schedule;
+  const text = Array.isArray(match?.text) && match.text.length > 0 ? match.text : null;
+  const language =
+    Array.isArray(match?.language) && match.language.length > 0 ? match.language : null;
+  if (!schedule && !text && !language) {
+    return null;
+  }
+  const conditions: NormalizedBindingConditions = {
+    schedule: null,
+    text: null,
+    language: language ? new Set(language.map(normalizeLanguageCode).filter(Boolean)) : null,
+    invalid: null,
+  };
+  if (schedule) {
+    const startMin = parseTime(schedule.start, 0);
+    const endMin = parseTime(schedule.end, 24 * 60);
+    if (startMin === null || endMin === null || startMin === 24 * 60) {
+      conditions.invalid = "invalid schedule time";
+    } else {
+      conditions.schedule = {
+        days:
+          Array.isArray(schedule.days) && schedule.days.length > 0 ? new Set(schedule.days) : null,
+        startMin,
+        endMin,
+        timezone: schedule.timezone,
+      };
+    }
+  }
+  if (text) {
+    try {
+      conditions.text = text.map((pattern) => new RegExp(pattern, "i"));
+    } catch {
+      conditions.invalid = "invalid text pattern";
+    }
+  }
+  return conditions;
+}
+
+/** The condition reported as `matchedBy` when a conditional binding wins. */
+export function describeBindingConditionKind(conditions: NormalizedBindingConditions) {
+  if (conditions.text) {
+    return "binding.text" as const;
+  }
+  if (conditions.language) {
+    return "binding.language" as const;
+  }
+  return "binding.schedule" as const;
+}
+
+function resolveScheduleTimezone(cfg: OpenClawConfig, raw?: string): string {
+  const trimmed = raw?.trim();
+  if (!trimmed || trimmed === "user") {
+    return resolveUserTimezone(cfg.agents?.defaults?.userTimezone);
+  }
+  if (trimmed === "local") {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone?.trim() || "UTC";
+  }
+  return resolveUserTimezone(trimmed);
+}
+
+function readLocalTime(nowMs: number, timeZone: string) {
+  const parts: Record<string, string> = {};
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  for (const part of format.formatToParts(new Date(nowMs))) {
+    parts[part.type] = part.value;
+  }
+  return {
+    weekday: WEEKDAYS.indexOf(parts.weekday ?? ""),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function isWithinSchedule(
+  schedule: NonNullable<NormalizedBindingConditions["schedule"]>,
+  input: BindingConditionInput,
+): boolean {
+  const local = readLocalTime(input.nowMs, resolveScheduleTimezone(input.cfg, schedule.timezone));
+  const startsOn = (weekday: number) => !schedule.days || schedule.days.has(weekday);
+  if (schedule.startMin < schedule.endMin) {
+    return (
+      startsOn(local.weekday) &&
+      local.minutes >= schedule.startMin &&
+      local.minutes < schedule.endMin
+    );
+  }
+  // Overnight window: the early-morning part belongs to the previous day's window
+  if (local.minutes >= schedule.startMin) {
+    return startsOn(local.weekday);
+  }
+  return local.minutes < schedule.endMin && startsOn((local.weekday + 6) % 7);
+}
+
+/**
+ * Checks the conditions of a binding. Returns null when all hold, otherwise why the
+ * binding was skipped.
+ */
+export function checkBindingConditions(
+  conditions: NormalizedBindingConditions,
+  input: BindingConditionInput,
+): string | null {
+  if (conditions.invalid) {
+    return conditions.invalid;
+  }
+  if (conditions.schedule && !isWithinSchedule(conditions.schedule, input)) {
+    return "outside schedule";
+  }
+  if (conditions.text && !conditions.text.some((pattern) => pattern.test(input.text))) {
+    return "text did not match";
+  }
+  if (conditions.language) {
+    const language = input.language();
+    if (!language || !conditions.language.has(language)) {
+      return `language ${language ?? "unknown"} not in ${[...conditions.language].join(",")}`;
+    }
+  }
+  return null;
+}
+
+// --- Language detection ---
+
+/** Scripts used by (mostly) a single language. */
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/[\uAC00-\uD7AF\u1100-\u11FF]/gu, "ko"],
+  [/[\u3040-\u30FF]/gu, "ja"],
+  [/[\u4E00-\u9FFF]/gu, "zh"],
+  [/[\u0400-\u04FF]/gu, "ru"],
+  [/[\u0600-\u06FF]/gu, "ar"],
+  [/[\u0590-\u05FF]/gu, "he"],
+  [/[\u0370-\u03FF]/gu, "el"],
+  [/[\u0E00-\u0E7F]/gu, "th"],
+  [/[\u0900-\u097F]/gu, "hi"],
+];
+
+/** Frequent short words of Latin-script languages. */
+const STOPWORDS: Record<string, string> = {
+  en: "the and is are you my to of it for not with have this what how can please i",
+  de: "der die das und ist nicht ich mein meine sie mit ein eine zu auf bitte wie was habe",
+  fr: "le la les et est je pas mon ma vous une un des pour avec que merci comment ne",
+  es: "el la los las y es no mi por una un que con para gracias como está tengo yo",
+  pt: "o a os as e é não meu minha uma um que com para obrigado como está tenho eu",
+  it: "il lo la gli e è non mio mia una un che con per grazie come sono ho io",
+  nl: "de het een en is niet ik mijn je met van voor dat op bedankt hoe wat heb graag",
+};
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(
+  ([language, words]) => [language, new Set(words.split(" "))] as const,
+);
+
+/**
+ * Guesses the ISO 639-1 language of a message: by script for non-Latin text, by common
+ * words for Latin text. Returns null when there is too little to go on.
+ */
+export function detectTextLanguage(text: string): string | null {
+  let best: { language: string; count: number } | null = null;
+  for (const [pattern, language] of SCRIPT_LANGUAGES) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count > (best?.count ?? 0)) {
+      best = { language, count };
+    }
+  }
+  if (best) {
+    // Japanese mixes kana with Han characters; any kana decides it
+    if (best.language === "zh" && /[\u3040-\u30FF]/u.test(text)) {
+      return "ja";
+    }
+    if (best.language === "ru" && /[\u0456\u0457\u0454\u0491]/iu.test(text)) {
+      return "uk";
+    }
+    return best.language;
+  }
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  let bestScore = 0;
+  let bestLanguage: string | null = null;
+  let tied = false;
+  for (const [language, stopwords] of STOPWORD_SETS) {
+    const score = words.filter((word) => stopwords.has(word)).length;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLanguage = language;
+      tied = false;
+    } else if (score === bestScore && score > 0) {
+      tied = true;
+    }
+  }
+  return bestScore > 0 && !tied ? bestLanguage : null;
+}
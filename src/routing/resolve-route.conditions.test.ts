@@ -0,0 +1,145 @@
+import { describe, expect, test } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { detectTextLanguage } from "./binding-conditions.js";
+import { explainAgentRoute, resolveAgentRoute } from "./resolve-route.js";
+
+// Friday 2026-10-16 in Europe/Berlin (UTC+2)
+const FRIDAY_NOON = Date.parse("2026-10-16T12:00:00+02:00");
+const FRIDAY_NIGHT = Date.parse("2026-10-16T23:30:00+02:00");
+const SATURDAY_EARLY = Date.parse("2026-10-17T06:00:00+02:00");
+const SATURDAY_NIGHT = Date.parse("2026-10-17T23:30:00+02:00");
+const MONDAY_EARLY = Date.parse("2026-10-19T06:00:00+02:00");
+
+const cfg: OpenClawConfig = {
+  agents: { list: [{ id: "support" }, { id: "after-hours" }, { id: "billing" }, { id: "de" }] },
+  bindings: [
+    { agentId: "support", match: { channel: "slack", accountId: "*" } },
+    {
+      agentId: "after-hours",
+      match: {
+        channel: "slack",
+        accountId: "*",
+        // Weeknights, including the early morning after them
+        schedule: {
+          days: [1, 2, 3, 4, 5],
+          start: "18:00",
+          end: "08:00",
+          timezone: "Europe/Berlin",
+        },
+      },
+    },
+    {
+      agentId: "billing",
+      match: { channel: "slack", accountId: "*", text: ["\\binvoice", "refund"] },
+    },
+    { agentId: "de", match: { channel: "slack", accountId: "*", language: ["de"] } },
+  ],
+};
+
+const route = (text: string, nowMs: number) =>
+  resolveAgentRoute({ cfg, channel: "slack", peer: { kind: "direct", id: "U1" }, text, nowMs });
+
+describe("resolveAgentRoute conditions", () => {
+  test("routes by schedule, including overnight windows", () => {
+    expect(route("hello there", FRIDAY_NOON)).toMatchObject({
+      agentId: "support",
+      matchedBy: "binding.channel",
+    });
+    expect(route("hello there", FRIDAY_NIGHT)).toMatchObject({
+      agentId: "after-hours",
+      matchedBy: "binding.schedule",
+    });
+    // Friday night's window runs into Saturday morning; Saturday night has none
+    expect(route("hello there", SATURDAY_EARLY).agentId).toBe("after-hours");
+    expect(route("hello there", SATURDAY_NIGHT).agentId).toBe("support");
+    expect(route("hello there", MONDAY_EARLY).agentId).toBe("support");
+  });
+
+  test("routes by text pattern and detected language in binding order", () => {
+    expect(route("Where is my Invoice?", FRIDAY_NOON)).toMatchObject({
+      agentId: "billing",
+      matchedBy: "binding.text",
+    });
+    expect(route("Ich habe eine Frage zu meinem Konto", FRIDAY_NOON)).toMatchObject({
+      agentId: "de",
+      matchedBy: "binding.language",
+    });
+    // Earlier conditional bindings win when several apply
+    expect(route("Ich will eine refund", FRIDAY_NIGHT).agentId).toBe("after-hours");
+    expect(
+      resolveAgentRoute({
+        cfg,
+        channel: "slack",
+        text: "Bonjour",
+        language: "de-AT",
+        nowMs: FRIDAY_NOON,
+      }).agentId,
+    ).toBe("de");
+  });
+
+  test("structural tiers still outrank conditional bindings", () => {
+    const withPeer: OpenClawConfig = {
+      ...cfg,
+      bindings: [
+        ...(cfg.bindings ?? []),
+        { agentId: "support", match: { channel: "slack", peer: { kind: "direct", id: "U1" } } },
+      ],
+    };
+    expect(
+      resolveAgentRoute({
+        cfg: withPeer,
+        channel: "slack",
+        peer: { kind: "direct", id: "U1" },
+        text: "refund please",
+        nowMs: FRIDAY_NOON,
+      }),
+    ).toMatchObject({ agentId: "support", matchedBy: "binding.peer" });
+  });
+
+  test("explains which binding won and why the others did not", () => {
+    const explanation = explainAgentRoute({
+      cfg: {
+        ...cfg,
+        bindings: [
+          ...(cfg.bindings ?? []),
+          { agentId: "support", match: { channel: "telegram" } },
+          { agentId: "billing", match: { channel: "slack", accountId: "*", text: ["("] } },
+        ],
+      },
+      channel: "slack",
+      text: "refund",
+      nowMs: FRIDAY_NOON,
+    });
+    expect(explanation.route).toMatchObject({ agentId: "billing", matchedBy: "binding.text" });
+    expect(
+      explanation.bindings.map(({ index, status, reason, tier }) => ({
+        index,
+        status,
+        reason,
+        tier,
+      })),
+    ).toEqual([
+      { index: 0, status: "matched", reason: undefined, tier: "binding.channel" },
+      { index: 1, status: "skipped", reason: "outside schedule", tier: "binding.channel" },
+      { index: 2, status: "selected", reason: undefined, tier: "binding.channel" },
+      {
+        index: 3,
+        status: "skipped",
+        reason: "language unknown not in de",
+        tier: "binding.channel",
+      },
+      { index: 4, status: "skipped", reason: "channel is not slack", tier: "binding.account" },
+      { index: 5, status: "skipped", reason: "invalid text pattern", tier: "binding.channel" },
+    ]);
+  });
+
+  test("detects languages by script and common words", () => {
+    expect(detectTextLanguage("The invoice for this month is wrong")).toBe("en");
+    expect(detectTextLanguage("¿Dónde está mi factura? No la tengo")).toBe("es");
+    expect(detectTextLanguage("Je ne trouve pas ma facture")).toBe("fr");
+    expect(detectTextLanguage("Где мой счёт?")).toBe("ru");
+    expect(detectTextLanguage("請求書はどこですか")).toBe("ja");
+    expect(detectTextLanguage("我的发票在哪里")).toBe("zh");
+    expect(detectTextLanguage("12345")).toBeNull();
+  });
+});
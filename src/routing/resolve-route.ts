@@ -1,9 +1,19 @@
 import type { ChatType } from "../channels/chat-type.js";
 import type { OpenClawConfig } from "../config/config.js";
+import type { AgentBinding } from "../config/types.agents.js";
 import { resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { normalizeChatType } from "../channels/chat-type.js";
 import { shouldLogVerbose } from "../globals.js";
 import { logDebug } from "../logger.js";
+import {
+  checkBindingConditions,
+  describeBindingConditionKind,
+  detectTextLanguage,
+  normalizeBindingConditions,
+  normalizeLanguageCode,
+  type BindingConditionInput,
+  type NormalizedBindingConditions,
+} from "./binding-conditions.js";
 import { listBindings } from "./bindings.js";
 import {
   buildAgentMainSessionKey,
@@ -33,6 +43,12 @@ export type ResolveAgentRouteInput = {
   teamId?: string | null;
   /** Discord member role IDs — used for role-based agent routing. */
   memberRoleIds?: string[];
+  /** OPENCLAWMU ADDITION: inbound message text for `text`/`language` binding conditions. */
+  text?: string | null;
+  /** OPENCLAWMU ADDITION: language of `text` when known; detected from `text` otherwise. */
+  language?: string | null;
+  /** OPENCLAWMU ADDITION: time for `schedule` binding conditions (default now). */
+  nowMs?: number;
 };
 
 export type ResolvedAgentRoute = {
@@ -52,6 +68,9 @@ export type ResolvedAgentRoute = {
     | "binding.team"
     | "binding.account"
     | "binding.channel"
+    | "binding.text"
+    | "binding.language"
+    | "binding.schedule"
     | "default";
 };
 
@@ -148,6 +167,7 @@ type NormalizedBindingMatch = {
   guildId: string | null;
   teamId: string | null;
   roles: string[] | null;
+  conditions: NormalizedBindingConditions | null;
 };
 
 type EvaluatedBinding = {
@@ -203,6 +223,10 @@ function getEvaluatedBindingsForChannelAccount(
     }
     return [{ binding, match: normalizeBindingMatch(binding.match) }];
   });
+  // Conditional bindings go first so they beat unconditional ones in the same tier
+  evaluated.sort(
+    (a, b) => Number(Boolean(b.match.conditions)) - Number(Boolean(a.match.conditions)),
+  );
 
   cache.byChannelAccount.set(cacheKey, evaluated);
   if (cache.byChannelAccount.size > MAX_EVALUATED_BINDINGS_CACHE_KEYS) {
@@ -227,17 +251,7 @@ function normalizePeerConstraint(
   return { state: "valid", kind, id };
 }
 
-function normalizeBindingMatch(
-  match:
-    | {
-        accountId?: string | undefined;
-        peer?: { kind?: string; id?: string } | undefined;
-        guildId?: string | undefined;
-        teamId?: string | undefined;
-        roles?: string[] | undefined;
-      }
-    | undefined,
-): NormalizedBindingMatch {
+function normalizeBindingMatch(match: AgentBinding["match"] | undefined): NormalizedBindingMatch {
   const rawRoles = match?.roles;
   return {
     accountPattern: (match?.accountId ?? "").trim(),
@@ -245,6 +259,7 @@ function normalizeBindingMatch(
     guildId: normalizeId(match?.guildId) || null,
     teamId: normalizeId(match?.teamId) || null,
     roles: Array.isArray(rawRoles) && rawRoles.length > 0 ? rawRoles : null,
+    conditions: normalizeBindingConditions(match),
   };
 }
 
@@ -287,6 +302,28 @@ function matchesBindingScope(match: NormalizedBindingMatch, scope: BindingScope)
 }
 
 export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentRoute {
+  return resolveAgentRouteMatch(input).route;
+}
+
+function createConditionInput(input: ResolveAgentRouteInput): BindingConditionInput {
+  let language: string | null | undefined;
+  return {
+    cfg: input.cfg,
+    nowMs: input.nowMs ?? Date.now(),
+    text: input.text ?? "",
+    language: () => {
+      if (language === undefined) {
+        language = normalizeLanguageCode(input.language) || detectTextLanguage(input.text ?? "");
+      }
+      return language;
+    },
+  };
+}
+
+function resolveAgentRouteMatch(input: ResolveAgentRouteInput): {
+  route: ResolvedAgentRoute;
+  binding: AgentBinding | null;
+} {
   const channel = normalizeToken(input.channel);
   const accountId = normalizeAccountId(input.accountId);
   const peer = input.peer ? { kind: input.peer.kind, id: normalizeId(input.peer.id) } : null;
@@ -323,6 +360,7 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
       matchedBy,
     };
   };
+  const conditionInput = createConditionInput(input);
 
   const shouldLogDebug = shouldLogVerbose();
   const formatPeer = (value?: RoutePeer | null) =>
@@ -343,7 +381,7 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
     );
     for (const entry of bindings) {
       logDebug(
-        `[routing] binding: agentId=${entry.binding.agentId} accountPattern=${entry.match.accountPattern || "default"} peer=${formatNormalizedPeer(entry.match.peer)} guildId=${entry.match.guildId ?? "none"} teamId=${entry.match.teamId ?? "none"} roles=${entry.match.roles?.length ?? 0}`,
+        `[routing] binding: agentId=${entry.binding.agentId} accountPattern=${entry.match.accountPattern || "default"} peer=${formatNormalizedPeer(entry.match.peer)} guildId=${entry.match.guildId ?? "none"} teamId=${entry.match.teamId ?? "none"} roles=${entry.match.roles?.length ?? 0} conditions=${entry.match.conditions ? "yes" : "none"}`,
       );
     }
   }
@@ -419,15 +457,133 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
         matchesBindingScope(candidate.match, {
           ...baseScope,
           peer: tier.scopePeer,
-        }),
+        }) &&
+        (!candidate.match.conditions ||
+          checkBindingConditions(candidate.match.conditions, conditionInput) === null),
     );
     if (matched) {
+      const matchedBy = matched.match.conditions
+        ? describeBindingConditionKind(matched.match.conditions)
+        : tier.matchedBy;
       if (shouldLogDebug) {
-        logDebug(`[routing] match: matchedBy=${tier.matchedBy} agentId=${matched.binding.agentId}`);
+        logDebug(`[routing] match: matchedBy=${matchedBy} agentId=${matched.binding.agentId}`);
       }
-      return choose(matched.binding.agentId, tier.matchedBy);
+      return { route: choose(matched.binding.agentId, matchedBy), binding: matched.binding };
     }
   }
 
-  return choose(resolveDefaultAgentId(input.cfg), "default");
+  return { route: choose(resolveDefaultAgentId(input.cfg), "default"), binding: null };
+}
+
+// --- Route explanation (OPENCLAWMU ADDITION) ---
+
+export type AgentRouteBindingExplanation = {
+  /** Position in `cfg.bindings`. */
+  index: number;
+  agentId: string;
+  binding: AgentBinding;
+  /** Structural tier the binding competes in; conditional bindings go first within it. */
+  tier: Exclude<ResolvedAgentRoute["matchedBy"], "default" | BindingConditionKind>;
+  /** `selected` won; `matched` applied but lost to a higher-ranked binding. */
+  status: "selected" | "matched" | "skipped";
+  /** Why the binding was skipped. */
+  reason?: string;
+};
+
+export type AgentRouteExplanation = {
+  route: ResolvedAgentRoute;
+  /** Language used for `language` conditions (supplied or detected). */
+  language: string | null;
+  bindings: AgentRouteBindingExplanation[];
+};
+
+type BindingConditionKind = ReturnType<typeof describeBindingConditionKind>;
+
+function resolveBindingTier(match: NormalizedBindingMatch): AgentRouteBindingExplanation["tier"] {
+  if (match.peer.state === "valid") {
+    return "binding.peer";
+  }
+  if (hasGuildConstraint(match)) {
+    return hasRolesConstraint(match) ? "binding.guild+roles" : "binding.guild";
+  }
+  if (hasTeamConstraint(match)) {
+    return "binding.team";
+  }
+  return match.accountPattern === "*" ? "binding.channel" : "binding.account";
+}
+
+function describeScopeMismatch(
+  match: NormalizedBindingMatch,
+  scope: BindingScope & { parentPeer: RoutePeer | null },
+): string | null {
+  if (match.peer.state === "invalid") {
+    return "invalid peer";
+  }
+  if (match.peer.state === "valid") {
+    const target = `${match.peer.kind}:${match.peer.id}`;
+    const matchesPeer = (value: RoutePeer | null) =>
+      Boolean(value && `${value.kind}:${value.id}` === target);
+    if (!matchesPeer(scope.peer) && !matchesPeer(scope.parentPeer)) {
+      return `peer is not ${target}`;
+    }
+  }
+  if (match.guildId && match.guildId !== scope.guildId) {
+    return `guild is not ${match.guildId}`;
+  }
+  if (match.teamId && match.teamId !== scope.teamId) {
+    return `team is not ${match.teamId}`;
+  }
+  if (match.roles && !match.roles.some((role) => scope.memberRoleIds.has(role))) {
+    return `no role in ${match.roles.join(",")}`;
+  }
+  return null;
+}
+
+/**
+ * Resolves a route like `resolveAgentRoute` and reports, for every configured binding,
+ * whether it won, applied but lost, or why it was skipped.
+ */
+export function explainAgentRoute(input: ResolveAgentRouteInput): AgentRouteExplanation {
+  const { route, binding: selected } = resolveAgentRouteMatch(input);
+  const channel = normalizeToken(input.channel);
+  const accountId = normalizeAccountId(input.accountId);
+  const normalizePeer = (value?: RoutePeer | null) =>
+    value && normalizeId(value.id) ? { kind: value.kind, id: normalizeId(value.id) } : null;
+  const scope = {
+    peer: normalizePeer(input.peer),
+    parentPeer: normalizePeer(input.parentPeer),
+    guildId: normalizeId(input.guildId),
+    teamId: normalizeId(input.teamId),
+    memberRoleIds: new Set(input.memberRoleIds ?? []),
+  };
+  const conditionInput = createConditionInput(input);
+
+  const bindings = listBindings(input.cfg).map((binding, index) => {
+    const match = normalizeBindingMatch(binding?.match);
+    const explanation: AgentRouteBindingExplanation = {
+      index,
+      agentId: binding?.agentId,
+      binding,
+      tier: resolveBindingTier(match),
+      status: "skipped",
+    };
+    const skip = (reason: string) => ({ ...explanation, reason });
+    if (!matchesChannel(binding?.match, channel)) {
+      return skip(`channel is not ${channel}`);
+    }
+    if (!matchesAccountId(binding.match.accountId, accountId)) {
+      return skip(
+        `account ${accountId} does not match ${binding.match.accountId?.trim() || DEFAULT_ACCOUNT_ID}`,
+      );
+    }
+    const mismatch =
+      describeScopeMismatch(match, scope) ??
+      (match.conditions ? checkBindingConditions(match.conditions, conditionInput) : null);
+    if (mismatch) {
+      return skip(mismatch);
+    }
+    return { ...explanation, status: binding === selected ? "selected" : "matched" } as const;
+  });
+
+  return { route, language: conditionInput.language(), bindings };
 }
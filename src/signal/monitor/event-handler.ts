@@ -85,6 +85,8 @@ export function createSignalEventHandler(deps: SignalEventHandlerDeps) {
         kind: entry.isGroup ? "group" : "direct",
         id: entry.isGroup ? (entry.groupId ?? "unknown") : entry.senderPeerId,
       },
+      // OPENCLAWMU ADDITION: text/language binding conditions
+      text: entry.bodyText,
     });
     const storePath = resolveStorePath(deps.cfg.session?.store, {
       agentId: route.agentId,
@@ -395,6 +397,8 @@ export function createSignalEventHandler(deps: SignalEventHandlerDeps) {
           kind: isGroup ? "group" : "direct",
           id: isGroup ? (groupId ?? "unknown") : senderPeerId,
         },
+        // OPENCLAWMU ADDITION: text/language binding conditions match the reaction emoji
+        text: emojiLabel,
       });
       const groupLabel = isGroup ? `${groupName ?? "Signal Group"} id:${groupId}` : undefined;
       const messageId = reaction.targetSentTimestamp
@@ -529,6 +533,8 @@ export function createSignalEventHandler(deps: SignalEventHandlerDeps) {
         kind: isGroup ? "group" : "direct",
         id: isGroup ? (groupId ?? "unknown") : senderPeerId,
       },
+      // OPENCLAWMU ADDITION: text/language binding conditions
+      text: messageText,
     });
     const mentionRegexes = buildMentionRegexes(deps.cfg, route.agentId);
     const wasMentioned = isGroup && matchesMentionPatterns(messageText, mentionRegexes);
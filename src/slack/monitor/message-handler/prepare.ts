@@ -195,6 +195,8 @@ export async function prepareSlackMessage(params: {
       kind: isDirectMessage ? "direct" : isRoom ? "channel" : "group",
       id: isDirectMessage ? (message.user ?? "unknown") : message.channel,
     },
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: message.text,
   });
 
   const baseSessionKey = route.sessionKey;
@@ -385,6 +385,8 @@ export function registerSlackMonitorSlashCommands(params: {
           kind: isDirectMessage ? "direct" : isRoom ? "channel" : "group",
           id: isDirectMessage ? command.user_id : command.channel_id,
         },
+        // OPENCLAWMU ADDITION: text/language binding conditions
+        text: prompt,
       });
 
       const { untrustedChannelMetadata, groupSystemPrompt } = resolveSlackRoomContextHints({
@@ -175,6 +175,8 @@ export const buildTelegramMessageContext = async ({
       id: peerId,
     },
     parentPeer,
+    // OPENCLAWMU ADDITION: text/language binding conditions
+    text: msg.text ?? msg.caption,
   });
   const baseSessionKey = route.sessionKey;
   // DMs: use raw messageThreadId for thread sessions (not forum topic ids)
@@ -431,6 +431,8 @@ export function createTelegramBot(opts: TelegramBotOptions) {
         accountId: account.accountId,
         peer: { kind: isGroup ? "group" : "direct", id: peerId },
         parentPeer,
+        // OPENCLAWMU ADDITION: text/language binding conditions match the added emoji
+        text: addedReactions.map((r) => r.emoji).join(" "),
       });
       const sessionKey = route.sessionKey;
 
@@ -0,0 +1,179 @@
+/**
+ * Archive helpers shared by tenant backups and exports.
+ * OPENCLAWMU ADDITION: directory scanning, hashing, no-follow reads and safe tar.gz
+ * extraction.
+ */
+
+import { createHash } from "node:crypto";
+import { constants as fsConstants, createReadStream, type Dirent, type Stats } from "node:fs";
+import fs, { type FileHandle } from "node:fs/promises";
+import path from "node:path";
+import * as tar from "tar";
+
+export type ScannedEntry =
+  | { kind: "file"; size: number; mtimeMs: number }
+  | { kind: "link"; link: string };
+
+function toPosix(rel: string): string {
+  return rel.split(path.sep).join("/");
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+/** Hashes an open file from its start, copying it to `copyTo` on the way when given. */
+export async function sha256FileHandle(handle: FileHandle, copyTo?: FileHandle): Promise<string> {
+  const hash = createHash("sha256");
+  const buffer = Buffer.allocUnsafe(64 * 1024);
+  let position = 0;
+  for (;;) {
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+    if (bytesRead === 0) {
+      break;
+    }
+    hash.update(buffer.subarray(0, bytesRead));
+    await copyTo?.write(buffer, 0, bytesRead);
+    position += bytesRead;
+  }
+  return hash.digest("hex");
+}
+
+/** Whether `target`, with symlinks resolved, is `root` or inside it. */
+export async function isRealPathInside(root: string, target: string): Promise<boolean> {
+  const [realRoot, realTarget] = await Promise.all([fs.realpath(root), fs.realpath(target)]);
+  return realTarget === realRoot || realTarget.startsWith(`${realRoot}${path.sep}`);
+}
+
+/**
+ * Opens `root/rel` for reading without following symlinks: O_NOFOLLOW for the file
+ * itself, and its parent must resolve inside `root`. Returns null when it is not a
+ * regular file (any more); `stat` is taken from the opened descriptor.
+ */
+export async function openRegularFileNoFollow(
+  root: string,
+  rel: string,
+): Promise<{ handle: FileHandle; stat: Stats } | null> {
+  const full = path.join(root, rel);
+  if (!(await isRealPathInside(root, path.dirname(full)).catch(() => false))) {
+    return null;
+  }
+  let handle: FileHandle;
+  try {
+    handle = await fs.open(
+      full,
+      fsConstants.O_RDONLY | fsConstants.O_NOFOLLOW | fsConstants.O_NONBLOCK,
+    );
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === "ENOENT" || code === "ENOTDIR" || code === "ELOOP" || code === "ENXIO") {
+      return null;
+    }
+    throw err;
+  }
+  try {
+    const stat = await handle.stat();
+    if (stat.isFile()) {
+      return { handle, stat };
+    }
+  } catch (err) {
+    await handle.close();
+    throw err;
+  }
+  await handle.close();
+  return null;
+}
+
+/**
+ * Lists regular files and symlinks under `root` (relative, "/"-separated).
+ * `skip` excludes files and whole directories; a missing root yields an empty map.
+ */
+export async function scanDirectoryFiles(
+  root: string,
+  skip?: (rel: string, full: string) => boolean,
+): Promise<Map<string, ScannedEntry>> {
+  const out = new Map<string, ScannedEntry>();
+  const walk = async (dir: string) => {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw err;
+    }
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      const rel = toPosix(path.relative(root, full));
+      if (skip?.(rel, full)) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        await walk(full);
+      } else if (entry.isSymbolicLink()) {
+        out.set(rel, { kind: "link", link: await fs.readlink(full) });
+      } else if (entry.isFile()) {
+        const stat = await fs.stat(full);
+        out.set(rel, { kind: "file", size: stat.size, mtimeMs: Math.trunc(stat.mtimeMs) });
+      }
+    }
+  };
+  await walk(root);
+  return out;
+}
+
+/**
+ * Extracts a tar.gz archive to a directory.
+ * Includes security measures to prevent symlink/path traversal attacks.
+ */
+export async function extractTarGz(archivePath: string, targetDir: string): Promise<void> {
+  await fs.mkdir(targetDir, { recursive: true });
+
+  // Resolve the absolute target directory for security checks
+  const resolvedTargetDir = path.resolve(targetDir);
+
+  await tar.extract({
+    file: archivePath,
+    cwd: targetDir,
+    strip: 0,
+    // Security: reject absolute paths in archive
+    preservePaths: false,
+    // Security: don't change file permissions
+    noChmod: true,
+    // Security: don't preserve mtime (reduces attack surface)
+    noMtime: true,
+    // Security: filter out dangerous entries
+    filter: (entryPath, entry) => {
+      // Cast entry to ReadEntry to access type and linkpath
+      const readEntry = entry as tar.ReadEntry;
+      // Reject symlinks that could point outside the target directory
+      if (readEntry.type === "SymbolicLink" || readEntry.type === "Link") {
+        const linkTarget = readEntry.linkpath ?? "";
+        // Resolve the symlink target relative to the entry's parent directory
+        const entryDir = path.dirname(path.join(resolvedTargetDir, entryPath));
+        const resolvedLink = path.resolve(entryDir, linkTarget);
+        // Reject if the link points outside the target directory
+        if (
+          !resolvedLink.startsWith(resolvedTargetDir + path.sep) &&
+          resolvedLink !== resolvedTargetDir
+        ) {
+          return false;
+        }
+      }
+      // Reject paths that try to escape (should be caught by preservePaths: false, but defense in depth)
+      const resolvedEntry = path.resolve(resolvedTargetDir, entryPath);
+      if (
+        !resolvedEntry.startsWith(resolvedTargetDir + path.sep) &&
+        resolvedEntry !== resolvedTargetDir
+      ) {
+        return false;
+      }
+      return true;
+    },
+  });
+}
@@ -0,0 +1,153 @@
+/**
+ * Encryption at rest for tenant backup archives.
+ * OPENCLAWMU ADDITION: AES-256-GCM with a per-tenant key derived from a master key.
+ *
+ * Layout: "OCBKENC1" | salt (16) | iv (12) | tenantId length (1) | tenantId | ciphertext | tag (16).
+ * The header is authenticated as additional data, so the source tenant cannot be swapped.
+ */
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import fs from "node:fs/promises";
+import { pipeline } from "node:stream/promises";
+import type { OpenClawConfig } from "../config/config.js";
+import type { TenantId } from "./types.js";
+import { resolveUserPath } from "../utils.js";
+
+const MAGIC = Buffer.from("OCBKENC1", "ascii");
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const MIN_MASTER_KEY_BYTES = 16;
+
+export const BACKUP_ENCRYPTION_KEY_ENV = "OPENCLAW_BACKUP_ENCRYPTION_KEY";
+
+/**
+ * Loads the backup master key from `gateway.backup.encryptionKeyFile` or
+ * OPENCLAW_BACKUP_ENCRYPTION_KEY. Returns undefined when encryption is not configured.
+ * @throws Error if the key is configured but too short or unreadable
+ */
+export async function resolveBackupEncryptionKey(params: {
+  cfg?: OpenClawConfig;
+  env?: NodeJS.ProcessEnv;
+}): Promise<Buffer | undefined> {
+  const keyFile = params.cfg?.gateway?.backup?.encryptionKeyFile;
+  const raw = keyFile
+    ? await fs.readFile(resolveUserPath(keyFile), "utf8")
+    : (params.env ?? process.env)[BACKUP_ENCRYPTION_KEY_ENV];
+  const key = raw?.trim();
+  if (!key) {
+    return undefined;
+  }
+  const bytes = Buffer.from(key, "utf8");
+  if (bytes.length < MIN_MASTER_KEY_BYTES) {
+    throw new Error(`Backup encryption key must be at least ${MIN_MASTER_KEY_BYTES} bytes`);
+  }
+  return bytes;
+}
+
+function deriveTenantBackupKey(masterKey: Buffer, tenantId: TenantId, salt: Buffer): Buffer {
+  return Buffer.from(hkdfSync("sha256", masterKey, salt, `openclaw-tenant-backup:${tenantId}`, 32));
+}
+
+function buildHeader(salt: Buffer, iv: Buffer, tenantId: TenantId): Buffer {
+  const id = Buffer.from(tenantId, "utf8");
+  return Buffer.concat([MAGIC, salt, iv, Buffer.from([id.length]), id]);
+}
+
+/**
+ * Whether a file starts with the encrypted backup header.
+ */
+export async function isEncryptedBackupFile(filePath: string): Promise<boolean> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buf = Buffer.alloc(MAGIC.length);
+    const { bytesRead } = await handle.read(buf, 0, MAGIC.length, 0);
+    return bytesRead === MAGIC.length && buf.equals(MAGIC);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Encrypts `srcPath` into `destPath` with the tenant's derived key.
+ */
+export async function encryptBackupFile(params: {
+  srcPath: string;
+  destPath: string;
+  tenantId: TenantId;
+  masterKey: Buffer;
+}): Promise<void> {
+  const salt = randomBytes(SALT_BYTES);
+  const iv = randomBytes(IV_BYTES);
+  const header = buildHeader(salt, iv, params.tenantId);
+  const cipher = createCipheriv(
+    "aes-256-gcm",
+    deriveTenantBackupKey(params.masterKey, params.tenantId, salt),
+    iv,
+  );
+  cipher.setAAD(header);
+  await fs.writeFile(params.destPath, header);
+  await pipeline(
+    createReadStream(params.srcPath),
+    cipher,
+    createWriteStream(params.destPath, { flags: "a" }),
+  );
+  await fs.appendFile(params.destPath, cipher.getAuthTag());
+}
+
+/**
+ * Decrypts an encrypted backup into `destPath` and verifies its authentication tag.
+ * Returns the tenant the archive was created for.
+ * @throws Error if the header is invalid, the key is wrong, or the archive was modified
+ */
+export async function decryptBackupFile(params: {
+  srcPath: string;
+  destPath: string;
+  masterKey: Buffer;
+}): Promise<{ tenantId: TenantId }> {
+  const { size } = await fs.stat(params.srcPath);
+  const handle = await fs.open(params.srcPath, "r");
+  let header: Buffer;
+  let tag: Buffer;
+  try {
+    const fixed = Buffer.alloc(MAGIC.length + SALT_BYTES + IV_BYTES + 1);
+    await handle.read(fixed, 0, fixed.length, 0);
+    if (!fixed.subarray(0, MAGIC.length).equals(MAGIC)) {
+      throw new Error("Not an encrypted backup archive");
+    }
+    const idLength = fixed[fixed.length - 1];
+    const id = Buffer.alloc(idLength);
+    await handle.read(id, 0, idLength, fixed.length);
+    header = Buffer.concat([fixed, id]);
+    if (size < header.length + TAG_BYTES) {
+      throw new Error("Encrypted backup archive is truncated");
+    }
+    tag = Buffer.alloc(TAG_BYTES);
+    await handle.read(tag, 0, TAG_BYTES, size - TAG_BYTES);
+  } finally {
+    await handle.close();
+  }
+
+  const salt = header.subarray(MAGIC.length, MAGIC.length + SALT_BYTES);
+  const iv = header.subarray(MAGIC.length + SALT_BYTES, MAGIC.length + SALT_BYTES + IV_BYTES);
+  const tenantId = header.subarray(MAGIC.length + SALT_BYTES + IV_BYTES + 1).toString("utf8");
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    deriveTenantBackupKey(params.masterKey, tenantId, salt),
+    iv,
+  );
+  decipher.setAAD(header);
+  decipher.setAuthTag(tag);
+  try {
+    await pipeline(
+      createReadStream(params.srcPath, { start: header.length, end: size - TAG_BYTES - 1 }),
+      decipher,
+      createWriteStream(params.destPath),
+    );
+  } catch {
+    await fs.rm(params.destPath, { force: true });
+    throw new Error("Backup decryption failed (wrong key or corrupted archive)");
+  }
+  return { tenantId };
+}
@@ -0,0 +1,165 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { BackupInfo } from "./backup.js";
+import {
+  resolveTenantBackupSchedule,
+  runDueTenantBackups,
+  selectBackupsToRetain,
+  validateTenantBackupSettings,
+} from "./backup-schedule.js";
+import { readTenantBackupStatus } from "./backup.js";
+import { resolveTenantStateDir } from "./paths.js";
+import { closeTenantRegistryStores } from "./registry-store.js";
+import { createTenant, updateTenant } from "./registry.js";
+
+function backup(timestamp: string, incremental = false): BackupInfo {
+  return {
+    key: `${timestamp}${incremental ? ".incr" : ""}`,
+    size: 1,
+    lastModified: timestamp,
+    tenantId: "demo",
+    timestamp,
+    incremental,
+    encrypted: false,
+  };
+}
+
+describe("selectBackupsToRetain", () => {
+  it("keeps the newest backup per day, week and month", () => {
+    const backups = [
+      backup("2026-03-04T12:00:00.000Z"),
+      backup("2026-03-04T02:00:00.000Z"),
+      backup("2026-03-03T02:00:00.000Z"),
+      backup("2026-03-02T02:00:00.000Z"), // Monday
+      backup("2026-03-01T02:00:00.000Z"), // Sunday of the previous week
+      backup("2026-02-20T02:00:00.000Z"),
+      backup("2026-01-10T02:00:00.000Z"),
+      backup("2025-12-10T02:00:00.000Z"),
+    ];
+    const keep = selectBackupsToRetain(backups, { daily: 2, weekly: 2, monthly: 3 });
+    expect([...keep].toSorted()).toEqual([
+      "2026-01-10T02:00:00.000Z",
+      "2026-02-20T02:00:00.000Z",
+      "2026-03-01T02:00:00.000Z",
+      "2026-03-03T02:00:00.000Z",
+      "2026-03-04T12:00:00.000Z",
+    ]);
+  });
+
+  it("keeps the chain behind a kept incremental backup", () => {
+    const backups = [
+      backup("2026-03-04T02:00:00.000Z", true),
+      backup("2026-03-03T02:00:00.000Z", true),
+      backup("2026-03-02T02:00:00.000Z"),
+      backup("2026-03-01T02:00:00.000Z", true),
+      backup("2026-02-28T02:00:00.000Z"),
+    ];
+    const keep = selectBackupsToRetain(backups, { daily: 1 });
+    expect([...keep].toSorted()).toEqual([
+      "2026-03-02T02:00:00.000Z",
+      "2026-03-03T02:00:00.000Z.incr",
+      "2026-03-04T02:00:00.000Z.incr",
+    ]);
+  });
+});
+
+describe("scheduled tenant backups", () => {
+  let root: string;
+  let env: NodeJS.ProcessEnv;
+  let cfg: OpenClawConfig;
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-backup-schedule-test-"));
+    env = { ...process.env, OPENCLAW_STATE_DIR: path.join(root, "state") } as NodeJS.ProcessEnv;
+    delete env.OPENCLAW_BACKUP_ENCRYPTION_KEY;
+    cfg = {
+      gateway: {
+        backup: {
+          targets: { nightly: { kind: "local", dir: path.join(root, "backups") } },
+          schedule: { cron: "0 3 * * *", tz: "UTC", target: "nightly", retention: { daily: 7 } },
+        },
+      },
+    };
+    await createTenant("demo", undefined, env);
+    await createTenant("optout", undefined, env);
+    await updateTenant("optout", { backup: { enabled: false } }, env);
+  });
+
+  afterEach(() => {
+    closeTenantRegistryStores();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("merges tenant overrides and validates settings", () => {
+    expect(resolveTenantBackupSchedule(cfg, { backup: { cron: "0 4 * * *" } })).toMatchObject({
+      cron: "0 4 * * *",
+      target: "nightly",
+      incremental: false,
+      retention: { daily: 7 },
+    });
+    expect(resolveTenantBackupSchedule(cfg, { backup: { enabled: false } })).toBeNull();
+    expect(resolveTenantBackupSchedule({}, null)).toBeNull();
+    expect(validateTenantBackupSettings({ cron: "not a cron" })).toMatch(/invalid cron/);
+    expect(validateTenantBackupSettings({ retention: { yearly: 1 } })).toMatch(/unknown/);
+    expect(validateTenantBackupSettings({ cron: "0 3 * * *", fullEvery: 3 })).toBeNull();
+  });
+
+  it("waits for the next occurrence, runs once due and records failures", async () => {
+    const start = Date.parse("2026-03-04T01:00:00.000Z");
+    expect(await runDueTenantBackups({ cfg, env, nowMs: start })).toEqual([]);
+    expect(await readTenantBackupStatus("demo", env)).toMatchObject({
+      nextRunAt: "2026-03-04T03:00:00.000Z",
+    });
+    expect(await readTenantBackupStatus("optout", env)).toBeNull();
+
+    const due = Date.parse("2026-03-04T03:00:30.000Z");
+    const [outcome] = await runDueTenantBackups({ cfg, env, nowMs: due });
+    expect(outcome).toMatchObject({ tenantId: "demo", ok: true, pruned: [] });
+    const status = await readTenantBackupStatus("demo", env);
+    expect(status).toMatchObject({
+      consecutiveFailures: 0,
+      nextRunAt: "2026-03-05T03:00:00.000Z",
+    });
+    expect(status?.lastKey).toBe(outcome.ok ? outcome.backup.key : undefined);
+    expect(await runDueTenantBackups({ cfg, env, nowMs: due })).toEqual([]);
+
+    fs.rmSync(path.join(root, "backups"), { recursive: true });
+    fs.writeFileSync(path.join(root, "backups"), "not a directory");
+    const failed = await runDueTenantBackups({
+      cfg,
+      env,
+      nowMs: Date.parse("2026-03-05T03:00:10.000Z"),
+    });
+    expect(failed).toMatchObject([{ tenantId: "demo", ok: false, consecutiveFailures: 1 }]);
+    expect(await readTenantBackupStatus("demo", env)).toMatchObject({
+      lastKey: status?.lastKey,
+      consecutiveFailures: 1,
+      nextRunAt: "2026-03-06T03:00:00.000Z",
+    });
+  });
+
+  it("ignores schedule state the tenant writes into its own directory", async () => {
+    const tenantDir = resolveTenantStateDir("demo", env);
+    const planted = {
+      targets: {},
+      schedule: { nextRunAt: "2099-01-01T00:00:00.000Z", consecutiveFailures: 0 },
+    };
+    fs.writeFileSync(path.join(tenantDir, "backups.json"), JSON.stringify(planted));
+
+    expect(
+      await runDueTenantBackups({ cfg, env, nowMs: Date.parse("2026-03-04T01:00:00.000Z") }),
+    ).toEqual([]);
+    const [outcome] = await runDueTenantBackups({
+      cfg,
+      env,
+      nowMs: Date.parse("2026-03-04T03:00:30.000Z"),
+    });
+    expect(outcome).toMatchObject({ tenantId: "demo", ok: true });
+    expect(JSON.parse(fs.readFileSync(path.join(tenantDir, "backups.json"), "utf8"))).toEqual(
+      planted,
+    );
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Scheduled tenant backups with GFS retention.
+ * OPENCLAWMU ADDITION: runs backups on a cron schedule and prunes by day/week/month.
+ *
+ * The gateway-wide `gateway.backup.schedule` applies to every tenant; a tenant's `backup`
+ * settings override it field by field (`enabled: false` opts out). Status (last run,
+ * last error, next run) is kept in backups.json next to the incremental state, in the
+ * tenant's private dir so the tenant cannot move its own next run or reset failures.
+ */
+
+import type { OpenClawConfig } from "../config/config.js";
+import type { GatewayBackupRetentionConfig } from "../config/types.gateway.js";
+import type { TenantBackupSettings, TenantEntry, TenantId } from "./types.js";
+import { computeNextRunAtMs } from "../cron/schedule.js";
+import { resolveBackupEncryptionKey } from "./backup-crypto.js";
+import { resolveConfiguredBackupTarget, type BackupTarget } from "./backup-targets.js";
+import {
+  backupTenant,
+  listTenantBackups,
+  readTenantBackupStatus,
+  updateTenantBackupStatus,
+  type BackupInfo,
+  type BackupResult,
+} from "./backup.js";
+import { getTenant, listTenants } from "./registry.js";
+
+/** Incremental backups between two full backups when `fullEvery` is unset. */
+export const DEFAULT_BACKUP_FULL_EVERY = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SETTING_KEYS = new Set([
+  "enabled",
+  "cron",
+  "tz",
+  "target",
+  "incremental",
+  "fullEvery",
+  "retention",
+]);
+const RETENTION_KEYS = ["daily", "weekly", "monthly"] as const;
+
+export type TenantBackupSchedule = {
+  cron: string;
+  tz?: string;
+  target: string;
+  incremental: boolean;
+  fullEvery: number;
+  retention?: GatewayBackupRetentionConfig;
+};
+
+export type ScheduledTenantBackupOutcome =
+  | { tenantId: TenantId; ok: true; backup: BackupResult; pruned: string[] }
+  | { tenantId: TenantId; ok: false; error: string; consecutiveFailures: number };
+
+/**
+ * Merges the gateway-wide schedule with the tenant's overrides.
+ * Returns null when the tenant has no complete, enabled schedule.
+ */
+export function resolveTenantBackupSchedule(
+  cfg: OpenClawConfig,
+  entry: Pick<TenantEntry, "backup"> | null | undefined,
+): TenantBackupSchedule | null {
+  const merged: TenantBackupSettings = { ...cfg.gateway?.backup?.schedule, ...entry?.backup };
+  const cron = merged.cron?.trim();
+  const target = merged.target?.trim();
+  if (merged.enabled === false || !cron || !target) {
+    return null;
+  }
+  return {
+    cron,
+    tz: merged.tz?.trim() || undefined,
+    target,
+    incremental: merged.incremental === true,
+    fullEvery: merged.fullEvery ?? DEFAULT_BACKUP_FULL_EVERY,
+    retention: merged.retention,
+  };
+}
+
+/**
+ * Next scheduled run after `nowMs`.
+ * @throws Error if the cron expression or timezone is invalid
+ */
+export function computeNextTenantBackupAtMs(
+  schedule: Pick<TenantBackupSchedule, "cron" | "tz">,
+  nowMs: number,
+): number | undefined {
+  return computeNextRunAtMs({ kind: "cron", expr: schedule.cron, tz: schedule.tz }, nowMs);
+}
+
+/**
+ * Validates tenant backup settings; returns an error message or null.
+ */
+export function validateTenantBackupSettings(value: unknown): string | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "backup must be an object";
+  }
+  const settings = value as Record<string, unknown>;
+  for (const key of Object.keys(settings)) {
+    if (!SETTING_KEYS.has(key)) {
+      return `unknown backup setting: ${key}`;
+    }
+  }
+  for (const key of ["enabled", "incremental"] as const) {
+    if (settings[key] !== undefined && typeof settings[key] !== "boolean") {
+      return `${key} must be a boolean`;
+    }
+  }
+  for (const key of ["cron", "tz", "target"] as const) {
+    if (settings[key] !== undefined && (typeof settings[key] !== "string" || !settings[key])) {
+      return `${key} must be a non-empty string`;
+    }
+  }
+  if (settings.fullEvery !== undefined && !isCount(settings.fullEvery)) {
+    return "fullEvery must be a non-negative integer";
+  }
+  if (settings.retention !== undefined) {
+    const retention = settings.retention as Record<string, unknown>;
+    if (!retention || typeof retention !== "object" || Array.isArray(retention)) {
+      return "retention must be an object";
+    }
+    for (const [key, count] of Object.entries(retention)) {
+      if (!(RETENTION_KEYS as readonly string[]).includes(key)) {
+        return `unknown retention setting: ${key}`;
+      }
+      if (!isCount(count)) {
+        return `retention.${key} must be a non-negative integer`;
+      }
+    }
+  }
+  if (typeof settings.cron === "string") {
+    try {
+      computeNextTenantBackupAtMs(
+        { cron: settings.cron, tz: settings.tz as string | undefined },
+        Date.now(),
+      );
+    } catch (err) {
+      return `invalid cron schedule: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+  return null;
+}
+
+function isCount(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function scheduleKey(schedule: TenantBackupSchedule): string {
+  return `${schedule.cron}|${schedule.tz ?? ""}`;
+}
+
+function backupTimeMs(backup: BackupInfo): number {
+  const ms = Date.parse(backup.timestamp);
+  return Number.isFinite(ms) ? ms : 0;
+}
+
+/** UTC day, Monday-based week and month buckets (the epoch was a Thursday). */
+const GFS_BUCKETS: Array<[keyof GatewayBackupRetentionConfig, (ms: number) => string]> = [
+  ["daily", (ms) => String(Math.floor(ms / DAY_MS))],
+  ["weekly", (ms) => String(Math.floor((Math.floor(ms / DAY_MS) + 3) / 7))],
+  ["monthly", (ms) => new Date(ms).toISOString().slice(0, 7)],
+];
+
+/**
+ * Picks the backups a GFS retention policy keeps: the newest backup of each of the last
+ * `daily` days, `weekly` weeks and `monthly` months that have backups, plus the newest
+ * backup overall. Kept incremental backups also keep every older backup back to their
+ * full backup, so each kept backup stays restorable.
+ */
+export function selectBackupsToRetain(
+  backups: BackupInfo[],
+  retention: GatewayBackupRetentionConfig,
+): Set<string> {
+  const sorted = backups.toSorted((a, b) => backupTimeMs(b) - backupTimeMs(a));
+  const keep = new Set<string>();
+  if (sorted.length === 0) {
+    return keep;
+  }
+  keep.add(sorted[0].key);
+  for (const [field, bucketOf] of GFS_BUCKETS) {
+    const count = retention[field] ?? 0;
+    const seen = new Set<string>();
+    for (const backup of sorted) {
+      const bucket = bucketOf(backupTimeMs(backup));
+      if (seen.has(bucket)) {
+        continue;
+      }
+      if (seen.size >= count) {
+        break;
+      }
+      seen.add(bucket);
+      keep.add(backup.key);
+    }
+  }
+  sorted.forEach((backup, index) => {
+    if (!keep.has(backup.key) || !backup.incremental) {
+      return;
+    }
+    for (const older of sorted.slice(index + 1)) {
+      keep.add(older.key);
+      if (!older.incremental) {
+        break;
+      }
+    }
+  });
+  return keep;
+}
+
+/**
+ * Deletes the tenant's backups that the retention policy does not keep.
+ * A policy without any counts keeps everything.
+ */
+export async function pruneTenantBackupsByRetention(params: {
+  target: BackupTarget;
+  tenantId: TenantId;
+  retention: GatewayBackupRetentionConfig;
+}): Promise<string[]> {
+  const { target, tenantId, retention } = params;
+  if (!RETENTION_KEYS.some((key) => (retention[key] ?? 0) > 0)) {
+    return [];
+  }
+  const backups = await listTenantBackups({ tenantId, target });
+  const keep = selectBackupsToRetain(backups, retention);
+  const deleted: string[] = [];
+  for (const backup of backups) {
+    if (!keep.has(backup.key)) {
+      await target.delete(backup.key);
+      deleted.push(backup.key);
+    }
+  }
+  return deleted;
+}
+
+function nextRunIso(schedule: TenantBackupSchedule, nowMs: number): string | undefined {
+  const next = computeNextTenantBackupAtMs(schedule, nowMs);
+  return next === undefined ? undefined : new Date(next).toISOString();
+}
+
+/**
+ * Takes one scheduled backup for a tenant, applies retention and records the outcome.
+ * Every `fullEvery` incremental backups a full backup starts a new chain, so retention
+ * can drop old chains.
+ */
+export async function runScheduledTenantBackup(params: {
+  tenantId: TenantId;
+  schedule: TenantBackupSchedule;
+  cfg: OpenClawConfig;
+  env?: NodeJS.ProcessEnv;
+  nowMs?: number;
+}): Promise<ScheduledTenantBackupOutcome> {
+  const { tenantId, schedule, cfg } = params;
+  const env = params.env ?? process.env;
+  const nowMs = params.nowMs ?? Date.now();
+  const runAt = new Date(nowMs).toISOString();
+  const status = await readTenantBackupStatus(tenantId, env);
+  let backup: BackupResult | undefined;
+  try {
+    const target = resolveConfiguredBackupTarget(schedule.target, cfg);
+    backup = await backupTenant({
+      tenantId,
+      target,
+      incremental:
+        schedule.incremental && (status?.incrementalsSinceFull ?? 0) < schedule.fullEvery,
+      encryptionKey: await resolveBackupEncryptionKey({ cfg, env }),
+      env,
+    });
+    const taken = backup;
+    await updateTenantBackupStatus(
+      tenantId,
+      (current) => ({
+        ...current,
+        lastRunAt: runAt,
+        lastSuccessAt: runAt,
+        lastKey: taken.key,
+        lastSize: taken.size,
+        incrementalsSinceFull: taken.incremental ? current.incrementalsSinceFull + 1 : 0,
+      }),
+      env,
+    );
+    const pruned = schedule.retention
+      ? await pruneTenantBackupsByRetention({ target, tenantId, retention: schedule.retention })
+      : [];
+    const next = nextRunIso(schedule, nowMs);
+    await updateTenantBackupStatus(
+      tenantId,
+      (current) => ({
+        ...current,
+        lastError: undefined,
+        consecutiveFailures: 0,
+        nextRunAt: next,
+        scheduleKey: scheduleKey(schedule),
+      }),
+      env,
+    );
+    return { tenantId, ok: true, backup: taken, pruned };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const error = backup ? `retention prune failed: ${message}` : message;
+    const next = nextRunIso(schedule, nowMs);
+    const updated = await updateTenantBackupStatus(
+      tenantId,
+      (current) => ({
+        ...current,
+        lastRunAt: runAt,
+        lastError: error,
+        consecutiveFailures: current.consecutiveFailures + 1,
+        nextRunAt: next,
+        scheduleKey: scheduleKey(schedule),
+      }),
+      env,
+    );
+    return { tenantId, ok: false, error, consecutiveFailures: updated.consecutiveFailures };
+  }
+}
+
+/**
+ * Runs every tenant backup that is due. A new or edited schedule first waits for its
+ * next occurrence; runs missed while the gateway was down happen once on the next call.
+ * Tenants are backed up one at a time.
+ */
+export async function runDueTenantBackups(params: {
+  cfg: OpenClawConfig;
+  env?: NodeJS.ProcessEnv;
+  nowMs?: number;
+}): Promise<ScheduledTenantBackupOutcome[]> {
+  const { cfg } = params;
+  const env = params.env ?? process.env;
+  const nowMs = params.nowMs ?? Date.now();
+  const outcomes: ScheduledTenantBackupOutcome[] = [];
+  for (const tenantId of listTenants(env)) {
+    const schedule = resolveTenantBackupSchedule(cfg, getTenant(tenantId, env));
+    if (!schedule) {
+      continue;
+    }
+    try {
+      const status = await readTenantBackupStatus(tenantId, env);
+      const key = scheduleKey(schedule);
+      if (!status || status.scheduleKey !== key) {
+        let nextRunAt: string | undefined;
+        try {
+          nextRunAt = nextRunIso(schedule, nowMs);
+        } catch (err) {
+          // Reported once; the schedule stays idle until it is edited.
+          const error = `invalid backup schedule: ${err instanceof Error ? err.message : String(err)}`;
+          const updated = await updateTenantBackupStatus(
+            tenantId,
+            (current) => ({
+              ...current,
+              lastError: error,
+              consecutiveFailures: current.consecutiveFailures + 1,
+              nextRunAt: undefined,
+              scheduleKey: key,
+            }),
+            env,
+          );
+          outcomes.push({
+            tenantId,
+            ok: false,
+            error,
+            consecutiveFailures: updated.consecutiveFailures,
+          });
+          continue;
+        }
+        await updateTenantBackupStatus(
+          tenantId,
+          (current) => ({
+            ...current,
+            // A fixed schedule clears the error of the broken one it replaces.
+            ...(current.nextRunAt ? {} : { lastError: undefined, consecutiveFailures: 0 }),
+            nextRunAt,
+            scheduleKey: key,
+          }),
+          env,
+        );
+        continue;
+      }
+      if (!status.nextRunAt || Date.parse(status.nextRunAt) > nowMs) {
+        continue;
+      }
+      outcomes.push(await runScheduledTenantBackup({ tenantId, schedule, cfg, env, nowMs }));
+    } catch (err) {
+      outcomes.push({
+        tenantId,
+        ok: false,
+        error: err instanceof Error ? err.message : String(err),
+        consecutiveFailures: 0,
+      });
+    }
+  }
+  return outcomes;
+}
@@ -0,0 +1,372 @@
+/**
+ * Backup storage targets.
+ * OPENCLAWMU ADDITION: S3, local-directory and command-pipe targets for tenant backups.
+ *
+ * A target only stores opaque archive objects under string keys; archive layout,
+ * encryption and incremental chains live in backup.ts.
+ */
+
+import { spawn } from "node:child_process";
+import { createReadStream, createWriteStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import type { OpenClawConfig } from "../config/config.js";
+import type { GatewayBackupTargetConfig } from "../config/types.gateway.js";
+import { runCommandWithTimeout } from "../process/exec.js";
+import { resolveUserPath } from "../utils.js";
+
+export type BackupTargetKind = GatewayBackupTargetConfig["kind"];
+
+export type BackupTargetConfig = GatewayBackupTargetConfig;
+
+export type BackupObjectInfo = {
+  key: string;
+  size: number;
+  lastModified: string;
+};
+
+export type BackupTarget = {
+  kind: BackupTargetKind;
+  /** Stable description of the storage location (used to track incremental state). */
+  id: string;
+  /** Key prefix for backups (default: "backups"). */
+  prefix: string;
+  put(key: string, filePath: string, metadata: Record<string, string>): Promise<void>;
+  /** Downloads an object to `destPath`. */
+  get(key: string, destPath: string): Promise<void>;
+  list(prefix: string): Promise<BackupObjectInfo[]>;
+  delete(key: string): Promise<void>;
+};
+
+const DEFAULT_BACKUP_PREFIX = "backups";
+const DEFAULT_COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Rejects keys that could escape a directory or command argument expectations.
+ */
+export function isValidBackupKey(key: string): boolean {
+  if (!key || key.length > 1024 || key.startsWith("/") || key.includes("\\")) {
+    return false;
+  }
+  return key.split("/").every((part) => part !== "" && part !== "." && part !== "..");
+}
+
+function assertBackupKey(key: string) {
+  if (!isValidBackupKey(key)) {
+    throw new Error(`Invalid backup key: "${key}"`);
+  }
+}
+
+/**
+ * Creates an S3 (or S3-compatible) target. Credentials fall back to the server environment.
+ */
+export function createS3BackupTarget(
+  config: Omit<Extract<BackupTargetConfig, { kind: "s3" }>, "kind"> & {
+    accessKeyId?: string;
+    secretAccessKey?: string;
+  },
+): BackupTarget {
+  const client = (async () => {
+    const { S3Client } = await import("@aws-sdk/client-s3");
+    return new S3Client({
+      endpoint: config.endpoint,
+      region: config.region ?? "us-east-1",
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+          : undefined,
+      forcePathStyle: config.forcePathStyle ?? !!config.endpoint,
+    });
+  })();
+  return {
+    kind: "s3",
+    id: `s3:${config.endpoint ?? "aws"}/${config.bucket}`,
+    prefix: config.prefix ?? DEFAULT_BACKUP_PREFIX,
+    async put(key, filePath, metadata) {
+      const { PutObjectCommand } = await import("@aws-sdk/client-s3");
+      const body = await fs.readFile(filePath);
+      await (
+        await client
+      ).send(
+        new PutObjectCommand({
+          Bucket: config.bucket,
+          Key: key,
+          Body: body,
+          ContentType: "application/octet-stream",
+          Metadata: metadata,
+        }),
+      );
+    },
+    async get(key, destPath) {
+      const { GetObjectCommand } = await import("@aws-sdk/client-s3");
+      const response = await (
+        await client
+      ).send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
+      if (!response.Body) {
+        throw new Error("Empty response body from S3");
+      }
+      await fs.writeFile(destPath, await response.Body.transformToByteArray());
+    },
+    async list(prefix) {
+      const { ListObjectsV2Command } = await import("@aws-sdk/client-s3");
+      const s3 = await client;
+      const objects: BackupObjectInfo[] = [];
+      let token: string | undefined;
+      do {
+        const response = await s3.send(
+          new ListObjectsV2Command({
+            Bucket: config.bucket,
+            Prefix: prefix,
+            ContinuationToken: token,
+          }),
+        );
+        for (const obj of response.Contents ?? []) {
+          if (obj.Key) {
+            objects.push({
+              key: obj.Key,
+              size: obj.Size ?? 0,
+              lastModified: obj.LastModified?.toISOString() ?? "",
+            });
+          }
+        }
+        token = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (token);
+      return objects;
+    },
+    async delete(key) {
+      const { DeleteObjectCommand } = await import("@aws-sdk/client-s3");
+      await (await client).send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+    },
+  };
+}
+
+function createLocalTarget(config: Extract<BackupTargetConfig, { kind: "local" }>): BackupTarget {
+  const root = path.resolve(resolveUserPath(config.dir));
+  const resolveObjectPath = (key: string) => {
+    assertBackupKey(key);
+    return path.join(root, ...key.split("/"));
+  };
+  const walk = async (dir: string, out: BackupObjectInfo[]) => {
+    let entries: import("node:fs").Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw err;
+    }
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(full, out);
+      } else if (entry.isFile() && !entry.name.endsWith(".partial")) {
+        const stat = await fs.stat(full);
+        out.push({
+          key: path.relative(root, full).split(path.sep).join("/"),
+          size: stat.size,
+          lastModified: stat.mtime.toISOString(),
+        });
+      }
+    }
+  };
+  return {
+    kind: "local",
+    id: `local:${root}`,
+    prefix: config.prefix ?? DEFAULT_BACKUP_PREFIX,
+    async put(key, filePath) {
+      const dest = resolveObjectPath(key);
+      await fs.mkdir(path.dirname(dest), { recursive: true });
+      // Copy then rename so a crashed backup never leaves a truncated archive behind.
+      const partial = `${dest}.partial`;
+      await fs.copyFile(filePath, partial);
+      await fs.rename(partial, dest);
+    },
+    async get(key, destPath) {
+      await fs.copyFile(resolveObjectPath(key), destPath);
+    },
+    async list(prefix) {
+      const objects: BackupObjectInfo[] = [];
+      const base = prefix.slice(0, Math.max(0, prefix.lastIndexOf("/")));
+      await walk(base ? resolveObjectPath(base) : root, objects);
+      return objects.filter((obj) => obj.key.startsWith(prefix));
+    },
+    async delete(key) {
+      await fs.rm(resolveObjectPath(key), { force: true });
+    },
+  };
+}
+
+function runPipeCommand(params: {
+  argv: string[];
+  env: NodeJS.ProcessEnv;
+  timeoutMs: number;
+  stdinPath?: string;
+  stdoutPath?: string;
+}): Promise<void> {
+  const [command, ...args] = params.argv;
+  const child = spawn(command, args, {
+    env: { ...process.env, ...params.env },
+    stdio: [params.stdinPath ? "pipe" : "ignore", params.stdoutPath ? "pipe" : "ignore", "pipe"],
+  });
+  let stderr = "";
+  child.stderr?.on("data", (chunk: Buffer) => {
+    stderr = (stderr + chunk.toString()).slice(-2000);
+  });
+  const timer = setTimeout(() => child.kill("SIGKILL"), params.timeoutMs);
+  const exited = new Promise<void>((resolve, reject) => {
+    child.on("error", reject);
+    child.on("close", (code, signal) => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      const detail = stderr.trim() ? `: ${stderr.trim()}` : "";
+      reject(new Error(`Backup command ${command} exited with ${code ?? signal}${detail}`));
+    });
+  });
+  const streams: Promise<void>[] = [exited];
+  if (params.stdinPath && child.stdin) {
+    streams.push(pipeline(createReadStream(params.stdinPath), child.stdin));
+  }
+  if (params.stdoutPath && child.stdout) {
+    streams.push(pipeline(child.stdout, createWriteStream(params.stdoutPath)));
+  }
+  return Promise.all(streams)
+    .then(() => undefined)
+    .finally(() => clearTimeout(timer));
+}
+
+function createCommandTarget(
+  config: Extract<BackupTargetConfig, { kind: "command" }>,
+): BackupTarget {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+  const requireCommand = (argv: string[] | undefined, name: string) => {
+    if (!argv?.length) {
+      throw new Error(`Command backup target has no ${name} configured`);
+    }
+    return argv;
+  };
+  const runForOutput = async (argv: string[], env: NodeJS.ProcessEnv) => {
+    const result = await runCommandWithTimeout(argv, { timeoutMs, env });
+    if (result.code !== 0) {
+      const detail = result.stderr.trim() ? `: ${result.stderr.trim().slice(-2000)}` : "";
+      throw new Error(`Backup command ${argv[0]} exited with ${result.code}${detail}`);
+    }
+    return result.stdout;
+  };
+  return {
+    kind: "command",
+    id: `command:${config.command.join(" ")}`,
+    prefix: config.prefix ?? DEFAULT_BACKUP_PREFIX,
+    async put(key, filePath, metadata) {
+      assertBackupKey(key);
+      await runPipeCommand({
+        argv: config.command,
+        env: {
+          OPENCLAW_BACKUP_OBJECT: key,
+          OPENCLAW_BACKUP_TENANT: metadata.tenantId ?? "",
+        },
+        timeoutMs,
+        stdinPath: filePath,
+      });
+    },
+    async get(key, destPath) {
+      assertBackupKey(key);
+      await runPipeCommand({
+        argv: requireCommand(config.restoreCommand, "restoreCommand"),
+        env: { OPENCLAW_BACKUP_OBJECT: key },
+        timeoutMs,
+        stdoutPath: destPath,
+      });
+    },
+    async list(prefix) {
+      const stdout = await runForOutput(requireCommand(config.listCommand, "listCommand"), {
+        OPENCLAW_BACKUP_PREFIX: prefix,
+      });
+      const objects: BackupObjectInfo[] = [];
+      for (const line of stdout.split("\n")) {
+        const [key, size, lastModified] = line.trim().split("\t");
+        if (key && key.startsWith(prefix) && isValidBackupKey(key)) {
+          objects.push({ key, size: Number(size) || 0, lastModified: lastModified ?? "" });
+        }
+      }
+      return objects;
+    },
+    async delete(key) {
+      assertBackupKey(key);
+      await runForOutput(requireCommand(config.deleteCommand, "deleteCommand"), {
+        OPENCLAW_BACKUP_OBJECT: key,
+      });
+    },
+  };
+}
+
+/**
+ * Creates a backup target from its config.
+ */
+export function createBackupTarget(config: BackupTargetConfig): BackupTarget {
+  switch (config.kind) {
+    case "s3":
+      return createS3BackupTarget(config);
+    case "local":
+      return createLocalTarget(config);
+    case "command":
+      return createCommandTarget(config);
+    default:
+      throw new Error(`Unknown backup target kind: ${String((config as { kind?: unknown }).kind)}`);
+  }
+}
+
+/**
+ * Resolves a named target from `gateway.backup.targets`.
+ * @throws Error if the target is not configured
+ */
+export function resolveConfiguredBackupTarget(name: string, cfg: OpenClawConfig): BackupTarget {
+  const targets = cfg.gateway?.backup?.targets ?? {};
+  const config = Object.hasOwn(targets, name) ? targets[name] : undefined;
+  if (!config) {
+    throw new Error(`Unknown backup target: "${name}"`);
+  }
+  return createBackupTarget(config);
+}
+
+export type BackupTargetParams = {
+  /** Name of a target in `gateway.backup.targets`. */
+  target?: unknown;
+  bucket?: unknown;
+  endpoint?: unknown;
+  region?: unknown;
+  prefix?: unknown;
+};
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Resolves the target of a backup request: a configured target by name, or inline S3
+ * params (`bucket`, `endpoint`, `region`, `prefix`). Returns null when neither is given.
+ * Local and command targets can only come from config.
+ * @throws Error if the named target is not configured
+ */
+export function resolveBackupTargetFromParams(
+  params: BackupTargetParams,
+  cfg: OpenClawConfig,
+): BackupTarget | null {
+  const name = optionalString(params.target);
+  if (name) {
+    return resolveConfiguredBackupTarget(name, cfg);
+  }
+  const bucket = optionalString(params.bucket);
+  if (!bucket) {
+    return null;
+  }
+  return createS3BackupTarget({
+    bucket,
+    endpoint: optionalString(params.endpoint),
+    region: optionalString(params.region),
+    prefix: optionalString(params.prefix),
+  });
+}
@@ -0,0 +1,247 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import * as tar from "tar";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createBackupTarget } from "./backup-targets.js";
+import { backupTenant, listTenantBackups, restoreTenant } from "./backup.js";
+import { resolveTenantBackupsPath, resolveTenantStateDir } from "./paths.js";
+import { closeTenantRegistryStores } from "./registry-store.js";
+import { createTenant } from "./registry.js";
+
+// Lets a test swap files between the backup's scan and its copy.
+const afterScan = vi.hoisted(() => ({ hook: undefined as (() => void) | undefined }));
+vi.mock("./archive.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./archive.js")>();
+  return {
+    ...actual,
+    scanDirectoryFiles: async (...args: Parameters<typeof actual.scanDirectoryFiles>) => {
+      const scanned = await actual.scanDirectoryFiles(...args);
+      afterScan.hook?.();
+      return scanned;
+    },
+  };
+});
+
+const MASTER_KEY = Buffer.from("test-master-key-0123456789abcdef");
+
+let root: string;
+let env: NodeJS.ProcessEnv;
+let tenantDir: string;
+
+function write(rel: string, content: string, mtime?: Date) {
+  const file = path.join(tenantDir, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+  if (mtime) {
+    fs.utimesSync(file, mtime, mtime);
+  }
+}
+
+async function listArchive(file: string): Promise<string[]> {
+  const entries: string[] = [];
+  await tar.list({ file, onReadEntry: (entry) => entries.push(entry.path) });
+  return entries.toSorted();
+}
+
+beforeEach(async () => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-backup-test-"));
+  env = { ...process.env, OPENCLAW_STATE_DIR: path.join(root, "state") } as NodeJS.ProcessEnv;
+  await createTenant("demo", undefined, env);
+  tenantDir = resolveTenantStateDir("demo", env);
+});
+
+afterEach(() => {
+  afterScan.hook = undefined;
+  closeTenantRegistryStores();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("tenant backups", () => {
+  it("stores only changed files in incremental backups and restores the chain", async () => {
+    const target = createBackupTarget({ kind: "local", dir: path.join(root, "backups") });
+    const old = new Date("2026-01-01T00:00:00Z");
+    write("workspace/a.txt", "alpha", old);
+    write("workspace/b.txt", "bravo", old);
+    write("workspace/c.txt", "charlie", old);
+
+    const full = await backupTenant({ tenantId: "demo", target, env });
+    expect(full).toMatchObject({ incremental: false, files: 3 });
+
+    write("workspace/b.txt", "bravo 2");
+    fs.utimesSync(path.join(tenantDir, "workspace/c.txt"), new Date(), new Date());
+    fs.rmSync(path.join(tenantDir, "workspace/a.txt"));
+    write("workspace/d.txt", "delta");
+
+    const incr = await backupTenant({ tenantId: "demo", target, incremental: true, env });
+    expect(incr).toMatchObject({ incremental: true, parent: full.key, files: 2 });
+    expect(incr.key).toMatch(/\.incr\.tar\.gz$/);
+    expect(await listArchive(path.join(root, "backups", incr.key))).toEqual([
+      ".openclaw-backup.json",
+      "workspace/b.txt",
+      "workspace/d.txt",
+    ]);
+
+    const listed = await listTenantBackups({ tenantId: "demo", target });
+    expect(listed.map((b) => [b.key, b.incremental])).toEqual([
+      [incr.key, true],
+      [full.key, false],
+    ]);
+
+    write("workspace/b.txt", "local edit");
+    write("workspace/e.txt", "extra");
+    const dryRun = await restoreTenant({
+      tenantId: "demo",
+      target,
+      key: incr.key,
+      dryRun: true,
+      env,
+    });
+    expect(dryRun).toMatchObject({
+      dryRun: true,
+      verified: true,
+      chain: [full.key, incr.key],
+      changes: {
+        added: [],
+        modified: ["workspace/b.txt"],
+        removed: ["workspace/e.txt"],
+        unchanged: 2,
+      },
+    });
+    expect(fs.readFileSync(path.join(tenantDir, "workspace/b.txt"), "utf8")).toBe("local edit");
+
+    await restoreTenant({ tenantId: "demo", target, key: incr.key, env });
+    expect(fs.readFileSync(path.join(tenantDir, "workspace/b.txt"), "utf8")).toBe("bravo 2");
+    expect(fs.existsSync(path.join(tenantDir, "workspace/a.txt"))).toBe(false);
+    expect(fs.existsSync(path.join(tenantDir, "workspace/e.txt"))).toBe(false);
+    expect(fs.readFileSync(path.join(tenantDir, "workspace/d.txt"), "utf8")).toBe("delta");
+  });
+
+  it("keeps the backup state where the tenant cannot plant links", async () => {
+    const target = createBackupTarget({ kind: "local", dir: path.join(root, "backups") });
+    const outside = path.join(root, "host.txt");
+    fs.writeFileSync(outside, "host file");
+    fs.symlinkSync(outside, path.join(tenantDir, "backups.json"));
+    fs.symlinkSync(outside, path.join(tenantDir, `backups.json.${process.pid}.tmp`));
+    write("workspace/a.txt", "alpha");
+
+    await backupTenant({ tenantId: "demo", target, env });
+    expect(fs.readFileSync(outside, "utf8")).toBe("host file");
+    const statePath = resolveTenantBackupsPath("demo", env);
+    expect(statePath.startsWith(tenantDir)).toBe(false);
+    expect(JSON.parse(fs.readFileSync(statePath, "utf8")).targets).toHaveProperty(target.id);
+  });
+
+  it("does not follow a symlink swapped in after the scan", async () => {
+    const target = createBackupTarget({ kind: "local", dir: path.join(root, "backups") });
+    const outside = path.join(root, "host.txt");
+    fs.writeFileSync(outside, "host secret");
+    write("workspace/a.txt", "alpha");
+    afterScan.hook = () => {
+      fs.rmSync(path.join(tenantDir, "workspace", "a.txt"));
+      fs.symlinkSync(outside, path.join(tenantDir, "workspace", "a.txt"));
+    };
+
+    const result = await backupTenant({ tenantId: "demo", target, env });
+    expect(result.files).toBe(0);
+    expect(await listArchive(path.join(root, "backups", result.key))).not.toContain(
+      "workspace/a.txt",
+    );
+  });
+
+  it("encrypts archives and rejects a wrong key or tampering", async () => {
+    const target = createBackupTarget({ kind: "local", dir: path.join(root, "backups") });
+    write("workspace/secret.txt", "top secret");
+
+    const result = await backupTenant({ tenantId: "demo", target, encryptionKey: MASTER_KEY, env });
+    expect(result).toMatchObject({ encrypted: true });
+    const archive = path.join(root, "backups", result.key);
+    expect(fs.readFileSync(archive).includes("top secret")).toBe(false);
+
+    await expect(
+      restoreTenant({ tenantId: "demo", target, key: result.key, dryRun: true, env }),
+    ).rejects.toThrow(/encrypted/);
+    await expect(
+      restoreTenant({
+        tenantId: "demo",
+        target,
+        key: result.key,
+        dryRun: true,
+        encryptionKey: Buffer.from("another-master-key-0123456789"),
+        env,
+      }),
+    ).rejects.toThrow(/decryption failed/);
+
+    const restored = await restoreTenant({
+      tenantId: "demo",
+      target,
+      key: result.key,
+      dryRun: true,
+      encryptionKey: MASTER_KEY,
+      env,
+    });
+    expect(restored).toMatchObject({ verified: true, changes: { unchanged: 1 } });
+
+    const bytes = fs.readFileSync(archive);
+    bytes[bytes.length - 20] ^= 0xff;
+    fs.writeFileSync(archive, bytes);
+    await expect(
+      restoreTenant({
+        tenantId: "demo",
+        target,
+        key: result.key,
+        dryRun: true,
+        encryptionKey: MASTER_KEY,
+        env,
+      }),
+    ).rejects.toThrow(/decryption failed/);
+  });
+
+  it("refuses to restore another tenant's backup", async () => {
+    const target = createBackupTarget({ kind: "local", dir: path.join(root, "backups") });
+    await createTenant("other", undefined, env);
+    write("workspace/secret.txt", "demo only");
+
+    const plain = await backupTenant({ tenantId: "demo", target, env });
+    await expect(
+      restoreTenant({ tenantId: "other", target, key: plain.key, dryRun: true, env }),
+    ).rejects.toThrow(/belongs to tenant demo, not other/);
+
+    const encrypted = await backupTenant({
+      tenantId: "demo",
+      target,
+      encryptionKey: MASTER_KEY,
+      env,
+    });
+    await expect(
+      restoreTenant({
+        tenantId: "other",
+        target,
+        key: encrypted.key,
+        encryptionKey: MASTER_KEY,
+        env,
+      }),
+    ).rejects.toThrow(/belongs to tenant demo, not other/);
+    expect(
+      fs.existsSync(path.join(resolveTenantStateDir("other", env), "workspace/secret.txt")),
+    ).toBe(false);
+  });
+
+  it("pipes archives through a command target", async () => {
+    const store = path.join(root, "piped");
+    const object = `"${store}/$(echo "$OPENCLAW_BACKUP_OBJECT" | tr / _)"`;
+    const target = createBackupTarget({
+      kind: "command",
+      command: ["sh", "-c", `mkdir -p "${store}" && cat > ${object}`],
+      restoreCommand: ["sh", "-c", `cat ${object}`],
+    });
+    write("workspace/notes.md", "hello");
+
+    const result = await backupTenant({ tenantId: "demo", target, env });
+    expect(fs.readdirSync(store)).toEqual([result.key.replaceAll("/", "_")]);
+
+    fs.rmSync(path.join(tenantDir, "workspace/notes.md"));
+    await restoreTenant({ tenantId: "demo", target, key: result.key, env });
+    expect(fs.readFileSync(path.join(tenantDir, "workspace/notes.md"), "utf8")).toBe("hello");
+  });
+});
@@ -1,17 +1,36 @@
 /**
  * Tenant backup and restore functionality.
- * OPENCLAWMU ADDITION: multi-tenant S3 backup/restore.
+ * OPENCLAWMU ADDITION: multi-tenant backup/restore to pluggable targets.
  *
- * Supports S3-compatible storage for tenant data archival.
+ * Archives are tar.gz files of the tenant state directory with a manifest
+ * (`.openclaw-backup.json`) listing every file with its size, mtime and SHA-256.
+ * - Incremental backups only carry files whose mtime/size changed and whose hash differs
+ *   from the previous backup on the same target; the manifest links to its parent.
+ * - With a master key configured, archives are encrypted with a per-tenant key
+ *   (see backup-crypto.ts).
+ * - Restores extract the whole chain into a staging directory, verify every file against
+ *   the manifest and only then swap it in. A dry run stops after verification and reports
+ *   what would change.
  */
 
+import crypto from "node:crypto";
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import * as tar from "tar";
 import type { TenantId } from "./types.js";
-import { resolveTenantStateDir } from "./paths.js";
-import { getTenant, createTenant } from "./registry.js";
+import {
+  extractTarGz,
+  openRegularFileNoFollow,
+  scanDirectoryFiles,
+  sha256File,
+  sha256FileHandle,
+  type ScannedEntry,
+} from "./archive.js";
+import { decryptBackupFile, encryptBackupFile, isEncryptedBackupFile } from "./backup-crypto.js";
+import { createS3BackupTarget, isValidBackupKey, type BackupTarget } from "./backup-targets.js";
+import { resolveTenantBackupsPath, resolveTenantStateDir } from "./paths.js";
+import { getTenant, createTenant, initializeTenantDirectories } from "./registry.js";
 
 export type BackupConfig = {
   /** S3 endpoint (for S3-compatible services like MinIO). */
@@ -36,6 +55,8 @@ export type BackupInfo = {
   lastModified: string;
   tenantId: string;
   timestamp: string;
+  incremental: boolean;
+  encrypted: boolean;
 };
 
 export type BackupResult = {
@@ -43,118 +64,219 @@ export type BackupResult = {
   tenantId: string;
   timestamp: string;
   size: number;
+  incremental: boolean;
+  encrypted: boolean;
+  /** Previous backup in the chain (incremental only). */
+  parent?: string;
+  /** Number of files stored in this archive. */
+  files: number;
+};
+
+export type BackupRestoreChanges = {
+  added: string[];
+  modified: string[];
+  removed: string[];
+  unchanged: number;
 };
 
 export type RestoreResult = {
   tenantId: string;
   restoredAt: string;
   sourceKey: string;
+  dryRun: boolean;
+  /** Backups applied, oldest (full) first. */
+  chain: string[];
+  /** Whether the archive carried a manifest that every restored file was checked against. */
+  verified: boolean;
+  changes: BackupRestoreChanges;
+};
+
+export type BackupManifestEntry =
+  | { size: number; mtimeMs: number; sha256: string }
+  | { link: string };
+
+export type BackupManifest = {
+  version: 1;
+  tenantId: TenantId;
+  createdAt: string;
+  kind: "full" | "incremental";
+  /** Key of the previous backup in the chain (incremental only). */
+  parent?: string;
+  /** Every file in the tenant directory at backup time (paths use "/"). */
+  files: Record<string, BackupManifestEntry>;
 };
 
+type BackupTargetSource = { target: BackupTarget } | { config: BackupConfig };
+
 /**
- * Creates an S3 client with the provided configuration.
+ * Outcome of scheduled backups for a tenant (see backup-schedule.ts).
  */
-async function createS3Client(config: BackupConfig) {
-  const { S3Client } = await import("@aws-sdk/client-s3");
-
-  return new S3Client({
-    endpoint: config.endpoint,
-    region: config.region ?? "us-east-1",
-    credentials:
-      config.accessKeyId && config.secretAccessKey
-        ? {
-            accessKeyId: config.accessKeyId,
-            secretAccessKey: config.secretAccessKey,
-          }
-        : undefined,
-    forcePathStyle: config.forcePathStyle ?? !!config.endpoint,
+export type TenantBackupStatus = {
+  lastRunAt?: string;
+  lastSuccessAt?: string;
+  lastKey?: string;
+  lastSize?: number;
+  lastError?: string;
+  consecutiveFailures: number;
+  /** Incremental backups taken since the last full one. */
+  incrementalsSinceFull: number;
+  nextRunAt?: string;
+  /** Schedule `nextRunAt` was computed for, so edits reschedule. */
+  scheduleKey?: string;
+};
+
+type BackupState = {
+  version: 1;
+  /** Last backup per target id, the base for the next incremental backup. */
+  targets: Record<string, { key: string; createdAt: string; files: BackupManifest["files"] }>;
+  schedule?: TenantBackupStatus;
+};
+
+const MANIFEST_NAME = ".openclaw-backup.json";
+const MAX_CHAIN_LENGTH = 1000;
+const BACKUP_NAME_PATTERN =
+  /^(.+)-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z(\.incr)?\.tar\.gz(\.enc)?$/;
+
+function resolveTarget(source: BackupTargetSource): BackupTarget {
+  return "target" in source ? source.target : createS3BackupTarget(source.config);
+}
+
+/** Lists the tenant's files, skipping the manifest. */
+async function scanFiles(root: string): Promise<Map<string, ScannedEntry>> {
+  return await scanDirectoryFiles(root, (rel) => rel === MANIFEST_NAME);
+}
+
+async function loadBackupState(tenantId: TenantId, env: NodeJS.ProcessEnv): Promise<BackupState> {
+  try {
+    const raw = JSON.parse(
+      await fs.readFile(resolveTenantBackupsPath(tenantId, env), "utf8"),
+    ) as BackupState;
+    if (raw?.version === 1 && raw.targets && typeof raw.targets === "object") {
+      return raw;
+    }
+  } catch {
+    // Missing or unreadable state only means the next backup is a full one.
+  }
+  return { version: 1, targets: {} };
+}
+
+async function saveBackupState(
+  tenantId: TenantId,
+  state: BackupState,
+  env: NodeJS.ProcessEnv,
+): Promise<void> {
+  const statePath = resolveTenantBackupsPath(tenantId, env);
+  await fs.mkdir(path.dirname(statePath), { recursive: true, mode: 0o700 });
+  const tmp = `${statePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(state), { mode: 0o600, flag: "wx" });
+  await fs.rename(tmp, statePath).catch(async (err: unknown) => {
+    await fs.rm(tmp, { force: true });
+    throw err;
   });
 }
 
 /**
- * Creates a tar.gz archive of a directory.
+ * Reads the scheduled backup status of a tenant (null before the first scheduled run).
  */
-async function createTarGz(sourceDir: string, outputPath: string): Promise<void> {
-  await tar.create(
-    {
-      gzip: true,
-      file: outputPath,
-      cwd: sourceDir,
-      portable: true,
-    },
-    ["."],
-  );
+export async function readTenantBackupStatus(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<TenantBackupStatus | null> {
+  return (await loadBackupState(tenantId, env)).schedule ?? null;
 }
 
 /**
- * Extracts a tar.gz archive to a directory.
- * Includes security measures to prevent symlink/path traversal attacks.
+ * Updates the scheduled backup status of a tenant.
  */
-async function extractTarGz(archivePath: string, targetDir: string): Promise<void> {
-  await fs.mkdir(targetDir, { recursive: true });
+export async function updateTenantBackupStatus(
+  tenantId: TenantId,
+  updater: (current: TenantBackupStatus) => TenantBackupStatus,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<TenantBackupStatus> {
+  const state = await loadBackupState(tenantId, env);
+  const next = updater(state.schedule ?? { consecutiveFailures: 0, incrementalsSinceFull: 0 });
+  state.schedule = next;
+  await saveBackupState(tenantId, state, env);
+  return next;
+}
 
-  // Resolve the absolute target directory for security checks
-  const resolvedTargetDir = path.resolve(targetDir);
+/**
+ * Parses the timestamp and flags out of a backup key.
+ */
+function parseBackupKey(key: string): {
+  timestamp?: string;
+  incremental: boolean;
+  encrypted: boolean;
+} {
+  const match = path.posix.basename(key).match(BACKUP_NAME_PATTERN);
+  if (!match) {
+    return { incremental: false, encrypted: key.endsWith(".enc") };
+  }
+  const [, , date, hh, mm, ss, ms, incr, enc] = match;
+  return {
+    timestamp: `${date}T${hh}:${mm}:${ss}.${ms}Z`,
+    incremental: Boolean(incr),
+    encrypted: Boolean(enc),
+  };
+}
 
-  await tar.extract({
+/**
+ * Reads the manifest from an archive; legacy archives (before manifests) return null.
+ */
+async function readArchiveManifest(archivePath: string): Promise<BackupManifest | null> {
+  const chunks: Buffer[] = [];
+  let found = false;
+  await tar.list({
     file: archivePath,
-    cwd: targetDir,
-    strip: 0,
-    // Security: reject absolute paths in archive
-    preservePaths: false,
-    // Security: don't change file permissions
-    noChmod: true,
-    // Security: don't preserve mtime (reduces attack surface)
-    noMtime: true,
-    // Security: filter out dangerous entries
-    filter: (entryPath, entry) => {
-      // Cast entry to ReadEntry to access type and linkpath
-      const readEntry = entry as tar.ReadEntry;
-      // Reject symlinks that could point outside the target directory
-      if (readEntry.type === "SymbolicLink" || readEntry.type === "Link") {
-        const linkTarget = readEntry.linkpath ?? "";
-        // Resolve the symlink target relative to the entry's parent directory
-        const entryDir = path.dirname(path.join(resolvedTargetDir, entryPath));
-        const resolvedLink = path.resolve(entryDir, linkTarget);
-        // Reject if the link points outside the target directory
-        if (
-          !resolvedLink.startsWith(resolvedTargetDir + path.sep) &&
-          resolvedLink !== resolvedTargetDir
-        ) {
-          return false;
-        }
-      }
-      // Reject paths that try to escape (should be caught by preservePaths: false, but defense in depth)
-      const resolvedEntry = path.resolve(resolvedTargetDir, entryPath);
-      if (
-        !resolvedEntry.startsWith(resolvedTargetDir + path.sep) &&
-        resolvedEntry !== resolvedTargetDir
-      ) {
-        return false;
-      }
-      return true;
+    filter: (entryPath) => entryPath.replace(/^\.\//, "") === MANIFEST_NAME,
+    onReadEntry: (entry) => {
+      found = true;
+      entry.on("data", (chunk: Buffer) => chunks.push(chunk));
     },
   });
+  if (!found) {
+    return null;
+  }
+  const manifest = JSON.parse(Buffer.concat(chunks).toString("utf8")) as BackupManifest;
+  if (manifest?.version !== 1 || !manifest.files || typeof manifest.files !== "object") {
+    throw new Error("Unsupported backup manifest");
+  }
+  return manifest;
 }
 
 /**
- * Backs up a tenant's data to S3.
+ * Creates a sibling temp directory of the tenant dir (same filesystem, so restores can rename).
  */
-export async function backupTenantToS3(params: {
-  tenantId: TenantId;
-  config: BackupConfig;
-  key?: string;
-}): Promise<BackupResult> {
-  const { tenantId, config } = params;
-  const { PutObjectCommand } = await import("@aws-sdk/client-s3");
+async function makeStagingDir(tenantDir: string, label: string): Promise<string> {
+  await fs.mkdir(path.dirname(tenantDir), { recursive: true });
+  return await fs.mkdtemp(`${tenantDir}.${label}-`);
+}
+
+/**
+ * Backs up a tenant's data to a backup target.
+ */
+export async function backupTenant(
+  params: BackupTargetSource & {
+    tenantId: TenantId;
+    key?: string;
+    /** Only store files changed since the last backup on this target. */
+    incremental?: boolean;
+    /** Master key; archives are encrypted when set. */
+    encryptionKey?: Buffer;
+    env?: NodeJS.ProcessEnv;
+  },
+): Promise<BackupResult> {
+  const { tenantId } = params;
+  const env = params.env ?? process.env;
+  const target = resolveTarget(params);
 
   // Verify tenant exists
-  const tenant = getTenant(tenantId);
+  const tenant = getTenant(tenantId, env);
   if (!tenant) {
     throw new Error(`Tenant not found: ${tenantId}`);
   }
 
-  const stateDir = resolveTenantStateDir(tenantId);
+  const stateDir = resolveTenantStateDir(tenantId, env);
 
   // Check if state directory exists
   try {
@@ -163,220 +285,433 @@ export async function backupTenantToS3(params: {
     throw new Error(`Tenant state directory not found: ${stateDir}`);
   }
 
-  // Create temp archive
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const archiveName = `${tenantId}-${timestamp}.tar.gz`;
-  const archivePath = path.join(os.tmpdir(), archiveName);
+  const state = await loadBackupState(tenantId, env);
+  const previous = params.incremental ? state.targets[target.id] : undefined;
+  const incremental = Boolean(previous);
+  const encrypted = Boolean(params.encryptionKey);
+
+  const createdAt = new Date();
+  const timestamp = createdAt.toISOString().replace(/[:.]/g, "-");
+  const archiveName = `${tenantId}-${timestamp}${incremental ? ".incr" : ""}.tar.gz${encrypted ? ".enc" : ""}`;
+  const key = params.key ?? `${target.prefix}/${tenantId}/${archiveName}`;
+  if (!isValidBackupKey(key)) {
+    throw new Error(`Invalid backup key: "${key}"`);
+  }
 
+  const staging = await makeStagingDir(stateDir, "backup");
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-backup-"));
   try {
-    // Create tar.gz archive
-    await createTarGz(stateDir, archivePath);
-
-    // Read archive
-    const archiveData = await fs.readFile(archivePath);
-
-    // Determine S3 key
-    const prefix = config.prefix ?? "backups";
-    const key = params.key ?? `${prefix}/${tenantId}/${archiveName}`;
-
-    // Upload to S3
-    const s3 = await createS3Client(config);
-    await s3.send(
-      new PutObjectCommand({
-        Bucket: config.bucket,
-        Key: key,
-        Body: archiveData,
-        ContentType: "application/gzip",
-        Metadata: {
-          tenantId,
-          timestamp,
-          version: "1",
-        },
-      }),
-    );
+    // Snapshot changed files first so the manifest hashes match the archived bytes
+    // even while the tenant keeps writing.
+    const files: BackupManifest["files"] = {};
+    const stored: string[] = [];
+    for (const [rel, scanned] of await scanFiles(stateDir)) {
+      const prior = previous?.files[rel];
+      if (scanned.kind === "link") {
+        // Links leaving the tenant directory are rejected on extract, so skip them here.
+        const resolved = path.resolve(path.dirname(path.join(stateDir, rel)), scanned.link);
+        if (!resolved.startsWith(stateDir + path.sep)) {
+          continue;
+        }
+        files[rel] = { link: scanned.link };
+        if (!prior || !("link" in prior) || prior.link !== scanned.link) {
+          await fs.mkdir(path.dirname(path.join(staging, rel)), { recursive: true });
+          await fs.symlink(scanned.link, path.join(staging, rel));
+          stored.push(rel);
+        }
+        continue;
+      }
+      if (
+        prior &&
+        "sha256" in prior &&
+        prior.size === scanned.size &&
+        prior.mtimeMs === scanned.mtimeMs
+      ) {
+        files[rel] = prior;
+        continue;
+      }
+      // Copy and hash from one no-follow descriptor: the tenant can swap a symlink
+      // in after the scan.
+      const source = await openRegularFileNoFollow(stateDir, rel);
+      if (!source) {
+        continue; // Deleted or replaced while scanning
+      }
+      const stagedPath = path.join(staging, rel);
+      let sha256: string;
+      try {
+        await fs.mkdir(path.dirname(stagedPath), { recursive: true });
+        const output = await fs.open(stagedPath, "wx", 0o600);
+        try {
+          sha256 = await sha256FileHandle(source.handle, output);
+        } finally {
+          await output.close();
+        }
+      } finally {
+        await source.handle.close();
+      }
+      const { size } = await fs.stat(stagedPath);
+      files[rel] = { size, mtimeMs: scanned.mtimeMs, sha256 };
+      if (prior && "sha256" in prior && prior.sha256 === sha256) {
+        await fs.rm(stagedPath);
+        continue;
+      }
+      stored.push(rel);
+    }
+
+    const manifest: BackupManifest = {
+      version: 1,
+      tenantId,
+      createdAt: createdAt.toISOString(),
+      kind: incremental ? "incremental" : "full",
+      parent: previous?.key,
+      files,
+    };
+    await fs.writeFile(path.join(staging, MANIFEST_NAME), JSON.stringify(manifest));
+
+    const tarPath = path.join(workDir, "archive.tar.gz");
+    await tar.create({ gzip: true, file: tarPath, cwd: staging, portable: true }, [
+      MANIFEST_NAME,
+      ...stored.toSorted(),
+    ]);
+    let archivePath = tarPath;
+    if (params.encryptionKey) {
+      archivePath = path.join(workDir, "archive.enc");
+      await encryptBackupFile({
+        srcPath: tarPath,
+        destPath: archivePath,
+        tenantId,
+        masterKey: params.encryptionKey,
+      });
+    }
+
+    await target.put(key, archivePath, {
+      tenantId,
+      timestamp,
+      version: "2",
+      kind: manifest.kind,
+      encrypted: encrypted ? "true" : "false",
+    });
+    const { size } = await fs.stat(archivePath);
+
+    state.targets[target.id] = { key, createdAt: manifest.createdAt, files };
+    await saveBackupState(tenantId, state, env);
 
     return {
       key,
       tenantId,
       timestamp,
-      size: archiveData.length,
+      size,
+      incremental,
+      encrypted,
+      parent: manifest.parent,
+      files: stored.length,
     };
   } finally {
-    // Cleanup temp file
-    try {
-      await fs.unlink(archivePath);
-    } catch {
-      // Ignore cleanup errors
+    await fs.rm(staging, { recursive: true, force: true }).catch(() => {});
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Checks staged files against a manifest and drops files the manifest no longer lists.
+ * @throws Error on the first missing or mismatching file
+ */
+async function verifyStagedFiles(staging: string, manifest: BackupManifest): Promise<void> {
+  const staged = await scanFiles(staging);
+  for (const [rel, expected] of Object.entries(manifest.files)) {
+    const actual = staged.get(rel);
+    if ("link" in expected) {
+      if (actual?.kind !== "link" || actual.link !== expected.link) {
+        throw new Error(`Backup verification failed: ${rel}`);
+      }
+      continue;
     }
+    if (
+      actual?.kind !== "file" ||
+      actual.size !== expected.size ||
+      (await sha256File(path.join(staging, rel))) !== expected.sha256
+    ) {
+      throw new Error(`Backup verification failed: ${rel}`);
+    }
+  }
+  for (const rel of staged.keys()) {
+    if (!Object.hasOwn(manifest.files, rel)) {
+      await fs.rm(path.join(staging, rel), { force: true });
+    }
+  }
+}
+
+/** Hashes `root/rel` without following symlinks; null when it is not a regular file. */
+async function sha256NoFollow(root: string, rel: string): Promise<string | null> {
+  const opened = await openRegularFileNoFollow(root, rel);
+  if (!opened) {
+    return null;
+  }
+  try {
+    return await sha256FileHandle(opened.handle);
+  } finally {
+    await opened.handle.close();
   }
 }
 
 /**
- * Restores a tenant from an S3 backup.
+ * Compares the staged restore with the tenant's current files.
  */
-export async function restoreTenantFromS3(params: {
-  tenantId: TenantId;
-  config: BackupConfig;
-  key: string;
-  createIfMissing?: boolean;
-}): Promise<RestoreResult> {
-  const { tenantId, config, key, createIfMissing = true } = params;
-  const { GetObjectCommand } = await import("@aws-sdk/client-s3");
-
-  // Check if tenant exists
-  let tenant = getTenant(tenantId);
-  if (!tenant && createIfMissing) {
-    // Create tenant if it doesn't exist
-    const result = createTenant(tenantId);
-    tenant = getTenant(result.tenantId);
+async function diffAgainstCurrent(
+  staging: string,
+  tenantDir: string,
+): Promise<BackupRestoreChanges> {
+  const incoming = await scanFiles(staging);
+  const current = await scanFiles(tenantDir);
+  const changes: BackupRestoreChanges = { added: [], modified: [], removed: [], unchanged: 0 };
+  for (const [rel, next] of incoming) {
+    const existing = current.get(rel);
+    if (!existing) {
+      changes.added.push(rel);
+      continue;
+    }
+    let same: boolean;
+    if (next.kind === "link" || existing.kind === "link") {
+      same = next.kind === "link" && existing.kind === "link" && next.link === existing.link;
+    } else {
+      same =
+        next.size === existing.size &&
+        (await sha256File(path.join(staging, rel))) === (await sha256NoFollow(tenantDir, rel));
+    }
+    if (same) {
+      changes.unchanged += 1;
+    } else {
+      changes.modified.push(rel);
+    }
+  }
+  for (const rel of current.keys()) {
+    if (!incoming.has(rel)) {
+      changes.removed.push(rel);
+    }
   }
+  changes.added.sort();
+  changes.modified.sort();
+  changes.removed.sort();
+  return changes;
+}
 
-  if (!tenant) {
+/**
+ * Restores a tenant from a backup (following incremental chains back to the full backup).
+ * With `dryRun`, the chain is downloaded and verified but the tenant is left untouched.
+ */
+export async function restoreTenant(
+  params: BackupTargetSource & {
+    tenantId: TenantId;
+    key: string;
+    createIfMissing?: boolean;
+    dryRun?: boolean;
+    /** Master key, required for encrypted archives. */
+    encryptionKey?: Buffer;
+    env?: NodeJS.ProcessEnv;
+  },
+): Promise<RestoreResult> {
+  const { tenantId, key, createIfMissing = true, dryRun = false } = params;
+  const env = params.env ?? process.env;
+  const target = resolveTarget(params);
+
+  if (!isValidBackupKey(key)) {
+    throw new Error(`Invalid backup key: "${key}"`);
+  }
+  if (!getTenant(tenantId, env) && !createIfMissing) {
     throw new Error(`Tenant not found and createIfMissing is false: ${tenantId}`);
   }
 
-  const stateDir = resolveTenantStateDir(tenantId);
-
-  // Create temp file for download
-  const archivePath = path.join(os.tmpdir(), `restore-${tenantId}-${Date.now()}.tar.gz`);
+  const stateDir = resolveTenantStateDir(tenantId, env);
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), `restore-${tenantId}-`));
+  let staging: string | undefined;
 
   try {
-    // Download from S3
-    const s3 = await createS3Client(config);
-    const response = await s3.send(
-      new GetObjectCommand({
-        Bucket: config.bucket,
-        Key: key,
-      }),
-    );
-
-    if (!response.Body) {
-      throw new Error("Empty response body from S3");
+    // Download the chain newest first, then apply it oldest first.
+    const layers: Array<{ key: string; archivePath: string; manifest: BackupManifest | null }> = [];
+    let nextKey: string | undefined = key;
+    while (nextKey) {
+      if (layers.length >= MAX_CHAIN_LENGTH || layers.some((layer) => layer.key === nextKey)) {
+        throw new Error(`Backup chain for ${key} is too long or cyclic`);
+      }
+      if (!isValidBackupKey(nextKey)) {
+        throw new Error(`Invalid backup key in chain: "${nextKey}"`);
+      }
+      const downloaded = path.join(workDir, `${layers.length}.download`);
+      await target.get(nextKey, downloaded);
+      let archivePath = downloaded;
+      if (await isEncryptedBackupFile(downloaded)) {
+        if (!params.encryptionKey) {
+          throw new Error("Backup is encrypted but no backup encryption key is configured");
+        }
+        archivePath = path.join(workDir, `${layers.length}.tar.gz`);
+        const header = await decryptBackupFile({
+          srcPath: downloaded,
+          destPath: archivePath,
+          masterKey: params.encryptionKey,
+        });
+        await fs.rm(downloaded, { force: true });
+        if (header.tenantId !== tenantId) {
+          throw new Error(
+            `Backup ${nextKey} belongs to tenant ${header.tenantId}, not ${tenantId}`,
+          );
+        }
+      }
+      const manifest = await readArchiveManifest(archivePath);
+      // A tenant must never receive another tenant's files, even in a dry run listing
+      if (manifest && manifest.tenantId !== tenantId) {
+        throw new Error(
+          `Backup ${nextKey} belongs to tenant ${manifest.tenantId}, not ${tenantId}`,
+        );
+      }
+      layers.unshift({ key: nextKey, archivePath, manifest });
+      nextKey = manifest?.kind === "incremental" ? manifest.parent : undefined;
+      if (manifest?.kind === "incremental" && !nextKey) {
+        throw new Error(`Incremental backup ${layers[0].key} has no parent`);
+      }
     }
 
-    // Write to temp file
-    const bodyBytes = await response.Body.transformToByteArray();
-    await fs.writeFile(archivePath, bodyBytes);
+    staging = await makeStagingDir(stateDir, "restore");
+    for (const layer of layers) {
+      await extractTarGz(layer.archivePath, staging);
+    }
+    await fs.rm(path.join(staging, MANIFEST_NAME), { force: true });
+    const manifest = layers.at(-1)?.manifest ?? null;
+    if (manifest) {
+      await verifyStagedFiles(staging, manifest);
+    }
+    const changes = await diffAgainstCurrent(staging, stateDir);
+    const chain = layers.map((layer) => layer.key);
 
-    // Clear existing state directory (but keep it if empty)
-    try {
-      const entries = await fs.readdir(stateDir);
-      for (const entry of entries) {
-        await fs.rm(path.join(stateDir, entry), { recursive: true, force: true });
+    if (!dryRun) {
+      if (!getTenant(tenantId, env)) {
+        await createTenant(tenantId, undefined, env);
+      }
+      // The backup state lives in the private dir, so it survives the swap.
+      // Swap the verified staging directory in place of the current data.
+      const previousDir = `${stateDir}.pre-restore-${Date.now()}`;
+      const hadPrevious = await fs
+        .rename(stateDir, previousDir)
+        .then(() => true)
+        .catch((err: NodeJS.ErrnoException) => {
+          if (err.code === "ENOENT") {
+            return false;
+          }
+          throw err;
+        });
+      await fs.rename(staging, stateDir);
+      staging = undefined;
+      // Empty directories are not archived; recreate the standard layout.
+      initializeTenantDirectories(tenantId, env);
+      if (hadPrevious) {
+        await fs.rm(previousDir, { recursive: true, force: true });
       }
-    } catch {
-      // Directory might not exist
     }
 
-    // Ensure directory exists
-    await fs.mkdir(stateDir, { recursive: true });
-
-    // Extract archive
-    await extractTarGz(archivePath, stateDir);
-
     return {
       tenantId,
       restoredAt: new Date().toISOString(),
       sourceKey: key,
+      dryRun,
+      chain,
+      verified: manifest !== null,
+      changes,
     };
   } finally {
-    // Cleanup temp file
-    try {
-      await fs.unlink(archivePath);
-    } catch {
-      // Ignore cleanup errors
+    if (staging) {
+      await fs.rm(staging, { recursive: true, force: true }).catch(() => {});
     }
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
   }
 }
 
 /**
- * Lists backups for a tenant in S3.
+ * Backs up a tenant's data to S3.
  */
-export async function listTenantBackups(params: {
+export async function backupTenantToS3(params: {
   tenantId: TenantId;
   config: BackupConfig;
-}): Promise<BackupInfo[]> {
-  const { tenantId, config } = params;
-  const { ListObjectsV2Command } = await import("@aws-sdk/client-s3");
-
-  const prefix = config.prefix ?? "backups";
-  const searchPrefix = `${prefix}/${tenantId}/`;
-
-  const s3 = await createS3Client(config);
-  const response = await s3.send(
-    new ListObjectsV2Command({
-      Bucket: config.bucket,
-      Prefix: searchPrefix,
-    }),
-  );
-
-  const backups: BackupInfo[] = [];
-
-  for (const obj of response.Contents ?? []) {
-    if (!obj.Key) {
-      continue;
-    }
+  key?: string;
+  incremental?: boolean;
+  encryptionKey?: Buffer;
+}): Promise<BackupResult> {
+  return await backupTenant(params);
+}
 
-    // Parse timestamp from key
-    const fileName = path.basename(obj.Key);
-    const match = fileName.match(/^(.+)-(\d{4}-\d{2}-\d{2}T.+)\.tar\.gz$/);
-    const timestamp = match ? match[2].replace(/-/g, ":") : (obj.LastModified?.toISOString() ?? "");
+/**
+ * Restores a tenant from an S3 backup.
+ */
+export async function restoreTenantFromS3(params: {
+  tenantId: TenantId;
+  config: BackupConfig;
+  key: string;
+  createIfMissing?: boolean;
+  dryRun?: boolean;
+  encryptionKey?: Buffer;
+}): Promise<RestoreResult> {
+  return await restoreTenant(params);
+}
 
-    backups.push({
-      key: obj.Key,
-      size: obj.Size ?? 0,
-      lastModified: obj.LastModified?.toISOString() ?? "",
+/**
+ * Lists backups for a tenant.
+ */
+export async function listTenantBackups(
+  params: BackupTargetSource & { tenantId: TenantId },
+): Promise<BackupInfo[]> {
+  const { tenantId } = params;
+  const target = resolveTarget(params);
+  const objects = await target.list(`${target.prefix}/${tenantId}/`);
+
+  const backups: BackupInfo[] = objects.map((obj) => {
+    const parsed = parseBackupKey(obj.key);
+    return {
+      key: obj.key,
+      size: obj.size,
+      lastModified: obj.lastModified,
       tenantId,
-      timestamp,
-    });
-  }
+      timestamp: parsed.timestamp ?? obj.lastModified,
+      incremental: parsed.incremental,
+      encrypted: parsed.encrypted,
+    };
+  });
 
-  // Sort by last modified, newest first
-  backups.sort((a, b) => b.lastModified.localeCompare(a.lastModified));
+  // Sort newest first
+  backups.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
 
   return backups;
 }
 
 /**
- * Deletes a backup from S3.
+ * Deletes a backup.
  */
-export async function deleteTenantBackup(params: {
-  key: string;
-  config: BackupConfig;
-}): Promise<void> {
-  const { key, config } = params;
-  const { DeleteObjectCommand } = await import("@aws-sdk/client-s3");
-
-  const s3 = await createS3Client(config);
-  await s3.send(
-    new DeleteObjectCommand({
-      Bucket: config.bucket,
-      Key: key,
-    }),
-  );
+export async function deleteTenantBackup(
+  params: BackupTargetSource & { key: string },
+): Promise<void> {
+  await resolveTarget(params).delete(params.key);
 }
 
 /**
  * Prunes old backups, keeping only the most recent N.
+ * Older backups that a kept incremental backup depends on are kept as well.
  */
-export async function pruneTenantBackups(params: {
-  tenantId: TenantId;
-  config: BackupConfig;
-  keepCount: number;
-}): Promise<string[]> {
-  const { tenantId, config, keepCount } = params;
+export async function pruneTenantBackups(
+  params: BackupTargetSource & { tenantId: TenantId; keepCount: number },
+): Promise<string[]> {
+  const { keepCount } = params;
+  const target = resolveTarget(params);
 
-  const backups = await listTenantBackups({ tenantId, config });
+  const backups = await listTenantBackups({ ...params, target });
 
-  if (backups.length <= keepCount) {
+  let keep = Math.max(0, keepCount);
+  while (keep > 0 && keep < backups.length && backups[keep - 1].incremental) {
+    keep += 1;
+  }
+  if (backups.length <= keep) {
     return [];
   }
 
-  const toDelete = backups.slice(keepCount);
   const deletedKeys: string[] = [];
-
-  for (const backup of toDelete) {
-    await deleteTenantBackup({ key: backup.key, config });
+  for (const backup of backups.slice(keep)) {
+    await target.delete(backup.key);
     deletedKeys.push(backup.key);
   }
 
@@ -0,0 +1,269 @@
+/**
+ * Incremental disk accounting for tenant state directories.
+ * OPENCLAWMU ADDITION: replaces recursive `du` scans with one initial walk per tenant
+ * plus file-watch updates.
+ *
+ * A tracker remembers the apparent size of every file below its root and adjusts the
+ * totals for the paths a watch event names. Totals are kept per top-level entry
+ * (workspace, agents, memory, ...) so per-area figures need no extra scan. When the
+ * watch cannot be set up (inotify limits, unsupported filesystem) the tracker falls
+ * back to periodic rescans; a full rescan also runs every `rescanIntervalMs` to
+ * correct drift from missed events.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { TenantId } from "./types.js";
+import { resolveTenantStateDir, resolveTenantWorkspaceSnapshotsDir } from "./paths.js";
+
+const DEFAULT_RESCAN_INTERVAL_MS = 60 * 60 * 1000;
+
+export type DirectoryUsageTrackerOptions = {
+  rescanIntervalMs?: number;
+  watch?: boolean;
+  /** Files left out of the totals (e.g. a loop image whose contents are counted). */
+  exclude?: string[];
+};
+
+export type DirectoryUsageTracker = {
+  readonly root: string;
+  /** Resolves once the initial walk is done. */
+  ready: Promise<void>;
+  /** Bytes below the root, or below one entry of it (a top-level name or a relative path). */
+  bytes: (entry?: string) => number;
+  /** Applies pending watch events and returns the current total. */
+  flush: () => Promise<number>;
+  /** Rescans everything. */
+  rescan: () => Promise<void>;
+  close: () => void;
+};
+
+async function walk(
+  dir: string,
+  onFile: (file: string, size: number) => void,
+  exclude: ReadonlySet<string>,
+): Promise<void> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await walk(full, onFile, exclude);
+    } else if (entry.isFile() && !exclude.has(full)) {
+      const stat = await fs.promises.lstat(full).catch(() => null);
+      if (stat) {
+        onFile(full, stat.size);
+      }
+    }
+  }
+}
+
+/**
+ * Tracks the size of everything below `root`.
+ */
+export function createDirectoryUsageTracker(
+  root: string,
+  opts: DirectoryUsageTrackerOptions = {},
+): DirectoryUsageTracker {
+  const exclude = new Set(opts.exclude);
+  let files = new Map<string, number>();
+  let totals = new Map<string, number>();
+  let total = 0;
+  const pending = new Set<string>();
+  let watcher: fs.FSWatcher | null = null;
+  let flushing: Promise<void> = Promise.resolve();
+
+  const topLevelOf = (file: string) => path.relative(root, file).split(path.sep)[0] ?? "";
+  const setFile = (file: string, size: number | null) => {
+    const previous = files.get(file) ?? 0;
+    const delta = (size ?? 0) - previous;
+    if (size === null) {
+      files.delete(file);
+    } else {
+      files.set(file, size);
+    }
+    if (delta !== 0) {
+      const key = topLevelOf(file);
+      totals.set(key, (totals.get(key) ?? 0) + delta);
+      total += delta;
+    }
+  };
+
+  const rescan = async () => {
+    const nextFiles = new Map<string, number>();
+    const nextTotals = new Map<string, number>();
+    let nextTotal = 0;
+    await walk(
+      root,
+      (file, size) => {
+        nextFiles.set(file, size);
+        const key = topLevelOf(file);
+        nextTotals.set(key, (nextTotals.get(key) ?? 0) + size);
+        nextTotal += size;
+      },
+      exclude,
+    );
+    // Events that arrived during the walk stay pending; re-applying them is harmless
+    files = nextFiles;
+    totals = nextTotals;
+    total = nextTotal;
+  };
+
+  /** Re-stats one path; directories (created, moved in or removed) are re-walked. */
+  const refreshPath = async (target: string) => {
+    if (exclude.has(target)) {
+      return;
+    }
+    const stat = await fs.promises.lstat(target).catch(() => null);
+    if (stat?.isFile()) {
+      setFile(target, stat.size);
+      return;
+    }
+    const prefix = `${target}${path.sep}`;
+    for (const file of files.keys()) {
+      if (file === target || file.startsWith(prefix)) {
+        setFile(file, null);
+      }
+    }
+    if (stat?.isDirectory()) {
+      await walk(target, setFile, exclude);
+    }
+  };
+
+  const flush = async () => {
+    const next = flushing.then(async () => {
+      const batch = [...pending];
+      pending.clear();
+      for (const target of batch) {
+        await refreshPath(target);
+      }
+    });
+    flushing = next.catch(() => {});
+    await next;
+    return total;
+  };
+
+  // Watch before the first walk so nothing written meanwhile is missed
+  if (opts.watch !== false) {
+    try {
+      watcher = fs.watch(root, { recursive: true, persistent: false }, (_event, filename) => {
+        if (filename) {
+          pending.add(path.join(root, filename.toString()));
+        }
+      });
+      watcher.on("error", () => {
+        watcher?.close();
+        watcher = null;
+      });
+    } catch {
+      watcher = null;
+    }
+  }
+  const ready = rescan();
+
+  const rescanTimer = setInterval(() => {
+    void ready.then(() => (watcher ? flushing.then(rescan) : rescan())).catch(() => {});
+  }, opts.rescanIntervalMs ?? DEFAULT_RESCAN_INTERVAL_MS);
+  rescanTimer.unref?.();
+
+  return {
+    root,
+    ready,
+    bytes: (entry) => {
+      if (entry === undefined) {
+        return total;
+      }
+      const rel = path.normalize(entry);
+      if (!rel.includes(path.sep)) {
+        return totals.get(rel) ?? 0;
+      }
+      // Nested entries are summed from the file list
+      const prefix = `${path.join(root, rel)}${path.sep}`;
+      let sum = 0;
+      for (const [file, size] of files) {
+        if (file.startsWith(prefix)) {
+          sum += size;
+        }
+      }
+      return sum;
+    },
+    flush: async () => {
+      await ready;
+      // Without a watch there are no events; fall back to a full scan
+      if (!watcher) {
+        await rescan();
+        return total;
+      }
+      return flush();
+    },
+    rescan,
+    close: () => {
+      clearInterval(rescanTimer);
+      watcher?.close();
+      watcher = null;
+    },
+  };
+}
+
+const tenantTrackers = new Map<string, DirectoryUsageTracker>();
+
+function getSharedTracker(root: string, mode?: number): DirectoryUsageTracker {
+  let tracker = tenantTrackers.get(root);
+  if (!tracker) {
+    fs.mkdirSync(root, { recursive: true, mode });
+    tracker = createDirectoryUsageTracker(root);
+    tenantTrackers.set(root, tracker);
+  }
+  return tracker;
+}
+
+/**
+ * Returns the (shared) tracker for a tenant's state directory.
+ */
+export function getTenantDiskUsageTracker(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): DirectoryUsageTracker {
+  return getSharedTracker(resolveTenantStateDir(tenantId, env));
+}
+
+/**
+ * Returns the (shared) tracker for a tenant's workspace snapshot store, which lives in
+ * the private dir rather than the state directory.
+ */
+export function getTenantSnapshotUsageTracker(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): DirectoryUsageTracker {
+  return getSharedTracker(resolveTenantWorkspaceSnapshotsDir(tenantId, env), 0o700);
+}
+
+/**
+ * Stops tracking a tenant (removed or purged tenants).
+ */
+export function closeTenantDiskUsageTracker(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): void {
+  for (const root of [
+    resolveTenantStateDir(tenantId, env),
+    resolveTenantWorkspaceSnapshotsDir(tenantId, env),
+  ]) {
+    tenantTrackers.get(root)?.close();
+    tenantTrackers.delete(root);
+  }
+}
+
+/**
+ * Stops every tracker (gateway shutdown, tests).
+ */
+export function closeTenantDiskUsageTrackers(): void {
+  for (const tracker of tenantTrackers.values()) {
+    tracker.close();
+  }
+  tenantTrackers.clear();
+}
@@ -0,0 +1,141 @@
+/**
+ * Per-tenant egress proxies for bwrap sandboxes.
+ * OPENCLAWMU ADDITION: one filtering proxy per tenant in egress mode "proxy".
+ *
+ * The proxy reads the tenant's rules on every connection, so policy changes apply to
+ * running sandboxes without restarting them. Decisions are appended to egress.jsonl
+ * when request logging is on. Socket and log live in the tenant's private dir, outside
+ * the state dir sandboxes mount, so a tenant cannot swap either for a symlink.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { SandboxBwrapConfig } from "../agents/sandbox/types.bwrap.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { TenantEntry, TenantId } from "./types.js";
+import {
+  startEgressProxy,
+  type EgressProxyHandle,
+  type EgressRequestRecord,
+} from "../agents/sandbox/egress-proxy.js";
+import { loadConfig } from "../config/config.js";
+import { resolveTenantEgressLogPath, resolveTenantEgressSocketPath } from "./paths.js";
+import { getTenant } from "./registry.js";
+import { resolveTenantSandboxSecurity } from "./sandbox-security.js";
+
+/** Rotate the request log to egress.jsonl.1 past this size. */
+const MAX_EGRESS_LOG_BYTES = 10 * 1024 * 1024;
+
+type TenantEgressProxy = {
+  handle: Promise<EgressProxyHandle>;
+  /** Serializes log appends so records stay in order. */
+  logQueue: Promise<void>;
+};
+
+const proxies = new Map<TenantId, TenantEgressProxy>();
+
+async function appendEgressLog(logPath: string, line: string): Promise<void> {
+  await fs.mkdir(path.dirname(logPath), { recursive: true, mode: 0o700 });
+  const stat = await fs.stat(logPath).catch(() => null);
+  if (stat && stat.size + line.length > MAX_EGRESS_LOG_BYTES) {
+    await fs.rename(logPath, `${logPath}.1`);
+  }
+  await fs.appendFile(logPath, line, "utf8");
+}
+
+function ensureTenantEgressProxy(params: {
+  tenantId: TenantId;
+  getConfig: () => OpenClawConfig;
+  env: NodeJS.ProcessEnv;
+}): Promise<EgressProxyHandle> {
+  const { tenantId, env } = params;
+  const existing = proxies.get(tenantId);
+  if (existing) {
+    return existing.handle;
+  }
+  const resolvePolicy = () =>
+    resolveTenantSandboxSecurity(params.getConfig(), getTenant(tenantId, env)).egress;
+  const logPath = resolveTenantEgressLogPath(tenantId, env);
+  const entry: TenantEgressProxy = {
+    logQueue: Promise.resolve(),
+    handle: startEgressProxy({
+      socketPath: resolveTenantEgressSocketPath(tenantId, env),
+      // Deny everything once the tenant leaves proxy mode; open sandboxes keep running
+      getRules: () => {
+        const policy = resolvePolicy();
+        return policy.mode === "proxy" ? policy.allow : [];
+      },
+      onRequest: (record: EgressRequestRecord) => {
+        if (!resolvePolicy().logRequests) {
+          return;
+        }
+        const line = `${JSON.stringify({ tenantId, ...record })}\n`;
+        // Logging failures never affect the connection
+        entry.logQueue = entry.logQueue.then(() => appendEgressLog(logPath, line)).catch(() => {});
+      },
+    }),
+  };
+  entry.handle.catch(() => {
+    if (proxies.get(tenantId) === entry) {
+      proxies.delete(tenantId);
+    }
+  });
+  proxies.set(tenantId, entry);
+  return entry.handle;
+}
+
+/**
+ * Stops a tenant's egress proxy (sandboxes using it lose network access).
+ */
+export async function stopTenantEgressProxy(tenantId: TenantId): Promise<void> {
+  const entry = proxies.get(tenantId);
+  if (!entry) {
+    return;
+  }
+  proxies.delete(tenantId);
+  const handle = await entry.handle.catch(() => null);
+  await handle?.close();
+  await entry.logQueue;
+}
+
+/**
+ * Stops every tenant egress proxy (gateway shutdown).
+ */
+export async function stopTenantEgressProxies(): Promise<void> {
+  await Promise.all([...proxies.keys()].map((tenantId) => stopTenantEgressProxy(tenantId)));
+}
+
+/**
+ * Resolves the bwrap restrictions for a tenant sandbox, starting the tenant's egress
+ * proxy when its egress mode is "proxy".
+ */
+export async function resolveTenantBwrapConfig(params: {
+  tenantId: TenantId;
+  entry?: Pick<TenantEntry, "sandbox"> | null;
+  cfg?: OpenClawConfig;
+  env?: NodeJS.ProcessEnv;
+}): Promise<Partial<SandboxBwrapConfig>> {
+  const env = params.env ?? process.env;
+  const cfg = params.cfg ?? loadConfig();
+  const entry = params.entry === undefined ? getTenant(params.tenantId, env) : params.entry;
+  const security = resolveTenantSandboxSecurity(cfg, entry);
+  const bwrap: Partial<SandboxBwrapConfig> = {
+    seccompProfile: security.seccompProfile,
+    landlock: security.landlock,
+  };
+  if (security.egress.mode === "open") {
+    bwrap.networkIsolation = false;
+  } else if (security.egress.mode === "proxy") {
+    const proxy = await ensureTenantEgressProxy({
+      tenantId: params.tenantId,
+      getConfig: params.cfg ? () => cfg : loadConfig,
+      env,
+    });
+    bwrap.egress = {
+      socketPath: proxy.socketPath,
+      bridge: security.egress.bridge,
+      port: security.egress.port,
+    };
+  }
+  return bwrap;
+}
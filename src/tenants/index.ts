@@ -25,13 +25,30 @@ export type {
   RemoveTenantOptions,
   TenantTokenFormat,
   TenantQuotas,
+  TenantQuotaNotifyTarget,
+  TenantTerminalSettings,
+  TenantTerminalRecordingSettings,
+  TenantPolicy,
+  TenantBackupSettings,
+  TenantSandboxSettings,
+  TenantLifecycleState,
+  TenantKeyScope,
+  TenantApiKey,
   TenantUsageSnapshot,
   TenantQuotaStatus,
   RateLimitState,
   QuotaCheckResult,
 } from "./types.js";
 
-export { TENANT_ID_PATTERN, isValidTenantId, parseTenantToken, buildTenantToken } from "./types.js";
+export {
+  TENANT_ID_PATTERN,
+  TENANT_KEY_SCOPES,
+  TENANT_LIFECYCLE_STATES,
+  isValidTenantId,
+  resolveTenantLifecycleState,
+  parseTenantToken,
+  buildTenantToken,
+} from "./types.js";
 
 // Paths
 export {
@@ -43,9 +60,17 @@ export {
   resolveTenantMemoryPath,
   resolveTenantPluginsDir,
   resolveTenantSandboxDir,
+  resolveTenantPrivateDir,
+  resolveTenantEgressSocketPath,
+  resolveTenantEgressLogPath,
+  resolveTenantWorkspaceImagePath,
+  resolveTenantWorkspaceSnapshotsDir,
   resolveTenantCredentialsDir,
   resolveTenantBackupsPath,
+  resolveTenantTerminalRecordingsDir,
+  resolveTenantLifecycleAuditPath,
   resolveTenantRegistryPath,
+  resolveTenantRegistrySqlitePath,
   resolveTenantUsageDir,
   resolveTenantUsageCurrentPath,
   resolveTenantUsageHistoryPath,
@@ -68,17 +93,213 @@ export {
   tenantExists,
 } from "./registry.js";
 
+// API keys
+export type {
+  TenantApiKeyInfo,
+  TenantApiKeyStatus,
+  CreateTenantKeyOptions,
+  CreateTenantKeyResult,
+  RevokeTenantKeyOptions,
+} from "./keys.js";
+
+export {
+  TENANT_PRIMARY_TOKEN_SCOPES,
+  TENANT_DEFAULT_KEY_SCOPES,
+  normalizeTenantKeyScopes,
+  resolveTenantKeyStatus,
+  createTenantKey,
+  listTenantKeys,
+  revokeTenantKey,
+} from "./keys.js";
+
+// Registry storage backends
+export type {
+  TenantRegistryBackend,
+  TenantRegistryStore,
+  TenantEntryUpdater,
+  MigrateTenantRegistryResult,
+} from "./registry-store.js";
+
+export {
+  TENANT_REGISTRY_BACKENDS,
+  createJsonTenantRegistryStore,
+  createSqliteTenantRegistryStore,
+  detectTenantRegistryBackend,
+  resolveTenantRegistryStorePath,
+  resolveTenantRegistryStore,
+  closeTenantRegistryStores,
+  migrateTenantRegistry,
+} from "./registry-store.js";
+
+// Terminal recordings
+export type {
+  ResolvedTerminalRecordingSettings,
+  TerminalRecordingInfo,
+  PruneTerminalRecordingsOptions,
+} from "./terminal-recordings.js";
+
+export {
+  resolveTerminalRecordingSettings,
+  isValidTerminalRecordingId,
+  createTerminalRecordingPath,
+  ensureTerminalRecordingsDir,
+  listTerminalRecordings,
+  readTerminalRecording,
+  pruneTerminalRecordings,
+} from "./terminal-recordings.js";
+
 // Backup operations
-export type { BackupConfig, BackupInfo, BackupResult, RestoreResult } from "./backup.js";
+export type {
+  BackupConfig,
+  BackupInfo,
+  BackupResult,
+  RestoreResult,
+  BackupRestoreChanges,
+  BackupManifest,
+  BackupManifestEntry,
+  TenantBackupStatus,
+} from "./backup.js";
 
 export {
+  backupTenant,
+  restoreTenant,
   backupTenantToS3,
   restoreTenantFromS3,
   listTenantBackups,
   deleteTenantBackup,
   pruneTenantBackups,
+  readTenantBackupStatus,
+  updateTenantBackupStatus,
 } from "./backup.js";
 
+export type { TenantBackupSchedule, ScheduledTenantBackupOutcome } from "./backup-schedule.js";
+
+export {
+  DEFAULT_BACKUP_FULL_EVERY,
+  resolveTenantBackupSchedule,
+  computeNextTenantBackupAtMs,
+  validateTenantBackupSettings,
+  selectBackupsToRetain,
+  pruneTenantBackupsByRetention,
+  runScheduledTenantBackup,
+  runDueTenantBackups,
+} from "./backup-schedule.js";
+
+// Sandbox restrictions
+export type { TenantSandboxEgress, TenantSandboxSecurity } from "./sandbox-security.js";
+
+export {
+  resolveTenantSandboxLimits,
+  resolveTenantSandboxSecurity,
+  validateTenantSandboxSettings,
+} from "./sandbox-security.js";
+
+export {
+  resolveTenantBwrapConfig,
+  stopTenantEgressProxy,
+  stopTenantEgressProxies,
+} from "./egress.js";
+
+// Sandbox disk quotas
+export type { DirectoryUsageTracker } from "./disk-usage.js";
+
+export {
+  createDirectoryUsageTracker,
+  getTenantDiskUsageTracker,
+  getTenantSnapshotUsageTracker,
+  closeTenantDiskUsageTracker,
+  closeTenantDiskUsageTrackers,
+} from "./disk-usage.js";
+
+export type { TenantWorkspaceQuotaStatus, WorkspaceQuotaBackend } from "./workspace-quota.js";
+
+export {
+  formatWorkspaceQuotaMessage,
+  resolveTenantWorkspaceLimitBytes,
+  checkTenantWorkspaceQuota,
+  checkTenantWorkspaceQuotas,
+  getTenantWorkspaceQuotaStatus,
+  releaseTenantWorkspaceQuota,
+} from "./workspace-quota.js";
+
+export type {
+  WorkspaceSnapshotEntry,
+  WorkspaceSnapshotInfo,
+  WorkspaceSnapshotManifest,
+  WorkspaceSnapshotReason,
+} from "./workspace-snapshots.js";
+
+export {
+  isValidWorkspaceSnapshotId,
+  createTenantWorkspaceSnapshot,
+  listTenantWorkspaceSnapshots,
+  deleteTenantWorkspaceSnapshot,
+  pruneTenantWorkspaceSnapshots,
+  snapshotTenantWorkspaceBeforeRun,
+} from "./workspace-snapshots.js";
+
+export type {
+  WorkspaceSnapshotDiff,
+  WorkspaceSnapshotRestoreResult,
+} from "./workspace-snapshots-restore.js";
+
+export {
+  diffTenantWorkspaceSnapshot,
+  restoreTenantWorkspaceSnapshot,
+} from "./workspace-snapshots-restore.js";
+
+export type {
+  MemoryIndexUsage,
+  TenantMemoryIndexAgentStats,
+  TenantMemoryIndexLimits,
+  TenantMemoryIndexStats,
+  TenantMemoryQuotaMeta,
+} from "./memory-index.js";
+
+export { resolveTenantMemoryIndexLimits, readTenantMemoryIndexStats } from "./memory-index.js";
+
+export type {
+  BackupTarget,
+  BackupTargetConfig,
+  BackupTargetKind,
+  BackupTargetParams,
+  BackupObjectInfo,
+} from "./backup-targets.js";
+
+export {
+  createBackupTarget,
+  createS3BackupTarget,
+  resolveConfiguredBackupTarget,
+  resolveBackupTargetFromParams,
+  isValidBackupKey,
+} from "./backup-targets.js";
+
+export {
+  BACKUP_ENCRYPTION_KEY_ENV,
+  resolveBackupEncryptionKey,
+  encryptBackupFile,
+  decryptBackupFile,
+  isEncryptedBackupFile,
+} from "./backup-crypto.js";
+
+// Export/import between gateways
+export type {
+  ExportedTenantEntry,
+  TenantExportFileEntry,
+  TenantExportManifest,
+  TenantExportResult,
+  TenantImportResult,
+} from "./transfer.js";
+
+export {
+  TENANT_EXPORT_FORMAT,
+  TENANT_EXPORT_VERSION,
+  TENANT_EXPORT_PASSPHRASE_ENV,
+  exportTenant,
+  importTenant,
+  readTenantExportManifest,
+} from "./transfer.js";
+
 // Usage tracking operations
 export {
   getCurrentPeriod,
@@ -88,6 +309,7 @@ export {
   saveTenantUsage,
   loadTenantUsageHistory,
   updateTokenUsage,
+  updateEmbeddingUsage,
   updateSessionCount,
   updateSandboxUsage,
   calculateTenantDiskUsage,
@@ -96,3 +318,56 @@ export {
   getTenantQuotaStatus,
   checkQuotaBeforeRequest,
 } from "./usage.js";
+
+// Quota gate
+export type {
+  TenantQuotaErrorCode,
+  TenantQuotaSource,
+  TenantQuotaEvent,
+  TenantQuotaGateParams,
+  TenantRunUsage,
+} from "./quota-gate.js";
+
+export {
+  TenantQuotaError,
+  isTenantQuotaError,
+  formatTenantQuotaReply,
+  resolveQuotaTenantId,
+  enforceTenantQuota,
+  meterTenantRunUsage,
+  releaseTenantRunAdmission,
+  onTenantQuotaEvent,
+} from "./quota-gate.js";
+
+// Model policy
+export type { TenantModelSelection } from "./model-policy.js";
+
+export {
+  isTenantModelAllowed,
+  filterModelCatalogForTenant,
+  validateTenantPolicy,
+  resolveTenantModelSelection,
+  resolveTenantModelCatalog,
+} from "./model-policy.js";
+
+// Lifecycle
+export type {
+  TenantLifecycleAuditRecord,
+  TenantLifecycleEvent,
+  TenantTransitionOptions,
+  TenantTransitionResult,
+} from "./lifecycle.js";
+
+export {
+  DEFAULT_TENANT_PURGE_GRACE_DAYS,
+  MAX_TENANT_PURGE_GRACE_DAYS,
+  isTenantLifecycleState,
+  canTenantRunModels,
+  listTenantTransitions,
+  transitionTenantState,
+  purgeTenant,
+  purgeExpiredTenants,
+  appendTenantLifecycleAudit,
+  readTenantLifecycleAudit,
+  onTenantLifecycleEvent,
+} from "./lifecycle.js";
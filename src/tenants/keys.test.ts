@@ -0,0 +1,85 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createTenantKey, listTenantKeys, revokeTenantKey } from "./keys.js";
+import { closeTenantRegistryStores } from "./registry-store.js";
+import { createTenant, rotateTenantToken, validateTenantToken } from "./registry.js";
+
+async function makeStateDir() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-tenant-keys-"));
+  return {
+    env: { ...process.env, OPENCLAW_STATE_DIR: dir } as NodeJS.ProcessEnv,
+    cleanup: async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+afterEach(() => {
+  closeTenantRegistryStores();
+});
+
+describe("tenant api keys", () => {
+  it("authenticates scoped keys and tracks last use", async () => {
+    const state = await makeStateDir();
+    await createTenant("demo", undefined, state.env);
+    const { key, token } = await createTenantKey(
+      "demo",
+      { name: "viewer", scopes: ["operator.read"] },
+      state.env,
+    );
+
+    const context = await validateTenantToken(token, state.env);
+    expect(context).toMatchObject({
+      tenantId: "demo",
+      keyId: key.keyId,
+      scopes: ["operator.read"],
+    });
+    expect(listTenantKeys("demo", state.env)[0]?.lastUsedAt).toBeTruthy();
+    expect(JSON.stringify(listTenantKeys("demo", state.env))).not.toContain("tokenHash");
+    await state.cleanup();
+  });
+
+  it("rejects revoked and expired keys", async () => {
+    const state = await makeStateDir();
+    await createTenant("demo", undefined, state.env);
+    const { key, token } = await createTenantKey("demo", { name: "ci" }, state.env);
+
+    await revokeTenantKey("demo", key.keyId, {}, state.env);
+    expect(await validateTenantToken(token, state.env)).toBeNull();
+    expect(listTenantKeys("demo", state.env)[0]?.status).toBe("revoked");
+
+    await expect(
+      createTenantKey("demo", { name: "old", expiresAt: "2000-01-01T00:00:00Z" }, state.env),
+    ).rejects.toThrow(/future/);
+    await state.cleanup();
+  });
+
+  it("keeps keys valid during a revocation grace period", async () => {
+    const state = await makeStateDir();
+    await createTenant("demo", undefined, state.env);
+    const { key, token } = await createTenantKey("demo", { name: "ci" }, state.env);
+
+    const revoked = await revokeTenantKey("demo", key.keyId, { graceMs: 60_000 }, state.env);
+    expect(revoked.status).toBe("active");
+    expect(revoked.expiresAt).toBeTruthy();
+    expect((await validateTenantToken(token, state.env))?.keyId).toBe(key.keyId);
+    await state.cleanup();
+  });
+
+  it("accepts the previous primary token during a rotation grace period", async () => {
+    const state = await makeStateDir();
+    const { token: oldToken } = await createTenant("demo", undefined, state.env);
+
+    const rotated = await rotateTenantToken("demo", { graceMs: 60_000 }, state.env);
+    expect(rotated.previousTokenExpiresAt).toBeTruthy();
+    expect(await validateTenantToken(oldToken, state.env)).not.toBeNull();
+    expect(await validateTenantToken(rotated.token, state.env)).not.toBeNull();
+
+    await rotateTenantToken("demo", undefined, state.env);
+    expect(await validateTenantToken(oldToken, state.env)).toBeNull();
+    expect(await validateTenantToken(rotated.token, state.env)).toBeNull();
+    await state.cleanup();
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Tenant API key management.
+ * OPENCLAWMU ADDITION: named, scoped, expiring tenant credentials.
+ *
+ * Besides the primary token (which carries every scope), a tenant can hold any
+ * number of named keys with a subset of scopes and an optional expiry. Keys use
+ * the regular "tenant:{tenantId}:{secret}" token format, so clients do not need
+ * to know which kind of credential they hold.
+ */
+
+import crypto from "node:crypto";
+import { resolveTenantRegistryStore } from "./registry-store.js";
+import { generateTenantSecret, hashTenantSecret, safeEqualTenantHash } from "./tokens.js";
+import {
+  TENANT_KEY_SCOPES,
+  buildTenantToken,
+  type TenantApiKey,
+  type TenantEntry,
+  type TenantId,
+  type TenantKeyScope,
+} from "./types.js";
+
+/** Scopes carried by the primary tenant token. */
+export const TENANT_PRIMARY_TOKEN_SCOPES: readonly TenantKeyScope[] = TENANT_KEY_SCOPES;
+
+/** Scopes granted to new keys when none are requested. */
+export const TENANT_DEFAULT_KEY_SCOPES: readonly TenantKeyScope[] = [
+  "operator.read",
+  "operator.write",
+];
+
+const MAX_KEYS_PER_TENANT = 50;
+const MAX_KEY_NAME_LENGTH = 64;
+
+export type TenantApiKeyStatus = "active" | "expired" | "revoked";
+
+/**
+ * Public view of a tenant API key (never includes the hash).
+ */
+export type TenantApiKeyInfo = Omit<TenantApiKey, "tokenHash"> & {
+  status: TenantApiKeyStatus;
+};
+
+export type CreateTenantKeyOptions = {
+  name: string;
+  scopes?: TenantKeyScope[];
+  /** ISO timestamp after which the key is rejected. */
+  expiresAt?: string;
+};
+
+export type CreateTenantKeyResult = {
+  key: TenantApiKeyInfo;
+  /** The plaintext token (only returned at creation). */
+  token: string;
+};
+
+export type RevokeTenantKeyOptions = {
+  /** Keep the key valid for this long before it stops working (for overlapping rotation). */
+  graceMs?: number;
+};
+
+/**
+ * Credential matched during token validation.
+ */
+export type ResolvedTenantCredential = {
+  tokenHash: string;
+  keyId?: string;
+  scopes: TenantKeyScope[];
+};
+
+/**
+ * Normalizes user-provided scopes. Returns null if any scope is unknown or the list is empty.
+ */
+export function normalizeTenantKeyScopes(input: unknown): TenantKeyScope[] | null {
+  if (!Array.isArray(input) || input.length === 0) {
+    return null;
+  }
+  const scopes = new Set<TenantKeyScope>();
+  for (const raw of input) {
+    const scope = typeof raw === "string" ? raw.trim() : "";
+    if (!TENANT_KEY_SCOPES.includes(scope as TenantKeyScope)) {
+      return null;
+    }
+    scopes.add(scope as TenantKeyScope);
+  }
+  return TENANT_KEY_SCOPES.filter((scope) => scopes.has(scope));
+}
+
+function parseTimestamp(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Resolves the status of a key at the given time.
+ */
+export function resolveTenantKeyStatus(key: TenantApiKey, nowMs = Date.now()): TenantApiKeyStatus {
+  if (key.revokedAt) {
+    return "revoked";
+  }
+  const expiresAt = parseTimestamp(key.expiresAt);
+  if (expiresAt !== null && expiresAt <= nowMs) {
+    return "expired";
+  }
+  return "active";
+}
+
+function toKeyInfo(key: TenantApiKey, nowMs: number): TenantApiKeyInfo {
+  const { tokenHash: _tokenHash, ...rest } = key;
+  return { ...rest, status: resolveTenantKeyStatus(key, nowMs) };
+}
+
+/**
+ * Finds the credential (primary token, previous primary token in its grace window,
+ * or an active API key) matching a secret hash.
+ */
+export function resolveTenantCredential(
+  entry: TenantEntry,
+  secretHash: string,
+  nowMs = Date.now(),
+): ResolvedTenantCredential | null {
+  if (safeEqualTenantHash(secretHash, entry.tokenHash)) {
+    return { tokenHash: entry.tokenHash, scopes: [...TENANT_PRIMARY_TOKEN_SCOPES] };
+  }
+  if (entry.previousTokenHash && safeEqualTenantHash(secretHash, entry.previousTokenHash)) {
+    const expiresAt = parseTimestamp(entry.previousTokenExpiresAt);
+    if (expiresAt !== null && expiresAt > nowMs) {
+      return { tokenHash: entry.previousTokenHash, scopes: [...TENANT_PRIMARY_TOKEN_SCOPES] };
+    }
+  }
+  for (const key of entry.keys ?? []) {
+    if (!safeEqualTenantHash(secretHash, key.tokenHash)) {
+      continue;
+    }
+    if (resolveTenantKeyStatus(key, nowMs) !== "active") {
+      return null;
+    }
+    return { tokenHash: key.tokenHash, keyId: key.keyId, scopes: [...key.scopes] };
+  }
+  return null;
+}
+
+function generateKeyId(): string {
+  return `key_${crypto.randomBytes(6).toString("hex")}`;
+}
+
+/**
+ * Creates a named API key for a tenant.
+ * @throws Error if the tenant does not exist or the options are invalid
+ */
+export async function createTenantKey(
+  tenantId: TenantId,
+  options: CreateTenantKeyOptions,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<CreateTenantKeyResult> {
+  const name = options.name?.trim();
+  if (!name || name.length > MAX_KEY_NAME_LENGTH) {
+    throw new Error(`Key name is required (1-${MAX_KEY_NAME_LENGTH} characters)`);
+  }
+  const scopes = options.scopes
+    ? normalizeTenantKeyScopes(options.scopes)
+    : [...TENANT_DEFAULT_KEY_SCOPES];
+  if (!scopes) {
+    throw new Error(`Invalid key scopes. Allowed: ${TENANT_KEY_SCOPES.join(", ")}`);
+  }
+  const now = Date.now();
+  if (options.expiresAt !== undefined) {
+    const expiresAt = parseTimestamp(options.expiresAt);
+    if (expiresAt === null || expiresAt <= now) {
+      throw new Error("expiresAt must be a future ISO timestamp");
+    }
+  }
+
+  const secret = generateTenantSecret();
+  const key: TenantApiKey = {
+    keyId: generateKeyId(),
+    name,
+    tokenHash: hashTenantSecret(secret),
+    scopes,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: options.expiresAt ? new Date(options.expiresAt).toISOString() : undefined,
+  };
+
+  await resolveTenantRegistryStore(env).updateEntry(tenantId, (current) => {
+    if (!current) {
+      throw new Error(`Tenant not found: "${tenantId}"`);
+    }
+    const keys = current.keys ?? [];
+    const activeCount = keys.filter((k) => resolveTenantKeyStatus(k, now) === "active").length;
+    if (activeCount >= MAX_KEYS_PER_TENANT) {
+      throw new Error(`Tenant has too many active keys (max ${MAX_KEYS_PER_TENANT})`);
+    }
+    if (keys.some((k) => k.name === name && resolveTenantKeyStatus(k, now) === "active")) {
+      throw new Error(`An active key named "${name}" already exists`);
+    }
+    return { ...current, keys: [...keys, key] };
+  });
+
+  return {
+    key: toKeyInfo(key, now),
+    token: buildTenantToken(tenantId, secret),
+  };
+}
+
+/**
+ * Lists a tenant's API keys (including revoked and expired ones).
+ * @throws Error if the tenant does not exist
+ */
+export function listTenantKeys(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): TenantApiKeyInfo[] {
+  const entry = resolveTenantRegistryStore(env).get(tenantId);
+  if (!entry) {
+    throw new Error(`Tenant not found: "${tenantId}"`);
+  }
+  const now = Date.now();
+  return (entry.keys ?? []).map((key) => toKeyInfo(key, now));
+}
+
+/**
+ * Revokes a tenant API key, immediately or after a grace period.
+ * With a grace period the key keeps working until then (its expiry is shortened).
+ * @throws Error if the tenant or key does not exist
+ */
+export async function revokeTenantKey(
+  tenantId: TenantId,
+  keyId: string,
+  options: RevokeTenantKeyOptions = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<TenantApiKeyInfo> {
+  const now = Date.now();
+  let revoked: TenantApiKey | undefined;
+  await resolveTenantRegistryStore(env).updateEntry(tenantId, (current) => {
+    if (!current) {
+      throw new Error(`Tenant not found: "${tenantId}"`);
+    }
+    const keys = current.keys ?? [];
+    const index = keys.findIndex((key) => key.keyId === keyId);
+    if (index < 0) {
+      throw new Error(`Key not found: "${keyId}"`);
+    }
+    const existing = keys[index];
+    const graceMs = Math.max(0, options.graceMs ?? 0);
+    if (graceMs > 0 && resolveTenantKeyStatus(existing, now) === "active") {
+      const graceEnd = now + graceMs;
+      const currentExpiry = parseTimestamp(existing.expiresAt);
+      const expiresAt = currentExpiry !== null ? Math.min(currentExpiry, graceEnd) : graceEnd;
+      revoked = { ...existing, expiresAt: new Date(expiresAt).toISOString() };
+    } else {
+      revoked = { ...existing, revokedAt: existing.revokedAt ?? new Date(now).toISOString() };
+    }
+    const nextKeys = [...keys];
+    nextKeys[index] = revoked;
+    return { ...current, keys: nextKeys };
+  });
+  if (!revoked) {
+    throw new Error(`Key not found: "${keyId}"`);
+  }
+  return toKeyInfo(revoked, now);
+}
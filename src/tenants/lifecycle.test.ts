@@ -0,0 +1,166 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  onTenantLifecycleEvent,
+  purgeExpiredTenants,
+  purgeTenant,
+  readTenantLifecycleAudit,
+  resetTenantLifecycleListenersForTest,
+  transitionTenantState,
+  type TenantLifecycleEvent,
+} from "./lifecycle.js";
+import { resolveTenantPrivateDir, resolveTenantStateDir } from "./paths.js";
+import { enforceTenantQuota, resetTenantQuotaGateForTest } from "./quota-gate.js";
+import { closeTenantRegistryStores } from "./registry-store.js";
+import { createTenant, getTenant, validateTenantToken } from "./registry.js";
+import { releaseTenantWorkspaceQuota } from "./workspace-quota.js";
+
+vi.mock("./workspace-quota.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./workspace-quota.js")>();
+  return { ...actual, releaseTenantWorkspaceQuota: vi.fn(actual.releaseTenantWorkspaceQuota) };
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function makeTenant() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-lifecycle-"));
+  const env = { ...process.env, OPENCLAW_STATE_DIR: dir } as NodeJS.ProcessEnv;
+  const { token } = await createTenant("demo", undefined, env);
+  fs.mkdirSync(resolveTenantStateDir("demo", env), { recursive: true });
+  return { env, token, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
+
+afterEach(() => {
+  resetTenantLifecycleListenersForTest();
+  resetTenantQuotaGateForTest();
+  closeTenantRegistryStores();
+});
+
+describe("tenant lifecycle", () => {
+  it("suspends and reactivates with an audit trail", async () => {
+    const tenant = await makeTenant();
+    const events: TenantLifecycleEvent[] = [];
+    onTenantLifecycleEvent((evt) => events.push(evt));
+
+    await transitionTenantState(
+      "demo",
+      "suspended",
+      { reason: "billing", actor: "admin" },
+      tenant.env,
+    );
+    expect(getTenant("demo", tenant.env)).toMatchObject({
+      state: "suspended",
+      stateReason: "billing",
+    });
+    expect(await validateTenantToken(tenant.token, tenant.env)).toBeNull();
+    await expect(
+      enforceTenantQuota({ tenantId: "demo", source: "cron", env: tenant.env }),
+    ).rejects.toMatchObject({ code: "tenant_inactive" });
+
+    await expect(transitionTenantState("demo", "suspended", {}, tenant.env)).rejects.toThrow(
+      /already suspended/,
+    );
+    await transitionTenantState("demo", "active", {}, tenant.env);
+    expect(getTenant("demo", tenant.env)?.state).toBeUndefined();
+    expect(await validateTenantToken(tenant.token, tenant.env)).not.toBeNull();
+
+    expect(events.map((evt) => evt.type === "transition" && evt.to)).toEqual([
+      "suspended",
+      "active",
+    ]);
+    const audit = await readTenantLifecycleAudit({ tenantId: "demo" }, tenant.env);
+    expect(audit).toMatchObject([
+      { action: "transition", from: "active", to: "suspended", reason: "billing", actor: "admin" },
+      { action: "transition", from: "suspended", to: "active" },
+    ]);
+    tenant.cleanup();
+  });
+
+  it("limits read-only tenants to read scope", async () => {
+    const tenant = await makeTenant();
+    await transitionTenantState("demo", "read-only", {}, tenant.env);
+    const context = await validateTenantToken(tenant.token, tenant.env);
+    expect(context?.scopes).toEqual(["operator.read"]);
+    tenant.cleanup();
+  });
+
+  it("purges data only after the grace window", async () => {
+    const tenant = await makeTenant();
+    const now = Date.now();
+    const { purgeAfter } = await transitionTenantState(
+      "demo",
+      "pending-deletion",
+      { graceDays: 7, now },
+      tenant.env,
+    );
+    expect(Date.parse(purgeAfter ?? "")).toBe(now + 7 * DAY_MS);
+
+    expect(await purgeExpiredTenants({ now: now + 6 * DAY_MS }, tenant.env)).toEqual({
+      purged: [],
+      failed: [],
+    });
+    expect(fs.existsSync(resolveTenantStateDir("demo", tenant.env))).toBe(true);
+    fs.mkdirSync(resolveTenantPrivateDir("demo", tenant.env), { recursive: true });
+
+    expect(await purgeExpiredTenants({ now: now + 8 * DAY_MS }, tenant.env)).toEqual({
+      purged: ["demo"],
+      failed: [],
+    });
+    expect(getTenant("demo", tenant.env)).toBeNull();
+    expect(fs.existsSync(resolveTenantStateDir("demo", tenant.env))).toBe(false);
+    expect(fs.existsSync(resolveTenantPrivateDir("demo", tenant.env))).toBe(false);
+    const audit = await readTenantLifecycleAudit({ tenantId: "demo" }, tenant.env);
+    expect(audit.at(-1)).toMatchObject({ action: "purged", actor: "purge-job" });
+    tenant.cleanup();
+  });
+
+  it("keeps the entry of a failed purge until a retry removes the data", async () => {
+    const tenant = await makeTenant();
+    const now = Date.now();
+    await transitionTenantState("demo", "pending-deletion", { graceDays: 0, now }, tenant.env);
+    vi.mocked(releaseTenantWorkspaceQuota).mockRejectedValueOnce(new Error("umount failed"));
+
+    expect(await purgeExpiredTenants({ now: now + DAY_MS }, tenant.env)).toEqual({
+      purged: [],
+      failed: [{ tenantId: "demo", error: "umount failed" }],
+    });
+    expect(getTenant("demo", tenant.env)).toMatchObject({ state: "pending-deletion" });
+    expect(getTenant("demo", tenant.env)?.purgeStartedAt).toBeDefined();
+    await expect(transitionTenantState("demo", "active", {}, tenant.env)).rejects.toThrow(
+      /being purged/,
+    );
+
+    expect((await purgeExpiredTenants({ now: now + DAY_MS }, tenant.env)).purged).toEqual(["demo"]);
+    expect(getTenant("demo", tenant.env)).toBeNull();
+    expect(fs.existsSync(resolveTenantStateDir("demo", tenant.env))).toBe(false);
+    tenant.cleanup();
+  });
+
+  it("purges a single tenant without touching other due tenants", async () => {
+    const tenant = await makeTenant();
+    await createTenant("other", undefined, tenant.env);
+    const now = Date.now();
+    await transitionTenantState("demo", "pending-deletion", { graceDays: 0, now }, tenant.env);
+    await transitionTenantState("other", "pending-deletion", { graceDays: 0, now }, tenant.env);
+
+    expect(await purgeTenant("demo", { now, actor: "admin" }, tenant.env)).toBe(true);
+    expect(getTenant("demo", tenant.env)).toBeNull();
+    expect(getTenant("other", tenant.env)).toMatchObject({ state: "pending-deletion" });
+    expect(await purgeTenant("demo", { now }, tenant.env)).toBe(false);
+    tenant.cleanup();
+  });
+
+  it("keeps a tenant whose deletion was cancelled", async () => {
+    const tenant = await makeTenant();
+    const now = Date.now();
+    await transitionTenantState("demo", "pending-deletion", { graceDays: 0, now }, tenant.env);
+    await expect(
+      transitionTenantState("demo", "archived", { now }, tenant.env),
+    ).resolves.toMatchObject({ from: "pending-deletion", to: "archived", purgeAfter: undefined });
+    expect((await purgeExpiredTenants({ now: now + DAY_MS }, tenant.env)).purged).toEqual([]);
+    expect(getTenant("demo", tenant.env)?.state).toBe("archived");
+    tenant.cleanup();
+  });
+});
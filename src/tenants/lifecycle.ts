@@ -0,0 +1,316 @@
+/**
+ * Tenant lifecycle states and scheduled purge.
+ * OPENCLAWMU ADDITION: suspend / read-only / archive / pending-deletion transitions.
+ *
+ * Transitions are stored on the registry entry (`state`, `stateChangedAt`, `purgeAfter`),
+ * appended to the lifecycle audit log ({stateDir}/tenants-audit.jsonl) and emitted as
+ * events so the gateway can stop the tenant's cron scheduler, terminals and connections.
+ *
+ * Deleting a tenant through the lifecycle moves it to `pending-deletion`; its data is only
+ * removed by `purgeTenant` (or the hourly `purgeExpiredTenants`) once the grace window has
+ * passed. A purge marks the entry (`purgeStartedAt`) before deleting anything and drops it
+ * last, so a purge that fails halfway leaves a tombstone the next run retries.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { TenantEntry, TenantId, TenantLifecycleState } from "./types.js";
+import {
+  resolveTenantLifecycleAuditPath,
+  resolveTenantPrivateDir,
+  resolveTenantStateDir,
+} from "./paths.js";
+import { resolveTenantRegistryStore } from "./registry-store.js";
+import { listTenants } from "./registry.js";
+import { TENANT_LIFECYCLE_STATES, resolveTenantLifecycleState } from "./types.js";
+import { releaseTenantWorkspaceQuota } from "./workspace-quota.js";
+
+export const DEFAULT_TENANT_PURGE_GRACE_DAYS = 30;
+export const MAX_TENANT_PURGE_GRACE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Allowed transitions; a pending deletion can be cancelled by moving to any other state. */
+const TRANSITIONS: Record<TenantLifecycleState, readonly TenantLifecycleState[]> = {
+  active: ["suspended", "read-only", "archived", "pending-deletion"],
+  suspended: ["active", "read-only", "archived", "pending-deletion"],
+  "read-only": ["active", "suspended", "archived", "pending-deletion"],
+  archived: ["active", "suspended", "pending-deletion"],
+  "pending-deletion": ["active", "suspended", "read-only", "archived"],
+};
+
+export type TenantLifecycleAuditRecord = {
+  ts: string;
+  tenantId: TenantId;
+  action: "transition" | "purged" | "purge_failed";
+  from?: TenantLifecycleState;
+  to?: TenantLifecycleState;
+  reason?: string;
+  /** Who requested the change (e.g. "admin", "control-plane", "purge-job"). */
+  actor?: string;
+  purgeAfter?: string;
+  error?: string;
+};
+
+export type TenantLifecycleEvent =
+  | {
+      type: "transition";
+      tenantId: TenantId;
+      from: TenantLifecycleState;
+      to: TenantLifecycleState;
+      changedAt: string;
+      purgeAfter?: string;
+    }
+  | { type: "purged"; tenantId: TenantId; purgedAt: string };
+
+export type TenantTransitionOptions = {
+  reason?: string;
+  actor?: string;
+  /** Grace window for `pending-deletion` (default 30 days). */
+  graceDays?: number;
+  now?: number;
+};
+
+export type TenantTransitionResult = {
+  tenantId: TenantId;
+  from: TenantLifecycleState;
+  to: TenantLifecycleState;
+  changedAt: string;
+  purgeAfter?: string;
+};
+
+const listeners = new Set<(evt: TenantLifecycleEvent) => void>();
+
+export function isTenantLifecycleState(value: unknown): value is TenantLifecycleState {
+  return TENANT_LIFECYCLE_STATES.includes(value as TenantLifecycleState);
+}
+
+/**
+ * Whether model runs (agent, cron, channel replies) are allowed in this state.
+ */
+export function canTenantRunModels(state: TenantLifecycleState): boolean {
+  return state === "active";
+}
+
+/**
+ * Lists the states a tenant can move to from `from`.
+ */
+export function listTenantTransitions(from: TenantLifecycleState): readonly TenantLifecycleState[] {
+  return TRANSITIONS[from];
+}
+
+/**
+ * Moves a tenant to a new lifecycle state and records it in the audit log.
+ * @throws Error if the tenant does not exist, the state is unknown, or the transition is not allowed
+ */
+export async function transitionTenantState(
+  tenantId: TenantId,
+  to: TenantLifecycleState,
+  options: TenantTransitionOptions = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<TenantTransitionResult> {
+  if (!isTenantLifecycleState(to)) {
+    throw new Error(`Unknown tenant state: "${String(to)}"`);
+  }
+  const graceDays = options.graceDays ?? DEFAULT_TENANT_PURGE_GRACE_DAYS;
+  if (!Number.isFinite(graceDays) || graceDays < 0 || graceDays > MAX_TENANT_PURGE_GRACE_DAYS) {
+    throw new Error(`graceDays must be between 0 and ${MAX_TENANT_PURGE_GRACE_DAYS}`);
+  }
+  const now = options.now ?? Date.now();
+  const changedAt = new Date(now).toISOString();
+  const purgeAfter =
+    to === "pending-deletion" ? new Date(now + graceDays * DAY_MS).toISOString() : undefined;
+
+  let from = "active" as TenantLifecycleState;
+  await resolveTenantRegistryStore(env).updateEntry(tenantId, (current) => {
+    if (!current) {
+      throw new Error(`Tenant not found: "${tenantId}"`);
+    }
+    from = resolveTenantLifecycleState(current);
+    if (current.purgeStartedAt) {
+      throw new Error(`Tenant "${tenantId}" is being purged`);
+    }
+    if (from === to) {
+      throw new Error(`Tenant "${tenantId}" is already ${to}`);
+    }
+    if (!TRANSITIONS[from].includes(to)) {
+      throw new Error(`Cannot move tenant "${tenantId}" from ${from} to ${to}`);
+    }
+    const entry: TenantEntry = {
+      ...current,
+      state: to === "active" ? undefined : to,
+      stateChangedAt: changedAt,
+      stateReason: options.reason || undefined,
+      purgeAfter,
+    };
+    delete entry.disabled;
+    return entry;
+  });
+
+  await appendTenantLifecycleAudit(
+    {
+      ts: changedAt,
+      tenantId,
+      action: "transition",
+      from,
+      to,
+      reason: options.reason,
+      actor: options.actor,
+      purgeAfter,
+    },
+    env,
+  );
+  emitTenantLifecycleEvent({ type: "transition", tenantId, from, to, changedAt, purgeAfter });
+  return { tenantId, from, to, changedAt, purgeAfter };
+}
+
+function isPurgeDue(entry: TenantEntry, now: number): boolean {
+  if (resolveTenantLifecycleState(entry) !== "pending-deletion") {
+    return false;
+  }
+  const purgeAfter = entry.purgeAfter ? Date.parse(entry.purgeAfter) : Number.NaN;
+  return Number.isFinite(purgeAfter) && purgeAfter <= now;
+}
+
+/**
+ * Deletes the data of one pending-deletion tenant whose grace window has passed, then its
+ * registry entry. The purge (or failure) is recorded in the audit log.
+ * @returns false when the tenant is not due for purging (or its deletion was cancelled)
+ * @throws Error if deleting its data fails; the entry is kept and retried by the purge job
+ */
+export async function purgeTenant(
+  tenantId: TenantId,
+  options: { now?: number; actor?: string } = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<boolean> {
+  const now = options.now ?? Date.now();
+  const actor = options.actor ?? "purge-job";
+  const store = resolveTenantRegistryStore(env);
+  const ts = new Date(now).toISOString();
+  try {
+    // Re-check under the store lock so a deletion cancelled meanwhile is kept; the
+    // tombstone stops it being cancelled once data starts to go.
+    let started = false;
+    await store.updateEntry(tenantId, (current) => {
+      if (!current || !isPurgeDue(current, now)) {
+        return undefined;
+      }
+      started = true;
+      return { ...current, purgeStartedAt: current.purgeStartedAt ?? ts };
+    });
+    if (!started) {
+      return false;
+    }
+    // A loop-mounted workspace must be unmounted before its image can go
+    await releaseTenantWorkspaceQuota(tenantId, env);
+    await fs.rm(resolveTenantStateDir(tenantId, env), { recursive: true, force: true });
+    await fs.rm(resolveTenantPrivateDir(tenantId, env), { recursive: true, force: true });
+    await store.updateEntry(tenantId, () => null);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    await appendTenantLifecycleAudit(
+      { ts, tenantId, action: "purge_failed", actor, error },
+      env,
+    ).catch(() => {});
+    throw err;
+  }
+  await appendTenantLifecycleAudit(
+    { ts, tenantId, action: "purged", from: "pending-deletion", actor },
+    env,
+  ).catch(() => {});
+  emitTenantLifecycleEvent({ type: "purged", tenantId, purgedAt: ts });
+  return true;
+}
+
+/**
+ * Purges every pending-deletion tenant whose grace window has passed (see `purgeTenant`).
+ */
+export async function purgeExpiredTenants(
+  options: { now?: number; actor?: string } = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<{ purged: TenantId[]; failed: Array<{ tenantId: TenantId; error: string }> }> {
+  const now = options.now ?? Date.now();
+  const store = resolveTenantRegistryStore(env);
+  const purged: TenantId[] = [];
+  const failed: Array<{ tenantId: TenantId; error: string }> = [];
+
+  for (const tenantId of listTenants(env)) {
+    const entry = store.get(tenantId);
+    if (!entry || !isPurgeDue(entry, now)) {
+      continue;
+    }
+    try {
+      if (await purgeTenant(tenantId, { ...options, now }, env)) {
+        purged.push(tenantId);
+      }
+    } catch (err) {
+      failed.push({ tenantId, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return { purged, failed };
+}
+
+/**
+ * Appends a record to the lifecycle audit log.
+ */
+export async function appendTenantLifecycleAudit(
+  record: TenantLifecycleAuditRecord,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<void> {
+  const auditPath = resolveTenantLifecycleAuditPath(env);
+  await fs.mkdir(path.dirname(auditPath), { recursive: true });
+  await fs.appendFile(auditPath, `${JSON.stringify(record)}\n`, "utf8");
+}
+
+/**
+ * Reads the lifecycle audit log, oldest first.
+ */
+export async function readTenantLifecycleAudit(
+  options: { tenantId?: TenantId; limit?: number } = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<TenantLifecycleAuditRecord[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(resolveTenantLifecycleAuditPath(env), "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw err;
+  }
+  const records: TenantLifecycleAuditRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const record = JSON.parse(line) as TenantLifecycleAuditRecord;
+      if (!options.tenantId || record.tenantId === options.tenantId) {
+        records.push(record);
+      }
+    } catch {
+      // Skip torn lines
+    }
+  }
+  return options.limit !== undefined ? records.slice(-options.limit) : records;
+}
+
+function emitTenantLifecycleEvent(evt: TenantLifecycleEvent) {
+  for (const listener of listeners) {
+    try {
+      listener(evt);
+    } catch {
+      /* ignore */
+    }
+  }
+}
+
+export function onTenantLifecycleEvent(listener: (evt: TenantLifecycleEvent) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function resetTenantLifecycleListenersForTest() {
+  listeners.clear();
+}
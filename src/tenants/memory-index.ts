@@ -0,0 +1,171 @@
+/**
+ * Memory index quotas and stats for tenants.
+ * OPENCLAWMU ADDITION: tenant-isolated memory indexing.
+ *
+ * A tenant's memory indexes live in its memory dir, one SQLite file per agent (see
+ * `MemoryIndexManager.get`). `maxMemoryChunks` and `maxMemoryIndexMB` cap all of them
+ * together. Index size counts chunk text plus stored embeddings rather than the file
+ * size, which does not shrink after deletes. When a file would not fit, the indexer
+ * drops the chunks of the oldest session transcripts; if that is not enough, the file
+ * is refused and retried on the next sync.
+ */
+
+import type { DatabaseSync } from "node:sqlite";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { TenantId } from "./types.js";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import { resolveTenantMemoryDir } from "./paths.js";
+import { getTenant } from "./registry.js";
+
+const QUOTA_META_KEY = "tenant_memory_quota_v1";
+
+/** Stored size of a `chunks` row: UTF-8 text plus the JSON embedding. */
+export const MEMORY_CHUNK_BYTES_SQL = "LENGTH(CAST(text AS BLOB)) + LENGTH(embedding)";
+
+export type TenantMemoryIndexLimits = {
+  maxChunks?: number;
+  maxBytes?: number;
+};
+
+export type MemoryIndexUsage = {
+  files: number;
+  chunks: number;
+  bytes: number;
+};
+
+/** Quota bookkeeping kept in each index's meta table; reset by a full reindex. */
+export type TenantMemoryQuotaMeta = {
+  evictedFiles: number;
+  evictedChunks: number;
+  /** Files currently left out of the index because the quota is full. */
+  refusedPaths: string[];
+};
+
+export type TenantMemoryIndexAgentStats = MemoryIndexUsage &
+  TenantMemoryQuotaMeta & {
+    agentId: string;
+    sources: Record<string, MemoryIndexUsage>;
+  };
+
+export type TenantMemoryIndexStats = MemoryIndexUsage & {
+  limits: TenantMemoryIndexLimits;
+  agents: TenantMemoryIndexAgentStats[];
+};
+
+/**
+ * Memory index limits from the tenant's quotas; null when neither is set.
+ */
+export function resolveTenantMemoryIndexLimits(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): TenantMemoryIndexLimits | null {
+  const quotas = getTenant(tenantId, env)?.quotas;
+  const maxChunks = quotas?.maxMemoryChunks;
+  const maxMB = quotas?.maxMemoryIndexMB;
+  const limits: TenantMemoryIndexLimits = {};
+  if (typeof maxChunks === "number" && maxChunks > 0) {
+    limits.maxChunks = Math.floor(maxChunks);
+  }
+  if (typeof maxMB === "number" && maxMB > 0) {
+    limits.maxBytes = Math.floor(maxMB * 1024 * 1024);
+  }
+  return limits.maxChunks === undefined && limits.maxBytes === undefined ? null : limits;
+}
+
+/**
+ * Counts files, chunks and chunk bytes of a memory index, in total and per source.
+ */
+export function measureMemoryIndex(
+  db: DatabaseSync,
+): MemoryIndexUsage & { sources: Record<string, MemoryIndexUsage> } {
+  const sources: Record<string, MemoryIndexUsage> = {};
+  const entry = (source: string) => (sources[source] ??= { files: 0, chunks: 0, bytes: 0 });
+  const fileRows = db
+    .prepare(`SELECT source, COUNT(*) AS c FROM files GROUP BY source`)
+    .all() as Array<{ source: string; c: number }>;
+  for (const row of fileRows) {
+    entry(row.source).files = row.c;
+  }
+  const chunkRows = db
+    .prepare(
+      `SELECT source, COUNT(*) AS c, COALESCE(SUM(${MEMORY_CHUNK_BYTES_SQL}), 0) AS b FROM chunks GROUP BY source`,
+    )
+    .all() as Array<{ source: string; c: number; b: number }>;
+  for (const row of chunkRows) {
+    entry(row.source).chunks = row.c;
+    entry(row.source).bytes = row.b;
+  }
+  const totals = { files: 0, chunks: 0, bytes: 0 };
+  for (const usage of Object.values(sources)) {
+    totals.files += usage.files;
+    totals.chunks += usage.chunks;
+    totals.bytes += usage.bytes;
+  }
+  return { ...totals, sources };
+}
+
+export function readTenantMemoryQuotaMeta(db: DatabaseSync): TenantMemoryQuotaMeta {
+  const empty: TenantMemoryQuotaMeta = { evictedFiles: 0, evictedChunks: 0, refusedPaths: [] };
+  try {
+    const row = db.prepare(`SELECT value FROM meta WHERE key = ?`).get(QUOTA_META_KEY) as
+      | { value: string }
+      | undefined;
+    return row?.value ? { ...empty, ...(JSON.parse(row.value) as TenantMemoryQuotaMeta) } : empty;
+  } catch {
+    return empty;
+  }
+}
+
+export function writeTenantMemoryQuotaMeta(db: DatabaseSync, meta: TenantMemoryQuotaMeta): void {
+  db.prepare(
+    `INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value=excluded.value`,
+  ).run(QUOTA_META_KEY, JSON.stringify(meta));
+}
+
+/**
+ * Reads index stats for each of the tenant's agents. `excludePath` skips one index,
+ * e.g. the one being written, whose live connection is measured directly.
+ */
+export async function readTenantMemoryIndexStats(
+  tenantId: TenantId,
+  options: { env?: NodeJS.ProcessEnv; excludePath?: string } = {},
+): Promise<TenantMemoryIndexStats> {
+  const env = options.env ?? process.env;
+  const dir = resolveTenantMemoryDir(tenantId, env);
+  const excluded = options.excludePath ? path.resolve(options.excludePath) : null;
+  let names: string[] = [];
+  try {
+    names = (await fs.readdir(dir)).filter((name) => name.endsWith(".sqlite")).toSorted();
+  } catch {
+    // No memory indexed yet
+  }
+  const { DatabaseSync } = requireNodeSqlite();
+  const agents: TenantMemoryIndexAgentStats[] = [];
+  for (const name of names) {
+    const file = path.join(dir, name);
+    if (file === excluded) {
+      continue;
+    }
+    let db: DatabaseSync | null = null;
+    try {
+      db = new DatabaseSync(file, { readOnly: true });
+      agents.push({
+        agentId: name.slice(0, -".sqlite".length),
+        ...measureMemoryIndex(db),
+        ...readTenantMemoryQuotaMeta(db),
+      });
+    } catch {
+      // Not initialized yet; nothing to count
+    } finally {
+      db?.close();
+    }
+  }
+  return {
+    files: agents.reduce((sum, agent) => sum + agent.files, 0),
+    chunks: agents.reduce((sum, agent) => sum + agent.chunks, 0),
+    bytes: agents.reduce((sum, agent) => sum + agent.bytes, 0),
+    limits: resolveTenantMemoryIndexLimits(tenantId, env) ?? {},
+    agents,
+  };
+}
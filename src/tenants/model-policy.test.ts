@@ -0,0 +1,160 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { TenantPolicy, TenantQuotas } from "./types.js";
+import {
+  filterModelCatalogForTenant,
+  isTenantModelAllowed,
+  resolveTenantModelCatalog,
+  resolveTenantModelSelection,
+  validateTenantPolicy,
+} from "./model-policy.js";
+import { closeTenantRegistryStores } from "./registry-store.js";
+import { createTenant, updateTenant } from "./registry.js";
+import { updateTokenUsage } from "./usage.js";
+
+const SESSION_KEY = "tenant:demo:agent:main:main";
+
+const cfg = {
+  agents: {
+    defaults: {
+      model: {
+        primary: "anthropic/claude-opus-4-6",
+        fallbacks: ["anthropic/claude-sonnet-4-5", "openai/gpt-5.2"],
+      },
+    },
+  },
+} as unknown as OpenClawConfig;
+
+const POLICY: TenantPolicy = {
+  allowedProviders: ["anthropic"],
+  allowedModels: ["anthropic/claude-sonnet-4-5", "anthropic/claude-haiku-4-5"],
+  defaultModel: "anthropic/claude-sonnet-4-5",
+  fallbackModel: "anthropic/claude-haiku-4-5",
+};
+
+async function makeTenant(policy: TenantPolicy, quotas?: TenantQuotas) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-model-policy-"));
+  const env = { ...process.env, OPENCLAW_STATE_DIR: dir } as NodeJS.ProcessEnv;
+  await createTenant("demo", undefined, env);
+  await updateTenant("demo", { policy, quotas }, env);
+  return { env, cleanup: () => fs.rm(dir, { recursive: true, force: true }) };
+}
+
+afterEach(() => {
+  closeTenantRegistryStores();
+});
+
+describe("tenant model policy", () => {
+  it("checks providers and models", () => {
+    expect(isTenantModelAllowed(POLICY, "anthropic", "claude-haiku-4-5")).toBe(true);
+    expect(isTenantModelAllowed(POLICY, "anthropic", "claude-opus-4-6")).toBe(false);
+    expect(isTenantModelAllowed(POLICY, "openai", "gpt-5.2")).toBe(false);
+    expect(isTenantModelAllowed({ allowedProviders: ["OpenAI"] }, "openai", "gpt-5.2")).toBe(true);
+    expect(isTenantModelAllowed(undefined, "openai", "gpt-5.2")).toBe(true);
+
+    const catalog = [
+      { provider: "anthropic", id: "claude-opus-4-6", name: "Opus" },
+      { provider: "anthropic", id: "claude-sonnet-4-5", name: "Sonnet" },
+      { provider: "openai", id: "gpt-5.2", name: "GPT" },
+    ];
+    expect(filterModelCatalogForTenant(catalog, POLICY).map((m) => m.id)).toEqual([
+      "claude-sonnet-4-5",
+    ]);
+  });
+
+  it("validates policies", () => {
+    expect(validateTenantPolicy(POLICY)).toBeNull();
+    expect(validateTenantPolicy({ allowedModels: ["sonnet"] })).toMatch(/provider\/model/);
+    expect(validateTenantPolicy({ ...POLICY, defaultModel: "openai/gpt-5.2" })).toMatch(
+      /not in the allowed/,
+    );
+    expect(validateTenantPolicy({ budget: 1 })).toMatch(/unknown/);
+  });
+
+  it("applies the tenant default and drops disallowed fallbacks", async () => {
+    const tenant = await makeTenant(POLICY);
+    const run = { sessionKey: SESSION_KEY, cfg, env: tenant.env };
+
+    await expect(
+      resolveTenantModelSelection({ ...run, provider: "anthropic", model: "claude-opus-4-6" }),
+    ).resolves.toEqual({
+      provider: "anthropic",
+      model: "claude-sonnet-4-5",
+      fallbacksOverride: [],
+      tenantId: "demo",
+    });
+    // An allowed session override is kept.
+    await expect(
+      resolveTenantModelSelection({ ...run, provider: "anthropic", model: "claude-haiku-4-5" }),
+    ).resolves.toMatchObject({
+      model: "claude-haiku-4-5",
+      fallbacksOverride: ["anthropic/claude-sonnet-4-5"],
+    });
+    // A disallowed override falls back to the tenant default.
+    await expect(
+      resolveTenantModelSelection({ ...run, provider: "openai", model: "gpt-5.2" }),
+    ).resolves.toMatchObject({ provider: "anthropic", model: "claude-sonnet-4-5" });
+    await tenant.cleanup();
+  });
+
+  it("downgrades once the cost soft limit is crossed", async () => {
+    const tenant = await makeTenant(POLICY, { monthlyCostSoftLimitCents: 100 });
+    const run = {
+      sessionKey: SESSION_KEY,
+      provider: "anthropic",
+      model: "claude-sonnet-4-5",
+      cfg,
+      env: tenant.env,
+    };
+    const catalog = [
+      { provider: "anthropic", id: "claude-sonnet-4-5" },
+      { provider: "anthropic", id: "claude-haiku-4-5" },
+    ];
+
+    await expect(resolveTenantModelSelection(run)).resolves.toMatchObject({
+      model: "claude-sonnet-4-5",
+    });
+    await expect(resolveTenantModelCatalog("demo", catalog, tenant.env)).resolves.toMatchObject({
+      defaultModel: "anthropic/claude-sonnet-4-5",
+      downgradedTo: undefined,
+    });
+
+    await updateTokenUsage("demo", { input: 1 }, 150, tenant.env);
+    await expect(resolveTenantModelSelection(run)).resolves.toEqual({
+      provider: "anthropic",
+      model: "claude-haiku-4-5",
+      fallbacksOverride: [],
+      tenantId: "demo",
+      downgraded: true,
+    });
+    await expect(resolveTenantModelCatalog("demo", catalog, tenant.env)).resolves.toMatchObject({
+      downgradedTo: "anthropic/claude-haiku-4-5",
+    });
+    await tenant.cleanup();
+  });
+
+  it("rejects runs with no allowed model and ignores non-tenant runs", async () => {
+    const tenant = await makeTenant({ allowedProviders: ["openai"] });
+    await expect(
+      resolveTenantModelSelection({
+        sessionKey: SESSION_KEY,
+        provider: "anthropic",
+        model: "claude-opus-4-6",
+        fallbacksOverride: [],
+        cfg,
+        env: tenant.env,
+      }),
+    ).rejects.toThrow(/not allowed for tenant "demo"/);
+    await expect(
+      resolveTenantModelSelection({
+        sessionKey: "agent:main:main",
+        provider: "anthropic",
+        model: "claude-opus-4-6",
+      }),
+    ).resolves.toEqual({ provider: "anthropic", model: "claude-opus-4-6" });
+    await tenant.cleanup();
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Tenant model policy.
+ * OPENCLAWMU ADDITION: per-tenant allowed providers/models, default and downgrade model.
+ *
+ * Every path that runs a model for a tenant resolves its model through
+ * `resolveTenantModelSelection` right before `runWithModelFallback`:
+ * - once the tenant crosses `monthlyCostSoftLimitCents`, runs are pinned to
+ *   `policy.fallbackModel` (no further fallbacks);
+ * - runs on the gateway default model use `policy.defaultModel` instead;
+ * - disallowed models are replaced by the tenant default (or the first allowed
+ *   candidate), and disallowed fallbacks are dropped.
+ *
+ * `models.list` filters the catalog with the same rules for tenant clients.
+ */
+
+import type { ModelCatalogEntry } from "../agents/model-catalog.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { TenantId, TenantPolicy } from "./types.js";
+import { DEFAULT_MODEL, DEFAULT_PROVIDER } from "../agents/defaults.js";
+import {
+  buildModelAliasIndex,
+  modelKey,
+  normalizeModelRef,
+  normalizeProviderId,
+  parseModelRef,
+  resolveConfiguredModelRef,
+  resolveModelRefFromString,
+  type ModelRef,
+} from "../agents/model-selection.js";
+import { resolveQuotaTenantId } from "./quota-gate.js";
+import { getTenant } from "./registry.js";
+import { loadTenantUsage } from "./usage.js";
+
+const POLICY_KEYS = new Set(["allowedProviders", "allowedModels", "defaultModel", "fallbackModel"]);
+
+export type TenantModelSelection = {
+  provider: string;
+  model: string;
+  /** Explicit fallbacks list for runWithModelFallback (undefined keeps the config default). */
+  fallbacksOverride?: string[];
+  /** Tenant the run is billed to (undefined for non-tenant runs). */
+  tenantId?: TenantId;
+  /** True when the run was pinned to policy.fallbackModel by the cost soft limit. */
+  downgraded?: boolean;
+};
+
+function parsePolicyModelRef(raw: string | undefined): ModelRef | null {
+  const ref = raw ? parseModelRef(raw, DEFAULT_PROVIDER) : null;
+  return ref ? normalizeModelRef(ref.provider, ref.model) : null;
+}
+
+function hasPolicyRestrictions(policy: TenantPolicy): boolean {
+  return Boolean(policy.allowedProviders?.length || policy.allowedModels?.length);
+}
+
+/**
+ * Checks a model against the tenant policy. Unset lists allow everything.
+ */
+export function isTenantModelAllowed(
+  policy: TenantPolicy | undefined,
+  provider: string,
+  model: string,
+): boolean {
+  if (!policy) {
+    return true;
+  }
+  const ref = normalizeModelRef(provider, model);
+  if (policy.allowedProviders?.length) {
+    const providers = new Set(policy.allowedProviders.map((p) => normalizeProviderId(p)));
+    if (!providers.has(ref.provider)) {
+      return false;
+    }
+  }
+  if (policy.allowedModels?.length) {
+    const key = modelKey(ref.provider, ref.model);
+    return policy.allowedModels.some((raw) => {
+      const allowed = parsePolicyModelRef(raw);
+      return allowed !== null && modelKey(allowed.provider, allowed.model) === key;
+    });
+  }
+  return true;
+}
+
+/**
+ * Filters a model catalog down to the models a tenant may use.
+ */
+export function filterModelCatalogForTenant<T extends Pick<ModelCatalogEntry, "provider" | "id">>(
+  catalog: T[],
+  policy: TenantPolicy | undefined,
+): T[] {
+  if (!policy || !hasPolicyRestrictions(policy)) {
+    return catalog;
+  }
+  return catalog.filter((entry) => isTenantModelAllowed(policy, entry.provider, entry.id));
+}
+
+/**
+ * Validates a tenant model policy; returns an error message or null.
+ */
+export function validateTenantPolicy(value: unknown): string | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "policy must be an object";
+  }
+  const policy = value as Record<string, unknown>;
+  for (const key of Object.keys(policy)) {
+    if (!POLICY_KEYS.has(key)) {
+      return `unknown policy setting: ${key}`;
+    }
+  }
+  for (const key of ["allowedProviders", "allowedModels"] as const) {
+    const list = policy[key];
+    if (list === undefined) {
+      continue;
+    }
+    if (!Array.isArray(list) || list.some((item) => typeof item !== "string" || !item.trim())) {
+      return `${key} must be an array of non-empty strings`;
+    }
+  }
+  const allowedModels = (policy.allowedModels as string[] | undefined) ?? [];
+  for (const raw of allowedModels) {
+    if (!raw.includes("/")) {
+      return `allowedModels entries must be "provider/model" (got "${raw}")`;
+    }
+  }
+  for (const key of ["defaultModel", "fallbackModel"] as const) {
+    const raw = policy[key];
+    if (raw === undefined) {
+      continue;
+    }
+    if (typeof raw !== "string" || !raw.includes("/")) {
+      return `${key} must be a "provider/model" string`;
+    }
+    const ref = parsePolicyModelRef(raw);
+    if (!ref || !isTenantModelAllowed(policy as TenantPolicy, ref.provider, ref.model)) {
+      return `${key} "${raw}" is not in the allowed providers/models`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether the tenant crossed its monthly cost soft limit this period.
+ */
+async function isCostSoftLimitCrossed(
+  tenantId: TenantId,
+  softLimitCents: number | undefined,
+  env: NodeJS.ProcessEnv,
+): Promise<boolean> {
+  if (!softLimitCents) {
+    return false;
+  }
+  const usage = await loadTenantUsage(tenantId, env);
+  return usage.totalCostCents >= softLimitCents;
+}
+
+/**
+ * Applies the tenant model policy to a run's model and fallbacks.
+ * Non-tenant runs and tenants without a policy pass straight through.
+ * @throws Error if the policy leaves no allowed model for the run
+ */
+export async function resolveTenantModelSelection(params: {
+  /** Session key of the run; the tenant is taken from its `tenant:` prefix. */
+  sessionKey?: string;
+  tenantId?: TenantId;
+  provider: string;
+  model: string;
+  fallbacksOverride?: string[];
+  cfg?: OpenClawConfig;
+  /**
+   * Whether the run uses the gateway default model (no session/job override).
+   * Defaults to comparing the model with agents.defaults.model.primary.
+   */
+  isDefaultModel?: boolean;
+  env?: NodeJS.ProcessEnv;
+}): Promise<TenantModelSelection> {
+  const passthrough: TenantModelSelection = {
+    provider: params.provider,
+    model: params.model,
+    fallbacksOverride: params.fallbacksOverride,
+  };
+  const tenantId = resolveQuotaTenantId(params);
+  if (!tenantId) {
+    return passthrough;
+  }
+  const env = params.env ?? process.env;
+  const entry = getTenant(tenantId, env);
+  const policy = entry?.policy;
+  if (!policy) {
+    return { ...passthrough, tenantId };
+  }
+
+  const downgrade = parsePolicyModelRef(policy.fallbackModel);
+  if (
+    downgrade &&
+    (await isCostSoftLimitCrossed(tenantId, entry.quotas?.monthlyCostSoftLimitCents, env))
+  ) {
+    return { ...downgrade, fallbacksOverride: [], tenantId, downgraded: true };
+  }
+
+  const configured = params.cfg
+    ? resolveConfiguredModelRef({
+        cfg: params.cfg,
+        defaultProvider: DEFAULT_PROVIDER,
+        defaultModel: DEFAULT_MODEL,
+      })
+    : { provider: DEFAULT_PROVIDER, model: DEFAULT_MODEL };
+  const configuredRef = normalizeModelRef(configured.provider, configured.model);
+  const requested = normalizeModelRef(params.provider, params.model);
+  const isDefaultModel =
+    params.isDefaultModel ??
+    modelKey(requested.provider, requested.model) ===
+      modelKey(configuredRef.provider, configuredRef.model);
+  const tenantDefault = parsePolicyModelRef(policy.defaultModel);
+
+  // Resolve the fallbacks the run would otherwise get, then keep the allowed ones.
+  const aliasIndex = buildModelAliasIndex({
+    cfg: params.cfg ?? {},
+    defaultProvider: configured.provider,
+  });
+  const rawFallbacks = (() => {
+    if (params.fallbacksOverride !== undefined) {
+      return params.fallbacksOverride;
+    }
+    const model = params.cfg?.agents?.defaults?.model as
+      | { fallbacks?: string[] }
+      | string
+      | undefined;
+    return model && typeof model === "object" ? (model.fallbacks ?? []) : [];
+  })();
+  const fallbacks: ModelRef[] = [];
+  for (const raw of rawFallbacks) {
+    const resolved = resolveModelRefFromString({
+      raw: String(raw ?? ""),
+      defaultProvider: configured.provider,
+      aliasIndex,
+    });
+    if (resolved && isTenantModelAllowed(policy, resolved.ref.provider, resolved.ref.model)) {
+      fallbacks.push(resolved.ref);
+    }
+  }
+
+  let primary: ModelRef | undefined;
+  if (isDefaultModel && tenantDefault) {
+    primary = tenantDefault;
+  } else if (isTenantModelAllowed(policy, requested.provider, requested.model)) {
+    primary = requested;
+  } else {
+    primary =
+      tenantDefault ??
+      fallbacks[0] ??
+      (policy.allowedModels ?? [])
+        .map((raw) => parsePolicyModelRef(raw))
+        .find((ref): ref is ModelRef => ref !== null);
+  }
+  if (!primary) {
+    throw new Error(
+      `Model "${modelKey(requested.provider, requested.model)}" is not allowed for tenant "${tenantId}"`,
+    );
+  }
+
+  if (!hasPolicyRestrictions(policy) && primary === requested) {
+    return { ...passthrough, tenantId };
+  }
+  const primaryKey = modelKey(primary.provider, primary.model);
+  return {
+    provider: primary.provider,
+    model: primary.model,
+    fallbacksOverride: fallbacks
+      .map((ref) => modelKey(ref.provider, ref.model))
+      .filter((key) => key !== primaryKey),
+    tenantId,
+  };
+}
+
+/**
+ * Tenant view of the model catalog for `models.list`: the allowed models, the tenant
+ * default, and the downgrade model when the cost soft limit is crossed.
+ */
+export async function resolveTenantModelCatalog<
+  T extends Pick<ModelCatalogEntry, "provider" | "id">,
+>(
+  tenantId: TenantId,
+  catalog: T[],
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<{ models: T[]; defaultModel?: string; downgradedTo?: string }> {
+  const entry = getTenant(tenantId, env);
+  const policy = entry?.policy;
+  if (!policy) {
+    return { models: catalog };
+  }
+  const downgrade = parsePolicyModelRef(policy.fallbackModel);
+  const downgraded =
+    downgrade !== null &&
+    (await isCostSoftLimitCrossed(tenantId, entry.quotas?.monthlyCostSoftLimitCents, env));
+  return {
+    models: filterModelCatalogForTenant(catalog, policy),
+    defaultModel: policy.defaultModel,
+    downgradedTo: downgraded ? modelKey(downgrade.provider, downgrade.model) : undefined,
+  };
+}
@@ -106,6 +106,59 @@ export function resolveTenantSandboxDir(
   return path.join(resolveTenantStateDir(tenantId, env), "sandboxes");
 }
 
+/**
+ * Resolves the gateway-owned directory for a tenant's host-side files. It sits outside
+ * the tenant state dir, which sandboxes mount read-write, so a tenant cannot replace
+ * anything in it with a symlink.
+ */
+export function resolveTenantPrivateDir(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return path.join(resolveStateDir(env), "tenants-private", tenantId);
+}
+
+/**
+ * Resolves the workspace snapshot store (content-addressed objects and manifests) for a
+ * tenant. It is gateway-owned: restores copy its objects into the workspace.
+ */
+export function resolveTenantWorkspaceSnapshotsDir(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return path.join(resolveTenantPrivateDir(tenantId, env), "snapshots");
+}
+
+/**
+ * Resolves the ext4 image backing a tenant's workspace (loop disk quota backend).
+ */
+export function resolveTenantWorkspaceImagePath(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return path.join(resolveTenantPrivateDir(tenantId, env), "workspace.img");
+}
+
+/**
+ * Resolves the egress proxy socket mounted into a tenant's sandboxes.
+ */
+export function resolveTenantEgressSocketPath(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return path.join(resolveTenantPrivateDir(tenantId, env), "egress.sock");
+}
+
+/**
+ * Resolves the egress request log (JSONL) for a tenant.
+ */
+export function resolveTenantEgressLogPath(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return path.join(resolveTenantPrivateDir(tenantId, env), "egress.jsonl");
+}
+
 /**
  * Resolves the credentials directory for a tenant.
  */
@@ -117,13 +170,24 @@ export function resolveTenantCredentialsDir(
 }
 
 /**
- * Resolves the backups metadata file for a tenant.
+ * Resolves the terminal recordings directory (asciicast files) for a tenant.
+ */
+export function resolveTenantTerminalRecordingsDir(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return path.join(resolveTenantStateDir(tenantId, env), "terminal-recordings");
+}
+
+/**
+ * Resolves the backups metadata file for a tenant (gateway-owned: it decides what the
+ * next incremental backup stores).
  */
 export function resolveTenantBackupsPath(
   tenantId: TenantId,
   env: NodeJS.ProcessEnv = process.env,
 ): string {
-  return path.join(resolveTenantStateDir(tenantId, env), "backups.json");
+  return path.join(resolveTenantPrivateDir(tenantId, env), "backups.json");
 }
 
 /**
@@ -134,6 +198,21 @@ export function resolveTenantRegistryPath(env: NodeJS.ProcessEnv = process.env):
   return path.join(resolveStateDir(env), "tenants.json");
 }
 
+/**
+ * Resolves the tenant lifecycle audit log (JSONL).
+ * Stored at the root state directory level so it outlives purged tenants.
+ */
+export function resolveTenantLifecycleAuditPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(resolveStateDir(env), "tenants-audit.jsonl");
+}
+
+/**
+ * Resolves the SQLite tenant registry path (alternative to tenants.json for large fleets).
+ */
+export function resolveTenantRegistrySqlitePath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(resolveStateDir(env), "tenants.sqlite");
+}
+
 /**
  * Resolves the usage tracking directory for a tenant.
  */
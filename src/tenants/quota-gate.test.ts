@@ -0,0 +1,140 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import type { TenantQuotas } from "./types.js";
+import {
+  enforceTenantQuota,
+  meterTenantRunUsage,
+  onTenantQuotaEvent,
+  releaseTenantRunAdmission,
+  resetTenantQuotaGateForTest,
+  resolveQuotaTenantId,
+  type TenantQuotaEvent,
+} from "./quota-gate.js";
+import { closeTenantRegistryStores } from "./registry-store.js";
+import { createTenant, updateTenant } from "./registry.js";
+import { getQuotaResetTimestamp, loadTenantUsage } from "./usage.js";
+
+const SESSION_KEY = "tenant:demo:agent:main:main";
+
+async function makeTenant(quotas: TenantQuotas) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-quota-gate-"));
+  const env = { ...process.env, OPENCLAW_STATE_DIR: dir } as NodeJS.ProcessEnv;
+  await createTenant("demo", undefined, env);
+  await updateTenant("demo", { quotas }, env);
+  return { env, cleanup: () => fs.rm(dir, { recursive: true, force: true }) };
+}
+
+afterEach(() => {
+  resetTenantQuotaGateForTest();
+  closeTenantRegistryStores();
+});
+
+describe("tenant quota gate", () => {
+  it("resolves tenants from session keys", () => {
+    expect(resolveQuotaTenantId({ sessionKey: SESSION_KEY })).toBe("demo");
+    expect(resolveQuotaTenantId({ sessionKey: "tenant:demo:cron:job-1" })).toBe("demo");
+    expect(resolveQuotaTenantId({ sessionKey: "agent:main:main" })).toBeUndefined();
+    expect(resolveQuotaTenantId({ sessionKey: "agent:main:main", tenantId: "acme" })).toBe("acme");
+  });
+
+  it("rate limits with a reset time and admits a run only once", async () => {
+    const tenant = await makeTenant({ requestsPerMinute: 1 });
+    const gate = { sessionKey: SESSION_KEY, source: "http" as const, env: tenant.env };
+
+    await expect(enforceTenantQuota({ ...gate, runId: "run-1" })).resolves.toEqual({
+      tenantId: "demo",
+      warning: undefined,
+    });
+    // The agent command re-checks the same run without counting it again.
+    await expect(enforceTenantQuota({ ...gate, runId: "run-1" })).resolves.toMatchObject({
+      tenantId: "demo",
+    });
+
+    const before = Date.now();
+    const denied = await enforceTenantQuota({ ...gate, runId: "run-2" }).catch((err) => err);
+    expect(denied).toMatchObject({ name: "TenantQuotaError", code: "rate_limited" });
+    expect(denied.quotaResetAt).toBeGreaterThan(before);
+    expect(denied.quotaResetAt).toBeLessThanOrEqual(before + 60_000);
+    await tenant.cleanup();
+  });
+
+  it("keeps admissions per tenant and drops them when the run ends", async () => {
+    const tenant = await makeTenant({ requestsPerMinute: 1 });
+    await createTenant("other", undefined, tenant.env);
+    await updateTenant("other", { quotas: { requestsPerMinute: 1 } }, tenant.env);
+    const gate = { sessionKey: SESSION_KEY, source: "http" as const, env: tenant.env };
+    const other = { ...gate, sessionKey: "tenant:other:agent:main:main" };
+
+    await enforceTenantQuota({ ...other, runId: "run-1" });
+    // Another tenant's run with the same id is not admitted by it.
+    await enforceTenantQuota({ ...gate, runId: "run-1" });
+    await expect(enforceTenantQuota({ ...gate, runId: "run-1" })).resolves.toMatchObject({
+      tenantId: "demo",
+    });
+
+    releaseTenantRunAdmission({ sessionKey: SESSION_KEY, runId: "run-1" });
+    await expect(enforceTenantQuota({ ...gate, runId: "run-1" })).rejects.toMatchObject({
+      code: "rate_limited",
+    });
+    await expect(enforceTenantQuota({ ...other, runId: "run-1" })).resolves.toMatchObject({
+      tenantId: "other",
+    });
+    await tenant.cleanup();
+  });
+
+  it("meters provider usage and blocks at the hard limit", async () => {
+    const tenant = await makeTenant({ monthlyTokenSoftLimit: 100, monthlyTokenLimit: 200 });
+    const events: TenantQuotaEvent[] = [];
+    onTenantQuotaEvent((evt) => events.push(evt));
+    const cfg = {
+      models: {
+        providers: {
+          acme: {
+            models: [
+              { id: "m1", cost: { input: 1_000, output: 2_000, cacheRead: 0, cacheWrite: 0 } },
+            ],
+          },
+        },
+      },
+    } as unknown as OpenClawConfig;
+    const run = { sessionKey: SESSION_KEY, source: "agent" as const, env: tenant.env };
+
+    await meterTenantRunUsage({
+      ...run,
+      usage: { input: 100, output: 20 },
+      provider: "acme",
+      model: "m1",
+      cfg,
+    });
+    const usage = await loadTenantUsage("demo", tenant.env);
+    expect(usage).toMatchObject({ inputTokens: 100, outputTokens: 20, totalTokens: 120 });
+    // 100 * $1000/M + 20 * $2000/M = $0.14
+    expect(usage.totalCostCents).toBeCloseTo(14);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: "soft_limit", tenantId: "demo", source: "agent" });
+
+    await meterTenantRunUsage({ ...run, usage: { input: 10 } });
+    expect(events).toHaveLength(1);
+    expect((await enforceTenantQuota(run)).warning).toMatch(/Token usage/);
+
+    await meterTenantRunUsage({ ...run, usage: { input: 100 } });
+    await expect(enforceTenantQuota(run)).rejects.toMatchObject({
+      code: "quota_exceeded",
+      tenantId: "demo",
+      quotaResetAt: getQuotaResetTimestamp(),
+    });
+    await tenant.cleanup();
+  });
+
+  it("ignores non-tenant runs", async () => {
+    await expect(
+      enforceTenantQuota({ sessionKey: "agent:main:main", source: "agent" }),
+    ).resolves.toEqual({});
+    await expect(
+      meterTenantRunUsage({ sessionKey: "agent:main:main", source: "agent", usage: { input: 1 } }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Tenant quota gate for model calls.
+ * OPENCLAWMU ADDITION: enforce quotas before agent runs and meter usage after them.
+ *
+ * Every path that runs a model for a tenant (agent command, gateway HTTP endpoints,
+ * cron isolated runs, channel auto-replies) calls `enforceTenantQuota` before the run
+ * and `meterTenantRunUsage` after it. Denials throw a `TenantQuotaError` carrying a
+ * structured code and `quotaResetAt`; metering records the provider-reported usage
+ * and emits a `soft_limit` event the first time a run crosses a monthly soft limit.
+ *
+ * Tenants that are not `active` (see lifecycle.ts) are refused with `tenant_inactive`.
+ * Non-tenant session keys pass straight through.
+ */
+
+import type { OpenClawConfig } from "../config/config.js";
+import type { QuotaCheckResult, TenantId, TenantQuotaNotifyTarget } from "./types.js";
+import { estimateUsageCost, resolveModelCostConfig } from "../utils/usage-format.js";
+import { getTenant } from "./registry.js";
+import { resolveTenantLifecycleState } from "./types.js";
+import { checkQuotaBeforeRequest, getTenantQuotaStatus, updateTokenUsage } from "./usage.js";
+
+export type TenantQuotaErrorCode = NonNullable<QuotaCheckResult["reason"]>;
+
+export type TenantQuotaSource = "agent" | "http" | "cron" | "auto-reply";
+
+/** Keeps a run admitted across nested gate calls (HTTP endpoint, then agent command). */
+const ADMISSION_TTL_MS = 10 * 60 * 1000;
+
+const TENANT_KEY_PREFIX = "tenant:";
+
+/**
+ * Thrown when a tenant's quota or rate limit blocks a model call.
+ */
+export class TenantQuotaError extends Error {
+  readonly code: TenantQuotaErrorCode;
+  readonly tenantId: TenantId;
+  /** When the block lifts (Unix ms), if it lifts on its own. */
+  readonly quotaResetAt?: number;
+
+  constructor(params: {
+    tenantId: TenantId;
+    code: TenantQuotaErrorCode;
+    message: string;
+    quotaResetAt?: number;
+  }) {
+    super(params.message);
+    this.name = "TenantQuotaError";
+    this.code = params.code;
+    this.tenantId = params.tenantId;
+    this.quotaResetAt = params.quotaResetAt;
+  }
+
+  /** Structured form for API error bodies. */
+  toDetails(): { code: TenantQuotaErrorCode; tenantId: TenantId; quotaResetAt?: number } {
+    return { code: this.code, tenantId: this.tenantId, quotaResetAt: this.quotaResetAt };
+  }
+}
+
+export function isTenantQuotaError(err: unknown): err is TenantQuotaError {
+  return err instanceof TenantQuotaError;
+}
+
+/**
+ * User-facing reply for channel messages blocked by the quota gate.
+ */
+export function formatTenantQuotaReply(err: TenantQuotaError): string {
+  const resetAt =
+    err.quotaResetAt !== undefined
+      ? ` Try again after ${new Date(err.quotaResetAt).toISOString()}.`
+      : "";
+  return `⚠️ ${err.message}.${resetAt}`;
+}
+
+export type TenantQuotaEvent = {
+  type: "soft_limit";
+  ts: number;
+  tenantId: TenantId;
+  source: TenantQuotaSource;
+  message: string;
+  tokenUsagePercent: number;
+  costUsagePercent: number;
+  quotaResetAt: number;
+  /** Channel destination configured in quotas.softLimitNotify. */
+  notify?: TenantQuotaNotifyTarget;
+};
+
+export type TenantQuotaGateParams = {
+  /** Session key of the run; the tenant is taken from its `tenant:` prefix. */
+  sessionKey?: string;
+  /** Explicit tenant (takes precedence over the session key). */
+  tenantId?: TenantId;
+  /** Run identifier; a run is only admitted (and rate-counted) once. */
+  runId?: string;
+  source: TenantQuotaSource;
+  env?: NodeJS.ProcessEnv;
+};
+
+export type TenantRunUsage = {
+  input?: number;
+  output?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+};
+
+const listeners = new Set<(evt: TenantQuotaEvent) => void>();
+/** Admission expiry per `${tenantId}:${runId}`, so one tenant's run id never admits another's. */
+const admittedRuns = new Map<string, number>();
+const tenantQueues = new Map<TenantId, Promise<unknown>>();
+
+/**
+ * Resolves the tenant a run is billed to, or undefined for non-tenant runs.
+ */
+export function resolveQuotaTenantId(params: {
+  sessionKey?: string;
+  tenantId?: TenantId;
+}): TenantId | undefined {
+  const explicit = params.tenantId?.trim();
+  if (explicit) {
+    return explicit;
+  }
+  const key = (params.sessionKey ?? "").trim().toLowerCase();
+  if (!key.startsWith(TENANT_KEY_PREFIX)) {
+    return undefined;
+  }
+  // Format: tenant:{tenantId}:{rest}
+  const tenantId = key.slice(TENANT_KEY_PREFIX.length).split(":")[0];
+  return tenantId || undefined;
+}
+
+/**
+ * Serializes read-modify-write updates of a tenant's usage files.
+ */
+function withTenantLock<T>(tenantId: TenantId, fn: () => Promise<T>): Promise<T> {
+  const previous = tenantQueues.get(tenantId) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  const settled = next.catch(() => {});
+  tenantQueues.set(tenantId, settled);
+  void settled.then(() => {
+    if (tenantQueues.get(tenantId) === settled) {
+      tenantQueues.delete(tenantId);
+    }
+  });
+  return next;
+}
+
+function isAdmitted(tenantId: TenantId, runId: string | undefined, now: number): boolean {
+  for (const [key, expiresAt] of admittedRuns) {
+    if (expiresAt <= now) {
+      admittedRuns.delete(key);
+    }
+  }
+  return runId !== undefined && admittedRuns.has(`${tenantId}:${runId}`);
+}
+
+/**
+ * Drops a run's admission once it is done, including runs that failed before metering.
+ */
+export function releaseTenantRunAdmission(params: {
+  sessionKey?: string;
+  tenantId?: TenantId;
+  runId?: string;
+}): void {
+  const tenantId = resolveQuotaTenantId(params);
+  if (tenantId && params.runId) {
+    admittedRuns.delete(`${tenantId}:${params.runId}`);
+  }
+}
+
+/**
+ * Checks a tenant's quotas and rate limits before a model call.
+ * Returns the tenant the run is billed to (undefined for non-tenant runs) and any
+ * soft-limit warning.
+ * @throws TenantQuotaError if the call is not allowed
+ */
+export async function enforceTenantQuota(
+  params: TenantQuotaGateParams,
+): Promise<{ tenantId?: TenantId; warning?: string }> {
+  const tenantId = resolveQuotaTenantId(params);
+  if (!tenantId) {
+    return {};
+  }
+  const now = Date.now();
+  if (isAdmitted(tenantId, params.runId, now)) {
+    return { tenantId };
+  }
+  const env = params.env ?? process.env;
+  const entry = getTenant(tenantId, env);
+  // Suspended, read-only, archived and pending-deletion tenants run no models.
+  const state = entry ? resolveTenantLifecycleState(entry) : "active";
+  if (state !== "active") {
+    throw new TenantQuotaError({
+      tenantId,
+      code: "tenant_inactive",
+      message: `Tenant "${tenantId}" is ${state}`,
+    });
+  }
+  const quotas = entry?.quotas;
+  if (!quotas || Object.keys(quotas).length === 0) {
+    return { tenantId };
+  }
+
+  const result = await withTenantLock(tenantId, () =>
+    checkQuotaBeforeRequest(tenantId, quotas, env),
+  );
+  if (!result.allowed) {
+    throw new TenantQuotaError({
+      tenantId,
+      code: result.reason ?? "quota_exceeded",
+      message: result.message ?? "Tenant quota exceeded",
+      quotaResetAt: result.resetAt,
+    });
+  }
+  if (params.runId) {
+    admittedRuns.set(`${tenantId}:${params.runId}`, now + ADMISSION_TTL_MS);
+  }
+  return { tenantId, warning: result.warning };
+}
+
+/**
+ * Records the provider-reported usage of a finished run against the tenant and
+ * emits a `soft_limit` event when the run pushes the tenant across a soft limit.
+ * Metering never throws; failures are reported to `onError`.
+ */
+export async function meterTenantRunUsage(
+  params: TenantQuotaGateParams & {
+    usage?: TenantRunUsage;
+    provider?: string;
+    model?: string;
+    /** Config used to price the run (models.providers[].models[].cost). */
+    cfg?: OpenClawConfig;
+    onError?: (err: unknown) => void;
+  },
+): Promise<void> {
+  releaseTenantRunAdmission(params);
+  const tenantId = resolveQuotaTenantId(params);
+  if (!tenantId) {
+    return;
+  }
+  const env = params.env ?? process.env;
+  try {
+    const quotas = getTenant(tenantId, env)?.quotas ?? {};
+    const costUsd = estimateUsageCost({
+      usage: params.usage,
+      cost: resolveModelCostConfig({
+        provider: params.provider,
+        model: params.model,
+        config: params.cfg,
+      }),
+    });
+    const crossed = await withTenantLock(tenantId, async () => {
+      const before = await getTenantQuotaStatus(tenantId, quotas, env);
+      await updateTokenUsage(
+        tenantId,
+        params.usage ?? {},
+        costUsd !== undefined ? costUsd * 100 : undefined,
+        env,
+      );
+      const after = await getTenantQuotaStatus(tenantId, quotas, env);
+      return !before.isAtSoftLimit && after.isAtSoftLimit ? after : null;
+    });
+    if (!crossed) {
+      return;
+    }
+    const parts: string[] = [];
+    if (quotas.monthlyTokenSoftLimit && crossed.usage.totalTokens >= quotas.monthlyTokenSoftLimit) {
+      parts.push(`token usage at ${crossed.tokenUsagePercent.toFixed(1)}% of the monthly limit`);
+    }
+    if (
+      quotas.monthlyCostSoftLimitCents &&
+      crossed.usage.totalCostCents >= quotas.monthlyCostSoftLimitCents
+    ) {
+      parts.push(`cost at ${crossed.costUsagePercent.toFixed(1)}% of the monthly limit`);
+    }
+    emitTenantQuotaEvent({
+      type: "soft_limit",
+      ts: Date.now(),
+      tenantId,
+      source: params.source,
+      message: `Tenant "${tenantId}" reached its soft limit: ${parts.join("; ")}`,
+      tokenUsagePercent: crossed.tokenUsagePercent,
+      costUsagePercent: crossed.costUsagePercent,
+      quotaResetAt: crossed.usage.quotaResetAt,
+      notify: quotas.softLimitNotify,
+    });
+  } catch (err) {
+    params.onError?.(err);
+  }
+}
+
+function emitTenantQuotaEvent(evt: TenantQuotaEvent) {
+  for (const listener of listeners) {
+    try {
+      listener(evt);
+    } catch {
+      /* ignore */
+    }
+  }
+}
+
+export function onTenantQuotaEvent(listener: (evt: TenantQuotaEvent) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function resetTenantQuotaGateForTest() {
+  admittedRuns.clear();
+  tenantQueues.clear();
+  listeners.clear();
+}
@@ -0,0 +1,117 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  closeTenantRegistryStores,
+  createJsonTenantRegistryStore,
+  detectTenantRegistryBackend,
+  migrateTenantRegistry,
+  resolveTenantRegistryStore,
+} from "./registry-store.js";
+import { createTenant, getTenant, listTenants, validateTenantToken } from "./registry.js";
+
+async function makeStateDir() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-tenant-registry-"));
+  return {
+    dir,
+    env: { ...process.env, OPENCLAW_STATE_DIR: dir } as NodeJS.ProcessEnv,
+    cleanup: async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+afterEach(() => {
+  closeTenantRegistryStores();
+});
+
+describe("json tenant registry store", () => {
+  it("returns an empty registry when the file does not exist", async () => {
+    const state = await makeStateDir();
+    const store = createJsonTenantRegistryStore(path.join(state.dir, "tenants.json"));
+    expect(store.load()).toEqual({ version: 1, tenants: {} });
+    await state.cleanup();
+  });
+
+  it("throws instead of resetting a corrupt registry", async () => {
+    const state = await makeStateDir();
+    const filePath = path.join(state.dir, "tenants.json");
+    await fs.writeFile(filePath, "{ not json", "utf8");
+    const store = createJsonTenantRegistryStore(filePath);
+    expect(() => store.load()).toThrow(/corrupt/i);
+    await expect(store.updateEntry("demo", () => undefined)).rejects.toThrow(/corrupt/i);
+    expect(await fs.readFile(filePath, "utf8")).toBe("{ not json");
+    await state.cleanup();
+  });
+
+  it("serializes concurrent updates without losing entries", async () => {
+    const state = await makeStateDir();
+    const filePath = path.join(state.dir, "tenants.json");
+    const store = createJsonTenantRegistryStore(filePath);
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        store.updateEntry(`t-${i}`, () => ({ tokenHash: `h${i}`, createdAt: "now" })),
+      ),
+    );
+    expect(store.list().toSorted()).toHaveLength(10);
+    const leftovers = (await fs.readdir(state.dir)).filter((name) => name.endsWith(".tmp"));
+    expect(leftovers).toEqual([]);
+    await state.cleanup();
+  });
+
+  it("leaves the registry untouched when an updater throws", async () => {
+    const state = await makeStateDir();
+    const store = createJsonTenantRegistryStore(path.join(state.dir, "tenants.json"));
+    await store.updateEntry("demo", () => ({ tokenHash: "h", createdAt: "now" }));
+    await expect(
+      store.updateEntry("demo", () => {
+        throw new Error("nope");
+      }),
+    ).rejects.toThrow("nope");
+    expect(store.get("demo")).toEqual({ tokenHash: "h", createdAt: "now" });
+    await state.cleanup();
+  });
+});
+
+describe("tenant registry migration", () => {
+  it("moves tenants between json and sqlite and keeps tokens valid", async () => {
+    const state = await makeStateDir();
+    const { token } = await createTenant("demo", { displayName: "Demo" }, state.env);
+    await createTenant("other", undefined, state.env);
+
+    const toSqlite = await migrateTenantRegistry("sqlite", state.env);
+    expect(toSqlite).toMatchObject({ from: "json", to: "sqlite", tenantCount: 2 });
+    expect(detectTenantRegistryBackend(state.env)).toBe("sqlite");
+    expect(resolveTenantRegistryStore(state.env).backend).toBe("sqlite");
+    expect(listTenants(state.env).toSorted()).toEqual(["demo", "other"]);
+    expect(getTenant("demo", state.env)?.displayName).toBe("Demo");
+    expect((await validateTenantToken(token, state.env))?.tenantId).toBe("demo");
+
+    const toJson = await migrateTenantRegistry("json", state.env);
+    expect(toJson).toMatchObject({ from: "sqlite", to: "json", tenantCount: 2 });
+    expect(detectTenantRegistryBackend(state.env)).toBe("json");
+    expect(getTenant("demo", state.env)?.lastSeenAt).toBeTruthy();
+
+    await expect(migrateTenantRegistry("json", state.env)).rejects.toThrow(/already uses/);
+    await state.cleanup();
+  });
+
+  it("keeps the source registry active when the target cannot be written", async () => {
+    const state = await makeStateDir();
+    await createTenant("demo", undefined, state.env);
+
+    const stringify = vi.spyOn(JSON, "stringify").mockImplementation(() => {
+      throw new Error("disk full");
+    });
+    try {
+      await expect(migrateTenantRegistry("sqlite", state.env)).rejects.toThrow("disk full");
+    } finally {
+      stringify.mockRestore();
+    }
+    expect(detectTenantRegistryBackend(state.env)).toBe("json");
+    expect(await fs.readdir(state.dir)).not.toContain("tenants.sqlite");
+    expect(listTenants(state.env)).toEqual(["demo"]);
+    await state.cleanup();
+  });
+});
@@ -0,0 +1,452 @@
+/**
+ * Tenant registry storage backends.
+ * OPENCLAWMU ADDITION: pluggable registry persistence (JSON file or SQLite).
+ *
+ * The JSON backend keeps the historical `{stateDir}/tenants.json` layout but
+ * writes through a temp file + rename while holding an exclusive file lock, so
+ * concurrent writers cannot interleave and a crash never leaves a truncated
+ * registry behind. The SQLite backend stores one row per tenant at
+ * `{stateDir}/tenants.sqlite` for fleets where rewriting the whole file on
+ * every change gets expensive.
+ *
+ * The active backend is detected from disk: if `tenants.sqlite` exists it wins,
+ * otherwise the JSON file is used. `migrateTenantRegistry` moves data between
+ * the two and archives the source file.
+ */
+
+import type { DatabaseSync } from "node:sqlite";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { TenantEntry, TenantId, TenantRegistry } from "./types.js";
+import { withFileLock, type FileLockOptions } from "../infra/file-lock.js";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import { resolveTenantRegistryPath, resolveTenantRegistrySqlitePath } from "./paths.js";
+
+export type TenantRegistryBackend = "json" | "sqlite";
+
+export const TENANT_REGISTRY_BACKENDS: readonly TenantRegistryBackend[] = ["json", "sqlite"];
+
+/**
+ * Updater for a single registry entry.
+ * Return the entry to persist, `null` to delete it, or `undefined` to leave it unchanged.
+ * Throwing aborts the update without writing anything.
+ */
+export type TenantEntryUpdater = (
+  current: TenantEntry | undefined,
+) => TenantEntry | null | undefined;
+
+/**
+ * Persistence backend for the tenant registry.
+ * Reads are synchronous; writes are serialized per store and atomic.
+ */
+export type TenantRegistryStore = {
+  /** Backend identifier. */
+  readonly backend: TenantRegistryBackend;
+  /** Absolute path of the backing file. */
+  readonly path: string;
+  /** Reads the full registry. Throws if the backing file exists but is unreadable. */
+  load: () => TenantRegistry;
+  /** Reads a single tenant entry. */
+  get: (tenantId: TenantId) => TenantEntry | null;
+  /** Lists all tenant IDs. */
+  list: () => TenantId[];
+  /** Atomically reads, updates and writes a single entry. Resolves to the stored entry. */
+  updateEntry: (tenantId: TenantId, updater: TenantEntryUpdater) => Promise<TenantEntry | null>;
+  /** Atomically replaces the whole registry (used by migrations and bulk saves). */
+  replaceAll: (registry: TenantRegistry) => Promise<void>;
+  /** Releases any open handles. The store must not be used afterwards. */
+  close: () => void;
+};
+
+const REGISTRY_LOCK_OPTIONS: FileLockOptions = {
+  retries: {
+    retries: 10,
+    factor: 2,
+    minTimeout: 50,
+    maxTimeout: 2_000,
+    randomize: true,
+  },
+  stale: 30_000,
+};
+
+const SQLITE_BUSY_TIMEOUT_MS = 5_000;
+
+function emptyRegistry(): TenantRegistry {
+  return { version: 1, tenants: {} };
+}
+
+function describeError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function parseRegistry(raw: string, filePath: string): TenantRegistry {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`Tenant registry is corrupt (${filePath}): ${describeError(err)}`, {
+      cause: err,
+    });
+  }
+  const registry = parsed as Partial<TenantRegistry> | null;
+  if (
+    !registry ||
+    registry.version !== 1 ||
+    !registry.tenants ||
+    typeof registry.tenants !== "object" ||
+    Array.isArray(registry.tenants)
+  ) {
+    throw new Error(`Tenant registry has an unsupported format (${filePath})`);
+  }
+  return registry as TenantRegistry;
+}
+
+function writeFileAtomicSync(filePath: string, contents: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  try {
+    const fd = fs.openSync(tmp, "w", 0o600);
+    try {
+      fs.writeFileSync(fd, contents, "utf8");
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmp, filePath);
+  } catch (err) {
+    fs.rmSync(tmp, { force: true });
+    throw err;
+  }
+  try {
+    fs.chmodSync(filePath, 0o600);
+  } catch {
+    // best-effort
+  }
+}
+
+/**
+ * Creates a JSON-file backed registry store.
+ */
+export function createJsonTenantRegistryStore(filePath: string): TenantRegistryStore {
+  const load = (): TenantRegistry => {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return emptyRegistry();
+      }
+      throw err;
+    }
+    if (!raw.trim()) {
+      return emptyRegistry();
+    }
+    return parseRegistry(raw, filePath);
+  };
+
+  const write = (registry: TenantRegistry): void => {
+    writeFileAtomicSync(filePath, `${JSON.stringify(registry, null, 2)}\n`);
+  };
+
+  // Serialize writers inside this process too; the file lock is re-entrant per process.
+  let queue: Promise<unknown> = Promise.resolve();
+  const withWriteLock = <T>(fn: () => T): Promise<T> => {
+    const run = queue.then(() => withFileLock(filePath, REGISTRY_LOCK_OPTIONS, async () => fn()));
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    backend: "json",
+    path: filePath,
+    load,
+    get: (tenantId) => load().tenants[tenantId] ?? null,
+    list: () => Object.keys(load().tenants),
+    updateEntry: (tenantId, updater) =>
+      withWriteLock(() => {
+        const registry = load();
+        const current = registry.tenants[tenantId];
+        const next = updater(current);
+        if (next === undefined) {
+          return current ?? null;
+        }
+        if (next === null) {
+          if (current) {
+            delete registry.tenants[tenantId];
+            write(registry);
+          }
+          return null;
+        }
+        registry.tenants[tenantId] = next;
+        write(registry);
+        return next;
+      }),
+    replaceAll: (registry) =>
+      withWriteLock(() => {
+        write({ version: 1, tenants: { ...registry.tenants } });
+      }),
+    close: () => {},
+  };
+}
+
+function ensureSqliteSchema(db: DatabaseSync): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tenants (
+      tenant_id TEXT PRIMARY KEY,
+      entry TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+  db.prepare(`INSERT OR IGNORE INTO meta (key, value) VALUES ('version', '1')`).run();
+}
+
+function parseSqliteEntry(tenantId: string, raw: string, filePath: string): TenantEntry {
+  try {
+    return JSON.parse(raw) as TenantEntry;
+  } catch (err) {
+    throw new Error(
+      `Tenant registry row for "${tenantId}" is corrupt (${filePath}): ${describeError(err)}`,
+      { cause: err },
+    );
+  }
+}
+
+/**
+ * Creates a SQLite-backed registry store (one row per tenant).
+ */
+export function createSqliteTenantRegistryStore(filePath: string): TenantRegistryStore {
+  const { DatabaseSync } = requireNodeSqlite();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new DatabaseSync(filePath);
+  db.exec(`PRAGMA busy_timeout = ${SQLITE_BUSY_TIMEOUT_MS}`);
+  db.exec("PRAGMA journal_mode = WAL");
+  ensureSqliteSchema(db);
+  try {
+    fs.chmodSync(filePath, 0o600);
+  } catch {
+    // best-effort
+  }
+
+  const selectOne = db.prepare(`SELECT entry FROM tenants WHERE tenant_id = ?`);
+  const selectAll = db.prepare(`SELECT tenant_id, entry FROM tenants ORDER BY rowid`);
+  const selectIds = db.prepare(`SELECT tenant_id FROM tenants ORDER BY rowid`);
+  const upsert = db.prepare(
+    `INSERT INTO tenants (tenant_id, entry, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT(tenant_id) DO UPDATE SET entry = excluded.entry, updated_at = excluded.updated_at`,
+  );
+  const deleteOne = db.prepare(`DELETE FROM tenants WHERE tenant_id = ?`);
+  const deleteAll = db.prepare(`DELETE FROM tenants`);
+
+  const get = (tenantId: TenantId): TenantEntry | null => {
+    const row = selectOne.get(tenantId) as { entry: string } | undefined;
+    return row ? parseSqliteEntry(tenantId, row.entry, filePath) : null;
+  };
+
+  const transaction = <T>(fn: () => T): T => {
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = fn();
+      db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      db.exec("ROLLBACK");
+      throw err;
+    }
+  };
+
+  return {
+    backend: "sqlite",
+    path: filePath,
+    load: () => {
+      const rows = selectAll.all() as Array<{ tenant_id: string; entry: string }>;
+      const tenants: Record<TenantId, TenantEntry> = {};
+      for (const row of rows) {
+        tenants[row.tenant_id] = parseSqliteEntry(row.tenant_id, row.entry, filePath);
+      }
+      return { version: 1, tenants };
+    },
+    get,
+    list: () => (selectIds.all() as Array<{ tenant_id: string }>).map((row) => row.tenant_id),
+    updateEntry: async (tenantId, updater) =>
+      transaction(() => {
+        const current = get(tenantId) ?? undefined;
+        const next = updater(current);
+        if (next === undefined) {
+          return current ?? null;
+        }
+        if (next === null) {
+          deleteOne.run(tenantId);
+          return null;
+        }
+        upsert.run(tenantId, JSON.stringify(next), Date.now());
+        return next;
+      }),
+    replaceAll: async (registry) => {
+      transaction(() => {
+        deleteAll.run();
+        const now = Date.now();
+        for (const [tenantId, entry] of Object.entries(registry.tenants)) {
+          upsert.run(tenantId, JSON.stringify(entry), now);
+        }
+      });
+    },
+    close: () => {
+      db.close();
+    },
+  };
+}
+
+/**
+ * Detects which backend currently holds the registry.
+ */
+export function detectTenantRegistryBackend(
+  env: NodeJS.ProcessEnv = process.env,
+): TenantRegistryBackend {
+  return fs.existsSync(resolveTenantRegistrySqlitePath(env)) ? "sqlite" : "json";
+}
+
+/**
+ * Resolves the backing file path for a registry backend.
+ */
+export function resolveTenantRegistryStorePath(
+  backend: TenantRegistryBackend,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return backend === "sqlite"
+    ? resolveTenantRegistrySqlitePath(env)
+    : resolveTenantRegistryPath(env);
+}
+
+const openStores = new Map<string, TenantRegistryStore>();
+
+function openTenantRegistryStore(
+  backend: TenantRegistryBackend,
+  env: NodeJS.ProcessEnv,
+): TenantRegistryStore {
+  const filePath = resolveTenantRegistryStorePath(backend, env);
+  const key = `${backend}:${filePath}`;
+  const cached = openStores.get(key);
+  if (cached) {
+    return cached;
+  }
+  const store =
+    backend === "sqlite"
+      ? createSqliteTenantRegistryStore(filePath)
+      : createJsonTenantRegistryStore(filePath);
+  openStores.set(key, store);
+  return store;
+}
+
+/**
+ * Resolves the active registry store for the given environment.
+ * Stores are cached per backing file for the lifetime of the process.
+ */
+export function resolveTenantRegistryStore(
+  env: NodeJS.ProcessEnv = process.env,
+): TenantRegistryStore {
+  return openTenantRegistryStore(detectTenantRegistryBackend(env), env);
+}
+
+/**
+ * Closes all cached registry stores (tests, migrations, shutdown).
+ */
+export function closeTenantRegistryStores(): void {
+  for (const store of openStores.values()) {
+    try {
+      store.close();
+    } catch {
+      // best-effort
+    }
+  }
+  openStores.clear();
+}
+
+export type MigrateTenantRegistryResult = {
+  from: TenantRegistryBackend;
+  to: TenantRegistryBackend;
+  tenantCount: number;
+  /** Path of the new backing file. */
+  targetPath: string;
+  /** Where the previous backing file was moved (undefined if there was none). */
+  archivedPath?: string;
+};
+
+function archiveRegistryFile(filePath: string, stamp: string): string | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  const archivedPath = `${filePath}.migrated-${stamp}`;
+  fs.renameSync(filePath, archivedPath);
+  for (const suffix of ["-wal", "-shm"]) {
+    fs.rmSync(`${filePath}${suffix}`, { force: true });
+  }
+  return archivedPath;
+}
+
+function removeRegistryFile(filePath: string): void {
+  for (const suffix of ["", "-wal", "-shm"]) {
+    fs.rmSync(`${filePath}${suffix}`, { force: true });
+  }
+}
+
+/**
+ * Copies the registry into another backend and archives the previous backing file.
+ * The target is verified against the source before the source is archived; if writing or
+ * verifying it fails, the target file is removed so the source stays the active registry.
+ * @throws Error if the registry already uses the target backend or verification fails
+ */
+export async function migrateTenantRegistry(
+  to: TenantRegistryBackend,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<MigrateTenantRegistryResult> {
+  const from = detectTenantRegistryBackend(env);
+  if (from === to) {
+    throw new Error(`Tenant registry already uses the ${to} backend`);
+  }
+
+  const source = openTenantRegistryStore(from, env);
+  const registry = source.load();
+  const targetPath = resolveTenantRegistryStorePath(to, env);
+
+  // Never clobber a stale target left behind by an earlier attempt.
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  closeTenantRegistryStores();
+  archiveRegistryFile(targetPath, `${stamp}-stale`);
+
+  const expectedIds = Object.keys(registry.tenants).toSorted();
+  try {
+    const target = openTenantRegistryStore(to, env);
+    await target.replaceAll(registry);
+
+    const written = target.load();
+    const writtenIds = Object.keys(written.tenants).toSorted();
+    if (expectedIds.join("\n") !== writtenIds.join("\n")) {
+      throw new Error(
+        `Tenant registry migration verification failed: expected ${expectedIds.length} tenants, found ${writtenIds.length}`,
+      );
+    }
+  } catch (err) {
+    // An existing tenants.sqlite wins detection, so a failed target must not stay behind
+    closeTenantRegistryStores();
+    removeRegistryFile(targetPath);
+    throw err;
+  }
+
+  closeTenantRegistryStores();
+  const archivedPath = archiveRegistryFile(resolveTenantRegistryStorePath(from, env), stamp);
+
+  return {
+    from,
+    to,
+    tenantCount: expectedIds.length,
+    targetPath,
+    archivedPath,
+  };
+}
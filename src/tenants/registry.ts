@@ -3,13 +3,13 @@
  * OPENCLAWMU ADDITION: tenant CRUD + token validation.
  *
  * Handles tenant CRUD operations, token generation, and validation.
+ * Persistence is delegated to the active `TenantRegistryStore` (see registry-store.ts);
+ * every mutation is a locked, atomic read-modify-write of a single entry.
  */
 
-import crypto from "node:crypto";
 import fs from "node:fs";
-import path from "node:path";
+import { resolveTenantCredential } from "./keys.js";
 import {
-  resolveTenantRegistryPath,
   resolveTenantStateDir,
   resolveTenantWorkspace,
   resolveTenantSessionsDir,
@@ -17,7 +17,10 @@ import {
   resolveTenantPluginsDir,
   resolveTenantSandboxDir,
   resolveTenantCredentialsDir,
+  resolveTenantPrivateDir,
 } from "./paths.js";
+import { resolveTenantRegistryStore } from "./registry-store.js";
+import { generateTenantSecret, hashTenantSecret } from "./tokens.js";
 import {
   type TenantId,
   type TenantEntry,
@@ -26,74 +29,33 @@ import {
   type CreateTenantResult,
   type RemoveTenantOptions,
   type TenantQuotas,
+  type TenantTerminalSettings,
+  type TenantPolicy,
+  type TenantBackupSettings,
+  type TenantSandboxSettings,
   isValidTenantId,
   parseTenantToken,
+  resolveTenantLifecycleState,
   buildTenantToken,
 } from "./types.js";
 
-const TOKEN_BYTES = 32;
-const EMPTY_REGISTRY: TenantRegistry = { version: 1, tenants: {} };
-
-/**
- * Generates a cryptographically secure random token.
- */
-function generateToken(): string {
-  return crypto.randomBytes(TOKEN_BYTES).toString("base64url");
-}
-
-/**
- * Hashes a token using SHA-256.
- */
-function hashToken(token: string): string {
-  return crypto.createHash("sha256").update(token).digest("hex");
-}
-
-/**
- * Timing-safe comparison of token hashes.
- */
-function safeEqualHash(a: string, b: string): boolean {
-  if (a.length !== b.length) {
-    return false;
-  }
-  return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
-}
-
 /**
- * Loads the tenant registry from disk.
- * Returns empty registry if file doesn't exist.
+ * Loads the tenant registry from the active store.
+ * Returns an empty registry if nothing has been stored yet.
+ * @throws Error if the registry exists but cannot be parsed (never silently resets it)
  */
 export function loadTenantRegistry(env: NodeJS.ProcessEnv = process.env): TenantRegistry {
-  const registryPath = resolveTenantRegistryPath(env);
-  try {
-    if (!fs.existsSync(registryPath)) {
-      return { ...EMPTY_REGISTRY };
-    }
-    const raw = fs.readFileSync(registryPath, "utf8");
-    const parsed = JSON.parse(raw) as TenantRegistry;
-    if (parsed?.version !== 1 || typeof parsed.tenants !== "object") {
-      return { ...EMPTY_REGISTRY };
-    }
-    return parsed;
-  } catch {
-    return { ...EMPTY_REGISTRY };
-  }
+  return resolveTenantRegistryStore(env).load();
 }
 
 /**
- * Saves the tenant registry to disk.
+ * Replaces the whole tenant registry in the active store.
  */
-export function saveTenantRegistry(
+export async function saveTenantRegistry(
   registry: TenantRegistry,
   env: NodeJS.ProcessEnv = process.env,
-): void {
-  const registryPath = resolveTenantRegistryPath(env);
-  fs.mkdirSync(path.dirname(registryPath), { recursive: true });
-  fs.writeFileSync(registryPath, `${JSON.stringify(registry, null, 2)}\n`, { mode: 0o600 });
-  try {
-    fs.chmodSync(registryPath, 0o600);
-  } catch {
-    // best-effort
-  }
+): Promise<void> {
+  await resolveTenantRegistryStore(env).replaceAll(registry);
 }
 
 /**
@@ -121,34 +83,31 @@ export function initializeTenantDirectories(
  * Creates a new tenant with a generated authentication token.
  * @throws Error if tenant ID is invalid or already exists
  */
-export function createTenant(
+export async function createTenant(
   tenantId: TenantId,
   options?: { displayName?: string },
   env: NodeJS.ProcessEnv = process.env,
-): CreateTenantResult {
+): Promise<CreateTenantResult> {
   if (!isValidTenantId(tenantId)) {
     throw new Error(
       `Invalid tenant ID: "${String(tenantId)}". Must match pattern: lowercase alphanumeric, hyphens, underscores, 1-32 chars.`,
     );
   }
 
-  const registry = loadTenantRegistry(env);
-  if (registry.tenants[tenantId]) {
-    throw new Error(`Tenant already exists: "${tenantId}"`);
-  }
-
-  const token = generateToken();
-  const tokenHash = hashToken(token);
+  const token = generateTenantSecret();
   const createdAt = new Date().toISOString();
 
-  const entry: TenantEntry = {
-    tokenHash,
-    createdAt,
-    displayName: options?.displayName,
-  };
-
-  registry.tenants[tenantId] = entry;
-  saveTenantRegistry(registry, env);
+  await resolveTenantRegistryStore(env).updateEntry(tenantId, (current) => {
+    if (current) {
+      throw new Error(`Tenant already exists: "${tenantId}"`);
+    }
+    const entry: TenantEntry = {
+      tokenHash: hashTenantSecret(token),
+      createdAt,
+      displayName: options?.displayName,
+    };
+    return entry;
+  });
   initializeTenantDirectories(tenantId, env);
 
   return {
@@ -162,90 +121,121 @@ export function createTenant(
  * Removes a tenant from the registry.
  * @param deleteData - If true, also deletes all tenant data files
  */
-export function removeTenant(
+export async function removeTenant(
   tenantId: TenantId,
   options?: RemoveTenantOptions,
   env: NodeJS.ProcessEnv = process.env,
-): void {
-  const registry = loadTenantRegistry(env);
-  if (!registry.tenants[tenantId]) {
-    throw new Error(`Tenant not found: "${tenantId}"`);
-  }
-
-  delete registry.tenants[tenantId];
-  saveTenantRegistry(registry, env);
+): Promise<void> {
+  await resolveTenantRegistryStore(env).updateEntry(tenantId, (current) => {
+    if (!current) {
+      throw new Error(`Tenant not found: "${tenantId}"`);
+    }
+    return null;
+  });
 
   if (options?.deleteData) {
     const tenantDir = resolveTenantStateDir(tenantId, env);
     if (fs.existsSync(tenantDir)) {
       fs.rmSync(tenantDir, { recursive: true, force: true });
     }
+    fs.rmSync(resolveTenantPrivateDir(tenantId, env), { recursive: true, force: true });
   }
 }
 
 /**
- * Rotates a tenant's authentication token.
+ * Rotates a tenant's primary authentication token.
  * Returns the new token (only time it's available in plaintext).
+ * With `graceMs`, the previous token keeps working for that long so clients can roll over.
  */
-export function rotateTenantToken(
+export async function rotateTenantToken(
   tenantId: TenantId,
+  options?: { graceMs?: number },
   env: NodeJS.ProcessEnv = process.env,
-): { tenantId: TenantId; token: string } {
-  const registry = loadTenantRegistry(env);
-  const entry = registry.tenants[tenantId];
-  if (!entry) {
-    throw new Error(`Tenant not found: "${tenantId}"`);
-  }
-
-  const newToken = generateToken();
-  entry.tokenHash = hashToken(newToken);
-  saveTenantRegistry(registry, env);
+): Promise<{ tenantId: TenantId; token: string; previousTokenExpiresAt?: string }> {
+  const newToken = generateTenantSecret();
+  const graceMs = Math.max(0, options?.graceMs ?? 0);
+  const previousTokenExpiresAt =
+    graceMs > 0 ? new Date(Date.now() + graceMs).toISOString() : undefined;
+  await resolveTenantRegistryStore(env).updateEntry(tenantId, (current) => {
+    if (!current) {
+      throw new Error(`Tenant not found: "${tenantId}"`);
+    }
+    return {
+      ...current,
+      tokenHash: hashTenantSecret(newToken),
+      previousTokenHash: previousTokenExpiresAt ? current.tokenHash : undefined,
+      previousTokenExpiresAt,
+    };
+  });
 
   return {
     tenantId,
     token: buildTenantToken(tenantId, newToken),
+    previousTokenExpiresAt,
   };
 }
 
 /**
- * Validates a tenant token and returns the tenant context if valid.
- * Updates lastSeenAt on successful validation.
+ * Validates a tenant token (primary token or API key) and returns the tenant context if valid.
+ * Updates lastSeenAt (and the key's lastUsedAt) on successful validation.
  */
-export function validateTenantToken(
+export async function validateTenantToken(
   token: string,
   env: NodeJS.ProcessEnv = process.env,
-): TenantContext | null {
+): Promise<TenantContext | null> {
   const parsed = parseTenantToken(token);
   if (!parsed) {
     return null;
   }
 
   const { tenantId, secret } = parsed;
-  const registry = loadTenantRegistry(env);
-  const entry = registry.tenants[tenantId];
+  const store = resolveTenantRegistryStore(env);
+  const entry = store.get(tenantId);
   if (!entry) {
     return null;
   }
 
-  if (entry.disabled) {
+  // Suspended, archived and pending-deletion tenants cannot authenticate.
+  const state = resolveTenantLifecycleState(entry);
+  if (state !== "active" && state !== "read-only") {
     return null;
   }
 
-  const providedHash = hashToken(secret);
-  if (!safeEqualHash(providedHash, entry.tokenHash)) {
+  const providedHash = hashTenantSecret(secret);
+  const credential = resolveTenantCredential(entry, providedHash);
+  if (!credential) {
     return null;
   }
 
-  // Update lastSeenAt
-  entry.lastSeenAt = new Date().toISOString();
-  saveTenantRegistry(registry, env);
+  // Update lastSeenAt / lastUsedAt
+  const lastSeenAt = new Date().toISOString();
+  const updated = await store.updateEntry(tenantId, (current) => {
+    if (!current) {
+      return undefined;
+    }
+    const keys = credential.keyId
+      ? current.keys?.map((key) =>
+          key.keyId === credential.keyId ? { ...key, lastUsedAt: lastSeenAt } : key,
+        )
+      : current.keys;
+    return { ...current, lastSeenAt, keys };
+  });
+  if (!updated) {
+    return null;
+  }
 
   return {
     tenantId,
-    tokenHash: entry.tokenHash,
+    tokenHash: credential.tokenHash,
+    keyId: credential.keyId,
+    // Read-only tenants keep read access only.
+    scopes:
+      state === "read-only"
+        ? credential.scopes.filter((scope) => scope === "operator.read")
+        : credential.scopes,
     stateDir: resolveTenantStateDir(tenantId, env),
-    createdAt: entry.createdAt,
-    lastSeenAt: entry.lastSeenAt,
+    createdAt: updated.createdAt,
+    lastSeenAt: updated.lastSeenAt,
   };
 }
 
@@ -257,49 +247,66 @@ export function getTenant(
   tenantId: TenantId,
   env: NodeJS.ProcessEnv = process.env,
 ): TenantEntry | null {
-  const registry = loadTenantRegistry(env);
-  return registry.tenants[tenantId] ?? null;
+  return resolveTenantRegistryStore(env).get(tenantId);
 }
 
 /**
  * Lists all tenant IDs.
  */
 export function listTenants(env: NodeJS.ProcessEnv = process.env): TenantId[] {
-  const registry = loadTenantRegistry(env);
-  return Object.keys(registry.tenants);
+  return resolveTenantRegistryStore(env).list();
 }
 
 /**
- * Updates tenant properties (displayName, disabled, quotas).
+ * Updates tenant properties (displayName, disabled, quotas, terminal settings, model policy,
+ * backup schedule, sandbox restrictions).
  */
-export function updateTenant(
+export async function updateTenant(
   tenantId: TenantId,
-  updates: { displayName?: string; disabled?: boolean; quotas?: TenantQuotas },
+  updates: {
+    displayName?: string;
+    disabled?: boolean;
+    quotas?: TenantQuotas;
+    terminal?: TenantTerminalSettings;
+    policy?: TenantPolicy;
+    backup?: TenantBackupSettings;
+    sandbox?: TenantSandboxSettings;
+  },
   env: NodeJS.ProcessEnv = process.env,
-): void {
-  const registry = loadTenantRegistry(env);
-  const entry = registry.tenants[tenantId];
-  if (!entry) {
-    throw new Error(`Tenant not found: "${tenantId}"`);
-  }
-
-  if (updates.displayName !== undefined) {
-    entry.displayName = updates.displayName || undefined;
-  }
-  if (updates.disabled !== undefined) {
-    entry.disabled = updates.disabled || undefined;
-  }
-  if (updates.quotas !== undefined) {
-    entry.quotas = updates.quotas;
-  }
-
-  saveTenantRegistry(registry, env);
+): Promise<void> {
+  await resolveTenantRegistryStore(env).updateEntry(tenantId, (current) => {
+    if (!current) {
+      throw new Error(`Tenant not found: "${tenantId}"`);
+    }
+    const entry = { ...current };
+    if (updates.displayName !== undefined) {
+      entry.displayName = updates.displayName || undefined;
+    }
+    if (updates.disabled !== undefined) {
+      entry.disabled = updates.disabled || undefined;
+    }
+    if (updates.quotas !== undefined) {
+      entry.quotas = updates.quotas;
+    }
+    if (updates.terminal !== undefined) {
+      entry.terminal = Object.keys(updates.terminal).length > 0 ? updates.terminal : undefined;
+    }
+    if (updates.policy !== undefined) {
+      entry.policy = Object.keys(updates.policy).length > 0 ? updates.policy : undefined;
+    }
+    if (updates.backup !== undefined) {
+      entry.backup = Object.keys(updates.backup).length > 0 ? updates.backup : undefined;
+    }
+    if (updates.sandbox !== undefined) {
+      entry.sandbox = Object.keys(updates.sandbox).length > 0 ? updates.sandbox : undefined;
+    }
+    return entry;
+  });
 }
 
 /**
  * Checks if a tenant exists.
  */
 export function tenantExists(tenantId: TenantId, env: NodeJS.ProcessEnv = process.env): boolean {
-  const registry = loadTenantRegistry(env);
-  return tenantId in registry.tenants;
+  return resolveTenantRegistryStore(env).get(tenantId) !== null;
 }
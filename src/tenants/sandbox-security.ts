@@ -0,0 +1,180 @@
+/**
+ * Per-tenant sandbox restrictions.
+ * OPENCLAWMU ADDITION: seccomp profile, Landlock rules, egress policy and resource
+ * limits for tenant bwrap sandboxes.
+ *
+ * `gateway.sandbox` applies to every tenant; a tenant's `sandbox` settings override the
+ * profile, the Landlock fields and the egress fields one by one (an egress `allow`
+ * list replaces the gateway list).
+ */
+
+import type { SandboxEgressRule } from "../agents/sandbox/egress-policy.js";
+import type { SandboxBwrapConfig, SandboxResourceLimits } from "../agents/sandbox/types.bwrap.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { TenantEntry } from "./types.js";
+import {
+  DEFAULT_EGRESS_PORTS,
+  validateSandboxEgressRules,
+} from "../agents/sandbox/egress-policy.js";
+import { resolveLandlockConfig } from "../agents/sandbox/landlock.js";
+import { isSandboxSeccompProfile } from "../agents/sandbox/seccomp.js";
+import { DEFAULT_BWRAP_CONFIG, DEFAULT_RESOURCE_LIMITS } from "../agents/sandbox/types.bwrap.js";
+
+const SETTING_KEYS = new Set(["seccompProfile", "landlock", "egress"]);
+const LANDLOCK_PATH_KEYS = ["readExec", "readOnly", "readWrite"] as const;
+const LANDLOCK_KEYS = new Set(["enabled", "binary", "bestEffort", ...LANDLOCK_PATH_KEYS]);
+const EGRESS_KEYS = new Set(["mode", "allow", "bridge", "port", "logRequests"]);
+const EGRESS_MODES = new Set(["isolated", "proxy", "open"]);
+
+export const DEFAULT_EGRESS_BRIDGE = "socat";
+export const DEFAULT_EGRESS_PROXY_PORT = 3128;
+
+export type TenantSandboxEgress = {
+  mode: "isolated" | "proxy" | "open";
+  allow: SandboxEgressRule[];
+  bridge: string;
+  port: number;
+  logRequests: boolean;
+};
+
+export type TenantSandboxSecurity = Pick<SandboxBwrapConfig, "seccompProfile" | "landlock"> & {
+  egress: TenantSandboxEgress;
+  /** Where the seccomp profile came from. */
+  source: "tenant" | "gateway" | "default";
+};
+
+/**
+ * Resolves the seccomp profile and Landlock rules a tenant's sandboxes run with.
+ */
+export function resolveTenantSandboxSecurity(
+  cfg: OpenClawConfig,
+  entry: Pick<TenantEntry, "sandbox"> | null | undefined,
+): TenantSandboxSecurity {
+  const global = cfg.gateway?.sandbox;
+  const tenant = entry?.sandbox;
+  const source = tenant?.seccompProfile ? "tenant" : global?.seccompProfile ? "gateway" : "default";
+  const landlock =
+    global?.landlock || tenant?.landlock ? { ...global?.landlock, ...tenant?.landlock } : null;
+  return {
+    seccompProfile:
+      tenant?.seccompProfile ?? global?.seccompProfile ?? DEFAULT_BWRAP_CONFIG.seccompProfile,
+    landlock: resolveLandlockConfig(landlock),
+    egress: {
+      mode: tenant?.egress?.mode ?? global?.egress?.mode ?? "isolated",
+      allow: (tenant?.egress?.allow ?? global?.egress?.allow ?? []).map((rule) => ({
+        ...rule,
+        ports: rule.ports ?? DEFAULT_EGRESS_PORTS,
+      })),
+      bridge: tenant?.egress?.bridge ?? global?.egress?.bridge ?? DEFAULT_EGRESS_BRIDGE,
+      port: tenant?.egress?.port ?? global?.egress?.port ?? DEFAULT_EGRESS_PROXY_PORT,
+      logRequests: tenant?.egress?.logRequests ?? global?.egress?.logRequests ?? true,
+    },
+    source,
+  };
+}
+
+/**
+ * Resource limits for a tenant's sandboxes: its `maxSandbox*` quotas over the defaults.
+ */
+export function resolveTenantSandboxLimits(
+  entry: Pick<TenantEntry, "quotas"> | null | undefined,
+): SandboxResourceLimits {
+  const quotas = entry?.quotas;
+  return {
+    ...DEFAULT_RESOURCE_LIMITS,
+    cpuQuotaPercent: quotas?.maxSandboxCpuPercent ?? DEFAULT_RESOURCE_LIMITS.cpuQuotaPercent,
+    memoryLimitMB: quotas?.maxSandboxMemoryMB ?? DEFAULT_RESOURCE_LIMITS.memoryLimitMB,
+    pidsLimit: quotas?.maxSandboxPids ?? DEFAULT_RESOURCE_LIMITS.pidsLimit,
+  };
+}
+
+/**
+ * Validates tenant sandbox settings from an API call.
+ * Returns an error message, or null when valid.
+ */
+export function validateTenantSandboxSettings(value: unknown): string | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "sandbox must be an object";
+  }
+  const settings = value as Record<string, unknown>;
+  for (const key of Object.keys(settings)) {
+    if (!SETTING_KEYS.has(key)) {
+      return `unknown sandbox setting: ${key}`;
+    }
+  }
+  if (settings.seccompProfile !== undefined && !isSandboxSeccompProfile(settings.seccompProfile)) {
+    return "seccompProfile must be one of: default, strict, permissive, none";
+  }
+  if (settings.egress !== undefined) {
+    const error = validateEgressSettings(settings.egress);
+    if (error) {
+      return error;
+    }
+  }
+  if (settings.landlock === undefined) {
+    return null;
+  }
+  const landlock = settings.landlock as Record<string, unknown>;
+  if (!landlock || typeof landlock !== "object" || Array.isArray(landlock)) {
+    return "landlock must be an object";
+  }
+  for (const key of Object.keys(landlock)) {
+    if (!LANDLOCK_KEYS.has(key)) {
+      return `unknown landlock setting: ${key}`;
+    }
+  }
+  for (const key of ["enabled", "bestEffort"] as const) {
+    if (landlock[key] !== undefined && typeof landlock[key] !== "boolean") {
+      return `landlock.${key} must be a boolean`;
+    }
+  }
+  if (landlock.binary !== undefined && !isAbsolutePath(landlock.binary)) {
+    return "landlock.binary must be an absolute path";
+  }
+  for (const key of LANDLOCK_PATH_KEYS) {
+    const paths = landlock[key];
+    if (paths !== undefined && (!Array.isArray(paths) || !paths.every(isAbsolutePath))) {
+      return `landlock.${key} must be a list of absolute paths`;
+    }
+  }
+  return null;
+}
+
+function validateEgressSettings(value: unknown): string | null {
+  const egress = value as Record<string, unknown>;
+  if (!egress || typeof egress !== "object" || Array.isArray(egress)) {
+    return "egress must be an object";
+  }
+  for (const key of Object.keys(egress)) {
+    if (!EGRESS_KEYS.has(key)) {
+      return `unknown egress setting: ${key}`;
+    }
+  }
+  if (egress.mode !== undefined && !EGRESS_MODES.has(egress.mode as string)) {
+    return "egress.mode must be one of: isolated, proxy, open";
+  }
+  if (egress.allow !== undefined) {
+    const error = validateSandboxEgressRules(egress.allow);
+    if (error) {
+      return `egress.${error}`;
+    }
+  }
+  if (egress.bridge !== undefined && (typeof egress.bridge !== "string" || !egress.bridge.trim())) {
+    return "egress.bridge must be a command name or path";
+  }
+  const port = egress.port;
+  if (
+    port !== undefined &&
+    !(Number.isInteger(port) && (port as number) > 0 && (port as number) < 65536)
+  ) {
+    return "egress.port must be a port number";
+  }
+  if (egress.logRequests !== undefined && typeof egress.logRequests !== "boolean") {
+    return "egress.logRequests must be a boolean";
+  }
+  return null;
+}
+
+function isAbsolutePath(value: unknown): boolean {
+  return typeof value === "string" && value.startsWith("/") && !value.split("/").includes("..");
+}
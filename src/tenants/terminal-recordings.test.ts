@@ -0,0 +1,207 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import type { BwrapPtyHandle } from "../agents/sandbox/bwrap-pty.js";
+import { parseAsciicast, recordPtySession } from "../agents/sandbox/pty-recording.js";
+import {
+  createTerminalRecordingPath,
+  ensureTerminalRecordingsDir,
+  listTerminalRecordings,
+  pruneTerminalRecordings,
+  readTerminalRecording,
+  resolveTerminalRecordingSettings,
+} from "./terminal-recordings.js";
+
+async function makeStateDir() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-terminal-recordings-"));
+  return {
+    env: { ...process.env, OPENCLAW_STATE_DIR: dir } as NodeJS.ProcessEnv,
+    cleanup: () => fs.rm(dir, { recursive: true, force: true }),
+  };
+}
+
+function makeFakePty() {
+  const dataListeners: Array<(data: string) => void> = [];
+  const exitListeners: Array<(code: number | null, signal: NodeJS.Signals | null) => void> = [];
+  const handle = {
+    pid: 42,
+    write: vi.fn(),
+    resize: vi.fn(),
+    kill: vi.fn(),
+    onData: (cb: (data: string) => void) => dataListeners.push(cb),
+    onExit: (cb: (code: number | null, signal: NodeJS.Signals | null) => void) =>
+      exitListeners.push(cb),
+    process: null,
+  } as unknown as BwrapPtyHandle;
+  return {
+    handle,
+    emit: (data: string) => dataListeners.forEach((cb) => cb(data)),
+    exit: () => exitListeners.forEach((cb) => cb(0, null)),
+  };
+}
+
+async function waitForFile(filePath: string, predicate: (content: string) => boolean) {
+  for (let i = 0; i < 50; i++) {
+    const content = await fs.readFile(filePath, "utf8").catch(() => "");
+    if (predicate(content)) {
+      return content;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error(`timed out waiting for ${filePath}`);
+}
+
+async function writeRecording(
+  env: NodeJS.ProcessEnv,
+  terminalId: string,
+  startedAt: number,
+  body = "",
+) {
+  const { recordingId, filePath } = createTerminalRecordingPath("demo", terminalId, startedAt, env);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const header = JSON.stringify({ version: 2, width: 80, height: 24, timestamp: startedAt / 1000 });
+  await fs.writeFile(filePath, `${header}\n${body}`);
+  const time = new Date(startedAt);
+  await fs.utimes(filePath, time, time);
+  return recordingId;
+}
+
+describe("terminal recordings", () => {
+  it("records output, input and resizes as asciicast v2", async () => {
+    const state = await makeStateDir();
+    const { filePath, recordingId } = createTerminalRecordingPath(
+      "demo",
+      "t-1",
+      Date.now(),
+      state.env,
+    );
+    const pty = makeFakePty();
+    const recorded = recordPtySession(pty.handle, { filePath, cols: 80, rows: 24 });
+
+    pty.emit("$ ");
+    recorded.write("ls\r");
+    recorded.resize(100, 30);
+    pty.emit("file.txt\r\n");
+    pty.exit();
+
+    const content = await waitForFile(filePath, (c) => c.includes("file.txt"));
+    const { header, events } = parseAsciicast(content);
+    expect(header).toMatchObject({ version: 2, width: 80, height: 24 });
+    expect(events.map(([, type, data]) => [type, data])).toEqual([
+      ["o", "$ "],
+      ["i", "ls\r"],
+      ["r", "100x30"],
+      ["o", "file.txt\r\n"],
+    ]);
+    expect(pty.handle.write).toHaveBeenCalledWith("ls\r");
+
+    const [listed] = await listTerminalRecordings("demo", state.env);
+    expect(listed).toMatchObject({ recordingId, terminalId: "t-1", width: 80 });
+    expect((await readTerminalRecording("demo", recordingId, {}, state.env)).content).toBe(content);
+    await state.cleanup();
+  });
+
+  it("stops recording at the file size limit", async () => {
+    const state = await makeStateDir();
+    const { filePath } = createTerminalRecordingPath("demo", "t-2", Date.now(), state.env);
+    const pty = makeFakePty();
+    recordPtySession(pty.handle, { filePath, cols: 80, rows: 24, maxBytes: 200 });
+    for (let i = 0; i < 20; i++) {
+      pty.emit(`line ${i}\r\n`);
+    }
+    const content = await waitForFile(filePath, (c) => c.includes("truncated"));
+    expect(content).not.toContain("line 19");
+    await state.cleanup();
+  });
+
+  it("prunes by age and total size, keeping active recordings", async () => {
+    const state = await makeStateDir();
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+    const expired = await writeRecording(state.env, "old", now - 40 * day);
+    const big = await writeRecording(state.env, "big", now - 3 * day, "x".repeat(2000));
+    const recent = await writeRecording(state.env, "recent", now - day, "y".repeat(500));
+    const active = await writeRecording(state.env, "active", now, "z".repeat(500));
+
+    const settings = resolveTerminalRecordingSettings({ maxTotalBytes: 100_000 });
+    const result = await pruneTerminalRecordings(
+      "demo",
+      settings,
+      { diskSpaceLimitBytes: 1500, keep: [active], now },
+      state.env,
+    );
+    expect(result.removed).toEqual([expired, big]);
+    const remaining = (await listTerminalRecordings("demo", state.env)).map((r) => r.recordingId);
+    expect(remaining).toEqual([active, recent]);
+    await state.cleanup();
+  });
+
+  it("reads recordings in pages that end on a line or character boundary", async () => {
+    const state = await makeStateDir();
+    const line = `[0.1, "o", "${"é".repeat(300)}"]\n`;
+    const startedAt = Date.now();
+    const body = `${line.repeat(3)}x${"ü".repeat(700)}`;
+    const recordingId = await writeRecording(state.env, "paged", startedAt, body);
+    const header = JSON.stringify({
+      version: 2,
+      width: 80,
+      height: 24,
+      timestamp: startedAt / 1000,
+    });
+
+    const pages: string[] = [];
+    let offset: number | null = 0;
+    while (offset !== null) {
+      const page = await readTerminalRecording(
+        "demo",
+        recordingId,
+        { offset, limit: 1024 },
+        state.env,
+      );
+      expect(page.content).not.toContain("�");
+      pages.push(page.content);
+      offset = page.nextOffset;
+    }
+    expect(pages.join("")).toBe(`${header}\n${body}`);
+    expect(pages.slice(1, 3)).toEqual([line, line]);
+    expect(pages[3]).toBe(`x${"ü".repeat(511)}`);
+    await expect(
+      readTerminalRecording("demo", recordingId, { limit: 16 * 1024 * 1024 }, state.env),
+    ).rejects.toThrow(/Invalid limit/);
+    await state.cleanup();
+  });
+
+  it("never reads or records through symlinks planted by the tenant", async () => {
+    const state = await makeStateDir();
+    const outside = path.join(state.env.OPENCLAW_STATE_DIR!, "secret.txt");
+    await fs.writeFile(outside, "host secret");
+    const linked = await writeRecording(state.env, "real", Date.now());
+    const { filePath } = createTerminalRecordingPath("demo", "link", Date.now(), state.env);
+    await fs.symlink(outside, filePath);
+    const linkId = path.basename(filePath, ".cast");
+
+    expect((await listTerminalRecordings("demo", state.env)).map((r) => r.recordingId)).toEqual([
+      linked,
+    ]);
+    await expect(readTerminalRecording("demo", linkId, {}, state.env)).rejects.toThrow(
+      /Recording not found/,
+    );
+
+    // The whole directory swapped for a link to somewhere else
+    const dir = path.dirname(filePath);
+    await fs.rm(dir, { recursive: true });
+    await fs.mkdir(path.join(state.env.OPENCLAW_STATE_DIR!, "elsewhere"));
+    await fs.symlink(path.join(state.env.OPENCLAW_STATE_DIR!, "elsewhere"), dir);
+    await expect(ensureTerminalRecordingsDir("demo", state.env)).rejects.toThrow(/escapes/);
+    await state.cleanup();
+  });
+
+  it("rejects path-like recording IDs", async () => {
+    const state = await makeStateDir();
+    await expect(readTerminalRecording("demo", "../tenants", {}, state.env)).rejects.toThrow(
+      /Invalid recording ID/,
+    );
+    await state.cleanup();
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Tenant terminal recording storage.
+ * OPENCLAWMU ADDITION: asciicast recordings of web terminal sessions.
+ *
+ * Recordings are written by the PTY layer (agents/sandbox/pty-recording.ts) to
+ * {tenantDir}/terminal-recordings/{recordingId}.cast. They live inside the tenant
+ * state dir, so they count toward `diskSpaceLimitBytes`; retention prunes them by
+ * age and by total size (capped at the tenant disk quota when one is set).
+ *
+ * The tenant can write to that directory from its sandbox, so recordings are only
+ * opened without following symlinks and only while the directory resolves inside
+ * the tenant state dir.
+ */
+
+import type { FileHandle } from "node:fs/promises";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { TenantId, TenantTerminalRecordingSettings } from "./types.js";
+import { isRealPathInside, openRegularFileNoFollow } from "./archive.js";
+import { resolveTenantStateDir, resolveTenantTerminalRecordingsDir } from "./paths.js";
+
+const RECORDING_EXT = ".cast";
+const RECORDING_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const HEADER_READ_BYTES = 4096;
+
+export const DEFAULT_RECORDING_RETENTION_DAYS = 30;
+export const MAX_RECORDING_RETENTION_DAYS = 3650;
+export const DEFAULT_RECORDING_MAX_TOTAL_BYTES = 512 * 1024 * 1024;
+export const DEFAULT_RECORDING_MAX_FILE_BYTES = 32 * 1024 * 1024;
+/** Largest value allowed as maxFileBytes. */
+export const MAX_RECORDING_FILE_BYTES = 256 * 1024 * 1024;
+/** Page size bounds for readTerminalRecording; a page must fit the gateway's send buffer. */
+export const MIN_RECORDING_READ_BYTES = 1024;
+export const MAX_RECORDING_READ_BYTES = 4 * 1024 * 1024;
+
+export type ResolvedTerminalRecordingSettings = {
+  enabled: boolean;
+  recordInput: boolean;
+  retentionMs: number;
+  maxTotalBytes: number;
+  maxFileBytes: number;
+};
+
+export type TerminalRecordingInfo = {
+  recordingId: string;
+  terminalId: string;
+  /** Epoch ms when recording started (from the asciicast header). */
+  startedAt: number;
+  /** Epoch ms of the last write. */
+  modifiedAt: number;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+};
+
+export type PruneTerminalRecordingsOptions = {
+  /** Tenant disk quota; the total recordings size never exceeds it. */
+  diskSpaceLimitBytes?: number;
+  /** Recordings still being written (never pruned). */
+  keep?: Iterable<string>;
+  now?: number;
+};
+
+/**
+ * Applies defaults to tenant recording settings.
+ */
+export function resolveTerminalRecordingSettings(
+  settings: TenantTerminalRecordingSettings | undefined,
+): ResolvedTerminalRecordingSettings {
+  const retentionDays = settings?.retentionDays ?? DEFAULT_RECORDING_RETENTION_DAYS;
+  return {
+    enabled: settings?.enabled === true,
+    recordInput: settings?.recordInput !== false,
+    retentionMs: retentionDays * 24 * 60 * 60 * 1000,
+    maxTotalBytes: settings?.maxTotalBytes ?? DEFAULT_RECORDING_MAX_TOTAL_BYTES,
+    maxFileBytes: Math.min(
+      settings?.maxFileBytes ?? DEFAULT_RECORDING_MAX_FILE_BYTES,
+      MAX_RECORDING_FILE_BYTES,
+    ),
+  };
+}
+
+/**
+ * Checks a recording ID (file base name) before it is used in a path.
+ */
+export function isValidTerminalRecordingId(recordingId: string): boolean {
+  return RECORDING_ID_PATTERN.test(recordingId);
+}
+
+/**
+ * Builds the recording ID and file path for a new terminal recording.
+ */
+export function createTerminalRecordingPath(
+  tenantId: TenantId,
+  terminalId: string,
+  now = Date.now(),
+  env: NodeJS.ProcessEnv = process.env,
+): { recordingId: string; filePath: string } {
+  const stamp = new Date(now)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d+Z$/, "Z");
+  const recordingId = `${stamp}_${terminalId}`;
+  return {
+    recordingId,
+    filePath: path.join(
+      resolveTenantTerminalRecordingsDir(tenantId, env),
+      recordingId + RECORDING_EXT,
+    ),
+  };
+}
+
+/**
+ * Creates the recordings directory and checks it still resolves inside the tenant
+ * state dir, so a new recording cannot be written through a planted symlink.
+ * @throws Error if the directory resolves outside the tenant state dir
+ */
+export async function ensureTerminalRecordingsDir(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<void> {
+  const dir = resolveTenantTerminalRecordingsDir(tenantId, env);
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+  if (!(await isRealPathInside(resolveTenantStateDir(tenantId, env), dir))) {
+    throw new Error("Terminal recordings directory escapes the tenant state dir");
+  }
+}
+
+/** Opens a recording without following symlinks; null when it is not a regular file. */
+async function openRecording(
+  tenantId: TenantId,
+  recordingId: string,
+  env: NodeJS.ProcessEnv,
+): Promise<{ handle: FileHandle; info: TerminalRecordingInfo } | null> {
+  const stateDir = resolveTenantStateDir(tenantId, env);
+  const rel = path.relative(
+    stateDir,
+    path.join(resolveTenantTerminalRecordingsDir(tenantId, env), recordingId + RECORDING_EXT),
+  );
+  const file = await openRegularFileNoFollow(stateDir, rel).catch(() => null);
+  if (!file) {
+    return null;
+  }
+  try {
+    const header = await readRecordingHeader(file.handle);
+    const separator = recordingId.indexOf("_");
+    const info: TerminalRecordingInfo = {
+      recordingId,
+      terminalId: separator >= 0 ? recordingId.slice(separator + 1) : recordingId,
+      startedAt:
+        typeof header.timestamp === "number"
+          ? header.timestamp * 1000
+          : Math.floor(file.stat.mtimeMs),
+      modifiedAt: Math.floor(file.stat.mtimeMs),
+      sizeBytes: file.stat.size,
+      width: typeof header.width === "number" ? header.width : undefined,
+      height: typeof header.height === "number" ? header.height : undefined,
+    };
+    return { handle: file.handle, info };
+  } catch (err) {
+    await file.handle.close();
+    throw err;
+  }
+}
+
+async function readRecordingHeader(
+  handle: FileHandle,
+): Promise<{ timestamp?: number; width?: number; height?: number }> {
+  try {
+    const buffer = Buffer.alloc(HEADER_READ_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_READ_BYTES, 0);
+    const firstLine = buffer.subarray(0, bytesRead).toString("utf8").split("\n")[0] ?? "";
+    const header = JSON.parse(firstLine) as { timestamp?: number; width?: number; height?: number };
+    return header && typeof header === "object" ? header : {};
+  } catch {
+    return {};
+  }
+}
+
+async function describeRecording(
+  tenantId: TenantId,
+  recordingId: string,
+  env: NodeJS.ProcessEnv,
+): Promise<TerminalRecordingInfo | null> {
+  const opened = await openRecording(tenantId, recordingId, env);
+  if (!opened) {
+    return null;
+  }
+  await opened.handle.close();
+  return opened.info;
+}
+
+/**
+ * Lists a tenant's terminal recordings, newest first.
+ */
+export async function listTerminalRecordings(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<TerminalRecordingInfo[]> {
+  const dir = resolveTenantTerminalRecordingsDir(tenantId, env);
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw err;
+  }
+  const recordings: TerminalRecordingInfo[] = [];
+  for (const name of names) {
+    if (!name.endsWith(RECORDING_EXT)) {
+      continue;
+    }
+    const recordingId = name.slice(0, -RECORDING_EXT.length);
+    if (!isValidTerminalRecordingId(recordingId)) {
+      continue;
+    }
+    const info = await describeRecording(tenantId, recordingId, env);
+    if (info) {
+      recordings.push(info);
+    }
+  }
+  return recordings.toSorted((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Reads one page of a recording's asciicast content, starting at byte `offset`.
+ * Pages end on an event line when one fits in `limit` (else on a UTF-8 character
+ * boundary); `nextOffset` is null once the end of the recording is reached.
+ * @throws Error if the ID is invalid, the recording does not exist, or the range is invalid
+ */
+export async function readTerminalRecording(
+  tenantId: TenantId,
+  recordingId: string,
+  options: { offset?: number; limit?: number } = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<{
+  recording: TerminalRecordingInfo;
+  content: string;
+  offset: number;
+  nextOffset: number | null;
+}> {
+  if (!isValidTerminalRecordingId(recordingId)) {
+    throw new Error(`Invalid recording ID: "${recordingId}"`);
+  }
+  const offset = options.offset ?? 0;
+  const limit = options.limit ?? MAX_RECORDING_READ_BYTES;
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new Error(`Invalid offset: ${offset}`);
+  }
+  if (
+    !Number.isSafeInteger(limit) ||
+    limit < MIN_RECORDING_READ_BYTES ||
+    limit > MAX_RECORDING_READ_BYTES
+  ) {
+    throw new Error(
+      `Invalid limit: ${limit} (expected ${MIN_RECORDING_READ_BYTES}-${MAX_RECORDING_READ_BYTES} bytes)`,
+    );
+  }
+  const opened = await openRecording(tenantId, recordingId, env);
+  if (!opened) {
+    throw new Error(`Recording not found: "${recordingId}"`);
+  }
+  const { handle, info: recording } = opened;
+  let bytesRead = 0;
+  // One byte of lookahead tells whether the page cuts a multi-byte character
+  const buffer = Buffer.alloc(Math.min(limit + 1, Math.max(0, recording.sizeBytes - offset)));
+  try {
+    if (offset > recording.sizeBytes) {
+      throw new Error(
+        `Offset ${offset} is past the end of the recording (${recording.sizeBytes} bytes)`,
+      );
+    }
+    ({ bytesRead } = await handle.read(buffer, 0, buffer.length, offset));
+  } finally {
+    await handle.close();
+  }
+  let end = Math.min(limit, bytesRead);
+  if (end < bytesRead) {
+    const newline = buffer.lastIndexOf(0x0a, end - 1);
+    if (newline >= 0) {
+      end = newline + 1;
+    } else {
+      while (end > 0 && (buffer[end] & 0xc0) === 0x80) {
+        end -= 1;
+      }
+    }
+  }
+  const nextOffset = offset + end < recording.sizeBytes ? offset + end : null;
+  return { recording, content: buffer.toString("utf8", 0, end), offset, nextOffset };
+}
+
+/**
+ * Deletes recordings past their retention age, then the oldest recordings until the
+ * total size fits within `maxTotalBytes` (and the tenant disk quota, when set).
+ */
+export async function pruneTerminalRecordings(
+  tenantId: TenantId,
+  settings: ResolvedTerminalRecordingSettings,
+  options: PruneTerminalRecordingsOptions = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<{ removed: string[]; freedBytes: number }> {
+  const now = options.now ?? Date.now();
+  const keep = new Set(options.keep ?? []);
+  const dir = resolveTenantTerminalRecordingsDir(tenantId, env);
+  const recordings = await listTerminalRecordings(tenantId, env);
+  const budget =
+    options.diskSpaceLimitBytes !== undefined
+      ? Math.min(settings.maxTotalBytes, options.diskSpaceLimitBytes)
+      : settings.maxTotalBytes;
+
+  const removed: string[] = [];
+  let freedBytes = 0;
+  let totalBytes = recordings.reduce((sum, r) => sum + r.sizeBytes, 0);
+
+  // Oldest first
+  for (const recording of recordings.toReversed()) {
+    if (keep.has(recording.recordingId)) {
+      continue;
+    }
+    const expired = now - recording.modifiedAt > settings.retentionMs;
+    if (!expired && totalBytes <= budget) {
+      continue;
+    }
+    try {
+      await fs.rm(path.join(dir, recording.recordingId + RECORDING_EXT), { force: true });
+    } catch {
+      continue;
+    }
+    removed.push(recording.recordingId);
+    freedBytes += recording.sizeBytes;
+    totalBytes -= recording.sizeBytes;
+  }
+
+  return { removed, freedBytes };
+}
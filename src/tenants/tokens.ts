@@ -0,0 +1,32 @@
+/**
+ * Tenant credential hashing helpers.
+ * OPENCLAWMU ADDITION: shared by the registry (primary token) and API keys.
+ */
+
+import crypto from "node:crypto";
+
+const TOKEN_BYTES = 32;
+
+/**
+ * Generates a cryptographically secure random token.
+ */
+export function generateTenantSecret(): string {
+  return crypto.randomBytes(TOKEN_BYTES).toString("base64url");
+}
+
+/**
+ * Hashes a token using SHA-256.
+ */
+export function hashTenantSecret(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Timing-safe comparison of token hashes.
+ */
+export function safeEqualTenantHash(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
@@ -0,0 +1,192 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import * as tar from "tar";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { resolveTenantStateDir } from "./paths.js";
+import { closeTenantRegistryStores } from "./registry-store.js";
+import { createTenant, getTenant, updateTenant, validateTenantToken } from "./registry.js";
+import { exportTenant, importTenant, readTenantExportManifest } from "./transfer.js";
+
+// Lets a test swap files between the export's scan of a directory and its copy.
+const afterScan = vi.hoisted(() => ({ hook: undefined as ((root: string) => void) | undefined }));
+vi.mock("./archive.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./archive.js")>();
+  return {
+    ...actual,
+    scanDirectoryFiles: async (...args: Parameters<typeof actual.scanDirectoryFiles>) => {
+      const scanned = await actual.scanDirectoryFiles(...args);
+      afterScan.hook?.(args[0]);
+      return scanned;
+    },
+  };
+});
+
+const PASSPHRASE = "correct horse battery staple";
+
+let root: string;
+let source: NodeJS.ProcessEnv;
+let dest: NodeJS.ProcessEnv;
+
+function envFor(name: string): NodeJS.ProcessEnv {
+  return { ...process.env, OPENCLAW_STATE_DIR: path.join(root, name) } as NodeJS.ProcessEnv;
+}
+
+function write(env: NodeJS.ProcessEnv, tenantId: string, rel: string, content: string) {
+  const file = path.join(resolveTenantStateDir(tenantId, env), rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+function read(env: NodeJS.ProcessEnv, tenantId: string, rel: string): string {
+  return fs.readFileSync(path.join(resolveTenantStateDir(tenantId, env), rel), "utf8");
+}
+
+beforeEach(async () => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-transfer-test-"));
+  source = envFor("source");
+  dest = envFor("dest");
+  await createTenant("acme", { displayName: "Acme" }, source);
+  await updateTenant("acme", { policy: { defaultModel: "anthropic/claude-sonnet-4-5" } }, source);
+  const sourceDir = resolveTenantStateDir("acme", source);
+  write(source, "acme", "openclaw.json", JSON.stringify({ agents: {} }));
+  write(source, "acme", "workspace/notes.md", "hello");
+  write(
+    source,
+    "acme",
+    "agents/main/sessions/sessions.json",
+    JSON.stringify({
+      "tenant:acme:agent:main:main": {
+        sessionId: "s1",
+        sessionFile: path.join(sourceDir, "agents/main/sessions/s1.jsonl"),
+      },
+    }),
+  );
+  write(source, "acme", "credentials/telegram-default.json", '{"token":"bot-secret"}');
+  write(source, "acme", "sandboxes/state.json", "{}");
+});
+
+afterEach(() => {
+  afterScan.hook = undefined;
+  closeTenantRegistryStores();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("tenant export/import", () => {
+  it("moves a tenant to another gateway under a new ID", async () => {
+    const archive = path.join(root, "acme.tar.gz");
+    const exported = await exportTenant({
+      tenantId: "acme",
+      outputPath: archive,
+      includeCredentials: true,
+      passphrase: PASSPHRASE,
+      env: source,
+    });
+    expect(exported).toMatchObject({ credentials: "encrypted", files: 3 });
+
+    const manifest = await readTenantExportManifest(archive);
+    expect(manifest.tenant).toMatchObject({
+      displayName: "Acme",
+      policy: { defaultModel: "anthropic/claude-sonnet-4-5" },
+    });
+    expect(manifest.tenant).not.toHaveProperty("tokenHash");
+    const entries: string[] = [];
+    await tar.list({ file: archive, onReadEntry: (entry) => entries.push(entry.path) });
+    expect(entries.some((entry) => entry.includes("sandboxes"))).toBe(false);
+    expect(fs.readFileSync(archive).includes("bot-secret")).toBe(false);
+
+    await expect(
+      importTenant({ archivePath: archive, passphrase: "wrong passphrase!", env: dest }),
+    ).rejects.toThrow(/decryption failed/);
+    expect(getTenant("acme", dest)).toBeNull();
+
+    const imported = await importTenant({
+      archivePath: archive,
+      tenantId: "acme-eu",
+      passphrase: PASSPHRASE,
+      env: dest,
+    });
+    expect(imported).toMatchObject({ tenantId: "acme-eu", sourceTenantId: "acme", credentials: 1 });
+    expect(getTenant("acme-eu", dest)).toMatchObject({ displayName: "Acme" });
+    expect(await validateTenantToken(imported.token, dest)).toMatchObject({ tenantId: "acme-eu" });
+
+    expect(read(dest, "acme-eu", "workspace/notes.md")).toBe("hello");
+    expect(read(dest, "acme-eu", "credentials/telegram-default.json")).toContain("bot-secret");
+    const sessions = JSON.parse(read(dest, "acme-eu", "agents/main/sessions/sessions.json"));
+    expect(sessions).toEqual({
+      "tenant:acme-eu:agent:main:main": {
+        sessionId: "s1",
+        sessionFile: path.join(
+          resolveTenantStateDir("acme-eu", dest),
+          "agents/main/sessions/s1.jsonl",
+        ),
+      },
+    });
+
+    await expect(
+      importTenant({
+        archivePath: archive,
+        tenantId: "acme-eu",
+        passphrase: PASSPHRASE,
+        env: dest,
+      }),
+    ).rejects.toThrow(/already exists/);
+  });
+
+  it("rejects archives from a newer format or with modified files", async () => {
+    const archive = path.join(root, "acme.tar.gz");
+    await exportTenant({ tenantId: "acme", outputPath: archive, env: source });
+
+    const unpacked = path.join(root, "unpacked");
+    fs.mkdirSync(unpacked);
+    await tar.extract({ file: archive, cwd: unpacked });
+    const repack = async (name: string) => {
+      const file = path.join(root, name);
+      await tar.create({ gzip: true, file, cwd: unpacked }, fs.readdirSync(unpacked));
+      return file;
+    };
+
+    fs.writeFileSync(path.join(unpacked, "data/workspace/notes.md"), "tampered");
+    await expect(
+      importTenant({ archivePath: await repack("tampered.tar.gz"), env: dest }),
+    ).rejects.toThrow(/verification failed: workspace\/notes.md/);
+    expect(getTenant("acme", dest)).toBeNull();
+
+    const manifestPath = path.join(unpacked, "openclaw-tenant-export.json");
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    fs.writeFileSync(manifestPath, JSON.stringify({ ...manifest, version: 99 }));
+    await expect(
+      importTenant({ archivePath: await repack("newer.tar.gz"), env: dest }),
+    ).rejects.toThrow(/newer than this gateway supports/);
+  });
+
+  it("does not follow symlinks swapped in after the scan", async () => {
+    const outside = path.join(root, "host.txt");
+    fs.writeFileSync(outside, "host secret");
+    const sourceDir = resolveTenantStateDir("acme", source);
+    afterScan.hook = (scanned) => {
+      const rel = scanned === sourceDir ? "workspace/notes.md" : "telegram-default.json";
+      fs.rmSync(path.join(scanned, rel));
+      fs.symlinkSync(outside, path.join(scanned, rel));
+    };
+    const archive = path.join(root, "acme.tar.gz");
+    const exported = await exportTenant({
+      tenantId: "acme",
+      outputPath: archive,
+      includeCredentials: true,
+      passphrase: PASSPHRASE,
+      env: source,
+    });
+    expect(exported).toMatchObject({ files: 2 });
+    afterScan.hook = undefined;
+
+    const imported = await importTenant({
+      archivePath: archive,
+      passphrase: PASSPHRASE,
+      env: dest,
+    });
+    expect(imported.credentials).toBe(0);
+    const destDir = resolveTenantStateDir("acme", dest);
+    expect(fs.existsSync(path.join(destDir, "workspace/notes.md"))).toBe(false);
+  });
+});
@@ -0,0 +1,505 @@
+/**
+ * Tenant export/import between gateways.
+ * OPENCLAWMU ADDITION: moves a tenant to another host as a single portable archive.
+ *
+ * The archive (tar.gz) holds a manifest (`openclaw-tenant-export.json`) with the registry
+ * entry minus secrets and the size/SHA-256 of every file, the tenant directory under
+ * `data/` (config overlay, agents, sessions, memory, cron store, workspace) and, when
+ * requested, the channel credentials re-encrypted with a passphrase (`credentials.enc`).
+ * Sandboxes and backup state stay behind; they are tied to the source host.
+ *
+ * Import checks the format version, refuses existing tenant IDs, verifies every file and
+ * can rename the tenant (session and cron stores are rewritten to the new ID and path).
+ * The imported tenant gets a fresh token.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import * as tar from "tar";
+import type { TenantEntry, TenantId } from "./types.js";
+import { escapeRegExp } from "../utils.js";
+import { VERSION } from "../version.js";
+import {
+  extractTarGz,
+  openRegularFileNoFollow,
+  scanDirectoryFiles,
+  sha256File,
+  sha256FileHandle,
+} from "./archive.js";
+import { resolveTenantCredentialsDir, resolveTenantStateDir } from "./paths.js";
+import { resolveTenantRegistryStore } from "./registry-store.js";
+import { getTenant, initializeTenantDirectories } from "./registry.js";
+import { generateTenantSecret, hashTenantSecret } from "./tokens.js";
+import { buildTenantToken, isValidTenantId } from "./types.js";
+
+export const TENANT_EXPORT_FORMAT = "openclaw-tenant-export";
+export const TENANT_EXPORT_VERSION = 1;
+export const TENANT_EXPORT_PASSPHRASE_ENV = "OPENCLAW_TENANT_EXPORT_PASSPHRASE";
+
+const MANIFEST_NAME = "openclaw-tenant-export.json";
+const DATA_DIR = "data";
+const CREDENTIALS_NAME = "credentials.enc";
+const CREDENTIALS_MAGIC = Buffer.from("OCEXPCR1", "ascii");
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const MIN_PASSPHRASE_LENGTH = 12;
+/** Top-level tenant entries that are host-specific (credentials travel separately). */
+const EXCLUDED_ENTRIES = new Set(["sandboxes", "backups.json", "credentials"]);
+/** Stores that reference the tenant by session key prefix or absolute path. */
+const REWRITTEN_FILES = [/^agents\/[^/]+\/sessions\/sessions\.json$/, /^cron\/jobs\.json$/];
+
+/**
+ * Registry fields carried over; tokens, API keys and activity stay on the source gateway.
+ */
+export type ExportedTenantEntry = Pick<
+  TenantEntry,
+  | "displayName"
+  | "createdAt"
+  | "state"
+  | "stateReason"
+  | "quotas"
+  | "terminal"
+  | "policy"
+  | "backup"
+>;
+
+export type TenantExportFileEntry = { size: number; sha256: string } | { link: string };
+
+export type TenantExportManifest = {
+  format: typeof TENANT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Gateway version that wrote the archive. */
+  gatewayVersion: string;
+  tenantId: TenantId;
+  /** Tenant directory on the source host (rewritten to the new location on import). */
+  sourceStateDir: string;
+  tenant: ExportedTenantEntry;
+  /** Files under `data/` (paths use "/"). */
+  files: Record<string, TenantExportFileEntry>;
+  credentials: "omitted" | "encrypted";
+};
+
+export type TenantExportResult = {
+  tenantId: TenantId;
+  path: string;
+  size: number;
+  files: number;
+  credentials: TenantExportManifest["credentials"];
+};
+
+export type TenantImportResult = {
+  tenantId: TenantId;
+  sourceTenantId: TenantId;
+  /** New primary token (only returned here). */
+  token: string;
+  createdAt: string;
+  files: number;
+  credentials: number;
+  sourceGatewayVersion: string;
+};
+
+async function deriveCredentialsKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return await new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, 32, { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }, (err, key) =>
+      err ? reject(err) : resolve(key),
+    );
+  });
+}
+
+function requirePassphrase(passphrase: string | undefined): string {
+  if (!passphrase) {
+    throw new Error(
+      `A passphrase is required for channel credentials (pass one or set ${TENANT_EXPORT_PASSPHRASE_ENV})`,
+    );
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  return passphrase;
+}
+
+/**
+ * Encrypts the credential files (relative path -> content) with AES-256-GCM and a
+ * scrypt-derived key: magic | salt | iv | ciphertext | tag.
+ */
+async function encryptCredentials(
+  files: Record<string, string>,
+  passphrase: string,
+): Promise<Buffer> {
+  const salt = randomBytes(SALT_BYTES);
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", await deriveCredentialsKey(passphrase, salt), iv);
+  const header = Buffer.concat([CREDENTIALS_MAGIC, salt, iv]);
+  cipher.setAAD(header);
+  const body = Buffer.concat([cipher.update(JSON.stringify(files), "utf8"), cipher.final()]);
+  return Buffer.concat([header, body, cipher.getAuthTag()]);
+}
+
+async function decryptCredentials(
+  data: Buffer,
+  passphrase: string,
+): Promise<Record<string, string>> {
+  const headerLength = CREDENTIALS_MAGIC.length + SALT_BYTES + IV_BYTES;
+  if (
+    data.length < headerLength + TAG_BYTES ||
+    !data.subarray(0, CREDENTIALS_MAGIC.length).equals(CREDENTIALS_MAGIC)
+  ) {
+    throw new Error("Export credentials are corrupted");
+  }
+  const header = data.subarray(0, headerLength);
+  const salt = header.subarray(CREDENTIALS_MAGIC.length, CREDENTIALS_MAGIC.length + SALT_BYTES);
+  const iv = header.subarray(CREDENTIALS_MAGIC.length + SALT_BYTES);
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    await deriveCredentialsKey(passphrase, salt),
+    iv,
+  );
+  decipher.setAAD(header);
+  decipher.setAuthTag(data.subarray(data.length - TAG_BYTES));
+  try {
+    const plain = Buffer.concat([
+      decipher.update(data.subarray(headerLength, data.length - TAG_BYTES)),
+      decipher.final(),
+    ]);
+    return JSON.parse(plain.toString("utf8")) as Record<string, string>;
+  } catch {
+    throw new Error("Credential decryption failed (wrong passphrase or corrupted archive)");
+  }
+}
+
+function isInside(root: string, candidate: string): boolean {
+  return candidate.startsWith(root + path.sep);
+}
+
+/**
+ * Writes a tenant export archive to `outputPath`.
+ * @throws Error if the tenant does not exist, or credentials are requested without a passphrase
+ */
+export async function exportTenant(params: {
+  tenantId: TenantId;
+  outputPath: string;
+  /** Include channel credentials, re-encrypted with `passphrase`. */
+  includeCredentials?: boolean;
+  passphrase?: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<TenantExportResult> {
+  const { tenantId } = params;
+  const env = params.env ?? process.env;
+  const tenant = getTenant(tenantId, env);
+  if (!tenant) {
+    throw new Error(`Tenant not found: ${tenantId}`);
+  }
+  const passphrase = params.includeCredentials ? requirePassphrase(params.passphrase) : undefined;
+  const stateDir = resolveTenantStateDir(tenantId, env);
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-export-"));
+  try {
+    // Copy first so the manifest hashes match the archived bytes while the tenant is live.
+    const dataDir = path.join(workDir, DATA_DIR);
+    const files: TenantExportManifest["files"] = {};
+    const scanned = await scanDirectoryFiles(stateDir, (rel) =>
+      EXCLUDED_ENTRIES.has(rel.split("/")[0]),
+    );
+    for (const [rel, entry] of scanned) {
+      const staged = path.join(dataDir, rel);
+      await fs.mkdir(path.dirname(staged), { recursive: true });
+      if (entry.kind === "link") {
+        // Links leaving the tenant directory would be rejected on extract.
+        if (!isInside(stateDir, path.resolve(path.dirname(path.join(stateDir, rel)), entry.link))) {
+          continue;
+        }
+        await fs.symlink(entry.link, staged);
+        files[rel] = { link: entry.link };
+        continue;
+      }
+      // Copy and hash from one no-follow descriptor: the tenant can swap a symlink
+      // in after the scan.
+      const source = await openRegularFileNoFollow(stateDir, rel);
+      if (!source) {
+        continue; // Deleted or replaced while scanning
+      }
+      let sha256: string;
+      try {
+        const output = await fs.open(staged, "wx", 0o600);
+        try {
+          sha256 = await sha256FileHandle(source.handle, output);
+        } finally {
+          await output.close();
+        }
+      } finally {
+        await source.handle.close();
+      }
+      const { size } = await fs.stat(staged);
+      files[rel] = { size, sha256 };
+    }
+    await fs.mkdir(dataDir, { recursive: true });
+
+    const entries = [DATA_DIR];
+    if (passphrase) {
+      const credentialsDir = resolveTenantCredentialsDir(tenantId, env);
+      const credentials: Record<string, string> = {};
+      for (const [rel, entry] of await scanDirectoryFiles(credentialsDir)) {
+        const opened =
+          entry.kind === "file" && (await openRegularFileNoFollow(credentialsDir, rel));
+        if (!opened) {
+          continue;
+        }
+        try {
+          credentials[rel] = (await opened.handle.readFile()).toString("base64");
+        } finally {
+          await opened.handle.close();
+        }
+      }
+      await fs.writeFile(
+        path.join(workDir, CREDENTIALS_NAME),
+        await encryptCredentials(credentials, passphrase),
+      );
+      entries.push(CREDENTIALS_NAME);
+    }
+
+    const manifest: TenantExportManifest = {
+      format: TENANT_EXPORT_FORMAT,
+      version: TENANT_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      gatewayVersion: VERSION,
+      tenantId,
+      sourceStateDir: stateDir,
+      tenant: {
+        displayName: tenant.displayName,
+        createdAt: tenant.createdAt,
+        state: tenant.state,
+        stateReason: tenant.stateReason,
+        quotas: tenant.quotas,
+        terminal: tenant.terminal,
+        policy: tenant.policy,
+        backup: tenant.backup,
+      },
+      files,
+      credentials: passphrase ? "encrypted" : "omitted",
+    };
+    await fs.writeFile(path.join(workDir, MANIFEST_NAME), JSON.stringify(manifest, null, 2));
+
+    const outputPath = path.resolve(params.outputPath);
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await tar.create({ gzip: true, file: outputPath, cwd: workDir, portable: true }, [
+      MANIFEST_NAME,
+      ...entries,
+    ]);
+    const { size } = await fs.stat(outputPath);
+    return {
+      tenantId,
+      path: outputPath,
+      size,
+      files: Object.keys(files).length,
+      credentials: manifest.credentials,
+    };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Reads and validates the manifest of an export archive.
+ * @throws Error if the file is not a tenant export or was written by a newer format version
+ */
+export async function readTenantExportManifest(archivePath: string): Promise<TenantExportManifest> {
+  const chunks: Buffer[] = [];
+  await tar.list({
+    file: archivePath,
+    filter: (entryPath) => entryPath.replace(/^\.\//, "") === MANIFEST_NAME,
+    onReadEntry: (entry) => {
+      entry.on("data", (chunk: Buffer) => chunks.push(chunk));
+    },
+  });
+  let manifest: TenantExportManifest;
+  try {
+    manifest = JSON.parse(Buffer.concat(chunks).toString("utf8")) as TenantExportManifest;
+  } catch {
+    throw new Error(`Not a tenant export archive: ${archivePath}`);
+  }
+  if (manifest?.format !== TENANT_EXPORT_FORMAT || typeof manifest.version !== "number") {
+    throw new Error(`Not a tenant export archive: ${archivePath}`);
+  }
+  if (manifest.version > TENANT_EXPORT_VERSION) {
+    throw new Error(
+      `Export format version ${manifest.version} (gateway ${manifest.gatewayVersion}) is newer than this gateway supports (${TENANT_EXPORT_VERSION}); upgrade before importing`,
+    );
+  }
+  if (!isValidTenantId(manifest.tenantId) || !manifest.files || !manifest.tenant) {
+    throw new Error("Tenant export manifest is invalid");
+  }
+  return manifest;
+}
+
+/**
+ * Checks extracted files against the manifest.
+ * @throws Error on a missing, modified or unexpected file
+ */
+async function verifyExportFiles(dataDir: string, manifest: TenantExportManifest): Promise<void> {
+  const extracted = await scanDirectoryFiles(dataDir);
+  for (const [rel, expected] of Object.entries(manifest.files)) {
+    const actual = extracted.get(rel);
+    const ok =
+      "link" in expected
+        ? actual?.kind === "link" && actual.link === expected.link
+        : actual?.kind === "file" &&
+          actual.size === expected.size &&
+          (await sha256File(path.join(dataDir, rel))) === expected.sha256;
+    if (!ok) {
+      throw new Error(`Export verification failed: ${rel}`);
+    }
+  }
+  for (const rel of extracted.keys()) {
+    if (!Object.hasOwn(manifest.files, rel)) {
+      throw new Error(`Export verification failed: unexpected file ${rel}`);
+    }
+  }
+}
+
+/**
+ * Points session and cron stores at the new tenant ID and directory.
+ */
+async function rewriteTenantReferences(
+  dataDir: string,
+  from: { tenantId: TenantId; stateDir: string },
+  to: { tenantId: TenantId; stateDir: string },
+): Promise<void> {
+  if (from.tenantId === to.tenantId && from.stateDir === to.stateDir) {
+    return;
+  }
+  // Paths appear JSON-encoded; only whole path segments are replaced.
+  const encodedFrom = JSON.stringify(from.stateDir).slice(1, -1);
+  const encodedTo = JSON.stringify(to.stateDir).slice(1, -1);
+  const dirPattern = new RegExp(`${escapeRegExp(encodedFrom)}(?=[/\\\\"])`, "g");
+  const keyPattern = new RegExp(`tenant:${escapeRegExp(from.tenantId)}:`, "g");
+  for (const [rel, entry] of await scanDirectoryFiles(dataDir)) {
+    if (entry.kind !== "file" || !REWRITTEN_FILES.some((pattern) => pattern.test(rel))) {
+      continue;
+    }
+    const file = path.join(dataDir, rel);
+    const raw = await fs.readFile(file, "utf8");
+    const next = raw
+      .replace(dirPattern, () => encodedTo)
+      .replace(keyPattern, () => `tenant:${to.tenantId}:`);
+    if (next !== raw) {
+      await fs.writeFile(file, next);
+    }
+  }
+}
+
+/**
+ * Imports a tenant export archive, optionally under a new tenant ID.
+ * @throws Error if the ID is taken, the archive fails verification, or credentials
+ *   cannot be decrypted
+ */
+export async function importTenant(params: {
+  archivePath: string;
+  /** Import under this ID instead of the exported one. */
+  tenantId?: TenantId;
+  /** Required when the archive carries credentials. */
+  passphrase?: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<TenantImportResult> {
+  const env = params.env ?? process.env;
+  const manifest = await readTenantExportManifest(params.archivePath);
+  const tenantId = params.tenantId ?? manifest.tenantId;
+  if (!isValidTenantId(tenantId)) {
+    throw new Error(`Invalid tenant ID: "${tenantId}"`);
+  }
+  const stateDir = resolveTenantStateDir(tenantId, env);
+  const collision = `Tenant already exists: "${tenantId}" (import it under another ID)`;
+  if (getTenant(tenantId, env)) {
+    throw new Error(collision);
+  }
+  if (
+    await fs
+      .access(stateDir)
+      .then(() => true)
+      .catch(() => false)
+  ) {
+    throw new Error(`${collision}; its data directory is still present: ${stateDir}`);
+  }
+  const passphrase =
+    manifest.credentials === "encrypted" ? requirePassphrase(params.passphrase) : undefined;
+
+  await fs.mkdir(path.dirname(stateDir), { recursive: true });
+  const staging = await fs.mkdtemp(`${stateDir}.import-`);
+  let registered = false;
+  try {
+    await extractTarGz(params.archivePath, staging);
+    const dataDir = path.join(staging, DATA_DIR);
+    await fs.mkdir(dataDir, { recursive: true });
+    await verifyExportFiles(dataDir, manifest);
+    await rewriteTenantReferences(
+      dataDir,
+      { tenantId: manifest.tenantId, stateDir: manifest.sourceStateDir },
+      { tenantId, stateDir },
+    );
+
+    let credentialCount = 0;
+    if (passphrase) {
+      const credentials = await decryptCredentials(
+        await fs.readFile(path.join(staging, CREDENTIALS_NAME)),
+        passphrase,
+      );
+      const credentialsDir = path.join(dataDir, "credentials");
+      for (const [rel, content] of Object.entries(credentials)) {
+        const file = path.resolve(credentialsDir, rel);
+        if (!isInside(credentialsDir, file)) {
+          throw new Error(`Invalid credential path in export: ${rel}`);
+        }
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, Buffer.from(content, "base64"), { mode: 0o600 });
+        credentialCount += 1;
+      }
+    }
+
+    const secret = generateTenantSecret();
+    const createdAt = manifest.tenant.createdAt || new Date().toISOString();
+    await resolveTenantRegistryStore(env).updateEntry(tenantId, (current) => {
+      if (current) {
+        throw new Error(collision);
+      }
+      const { tenant } = manifest;
+      // A pending deletion does not carry over; the source gateway still owns the purge.
+      return {
+        tokenHash: hashTenantSecret(secret),
+        createdAt,
+        displayName: tenant.displayName,
+        state: tenant.state === "pending-deletion" ? "suspended" : tenant.state,
+        stateChangedAt: tenant.state ? new Date().toISOString() : undefined,
+        stateReason: tenant.stateReason,
+        quotas: tenant.quotas,
+        terminal: tenant.terminal,
+        policy: tenant.policy,
+        backup: tenant.backup,
+      };
+    });
+    registered = true;
+
+    await fs.rename(dataDir, stateDir);
+    initializeTenantDirectories(tenantId, env);
+    return {
+      tenantId,
+      sourceTenantId: manifest.tenantId,
+      token: buildTenantToken(tenantId, secret),
+      createdAt,
+      files: Object.keys(manifest.files).length,
+      credentials: credentialCount,
+      sourceGatewayVersion: manifest.gatewayVersion,
+    };
+  } catch (err) {
+    if (registered) {
+      await resolveTenantRegistryStore(env)
+        .updateEntry(tenantId, () => null)
+        .catch(() => {});
+    }
+    throw err;
+  } finally {
+    await fs.rm(staging, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -8,6 +8,8 @@
  * - Separate sandbox environments
  */
 
+import type { GatewayBackupScheduleConfig, GatewaySandboxConfig } from "../config/types.gateway.js";
+
 /**
  * Tenant ID format: lowercase alphanumeric with hyphens/underscores.
  * Pattern: ^[a-z0-9][a-z0-9_-]{0,31}$
@@ -27,14 +29,59 @@ export function isValidTenantId(id: string): id is TenantId {
   return TENANT_ID_PATTERN.test(id);
 }
 
+/**
+ * Scope granted to a tenant API key.
+ * The operator scopes mirror `gateway/method-auth.ts` but are always confined to the
+ * key's own tenant (`operator.admin` means tenant self-administration, never gateway admin).
+ * `terminal` grants the terminal.* methods only.
+ */
+export type TenantKeyScope = "operator.read" | "operator.write" | "operator.admin" | "terminal";
+
+/**
+ * All tenant key scopes, in display order.
+ */
+export const TENANT_KEY_SCOPES: readonly TenantKeyScope[] = [
+  "operator.read",
+  "operator.write",
+  "operator.admin",
+  "terminal",
+];
+
+/**
+ * Named API key for a tenant. Keys authenticate with the same
+ * "tenant:{tenantId}:{secret}" token format as the primary token.
+ */
+export type TenantApiKey = {
+  /** Stable key identifier (e.g. "key_3f9a1c2b"). */
+  keyId: string;
+  /** Human-readable label. */
+  name: string;
+  /** SHA-256 hash of the key secret. */
+  tokenHash: string;
+  /** Scopes granted to this key. */
+  scopes: TenantKeyScope[];
+  /** ISO timestamp of key creation. */
+  createdAt: string;
+  /** ISO timestamp after which the key is rejected (optional). */
+  expiresAt?: string;
+  /** ISO timestamp of the last successful authentication with this key. */
+  lastUsedAt?: string;
+  /** ISO timestamp of revocation (revoked keys are kept for auditing). */
+  revokedAt?: string;
+};
+
 /**
  * Tenant context with resolved paths and authentication info.
  */
 export type TenantContext = {
   /** Unique tenant identifier. */
   tenantId: TenantId;
-  /** SHA-256 hash of the tenant's authentication token. */
+  /** SHA-256 hash of the credential that authenticated. */
   tokenHash: string;
+  /** API key ID when a named key authenticated (undefined for the primary token). */
+  keyId?: string;
+  /** Scopes granted to the authenticating credential. */
+  scopes: TenantKeyScope[];
   /** Tenant-specific state directory: {baseStateDir}/tenants/{tenantId} */
   stateDir: string;
   /** ISO timestamp of tenant creation. */
@@ -77,24 +124,164 @@ export type TenantQuotas = {
   maxSandboxDiskMB?: number;
   /** Maximum processes (PIDs) in sandbox. */
   maxSandboxPids?: number;
+
+  /** Maximum indexed memory chunks across all of the tenant's agents (OPENCLAWMU ADDITION). */
+  maxMemoryChunks?: number;
+  /** Maximum memory index size in MB (chunk text plus embeddings, all agents). */
+  maxMemoryIndexMB?: number;
+
+  /** Channel message sent when a run crosses a monthly soft limit (the gateway event is always emitted). */
+  softLimitNotify?: TenantQuotaNotifyTarget;
+};
+
+/**
+ * Channel destination for tenant quota notifications.
+ */
+export type TenantQuotaNotifyTarget = {
+  /** Channel id (e.g. "telegram", "slack"). */
+  channel: string;
+  /** Recipient on that channel. */
+  to: string;
+  /** Channel account to send from (default account when unset). */
+  accountId?: string;
+};
+
+/**
+ * Web terminal settings for a tenant.
+ * All fields are optional - the gateway defaults apply when unset.
+ */
+export type TenantTerminalSettings = {
+  /** Kill a terminal after this many minutes without input or output (default 5). */
+  idleTimeoutMinutes?: number;
+  /** Kill a terminal after this many minutes with no attached viewer (default 10). */
+  detachedTimeoutMinutes?: number;
+  /** Server-side scrollback kept for replay on attach, in UTF-8 bytes (default 256 KiB). */
+  scrollbackBytes?: number;
+  /** Maximum simultaneous viewers per terminal, including the controller (default 8). */
+  maxViewers?: number;
+  /** Session recording (asciicast v2) for support and audit. */
+  recording?: TenantTerminalRecordingSettings;
 };
 
+/**
+ * Terminal recording settings for a tenant.
+ * Recordings live under {tenantDir}/terminal-recordings and count toward diskSpaceLimitBytes.
+ */
+export type TenantTerminalRecordingSettings = {
+  /** Record new terminal sessions (default false). */
+  enabled?: boolean;
+  /** Record keyboard input as well as output (default true). */
+  recordInput?: boolean;
+  /** Delete recordings older than this many days (default 30). */
+  retentionDays?: number;
+  /** Delete the oldest recordings once all recordings exceed this size (default 512 MiB). */
+  maxTotalBytes?: number;
+  /** Stop recording a session once its file reaches this size (default 32 MiB). */
+  maxFileBytes?: number;
+};
+
+/**
+ * Tenant lifecycle state.
+ * - `active`: normal operation
+ * - `suspended`: credentials rejected, no model runs, cron/terminals stopped
+ * - `read-only`: credentials limited to operator.read, no model runs
+ * - `archived`: like suspended, kept for backup/export until reactivated or deleted
+ * - `pending-deletion`: like suspended; data is purged once `purgeAfter` passes
+ */
+export type TenantLifecycleState =
+  | "active"
+  | "suspended"
+  | "read-only"
+  | "archived"
+  | "pending-deletion";
+
+/**
+ * All lifecycle states, in display order.
+ */
+export const TENANT_LIFECYCLE_STATES: readonly TenantLifecycleState[] = [
+  "active",
+  "suspended",
+  "read-only",
+  "archived",
+  "pending-deletion",
+];
+
+/**
+ * Resolves a tenant's lifecycle state (legacy `disabled` entries read as suspended).
+ */
+export function resolveTenantLifecycleState(
+  entry: Pick<TenantEntry, "state" | "disabled">,
+): TenantLifecycleState {
+  return entry.state ?? (entry.disabled ? "suspended" : "active");
+}
+
+/**
+ * Model policy for a tenant.
+ * Model refs use the "provider/model" form. Unset lists allow everything the gateway exposes.
+ */
+export type TenantPolicy = {
+  /** Providers the tenant may use (e.g. ["anthropic"]). */
+  allowedProviders?: string[];
+  /** Models the tenant may use (e.g. ["anthropic/claude-sonnet-4-5"]). */
+  allowedModels?: string[];
+  /** Model used when the run did not pick one (replaces the gateway default). */
+  defaultModel?: string;
+  /** Model every run is downgraded to once monthlyCostSoftLimitCents is crossed. */
+  fallbackModel?: string;
+};
+
+/**
+ * Scheduled backup settings for a tenant, layered over `gateway.backup.schedule`.
+ * `enabled: false` opts the tenant out of the global schedule.
+ */
+export type TenantBackupSettings = GatewayBackupScheduleConfig;
+
+/**
+ * Sandbox restrictions for a tenant, layered over `gateway.sandbox`
+ * (seccomp profile and Landlock rules for bwrap sandboxes and terminals).
+ */
+export type TenantSandboxSettings = Omit<GatewaySandboxConfig, "diskQuota">;
+
 /**
  * Stored tenant entry in the registry.
  */
 export type TenantEntry = {
-  /** SHA-256 hash of the tenant's authentication token. */
+  /** SHA-256 hash of the tenant's primary authentication token (all scopes). */
   tokenHash: string;
+  /** Hash of the previous primary token, still accepted until previousTokenExpiresAt. */
+  previousTokenHash?: string;
+  /** ISO timestamp when the previous primary token stops being accepted. */
+  previousTokenExpiresAt?: string;
+  /** Named, scoped API keys. */
+  keys?: TenantApiKey[];
   /** ISO timestamp of tenant creation. */
   createdAt: string;
   /** ISO timestamp of last activity (updated on each auth). */
   lastSeenAt?: string;
   /** Display name for the tenant (optional). */
   displayName?: string;
-  /** Whether the tenant is disabled (prevents auth). */
+  /** Whether the tenant is disabled (prevents auth). Superseded by `state`. */
   disabled?: boolean;
+  /** Lifecycle state (unset = active, or suspended for legacy disabled entries). */
+  state?: TenantLifecycleState;
+  /** ISO timestamp of the last lifecycle transition. */
+  stateChangedAt?: string;
+  /** Reason recorded with the last lifecycle transition. */
+  stateReason?: string;
+  /** ISO timestamp after which a pending-deletion tenant is purged. */
+  purgeAfter?: string;
+  /** ISO timestamp of the first purge attempt; from then on the deletion cannot be cancelled. */
+  purgeStartedAt?: string;
   /** Resource quotas for this tenant. */
   quotas?: TenantQuotas;
+  /** Web terminal settings (timeouts, scrollback, viewers). */
+  terminal?: TenantTerminalSettings;
+  /** Model policy (allowed providers/models, default and downgrade model). */
+  policy?: TenantPolicy;
+  /** Scheduled backup settings (overrides the gateway-wide schedule). */
+  backup?: TenantBackupSettings;
+  /** Sandbox syscall filter and Landlock overrides. */
+  sandbox?: TenantSandboxSettings;
 };
 
 /**
@@ -198,6 +385,10 @@ export type TenantUsageSnapshot = {
   agentDataBytes: number;
   /** Memory database size in bytes. */
   memoryDbBytes: number;
+  /** Terminal recordings size in bytes (absent in snapshots written before recordings). */
+  terminalRecordingsBytes?: number;
+  /** Memory embedding tokens, also counted in inputTokens (OPENCLAWMU ADDITION; absent in older snapshots). */
+  embeddingTokens?: number;
 
   // Session metrics
   /** Total sessions this period. */
@@ -279,9 +470,16 @@ export type QuotaCheckResult = {
   /** Whether the request is allowed. */
   allowed: boolean;
   /** Reason for denial (if not allowed). */
-  reason?: "quota_exceeded" | "rate_limited" | "disk_full" | "sessions_exceeded";
+  reason?:
+    | "quota_exceeded"
+    | "rate_limited"
+    | "disk_full"
+    | "sessions_exceeded"
+    | "tenant_inactive";
   /** Human-readable message. */
   message?: string;
+  /** When the denial lifts (Unix ms): monthly reset for quotas, window end for rate limits. */
+  resetAt?: number;
   /** Warning message (if allowed but approaching limit). */
   warning?: string;
 };
@@ -11,10 +11,8 @@
  * - Sandbox resource usage
  */
 
-import { exec } from "node:child_process";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { promisify } from "node:util";
 import type {
   TenantId,
   TenantQuotas,
@@ -23,16 +21,15 @@ import type {
   RateLimitState,
   QuotaCheckResult,
 } from "./types.js";
+import { getTenantDiskUsageTracker, getTenantSnapshotUsageTracker } from "./disk-usage.js";
 import {
-  resolveTenantStateDir,
+  resolveTenantTerminalRecordingsDir,
   resolveTenantUsageCurrentPath,
   resolveTenantUsageDir,
   resolveTenantUsageHistoryPath,
   resolveTenantRateLimitPath,
 } from "./paths.js";
 
-const execAsync = promisify(exec);
-
 // ============================================================================
 // Usage Snapshot Management
 // ============================================================================
@@ -226,6 +223,25 @@ export async function updateTokenUsage(
   await saveTenantUsage(tenantId, snapshot, env);
 }
 
+/**
+ * Charges memory embedding tokens to a tenant.
+ * OPENCLAWMU ADDITION: counted as input tokens (so token quotas apply) without counting
+ * a message.
+ */
+export async function updateEmbeddingUsage(
+  tenantId: TenantId,
+  tokens: number,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<void> {
+  const snapshot = await loadTenantUsage(tenantId, env);
+
+  snapshot.embeddingTokens = (snapshot.embeddingTokens ?? 0) + tokens;
+  snapshot.inputTokens += tokens;
+  snapshot.totalTokens += tokens;
+
+  await saveTenantUsage(tenantId, snapshot, env);
+}
+
 /**
  * Updates session count for a tenant.
  */
@@ -273,21 +289,10 @@ export async function updateSandboxUsage(
 // Disk Usage Calculation
 // ============================================================================
 
-/**
- * Gets the size of a directory in bytes using du command.
- */
-async function getDirectorySize(dirPath: string): Promise<number> {
-  try {
-    const { stdout } = await execAsync(`du -sb "${dirPath}" 2>/dev/null || echo "0"`);
-    const size = parseInt(stdout.split("\t")[0], 10);
-    return isNaN(size) ? 0 : size;
-  } catch {
-    return 0;
-  }
-}
-
 /**
  * Calculates disk usage for a tenant.
+ * OPENCLAWMU ADDITION: totals come from the tenant's incremental trackers (see
+ * disk-usage.ts); only the first call walks the state directory and snapshot store.
  */
 export async function calculateTenantDiskUsage(
   tenantId: TenantId,
@@ -297,17 +302,21 @@ export async function calculateTenantDiskUsage(
   workspaceBytes: number;
   agentDataBytes: number;
   memoryDbBytes: number;
+  terminalRecordingsBytes: number;
 }> {
-  const tenantDir = resolveTenantStateDir(tenantId, env);
-
-  const [totalBytes, workspaceBytes, agentDataBytes, memoryDbBytes] = await Promise.all([
-    getDirectorySize(tenantDir),
-    getDirectorySize(path.join(tenantDir, "workspace")),
-    getDirectorySize(path.join(tenantDir, "agents")),
-    getDirectorySize(path.join(tenantDir, "memory")),
-  ]);
+  const tracker = getTenantDiskUsageTracker(tenantId, env);
+  const totalBytes =
+    (await tracker.flush()) + (await getTenantSnapshotUsageTracker(tenantId, env).flush());
 
-  return { totalBytes, workspaceBytes, agentDataBytes, memoryDbBytes };
+  return {
+    totalBytes,
+    workspaceBytes: tracker.bytes("workspace"),
+    agentDataBytes: tracker.bytes("agents"),
+    memoryDbBytes: tracker.bytes("memory"),
+    terminalRecordingsBytes: tracker.bytes(
+      path.basename(resolveTenantTerminalRecordingsDir(tenantId, env)),
+    ),
+  };
 }
 
 /**
@@ -324,6 +333,7 @@ export async function updateDiskUsage(
   snapshot.workspaceBytes = diskUsage.workspaceBytes;
   snapshot.agentDataBytes = diskUsage.agentDataBytes;
   snapshot.memoryDbBytes = diskUsage.memoryDbBytes;
+  snapshot.terminalRecordingsBytes = diskUsage.terminalRecordingsBytes;
 
   await saveTenantUsage(tenantId, snapshot, env);
 }
@@ -370,13 +380,13 @@ async function saveRateLimitState(
 
 /**
  * Records a request and checks rate limits.
- * Returns true if the request is allowed.
+ * Returns true if the request is allowed; denials include when the window frees up.
  */
 export async function checkAndRecordRequest(
   tenantId: TenantId,
   quotas: TenantQuotas,
   env: NodeJS.ProcessEnv = process.env,
-): Promise<{ allowed: boolean; reason?: string }> {
+): Promise<{ allowed: boolean; reason?: string; retryAt?: number }> {
   const now = Date.now();
   const state = await loadRateLimitState(tenantId, env);
 
@@ -390,13 +400,21 @@ export async function checkAndRecordRequest(
   // Check rate limits
   if (quotas.requestsPerMinute !== undefined) {
     if (state.minuteWindow.length >= quotas.requestsPerMinute) {
-      return { allowed: false, reason: "Rate limit exceeded (per minute)" };
+      return {
+        allowed: false,
+        reason: "Rate limit exceeded (per minute)",
+        retryAt: (state.minuteWindow[0] ?? now) + 60 * 1000,
+      };
     }
   }
 
   if (quotas.requestsPerHour !== undefined) {
     if (state.hourWindow.length >= quotas.requestsPerHour) {
-      return { allowed: false, reason: "Rate limit exceeded (per hour)" };
+      return {
+        allowed: false,
+        reason: "Rate limit exceeded (per hour)",
+        retryAt: (state.hourWindow[0] ?? now) + 60 * 60 * 1000,
+      };
     }
   }
 
@@ -502,6 +520,7 @@ export async function checkQuotaBeforeRequest(
       allowed: false,
       reason: "rate_limited",
       message: rateLimitResult.reason,
+      resetAt: rateLimitResult.retryAt,
     };
   }
 
@@ -513,6 +532,7 @@ export async function checkQuotaBeforeRequest(
       allowed: false,
       reason: "quota_exceeded",
       message: "Monthly token quota exceeded",
+      resetAt: status.usage.quotaResetAt,
     };
   }
 
@@ -521,6 +541,7 @@ export async function checkQuotaBeforeRequest(
       allowed: false,
       reason: "quota_exceeded",
       message: "Monthly cost limit exceeded",
+      resetAt: status.usage.quotaResetAt,
     };
   }
 
@@ -0,0 +1,150 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { runBeforeToolCallHook } from "../agents/pi-tools.before-tool-call.js";
+import { openSandboxCgroup, releaseSandboxCgroup } from "../agents/sandbox/bwrap.js";
+import { resetCgroupDelegateCache } from "../agents/sandbox/cgroup.js";
+import { closeTenantDiskUsageTrackers, createDirectoryUsageTracker } from "./disk-usage.js";
+import { resolveTenantWorkspace } from "./paths.js";
+import { closeTenantRegistryStores } from "./registry-store.js";
+import { createTenant, updateTenant } from "./registry.js";
+import {
+  checkTenantWorkspaceQuota,
+  resetTenantWorkspaceQuotasForTest,
+  resolveTenantWorkspaceWriteBlock,
+} from "./workspace-quota.js";
+
+const SESSION_KEY = "tenant:demo:agent:main:main";
+const MB = 1024 * 1024;
+const cfg = { gateway: { sandbox: { diskQuota: { backend: "poll" } } } } as OpenClawConfig;
+
+describe("directory usage tracker", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-disk-usage-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each([true, false])("follows writes and deletes (watch: %s)", async (watch) => {
+    fs.mkdirSync(path.join(dir, "workspace", "src"), { recursive: true });
+    fs.writeFileSync(path.join(dir, "workspace", "src", "a.txt"), "x".repeat(100));
+    fs.writeFileSync(path.join(dir, "skipped.img"), "x".repeat(1000));
+    const tracker = createDirectoryUsageTracker(dir, {
+      watch,
+      exclude: [path.join(dir, "skipped.img")],
+    });
+    try {
+      await expect(tracker.flush()).resolves.toBe(100);
+
+      fs.writeFileSync(path.join(dir, "workspace", "src", "a.txt"), "x".repeat(40));
+      fs.mkdirSync(path.join(dir, "memory"));
+      fs.writeFileSync(path.join(dir, "memory", "db"), "x".repeat(7));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await expect(tracker.flush()).resolves.toBe(47);
+      expect(tracker.bytes("workspace")).toBe(40);
+      expect(tracker.bytes("memory")).toBe(7);
+
+      fs.rmSync(path.join(dir, "workspace", "src"), { recursive: true });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await expect(tracker.flush()).resolves.toBe(7);
+      expect(tracker.bytes("workspace")).toBe(0);
+    } finally {
+      tracker.close();
+    }
+  });
+});
+
+describe("tenant workspace quota", () => {
+  let dir: string;
+  let env: NodeJS.ProcessEnv;
+  let previousEnv: NodeJS.ProcessEnv;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-workspace-quota-"));
+    previousEnv = { ...process.env };
+    env = { ...process.env, OPENCLAW_STATE_DIR: path.join(dir, "state") };
+    // Fake delegated cgroup so sandboxes can be frozen
+    const cgroupRoot = path.join(dir, "cgroup");
+    fs.mkdirSync(cgroupRoot);
+    fs.writeFileSync(path.join(cgroupRoot, "cgroup.controllers"), "cpu memory pids\n");
+    fs.writeFileSync(path.join(cgroupRoot, "cgroup.subtree_control"), "");
+    process.env.OPENCLAW_SANDBOX_CGROUP_ROOT = cgroupRoot;
+    resetCgroupDelegateCache();
+    await createTenant("demo", undefined, env);
+    await updateTenant("demo", { quotas: { maxSandboxDiskMB: 1 } }, env);
+  });
+
+  afterEach(async () => {
+    await releaseSandboxCgroup("quota-1");
+    process.env = previousEnv;
+    resetCgroupDelegateCache();
+    resetTenantWorkspaceQuotasForTest();
+    closeTenantDiskUsageTrackers();
+    closeTenantRegistryStores();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("freezes growing sandboxes and refuses file writes while over quota", async () => {
+    const workspace = resolveTenantWorkspace("demo", env);
+    fs.mkdirSync(workspace, { recursive: true });
+    fs.writeFileSync(path.join(workspace, "small.bin"), Buffer.alloc(MB / 2));
+    await expect(checkTenantWorkspaceQuota({ tenantId: "demo", cfg, env })).resolves.toMatchObject({
+      backend: "poll",
+      limitBytes: MB,
+      usedBytes: MB / 2,
+      exceeded: false,
+      frozen: false,
+    });
+
+    const cgroup = await openSandboxCgroup({ scopeName: "quota-1", tenantId: "demo", limits: {} });
+    fs.writeFileSync(path.join(workspace, "big.bin"), Buffer.alloc(MB));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await expect(checkTenantWorkspaceQuota({ tenantId: "demo", cfg, env })).resolves.toMatchObject({
+      exceeded: true,
+      frozen: true,
+    });
+    expect(fs.readFileSync(path.join(cgroup!, "cgroup.freeze"), "utf8")).toBe("1");
+
+    const message = resolveTenantWorkspaceWriteBlock({
+      toolName: "write",
+      sessionKey: SESSION_KEY,
+    });
+    expect(message).toBe(
+      "ENOSPC: no space left in the workspace (tenant demo uses 1.5 MB of its 1.0 MB sandbox disk quota); delete files from the workspace to free space",
+    );
+    expect(resolveTenantWorkspaceWriteBlock({ toolName: "read", sessionKey: SESSION_KEY })).toBe(
+      null,
+    );
+    expect(
+      resolveTenantWorkspaceWriteBlock({ toolName: "write", sessionKey: "agent:main:main" }),
+    ).toBe(null);
+    await expect(
+      runBeforeToolCallHook({ toolName: "edit", params: {}, ctx: { sessionKey: SESSION_KEY } }),
+    ).resolves.toEqual({ blocked: true, reason: message });
+
+    fs.rmSync(path.join(workspace, "big.bin"));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await expect(checkTenantWorkspaceQuota({ tenantId: "demo", cfg, env })).resolves.toMatchObject({
+      exceeded: false,
+      frozen: false,
+    });
+    expect(fs.readFileSync(path.join(cgroup!, "cgroup.freeze"), "utf8")).toBe("0");
+    expect(resolveTenantWorkspaceWriteBlock({ toolName: "write", sessionKey: SESSION_KEY })).toBe(
+      null,
+    );
+  });
+
+  it("drops the state when the quota is removed", async () => {
+    await expect(checkTenantWorkspaceQuota({ tenantId: "demo", cfg, env })).resolves.toMatchObject({
+      usedBytes: 0,
+    });
+    await updateTenant("demo", { quotas: {} }, env);
+    await expect(checkTenantWorkspaceQuota({ tenantId: "demo", cfg, env })).resolves.toBe(null);
+  });
+});
@@ -0,0 +1,509 @@
+/**
+ * Enforced sandbox disk quotas for tenant workspaces.
+ * OPENCLAWMU ADDITION: `quotas.maxSandboxDiskMB` as a hard limit on the workspace.
+ *
+ * Backends (`gateway.sandbox.diskQuota.backend`, "auto" picks the first that works):
+ * - project: a filesystem project quota on the workspace directory (root, XFS or ext4
+ *   mounted with prjquota). Writes past the limit fail with ENOSPC in the kernel.
+ * - loop: the workspace moves into a loop-mounted ext4 image of the quota size (root,
+ *   mkfs.ext4). Writes past the limit fail with ENOSPC; raising the quota grows the image.
+ *   The image lives in the root-owned tenant private dir: an image the tenant could have
+ *   modified (a crafted filesystem) is never mounted.
+ * - poll: no kernel enforcement.
+ *
+ * The usage check runs for every backend (a lowered quota cannot shrink a loop image) and
+ * also counts the tenant's workspace snapshots, kept in the private dir: a tenant
+ * over its quota whose usage is still growing has its running sandboxes frozen
+ * until usage drops, and its agents' file-writing tools fail with an ENOSPC error.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import type { GatewaySandboxDiskQuotaConfig } from "../config/types.gateway.js";
+import type { TenantEntry, TenantId } from "./types.js";
+import { freezeTenantSandboxes } from "../agents/sandbox/bwrap.js";
+import { runCommandWithTimeout } from "../process/exec.js";
+import {
+  closeTenantDiskUsageTracker,
+  getTenantDiskUsageTracker,
+  getTenantSnapshotUsageTracker,
+} from "./disk-usage.js";
+import {
+  resolveTenantSandboxDir,
+  resolveTenantWorkspace,
+  resolveTenantWorkspaceImagePath,
+} from "./paths.js";
+import { getTenant, listTenants } from "./registry.js";
+
+export type WorkspaceQuotaBackend = "project" | "loop" | "poll";
+
+export const DEFAULT_DISK_QUOTA_CHECK_INTERVAL_SECONDS = 30;
+
+const COMMAND_TIMEOUT_MS = 2 * 60 * 1000;
+/** Agent tools that write workspace files. */
+const WRITE_TOOLS = new Set(["write", "edit", "apply_patch"]);
+
+export type TenantWorkspaceQuotaStatus = {
+  tenantId: TenantId;
+  backend: WorkspaceQuotaBackend;
+  limitBytes: number;
+  /** Workspace plus snapshot bytes. */
+  usedBytes: number;
+  /** Share of `usedBytes` taken by workspace snapshots. */
+  snapshotBytes: number;
+  exceeded: boolean;
+  /** Whether the tenant's running sandboxes are frozen. */
+  frozen: boolean;
+  /** Why a kernel backend could not be applied (the check falls back to polling). */
+  backendError?: string;
+  checkedAt: number;
+};
+
+type AppliedQuota = {
+  backend: WorkspaceQuotaBackend;
+  limitBytes: number;
+  error?: string;
+};
+
+type MountEntry = {
+  mountPoint: string;
+  options: string[];
+  fsType: string;
+  source: string;
+};
+
+const applied = new Map<TenantId, AppliedQuota>();
+const statuses = new Map<TenantId, TenantWorkspaceQuotaStatus>();
+
+/** Formats a byte count for quota messages. */
+export function formatQuotaMB(bytes: number): string {
+  const mb = bytes / (1024 * 1024);
+  return `${mb >= 10 ? Math.round(mb) : mb.toFixed(1)} MB`;
+}
+
+/** The error file-writing tools fail with while a tenant is over quota. */
+export function formatWorkspaceQuotaMessage(params: {
+  tenantId: TenantId;
+  usedBytes: number;
+  limitBytes: number;
+}): string {
+  return (
+    `ENOSPC: no space left in the workspace (tenant ${params.tenantId} uses ` +
+    `${formatQuotaMB(params.usedBytes)} of its ${formatQuotaMB(params.limitBytes)} sandbox disk quota); ` +
+    "delete files from the workspace to free space"
+  );
+}
+
+/**
+ * Returns the workspace size limit in bytes, or null when the tenant has none.
+ */
+export function resolveTenantWorkspaceLimitBytes(
+  entry: Pick<TenantEntry, "quotas"> | null | undefined,
+): number | null {
+  const limitMB = entry?.quotas?.maxSandboxDiskMB;
+  return limitMB !== undefined && limitMB > 0 ? Math.floor(limitMB * 1024 * 1024) : null;
+}
+
+// ============================================================================
+// Kernel backends
+// ============================================================================
+
+async function run(argv: string[]): Promise<void> {
+  const result = await runCommandWithTimeout(argv, { timeoutMs: COMMAND_TIMEOUT_MS });
+  if (result.code !== 0) {
+    const detail = (result.stderr || result.stdout).trim() || `exit code ${String(result.code)}`;
+    throw new Error(`${argv[0]} failed: ${detail}`);
+  }
+}
+
+/** Decodes the octal escapes mountinfo uses for spaces and other special characters. */
+function decodeMountField(value: string): string {
+  return value.replace(/\\([0-7]{3})/g, (_match, code: string) =>
+    String.fromCharCode(parseInt(code, 8)),
+  );
+}
+
+/**
+ * Finds the mount holding `target` (longest mount point prefix in mountinfo).
+ */
+async function findMount(target: string): Promise<MountEntry | null> {
+  const mountinfo = await fs.readFile("/proc/self/mountinfo", "utf8").catch(() => "");
+  let best: MountEntry | null = null;
+  for (const line of mountinfo.split("\n")) {
+    // Fields: id parent major:minor root mountpoint options ... - fstype source superoptions
+    const fields = line.split(" ");
+    const separator = fields.indexOf("-");
+    if (separator < 6) {
+      continue;
+    }
+    const mountPoint = decodeMountField(fields[4] ?? "");
+    const inside =
+      target === mountPoint || mountPoint === "/" || target.startsWith(`${mountPoint}${path.sep}`);
+    if (!inside || (best && best.mountPoint.length > mountPoint.length)) {
+      continue;
+    }
+    best = {
+      mountPoint,
+      options: [
+        ...(fields[5] ?? "").split(","),
+        ...(fields[separator + 3] ?? "").split(","),
+      ].filter(Boolean),
+      fsType: fields[separator + 1] ?? "",
+      source: decodeMountField(fields[separator + 2] ?? ""),
+    };
+  }
+  return best;
+}
+
+function isRoot(): boolean {
+  return process.getuid?.() === 0;
+}
+
+function supportsProjectQuota(mount: MountEntry): boolean {
+  return (
+    (mount.fsType === "xfs" || mount.fsType === "ext4") &&
+    mount.options.some((option) => option === "prjquota" || option === "pquota")
+  );
+}
+
+/** Stable project id per tenant, clear of the low ids admins assign by hand. */
+function resolveProjectId(tenantId: TenantId): number {
+  return 100_000 + (crypto.createHash("sha256").update(tenantId).digest().readUInt32BE(0) % 1e9);
+}
+
+async function applyProjectQuota(params: {
+  tenantId: TenantId;
+  workspaceDir: string;
+  limitBytes: number;
+  mount: MountEntry;
+}): Promise<void> {
+  const id = String(resolveProjectId(params.tenantId));
+  const limitKB = Math.ceil(params.limitBytes / 1024);
+  if (params.mount.fsType === "xfs") {
+    await run([
+      "xfs_quota",
+      "-x",
+      "-c",
+      `project -s -p ${params.workspaceDir} ${id}`,
+      params.mount.mountPoint,
+    ]);
+    await run([
+      "xfs_quota",
+      "-x",
+      "-c",
+      `limit -p bhard=${limitKB}k ${id}`,
+      params.mount.mountPoint,
+    ]);
+    return;
+  }
+  // ext4: tag the tree with the project id and inherit it for new files
+  await run(["chattr", "-R", "+P", "-p", id, params.workspaceDir]);
+  await run(["setquota", "-P", id, "0", String(limitKB), "0", "0", params.mount.mountPoint]);
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  return fs.stat(target).then(
+    () => true,
+    () => false,
+  );
+}
+
+/**
+ * Creates the directory holding a loop image and checks that only root can write to it,
+ * so the image cannot have been replaced or modified by a tenant.
+ */
+async function ensurePrivateImageDir(imagePath: string): Promise<void> {
+  const dir = path.dirname(imagePath);
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+  const stat = await fs.lstat(dir);
+  if (!stat.isDirectory() || stat.uid !== 0 || (stat.mode & 0o022) !== 0) {
+    throw new Error(`${dir} must be a directory only root can write to`);
+  }
+  const image = await fs.lstat(imagePath).catch(() => null);
+  if (image && (!image.isFile() || image.uid !== 0 || image.nlink !== 1)) {
+    throw new Error(`${imagePath} is not a regular file owned by root`);
+  }
+}
+
+/**
+ * Moves the workspace into a loop-mounted ext4 image of the quota size, or grows the
+ * mounted image when the quota was raised.
+ */
+async function applyLoopQuota(params: {
+  workspaceDir: string;
+  imagePath: string;
+  /** Where older versions kept the image: inside the tenant-writable state dir. */
+  legacyImagePath: string;
+  limitBytes: number;
+  mount: MountEntry | null;
+}): Promise<void> {
+  const { workspaceDir, imagePath, limitBytes } = params;
+  if (await pathExists(params.legacyImagePath)) {
+    throw new Error(
+      `${params.legacyImagePath} is tenant-writable and will not be mounted or grown; ` +
+        `check it with e2fsck and move it to ${imagePath}, or remove it`,
+    );
+  }
+  await ensurePrivateImageDir(imagePath);
+  if (params.mount?.mountPoint === workspaceDir) {
+    const size = (await fs.stat(imagePath)).size;
+    if (limitBytes > size) {
+      await fs.truncate(imagePath, limitBytes);
+      await run(["losetup", "-c", params.mount.source]);
+      await run(["resize2fs", params.mount.source]);
+    }
+    return;
+  }
+  if (await pathExists(imagePath)) {
+    // Image from an earlier run: mount it again (the grow happens on the next check)
+    if ((await fs.readdir(workspaceDir).catch(() => [])).length > 0) {
+      throw new Error(
+        `workspace has files outside its quota image ${imagePath}; move them into the image or remove it`,
+      );
+    }
+    await fs.mkdir(workspaceDir, { recursive: true });
+    await run(["mount", "-o", "loop,nosuid,nodev", imagePath, workspaceDir]);
+    return;
+  }
+
+  // The existing files are copied into the new filesystem by mkfs -d
+  const staging = `${workspaceDir}.pre-quota`;
+  await fs.mkdir(workspaceDir, { recursive: true });
+  const owner = await fs.stat(workspaceDir);
+  await fs.rename(workspaceDir, staging);
+  await fs.mkdir(workspaceDir);
+  try {
+    const image = await fs.open(imagePath, "wx", 0o600);
+    await image.truncate(limitBytes);
+    await image.close();
+    await run([
+      "mkfs.ext4",
+      "-q",
+      "-F",
+      "-m",
+      "0",
+      "-E",
+      `root_owner=${owner.uid}:${owner.gid}`,
+      "-d",
+      staging,
+      imagePath,
+    ]);
+    await run(["mount", "-o", "loop,nosuid,nodev", imagePath, workspaceDir]);
+  } catch (err) {
+    await fs.rm(imagePath, { force: true });
+    await fs.rmdir(workspaceDir).catch(() => {});
+    await fs.rename(staging, workspaceDir);
+    throw err;
+  }
+  await fs.rm(staging, { recursive: true, force: true });
+}
+
+async function applyWorkspaceQuota(params: {
+  tenantId: TenantId;
+  limitBytes: number;
+  backend: NonNullable<GatewaySandboxDiskQuotaConfig["backend"]>;
+  env: NodeJS.ProcessEnv;
+}): Promise<AppliedQuota> {
+  const { tenantId, limitBytes, backend, env } = params;
+  if (backend === "poll") {
+    return { backend: "poll", limitBytes };
+  }
+  if (!isRoot()) {
+    // Expected for unprivileged gateways; only an explicit backend is worth reporting
+    return {
+      backend: "poll",
+      limitBytes,
+      error: backend === "auto" ? undefined : `${backend} quotas require root`,
+    };
+  }
+  const workspaceDir = resolveTenantWorkspace(tenantId, env);
+  const imagePath = resolveTenantWorkspaceImagePath(tenantId, env);
+  await fs.mkdir(workspaceDir, { recursive: true });
+  const mount = await findMount(workspaceDir);
+  const loopMounted = mount?.mountPoint === workspaceDir && (await pathExists(imagePath));
+
+  const errors: string[] = [];
+  const candidates: WorkspaceQuotaBackend[] =
+    backend === "auto" ? (loopMounted ? ["loop"] : ["project", "loop"]) : [backend];
+  for (const candidate of candidates) {
+    try {
+      if (candidate === "project") {
+        if (!mount || !supportsProjectQuota(mount)) {
+          throw new Error(
+            `${mount?.mountPoint ?? workspaceDir} is not an XFS/ext4 filesystem mounted with prjquota`,
+          );
+        }
+        await applyProjectQuota({ tenantId, workspaceDir, limitBytes, mount });
+      } else {
+        await applyLoopQuota({
+          workspaceDir,
+          imagePath,
+          legacyImagePath: path.join(resolveTenantSandboxDir(tenantId, env), "workspace.img"),
+          limitBytes,
+          mount,
+        });
+      }
+      return { backend: candidate, limitBytes };
+    } catch (err) {
+      errors.push(`${candidate}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return { backend: "poll", limitBytes, error: errors.join("; ") };
+}
+
+// ============================================================================
+// Usage check
+// ============================================================================
+
+/**
+ * Measures the bytes a tenant's quota covers: the workspace and its snapshots.
+ */
+export async function measureTenantWorkspaceUsage(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<{ usedBytes: number; snapshotBytes: number }> {
+  const tracker = getTenantDiskUsageTracker(tenantId, env);
+  await tracker.flush();
+  const snapshotBytes = await getTenantSnapshotUsageTracker(tenantId, env).flush();
+  return { usedBytes: tracker.bytes("workspace") + snapshotBytes, snapshotBytes };
+}
+
+/**
+ * Applies a tenant's workspace quota (once per limit) and checks its usage: running
+ * sandboxes are frozen while the tenant is over quota and still writing, and thawed
+ * once usage is back under the limit.
+ */
+export async function checkTenantWorkspaceQuota(params: {
+  tenantId: TenantId;
+  entry?: Pick<TenantEntry, "quotas"> | null;
+  cfg?: OpenClawConfig;
+  env?: NodeJS.ProcessEnv;
+}): Promise<TenantWorkspaceQuotaStatus | null> {
+  const { tenantId } = params;
+  const env = params.env ?? process.env;
+  const entry = params.entry === undefined ? getTenant(tenantId, env) : params.entry;
+  const limitBytes = resolveTenantWorkspaceLimitBytes(entry);
+  const previous = statuses.get(tenantId);
+  if (limitBytes === null) {
+    if (previous?.frozen) {
+      freezeTenantSandboxes(tenantId, false);
+    }
+    statuses.delete(tenantId);
+    applied.delete(tenantId);
+    return null;
+  }
+
+  let quota = applied.get(tenantId);
+  if (!quota || quota.limitBytes !== limitBytes) {
+    quota = await applyWorkspaceQuota({
+      tenantId,
+      limitBytes,
+      backend: params.cfg?.gateway?.sandbox?.diskQuota?.backend ?? "auto",
+      env,
+    });
+    applied.set(tenantId, quota);
+  }
+
+  const { usedBytes, snapshotBytes } = await measureTenantWorkspaceUsage(tenantId, env);
+  const exceeded = usedBytes >= limitBytes;
+  let frozen = previous?.frozen ?? false;
+  if (exceeded && !frozen && usedBytes > (previous?.usedBytes ?? 0)) {
+    freezeTenantSandboxes(tenantId, true);
+    frozen = true;
+  } else if (!exceeded && frozen) {
+    freezeTenantSandboxes(tenantId, false);
+    frozen = false;
+  }
+
+  const status: TenantWorkspaceQuotaStatus = {
+    tenantId,
+    backend: quota.backend,
+    limitBytes,
+    usedBytes,
+    snapshotBytes,
+    exceeded,
+    frozen,
+    backendError: quota.error,
+    checkedAt: Date.now(),
+  };
+  statuses.set(tenantId, status);
+  return status;
+}
+
+/**
+ * Checks every tenant with a sandbox disk quota.
+ */
+export async function checkTenantWorkspaceQuotas(
+  params: { cfg?: OpenClawConfig; env?: NodeJS.ProcessEnv } = {},
+): Promise<TenantWorkspaceQuotaStatus[]> {
+  const env = params.env ?? process.env;
+  const results: TenantWorkspaceQuotaStatus[] = [];
+  const tenantIds = new Set([...listTenants(env), ...statuses.keys()]);
+  for (const tenantId of tenantIds) {
+    const status = await checkTenantWorkspaceQuota({ tenantId, cfg: params.cfg, env });
+    if (status) {
+      results.push(status);
+    }
+  }
+  return results;
+}
+
+/**
+ * Returns the last quota check for a tenant, if it has a quota.
+ */
+export function getTenantWorkspaceQuotaStatus(
+  tenantId: TenantId,
+): TenantWorkspaceQuotaStatus | null {
+  return statuses.get(tenantId) ?? null;
+}
+
+/**
+ * Returns the ENOSPC message for a file-writing tool call in a tenant session over its
+ * workspace quota, or null when the call may proceed.
+ */
+export function resolveTenantWorkspaceWriteBlock(params: {
+  toolName: string;
+  sessionKey?: string;
+}): string | null {
+  if (!WRITE_TOOLS.has(params.toolName)) {
+    return null;
+  }
+  const key = (params.sessionKey ?? "").trim().toLowerCase();
+  if (!key.startsWith("tenant:")) {
+    return null;
+  }
+  const status = statuses.get(key.split(":")[1] ?? "");
+  return status?.exceeded ? formatWorkspaceQuotaMessage(status) : null;
+}
+
+/**
+ * Drops a tenant's quota state before its data is deleted: thaws its sandboxes,
+ * unmounts a loop-backed workspace and stops disk accounting.
+ */
+export async function releaseTenantWorkspaceQuota(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<void> {
+  if (statuses.get(tenantId)?.frozen) {
+    freezeTenantSandboxes(tenantId, false);
+  }
+  statuses.delete(tenantId);
+  applied.delete(tenantId);
+  closeTenantDiskUsageTracker(tenantId, env);
+  const workspaceDir = resolveTenantWorkspace(tenantId, env);
+  const mount = await findMount(workspaceDir);
+  if (
+    mount?.mountPoint === workspaceDir &&
+    (await pathExists(resolveTenantWorkspaceImagePath(tenantId, env)))
+  ) {
+    await run(["umount", workspaceDir]);
+  }
+}
+
+/** Forgets applied quotas and check results (tests). */
+export function resetTenantWorkspaceQuotasForTest(): void {
+  applied.clear();
+  statuses.clear();
+}
@@ -0,0 +1,334 @@
+/**
+ * Workspace snapshot diff and restore.
+ * OPENCLAWMU ADDITION: compares snapshots and writes them back into tenant workspaces.
+ *
+ * The workspace is tenant-writable while a restore runs. Contents are staged under a
+ * random name in the snapshot store's own temp dir and renamed into place; parent
+ * directories are created without following symlinks and re-checked right before every
+ * rename or removal.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { TenantId } from "./types.js";
+import {
+  isRealPathInside,
+  openRegularFileNoFollow,
+  type ScannedEntry,
+  sha256File,
+  sha256FileHandle,
+} from "./archive.js";
+import { resolveTenantWorkspace, resolveTenantWorkspaceSnapshotsDir } from "./paths.js";
+import {
+  createObjectTempPath,
+  createSnapshotLocked,
+  HASH_RE,
+  objectPath,
+  RACY_MTIME_WINDOW_MS,
+  readManifest,
+  scanWorkspace,
+  type WorkspaceSnapshotEntry,
+  withSnapshotLock,
+} from "./workspace-snapshots.js";
+
+export type WorkspaceSnapshotDiff = {
+  /** Paths only in the newer side (the workspace, or the `against` snapshot). */
+  added: string[];
+  modified: string[];
+  /** Paths only in the snapshot. */
+  removed: string[];
+  unchanged: number;
+};
+
+export type WorkspaceSnapshotRestoreResult = {
+  id: string;
+  /** Files written back from the snapshot. */
+  restored: string[];
+  /** Files deleted because the snapshot does not have them. */
+  removed: string[];
+  unchanged: number;
+  /** Snapshot of the workspace as it was before the restore. */
+  previousId?: string;
+};
+
+/** Relative, "/"-separated and free of `..`: safe to join onto the workspace. */
+function isSafeRelativePath(rel: string): boolean {
+  return (
+    rel.length > 0 &&
+    !rel.startsWith("/") &&
+    !rel.includes("\\") &&
+    rel.split("/").every((part) => part !== "" && part !== "." && part !== "..")
+  );
+}
+
+function normalizeSnapshotPath(raw: string): string {
+  const rel = raw.trim().replaceAll("\\", "/").replace(/^\.\//, "").replace(/\/+$/, "");
+  if (!isSafeRelativePath(rel)) {
+    throw new Error(`invalid workspace path: ${raw}`);
+  }
+  return rel;
+}
+
+/** Whether a workspace file still matches its snapshot entry (size+mtime, else content). */
+async function matchesEntry(
+  workspaceDir: string,
+  rel: string,
+  current: ScannedEntry | undefined,
+  entry: WorkspaceSnapshotEntry,
+  takenAt: number,
+): Promise<boolean> {
+  if (!current) {
+    return false;
+  }
+  if ("link" in entry || current.kind === "link") {
+    return "link" in entry && current.kind === "link" && current.link === entry.link;
+  }
+  if (current.size !== entry.size) {
+    return false;
+  }
+  if (current.mtimeMs === entry.mtimeMs && entry.mtimeMs < takenAt - RACY_MTIME_WINDOW_MS) {
+    return true;
+  }
+  const file = await openRegularFileNoFollow(workspaceDir, rel);
+  if (!file) {
+    return false;
+  }
+  try {
+    return (await sha256FileHandle(file.handle)) === entry.hash;
+  } finally {
+    await file.handle.close();
+  }
+}
+
+function sameEntry(a: WorkspaceSnapshotEntry, b: WorkspaceSnapshotEntry): boolean {
+  if ("link" in a || "link" in b) {
+    return "link" in a && "link" in b && a.link === b.link;
+  }
+  return a.hash === b.hash;
+}
+
+/**
+ * Compares a snapshot with the current workspace, or with a later snapshot (`against`).
+ */
+export async function diffTenantWorkspaceSnapshot(params: {
+  tenantId: TenantId;
+  id: string;
+  against?: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<WorkspaceSnapshotDiff> {
+  const env = params.env ?? process.env;
+  const dir = resolveTenantWorkspaceSnapshotsDir(params.tenantId, env);
+  const base = await readManifest(dir, params.id);
+  const diff: WorkspaceSnapshotDiff = { added: [], modified: [], removed: [], unchanged: 0 };
+
+  if (params.against) {
+    const other = await readManifest(dir, params.against);
+    for (const [rel, entry] of Object.entries(other.files)) {
+      const earlier = base.files[rel];
+      if (!earlier) {
+        diff.added.push(rel);
+      } else if (sameEntry(earlier, entry)) {
+        diff.unchanged += 1;
+      } else {
+        diff.modified.push(rel);
+      }
+    }
+    diff.removed = Object.keys(base.files).filter((rel) => !Object.hasOwn(other.files, rel));
+  } else {
+    const workspaceDir = resolveTenantWorkspace(params.tenantId, env);
+    const current = await scanWorkspace(workspaceDir, base.exclude);
+    for (const [rel, entry] of Object.entries(base.files)) {
+      if (!current.has(rel)) {
+        diff.removed.push(rel);
+      } else if (await matchesEntry(workspaceDir, rel, current.get(rel), entry, base.createdAt)) {
+        diff.unchanged += 1;
+      } else {
+        diff.modified.push(rel);
+      }
+    }
+    diff.added = [...current.keys()].filter((rel) => !Object.hasOwn(base.files, rel));
+  }
+  diff.added.sort();
+  diff.modified.sort();
+  diff.removed.sort();
+  return diff;
+}
+
+/**
+ * Resolves a workspace path whose parent directory (symlinks resolved) is still inside
+ * the workspace. Called right before each write or removal.
+ */
+async function resolveCheckedPath(workspaceDir: string, rel: string): Promise<string> {
+  const target = path.join(workspaceDir, rel);
+  if (
+    !isSafeRelativePath(rel) ||
+    !(await isRealPathInside(workspaceDir, path.dirname(target)).catch(() => false))
+  ) {
+    throw new Error(`workspace snapshot path escapes the workspace: ${rel}`);
+  }
+  return target;
+}
+
+/** Creates the parent directories of `rel` one at a time, refusing symlinked ones. */
+async function ensureParentDirs(workspaceDir: string, rel: string): Promise<void> {
+  let current = workspaceDir;
+  for (const part of rel.split("/").slice(0, -1)) {
+    current = path.join(current, part);
+    const stat = await fs.lstat(current).catch(() => null);
+    if (stat?.isSymbolicLink()) {
+      throw new Error(`workspace snapshot path escapes the workspace: ${rel}`);
+    }
+    if (!stat) {
+      await fs.mkdir(current);
+    } else if (!stat.isDirectory()) {
+      throw new Error(`workspace snapshot path is blocked by a file: ${rel}`);
+    }
+  }
+}
+
+async function removeEntry(workspaceDir: string, rel: string, recursive = false): Promise<void> {
+  await fs.rm(await resolveCheckedPath(workspaceDir, rel), { recursive, force: true });
+}
+
+/** Creates `entry` at `dest`, which must not exist yet (O_EXCL never follows a symlink). */
+async function createEntryAt(
+  dest: string,
+  entry: WorkspaceSnapshotEntry,
+  source: string,
+): Promise<void> {
+  if ("link" in entry) {
+    await fs.symlink(entry.link, dest);
+    return;
+  }
+  const input = await fs.open(source, "r");
+  try {
+    const output = await fs.open(dest, "wx", 0o600);
+    try {
+      await sha256FileHandle(input, output);
+      await output.chmod(entry.mode || 0o644);
+      const mtime = new Date(entry.mtimeMs);
+      await output.utimes(mtime, mtime);
+    } finally {
+      await output.close();
+    }
+  } finally {
+    await input.close();
+  }
+}
+
+async function writeEntry(
+  dir: string,
+  workspaceDir: string,
+  rel: string,
+  entry: WorkspaceSnapshotEntry,
+): Promise<void> {
+  if (!isSafeRelativePath(rel)) {
+    throw new Error(`workspace snapshot path escapes the workspace: ${rel}`);
+  }
+  let source = "";
+  if ("hash" in entry) {
+    if (!HASH_RE.test(entry.hash)) {
+      throw new Error(`corrupt workspace snapshot entry: ${rel}`);
+    }
+    source = objectPath(dir, entry.hash);
+    if ((await sha256File(source).catch(() => null)) !== entry.hash) {
+      throw new Error(`workspace snapshot content is missing or corrupt: ${rel}`);
+    }
+  }
+  await ensureParentDirs(workspaceDir, rel);
+  const tmp = await createObjectTempPath(dir);
+  let sibling: string | undefined;
+  try {
+    await createEntryAt(tmp, entry, source);
+    const target = await resolveCheckedPath(workspaceDir, rel);
+    if ((await fs.lstat(target).catch(() => null))?.isDirectory()) {
+      await removeEntry(workspaceDir, rel, true);
+    }
+    try {
+      await fs.rename(tmp, await resolveCheckedPath(workspaceDir, rel));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EXDEV") {
+        throw err;
+      }
+      // A loop-mounted workspace is another filesystem: stage a random sibling instead
+      sibling = `${target}.openclaw-restore-${crypto.randomBytes(6).toString("hex")}`;
+      await createEntryAt(sibling, entry, source);
+      await fs.rename(sibling, await resolveCheckedPath(workspaceDir, rel));
+    }
+  } finally {
+    await fs.rm(tmp, { force: true });
+    if (sibling) {
+      await fs.rm(sibling, { force: true });
+    }
+  }
+}
+
+/**
+ * Puts the workspace (or only `paths` in it) back to a snapshot: changed and deleted
+ * files are written back, files the snapshot does not have are removed. Excluded paths
+ * are left alone. Unless `keepCurrent` is false the current state is snapshotted first;
+ * that snapshot is not held to the quota, so a tenant over its quota can still restore.
+ */
+export async function restoreTenantWorkspaceSnapshot(params: {
+  tenantId: TenantId;
+  id: string;
+  paths?: string[];
+  keepCurrent?: boolean;
+  env?: NodeJS.ProcessEnv;
+}): Promise<WorkspaceSnapshotRestoreResult> {
+  const env = params.env ?? process.env;
+  const dir = resolveTenantWorkspaceSnapshotsDir(params.tenantId, env);
+  const workspaceDir = resolveTenantWorkspace(params.tenantId, env);
+  const scope = params.paths?.map(normalizeSnapshotPath);
+  const inScope = (rel: string) =>
+    !scope ||
+    scope.length === 0 ||
+    scope.some((entry) => rel === entry || rel.startsWith(`${entry}/`));
+
+  return await withSnapshotLock(dir, async () => {
+    const manifest = await readManifest(dir, params.id);
+    let previousId: string | undefined;
+    if (params.keepCurrent !== false) {
+      const previous = await createSnapshotLocked({
+        tenantId: params.tenantId,
+        reason: "restore",
+        label: `before restoring ${params.id}`,
+        exclude: manifest.exclude,
+        env,
+        enforceQuota: false,
+      });
+      previousId = previous.id;
+    }
+
+    await fs.mkdir(workspaceDir, { recursive: true });
+    const current = await scanWorkspace(workspaceDir, manifest.exclude);
+    const result: WorkspaceSnapshotRestoreResult = {
+      id: params.id,
+      restored: [],
+      removed: [],
+      unchanged: 0,
+      previousId,
+    };
+    for (const rel of current.keys()) {
+      if (inScope(rel) && !Object.hasOwn(manifest.files, rel)) {
+        await removeEntry(workspaceDir, rel);
+        result.removed.push(rel);
+      }
+    }
+    for (const [rel, entry] of Object.entries(manifest.files)) {
+      if (!inScope(rel)) {
+        continue;
+      }
+      if (await matchesEntry(workspaceDir, rel, current.get(rel), entry, manifest.createdAt)) {
+        result.unchanged += 1;
+        continue;
+      }
+      await writeEntry(dir, workspaceDir, rel, entry);
+      result.restored.push(rel);
+    }
+    result.restored.sort();
+    result.removed.sort();
+    return result;
+  });
+}
@@ -0,0 +1,256 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { closeTenantDiskUsageTrackers } from "./disk-usage.js";
+import {
+  resolveTenantStateDir,
+  resolveTenantWorkspace,
+  resolveTenantWorkspaceSnapshotsDir,
+} from "./paths.js";
+import { closeTenantRegistryStores } from "./registry-store.js";
+import { createTenant, updateTenant } from "./registry.js";
+import { checkTenantWorkspaceQuota, resetTenantWorkspaceQuotasForTest } from "./workspace-quota.js";
+import {
+  diffTenantWorkspaceSnapshot,
+  restoreTenantWorkspaceSnapshot,
+} from "./workspace-snapshots-restore.js";
+import {
+  createTenantWorkspaceSnapshot,
+  deleteTenantWorkspaceSnapshot,
+  isUnattendedTenantRun,
+  listTenantWorkspaceSnapshots,
+  snapshotTenantWorkspaceBeforeRun,
+} from "./workspace-snapshots.js";
+
+const MB = 1024 * 1024;
+
+describe("tenant workspace snapshots", () => {
+  let dir: string;
+  let env: NodeJS.ProcessEnv;
+  let workspace: string;
+  let store: string;
+
+  const write = (rel: string, content: string | Buffer) => {
+    fs.mkdirSync(path.dirname(path.join(workspace, rel)), { recursive: true });
+    fs.writeFileSync(path.join(workspace, rel), content);
+  };
+  const read = (rel: string) => fs.readFileSync(path.join(workspace, rel), "utf8");
+  const countObjects = () =>
+    fs
+      .readdirSync(path.join(store, "objects"))
+      .filter((prefix) => prefix !== "tmp")
+      .flatMap((prefix) => fs.readdirSync(path.join(store, "objects", prefix))).length;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-workspace-snapshots-"));
+    env = { ...process.env, OPENCLAW_STATE_DIR: path.join(dir, "state") };
+    await createTenant("demo", undefined, env);
+    workspace = resolveTenantWorkspace("demo", env);
+    store = resolveTenantWorkspaceSnapshotsDir("demo", env);
+  });
+
+  afterEach(() => {
+    resetTenantWorkspaceQuotasForTest();
+    closeTenantDiskUsageTrackers();
+    closeTenantRegistryStores();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("stores each content once and diffs against the workspace or a later snapshot", async () => {
+    write("a.txt", "same");
+    write("docs/b.txt", "same");
+    write("notes.md", "v1");
+    write("node_modules/dep/index.js", "module.exports = 1;");
+    fs.symlinkSync("notes.md", path.join(workspace, "link.md"));
+
+    const first = await createTenantWorkspaceSnapshot({
+      tenantId: "demo",
+      label: "baseline",
+      exclude: ["node_modules"],
+      env,
+    });
+    expect(first).toMatchObject({ reason: "manual", label: "baseline", files: 4, bytes: 10 });
+    expect(countObjects()).toBe(2);
+
+    write("notes.md", "v2");
+    fs.rmSync(path.join(workspace, "a.txt"));
+    write("new.txt", "hello");
+    const second = await createTenantWorkspaceSnapshot({
+      tenantId: "demo",
+      exclude: ["node_modules"],
+      env,
+    });
+    expect(countObjects()).toBe(4);
+
+    const expected = { added: ["new.txt"], modified: ["notes.md"], removed: ["a.txt"] };
+    await expect(
+      diffTenantWorkspaceSnapshot({ tenantId: "demo", id: first.id, env }),
+    ).resolves.toEqual({ ...expected, unchanged: 2 });
+    await expect(
+      diffTenantWorkspaceSnapshot({ tenantId: "demo", id: first.id, against: second.id, env }),
+    ).resolves.toEqual({ ...expected, unchanged: 2 });
+
+    expect(
+      (await listTenantWorkspaceSnapshots("demo", env)).map((snapshot) => snapshot.id),
+    ).toEqual([second.id, first.id]);
+    await deleteTenantWorkspaceSnapshot({ tenantId: "demo", id: second.id, env });
+    expect(countObjects()).toBe(2);
+    await expect(
+      diffTenantWorkspaceSnapshot({ tenantId: "demo", id: second.id, env }),
+    ).rejects.toThrow(`unknown workspace snapshot: ${second.id}`);
+  });
+
+  it("restores the workspace or single paths and keeps the state it replaced", async () => {
+    write("src/main.ts", "good");
+    write("src/util.ts", "util");
+    write("README.md", "readme");
+    fs.chmodSync(path.join(workspace, "src/main.ts"), 0o755);
+    const good = await createTenantWorkspaceSnapshot({ tenantId: "demo", env });
+
+    write("src/main.ts", "trashed");
+    write("src/junk.ts", "junk");
+    fs.rmSync(path.join(workspace, "README.md"));
+
+    const partial = await restoreTenantWorkspaceSnapshot({
+      tenantId: "demo",
+      id: good.id,
+      paths: ["src"],
+      keepCurrent: false,
+      env,
+    });
+    expect(partial).toMatchObject({ restored: ["src/main.ts"], removed: ["src/junk.ts"] });
+    expect(partial.previousId).toBeUndefined();
+    expect(read("src/main.ts")).toBe("good");
+    expect(fs.statSync(path.join(workspace, "src/main.ts")).mode & 0o777).toBe(0o755);
+    expect(fs.existsSync(path.join(workspace, "README.md"))).toBe(false);
+
+    const full = await restoreTenantWorkspaceSnapshot({ tenantId: "demo", id: good.id, env });
+    expect(full).toMatchObject({ restored: ["README.md"], removed: [], unchanged: 2 });
+    expect(read("README.md")).toBe("readme");
+    await expect(
+      diffTenantWorkspaceSnapshot({ tenantId: "demo", id: full.previousId!, env }),
+    ).resolves.toMatchObject({ added: ["README.md"], modified: [], removed: [] });
+
+    await expect(
+      restoreTenantWorkspaceSnapshot({ tenantId: "demo", id: good.id, paths: ["../etc"], env }),
+    ).rejects.toThrow("invalid workspace path: ../etc");
+  });
+
+  it("refuses manifests pointing outside the workspace", async () => {
+    write("a.txt", "a");
+    const snapshot = await createTenantWorkspaceSnapshot({ tenantId: "demo", env });
+    const manifestFile = path.join(store, "manifests", `${snapshot.id}.json`);
+    const manifest = JSON.parse(fs.readFileSync(manifestFile, "utf8"));
+    manifest.files["../escaped.txt"] = manifest.files["a.txt"];
+    fs.writeFileSync(manifestFile, JSON.stringify(manifest));
+
+    await expect(
+      restoreTenantWorkspaceSnapshot({ tenantId: "demo", id: snapshot.id, env }),
+    ).rejects.toThrow("workspace snapshot path escapes the workspace: ../escaped.txt");
+    expect(fs.existsSync(path.join(workspace, "..", "escaped.txt"))).toBe(false);
+  });
+
+  it("never writes through symlinks planted in the workspace", async () => {
+    const outside = path.join(dir, "outside.txt");
+    fs.writeFileSync(outside, "host secret");
+    write("notes.md", "v1");
+    fs.symlinkSync(outside, path.join(workspace, "secret.md"));
+    const snapshot = await createTenantWorkspaceSnapshot({
+      tenantId: "demo",
+      exclude: ["*.openclaw-restore-*"],
+      env,
+    });
+    expect(snapshot.bytes).toBe(2);
+
+    // A link where a restore used to stage its temp file, and a parent swapped for a link
+    write("notes.md", "v2");
+    fs.symlinkSync(outside, path.join(workspace, `notes.md.openclaw-restore-${process.pid}`));
+    const restored = await restoreTenantWorkspaceSnapshot({
+      tenantId: "demo",
+      id: snapshot.id,
+      keepCurrent: false,
+      env,
+    });
+    expect(restored.restored).toEqual(["notes.md"]);
+    expect(read("notes.md")).toBe("v1");
+    expect(fs.readFileSync(outside, "utf8")).toBe("host secret");
+    expect(fs.readdirSync(path.join(store, "objects", "tmp"))).toEqual([]);
+
+    fs.mkdirSync(path.join(dir, "elsewhere"));
+    fs.symlinkSync(path.join(dir, "elsewhere"), path.join(workspace, "docs"));
+    const manifestFile = path.join(store, "manifests", `${snapshot.id}.json`);
+    const manifest = JSON.parse(fs.readFileSync(manifestFile, "utf8"));
+    manifest.exclude = ["docs"];
+    manifest.files["docs/a.md"] = manifest.files["notes.md"];
+    fs.writeFileSync(manifestFile, JSON.stringify(manifest));
+    await expect(
+      restoreTenantWorkspaceSnapshot({ tenantId: "demo", id: snapshot.id, env }),
+    ).rejects.toThrow("workspace snapshot path escapes the workspace: docs/a.md");
+    expect(fs.readdirSync(path.join(dir, "elsewhere"))).toEqual([]);
+  });
+
+  it("keeps the store where the tenant cannot plant links", async () => {
+    const tenantDir = resolveTenantStateDir("demo", env);
+    expect(store.startsWith(`${tenantDir}${path.sep}`)).toBe(false);
+    fs.mkdirSync(path.join(dir, "elsewhere"));
+    fs.mkdirSync(path.join(tenantDir, "sandboxes"), { recursive: true });
+    fs.symlinkSync(path.join(dir, "elsewhere"), path.join(tenantDir, "sandboxes", "snapshots"));
+    write("notes.md", "v1");
+
+    const snapshot = await createTenantWorkspaceSnapshot({ tenantId: "demo", env });
+    expect(fs.readdirSync(path.join(dir, "elsewhere"))).toEqual([]);
+    expect(fs.existsSync(path.join(store, "manifests", `${snapshot.id}.json`))).toBe(true);
+  });
+
+  it("counts snapshots against the sandbox disk quota", async () => {
+    await updateTenant("demo", { quotas: { maxSandboxDiskMB: 1 } }, env);
+    write("data.bin", Buffer.alloc(MB / 2 - 1024));
+    await createTenantWorkspaceSnapshot({ tenantId: "demo", env });
+    const cfg = { gateway: { sandbox: { diskQuota: { backend: "poll" } } } } as OpenClawConfig;
+    const status = await checkTenantWorkspaceQuota({ tenantId: "demo", cfg, env });
+    expect(status.exceeded).toBe(false);
+    // Snapshot bytes are the stored object plus its small manifest.
+    expect(status.snapshotBytes).toBeGreaterThan(MB / 2 - 1024);
+    expect(status.snapshotBytes).toBeLessThan(MB / 2);
+    expect(status.usedBytes).toBe(MB / 2 - 1024 + status.snapshotBytes);
+
+    write("data.bin", Buffer.alloc(MB / 2 - 1024, 1));
+    await expect(createTenantWorkspaceSnapshot({ tenantId: "demo", env })).rejects.toThrow(
+      "ENOSPC: the snapshot needs 0.5 MB but tenant demo uses 1.0 MB of its 1.0 MB sandbox disk quota",
+    );
+  });
+
+  it("takes automatic snapshots before unattended runs and prunes them", async () => {
+    expect(isUnattendedTenantRun("tenant:demo:agent:main:cron:nightly")).toBe(true);
+    expect(isUnattendedTenantRun("tenant:demo:agent:main:hook:github")).toBe(true);
+    expect(
+      isUnattendedTenantRun("tenant:demo:agent:main:main", "tenant:demo:agent:main:main"),
+    ).toBe(true);
+    expect(isUnattendedTenantRun("tenant:demo:agent:main:main")).toBe(false);
+    expect(isUnattendedTenantRun("agent:main:cron:nightly")).toBe(false);
+
+    write("a.txt", "a");
+    const cfg = {
+      agents: {
+        defaults: { sandbox: { snapshots: { auto: "risky", keep: 2 } } },
+        list: [{ id: "ops", sandbox: { snapshots: { auto: "always" } } }],
+      },
+    } as OpenClawConfig;
+    const run = (sessionKey: string) => snapshotTenantWorkspaceBeforeRun({ cfg, sessionKey, env });
+
+    await expect(run("tenant:demo:agent:main:main")).resolves.toBeNull();
+    await expect(run("agent:main:cron:nightly")).resolves.toBeNull();
+    const ops = await run("tenant:demo:agent:ops:main");
+    expect(ops).toMatchObject({ reason: "auto", agentId: "ops" });
+    const manual = await createTenantWorkspaceSnapshot({ tenantId: "demo", env });
+    await run("tenant:demo:agent:main:cron:nightly");
+    await run("tenant:demo:agent:main:cron:nightly");
+
+    const snapshots = await listTenantWorkspaceSnapshots("demo", env);
+    expect(snapshots).toHaveLength(3);
+    expect(snapshots.map((snapshot) => snapshot.id)).toContain(manual.id);
+    expect(snapshots.map((snapshot) => snapshot.id)).not.toContain(ops?.id);
+  });
+});
@@ -0,0 +1,496 @@
+/**
+ * Workspace snapshots for tenant sandboxes.
+ * OPENCLAWMU ADDITION: lightweight restore points for tenant workspaces.
+ *
+ * A snapshot is a manifest listing every workspace file with the sha256 of its content.
+ * Contents are stored once per hash under `objects/`, so files unchanged since an earlier
+ * snapshot cost nothing; files whose size and mtime match the newest snapshot reuse its
+ * hash instead of being read again. The store lives in the tenant's private dir, out of
+ * the sandbox's reach, and counts against its `maxSandboxDiskMB` quota.
+ *
+ * Snapshots are taken on demand (`manual`), before agent runs per
+ * `agents.*.sandbox.snapshots.auto` (`auto`) and before every restore (`restore`).
+ * Automatic and restore snapshots are pruned to `sandbox.snapshots.keep`; manual ones
+ * stay until deleted. Diff and restore live in workspace-snapshots-restore.ts.
+ *
+ * The workspace is tenant-writable, so workspace files are opened with O_NOFOLLOW and
+ * checked on the opened descriptor; temp files only ever go into the store's own dir.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import type { TenantId } from "./types.js";
+import { compileGlobPatterns, matchesAnyGlobPattern } from "../agents/glob-pattern.js";
+import { resolveSandboxSnapshotConfig } from "../agents/sandbox/config.js";
+import { isSubagentSessionKey, parseTenantSessionKey } from "../routing/session-key.js";
+import {
+  openRegularFileNoFollow,
+  type ScannedEntry,
+  scanDirectoryFiles,
+  sha256FileHandle,
+} from "./archive.js";
+import { resolveTenantWorkspace, resolveTenantWorkspaceSnapshotsDir } from "./paths.js";
+import { getTenant } from "./registry.js";
+import {
+  formatQuotaMB,
+  measureTenantWorkspaceUsage,
+  resolveTenantWorkspaceLimitBytes,
+} from "./workspace-quota.js";
+
+export type WorkspaceSnapshotReason = "manual" | "auto" | "restore";
+
+export type WorkspaceSnapshotEntry =
+  | { hash: string; size: number; mtimeMs: number; mode: number }
+  | { link: string };
+
+export type WorkspaceSnapshotManifest = {
+  version: 1;
+  id: string;
+  tenantId: TenantId;
+  createdAt: number;
+  reason: WorkspaceSnapshotReason;
+  label?: string;
+  agentId?: string;
+  sessionKey?: string;
+  /** Globs left out of the snapshot (and left alone when restoring it). */
+  exclude?: string[];
+  /** Workspace-relative, "/"-separated paths. */
+  files: Record<string, WorkspaceSnapshotEntry>;
+};
+
+export type WorkspaceSnapshotInfo = Omit<WorkspaceSnapshotManifest, "version" | "files"> & {
+  files: number;
+  /** Size of the files it captures (shared objects are counted once per snapshot). */
+  bytes: number;
+};
+
+const SNAPSHOT_ID_RE = /^\d{8}T\d{9}Z-[0-9a-f]{6}$/;
+export const HASH_RE = /^[0-9a-f]{64}$/;
+/**
+ * A file modified this close to a snapshot may have changed again within the same mtime
+ * tick, so its size and mtime do not prove it unchanged.
+ */
+export const RACY_MTIME_WINDOW_MS = 2000;
+
+const locks = new Map<string, Promise<unknown>>();
+
+export function isValidWorkspaceSnapshotId(id: string): boolean {
+  return SNAPSHOT_ID_RE.test(id);
+}
+
+function createSnapshotId(now: number): string {
+  const stamp = new Date(now).toISOString().replace(/[-:.]/g, "");
+  return `${stamp}-${crypto.randomBytes(3).toString("hex")}`;
+}
+
+/** Serializes snapshot writes per store (create, restore, delete, prune). */
+export async function withSnapshotLock<T>(dir: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(dir) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  const settled = next.catch(() => {});
+  locks.set(dir, settled);
+  try {
+    return await next;
+  } finally {
+    if (locks.get(dir) === settled) {
+      locks.delete(dir);
+    }
+  }
+}
+
+export function objectPath(dir: string, hash: string): string {
+  return path.join(dir, "objects", hash.slice(0, 2), hash);
+}
+
+function manifestPath(dir: string, id: string): string {
+  return path.join(dir, "manifests", `${id}.json`);
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  return fs.lstat(target).then(
+    () => true,
+    () => false,
+  );
+}
+
+export async function scanWorkspace(
+  workspaceDir: string,
+  exclude: string[] | undefined,
+): Promise<Map<string, ScannedEntry>> {
+  const patterns = compileGlobPatterns({
+    raw: exclude,
+    normalize: (value) => value.trim().replaceAll("\\", "/").replace(/^\.\//, ""),
+  });
+  return await scanDirectoryFiles(
+    workspaceDir,
+    patterns.length > 0 ? (rel) => matchesAnyGlobPattern(rel, patterns) : undefined,
+  );
+}
+
+function toInfo(manifest: WorkspaceSnapshotManifest): WorkspaceSnapshotInfo {
+  const { version: _version, files, ...rest } = manifest;
+  let bytes = 0;
+  for (const entry of Object.values(files)) {
+    bytes += "hash" in entry ? entry.size : 0;
+  }
+  return { ...rest, files: Object.keys(files).length, bytes };
+}
+
+export async function readManifest(dir: string, id: string): Promise<WorkspaceSnapshotManifest> {
+  if (!isValidWorkspaceSnapshotId(id)) {
+    throw new Error(`invalid workspace snapshot id: ${id}`);
+  }
+  let raw: string;
+  try {
+    raw = await fs.readFile(manifestPath(dir, id), "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`unknown workspace snapshot: ${id}`, { cause: err });
+    }
+    throw err;
+  }
+  const manifest = JSON.parse(raw) as WorkspaceSnapshotManifest;
+  if (manifest?.version !== 1 || manifest.id !== id || typeof manifest.files !== "object") {
+    throw new Error(`unreadable workspace snapshot: ${id}`);
+  }
+  return manifest;
+}
+
+/** Reads every manifest, newest first; unreadable ones are skipped. */
+async function readManifests(dir: string): Promise<WorkspaceSnapshotManifest[]> {
+  const names = await fs.readdir(path.join(dir, "manifests")).catch(() => []);
+  const manifests: WorkspaceSnapshotManifest[] = [];
+  for (const name of names) {
+    const id = name.endsWith(".json") ? name.slice(0, -".json".length) : "";
+    const manifest = isValidWorkspaceSnapshotId(id)
+      ? await readManifest(dir, id).catch(() => null)
+      : null;
+    if (manifest) {
+      manifests.push(manifest);
+    }
+  }
+  return manifests.toSorted((a, b) => b.createdAt - a.createdAt || b.id.localeCompare(a.id));
+}
+
+async function writeJsonAtomic(target: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(target), { recursive: true, mode: 0o700 });
+  const tmp = `${target}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value), { flag: "wx", mode: 0o600 });
+  try {
+    await fs.rename(tmp, target);
+  } catch (err) {
+    await fs.rm(tmp, { force: true });
+    throw err;
+  }
+}
+
+/** A fresh, randomly named path in the store's temp dir (cleared by garbage collection). */
+export async function createObjectTempPath(dir: string): Promise<string> {
+  const tmpDir = path.join(dir, "objects", "tmp");
+  await fs.mkdir(tmpDir, { recursive: true });
+  return path.join(tmpDir, `${process.pid}-${crypto.randomBytes(6).toString("hex")}`);
+}
+
+/**
+ * Copies a workspace file into the object store and returns the hash of what was copied
+ * (the file may have changed since it was hashed), or null when it is no longer a
+ * regular file.
+ */
+async function storeObject(dir: string, workspaceDir: string, rel: string): Promise<string | null> {
+  const source = await openRegularFileNoFollow(workspaceDir, rel);
+  if (!source) {
+    return null;
+  }
+  const tmp = await createObjectTempPath(dir);
+  try {
+    const out = await fs.open(tmp, "wx", 0o600);
+    let hash: string;
+    try {
+      hash = await sha256FileHandle(source.handle, out);
+    } finally {
+      await out.close();
+    }
+    const target = objectPath(dir, hash);
+    if (await pathExists(target)) {
+      return hash;
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.chmod(tmp, 0o400);
+    await fs.rename(tmp, target);
+    return hash;
+  } finally {
+    await source.handle.close();
+    await fs.rm(tmp, { force: true });
+  }
+}
+
+/** Drops objects no manifest references any more. */
+async function collectGarbage(dir: string): Promise<void> {
+  const referenced = new Set<string>();
+  for (const manifest of await readManifests(dir)) {
+    for (const entry of Object.values(manifest.files)) {
+      if ("hash" in entry) {
+        referenced.add(entry.hash);
+      }
+    }
+  }
+  const objectsDir = path.join(dir, "objects");
+  for (const prefix of await fs.readdir(objectsDir).catch(() => [])) {
+    const prefixDir = path.join(objectsDir, prefix);
+    if (prefix === "tmp") {
+      await fs.rm(prefixDir, { recursive: true, force: true });
+      continue;
+    }
+    for (const name of await fs.readdir(prefixDir).catch(() => [])) {
+      if (!referenced.has(name)) {
+        await fs.rm(path.join(prefixDir, name), { force: true });
+      }
+    }
+  }
+}
+
+type CreateSnapshotParams = {
+  tenantId: TenantId;
+  reason?: WorkspaceSnapshotReason;
+  label?: string;
+  agentId?: string;
+  sessionKey?: string;
+  exclude?: string[];
+  env?: NodeJS.ProcessEnv;
+};
+
+export async function createSnapshotLocked(
+  params: CreateSnapshotParams & { enforceQuota: boolean },
+): Promise<WorkspaceSnapshotManifest> {
+  const env = params.env ?? process.env;
+  const workspaceDir = resolveTenantWorkspace(params.tenantId, env);
+  const dir = resolveTenantWorkspaceSnapshotsDir(params.tenantId, env);
+  const createdAt = Date.now();
+  const previous = (await readManifests(dir))[0];
+  const exclude = params.exclude?.filter((entry) => entry.trim());
+  const scanned = await scanWorkspace(workspaceDir, exclude);
+
+  // First pass: hash what changed and find the contents the store does not have yet
+  const files: Record<string, WorkspaceSnapshotEntry> = {};
+  const missing = new Map<string, string[]>();
+  let missingBytes = 0;
+  for (const [rel, entry] of scanned) {
+    if (entry.kind === "link") {
+      files[rel] = { link: entry.link };
+      continue;
+    }
+    const earlier = previous?.files[rel];
+    if (
+      earlier &&
+      "hash" in earlier &&
+      earlier.size === entry.size &&
+      earlier.mtimeMs === entry.mtimeMs &&
+      earlier.mtimeMs < previous.createdAt - RACY_MTIME_WINDOW_MS &&
+      (await pathExists(objectPath(dir, earlier.hash)))
+    ) {
+      files[rel] = earlier;
+      continue;
+    }
+    const source = await openRegularFileNoFollow(workspaceDir, rel);
+    if (!source) {
+      continue;
+    }
+    const { stat } = source;
+    let hash: string;
+    try {
+      hash = await sha256FileHandle(source.handle);
+    } finally {
+      await source.handle.close();
+    }
+    files[rel] = {
+      hash,
+      size: stat.size,
+      mtimeMs: Math.trunc(stat.mtimeMs),
+      mode: stat.mode & 0o777,
+    };
+    if (await pathExists(objectPath(dir, hash))) {
+      continue;
+    }
+    const paths = missing.get(hash);
+    if (paths) {
+      paths.push(rel);
+    } else {
+      missing.set(hash, [rel]);
+      missingBytes += stat.size;
+    }
+  }
+
+  if (params.enforceQuota && missingBytes > 0) {
+    const limitBytes = resolveTenantWorkspaceLimitBytes(getTenant(params.tenantId, env));
+    if (limitBytes !== null) {
+      const { usedBytes } = await measureTenantWorkspaceUsage(params.tenantId, env);
+      if (usedBytes + missingBytes > limitBytes) {
+        throw new Error(
+          `ENOSPC: the snapshot needs ${formatQuotaMB(missingBytes)} but tenant ` +
+            `${params.tenantId} uses ${formatQuotaMB(usedBytes)} of its ` +
+            `${formatQuotaMB(limitBytes)} sandbox disk quota; delete workspace files or ` +
+            "snapshots to free space",
+        );
+      }
+    }
+  }
+
+  // Second pass: copy the missing contents in
+  for (const [hash, paths] of missing) {
+    let stored: string | null = null;
+    for (const rel of paths) {
+      stored = await storeObject(dir, workspaceDir, rel);
+      if (stored) {
+        break;
+      }
+    }
+    if (stored === hash) {
+      continue;
+    }
+    // Changed or gone while the snapshot was taken: record what was actually copied
+    for (const rel of paths) {
+      const entry = files[rel];
+      if (entry && "hash" in entry && stored) {
+        files[rel] = { ...entry, hash: stored };
+      } else if (entry && "hash" in entry) {
+        delete files[rel];
+      }
+    }
+  }
+
+  const manifest: WorkspaceSnapshotManifest = {
+    version: 1,
+    id: createSnapshotId(createdAt),
+    tenantId: params.tenantId,
+    createdAt,
+    reason: params.reason ?? "manual",
+    label: params.label?.trim() || undefined,
+    agentId: params.agentId,
+    sessionKey: params.sessionKey,
+    exclude: exclude && exclude.length > 0 ? exclude : undefined,
+    files,
+  };
+  await writeJsonAtomic(manifestPath(dir, manifest.id), manifest);
+  return manifest;
+}
+
+async function pruneLocked(dir: string, keep: number): Promise<string[]> {
+  const automatic = (await readManifests(dir)).filter((manifest) => manifest.reason !== "manual");
+  const pruned = automatic.slice(Math.max(0, keep)).map((manifest) => manifest.id);
+  for (const id of pruned) {
+    await fs.rm(manifestPath(dir, id), { force: true });
+  }
+  if (pruned.length > 0) {
+    await collectGarbage(dir);
+  }
+  return pruned;
+}
+
+/**
+ * Snapshots a tenant's workspace. Automatic snapshots are pruned to `keep` afterwards.
+ * @throws Error with an ENOSPC message when the new contents would exceed the quota
+ */
+export async function createTenantWorkspaceSnapshot(
+  params: CreateSnapshotParams & { keep?: number },
+): Promise<WorkspaceSnapshotInfo> {
+  const dir = resolveTenantWorkspaceSnapshotsDir(params.tenantId, params.env);
+  return await withSnapshotLock(dir, async () => {
+    const manifest = await createSnapshotLocked({ ...params, enforceQuota: true });
+    if (manifest.reason !== "manual" && params.keep !== undefined) {
+      await pruneLocked(dir, params.keep);
+    }
+    return toInfo(manifest);
+  });
+}
+
+/**
+ * Lists a tenant's workspace snapshots, newest first.
+ */
+export async function listTenantWorkspaceSnapshots(
+  tenantId: TenantId,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<WorkspaceSnapshotInfo[]> {
+  const manifests = await readManifests(resolveTenantWorkspaceSnapshotsDir(tenantId, env));
+  return manifests.map(toInfo);
+}
+
+/**
+ * Deletes a snapshot and the contents only it referenced.
+ */
+export async function deleteTenantWorkspaceSnapshot(params: {
+  tenantId: TenantId;
+  id: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<void> {
+  const dir = resolveTenantWorkspaceSnapshotsDir(params.tenantId, params.env);
+  await withSnapshotLock(dir, async () => {
+    await readManifest(dir, params.id);
+    await fs.rm(manifestPath(dir, params.id), { force: true });
+    await collectGarbage(dir);
+  });
+}
+
+/**
+ * Deletes automatic snapshots beyond the newest `keep`. Returns the deleted ids.
+ */
+export async function pruneTenantWorkspaceSnapshots(params: {
+  tenantId: TenantId;
+  keep: number;
+  env?: NodeJS.ProcessEnv;
+}): Promise<string[]> {
+  const dir = resolveTenantWorkspaceSnapshotsDir(params.tenantId, params.env);
+  return await withSnapshotLock(dir, () => pruneLocked(dir, params.keep));
+}
+
+/**
+ * Whether a tenant session runs without a human in the loop: cron jobs, hooks and
+ * sub-agents.
+ */
+export function isUnattendedTenantRun(sessionKey: string, spawnedBy?: string | null): boolean {
+  const parsed = parseTenantSessionKey(sessionKey);
+  if (!parsed) {
+    return false;
+  }
+  return (
+    Boolean(spawnedBy) ||
+    parsed.rest.startsWith("cron:") ||
+    parsed.rest.startsWith("hook:") ||
+    isSubagentSessionKey(parsed.agentKey)
+  );
+}
+
+/**
+ * Takes the automatic snapshot an agent's `sandbox.snapshots.auto` setting asks for
+ * before a tenant run. Returns null when none is due (non-tenant sessions included).
+ */
+export async function snapshotTenantWorkspaceBeforeRun(params: {
+  cfg?: OpenClawConfig;
+  sessionKey?: string;
+  agentId?: string;
+  spawnedBy?: string | null;
+  env?: NodeJS.ProcessEnv;
+}): Promise<WorkspaceSnapshotInfo | null> {
+  const parsed = parseTenantSessionKey(params.sessionKey ?? "");
+  if (!parsed) {
+    return null;
+  }
+  const agentId = params.agentId ?? parsed.agentId;
+  const settings = resolveSandboxSnapshotConfig(params.cfg, agentId);
+  if (
+    settings.auto === "off" ||
+    (settings.auto === "risky" && !isUnattendedTenantRun(params.sessionKey ?? "", params.spawnedBy))
+  ) {
+    return null;
+  }
+  return await createTenantWorkspaceSnapshot({
+    tenantId: parsed.tenantId,
+    reason: "auto",
+    agentId,
+    sessionKey: params.sessionKey,
+    exclude: settings.exclude,
+    keep: settings.keep,
+    env: params.env,
+  });
+}
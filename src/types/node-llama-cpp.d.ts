@@ -9,8 +9,16 @@ declare module "node-llama-cpp" {
     getEmbeddingFor: (text: string) => Promise<LlamaEmbedding>;
   };
 
+  // OPENCLAWMU ADDITION: ranking contexts for the memory cross-encoder reranker
+  export type LlamaRankingContext = {
+    rankAll: (query: string, documents: string[]) => Promise<number[]>;
+    dispose: () => Promise<void>;
+  };
+
   export type LlamaModel = {
     createEmbeddingContext: () => Promise<LlamaEmbeddingContext>;
+    createRankingContext: () => Promise<LlamaRankingContext>;
+    dispose: () => Promise<void>;
   };
 
   export type Llama = {
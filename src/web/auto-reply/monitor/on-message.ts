@@ -72,6 +72,8 @@ export function createWebOnMessageHandler(params: {
         kind: msg.chatType === "group" ? "group" : "direct",
         id: peerId,
       },
+      // OPENCLAWMU ADDITION: text/language binding conditions
+      text: msg.body,
     });
     const groupHistoryKey =
       msg.chatType === "group"
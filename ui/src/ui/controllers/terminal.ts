@@ -8,8 +8,32 @@ export type TerminalSession = {
   terminalId: string;
   tenantId: string;
   pid: number;
+  cols: number;
+  rows: number;
   createdAt: number;
   lastActivityAt: number;
+  /** Number of attached viewers (controller + observers). */
+  viewers: number;
+  /** Whether a viewer currently controls input. */
+  controlled: boolean;
+  /** When the last viewer detached (null while attached). */
+  detachedAt: number | null;
+  /** How the requesting connection is attached, if at all. */
+  attachedMode: "control" | "observe" | null;
+  /** Recording being written for this session, if recording is enabled. */
+  recordingId: string | null;
+};
+
+export type TerminalRecording = {
+  recordingId: string;
+  terminalId: string;
+  startedAt: number;
+  modifiedAt: number;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+  /** Still being written by a running terminal. */
+  active: boolean;
 };
 
 export type TerminalControllerState = {
@@ -88,6 +112,28 @@ export class TerminalController implements ReactiveController {
     }
   }
 
+  /**
+   * Lists terminal recordings for the current tenant.
+   */
+  async listRecordings(): Promise<TerminalRecording[]> {
+    const response = await this.callGateway("terminal.recordings.list", {});
+    return (response.recordings ?? []) as TerminalRecording[];
+  }
+
+  /**
+   * Fetches a recording's asciicast v2 content for playback.
+   */
+  async getRecording(recordingId: string): Promise<string> {
+    let content = "";
+    let offset: number | null = 0;
+    while (offset !== null) {
+      const response = await this.callGateway("terminal.recordings.get", { recordingId, offset });
+      content += typeof response.content === "string" ? response.content : "";
+      offset = typeof response.nextOffset === "number" ? response.nextOffset : null;
+    }
+    return content;
+  }
+
   /**
    * Calls a gateway method.
    */
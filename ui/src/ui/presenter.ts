@@ -57,9 +57,18 @@ export function formatCronSchedule(job: CronJob) {
     return Number.isFinite(atMs) ? `At ${formatMs(atMs)}` : `At ${s.at}`;
   }
   if (s.kind === "every") {
-    return `Every ${formatDurationHuman(s.everyMs)}`;
+    return `Every ${formatDurationHuman(s.everyMs)}${s.calendar ? " (calendar)" : ""}`;
   }
-  return `Cron ${s.expr}${s.tz ? ` (${s.tz})` : ""}`;
+  if (s.kind === "after") {
+    return `After ${s.jobId} (${(s.on ?? ["ok"]).join("|")})`;
+  }
+  if (s.kind === "webhook") {
+    return "Webhook";
+  }
+  if (s.kind === "watch") {
+    return `Watch ${s.path}`;
+  }
+  return `Cron ${s.expr}${s.tz ? ` (${s.tz})` : ""}${s.calendar ? " (calendar)" : ""}`;
 }
 
 export function formatCronPayload(job: CronJob) {
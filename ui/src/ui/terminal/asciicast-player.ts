@@ -0,0 +1,317 @@
+/**
+ * Asciicast v2 player web component.
+ * OPENCLAWMU ADDITION: playback of tenant terminal recordings.
+ *
+ * Replays the output ("o") and resize ("r") events of a recording into a
+ * read-only xterm.js instance. Input ("i") events are not echoed (the shell's
+ * output already shows them) but are counted in the header for auditing.
+ */
+
+import { FitAddon } from "@xterm/addon-fit";
+import { Terminal } from "@xterm/xterm";
+import { LitElement, html, css, type PropertyValues } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { xtermBaseStyles } from "./xterm-terminal.js";
+
+type CastEvent = [time: number, type: string, data: string];
+
+type ParsedCast = {
+  width: number;
+  height: number;
+  title?: string;
+  events: CastEvent[];
+  duration: number;
+  inputEvents: number;
+};
+
+/** Long pauses are shortened to this many seconds during playback. */
+const IDLE_CAP_SECONDS = 2;
+
+export function parseCast(content: string): ParsedCast | null {
+  const lines = content.split("\n");
+  let header: { version?: number; width?: number; height?: number; title?: string };
+  try {
+    header = JSON.parse(lines[0] ?? "");
+  } catch {
+    return null;
+  }
+  if (header?.version !== 2) {
+    return null;
+  }
+  const events: CastEvent[] = [];
+  let inputEvents = 0;
+  let offset = 0;
+  let last = 0;
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const event = JSON.parse(line) as CastEvent;
+      if (!Array.isArray(event) || typeof event[0] !== "number") {
+        continue;
+      }
+      if (event[1] === "i") {
+        inputEvents++;
+        continue;
+      }
+      // Compress idle gaps so long pauses don't stall playback
+      const gap = event[0] - last;
+      if (gap > IDLE_CAP_SECONDS) {
+        offset += gap - IDLE_CAP_SECONDS;
+      }
+      last = event[0];
+      events.push([event[0] - offset, event[1], String(event[2] ?? "")]);
+    } catch {
+      // truncated trailing line
+    }
+  }
+  return {
+    width: header.width ?? 80,
+    height: header.height ?? 24,
+    title: header.title,
+    events,
+    duration: events.length > 0 ? events[events.length - 1][0] : 0,
+    inputEvents,
+  };
+}
+
+function formatTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const m = Math.floor(total / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return `${m}:${s}`;
+}
+
+@customElement("asciicast-player")
+export class AsciicastPlayer extends LitElement {
+  static override styles = [
+    xtermBaseStyles,
+    css`
+      :host {
+        display: block;
+        width: 100%;
+        height: 100%;
+        background: #1e1e1e;
+        border-radius: 4px;
+        overflow: hidden;
+      }
+
+      .player-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 8px;
+        padding: 4px 8px;
+        background: #2d2d2d;
+        border-bottom: 1px solid #3d3d3d;
+        font-family: monospace;
+        font-size: 12px;
+        color: #ccc;
+      }
+
+      .player-actions {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+      }
+
+      .player-actions button,
+      .player-actions select {
+        padding: 2px 8px;
+        background: #3d3d3d;
+        border: 1px solid #4d4d4d;
+        border-radius: 3px;
+        color: #ccc;
+        font-size: 11px;
+        cursor: pointer;
+      }
+
+      .player-actions button:hover {
+        background: #4d4d4d;
+      }
+
+      .player-body {
+        width: 100%;
+        height: calc(100% - 32px);
+        padding: 4px;
+        box-sizing: border-box;
+      }
+    `,
+  ];
+
+  /** Asciicast v2 document to play. */
+  @property({ type: String }) cast = "";
+  @property({ type: Boolean }) autoplay = true;
+
+  @state() private playing = false;
+  @state() private position = 0;
+  @state() private speed = 1;
+  @state() private error: string | null = null;
+
+  private parsed: ParsedCast | null = null;
+  private terminal: Terminal | null = null;
+  private fitAddon: FitAddon | null = null;
+  private nextIndex = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private playStartedAt = 0;
+  private playStartedFrom = 0;
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.pause();
+    this.terminal?.dispose();
+    this.terminal = null;
+  }
+
+  protected override firstUpdated(changed: PropertyValues) {
+    super.firstUpdated(changed);
+    const container = this.renderRoot.querySelector<HTMLElement>(".player-body");
+    if (!container) {
+      return;
+    }
+    this.terminal = new Terminal({
+      disableStdin: true,
+      cursorBlink: false,
+      fontSize: 14,
+      fontFamily: 'Menlo, Monaco, "Courier New", monospace',
+      theme: { background: "#1e1e1e", foreground: "#d4d4d4" },
+    });
+    this.fitAddon = new FitAddon();
+    this.terminal.loadAddon(this.fitAddon);
+    this.terminal.open(container);
+    this.load();
+  }
+
+  protected override updated(changed: PropertyValues) {
+    super.updated(changed);
+    if (changed.has("cast") && changed.get("cast") !== undefined) {
+      this.load();
+    }
+  }
+
+  private load() {
+    this.pause();
+    this.parsed = this.cast ? parseCast(this.cast) : null;
+    this.error = this.cast && !this.parsed ? "Not an asciicast v2 recording" : null;
+    this.restart();
+    if (this.autoplay && this.parsed) {
+      this.play();
+    }
+  }
+
+  private restart() {
+    this.terminal?.reset();
+    if (this.parsed) {
+      this.terminal?.resize(this.parsed.width, this.parsed.height);
+    }
+    this.nextIndex = 0;
+    this.position = 0;
+  }
+
+  play() {
+    if (!this.parsed || this.playing) {
+      return;
+    }
+    if (this.nextIndex >= this.parsed.events.length) {
+      this.restart();
+    }
+    this.playing = true;
+    this.playStartedAt = performance.now();
+    this.playStartedFrom = this.position;
+    this.tick();
+  }
+
+  pause() {
+    this.playing = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private tick() {
+    const parsed = this.parsed;
+    if (!parsed || !this.playing) {
+      return;
+    }
+    const now =
+      this.playStartedFrom + ((performance.now() - this.playStartedAt) / 1000) * this.speed;
+    while (this.nextIndex < parsed.events.length && parsed.events[this.nextIndex][0] <= now) {
+      this.apply(parsed.events[this.nextIndex]);
+      this.nextIndex++;
+    }
+    this.position = Math.min(now, parsed.duration);
+    if (this.nextIndex >= parsed.events.length) {
+      this.playing = false;
+      return;
+    }
+    const wait = ((parsed.events[this.nextIndex][0] - now) / this.speed) * 1000;
+    this.timer = setTimeout(() => this.tick(), Math.max(0, Math.min(wait, 250)));
+  }
+
+  private apply(event: CastEvent) {
+    const [, type, data] = event;
+    if (type === "o") {
+      this.terminal?.write(data);
+    } else if (type === "r") {
+      const match = /^(\d+)x(\d+)$/.exec(data);
+      if (match) {
+        this.terminal?.resize(Number(match[1]), Number(match[2]));
+      }
+    } else if (type === "m") {
+      this.terminal?.writeln(`\r\n\x1b[33m[${data}]\x1b[0m`);
+    }
+  }
+
+  private setSpeed(speed: number) {
+    const wasPlaying = this.playing;
+    this.pause();
+    this.speed = speed;
+    if (wasPlaying) {
+      this.play();
+    }
+  }
+
+  override render() {
+    const duration = this.parsed?.duration ?? 0;
+    return html`
+      <div class="player-header">
+        <span>
+          ${
+            this.error ??
+            `${this.parsed?.title ?? "Recording"} · ${formatTime(this.position)} / ${formatTime(duration)}` +
+              (this.parsed?.inputEvents ? ` · ${this.parsed.inputEvents} input events` : "")
+          }
+        </span>
+        <div class="player-actions">
+          <button @click=${() => (this.playing ? this.pause() : this.play())} ?disabled=${!this.parsed}>
+            ${this.playing ? "Pause" : "Play"}
+          </button>
+          <button
+            @click=${() => {
+              this.pause();
+              this.restart();
+            }}
+            ?disabled=${!this.parsed}
+          >
+            Restart
+          </button>
+          <select
+            .value=${String(this.speed)}
+            @change=${(e: Event) => this.setSpeed(Number((e.target as HTMLSelectElement).value))}
+          >
+            ${[1, 2, 4, 8].map((speed) => html`<option value=${speed}>${speed}x</option>`)}
+          </select>
+        </div>
+      </div>
+      <div class="player-body"></div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "asciicast-player": AsciicastPlayer;
+  }
+}
@@ -4,3 +4,4 @@
  */
 
 export { XtermTerminal } from "./xterm-terminal.js";
+export { AsciicastPlayer } from "./asciicast-player.js";
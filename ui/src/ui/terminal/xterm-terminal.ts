@@ -3,6 +3,9 @@
  * OPENCLAWMU ADDITION: tenant terminal client component.
  *
  * Provides a browser-based terminal that connects to tenant sandboxes via WebSocket.
+ * The terminal ID is remembered per instance (sessionStorage), so a page refresh or
+ * dropped connection reattaches to the running PTY and replays its scrollback
+ * instead of spawning a new shell. Only "Close" kills the PTY.
  *
  * Note: This component requires the xterm.css to be loaded. The styles are embedded
  * in the component's shadow DOM for encapsulation.
@@ -15,7 +18,7 @@ import { LitElement, html, css, type PropertyValues } from "lit";
 import { customElement, property, state } from "lit/decorators.js";
 
 // xterm.js base styles (embedded for shadow DOM compatibility)
-const xtermBaseStyles = css`
+export const xtermBaseStyles = css`
   .xterm {
     cursor: text;
     position: relative;
@@ -191,8 +194,15 @@ export type TerminalEvent =
   | { type: "output"; terminalId: string; data: string }
   | { type: "exit"; terminalId: string; exitCode: number | null; signal: string | null }
   | { type: "spawned"; terminalId: string; pid: number; cols: number; rows: number }
+  | { type: "attached"; terminalId: string; mode: TerminalAttachMode; scrollback: string }
   | { type: "error"; message: string };
 
+export type TerminalAttachMode = "control" | "observe";
+
+const STORAGE_KEY_PREFIX = "openclaw.terminal.";
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 10_000;
+
 @customElement("xterm-terminal")
 export class XtermTerminal extends LitElement {
   static override styles = [
@@ -298,16 +308,25 @@ export class XtermTerminal extends LitElement {
   @property({ type: String }) gatewayUrl = "";
   @property({ type: String }) token = "";
   @property({ type: Boolean }) autoConnect = false;
+  /** Attach to this terminal instead of the remembered one (e.g. to observe a shared session). */
+  @property({ type: String }) attachTerminalId = "";
+  /** Attach as a read-only observer. */
+  @property({ type: Boolean }) observe = false;
 
   @state() private status: "disconnected" | "connecting" | "connected" = "disconnected";
   @state() private terminalId: string | null = null;
   @state() private pid: number | null = null;
+  @state() private mode: TerminalAttachMode = "control";
 
   private terminal: Terminal | null = null;
   private fitAddon: FitAddon | null = null;
   private ws: WebSocket | null = null;
   private resizeObserver: ResizeObserver | null = null;
   private terminalContainer: HTMLElement | null = null;
+  private attachRequestId: string | null = null;
+  private manualDisconnect = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelayMs = RECONNECT_BASE_DELAY_MS;
 
   override connectedCallback() {
     super.connectedCallback();
@@ -318,6 +337,7 @@ export class XtermTerminal extends LitElement {
 
   override disconnectedCallback() {
     super.disconnectedCallback();
+    // Leave the PTY running so the session can be reattached later.
     this.disconnect();
   }
 
@@ -395,6 +415,11 @@ export class XtermTerminal extends LitElement {
     if (this.status === "connected" || this.status === "connecting") {
       return;
     }
+    this.manualDisconnect = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
 
     if (!this.gatewayUrl) {
       this.terminal?.writeln("\x1b[31mError: Gateway URL not configured\x1b[0m");
@@ -429,6 +454,8 @@ export class XtermTerminal extends LitElement {
         this.status = "disconnected";
         this.terminalId = null;
         this.pid = null;
+        this.ws = null;
+        this.scheduleReconnect();
       });
     } catch (error) {
       this.terminal?.writeln(`\x1b[31mConnection error: ${String(error)}\x1b[0m`);
@@ -462,6 +489,81 @@ export class XtermTerminal extends LitElement {
     this.ws.send(JSON.stringify(connectRequest));
   }
 
+  private get storageKey(): string | null {
+    return this.instanceId ? `${STORAGE_KEY_PREFIX}${this.instanceId}` : null;
+  }
+
+  private loadStoredTerminalId(): string | null {
+    const key = this.storageKey;
+    try {
+      return key ? sessionStorage.getItem(key) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private storeTerminalId(terminalId: string | null) {
+    const key = this.storageKey;
+    if (!key) {
+      return;
+    }
+    try {
+      if (terminalId) {
+        sessionStorage.setItem(key, terminalId);
+      } else {
+        sessionStorage.removeItem(key);
+      }
+    } catch {
+      // storage unavailable (private mode); reattach only works within this page
+    }
+  }
+
+  /**
+   * Reconnects after an unexpected close while a terminal was remembered.
+   */
+  private scheduleReconnect() {
+    if (this.manualDisconnect || this.reconnectTimer || !this.isConnected) {
+      return;
+    }
+    if (!this.attachTerminalId && !this.loadStoredTerminalId()) {
+      return;
+    }
+    const delay = this.reconnectDelayMs;
+    this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, RECONNECT_MAX_DELAY_MS);
+    this.terminal?.writeln(`\x1b[33mReconnecting in ${Math.round(delay / 1000)}s...\x1b[0m`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.connect();
+    }, delay);
+  }
+
+  private openTerminal() {
+    const terminalId = this.attachTerminalId || this.loadStoredTerminalId();
+    if (terminalId) {
+      this.attachTerminal(terminalId);
+    } else {
+      this.spawnTerminal();
+    }
+  }
+
+  private attachTerminal(terminalId: string) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    this.attachRequestId = crypto.randomUUID();
+    const request = {
+      id: this.attachRequestId,
+      method: "terminal.attach",
+      params: {
+        terminalId,
+        mode: this.observe ? "observe" : "control",
+      },
+    };
+
+    this.ws.send(JSON.stringify(request));
+  }
+
   private spawnTerminal() {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       return;
@@ -490,29 +592,81 @@ export class XtermTerminal extends LitElement {
 
       // Handle gateway response
       if (message.id && message.result) {
-        // Handle connect (hello) response - now spawn terminal
+        // Handle connect (hello) response - now attach or spawn terminal
         if (message.result.protocol !== undefined) {
           this.terminal?.writeln("\x1b[32mAuthenticated with gateway\x1b[0m");
-          this.spawnTerminal();
+          this.openTerminal();
+          return;
+        }
+        // Handle terminal.attach response - replay scrollback
+        if (message.id === this.attachRequestId && message.result.terminalId) {
+          this.attachRequestId = null;
+          this.terminalId = message.result.terminalId;
+          this.pid = message.result.pid;
+          this.mode = message.result.mode ?? "control";
+          this.status = "connected";
+          this.reconnectDelayMs = RECONNECT_BASE_DELAY_MS;
+          if (!this.attachTerminalId) {
+            this.storeTerminalId(this.terminalId);
+          }
+          this.terminal?.reset();
+          if (typeof message.result.scrollback === "string") {
+            this.terminal?.write(message.result.scrollback);
+          }
+          if (this.mode === "observe") {
+            this.terminal?.writeln("\r\n\x1b[33m(observing read-only)\x1b[0m");
+          } else if (this.terminal) {
+            this.sendResize(this.terminal.cols, this.terminal.rows);
+          }
           return;
         }
         // Handle terminal.spawn response
         if (message.result.terminalId) {
           this.terminalId = message.result.terminalId;
           this.pid = message.result.pid;
+          this.mode = "control";
           this.status = "connected";
+          this.reconnectDelayMs = RECONNECT_BASE_DELAY_MS;
+          this.storeTerminalId(this.terminalId);
           this.terminal?.writeln(`\x1b[32mTerminal spawned (pid: ${this.pid})\x1b[0m`);
           this.terminal?.writeln("");
         }
         return;
       }
 
+      // The remembered terminal is gone (exited or timed out) - start a new one
+      if (message.id && message.id === this.attachRequestId && message.error) {
+        this.attachRequestId = null;
+        this.terminal?.writeln(
+          `\x1b[33mCould not reattach: ${message.error.message || message.error}\x1b[0m`,
+        );
+        if (this.attachTerminalId || this.observe) {
+          return;
+        }
+        this.storeTerminalId(null);
+        this.spawnTerminal();
+        return;
+      }
+
       // Handle error responses
       if (message.id && message.error) {
         this.terminal?.writeln(`\x1b[31mError: ${message.error.message || message.error}\x1b[0m`);
         return;
       }
 
+      // Another viewer took control of this terminal
+      if (message.event === "terminal.mode" && message.payload) {
+        if (message.payload.terminalId === this.terminalId) {
+          this.mode = message.payload.mode;
+          if (this.mode === "observe") {
+            this.terminal?.writeln(
+              "\r\n\x1b[33m(another viewer took control; now read-only)\x1b[0m",
+            );
+          }
+        }
+        return;
+      }
+
       // Handle gateway events
       if (message.event === "terminal.output" && message.payload) {
         if (message.payload.terminalId === this.terminalId) {
@@ -531,6 +685,7 @@ export class XtermTerminal extends LitElement {
           this.status = "disconnected";
           this.terminalId = null;
           this.pid = null;
+          this.storeTerminalId(null);
         }
         return;
       }
@@ -548,6 +703,9 @@ export class XtermTerminal extends LitElement {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.terminalId) {
       return;
     }
+    if (this.mode === "observe") {
+      return;
+    }
 
     const request = {
       id: crypto.randomUUID(),
@@ -565,6 +723,9 @@ export class XtermTerminal extends LitElement {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.terminalId) {
       return;
     }
+    if (this.mode === "observe") {
+      return;
+    }
 
     const request = {
       id: crypto.randomUUID(),
@@ -579,11 +740,20 @@ export class XtermTerminal extends LitElement {
     this.ws.send(JSON.stringify(request));
   }
 
+  /**
+   * Detaches from the terminal. The PTY keeps running and is reattached on the next connect.
+   */
   disconnect() {
+    this.manualDisconnect = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     if (this.terminalId && this.ws && this.ws.readyState === WebSocket.OPEN) {
       const request = {
         id: crypto.randomUUID(),
-        method: "terminal.close",
+        method: "terminal.detach",
         params: {
           terminalId: this.terminalId,
         },
@@ -601,6 +771,25 @@ export class XtermTerminal extends LitElement {
     this.pid = null;
   }
 
+  /**
+   * Kills the PTY and forgets the remembered terminal.
+   */
+  close() {
+    if (this.terminalId && this.ws && this.ws.readyState === WebSocket.OPEN) {
+      const request = {
+        id: crypto.randomUUID(),
+        method: "terminal.close",
+        params: {
+          terminalId: this.terminalId,
+        },
+      };
+      this.ws.send(JSON.stringify(request));
+      this.terminalId = null;
+    }
+    this.storeTerminalId(null);
+    this.disconnect();
+  }
+
   clear() {
     this.terminal?.clear();
   }
@@ -623,6 +812,12 @@ export class XtermTerminal extends LitElement {
             <button @click=${() => this.disconnect()} ?disabled=${this.status === "disconnected"}>
               Disconnect
             </button>
+            <button
+              @click=${() => this.close()}
+              ?disabled=${this.status !== "connected" || this.mode === "observe"}
+            >
+              Close
+            </button>
             <button @click=${() => this.clear()}>Clear</button>
           </div>
         </div>
@@ -637,8 +832,10 @@ export class XtermTerminal extends LitElement {
         return "Disconnected";
       case "connecting":
         return "Connecting...";
-      case "connected":
-        return this.pid ? `Connected (PID: ${this.pid})` : "Connected";
+      case "connected": {
+        const label = this.mode === "observe" ? "Observing" : "Connected";
+        return this.pid ? `${label} (PID: ${this.pid})` : label;
+      }
     }
   }
 }
@@ -434,10 +434,31 @@ export type {
   SessionUsageTimeSeries,
 } from "./usage-types.ts";
 
+// OPENCLAWMU ADDITION: calendar rules of `every` and `cron` schedules
+export type CronCalendarRules = {
+  exclude?: string[];
+  excludeDates?: string[];
+  businessDays?: boolean;
+  businessDay?: number;
+  blackouts?: Array<{ start: string; end: string; days?: number[] }>;
+  tz?: string;
+};
+
 export type CronSchedule =
   | { kind: "at"; at: string }
-  | { kind: "every"; everyMs: number; anchorMs?: number }
-  | { kind: "cron"; expr: string; tz?: string };
+  | { kind: "every"; everyMs: number; anchorMs?: number; calendar?: CronCalendarRules }
+  | { kind: "cron"; expr: string; tz?: string; calendar?: CronCalendarRules }
+  // OPENCLAWMU ADDITION: runs when another job finishes
+  | { kind: "after"; jobId: string; on?: Array<"ok" | "error"> }
+  // OPENCLAWMU ADDITION: event-triggered jobs
+  | { kind: "webhook"; token?: string }
+  | {
+      kind: "watch";
+      path: string;
+      include?: string[];
+      exclude?: string[];
+      debounceMs?: number;
+    };
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
@@ -64,6 +64,8 @@ export type TenantSummary = {
   isOverQuota: boolean;
   isBlocked: boolean;
   lastActiveAt?: number;
+  lastBackupAt?: number;
+  backupFailing?: boolean;
 };
 
 export type AdminResourcesViewState = {
@@ -75,6 +77,7 @@ export type AdminResourcesViewState = {
     totalCount: number;
     overQuotaCount: number;
     blockedCount: number;
+    backupFailingCount?: number;
     totalDiskUsageBytes: number;
     totalTokensUsed: number;
     totalCostCents: number;
@@ -540,6 +543,15 @@ function renderTenantAggregates(
           `
           : nothing
       }
+      ${
+        aggregates.backupFailingCount
+          ? html`
+            <div class="aggregate-chip" style="color: #f44336;">
+              Backups Failing: <span class="value">${aggregates.backupFailingCount}</span>
+            </div>
+          `
+          : nothing
+      }
       <div class="aggregate-chip">
         Total Tokens: <span class="value">${formatNumber(aggregates.totalTokensUsed)}</span>
       </div>
@@ -604,6 +616,7 @@ function renderTenantsTable(params: {
           >
             Last Active
           </th>
+          <th>Last Backup</th>
           <th>Status</th>
         </tr>
       </thead>
@@ -641,6 +654,16 @@ function renderTenantsTable(params: {
               </td>
               <td>${t.activeSessions} / ${t.totalSessions}</td>
               <td>${t.lastActiveAt ? timeAgo(t.lastActiveAt) : "-"}</td>
+              <td style="${t.backupFailing ? "color: #f44336;" : ""}">
+                ${t.lastBackupAt ? timeAgo(t.lastBackupAt) : "-"}
+                ${
+                  t.backupFailing
+                    ? html`
+                        <br /><small>failing</small>
+                      `
+                    : nothing
+                }
+              </td>
               <td>
                 ${
                   t.isBlocked
@@ -4,8 +4,9 @@
 
 import { html, css, type TemplateResult } from "lit";
 import { renderIcon } from "../icons.js";
-// Import to register the xterm-terminal custom element
+// Import to register the xterm-terminal and asciicast-player custom elements
 import "../terminal/xterm-terminal.js";
+import "../terminal/asciicast-player.js";
 
 export type TerminalInstance = {
   id: string;
@@ -13,6 +14,30 @@ export type TerminalInstance = {
   status: "disconnected" | "connecting" | "connected";
   pid: number | null;
   title: string;
+  /** Existing terminal to attach to (e.g. from terminal.list) instead of spawning. */
+  attachTerminalId?: string;
+  /** Attach as a read-only observer. */
+  observe?: boolean;
+};
+
+/**
+ * Terminal recording entry (from terminal.recordings.list).
+ */
+export type TerminalRecordingItem = {
+  recordingId: string;
+  terminalId: string;
+  startedAt: number;
+  modifiedAt: number;
+  sizeBytes: number;
+  active: boolean;
+};
+
+export type TerminalRecordingsViewState = {
+  recordings: TerminalRecordingItem[];
+  loading: boolean;
+  error: string | null;
+  /** Recording currently loaded in the player. */
+  playback: { recordingId: string; cast: string } | null;
 };
 
 export type TerminalViewState = {
@@ -200,6 +225,47 @@ export const terminalViewStyles = css`
     color: var(--text-warning, #ff9800);
   }
 
+  .terminal-recordings {
+    display: flex;
+    height: 100%;
+    background: var(--bg-primary, #1e1e1e);
+  }
+
+  .terminal-recordings-list {
+    width: 280px;
+    flex-shrink: 0;
+    overflow-y: auto;
+    border-right: 1px solid var(--border-color, #3d3d3d);
+    font-size: 12px;
+  }
+
+  .terminal-recordings-list .recording {
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+    padding: 8px 12px;
+    cursor: pointer;
+    color: var(--text-secondary, #888);
+    border-bottom: 1px solid var(--border-color, #3d3d3d);
+  }
+
+  .terminal-recordings-list .recording:hover,
+  .terminal-recordings-list .recording.active {
+    background: var(--bg-hover, #3d3d3d);
+    color: var(--text-primary, #fff);
+  }
+
+  .terminal-recordings-list .recording .meta {
+    font-size: 11px;
+    opacity: 0.8;
+  }
+
+  .terminal-recordings-player {
+    flex: 1;
+    position: relative;
+    overflow: hidden;
+  }
+
   @keyframes pulse {
     0%,
     100% {
@@ -279,6 +345,8 @@ export function renderTerminalView(params: {
                 .instanceId=${instance.id}
                 .gatewayUrl=${state.gatewayUrl}
                 .token=${state.token}
+                .attachTerminalId=${instance.attachTerminalId ?? ""}
+                .observe=${instance.observe ?? false}
                 .autoConnect=${true}
               ></xterm-terminal>
             </div>
@@ -288,3 +356,83 @@ export function renderTerminalView(params: {
     </div>
   `;
 }
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Recordings list with an asciicast player for the selected recording.
+ */
+export function renderTerminalRecordingsView(params: {
+  state: TerminalRecordingsViewState;
+  onRefresh: () => void;
+  onOpenRecording: (recordingId: string) => void;
+}): TemplateResult {
+  const { state, onRefresh, onOpenRecording } = params;
+
+  if (state.error) {
+    return html`
+      <div class="terminal-view">
+        <div class="terminal-not-available">
+          <h3>Recordings Unavailable</h3>
+          <p>${state.error}</p>
+        </div>
+      </div>
+    `;
+  }
+
+  if (!state.loading && state.recordings.length === 0) {
+    return html`
+      <div class="terminal-view">
+        <div class="terminal-empty">
+          <div class="icon">${renderIcon("terminal", "icon")}</div>
+          <h3>No Recordings</h3>
+          <p>Terminal recording is enabled per tenant via the terminal.recording settings.</p>
+          <button @click=${onRefresh}>Refresh</button>
+        </div>
+      </div>
+    `;
+  }
+
+  const activeId = state.playback?.recordingId ?? null;
+  return html`
+    <div class="terminal-view">
+      <div class="terminal-recordings">
+        <div class="terminal-recordings-list">
+          ${state.recordings.map(
+            (recording) => html`
+              <div
+                class="recording ${recording.recordingId === activeId ? "active" : ""}"
+                @click=${() => onOpenRecording(recording.recordingId)}
+              >
+                <span>${new Date(recording.startedAt).toLocaleString()}</span>
+                <span class="meta">
+                  ${recording.terminalId.slice(0, 8)} · ${formatBytes(recording.sizeBytes)}
+                  ${recording.active ? " · live" : ""}
+                </span>
+              </div>
+            `,
+          )}
+        </div>
+        <div class="terminal-recordings-player">
+          ${
+            state.playback
+              ? html`<asciicast-player .cast=${state.playback.cast}></asciicast-player>`
+              : html`
+                  <div class="terminal-empty">
+                    <p>${state.loading ? "Loading..." : "Select a recording to play it back."}</p>
+                  </div>
+                `
+          }
+        </div>
+      </div>
+    </div>
+  `;
+}